@@ -20,10 +20,13 @@ const external = [
   'http',
   'https',
   'zlib',
+  'child_process',
   // Third-party dependencies (only the ones actually used)
   '@gltf-transform/core',
   '@gltf-transform/extensions',
   '@gltf-transform/functions',
+  'draco3dgltf',
+  'meshoptimizer',
   'zod',
 ];
 
@@ -0,0 +1,126 @@
+/**
+ * Animation resampler tests
+ *
+ * Checks Hermite baking of CUBICSPLINE curves (including normalized
+ * rotations), held keys for STEP curves and error-bounded keyframe
+ * reduction, then converts GLBs with both sampler types and reads back the
+ * xformOp time samples.
+ */
+import { describe, it, expect } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { resampleCurve } from '../converters/gltf/helpers/animation-resampler';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+
+/**
+ * One-component CUBICSPLINE output: [inTangent, value, outTangent] per key
+ */
+function cubicKeys(keys: Array<[number, number, number]>): number[] {
+  return keys.flat();
+}
+
+function hermite(v0: number, b0: number, v1: number, a1: number, dt: number, s: number): number {
+  return (2 * s ** 3 - 3 * s ** 2 + 1) * v0 + (s ** 3 - 2 * s ** 2 + s) * dt * b0 +
+    (-2 * s ** 3 + 3 * s ** 2) * v1 + (s ** 3 - s ** 2) * dt * a1;
+}
+
+describe('resampleCurve', () => {
+  it('bakes CUBICSPLINE segments as Hermite splines at the bake rate', () => {
+    const curve = resampleCurve([0, 1], cubicKeys([[0, 0, 2], [-3, 1, 0]]), 'CUBICSPLINE', 1, false, {
+      bakeRate: 4,
+      tolerance: 0
+    });
+    expect(curve.times).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    curve.values.forEach(([value], i) => {
+      expect(value).toBeCloseTo(hermite(0, 2, 1, -3, 1, curve.times[i]), 10);
+    });
+  });
+
+  it('normalizes baked rotations onto one hemisphere', () => {
+    const half = Math.SQRT1_2;
+    const output = [
+      0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0,
+      0, 0, 0, 0, 0, 0, -half, -half, 0, 0, 0, 0
+    ];
+    const curve = resampleCurve([0, 1], output, 'CUBICSPLINE', 4, true, { bakeRate: 10, tolerance: 0 });
+    for (const q of curve.values) {
+      expect(Math.hypot(...q)).toBeCloseTo(1, 6);
+    }
+    for (let i = 1; i < curve.values.length; i++) {
+      const [a, b] = [curve.values[i - 1], curve.values[i]];
+      expect(a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3]).toBeGreaterThan(0);
+    }
+    curve.values.at(-1)!.forEach((component, c) => expect(component).toBeCloseTo([0, 0, -half, -half][c], 6));
+  });
+
+  it('holds STEP values until one time code before the next key', () => {
+    const curve = resampleCurve([0, 1, 2], [0, 5, 5], 'STEP', 1, false, { tolerance: 0 });
+    expect(curve.times).toEqual([0, 1 - 1 / 120, 1, 2 - 1 / 120, 2]);
+    expect(curve.values.map(([value]) => value)).toEqual([0, 0, 5, 5, 5]);
+  });
+
+  it('drops keys linear interpolation reproduces within the tolerance', () => {
+    const curve = resampleCurve([0, 1, 2, 3, 4], [0, 1, 2.00001, 3, 0], 'LINEAR', 1, false, { tolerance: 1e-3 });
+    expect(curve.times).toEqual([0, 3, 4]);
+
+    const held = resampleCurve([0, 1, 2], [0, 5, 5], 'STEP', 1, false);
+    expect(held.times).toEqual([0, 1 - 1 / 120, 1, 2]);
+  });
+
+  it('reduces a baked spline to the keys its shape needs', () => {
+    const straight = resampleCurve([0, 2], cubicKeys([[0, 0, 1], [1, 2, 0]]), 'CUBICSPLINE', 1, false);
+    expect(straight.times).toEqual([0, 2]);
+
+    const curved = resampleCurve([0, 2], cubicKeys([[0, 0, 4], [4, 2, 0]]), 'CUBICSPLINE', 1, false, { tolerance: 1e-3 });
+    expect(curved.times.length).toBeGreaterThan(2);
+    expect(curved.times.length).toBeLessThan(121);
+  });
+});
+
+function findNode(node: UsdNode, name: string): UsdNode | undefined {
+  if (node.getName() === name) return node;
+  for (const child of node.getChildren()) {
+    const found = findNode(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+async function convertAnimated(interpolation: 'STEP' | 'CUBICSPLINE', times: number[], output: number[]): Promise<Map<number, unknown>> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const node = document.createNode('Mover');
+  document.createScene('Scene').addChild(node);
+  const input = document.createAccessor().setType('SCALAR').setArray(new Float32Array(times)).setBuffer(buffer);
+  const values = document.createAccessor().setType('VEC3').setArray(new Float32Array(output)).setBuffer(buffer);
+  const sampler = document.createAnimationSampler().setInput(input).setOutput(values).setInterpolation(interpolation);
+  document.createAnimation('Move')
+    .addSampler(sampler)
+    .addChannel(document.createAnimationChannel().setTargetNode(node).setTargetPath('translation').setSampler(sampler));
+
+  const glb = await new NodeIO().writeBinary(document);
+  const usdz = await convertGlbToUsdz(glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer);
+  const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+  const translate = [...findNode(root, 'Mover')!.getTimeSampledProperties()].find(p => p.key === 'xformOp:translate')!;
+  return translate.timeSamples;
+}
+
+describe('GLB animation resampling', () => {
+  it('writes STEP channels as held time samples', async () => {
+    const samples = await convertAnimated('STEP', [0, 1], [0, 0, 0, 2, 0, 0]);
+    expect([...samples.keys()]).toEqual([0, 119, 120]);
+    expect([...samples.values()]).toEqual(['(0, 0, 0)', '(0, 0, 0)', '(2, 0, 0)']);
+  });
+
+  it('writes CUBICSPLINE channels as baked curves, not their key values', async () => {
+    const samples = await convertAnimated('CUBICSPLINE', [0, 1], [
+      0, 0, 0, 0, 0, 0, 4, 0, 0,
+      4, 0, 0, 1, 0, 0, 0, 0, 0
+    ]);
+    expect(samples.size).toBeGreaterThan(2);
+    const [time, value] = [...samples].find(([timeCode]) => timeCode > 0 && timeCode < 120)!;
+    const s = Number(time) / 120;
+    expect(Number(String(value).slice(1).split(',')[0])).toBeCloseTo(hermite(0, 4, 1, 4, 1, s), 4);
+  });
+});
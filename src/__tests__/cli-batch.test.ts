@@ -0,0 +1,102 @@
+/**
+ * CLI batch planning tests
+ *
+ * Builds a small mixed-format tree on disk and checks which files directory,
+ * glob and file-list inputs pick up, and where their outputs are mirrored.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { planBatchJobs } from '../cli/services/BatchConverter';
+import { expandGlob, getGlobBase, isGlobInput } from '../utils/file-utils';
+
+let root: string;
+
+function touch(relativePath: string): void {
+  const file = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, '');
+}
+
+function outputs(jobs: ReturnType<typeof planBatchJobs>, outputDir: string): string[] {
+  return jobs.map(job => path.relative(outputDir, job.output)).sort();
+}
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-batch-'));
+  touch('library/props/chair.glb');
+  touch('library/props/chair.obj');
+  touch('library/props/chair.mtl');
+  touch('library/props/lamp/lamp.gltf');
+  touch('library/scans/room.PLY');
+  touch('library/scans/part.stl');
+  touch('library/readme.txt');
+  touch('br/chair [v2].glb');
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('planBatchJobs', () => {
+  it('mirrors every supported file under a directory', () => {
+    const outputDir = path.join(root, 'out');
+    const jobs = planBatchJobs([path.join(root, 'library')], outputDir);
+
+    expect(outputs(jobs, outputDir)).toEqual([
+      'props/chair.glb.usdz',
+      'props/chair.obj.usdz',
+      'props/lamp/lamp.usdz',
+      'scans/part.usdz',
+      'scans/room.usdz'
+    ]);
+    expect(jobs.find(job => job.output.endsWith('lamp.usdz'))!.relativePath).toBe(path.join('props', 'lamp', 'lamp.gltf'));
+  });
+
+  it('mirrors glob matches relative to the glob base', () => {
+    const outputDir = path.join(root, 'out');
+    const jobs = planBatchJobs([path.join(root, 'library/**/*.{glb,gltf}')], outputDir);
+
+    expect(outputs(jobs, outputDir)).toEqual(['props/chair.usdz', 'props/lamp/lamp.usdz']);
+  });
+
+  it('flattens explicit files and skips duplicates', () => {
+    const outputDir = path.join(root, 'out');
+    const part = path.join(root, 'library/scans/part.stl');
+    const jobs = planBatchJobs([part, part, path.join(root, 'library/props/chair.obj')], outputDir);
+
+    expect(outputs(jobs, outputDir)).toEqual(['chair.usdz', 'part.usdz']);
+  });
+
+  it('keeps an existing file with glob syntax in its name literal', () => {
+    const outputDir = path.join(root, 'out');
+    const jobs = planBatchJobs([path.join(root, 'br/chair [v2].glb')], outputDir);
+
+    expect(outputs(jobs, outputDir)).toEqual(['chair [v2].usdz']);
+    expect(jobs[0].source).toBe(path.join(root, 'br/chair [v2].glb'));
+  });
+});
+
+describe('glob helpers', () => {
+  it('finds the leading directory of a pattern', () => {
+    expect(getGlobBase('assets/props/**/*.glb')).toBe('assets/props');
+    expect(getGlobBase('*.glb')).toBe('.');
+    expect(getGlobBase('/data/scan-??.ply')).toBe('/data');
+  });
+
+  it('treats existing paths as literal inputs', () => {
+    expect(isGlobInput(path.join(root, 'br/chair [v2].glb'))).toBe(false);
+    expect(isGlobInput(path.join(root, 'br/chair [v3].glb'))).toBe(true);
+    expect(isGlobInput(path.join(root, 'library/*.obj'))).toBe(true);
+  });
+
+  it('matches single-segment and recursive wildcards', () => {
+    const relative = (pattern: string) =>
+      expandGlob(path.join(root, pattern)).map(file => path.relative(root, file));
+
+    expect(relative('library/*/*.obj')).toEqual([path.join('library', 'props', 'chair.obj')]);
+    expect(relative('library/**/chair.*')).toHaveLength(3);
+    expect(relative('library/scans/[pr]*')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * CLI logger tests
+ *
+ * Builds the CliLogger layer with and without --json and checks that JSON
+ * mode keeps stdout for the document: CLI messages and library logging go
+ * to stderr.
+ */
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Effect, Layer } from 'effect';
+import { CliConfig, type CliConfigShape } from '../cli/services/CliConfig';
+import { CliLogger, CliLoggerLive, type CliLoggerShape } from '../cli/services/CliLogger';
+import { LoggerFactory } from '../utils';
+
+function createLogger(json: boolean): CliLoggerShape {
+  const config: CliConfigShape = {
+    command: 'convert',
+    inputPath: 'model.glb',
+    inputPaths: ['model.glb'],
+    outputPath: 'model.usdz',
+    batch: false,
+    target: 'usdz',
+    jobs: 1,
+    format: '.glb',
+    debug: false,
+    decimateTarget: 0,
+    decimateRatio: 1,
+    upAxis: 'Y',
+    metersPerUnit: 1,
+    json
+  };
+  const layer = CliLoggerLive.pipe(Layer.provide(Layer.succeed(CliConfig, config)));
+  return Effect.runSync(Effect.provide(CliLogger, layer));
+}
+
+function spyOutput() {
+  return {
+    log: vi.spyOn(console, 'log').mockImplementation(() => undefined),
+    error: vi.spyOn(console, 'error').mockImplementation(() => undefined),
+    stdout: vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('CliLogger', () => {
+  it('writes messages and library logs to stderr in --json mode', () => {
+    const logger = createLogger(true);
+    const output = spyOutput();
+
+    Effect.runSync(logger.info('Converting...'));
+    Effect.runSync(logger.print('Vertices: 3'));
+    logger.withLibraryLogs(() => LoggerFactory.forConversion().info('Starting conversion'));
+    Effect.runSync(logger.json({ ok: true }));
+
+    expect(output.log).not.toHaveBeenCalled();
+    expect(output.error).toHaveBeenCalledWith(expect.stringContaining('Converting...'));
+    expect(output.error).toHaveBeenCalledWith('Vertices: 3');
+    expect(output.error).toHaveBeenCalledWith(expect.stringContaining('Starting conversion'));
+    expect(output.stdout).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(String(output.stdout.mock.calls[0][0]))).toEqual({ ok: true });
+  });
+
+  it('keeps messages on stdout and library logs on the console otherwise', () => {
+    const logger = createLogger(false);
+    const output = spyOutput();
+
+    Effect.runSync(logger.info('Converting...'));
+
+    expect(logger.libraryTarget).toBeUndefined();
+    expect(output.log).toHaveBeenCalledWith(expect.stringContaining('Converting...'));
+    expect(output.error).not.toHaveBeenCalled();
+  });
+});
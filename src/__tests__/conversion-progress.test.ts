@@ -0,0 +1,230 @@
+/**
+ * Progress and cancellation tests
+ *
+ * Converts in-memory GLB and PLY inputs with `onProgress` and an
+ * `AbortSignal`, checking the reported stages, fractions and streamed
+ * bytes, that aborting rejects with the signal's reason at stage boundaries
+ * and within PLY parsing and glTF mesh processing, and that partial output
+ * files and ZIP extraction directories are removed.
+ */
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { convertPlyToUsdz } from '../converters/ply';
+import { defineConfig, type ConversionProgress } from '../index';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-progress-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function createGlb(): Promise<ArrayBuffer> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const positions = document.createAccessor()
+    .setType('VEC3')
+    .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+    .setBuffer(buffer);
+  const mesh = document.createMesh('Triangle').addPrimitive(
+    document.createPrimitive().setAttribute('POSITION', positions)
+  );
+  document.createScene('Scene').addChild(document.createNode('Triangle').setMesh(mesh));
+  const glb = await new NodeIO().writeBinary(document);
+  return glb.slice().buffer;
+}
+
+const PLY = new TextEncoder().encode(`ply
+format ascii 1.0
+element vertex 3
+property float x
+property float y
+property float z
+element face 1
+property list uchar int vertex_indices
+end_header
+0 0 0
+1 0 0
+0 1 0
+3 0 1 2
+`).buffer as ArrayBuffer;
+
+/** A binary point cloud large enough to be parsed in several steps */
+function createLargePly(vertexCount: number): ArrayBuffer {
+  const header = new TextEncoder().encode(
+    `ply\nformat binary_little_endian 1.0\nelement vertex ${vertexCount}\n` +
+    'property float x\nproperty float y\nproperty float z\nend_header\n'
+  );
+  const bytes = new Uint8Array(header.length + vertexCount * 12);
+  bytes.set(header);
+  new Float32Array(bytes.buffer, header.length).set(Float32Array.from({ length: vertexCount * 3 }, (_, i) => i % 7));
+  return bytes.buffer;
+}
+
+async function createMultiMeshGlb(meshCount: number): Promise<ArrayBuffer> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const scene = document.createScene('Scene');
+  for (let i = 0; i < meshCount; i++) {
+    const positions = document.createAccessor()
+      .setType('VEC3')
+      .setArray(new Float32Array([i, 0, 0, i + 1, 0, 0, i, 1, 0]))
+      .setBuffer(buffer);
+    const mesh = document.createMesh(`Mesh${i}`).addPrimitive(
+      document.createPrimitive().setAttribute('POSITION', positions)
+    );
+    scene.addChild(document.createNode(`Node${i}`).setMesh(mesh));
+  }
+  const glb = await new NodeIO().writeBinary(document);
+  return glb.slice().buffer;
+}
+
+function abortedSignal(): AbortSignal {
+  const controller = new AbortController();
+  controller.abort();
+  return controller.signal;
+}
+
+describe('onProgress', () => {
+  it('reports the glTF stages in order with a rising fraction', async () => {
+    const events: ConversionProgress[] = [];
+    await convertGlbToUsdz(await createGlb(), undefined, { onProgress: event => events.push({ ...event }) });
+
+    const stages = [...new Set(events.map(event => event.stage))];
+    expect(stages).toEqual([
+      'conversion_start',
+      'glb_parsing',
+      'geometry_generation',
+      'material_generation',
+      'animation_generation',
+      'usdz_packaging',
+      'conversion_complete'
+    ]);
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].fraction).toBeGreaterThanOrEqual(events[i - 1].fraction);
+    }
+    expect(events[0].fraction).toBe(0);
+    expect(events[events.length - 1].fraction).toBe(1);
+  });
+
+  it('reports bytes streamed to outputPath', async () => {
+    const events: ConversionProgress[] = [];
+    const outputPath = path.join(dir, 'streamed.usdz');
+    const result = await convertPlyToUsdz(PLY, undefined, {
+      outputPath,
+      onProgress: event => events.push({ ...event })
+    });
+
+    const packaging = events.filter(event => event.stage === 'usdz_packaging' && event.bytesWritten > 0);
+    expect(packaging.length).toBeGreaterThan(0);
+    expect(events[events.length - 1]).toEqual({
+      stage: 'conversion_complete',
+      fraction: 1,
+      bytesWritten: result.totalBytes
+    });
+    expect(fs.statSync(outputPath).size).toBe(result.totalBytes);
+  });
+});
+
+describe('AbortSignal', () => {
+  it('rejects with the signal reason before converting', async () => {
+    const outputPath = path.join(dir, 'never.usdz');
+    await expect(convertGlbToUsdz(await createGlb(), undefined, { signal: abortedSignal(), outputPath }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+
+  it('stops at the next stage when aborted mid-conversion', async () => {
+    const controller = new AbortController();
+    const stages: string[] = [];
+    const reason = new Error('job abandoned');
+
+    await expect(convertPlyToUsdz(PLY, undefined, {
+      signal: controller.signal,
+      onProgress: ({ stage }) => {
+        stages.push(stage);
+        if (stage === 'ply_parsed') controller.abort(reason);
+      }
+    })).rejects.toBe(reason);
+    expect(stages).toEqual(['conversion_start', 'ply_parsed']);
+  });
+
+  it('stops while parsing a large PLY', async () => {
+    const controller = new AbortController();
+    const events: ConversionProgress[] = [];
+
+    await expect(convertPlyToUsdz(createLargePly(200000), undefined, {
+      signal: controller.signal,
+      onProgress: event => {
+        events.push({ ...event });
+        if (event.stage === 'conversion_start' && event.fraction > 0) controller.abort();
+      }
+    })).rejects.toMatchObject({ name: 'AbortError' });
+
+    // Parsing reports a share of the first stage before the abort lands
+    expect(events.map(event => event.stage)).toEqual(['conversion_start', 'conversion_start']);
+    expect(events[1].fraction).toBeGreaterThan(0);
+    expect(events[1].fraction).toBeLessThan(0.2);
+  });
+
+  it('stops between glTF meshes', async () => {
+    const controller = new AbortController();
+    const events: ConversionProgress[] = [];
+
+    await expect(convertGlbToUsdz(await createMultiMeshGlb(4), undefined, {
+      signal: controller.signal,
+      onProgress: event => {
+        events.push({ ...event });
+        if (event.stage === 'geometry_generation' && events.filter(e => e.stage === event.stage).length === 2) {
+          controller.abort();
+        }
+      }
+    })).rejects.toMatchObject({ name: 'AbortError' });
+
+    const geometry = events.filter(event => event.stage === 'geometry_generation');
+    expect(geometry).toHaveLength(2);
+    expect(geometry[1].fraction).toBeGreaterThan(geometry[0].fraction);
+    expect(events.some(event => event.stage === 'material_generation')).toBe(false);
+  });
+
+  it('removes the partially written output file', async () => {
+    const controller = new AbortController();
+    const outputPath = path.join(dir, 'partial.usdz');
+
+    await expect(convertGlbToUsdz(await createGlb(), undefined, {
+      outputPath,
+      signal: controller.signal,
+      onProgress: ({ bytesWritten }) => {
+        if (bytesWritten > 0) controller.abort();
+      }
+    })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+});
+
+describe('WebUsdFramework.convert with ZIP input', () => {
+  const extractionDirs = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('fbx-zip-'));
+
+  it('removes the extraction directory when the conversion is aborted', async () => {
+    const fbxPath = path.join(dir, 'model.fbx');
+    const zipPath = path.join(dir, 'model.zip');
+    fs.writeFileSync(fbxPath, '; FBX 7.4.0 project file\nFBXHeaderExtension:  {\n\tFBXVersion: 7400\n}\n');
+    execFileSync('zip', ['-q', '-j', zipPath, fbxPath]);
+
+    const before = extractionDirs();
+    const controller = new AbortController();
+    await expect(defineConfig().convert(zipPath, {
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(extractionDirs()).toEqual(before);
+  });
+});
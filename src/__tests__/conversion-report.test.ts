@@ -0,0 +1,137 @@
+/**
+ * Conversion diagnostics tests
+ *
+ * Converts small in-memory GLBs through `defineConfig` with a `logger` and
+ * `onDiagnostic` sink, and checks that nothing reaches the console, that
+ * concurrent conversions keep their own sinks, and that `convertWithReport`
+ * reports warnings, counts, stage timings and output sizes.
+ */
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { defineConfig, type LogEntry, type LogTarget } from '../index';
+
+/**
+ * A triangle GLB with `sceneCount` scenes, optionally listing an extension
+ * no reader supports
+ */
+async function createGlb(sceneCount: number, extraExtension?: string): Promise<ArrayBuffer> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const positions = document.createAccessor()
+    .setType('VEC3')
+    .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+    .setBuffer(buffer);
+  const material = document.createMaterial('Red').setBaseColorFactor([1, 0, 0, 1]);
+  const mesh = document.createMesh('Triangle').addPrimitive(
+    document.createPrimitive().setAttribute('POSITION', positions).setMaterial(material)
+  );
+  for (let i = 0; i < sceneCount; i++) {
+    document.createScene(`Scene${i}`).addChild(document.createNode(`Node${i}`).setMesh(mesh));
+  }
+
+  const glb = await new NodeIO().writeBinary(document);
+  return extraExtension ? addExtensionUsed(glb, extraExtension) : glb.slice().buffer;
+}
+
+/**
+ * Rewrite a GLB's JSON chunk to list `extension` in `extensionsUsed`
+ */
+function addExtensionUsed(glb: Uint8Array, extension: string): ArrayBuffer {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+  const jsonLength = view.getUint32(12, true);
+  const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + jsonLength)));
+  json.extensionsUsed = [...(json.extensionsUsed ?? []), extension];
+
+  // Chunks are 4-byte aligned; the JSON chunk pads with spaces
+  const text = JSON.stringify(json);
+  const jsonBytes = new TextEncoder().encode(text + ' '.repeat((4 - (text.length % 4)) % 4));
+  const rest = glb.subarray(20 + jsonLength);
+
+  const output = new Uint8Array(20 + jsonBytes.length + rest.length);
+  const out = new DataView(output.buffer);
+  output.set(glb.subarray(0, 12));
+  out.setUint32(8, output.length, true);
+  out.setUint32(12, jsonBytes.length, true);
+  out.setUint32(16, 0x4e4f534a, true);
+  output.set(jsonBytes, 20);
+  output.set(rest, 20 + jsonBytes.length);
+  return output.buffer;
+}
+
+function createTarget(): LogTarget & Record<'debug' | 'info' | 'warn' | 'error', ReturnType<typeof vi.fn>> {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('pluggable conversion logger', () => {
+  it('routes every message to the logger and onDiagnostic instead of the console', async () => {
+    const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const target = createTarget();
+    const entries: LogEntry[] = [];
+
+    const blob = await defineConfig({ logger: target, onDiagnostic: entry => entries.push(entry) })
+      .convert(await createGlb(2));
+
+    expect(blob).toBeInstanceOf(Blob);
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(consoleWarn).not.toHaveBeenCalled();
+    expect(target.info).toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith(expect.stringContaining('2 scenes'), expect.objectContaining({ code: 'scene_skipped' }));
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.find(entry => entry.code === 'scene_skipped')?.level).toBe('warn');
+  });
+
+  it('keeps concurrent conversions on their own sinks', async () => {
+    const first: LogEntry[] = [];
+    const second: LogEntry[] = [];
+    const [a, b] = [await createGlb(2), await createGlb(1)];
+
+    await Promise.all([
+      defineConfig({ onDiagnostic: entry => first.push(entry) }).convert(a),
+      defineConfig({ onDiagnostic: entry => second.push(entry) }).convert(b)
+    ]);
+
+    expect(first.some(entry => entry.code === 'scene_skipped')).toBe(true);
+    expect(second.some(entry => entry.code === 'scene_skipped')).toBe(false);
+    expect(second.length).toBeGreaterThan(0);
+  });
+});
+
+describe('convertWithReport', () => {
+  it('reports warnings, counts, stage timings and output sizes', async () => {
+    const usd = defineConfig({ onDiagnostic: () => undefined });
+    const { output, report } = await usd.convertWithReport(await createGlb(2, 'EXT_not_supported'));
+
+    expect(report.warnings.map(warning => warning.code)).toEqual(
+      expect.arrayContaining(['scene_skipped', 'unsupported_extension'])
+    );
+    expect(report.warnings.find(warning => warning.code === 'unsupported_extension')?.context)
+      .toMatchObject({ extension: 'EXT_not_supported' });
+
+    expect(report.counts.meshes).toBe(1);
+    expect(report.counts.materials).toBe(1);
+    expect(report.counts.prims).toBeGreaterThan(report.counts.meshes);
+    expect(report.counts.files).toBe(report.output.files.length);
+
+    expect(Object.keys(report.timings)).toEqual(expect.arrayContaining(['glb_parsing', 'usdz_packaging']));
+    expect(report.durationMs).toBeGreaterThanOrEqual(0);
+
+    expect(report.output.totalBytes).toBe(output.size);
+    expect(report.output.files[0].bytes).toBeGreaterThan(0);
+  });
+
+  it('reports nothing from conversions outside it', async () => {
+    const usd = defineConfig({ onDiagnostic: () => undefined });
+    const [{ report }] = await Promise.all([
+      usd.convertWithReport(await createGlb(1)),
+      usd.convert(await createGlb(2))
+    ]);
+
+    expect(report.warnings.some(warning => warning.code === 'scene_skipped')).toBe(false);
+    expect(report.counts.meshes).toBe(1);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * FBX reader tests
+ *
+ * Builds binary (with zlib-compressed arrays) and ASCII FBX files in memory
+ * and checks the glTF documents the native reader produces: meshes split
+ * per material, embedded textures, skins, animation and axis conversion.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { deflateSync } from 'node:zlib';
+import { parseFbx, readFbxDocument, convertFbxToGlb } from '../converters/fbx';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+// ---------------------------------------------------------------------------
+// Binary FBX writer (7400, 32-bit record offsets)
+// ---------------------------------------------------------------------------
+
+type Prop =
+  | { type: 'I' | 'D' | 'L'; value: number }
+  | { type: 'S'; value: string }
+  | { type: 'R'; value: Uint8Array }
+  | { type: 'd' | 'i' | 'f' | 'l'; value: number[]; compress?: boolean };
+
+interface Rec {
+  name: string;
+  props: Prop[];
+  children?: Rec[];
+}
+
+const L = (value: number): Prop => ({ type: 'L', value });
+const I = (value: number): Prop => ({ type: 'I', value });
+const D = (value: number): Prop => ({ type: 'D', value });
+const S = (value: string): Prop => ({ type: 'S', value });
+const rec = (name: string, props: Prop[], children?: Rec[]): Rec => ({ name, props, ...(children ? { children } : {}) });
+const P = (name: string, type: string, ...values: Prop[]): Rec => rec('P', [S(name), S(type), S(''), S('A'), ...values]);
+const objectName = (name: string, cls: string) => S(`${name}\0\x01${cls}`);
+
+function encodeProp(prop: Prop): Buffer {
+  const head = Buffer.from(prop.type, 'latin1');
+  switch (prop.type) {
+    case 'I': { const b = Buffer.alloc(4); b.writeInt32LE(prop.value); return Buffer.concat([head, b]); }
+    case 'D': { const b = Buffer.alloc(8); b.writeDoubleLE(prop.value); return Buffer.concat([head, b]); }
+    case 'L': { const b = Buffer.alloc(8); b.writeBigInt64LE(BigInt(prop.value)); return Buffer.concat([head, b]); }
+    case 'S':
+    case 'R': {
+      const data = typeof prop.value === 'string' ? Buffer.from(prop.value, 'latin1') : Buffer.from(prop.value);
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(data.length);
+      return Buffer.concat([head, length, data]);
+    }
+    default: {
+      const size = prop.type === 'd' || prop.type === 'l' ? 8 : 4;
+      const raw = Buffer.alloc(prop.value.length * size);
+      prop.value.forEach((v, k) => {
+        if (prop.type === 'd') raw.writeDoubleLE(v, k * size);
+        else if (prop.type === 'f') raw.writeFloatLE(v, k * size);
+        else if (prop.type === 'i') raw.writeInt32LE(v, k * size);
+        else raw.writeBigInt64LE(BigInt(v), k * size);
+      });
+      const data = prop.compress ? deflateSync(raw) : raw;
+      const header = Buffer.alloc(12);
+      header.writeUInt32LE(prop.value.length, 0);
+      header.writeUInt32LE(prop.compress ? 1 : 0, 4);
+      header.writeUInt32LE(data.length, 8);
+      return Buffer.concat([head, header, data]);
+    }
+  }
+}
+
+function encodeRecord(node: Rec, offset: number): Buffer {
+  const props = Buffer.concat(node.props.map(encodeProp));
+  const name = Buffer.from(node.name, 'latin1');
+  let cursor = offset + 13 + name.length + props.length;
+  const children: Buffer[] = [];
+  for (const child of node.children ?? []) {
+    const bytes = encodeRecord(child, cursor);
+    children.push(bytes);
+    cursor += bytes.length;
+  }
+  if (node.children) {
+    children.push(Buffer.alloc(13));
+    cursor += 13;
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32LE(cursor, 0);
+  header.writeUInt32LE(node.props.length, 4);
+  header.writeUInt32LE(props.length, 8);
+  header.writeUInt8(name.length, 12);
+  return Buffer.concat([header, name, props, ...children]);
+}
+
+function writeBinaryFbx(nodes: Rec[]): Uint8Array {
+  const header = Buffer.alloc(27);
+  header.write('Kaydara FBX Binary  \0\x1a\0', 0, 'latin1');
+  header.writeUInt32LE(7400, 23);
+  const parts: Buffer[] = [header];
+  let offset = header.length;
+  for (const node of nodes) {
+    const bytes = encodeRecord(node, offset);
+    parts.push(bytes);
+    offset += bytes.length;
+  }
+  parts.push(Buffer.alloc(13));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/**
+ * Quad + triangle mesh with two materials (the quad's has an embedded
+ * texture), skinned to two bones, with a translation curve on the root bone
+ */
+function buildSkinnedScene(): Uint8Array {
+  const second = 46186158000;
+  return writeBinaryFbx([
+    rec('GlobalSettings', [], [
+      rec('Properties70', [], [
+        P('UnitScaleFactor', 'double', D(100)),
+        P('TimeMode', 'enum', I(6)),
+      ]),
+    ]),
+    rec('Objects', [], [
+      rec('Geometry', [L(100), objectName('Shape', 'Geometry'), S('Mesh')], [
+        rec('Vertices', [{ type: 'd', compress: true, value: [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 2, 0, 0] }]),
+        rec('PolygonVertexIndex', [{ type: 'i', compress: true, value: [0, 1, 2, ~3, 1, 4, ~2] }]),
+        rec('LayerElementUV', [I(0)], [
+          rec('MappingInformationType', [S('ByPolygonVertex')]),
+          rec('ReferenceInformationType', [S('IndexToDirect')]),
+          rec('UV', [{ type: 'd', value: [0, 0, 1, 0, 1, 1, 0, 1] }]),
+          rec('UVIndex', [{ type: 'i', value: [0, 1, 2, 3, 1, 0, 2] }]),
+        ]),
+        rec('LayerElementMaterial', [I(0)], [
+          rec('MappingInformationType', [S('ByPolygon')]),
+          rec('ReferenceInformationType', [S('IndexToDirect')]),
+          rec('Materials', [{ type: 'i', value: [0, 1] }]),
+        ]),
+      ]),
+      rec('Model', [L(200), objectName('Body', 'Model'), S('Mesh')], [
+        rec('Properties70', [], [P('Lcl Translation', 'Lcl Translation', D(0), D(0), D(5))]),
+      ]),
+      rec('Model', [L(210), objectName('Hips', 'Model'), S('LimbNode')]),
+      rec('Model', [L(211), objectName('Spine', 'Model'), S('LimbNode')], [
+        rec('Properties70', [], [P('Lcl Translation', 'Lcl Translation', D(0), D(1), D(0))]),
+      ]),
+      rec('Material', [L(300), objectName('Painted', 'Material'), S('')], [
+        rec('ShadingModel', [S('phong')]),
+        rec('Properties70', [], [P('DiffuseColor', 'Color', D(1), D(0), D(0))]),
+      ]),
+      rec('Material', [L(301), objectName('Plain', 'Material'), S('')], [
+        rec('ShadingModel', [S('lambert')]),
+        rec('Properties70', [], [P('DiffuseColor', 'Color', D(0), D(0), D(1))]),
+      ]),
+      rec('Texture', [L(400), objectName('Albedo', 'Texture'), S('')], [
+        rec('FileName', [S('C:/textures/albedo.png')]),
+        rec('RelativeFilename', [S('albedo.png')]),
+      ]),
+      rec('Video', [L(500), objectName('Albedo', 'Video'), S('Clip')], [
+        rec('Content', [{ type: 'R', value: PNG }]),
+      ]),
+      rec('Deformer', [L(600), objectName('Skin', 'Deformer'), S('Skin')]),
+      rec('Deformer', [L(610), objectName('HipsCluster', 'SubDeformer'), S('Cluster')], [
+        rec('Indexes', [{ type: 'i', value: [0, 1, 2, 3] }]),
+        rec('Weights', [{ type: 'd', value: [1, 1, 0.5, 1] }]),
+        rec('Transform', [{ type: 'd', value: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1] }]),
+        rec('TransformLink', [{ type: 'd', value: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1] }]),
+      ]),
+      rec('Deformer', [L(611), objectName('SpineCluster', 'SubDeformer'), S('Cluster')], [
+        rec('Indexes', [{ type: 'i', value: [2, 4] }]),
+        rec('Weights', [{ type: 'd', value: [0.5, 1] }]),
+        rec('Transform', [{ type: 'd', value: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1] }]),
+        rec('TransformLink', [{ type: 'd', value: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 1, 0, 1] }]),
+      ]),
+      rec('AnimationStack', [L(700), objectName('Walk', 'AnimStack'), S('')]),
+      rec('AnimationLayer', [L(710), objectName('BaseLayer', 'AnimLayer'), S('')]),
+      rec('AnimationCurveNode', [L(720), objectName('T', 'AnimCurveNode'), S('')], [
+        rec('Properties70', [], [P('d|X', 'Number', D(0)), P('d|Y', 'Number', D(0)), P('d|Z', 'Number', D(0))]),
+      ]),
+      rec('AnimationCurve', [L(730), objectName('', 'AnimCurve'), S('')], [
+        rec('KeyTime', [{ type: 'l', value: [0, second] }]),
+        rec('KeyValueFloat', [{ type: 'f', value: [0, 3] }]),
+        rec('KeyAttrFlags', [{ type: 'i', value: [0x4] }]),
+        rec('KeyAttrDataFloat', [{ type: 'f', value: [0, 0, 0, 0] }]),
+        rec('KeyAttrRefCount', [{ type: 'i', value: [2] }]),
+      ]),
+    ]),
+    rec('Connections', [], [
+      rec('C', [S('OO'), L(200), L(0)]),
+      rec('C', [S('OO'), L(210), L(0)]),
+      rec('C', [S('OO'), L(211), L(210)]),
+      rec('C', [S('OO'), L(100), L(200)]),
+      rec('C', [S('OO'), L(300), L(200)]),
+      rec('C', [S('OO'), L(301), L(200)]),
+      rec('C', [S('OP'), L(400), L(300), S('DiffuseColor')]),
+      rec('C', [S('OO'), L(500), L(400)]),
+      rec('C', [S('OO'), L(600), L(100)]),
+      rec('C', [S('OO'), L(610), L(600)]),
+      rec('C', [S('OO'), L(611), L(600)]),
+      rec('C', [S('OO'), L(210), L(610)]),
+      rec('C', [S('OO'), L(211), L(611)]),
+      rec('C', [S('OO'), L(710), L(700)]),
+      rec('C', [S('OO'), L(720), L(710)]),
+      rec('C', [S('OP'), L(720), L(210), S('Lcl Translation')]),
+      rec('C', [S('OP'), L(730), L(720), S('d|X')]),
+    ]),
+  ]);
+}
+
+const ASCII_TRIANGLE = `; FBX 7.4.0 project file
+; ----------------------------------------------------
+FBXHeaderExtension:  {
+\tFBXHeaderVersion: 1003
+\tFBXVersion: 7400
+}
+GlobalSettings:  {
+\tVersion: 1000
+\tProperties70:  {
+\t\tP: "UpAxis", "int", "Integer", "",2
+\t\tP: "UpAxisSign", "int", "Integer", "",1
+\t\tP: "FrontAxis", "int", "Integer", "",1
+\t\tP: "FrontAxisSign", "int", "Integer", "",-1
+\t\tP: "CoordAxis", "int", "Integer", "",0
+\t\tP: "CoordAxisSign", "int", "Integer", "",1
+\t\tP: "UnitScaleFactor", "double", "Number", "",1
+\t}
+}
+Objects:  {
+\tGeometry: 1001, "Geometry::Tri", "Mesh" {
+\t\tVertices: *9 {
+\t\t\ta: 0,0,0,100,0,0,
+\t\t\t0,100,0
+\t\t}
+\t\tPolygonVertexIndex: *3 {
+\t\t\ta: 0,1,-3
+\t\t}
+\t\tLayerElementNormal: 0 {
+\t\t\tMappingInformationType: "ByPolygonVertex"
+\t\t\tReferenceInformationType: "Direct"
+\t\t\tNormals: *9 {
+\t\t\t\ta: 0,0,1,0,0,1,0,0,1
+\t\t\t}
+\t\t}
+\t}
+\tModel: 2001, "Model::Tri", "Mesh" {
+\t\tVersion: 232
+\t\tProperties70:  {
+\t\t\tP: "Lcl Rotation", "Lcl Rotation", "", "A",0,0,90
+\t\t}
+\t}
+\tMaterial: 3001, "Material::Grey &quot;matte&quot;", "" {
+\t\tShadingModel: "lambert"
+\t\tProperties70:  {
+\t\t\tP: "DiffuseColor", "Color", "", "A",0.5,0.5,0.5
+\t\t}
+\t}
+}
+Connections:  {
+\tC: "OO",2001,0
+\tC: "OO",1001,2001
+\tC: "OO",3001,2001
+}
+`;
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-fbx-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseFbx', () => {
+  it('reads binary records, compressed arrays and Class::Name names', () => {
+    const file = parseFbx(buildSkinnedScene());
+    expect(file.format).toBe('binary');
+    expect(file.version).toBe(7400);
+
+    const objects = file.nodes.find((node) => node.name === 'Objects')!;
+    const geometry = objects.children.find((node) => node.name === 'Geometry')!;
+    expect(geometry.properties[1]).toBe('Geometry::Shape');
+    const vertices = geometry.children.find((node) => node.name === 'Vertices')!.properties[0];
+    expect(Array.from(vertices as Float64Array)).toEqual([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 2, 0, 0]);
+  });
+
+  it('reads ASCII files with multi-line arrays and escaped quotes', () => {
+    const file = parseFbx(Buffer.from(ASCII_TRIANGLE));
+    expect(file.format).toBe('ascii');
+    expect(file.version).toBe(7400);
+
+    const objects = file.nodes.find((node) => node.name === 'Objects')!;
+    const geometry = objects.children.find((node) => node.name === 'Geometry')!;
+    const vertices = geometry.children.find((node) => node.name === 'Vertices')!.properties[0];
+    expect(Array.from(vertices as ArrayLike<number>)).toEqual([0, 0, 0, 100, 0, 0, 0, 100, 0]);
+    const material = objects.children.find((node) => node.name === 'Material')!;
+    expect(material.properties[1]).toBe('Material::Grey "matte"');
+  });
+
+  it('rejects files older than FBX 7', () => {
+    const bytes = buildSkinnedScene();
+    new DataView(bytes.buffer, bytes.byteOffset).setUint32(23, 6100, true);
+    expect(() => parseFbx(bytes)).toThrow(/not supported/);
+  });
+});
+
+describe('readFbxDocument', () => {
+  it('splits meshes per material and embeds textures', async () => {
+    const document = await readFbxDocument(buildSkinnedScene());
+    const root = document.getRoot();
+
+    const mesh = root.listMeshes()[0];
+    const [quad, triangle] = mesh.listPrimitives();
+    expect(quad.getIndices()!.getCount()).toBe(6);
+    expect(triangle.getIndices()!.getCount()).toBe(3);
+    expect(quad.getAttribute('NORMAL')).not.toBeNull();
+    expect(quad.getAttribute('TEXCOORD_0')).not.toBeNull();
+
+    const painted = quad.getMaterial()!;
+    expect(painted.getName()).toBe('Painted');
+    // A connected texture replaces the diffuse color
+    expect(painted.getBaseColorFactor().slice(0, 3)).toEqual([1, 1, 1]);
+    const texture = painted.getBaseColorTexture()!;
+    expect(texture.getMimeType()).toBe('image/png');
+    expect(Buffer.from(texture.getImage()!)).toEqual(PNG);
+    expect(triangle.getMaterial()!.getName()).toBe('Plain');
+    expect(triangle.getMaterial()!.getBaseColorFactor().slice(0, 3)).toEqual([0, 0, 1]);
+
+    // UV V is flipped into glTF's top-left origin
+    const uv = quad.getAttribute('TEXCOORD_0')!;
+    const position = quad.getAttribute('POSITION')!;
+    for (let i = 0; i < position.getCount(); i++) {
+      const [x, y] = position.getElement(i, []);
+      expect(uv.getElement(i, [])).toEqual([x, 1 - y]);
+    }
+  });
+
+  it('binds skins and samples animation stacks', async () => {
+    const document = await readFbxDocument(buildSkinnedScene());
+    const root = document.getRoot();
+
+    const skin = root.listSkins()[0];
+    expect(skin.listJoints().map((joint) => joint.getName())).toEqual(['Hips', 'Spine']);
+    const ibm = skin.getInverseBindMatrices()!;
+    expect(ibm.getElement(1, []).slice(12, 15)).toEqual([0, -1, 0]);
+
+    const body = root.listNodes().find((node) => node.getName() === 'Body')!;
+    expect(body.getSkin()).toBe(skin);
+    expect(body.getTranslation()).toEqual([0, 0, 5]);
+
+    const triangle = body.getMesh()!.listPrimitives()[1];
+    const joints = triangle.getAttribute('JOINTS_0')!;
+    const weights = triangle.getAttribute('WEIGHTS_0')!;
+    for (let i = 0; i < weights.getCount(); i++) {
+      const w = weights.getElement(i, []);
+      expect(w.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 5);
+      // Control point 4 is bound to Spine only
+      if (triangle.getAttribute('POSITION')!.getElement(i, [])[0] === 2) {
+        expect(joints.getElement(i, [])[0]).toBe(1);
+        expect(w[0]).toBeCloseTo(1, 5);
+      }
+    }
+
+    const animation = root.listAnimations()[0];
+    expect(animation.getName()).toBe('Walk');
+    const [channel] = animation.listChannels();
+    expect(channel.getTargetNode()!.getName()).toBe('Hips');
+    expect(channel.getTargetPath()).toBe('translation');
+    const output = channel.getSampler()!.getOutput()!;
+    expect(channel.getSampler()!.getInput()!.getCount()).toBe(31);
+    expect(output.getElement(15, [])[0]).toBeCloseTo(1.5, 5);
+    expect(output.getElement(30, [])).toEqual([3, 0, 0]);
+  });
+
+  it('converts ASCII files to Y-up meters under a RootNode', async () => {
+    const file = path.join(dir, 'tri.fbx');
+    fs.writeFileSync(file, ASCII_TRIANGLE);
+    const document = await readFbxDocument(file);
+    const root = document.getRoot();
+
+    const [wrapper] = root.getDefaultScene()!.listChildren();
+    expect(wrapper.getName()).toBe('RootNode');
+    const world = root.listNodes().find((node) => node.getName() === 'Tri')!.getWorldMatrix();
+
+    // File +Z up / -Y front becomes glTF +Y up / +Z front; cm becomes m
+    const apply = (x: number, y: number, z: number) => [0, 1, 2].map((r) =>
+      world[r] * x + world[4 + r] * y + world[8 + r] * z + world[12 + r]);
+    const mesh = root.listMeshes()[0];
+    const position = mesh.listPrimitives()[0].getAttribute('POSITION')!;
+    const points = Array.from({ length: position.getCount() }, (_, i) =>
+      apply(...(position.getElement(i, []) as [number, number, number])).map((v) => Math.round(v * 1e6) / 1e6 + 0));
+    // The model's 90 degree Z rotation turns +X into +Y before the axis change
+    expect(points).toContainEqual([0, 0, -1]);
+    expect(points).toContainEqual([-1, 0, 0]);
+    expect(mesh.listPrimitives()[0].getMaterial()!.getName()).toBe('Grey "matte"');
+  });
+});
+
+describe('FBX to USDZ', () => {
+  it('converts through the glTF pipeline', async () => {
+    const glb = await convertFbxToGlb(buildSkinnedScene());
+    const usdz = await convertGlbToUsdz(glb);
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+
+    const types = new Set<string>();
+    const visit = (node: UsdNode) => {
+      types.add(node.getTypeName());
+      for (const child of node.getChildren()) visit(child);
+    };
+    visit(root);
+    expect(types).toContain('Mesh');
+    expect(types).toContain('Material');
+    expect(types).toContain('Skeleton');
+    expect(types).toContain('SkelAnimation');
+  });
+});
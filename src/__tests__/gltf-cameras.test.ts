@@ -0,0 +1,110 @@
+/**
+ * GLTF camera conversion tests
+ *
+ * Checks the UsdGeom Camera attributes derived from perspective and
+ * orthographic GLTF cameras, and that an animated camera node keeps its
+ * transform animation through the converter.
+ */
+import { describe, it, expect } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import { applyCameraToUsdNode } from '../converters/gltf/helpers/camera-processor';
+
+function findNode(node: UsdNode, path: string): UsdNode | undefined {
+  if (node.getPath() === path) return node;
+  for (const child of node.getChildren()) {
+    const found = findNode(child, path);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+describe('applyCameraToUsdNode', () => {
+  it('derives focal length and apertures from a perspective camera', () => {
+    const xform = new UsdNode('/Root/Cam', 'Xform');
+    const camera = applyCameraToUsdNode(xform, {
+      type: 'perspective',
+      yfov: Math.PI / 2,
+      aspectRatio: 2,
+      znear: 0.05,
+      zfar: 200
+    });
+
+    expect(camera.getPath()).toBe('/Root/Cam/Camera');
+    expect(camera.getTypeName()).toBe('Camera');
+    expect(camera.getProperty('token projection')).toBe('perspective');
+    // tan(45°) = 1, so the focal length is half the vertical aperture
+    expect(camera.getProperty('float focalLength')).toBe('7.6454');
+    expect(camera.getProperty('float verticalAperture')).toBe('15.2908');
+    expect(camera.getProperty('float horizontalAperture')).toBe('30.5816');
+    expect(camera.getProperty('float2 clippingRange')).toBe('(0.05, 200)');
+  });
+
+  it('falls back to the default film back and far clip for open-ended perspective cameras', () => {
+    const camera = applyCameraToUsdNode(new UsdNode('/Root/Cam', 'Xform'), {
+      type: 'perspective',
+      yfov: 0.8,
+      aspectRatio: null,
+      znear: 0.1,
+      zfar: null
+    });
+
+    expect(camera.getProperty('float horizontalAperture')).toBe('20.955');
+    expect(camera.getProperty('float2 clippingRange')).toBe('(0.1, 1000000)');
+  });
+
+  it('sizes orthographic apertures from xmag/ymag in tenths of a scene unit', () => {
+    const camera = applyCameraToUsdNode(new UsdNode('/Root/Cam', 'Xform'), {
+      type: 'orthographic',
+      xmag: 3,
+      ymag: 1.5,
+      znear: 0.01,
+      zfar: 20
+    });
+
+    expect(camera.getProperty('token projection')).toBe('orthographic');
+    expect(camera.getProperty('float focalLength')).toBeUndefined();
+    expect(camera.getProperty('float horizontalAperture')).toBe('60');
+    expect(camera.getProperty('float verticalAperture')).toBe('30');
+    expect(camera.getProperty('float2 clippingRange')).toBe('(0.01, 20)');
+  });
+});
+
+describe('GLB camera conversion', () => {
+  it('writes Camera prims that follow the animated node transform', async () => {
+    const document = new Document();
+    const buffer = document.createBuffer();
+    const camera = document.createCamera('Shot')
+      .setType('perspective')
+      .setYFov(Math.PI / 4)
+      .setAspectRatio(1.5)
+      .setZNear(0.1)
+      .setZFar(100);
+    const cameraNode = document.createNode('Turntable').setCamera(camera).setTranslation([0, 0, 5]);
+    document.createScene('Scene').addChild(cameraNode);
+
+    const times = document.createAccessor().setType('SCALAR').setArray(new Float32Array([0, 1])).setBuffer(buffer);
+    const values = document.createAccessor().setType('VEC3').setArray(new Float32Array([0, 0, 5, 5, 0, 0])).setBuffer(buffer);
+    const sampler = document.createAnimationSampler().setInput(times).setOutput(values);
+    document.createAnimation('Orbit')
+      .addSampler(sampler)
+      .addChannel(document.createAnimationChannel().setTargetNode(cameraNode).setTargetPath('translation').setSampler(sampler));
+
+    const glb = await new NodeIO().writeBinary(document);
+    const blob = await convertGlbToUsdz(glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer);
+    const { root } = await readUsdz(new Uint8Array(await blob.arrayBuffer()));
+
+    const xform = findNode(root, '/Root/Scenes/Scene/Turntable')!;
+    expect(xform).toBeDefined();
+    const [translate] = xform.getTimeSampledProperties();
+    expect(translate.key).toBe('xformOp:translate');
+    expect([...translate.timeSamples.values()]).toEqual(['(0, 0, 5)', '(5, 0, 0)']);
+
+    const cameraPrim = findNode(root, '/Root/Scenes/Scene/Turntable/Camera')!;
+    expect(cameraPrim.getTypeName()).toBe('Camera');
+    expect(cameraPrim.getProperty('token projection')).toBe('perspective');
+    expect(cameraPrim.getProperty('float2 clippingRange')).toBe('(0.1, 100)');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Compressed GLTF geometry tests
+ *
+ * Encodes a small textured cube with KHR_draco_mesh_compression and with
+ * EXT_meshopt_compression (quantized), then checks that the converter
+ * decodes both back to the original float triangles and UVs.
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { draco, meshopt } from '@gltf-transform/functions';
+import * as draco3d from 'draco3dgltf';
+import { MeshoptEncoder } from 'meshoptimizer';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { GltfParserFactory } from '../converters/gltf/gltf-parser';
+import { decodeCompressedGeometry } from '../converters/gltf/helpers/gltf-transform-helpers';
+import { readUsdz } from '../converters/usdz';
+import { getModelInfo } from '../converters/info';
+import { UsdNode } from '../core/usd-node';
+import { LoggerFactory } from '../utils';
+import { collect, property, numbers } from './helpers/usd-tree';
+
+/**
+ * Unit cube with one quad per face: 24 vertices, 12 triangles
+ */
+function createCube(): Document {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  for (let axis = 0; axis < 3; axis++) {
+    for (const side of [-1, 1]) {
+      const u = (axis + 1) % 3;
+      const v = (axis + 2) % 3;
+      const base = positions.length / 3;
+      for (const [a, b] of [[0, 0], [1, 0], [1, 1], [0, 1]]) {
+        const point = [0, 0, 0];
+        point[axis] = side > 0 ? 1 : 0;
+        point[u] = a;
+        point[v] = b;
+        const normal = [0, 0, 0];
+        normal[axis] = side;
+        positions.push(...point);
+        normals.push(...normal);
+        uvs.push(a * 0.5, b * 0.25);
+      }
+      indices.push(...(side > 0
+        ? [base, base + 1, base + 2, base, base + 2, base + 3]
+        : [base, base + 2, base + 1, base, base + 3, base + 2]));
+    }
+  }
+
+  const accessor = (type: 'VEC2' | 'VEC3' | 'SCALAR', array: Float32Array | Uint16Array) =>
+    document.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+  const primitive = document.createPrimitive()
+    .setAttribute('POSITION', accessor('VEC3', new Float32Array(positions)))
+    .setAttribute('NORMAL', accessor('VEC3', new Float32Array(normals)))
+    .setAttribute('TEXCOORD_0', accessor('VEC2', new Float32Array(uvs)))
+    .setIndices(accessor('SCALAR', new Uint16Array(indices)));
+  const mesh = document.createMesh('Cube').addPrimitive(primitive);
+  document.createScene('Scene').addChild(document.createNode('Cube').setMesh(mesh));
+  return document;
+}
+
+/**
+ * Triangle corners as sorted "x,y,z" keys, independent of vertex order
+ */
+function triangleKeys(points: number[], indices: number[]): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    const corners = [0, 1, 2].map(c => {
+      const index = indices[i + c];
+      return [0, 1, 2].map(k => points[index * 3 + k].toFixed(3)).join(',');
+    });
+    keys.push(corners.sort().join(' '));
+  }
+  return keys.sort();
+}
+
+/**
+ * Points moved by the prim's row-major xformOp:transform, if any. Meshopt
+ * quantization stores the position scale and offset on the node.
+ */
+function transformPoints(points: number[], xform: UsdNode): number[] {
+  const matrix = property(xform, 'xformOp:transform');
+  if (matrix === undefined) return points;
+  const m = numbers(matrix);
+  const result: number[] = [];
+  for (let i = 0; i < points.length; i += 3) {
+    const [x, y, z] = points.slice(i, i + 3);
+    for (let c = 0; c < 3; c++) {
+      result.push(x * m[c] + y * m[4 + c] + z * m[8 + c] + m[12 + c]);
+    }
+  }
+  return result;
+}
+
+function toArrayBuffer(glb: Uint8Array): ArrayBuffer {
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+const original = createCube().getRoot().listMeshes()[0].listPrimitives()[0];
+const ORIGINAL_TRIANGLES = triangleKeys(
+  Array.from(original.getAttribute('POSITION')!.getArray()!),
+  Array.from(original.getIndices()!.getArray()!)
+);
+
+let dracoGlb: ArrayBuffer;
+let meshoptGlb: ArrayBuffer;
+
+beforeAll(async () => {
+  const dracoDocument = createCube();
+  await dracoDocument.transform(draco({ method: 'sequential' }));
+  const dracoIO = new NodeIO()
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies({ 'draco3d.encoder': await draco3d.createEncoderModule() });
+  dracoGlb = toArrayBuffer(await dracoIO.writeBinary(dracoDocument));
+
+  await MeshoptEncoder.ready;
+  const meshoptDocument = createCube();
+  await meshoptDocument.transform(meshopt({ encoder: MeshoptEncoder }));
+  const meshoptIO = new NodeIO()
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies({ 'meshopt.encoder': MeshoptEncoder });
+  meshoptGlb = toArrayBuffer(await meshoptIO.writeBinary(meshoptDocument));
+});
+
+describe('compressed GLB fixtures', () => {
+  it('declare the compression extensions', () => {
+    const extensionsRequired = (glb: ArrayBuffer) => {
+      const jsonLength = new DataView(glb).getUint32(12, true);
+      return JSON.parse(new TextDecoder().decode(new Uint8Array(glb, 20, jsonLength))).extensionsRequired;
+    };
+    expect(extensionsRequired(dracoGlb)).toContain('KHR_draco_mesh_compression');
+    expect(extensionsRequired(meshoptGlb)).toEqual(expect.arrayContaining(['EXT_meshopt_compression', 'KHR_mesh_quantization']));
+  });
+});
+
+describe('decodeCompressedGeometry', () => {
+  it('leaves float32 geometry without compression extensions', async () => {
+    for (const glb of [dracoGlb, meshoptGlb]) {
+      const document = await GltfParserFactory.parse(glb);
+      await decodeCompressedGeometry(document, LoggerFactory.forConversion());
+
+      expect(document.getRoot().listExtensionsUsed()).toHaveLength(0);
+      const prim = document.getRoot().listMeshes()[0].listPrimitives()[0];
+      for (const semantic of ['POSITION', 'NORMAL', 'TEXCOORD_0']) {
+        expect(prim.getAttribute(semantic)!.getArray()).toBeInstanceOf(Float32Array);
+      }
+    }
+  });
+});
+
+describe('convertGlbToUsdz with compressed geometry', () => {
+  it.each([
+    ['Draco', () => dracoGlb],
+    ['meshopt', () => meshoptGlb]
+  ])('decodes %s triangles, normals and UVs', async (_name, glb) => {
+    const usdz = await convertGlbToUsdz(glb());
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const [mesh] = collect(root, 'Mesh');
+    const xform = collect(root, 'Xform').find(node => node.getName() === 'Cube')!;
+
+    const counts = numbers(property(mesh, 'faceVertexCounts'));
+    expect(counts).toEqual(new Array(12).fill(3));
+    const points = transformPoints(numbers(property(mesh, 'points')), xform);
+    const indices = numbers(property(mesh, 'faceVertexIndices'));
+    expect(triangleKeys(points, indices)).toEqual(ORIGINAL_TRIANGLES);
+
+    const normals = numbers(property(mesh, 'normals'));
+    expect(normals.every(value => [-1, 0, 1].includes(Math.round(value * 1000) / 1000))).toBe(true);
+    const st = numbers(property(mesh, 'primvars:st'));
+    expect(st.every(value => [0, 0.25, 0.5, 0.75, 1].some(expected => Math.abs(value - expected) < 1e-3))).toBe(true);
+  });
+
+  it('reports decoded meshes in getModelInfo', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-draco-'));
+    const file = path.join(dir, 'cube.glb');
+    fs.writeFileSync(file, new Uint8Array(dracoGlb));
+    const info = await getModelInfo(file).finally(() => fs.rmSync(dir, { recursive: true, force: true }));
+    expect(info.meshes.map(mesh => [mesh.name, mesh.triangleCount])).toEqual([['Cube', 12]]);
+    expect(info.bounds).toEqual({ min: [0, 0, 0], max: [1, 1, 1] });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * GPU instancing tests
+ *
+ * Converts a GLB whose node instances a material-bound triangle with
+ * EXT_mesh_gpu_instancing and checks the PointInstancer written for it:
+ * one prototype mesh, per-instance transforms, ids, custom primvars and an
+ * extent covering every instance.
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { EXTMeshGPUInstancing } from '@gltf-transform/extensions';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import { collect, property, numbers } from './helpers/usd-tree';
+
+async function createInstancedGlb(
+  ids: { type: 'SCALAR' | 'VEC2'; array: Float32Array | Uint16Array } = { type: 'SCALAR', array: new Uint16Array([7, 8, 9]) }
+): Promise<ArrayBuffer> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const accessor = (type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4', array: Float32Array | Uint16Array) =>
+    document.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+
+  const material = document.createMaterial('Bark').setBaseColorFactor([0.4, 0.2, 0.1, 1]);
+  const primitive = document.createPrimitive()
+    .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0])))
+    .setIndices(accessor('SCALAR', new Uint16Array([0, 1, 2])))
+    .setMaterial(material);
+  const mesh = document.createMesh('Tree').addPrimitive(primitive);
+
+  const half = Math.SQRT1_2;
+  const instancedMesh = document.createExtension(EXTMeshGPUInstancing).createInstancedMesh()
+    .setAttribute('TRANSLATION', accessor('VEC3', new Float32Array([0, 0, 0, 10, 0, 0, 0, 0, -5])))
+    .setAttribute('ROTATION', accessor('VEC4', new Float32Array([0, 0, 0, 1, 0, 0, half, half, 0, 0, 0, 1])))
+    .setAttribute('SCALE', accessor('VEC3', new Float32Array([1, 1, 1, 2, 2, 2, 1, 1, 1])))
+    .setAttribute('_ID', accessor(ids.type, ids.array))
+    .setAttribute('_HEIGHT', accessor('SCALAR', new Float32Array([1.5, 2, 2.5])));
+  const node = document.createNode('Forest').setMesh(mesh).setExtension('EXT_mesh_gpu_instancing', instancedMesh);
+  document.createScene('Scene').addChild(node);
+
+  const glb = await new NodeIO().registerExtensions([EXTMeshGPUInstancing]).writeBinary(document);
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+async function convert(glb: ArrayBuffer): Promise<UsdNode> {
+  const usdz = await convertGlbToUsdz(glb);
+  return (await readUsdz(new Uint8Array(await usdz.arrayBuffer()))).root;
+}
+
+let root: UsdNode;
+
+beforeAll(async () => {
+  root = await convert(await createInstancedGlb());
+});
+
+describe('EXT_mesh_gpu_instancing', () => {
+  it('writes one PointInstancer with a single bound prototype mesh', () => {
+    const [instancer] = collect(root, 'PointInstancer');
+    expect(instancer.getName()).toBe('Forest_Instancer');
+
+    const meshes = collect(root, 'Mesh');
+    expect(meshes).toHaveLength(1);
+    expect(meshes[0].getPath()).toBe(`${instancer.getPath()}/Prototypes/Forest/Forest_Mesh`);
+    expect(property(meshes[0], 'material:binding')).toContain('/Materials/');
+    expect(String(property(instancer, 'prototypes'))).toContain(`${instancer.getPath()}/Prototypes/Forest`);
+  });
+
+  it('writes per-instance positions, orientations, scales and prototype indices', () => {
+    const [instancer] = collect(root, 'PointInstancer');
+    expect(numbers(property(instancer, 'protoIndices'))).toEqual([0, 0, 0]);
+    expect(numbers(property(instancer, 'positions'))).toEqual([0, 0, 0, 10, 0, 0, 0, 0, -5]);
+    expect(numbers(property(instancer, 'scales'))).toEqual([1, 1, 1, 2, 2, 2, 1, 1, 1]);
+
+    // (w, x, y, z), rounded to half precision
+    const orientations = numbers(property(instancer, 'orientations'));
+    const expected = [1, 0, 0, 0, Math.SQRT1_2, 0, 0, Math.SQRT1_2, 1, 0, 0, 0];
+    orientations.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 3));
+  });
+
+  it('maps _ID to ids and other custom attributes to instance primvars', () => {
+    const [instancer] = collect(root, 'PointInstancer');
+    expect(numbers(property(instancer, 'ids'))).toEqual([7, 8, 9]);
+    expect(numbers(property(instancer, 'primvars:HEIGHT'))).toEqual([1.5, 2, 2.5]);
+    expect(property(instancer, 'primvars:HEIGHT:interpolation')).toBe('vertex');
+  });
+
+  it('rounds float _ID values to integer ids', async () => {
+    const [instancer] = collect(await convert(await createInstancedGlb({
+      type: 'SCALAR',
+      array: new Float32Array([7, 8.2, 8.6])
+    })), 'PointInstancer');
+    expect(property(instancer, 'ids')).toBe('[7, 8, 9]');
+    expect(property(instancer, 'primvars:ID')).toBeUndefined();
+  });
+
+  it('keeps an _ID that cannot be ids as a primvar', async () => {
+    const [instancer] = collect(await convert(await createInstancedGlb({
+      type: 'VEC2',
+      array: new Float32Array([1, 2, 3, 4, 5, 6])
+    })), 'PointInstancer');
+    expect(property(instancer, 'ids')).toBeUndefined();
+    expect(numbers(property(instancer, 'primvars:ID'))).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('bounds every instance in the instancer extent', () => {
+    const [instancer] = collect(root, 'PointInstancer');
+    // Instance 2 rotates the doubled triangle 90° about Z: x in [8, 10], y in [0, 2]
+    const extent = numbers(property(instancer, 'extent'));
+    [0, 0, -5, 10, 2, 0].forEach((value, i) => expect(extent[i]).toBeCloseTo(value, 5));
+  });
+});
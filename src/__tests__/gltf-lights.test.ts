@@ -0,0 +1,99 @@
+/**
+ * KHR_lights_punctual conversion tests
+ *
+ * Checks the photometric intensity conversion and converts a GLB with a
+ * directional, a point and a spot light, reading back the DistantLight,
+ * SphereLights and ShapingAPI cone written for them.
+ */
+import { describe, it, expect } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { KHRLightsPunctual, Light } from '@gltf-transform/extensions';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { applyLightToUsdNode, computeLightIntensity } from '../converters/gltf/extensions/light-processor';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import type { LightOptions } from '../schemas';
+import { property } from './helpers/usd-tree';
+
+function lightUnder(root: UsdNode, xformName: string): UsdNode {
+  const visit = (node: UsdNode): UsdNode | undefined => {
+    if (node.getName() === xformName) return [...node.getChildren()].find(child => child.getName() === 'Light');
+    for (const child of node.getChildren()) {
+      const found = visit(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(root)!;
+}
+
+async function convertLights(lights?: LightOptions): Promise<UsdNode> {
+  const document = new Document();
+  const extension = document.createExtension(KHRLightsPunctual);
+  const scene = document.createScene('Scene');
+  const addLight = (name: string, light: Light) =>
+    scene.addChild(document.createNode(name).setExtension('KHR_lights_punctual', light));
+
+  addLight('Sun', extension.createLight().setType(Light.Type.DIRECTIONAL).setIntensity(3).setColor([1, 0.9, 0.8]));
+  addLight('Bulb', extension.createLight().setType(Light.Type.POINT).setIntensity(100).setRange(5));
+  addLight('Spot', extension.createLight().setType(Light.Type.SPOT).setIntensity(50)
+    .setInnerConeAngle(Math.PI / 8).setOuterConeAngle(Math.PI / 4));
+
+  const glb = await new NodeIO().registerExtensions([KHRLightsPunctual]).writeBinary(document);
+  const usdz = await convertGlbToUsdz(
+    glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer,
+    lights ? { lights } : undefined
+  );
+  return (await readUsdz(new Uint8Array(await usdz.arrayBuffer()))).root;
+}
+
+describe('computeLightIntensity', () => {
+  it('converts candela to sphere luminance and keeps lux', () => {
+    expect(computeLightIntensity({ type: 'point', color: [1, 1, 1], intensity: 10 }, { radius: 0.5 }))
+      .toBeCloseTo(10 / (Math.PI * 0.25), 10);
+    expect(computeLightIntensity({ type: 'directional', color: [1, 1, 1], intensity: 4 })).toBe(4);
+    expect(computeLightIntensity({ type: 'spot', color: [1, 1, 1], intensity: 10 }, { units: 'raw' })).toBe(10);
+  });
+
+  it('sizes the sphere in meters for any metersPerUnit', () => {
+    const xform = new UsdNode('/Lamp', 'Xform');
+    const light = applyLightToUsdNode(xform, { type: 'point', color: [1, 1, 1], intensity: 1 }, { radius: 0.05 }, 0.01);
+    expect(Number(property(light, 'inputs:radius'))).toBeCloseTo(5, 6);
+    expect(Number(property(light, 'inputs:intensity'))).toBeCloseTo(1 / (Math.PI * 0.0025), 2);
+  });
+});
+
+describe('convertGlbToUsdz with KHR_lights_punctual', () => {
+  it('writes a normalized DistantLight in lux', async () => {
+    const sun = lightUnder(await convertLights(), 'Sun');
+    expect(sun.getTypeName()).toBe('DistantLight');
+    expect(Number(property(sun, 'inputs:intensity'))).toBe(3);
+    expect(String(property(sun, 'inputs:color'))).toBe('(1, 0.9, 0.8)');
+    expect(String(property(sun, 'inputs:normalize'))).toBe('true');
+    expect(property(sun, 'purpose')).toBeUndefined();
+  });
+
+  it('writes point lights as SphereLights treated as points', async () => {
+    const bulb = lightUnder(await convertLights(), 'Bulb');
+    expect(bulb.getTypeName()).toBe('SphereLight');
+    expect(String(property(bulb, 'treatAsPoint'))).toBe('true');
+    expect(Number(property(bulb, 'inputs:radius'))).toBe(0.01);
+    expect(Number(property(bulb, 'inputs:intensity'))).toBeCloseTo(100 / (Math.PI * 1e-4), 0);
+  });
+
+  it('shapes spot lights with the outer cone and three.js penumbra softness', async () => {
+    const spot = lightUnder(await convertLights(), 'Spot');
+    expect(spot.getTypeName()).toBe('SphereLight');
+    expect(spot.getProperty('prepend apiSchemas')).toEqual(['ShapingAPI']);
+    expect(Number(property(spot, 'inputs:shaping:cone:angle'))).toBeCloseTo(45, 5);
+    expect(Number(property(spot, 'inputs:shaping:cone:softness'))).toBeCloseTo(0.5, 5);
+  });
+
+  it('copies raw intensities and keeps the guide purpose on request', async () => {
+    const root = await convertLights({ units: 'raw', guidePurpose: true });
+    const bulb = lightUnder(root, 'Bulb');
+    expect(Number(property(bulb, 'inputs:intensity'))).toBe(100);
+    expect(property(bulb, 'purpose')).toBe('guide');
+    expect(property(lightUnder(root, 'Sun'), 'inputs:normalize')).toBeUndefined();
+  });
+});
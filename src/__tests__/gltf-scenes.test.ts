@@ -0,0 +1,169 @@
+/**
+ * Multi-scene GLTF conversion tests
+ *
+ * Builds a two-scene GLB in memory (a shared base node plus one option node
+ * per scene) and reads the converted USDZ back to check each `sceneMode`,
+ * then checks where a skinned, animated character in the active scene ends up.
+ */
+import { describe, it, expect } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import { collectConversionReport } from '../converters/shared/conversion-report';
+import type { GltfTransformConfig } from '../schemas';
+import { collect, property } from './helpers/usd-tree';
+
+async function configuratorGlb(): Promise<ArrayBuffer> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const positions = document.createAccessor()
+    .setType('VEC3')
+    .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+    .setBuffer(buffer);
+  const red = document.createMaterial('Red').setBaseColorFactor([1, 0, 0, 1]);
+  const blue = document.createMaterial('Blue').setBaseColorFactor([0, 0, 1, 1]);
+  const triangle = (material: typeof red) => document.createMesh().addPrimitive(
+    document.createPrimitive().setAttribute('POSITION', positions).setMaterial(material)
+  );
+
+  const base = document.createNode('Base').setMesh(triangle(red));
+  const optionA = document.createNode('OptionA').setMesh(triangle(red)).setTranslation([2, 0, 0]);
+  const optionB = document.createNode('OptionB').setMesh(triangle(blue)).setTranslation([0, 2, 0]);
+  document.createScene('Red').addChild(base).addChild(optionA);
+  const blueScene = document.createScene('Blue').addChild(base).addChild(optionB);
+  document.getRoot().setDefaultScene(blueScene);
+
+  const glb = await new NodeIO().writeBinary(document);
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Two scenes, each with a two-joint rig skinning a triangle and an
+ * animation turning its second joint
+ */
+async function skinnedScenesGlb(): Promise<ArrayBuffer> {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const accessor = (type: 'SCALAR' | 'VEC3' | 'VEC4', array: Float32Array | Uint16Array) =>
+    document.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+
+  for (const [sceneName, prefix] of [['Dance', 'A'], ['Other', 'B']]) {
+    const hip = document.createNode(`${prefix}Hip`);
+    const knee = document.createNode(`${prefix}Knee`).setTranslation([0, 1, 0]);
+    hip.addChild(knee);
+    const skin = document.createSkin(`${prefix}Rig`).addJoint(hip).addJoint(knee);
+    const primitive = document.createPrimitive()
+      .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 0, 1, 1, 0, 0, 2, 0])))
+      .setAttribute('JOINTS_0', accessor('VEC4', new Uint16Array([0, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0])))
+      .setAttribute('WEIGHTS_0', accessor('VEC4', new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0])));
+    const body = document.createNode(`${prefix}Body`)
+      .setMesh(document.createMesh(`${prefix}Body`).addPrimitive(primitive))
+      .setSkin(skin);
+    const sampler = document.createAnimationSampler()
+      .setInput(accessor('SCALAR', new Float32Array([0, 1])))
+      .setOutput(accessor('VEC4', new Float32Array([0, 0, 0, 1, 0, 0, 0.7071, 0.7071])));
+    document.createAnimation(`${prefix}Wave`).addSampler(sampler).addChannel(
+      document.createAnimationChannel().setTargetNode(knee).setTargetPath('rotation').setSampler(sampler)
+    );
+    document.createScene(sceneName).addChild(hip).addChild(body);
+  }
+
+  const glb = await new NodeIO().writeBinary(document);
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+async function convert(config: Partial<GltfTransformConfig>): Promise<UsdNode> {
+  const blob = await convertGlbToUsdz(await configuratorGlb(), config as GltfTransformConfig);
+  const { root } = await readUsdz(new Uint8Array(await blob.arrayBuffer()));
+  return root;
+}
+
+function childNames(node: UsdNode): string[] {
+  return Array.from(node.getChildren()).map(child => child.getName());
+}
+
+function child(node: UsdNode, name: string): UsdNode {
+  const found = Array.from(node.getChildren()).find(c => c.getName() === name);
+  expect(found, `${node.getPath()}/${name}`).toBeDefined();
+  return found!;
+}
+
+describe('GLTF multi-scene conversion', () => {
+  it('converts only the first scene by default', async () => {
+    const root = await convert({});
+    expect(childNames(child(root, 'Scenes'))).toEqual(['Red']);
+    expect([...root.getVariantSets()]).toEqual([]);
+  });
+
+  it('emits every scene as a sceneVariant variant selecting the default scene', async () => {
+    const root = await convert({ sceneMode: 'variants' });
+    expect(childNames(child(root, 'Scenes'))).toEqual([]);
+    expect(root.getVariantSelection('sceneVariant')).toBe('Blue');
+
+    const [set] = root.getVariantSets();
+    expect(set.name).toBe('sceneVariant');
+    expect([...set.variants.keys()]).toEqual(['Red', 'Blue']);
+
+    const blueScenes = child(set.variants.get('Blue')!, 'Scenes');
+    expect(blueScenes.getTypeName()).toBe('over');
+    expect(childNames(child(blueScenes, 'Blue'))).toEqual(['Base', 'OptionB']);
+
+    // Materials live outside the variants and are shared between scenes
+    expect(childNames(child(root, 'Materials'))).toEqual(['Red', 'Blue']);
+    const redBase = child(child(child(set.variants.get('Red')!, 'Scenes'), 'Red'), 'Base');
+    expect(child(redBase, 'Base_Mesh').getProperty('material:binding')).toBe('</Root/Materials/Red>');
+  });
+
+  it('honours activeScene for the variant selection', async () => {
+    const root = await convert({ sceneMode: 'variants', activeScene: 0 });
+    expect(root.getVariantSelection('sceneVariant')).toBe('Red');
+  });
+
+  it('emits sibling scenes, deactivating all but the active one and referencing shared nodes', async () => {
+    const root = await convert({ sceneMode: 'siblings' });
+    const scenes = child(root, 'Scenes');
+    expect(childNames(scenes)).toEqual(['Red', 'Blue']);
+
+    const redScene = child(scenes, 'Red');
+    expect(redScene.getMetadata('active')).toBe(false);
+    expect(child(scenes, 'Blue').getMetadata('active')).toBeUndefined();
+
+    const sharedBase = child(redScene, 'Base');
+    expect(sharedBase.getProperty('prepend references')).toBe('</Root/Scenes/Blue/Base>');
+    expect(childNames(sharedBase)).toEqual([]);
+    expect(childNames(child(redScene, 'OptionA'))).toEqual(['OptionA_Mesh']);
+  });
+
+  it('rejects an activeScene outside the document', async () => {
+    await expect(convert({ sceneMode: 'siblings', activeScene: 2 })).rejects.toThrow(/activeScene 2 is out of range/);
+  });
+
+  it('moves the active scene\'s skinned character into its variant', async () => {
+    const blob = await convertGlbToUsdz(await skinnedScenesGlb(), { sceneMode: 'variants' } as GltfTransformConfig);
+    const { root } = await readUsdz(new Uint8Array(await blob.arrayBuffer()));
+    expect(collect(root, 'SkelRoot')).toEqual([]);
+
+    const [set] = root.getVariantSets();
+    const dance = child(child(set.variants.get('Dance')!, 'Scenes'), 'Dance');
+    const skelRoot = child(dance, 'ARig');
+    expect(skelRoot.getTypeName()).toBe('SkelRoot');
+    expect(property(skelRoot, 'skel:animationSource')).toBe('</Root/Scenes/Dance/ARig/ARig/ARig_AWave>');
+    expect(property(child(skelRoot, 'ABody_Mesh'), 'skel:skeleton')).toBe('</Root/Scenes/Dance/ARig/ARig>');
+    expect(collect(skelRoot, 'SkelAnimation').map(node => node.getName())).toEqual(['ARig_AWave']);
+  });
+
+  it('keeps the skinned character under the active sibling scene and warns about the other scene', async () => {
+    const glb = await skinnedScenesGlb();
+    const { output, report } = await collectConversionReport(() =>
+      convertGlbToUsdz(glb, { sceneMode: 'siblings' } as GltfTransformConfig)
+    );
+    const { root } = await readUsdz(new Uint8Array(await output.arrayBuffer()));
+    const scenes = child(root, 'Scenes');
+    expect(collect(child(scenes, 'Dance'), 'SkelRoot').map(node => node.getName())).toEqual(['ARig']);
+    expect(collect(child(scenes, 'Other'), 'SkelRoot')).toEqual([]);
+
+    const warning = report.warnings.find(entry => entry.code === 'scene_deformers_skipped');
+    expect(warning?.context).toMatchObject({ scene: 'Other', skinnedNodes: 1, animatedNodes: 1 });
+  });
+});
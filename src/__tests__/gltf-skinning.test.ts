@@ -0,0 +1,138 @@
+/**
+ * Skin influence tests
+ *
+ * Checks merging, pruning and renormalizing of per-vertex joint influences
+ * and the joint selection for unused and over-budget joints, then converts
+ * a GLB skinned with JOINTS_0/1 and WEIGHTS_0/1 and reads back the
+ * UsdSkel primvars and Skeleton joints.
+ */
+import { describe, it, expect } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { optimizeSkinInfluences, selectSkeletonJoints } from '../converters/gltf/helpers/skin-influences';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import type { SkinningOptions } from '../schemas';
+import { collect, property, numbers } from './helpers/usd-tree';
+
+/**
+ * Root > Hip > Knee, plus an unweighted Root > Tail, skinning a triangle
+ * with eight influences per vertex
+ */
+function createRig(): Document {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const accessor = (type: 'SCALAR' | 'VEC3' | 'VEC4', array: Float32Array | Uint16Array) =>
+    document.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+
+  const root = document.createNode('Root');
+  const hip = document.createNode('Hip').setTranslation([0, 1, 0]);
+  const knee = document.createNode('Knee').setTranslation([0, 1, 0]);
+  const tail = document.createNode('Tail').setTranslation([0, 0, -1]);
+  root.addChild(hip).addChild(tail);
+  hip.addChild(knee);
+  const skin = document.createSkin('Rig').addJoint(root).addJoint(hip).addJoint(knee).addJoint(tail);
+
+  const primitive = document.createPrimitive()
+    .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 0, 1, 1, 0, 0, 2, 0])))
+    .setAttribute('JOINTS_0', accessor('VEC4', new Uint16Array([1, 2, 0, 0, 0, 1, 2, 0, 2, 0, 0, 0])))
+    .setAttribute('WEIGHTS_0', accessor('VEC4', new Float32Array([0.4, 0.2, 0, 0, 0.3, 0.3, 0.2, 0, 1, 0, 0, 0])))
+    .setAttribute('JOINTS_1', accessor('VEC4', new Uint16Array([2, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0])))
+    .setAttribute('WEIGHTS_1', accessor('VEC4', new Float32Array([0.2, 0.2, 0, 0, 0.2, 0, 0, 0, 0, 0, 0, 0])));
+  const body = document.createNode('Body').setMesh(document.createMesh('Body').addPrimitive(primitive)).setSkin(skin);
+
+  document.createScene('Scene').addChild(root).addChild(body);
+  return document;
+}
+
+async function convertRig(skinning?: SkinningOptions): Promise<UsdNode> {
+  const glb = await new NodeIO().writeBinary(createRig());
+  const usdz = await convertGlbToUsdz(
+    glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer,
+    skinning ? { skinning } : undefined
+  );
+  return (await readUsdz(new Uint8Array(await usdz.arrayBuffer()))).root;
+}
+
+describe('optimizeSkinInfluences', () => {
+  it('merges repeated joints and sizes elements to the busiest vertex', () => {
+    const result = optimizeSkinInfluences({
+      elementSize: 4,
+      indices: [3, 3, 1, 0, 2, 0, 0, 0],
+      weights: [0.25, 0.25, 0.5, 0, 1, 0, 0, 0]
+    });
+    expect(result.elementSize).toBe(2);
+    expect(result.indices).toEqual([1, 3, 2, 0]);
+    expect(result.weights).toEqual([0.5, 0.5, 1, 0]);
+  });
+
+  it('keeps the strongest influences and renormalizes them', () => {
+    const result = optimizeSkinInfluences({
+      elementSize: 4,
+      indices: [0, 1, 2, 3],
+      weights: [0.1, 0.4, 0.2, 0.3]
+    }, 2);
+    expect(result.indices).toEqual([1, 3]);
+    expect(result.weights[0]).toBeCloseTo(4 / 7, 10);
+    expect(result.weights[1]).toBeCloseTo(3 / 7, 10);
+  });
+
+  it('binds weightless vertices fully to their first joint', () => {
+    const result = optimizeSkinInfluences({ elementSize: 2, indices: [5, 6], weights: [0, 0] });
+    expect(result).toEqual({ elementSize: 1, indices: [5], weights: [1] });
+  });
+});
+
+describe('selectSkeletonJoints', () => {
+  it('strips unweighted leaf joints but keeps their weighted ancestors', () => {
+    const joints = createRig().getRoot().listSkins()[0].listJoints();
+    const selection = selectSkeletonJoints(joints, [0, 1, 1, 0]);
+    expect([...selection.joints].map(joint => joint.getName())).toEqual(['Root', 'Hip', 'Knee']);
+    expect(selection.strippedCount).toBe(1);
+
+    const kept = selectSkeletonJoints(joints, [0, 1, 1, 0], { stripUnusedJoints: false });
+    expect(kept.joints.size).toBe(4);
+  });
+
+  it('folds the lightest leaves into their parents to meet the budget', () => {
+    const joints = createRig().getRoot().listSkins()[0].listJoints();
+    const selection = selectSkeletonJoints(joints, [1, 1, 3, 2], { jointBudget: 'reduce', maxJoints: 2 });
+    // Tail folds into Root first, which leaves Knee as the only leaf
+    expect([...selection.joints].map(joint => joint.getName())).toEqual(['Root', 'Hip']);
+    expect(selection.collapsedCount).toBe(2);
+
+    const warned = selectSkeletonJoints(joints, [1, 1, 3, 2], { jointBudget: 'warn', maxJoints: 2 });
+    expect(warned.joints.size).toBe(4);
+  });
+});
+
+describe('convertGlbToUsdz with multiple skin influence sets', () => {
+  it('merges JOINTS_1/WEIGHTS_1 into one primvar sized per mesh', async () => {
+    const root = await convertRig();
+    const [mesh] = collect(root, 'Mesh');
+    expect(Number(property(mesh, 'primvars:skel:jointIndices:elementSize'))).toBe(3);
+    expect(Number(property(mesh, 'primvars:skel:jointWeights:elementSize'))).toBe(3);
+    expect(numbers(property(mesh, 'primvars:skel:jointIndices'))).toEqual([1, 2, 0, 1, 0, 2, 2, 0, 0]);
+    const weights = numbers(property(mesh, 'primvars:skel:jointWeights'));
+    [0.6, 0.4, 0, 0.5, 0.3, 0.2, 1, 0, 0].forEach((weight, i) => expect(weights[i]).toBeCloseTo(weight, 5));
+  });
+
+  it('drops joints no vertex is weighted to', async () => {
+    const [skeleton] = collect(await convertRig(), 'Skeleton');
+    expect(String(property(skeleton, 'joints'))).not.toContain('Tail');
+    expect(String(property(skeleton, 'joints'))).toContain('Root/Hip/Knee');
+  });
+
+  it('prunes to maxInfluences and reduces the skeleton to the joint budget', async () => {
+    const root = await convertRig({ maxInfluences: 2, jointBudget: 'reduce', maxJoints: 2 });
+    const [mesh] = collect(root, 'Mesh');
+    expect(Number(property(mesh, 'primvars:skel:jointIndices:elementSize'))).toBe(2);
+    // Knee folds into Hip, so vertex 0 is bound to Hip alone
+    expect(numbers(property(mesh, 'primvars:skel:jointIndices'))).toEqual([1, 0, 1, 0, 1, 0]);
+    const weights = numbers(property(mesh, 'primvars:skel:jointWeights'));
+    [1, 0, 0.7, 0.3, 1, 0].forEach((weight, i) => expect(weights[i]).toBeCloseTo(weight, 5));
+
+    const [skeleton] = collect(root, 'Skeleton');
+    expect(String(property(skeleton, 'joints'))).not.toContain('Knee');
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Lookups over a converted UsdNode tree, shared by the converter tests
+ */
+import { UsdNode } from '../../core/usd-node';
+
+/**
+ * Every node under `root` (inclusive) of the given prim type, depth first
+ */
+export function collect(root: UsdNode, typeName: string): UsdNode[] {
+  const found: UsdNode[] = [];
+  const visit = (node: UsdNode) => {
+    if (node.getTypeName() === typeName) found.push(node);
+    for (const child of node.getChildren()) visit(child);
+  };
+  visit(root);
+  return found;
+}
+
+/**
+ * Value of the property whose declaration ends in `name`, e.g. `points`
+ * for `point3f[] points`
+ */
+export function property(node: UsdNode, name: string): unknown {
+  for (const { key, value } of node.getProperties()) {
+    if (key.split(' ').pop() === name) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Numbers of a USDA array or tuple literal, flattened
+ */
+export function numbers(value: unknown): number[] {
+  return String(value).replace(/[[\]()\s]/g, '').split(',').filter(Boolean).map(Number);
+}
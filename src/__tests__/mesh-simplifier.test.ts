@@ -0,0 +1,261 @@
+/** Tests for the quadric error metric mesh simplifier */
+
+import { describe, it, expect } from 'vitest';
+import {
+  simplifyMesh,
+  remapVertexAttribute,
+  resolveDecimationTarget,
+} from '../converters/shared/mesh-simplifier';
+import { convertPlyToUsdz } from '../converters/ply/ply-converter';
+import { readUsdz } from '../index';
+import { collect, property, numbers } from './helpers/usd-tree';
+
+/** UV sphere with a UV seam at u = 0 / 1 and collapsed pole rows */
+function uvSphere(segments: number, rings: number) {
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  for (let r = 0; r <= rings; r++) {
+    for (let s = 0; s <= segments; s++) {
+      const theta = (Math.PI * r) / rings;
+      const phi = (2 * Math.PI * s) / segments;
+      positions.push(Math.sin(theta) * Math.cos(phi), Math.cos(theta), Math.sin(theta) * Math.sin(phi));
+      uvs.push(s / segments, r / rings);
+    }
+  }
+  for (let r = 0; r < rings; r++) {
+    for (let s = 0; s < segments; s++) {
+      const a = r * (segments + 1) + s;
+      const b = a + segments + 1;
+      indices.push(a, a + 1, b, b, a + 1, b + 1);
+    }
+  }
+  return { positions: new Float32Array(positions), uvs: new Float32Array(uvs), indices: new Uint32Array(indices) };
+}
+
+/** Flat n x n grid in the XY plane, facing +Z */
+function grid(n: number) {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (let y = 0; y <= n; y++) {
+    for (let x = 0; x <= n; x++) positions.push(x / n, y / n, 0);
+  }
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const a = y * (n + 1) + x;
+      indices.push(a, a + 1, a + n + 1, a + n + 1, a + 1, a + n + 2);
+    }
+  }
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+/** ASCII PLY of grid(n), with an optional material_index per triangle */
+function gridPly(n: number, materialIndex?: (triangle: number) => number): ArrayBuffer {
+  const plane = grid(n);
+  const vertices: string[] = [];
+  for (let i = 0; i < plane.positions.length; i += 3) {
+    vertices.push(`${plane.positions[i]} ${plane.positions[i + 1]} ${plane.positions[i + 2]}`);
+  }
+  const faces: string[] = [];
+  for (let i = 0; i < plane.indices.length; i += 3) {
+    const face = `3 ${plane.indices[i]} ${plane.indices[i + 1]} ${plane.indices[i + 2]}`;
+    faces.push(materialIndex ? `${face} ${materialIndex(i / 3)}` : face);
+  }
+  const ply = [
+    'ply',
+    'format ascii 1.0',
+    `element vertex ${vertices.length}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    `element face ${faces.length}`,
+    'property list uchar int vertex_indices',
+    ...(materialIndex ? ['property int material_index'] : []),
+    'end_header',
+    ...vertices,
+    ...faces,
+    '',
+  ].join('\n');
+  return new TextEncoder().encode(ply).buffer as ArrayBuffer;
+}
+
+describe('resolveDecimationTarget', () => {
+  it('returns 0 when no reduction is requested', () => {
+    expect(resolveDecimationTarget(1000, {})).toBe(0);
+    expect(resolveDecimationTarget(1000, { decimateTarget: 0, decimateRatio: 1 })).toBe(0);
+    expect(resolveDecimationTarget(1000, { decimateTarget: 5000 })).toBe(0);
+  });
+
+  it('uses the smaller of target and ratio', () => {
+    expect(resolveDecimationTarget(1000, { decimateTarget: 300 })).toBe(300);
+    expect(resolveDecimationTarget(1000, { decimateRatio: 0.25 })).toBe(250);
+    expect(resolveDecimationTarget(1000, { decimateTarget: 300, decimateRatio: 0.5 })).toBe(300);
+    expect(resolveDecimationTarget(1000, { decimateTarget: 800, decimateRatio: 0.5 })).toBe(500);
+  });
+
+  it('never asks for fewer than one triangle', () => {
+    expect(resolveDecimationTarget(10, { decimateRatio: 0.01 })).toBe(1);
+  });
+});
+
+describe('remapVertexAttribute', () => {
+  it('gathers surviving vertices into the same array type', () => {
+    const colors = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    const out = remapVertexAttribute(colors, 3, [2, 0]);
+    expect(out).toBeInstanceOf(Uint8Array);
+    expect(Array.from(out)).toEqual([7, 8, 9, 1, 2, 3]);
+  });
+});
+
+describe('simplifyMesh', () => {
+  it('reaches the target on a closed surface and keeps its shape', () => {
+    const sphere = uvSphere(64, 32);
+    const inputFaces = sphere.indices.length / 3;
+    const result = simplifyMesh(sphere.positions, sphere.indices, {
+      targetFaceCount: 500,
+      attributes: [{ values: sphere.uvs, size: 2 }],
+    });
+
+    expect(result.faceCount).toBeLessThanOrEqual(500);
+    expect(result.faceCount).toBeGreaterThan(400);
+    expect(result.indices.length).toBe(result.faceCount * 3);
+    expect(result.faceRemap.length).toBe(result.faceCount);
+    expect(result.vertexRemap.length).toBe(result.vertexCount);
+    expect(Math.max(...result.indices)).toBeLessThan(result.vertexCount);
+
+    // Triangles keep input order
+    for (let i = 1; i < result.faceRemap.length; i++) {
+      expect(result.faceRemap[i]).toBeGreaterThan(result.faceRemap[i - 1]);
+      expect(result.faceRemap[i]).toBeLessThan(inputFaces);
+    }
+
+    // Vertices are original vertices, so they all stay on the unit sphere
+    const positions = remapVertexAttribute(sphere.positions, 3, result.vertexRemap);
+    for (let i = 0; i < positions.length; i += 3) {
+      expect(Math.hypot(positions[i], positions[i + 1], positions[i + 2])).toBeCloseTo(1, 5);
+    }
+
+    // The UV seam survives on both sides
+    const uvs = remapVertexAttribute(sphere.uvs, 2, result.vertexRemap);
+    let left = 0;
+    let right = 0;
+    for (let i = 0; i < uvs.length; i += 2) {
+      if (uvs[i] === 0) left++;
+      if (uvs[i] === 1) right++;
+    }
+    expect(left).toBeGreaterThanOrEqual(2);
+    expect(right).toBe(left);
+  });
+
+  it('keeps the surface manifold', () => {
+    const sphere = uvSphere(48, 24);
+    const result = simplifyMesh(sphere.positions, sphere.indices, {
+      targetFaceCount: 300,
+      attributes: [{ values: sphere.uvs, size: 2, weight: 0 }],
+    });
+
+    // Each directed edge (by position) is used at most once
+    const positions = remapVertexAttribute(sphere.positions, 3, result.vertexRemap);
+    const key = (v: number) => `${positions[v * 3]},${positions[v * 3 + 1]},${positions[v * 3 + 2]}`;
+    const edges = new Set<string>();
+    for (let i = 0; i < result.indices.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        const edge = `${key(result.indices[i + k])}|${key(result.indices[i + ((k + 1) % 3)])}`;
+        expect(edges.has(edge)).toBe(false);
+        edges.add(edge);
+      }
+    }
+  });
+
+  it('collapses a flat grid down to its corners without moving the border', () => {
+    const plane = grid(20);
+    const result = simplifyMesh(plane.positions, plane.indices, { targetFaceCount: 2 });
+
+    expect(result.faceCount).toBe(2);
+    expect(result.vertexCount).toBe(4);
+    const corners = Array.from(remapVertexAttribute(plane.positions, 3, result.vertexRemap));
+    const points = [];
+    for (let i = 0; i < corners.length; i += 3) points.push(`${corners[i]},${corners[i + 1]}`);
+    expect(points.sort()).toEqual(['0,0', '0,1', '1,0', '1,1']);
+
+    // Winding is preserved: both triangles still face +Z
+    for (let i = 0; i < result.indices.length; i += 3) {
+      const [a, b, c] = [result.indices[i], result.indices[i + 1], result.indices[i + 2]];
+      const abx = corners[b * 3] - corners[a * 3];
+      const aby = corners[b * 3 + 1] - corners[a * 3 + 1];
+      const acx = corners[c * 3] - corners[a * 3];
+      const acy = corners[c * 3 + 1] - corners[a * 3 + 1];
+      expect(abx * acy - aby * acx).toBeGreaterThan(0);
+    }
+  });
+
+  it('keeps the border between face groups', () => {
+    const plane = grid(20);
+    // Left half of the grid is group 0, right half group 1
+    const faceGroups = Array.from({ length: plane.indices.length / 3 }, (_, t) => (Math.floor(t / 2) % 20 < 10 ? 0 : 1));
+    const result = simplifyMesh(plane.positions, plane.indices, { targetFaceCount: 4, faceGroups });
+
+    expect(result.faceCount).toBe(4);
+    const points = remapVertexAttribute(plane.positions, 3, result.vertexRemap);
+    for (let t = 0; t < result.faceCount; t++) {
+      const left = faceGroups[result.faceRemap[t]] === 0;
+      for (let k = 0; k < 3; k++) {
+        const x = points[result.indices[t * 3 + k] * 3];
+        expect(left ? x <= 0.5 : x >= 0.5).toBe(true);
+      }
+    }
+    // Copies split along the border are merged back into one vertex each
+    expect(result.vertexCount).toBe(6);
+  });
+
+  it('returns the mesh unchanged when already under the target', () => {
+    const plane = grid(2);
+    const result = simplifyMesh(plane.positions, plane.indices, { targetFaceCount: 100 });
+    expect(result.faceCount).toBe(8);
+    expect(Array.from(result.faceRemap)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+});
+
+describe('PLY decimation', () => {
+  it('reduces the face count of the exported mesh', async () => {
+    const faceCount = 16 * 16 * 2;
+    const usdz = await convertPlyToUsdz(gridPly(16), { decimateRatio: 0.25 });
+    const result = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const find = (node: typeof result.root): typeof result.root | undefined => {
+      if (node.getTypeName() === 'Mesh') return node;
+      for (const child of node.getChildren()) {
+        const mesh = find(child);
+        if (mesh) return mesh;
+      }
+      return undefined;
+    };
+    const mesh = find(result.root);
+    expect(mesh).toBeDefined();
+    // USDA layers keep array values as their authored text
+    const counts = String(mesh!.getProperty('int[] faceVertexCounts')).match(/\d+/g)!.map(Number);
+    expect(counts.length).toBeLessThanOrEqual(faceCount / 4);
+    expect(counts.every((n) => n === 3)).toBe(true);
+  });
+
+  it('keeps material_index groups apart', async () => {
+    // Left half of the grid is material 0, right half material 1
+    const usdz = await convertPlyToUsdz(gridPly(16, t => (Math.floor(t / 2) % 16 < 8 ? 0 : 1)), { decimateRatio: 0.1 });
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const [mesh] = collect(root, 'Mesh');
+    const points = numbers(property(mesh, 'points'));
+    const faceVertexIndices = numbers(property(mesh, 'faceVertexIndices'));
+    expect(faceVertexIndices.length).toBeLessThanOrEqual(16 * 16 * 2 * 0.1 * 3);
+
+    // Geometry is centered, so the material border sits at x = 0
+    const subsets = collect(mesh, 'GeomSubset');
+    expect(subsets).toHaveLength(2);
+    subsets.forEach((subset, material) => {
+      for (const face of numbers(property(subset, 'indices'))) {
+        for (let k = 0; k < 3; k++) {
+          const x = points[faceVertexIndices[face * 3 + k] * 3];
+          expect(material === 0 ? x <= 1e-6 : x >= -1e-6).toBe(true);
+        }
+      }
+    });
+  });
+});
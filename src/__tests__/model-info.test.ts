@@ -0,0 +1,124 @@
+/**
+ * Model info tests
+ *
+ * Summarizes generated GLB, OBJ (+ MTL) and STL files and checks the
+ * reported meshes, materials, textures, animations and bounds.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { getModelInfo } from '../converters/info';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-info-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('getModelInfo', () => {
+  it('summarizes a GLB', async () => {
+    const document = new Document();
+    const buffer = document.createBuffer();
+    const position = document.createAccessor()
+      .setType('VEC3')
+      .setArray(new Float32Array([0, 0, 0, 2, 0, 0, 0, 3, 0, 2, 3, 0]))
+      .setBuffer(buffer);
+    const indices = document.createAccessor()
+      .setType('SCALAR')
+      .setArray(new Uint16Array([0, 1, 2, 1, 3, 2]))
+      .setBuffer(buffer);
+    const texture = document.createTexture('Albedo').setImage(new Uint8Array(PNG)).setMimeType('image/png');
+    const material = document.createMaterial('Paint').setBaseColorTexture(texture);
+    const mesh = document.createMesh('Quad').addPrimitive(
+      document.createPrimitive().setAttribute('POSITION', position).setIndices(indices).setMaterial(material)
+    );
+    const node = document.createNode('Quad').setMesh(mesh).setTranslation([0, 0, 1]);
+    document.createScene('Scene').addChild(node);
+
+    const times = document.createAccessor().setType('SCALAR').setArray(new Float32Array([0, 2.5])).setBuffer(buffer);
+    const values = document.createAccessor().setType('VEC3').setArray(new Float32Array([0, 0, 1, 0, 0, 2])).setBuffer(buffer);
+    const sampler = document.createAnimationSampler().setInput(times).setOutput(values);
+    document.createAnimation('Bob')
+      .addSampler(sampler)
+      .addChannel(document.createAnimationChannel().setTargetNode(node).setTargetPath('translation').setSampler(sampler));
+
+    const file = path.join(dir, 'quad.glb');
+    fs.writeFileSync(file, await new NodeIO().writeBinary(document));
+
+    const info = await getModelInfo(file);
+
+    expect(info.format).toBe('glb');
+    expect(info.meshes).toEqual([{ name: 'Quad', vertexCount: 4, triangleCount: 2, materials: ['Paint'] }]);
+    expect(info.materials).toEqual(['Paint']);
+    expect(info.textures).toEqual([{ name: 'Albedo', mimeType: 'image/png', byteLength: PNG.length, width: 1, height: 1 }]);
+    expect(info.animations).toEqual([{ name: 'Bob', channels: 1, duration: 2.5 }]);
+    expect(info.bounds).toEqual({ min: [0, 0, 1], max: [2, 3, 1] });
+  });
+
+  it('summarizes an OBJ with its MTL textures', async () => {
+    fs.writeFileSync(path.join(dir, 'albedo.png'), PNG);
+    fs.writeFileSync(path.join(dir, 'crate.mtl'), [
+      'newmtl wood',
+      'map_Kd albedo.png',
+      'map_Bump -bm 0.5 normal.png'
+    ].join('\n'));
+    const file = path.join(dir, 'crate.obj');
+    fs.writeFileSync(file, [
+      'mtllib crate.mtl',
+      'v -1 0 0', 'v 1 0 0', 'v 1 2 0', 'v -1 2 0', 'v 0 0 5',
+      'o lid',
+      'usemtl wood',
+      'f 1 2 3 4',
+      'o base',
+      'f -5 -4 -1'
+    ].join('\n'));
+
+    const info = await getModelInfo(file);
+
+    expect(info.format).toBe('obj');
+    expect(info.meshes).toEqual([
+      { name: 'lid', vertexCount: 4, triangleCount: 2, materials: ['wood'] },
+      { name: 'base', vertexCount: 3, triangleCount: 1, materials: ['wood'] }
+    ]);
+    expect(info.textures).toEqual([
+      { name: 'albedo.png', mimeType: 'image/png', byteLength: PNG.length },
+      { name: 'normal.png', mimeType: 'image/png' }
+    ]);
+    expect(info.bounds).toEqual({ min: [-1, 0, 0], max: [1, 2, 5] });
+  });
+
+  it('summarizes an STL', async () => {
+    const file = path.join(dir, 'tri.stl');
+    fs.writeFileSync(file, [
+      'solid tri',
+      'facet normal 0 0 1',
+      'outer loop',
+      'vertex 0 0 0', 'vertex 4 0 0', 'vertex 0 2 0',
+      'endloop',
+      'endfacet',
+      'endsolid tri'
+    ].join('\n'));
+
+    const info = await getModelInfo(file);
+
+    expect(info).toMatchObject({ format: 'stl', vertexCount: 3, triangleCount: 1, bounds: { min: [0, 0, 0], max: [4, 2, 0] } });
+  });
+
+  it('rejects unsupported formats', async () => {
+    const file = path.join(dir, 'notes.txt');
+    fs.writeFileSync(file, '');
+    await expect(getModelInfo(file)).rejects.toThrow('Unsupported file format: .txt');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * OBJ line and point element tests
+ *
+ * Converts an OBJ with faces, `l` polylines and `p` points, and checks the
+ * BasisCurves and Points prims written next to the mesh.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { convertObjToUsdz } from '../converters/obj/obj-converter';
+import { readUsdz } from '../converters/usdz';
+import { ObjConverterConfigSchema } from '../schemas/obj-schemas';
+import { UsdNode } from '../core/usd-node';
+import { collect, property, numbers } from './helpers/usd-tree';
+
+let dir: string;
+let file: string;
+
+async function convert(options?: { curveWidth?: number; pointWidth?: number }): Promise<UsdNode> {
+  const usdz = await convertObjToUsdz(file, ObjConverterConfigSchema.parse(options ?? {}));
+  const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+  return root;
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-obj-elements-'));
+  fs.writeFileSync(path.join(dir, 'sign.mtl'), [
+    'newmtl board', 'Kd 0.5 0.5 0.5',
+    'newmtl red', 'Kd 1 0 0',
+    'newmtl blue', 'Kd 0 0 1'
+  ].join('\n'));
+  file = path.join(dir, 'sign.obj');
+  fs.writeFileSync(file, [
+    'mtllib sign.mtl',
+    'v 0 0 0', 'v 1 0 0', 'v 1 1 0', 'v 0 1 0',
+    'o Panel', 'usemtl board', 'f 1 2 3 4',
+    'o Outline', 'usemtl red', 'l 1 2 3', 'l 3 4', 'usemtl blue', 'l 4 1',
+    'o Marks', 'p 1 3', 'p 2'
+  ].join('\n'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('OBJ line and point elements', () => {
+  it('keeps faces as a mesh', async () => {
+    const root = await convert();
+    const meshes = collect(root, 'Mesh');
+    expect(meshes).toHaveLength(1);
+    expect(numbers(property(meshes[0], 'faceVertexCounts'))).toEqual([3, 3]);
+  });
+
+  it('writes polylines as linear BasisCurves, one per material', async () => {
+    const root = await convert();
+    const curves = collect(root, 'BasisCurves');
+    expect(curves).toHaveLength(2);
+
+    const [red, blue] = curves;
+    expect(property(red, 'type')).toBe('linear');
+    expect(numbers(property(red, 'curveVertexCounts'))).toEqual([3, 2]);
+    expect(numbers(property(blue, 'curveVertexCounts'))).toEqual([2]);
+    expect(property(red, 'material:binding')).toContain('/Materials/red');
+    expect(property(blue, 'material:binding')).toContain('/Materials/blue');
+
+    // Widths are authored in file units, under the shared fit-to-view scale of 2
+    expect(numbers(property(red, 'widths'))).toEqual([0.005, 0.005, 0.005, 0.005, 0.005]);
+  });
+
+  it('writes points as a Points prim', async () => {
+    const root = await convert();
+    const points = collect(root, 'Points');
+    expect(points).toHaveLength(1);
+    expect(numbers(property(points[0], 'points'))).toHaveLength(9);
+    expect(numbers(property(points[0], 'widths'))).toEqual([0.01, 0.01, 0.01]);
+  });
+
+  it('honours configured widths', async () => {
+    const root = await convert({ curveWidth: 0.1, pointWidth: 0.4 });
+    expect(numbers(property(collect(root, 'BasisCurves')[0], 'widths'))[0]).toBeCloseTo(0.05);
+    expect(numbers(property(collect(root, 'Points')[0], 'widths'))[0]).toBeCloseTo(0.2);
+  });
+});
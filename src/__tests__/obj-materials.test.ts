@@ -0,0 +1,112 @@
+/**
+ * OBJ material tests
+ *
+ * Converts an OBJ whose MTL uses the PBR extensions and texture options, and
+ * checks the UsdPreviewSurface inputs and texture networks in the package.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { convertObjToUsdz } from '../converters/obj/obj-converter';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import { property } from './helpers/usd-tree';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+let dir: string;
+let material: UsdNode;
+
+function child(node: UsdNode, name: string): UsdNode {
+  const found = [...node.getChildren()].find(candidate => candidate.getName() === name);
+  expect(found, `${node.getPath()}/${name}`).toBeDefined();
+  return found!;
+}
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-obj-mtl-'));
+  for (const name of ['albedo.png', 'rough.png', 'metal.png', 'glow.png', 'normal map.png', 'alpha.png', 'height.png']) {
+    fs.writeFileSync(path.join(dir, name), PNG);
+  }
+  fs.writeFileSync(path.join(dir, 'panel.mtl'), [
+    'newmtl painted',
+    'Kd 1 1 1',
+    'Pr 0.25',
+    'Pm 0.75',
+    'Pc 0.5',
+    'Pcr 0.1',
+    'Ke 2 2 2',
+    'Ps 0.3',
+    'map_Kd -s 2 2 -o 0.5 0 albedo.png',
+    'map_Pr -imfchan g rough.png',
+    'map_Pm -clamp on metal.png',
+    'map_Ke glow.png',
+    'norm -bm 0.5 normal map.png',
+    'map_d alpha.png',
+    'disp -bm 0.1 height.png'
+  ].join('\n'));
+  const file = path.join(dir, 'panel.obj');
+  fs.writeFileSync(file, [
+    'mtllib panel.mtl',
+    'v 0 0 0', 'v 1 0 0', 'v 1 1 0', 'v 0 1 0',
+    'vt 0 0', 'vt 1 0', 'vt 1 1', 'vt 0 1',
+    'usemtl painted',
+    'f 1/1 2/2 3/3 4/4'
+  ].join('\n'));
+
+  const usdz = await convertObjToUsdz(file);
+  const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+  const materials: UsdNode[] = [];
+  const visit = (node: UsdNode) => {
+    if (node.getTypeName() === 'Material') materials.push(node);
+    for (const nested of node.getChildren()) visit(nested);
+  };
+  visit(root);
+  material = materials.find(node => node.getName() === 'painted')!;
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('OBJ PBR materials', () => {
+  it('maps PBR scalars onto UsdPreviewSurface inputs', () => {
+    const surface = child(material, 'PreviewSurface');
+    expect(Number(property(surface, 'inputs:clearcoat'))).toBeCloseTo(0.5);
+    expect(Number(property(surface, 'inputs:clearcoatRoughness'))).toBeCloseTo(0.1);
+  });
+
+  it('connects PBR texture maps to their inputs', () => {
+    const surface = child(material, 'PreviewSurface');
+    const path = material.getPath();
+    expect(property(surface, 'inputs:roughness.connect')).toContain(`${path}/UVTexture_roughness.outputs:g`);
+    expect(property(surface, 'inputs:metallic.connect')).toContain(`${path}/UVTexture_metallic.outputs:r`);
+    expect(property(surface, 'inputs:emissiveColor.connect')).toContain(`${path}/UVTexture_emissive.outputs:rgb`);
+    expect(property(surface, 'inputs:normal.connect')).toContain(`${path}/UVTexture_normal.outputs:rgb`);
+    expect(property(surface, 'inputs:opacity.connect')).toContain(`${path}/UVTexture_opacity.outputs:r`);
+    expect(property(surface, 'inputs:displacement.connect')).toContain(`${path}/UVTexture_displacement.outputs:r`);
+  });
+
+  it('applies texture options', () => {
+    const diffuse = child(material, 'UVTexture');
+    expect(property(diffuse, 'inputs:st.connect')).toContain('Transform2d.outputs:result');
+    const transform = child(material, 'Transform2d');
+    expect(String(property(transform, 'inputs:scale')).replace(/\s/g, '')).toBe('(2,2)');
+    expect(String(property(transform, 'inputs:translation')).replace(/\s/g, '')).toBe('(0.5,0)');
+
+    expect(property(child(material, 'UVTexture_metallic'), 'inputs:wrapS')).toBe('clamp');
+    expect(property(child(material, 'UVTexture_roughness'), 'inputs:sourceColorSpace')).toBe('raw');
+
+    const normal = child(material, 'UVTexture_normal');
+    expect(String(property(normal, 'inputs:scale')).replace(/\s/g, '')).toBe('(1,1,2,1)');
+    expect(String(property(normal, 'inputs:bias')).replace(/\s/g, '')).toBe('(-0.5,-0.5,-1,0)');
+
+    // Ke tints the emissive map
+    expect(String(property(child(material, 'UVTexture_emissive'), 'inputs:scale')).replace(/\s/g, '')).toBe('(2,2,2,1)');
+  });
+});
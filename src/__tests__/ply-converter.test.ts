@@ -3,6 +3,9 @@
 import { describe, it, expect } from 'vitest';
 import { parsePly, PlyMeshData } from '../converters/ply/ply-parser';
 import { convertPlyToUsdz } from '../converters/ply/ply-converter';
+import { readUsdz } from '../index';
+import { UsdNode } from '../core/usd-node';
+import { numbers } from './helpers/usd-tree';
 
 /** Helper: encode a string to ArrayBuffer */
 function toBuffer(str: string): ArrayBuffer {
@@ -80,6 +83,29 @@ end_header
 4 0 1 2 3
 `;
 
+/** ASCII PLY with survey properties and a face material_index declared before the index list */
+const ASCII_ATTRIBUTES_PLY = `ply
+format ascii 1.0
+element vertex 4
+property float x
+property float y
+property float z
+property float intensity
+property uchar classification
+property double gps_time
+element face 2
+property int material_index
+property list uchar int vertex_indices
+property float quality
+end_header
+0 0 0 0.25 2 123456789.125
+1 0 0 0.5 6 123456790.5
+1 1 0 0.75 2 1
+0 1 0 1 9 2
+3 3 0 1 2 0.5
+-1 4 0 1 2 3 0.75
+`;
+
 /** Build a binary little-endian PLY triangle mesh in memory */
 function buildBinaryPly(): ArrayBuffer {
   const header = `ply\nformat binary_little_endian 1.0\nelement vertex 3\nproperty float x\nproperty float y\nproperty float z\nelement face 1\nproperty list uchar int vertex_indices\nend_header\n`;
@@ -118,6 +144,49 @@ function buildBinaryPly(): ArrayBuffer {
   return buffer;
 }
 
+/** 3DGS property order as written by the reference trainer (SH degree 1) */
+const SPLAT_PROPERTIES = [
+  'x', 'y', 'z', 'nx', 'ny', 'nz', 'f_dc_0', 'f_dc_1', 'f_dc_2',
+  ...Array.from({ length: 9 }, (_, i) => `f_rest_${i}`),
+  'opacity', 'scale_0', 'scale_1', 'scale_2', 'rot_0', 'rot_1', 'rot_2', 'rot_3',
+];
+
+/** Build a binary little-endian Gaussian splat PLY from rows of SPLAT_PROPERTIES values */
+function buildSplatPly(rows: number[][], properties: string[] = SPLAT_PROPERTIES): ArrayBuffer {
+  const header = [
+    'ply', 'format binary_little_endian 1.0', `element vertex ${rows.length}`,
+    ...properties.map(name => `property float ${name}`), 'end_header', '',
+  ].join('\n');
+  const headerBytes = new TextEncoder().encode(header);
+  const buffer = new ArrayBuffer(headerBytes.length + rows.length * properties.length * 4);
+  new Uint8Array(buffer).set(headerBytes, 0);
+  const view = new DataView(buffer);
+  let offset = headerBytes.length;
+  for (const row of rows) {
+    for (const value of row) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+  }
+  return buffer;
+}
+
+const SPLAT_ROWS = [
+  // pos, normal, dc, rest (R0-2, G0-2, B0-2), opacity, log scale, rot (w,x,y,z)
+  [0, 0, 0, 0, 0, 0, 1, 0, -1, 1, 2, 3, 4, 5, 6, 7, 8, 9, 0, 0, Math.log(2), -1, 2, 0, 0, 0],
+  [1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, -1, -1, -1, 0, 0, 0, 3],
+];
+
+/** Depth-first search for the Points prim in a read-back scene */
+function findPoints(node: UsdNode): UsdNode | undefined {
+  if (node.getTypeName() === 'Points') return node;
+  for (const child of node.getChildren()) {
+    const found = findPoints(child);
+    if (found) return found;
+  }
+  return undefined;
+}
+
 describe('PLY Parser', () => {
   it('parses ASCII mesh correctly', () => {
     const data = parsePly(toBuffer(ASCII_MESH_PLY));
@@ -180,6 +249,99 @@ describe('PLY Parser', () => {
   });
 });
 
+describe('PLY Parser — extra properties', () => {
+  it('keeps vertex properties without a built-in role, typed by their PLY type', () => {
+    const data = parsePly(toBuffer(ASCII_ATTRIBUTES_PLY));
+    expect(data.vertexAttributes.map(a => [a.name, a.type])).toEqual([
+      ['intensity', 'float'], ['classification', 'uchar'], ['gps_time', 'double'],
+    ]);
+    expect(data.vertexAttributes[1].values).toBeInstanceOf(Uint32Array);
+    expect(Array.from(data.vertexAttributes[1].values)).toEqual([2, 6, 2, 9]);
+    expect(data.vertexAttributes[2].values[0]).toBe(123456789.125);
+  });
+
+  it('reads face properties around the index list and repeats them per triangle', () => {
+    const data = parsePly(toBuffer(ASCII_ATTRIBUTES_PLY));
+    expect(Array.from(data.faceIndices!)).toEqual([0, 1, 2, 0, 1, 2, 0, 2, 3]);
+    expect(data.faceAttributes.map(a => a.name)).toEqual(['material_index', 'quality']);
+    expect(Array.from(data.faceAttributes[0].values)).toEqual([3, -1, -1]);
+    expect(Array.from(data.faceAttributes[1].values)).toEqual([0.5, 0.75, 0.75]);
+  });
+
+  it('reads binary face properties declared before the index list', () => {
+    const header = 'ply\nformat binary_little_endian 1.0\nelement vertex 3\nproperty float x\nproperty float y\nproperty float z\n'
+      + 'element face 1\nproperty uchar material_index\nproperty list uchar int vertex_indices\nend_header\n';
+    const headerBytes = new TextEncoder().encode(header);
+    const buffer = new ArrayBuffer(headerBytes.length + 36 + 1 + 13);
+    new Uint8Array(buffer).set(headerBytes, 0);
+    const view = new DataView(buffer);
+    let offset = headerBytes.length;
+    for (const value of [0, 0, 0, 1, 0, 0, 0, 1, 0]) {
+      view.setFloat32(offset, value, true); offset += 4;
+    }
+    view.setUint8(offset, 7); offset += 1;
+    view.setUint8(offset, 3); offset += 1;
+    for (const index of [2, 1, 0]) {
+      view.setInt32(offset, index, true); offset += 4;
+    }
+
+    const data = parsePly(buffer);
+    expect(Array.from(data.faceIndices!)).toEqual([2, 1, 0]);
+    expect(data.faceAttributes[0].name).toBe('material_index');
+    expect(Array.from(data.faceAttributes[0].values)).toEqual([7]);
+  });
+
+  it('does not duplicate built-in or splat properties as attributes', () => {
+    expect(parsePly(toBuffer(ASCII_FULL_PLY)).vertexAttributes).toEqual([]);
+    expect(parsePly(buildSplatPly(SPLAT_ROWS)).vertexAttributes).toEqual([]);
+  });
+});
+
+describe('PLY Parser — Gaussian splats', () => {
+  it('detects the 3DGS layout and applies activations', () => {
+    const data = parsePly(buildSplatPly(SPLAT_ROWS));
+    const splat = data.splat!;
+    expect(splat).toBeDefined();
+    expect(data.isPointCloud).toBe(true);
+    expect(splat.shDegree).toBe(1);
+    expect(Array.from(splat.orientations)).toEqual([1, 0, 0, 0, 0, 0, 0, 1]);
+    expect(splat.scales[0]).toBeCloseTo(1);
+    expect(splat.scales[1]).toBeCloseTo(2);
+    expect(splat.scales[2]).toBeCloseTo(Math.exp(-1));
+    expect(splat.opacities[0]).toBeCloseTo(0.5);
+    expect(splat.opacities[1]).toBeCloseTo(1 / (1 + Math.exp(-2)));
+  });
+
+  it('regroups channel-major f_rest into RGB triples after the DC term', () => {
+    const splat = parsePly(buildSplatPly(SPLAT_ROWS)).splat!;
+    expect(Array.from(splat.shCoefficients.subarray(0, 12))).toEqual([1, 0, -1, 1, 4, 7, 2, 5, 8, 3, 6, 9]);
+    expect(splat.shCoefficients.length).toBe(2 * 4 * 3);
+  });
+
+  it('derives display colors from the DC term and drops placeholder normals', () => {
+    const data = parsePly(buildSplatPly(SPLAT_ROWS));
+    expect(data.colors![0]).toBeCloseTo(0.5 + 0.28209479177387814);
+    expect(data.colors![1]).toBeCloseTo(0.5);
+    expect(data.colors![2]).toBeCloseTo(0.5 - 0.28209479177387814);
+    expect(data.normals).toBeUndefined();
+  });
+
+  it('falls back to SH degree 0 when f_rest is incomplete', () => {
+    const properties = SPLAT_PROPERTIES.filter(name => name !== 'f_rest_8');
+    const rows = SPLAT_ROWS.map(row => row.filter((_, i) => i !== SPLAT_PROPERTIES.indexOf('f_rest_8')));
+    const splat = parsePly(buildSplatPly(rows, properties)).splat!;
+    expect(splat.shDegree).toBe(0);
+    expect(splat.shCoefficients.length).toBe(2 * 3);
+  });
+
+  it('leaves ordinary point clouds without splat data', () => {
+    const properties = SPLAT_PROPERTIES.filter(name => !name.startsWith('rot_'));
+    const rows = SPLAT_ROWS.map(row => row.slice(0, properties.length));
+    expect(parsePly(buildSplatPly(rows, properties)).splat).toBeUndefined();
+    expect(parsePly(toBuffer(ASCII_POINTCLOUD_PLY)).splat).toBeUndefined();
+  });
+});
+
 describe('PLY → USDZ Converter', () => {
   it('converts ASCII mesh PLY to valid USDZ', async () => {
     const blob = await convertPlyToUsdz(toBuffer(ASCII_MESH_PLY));
@@ -221,4 +383,74 @@ describe('PLY → USDZ Converter', () => {
     const blob = await convertPlyToUsdz(buildBinaryPly());
     expect(blob.size).toBeGreaterThan(0);
   });
+
+  it('writes Gaussian splats as a Points prim with splat primvars', async () => {
+    const usdz = await convertPlyToUsdz(buildSplatPly(SPLAT_ROWS));
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const points = findPoints(root)!;
+    expect(points).toBeDefined();
+    expect(points.getProperty('quatf[] primvars:splat:orientations')).toBe('[(1,0,0,0), (0,0,0,1)]');
+    expect(numbers(points.getProperty('float[] widths'))).toEqual([4, 0.7358]);
+    expect(numbers(points.getProperty('float[] primvars:splat:opacities'))).toEqual([0.5, 0.8808]);
+    expect(points.getProperty('float[] primvars:displayOpacity')).toBeUndefined();
+    expect(points.getProperty('int primvars:splat:sh:elementSize')).toBe(4);
+    expect(points.getProperty('uniform token primvars:splat:sh:interpolation')).toBe('vertex');
+    expect(points.getProperty('uniform int splat:shDegree')).toBe('1');
+    expect(points.getProperty('normal3f[] normals')).toBeUndefined();
+  });
+
+  it('writes splat primvars to a USDC layer', async () => {
+    const usdz = await convertPlyToUsdz(buildSplatPly(SPLAT_ROWS), { layerFormat: 'usdc' });
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const points = findPoints(root)!;
+    expect(numbers(points.getProperty('quatf[] primvars:splat:orientations'))).toEqual([1, 0, 0, 0, 0, 0, 0, 1]);
+    expect(numbers(points.getProperty('float[] primvars:splat:opacities'))[1]).toBeCloseTo(0.880797, 5);
+  });
+
+  it('keeps splat attributes aligned when downsampling', async () => {
+    const rows = Array.from({ length: 10 }, (_, i) => {
+      const row = [...SPLAT_ROWS[0]];
+      row[0] = i;
+      row[SPLAT_PROPERTIES.indexOf('opacity')] = i - 5;
+      return row;
+    });
+    const usdz = await convertPlyToUsdz(buildSplatPly(rows), { maxPoints: 5 });
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const points = findPoints(root)!;
+    const opacities = numbers(points.getProperty('float[] primvars:splat:opacities'));
+    const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+    expect(opacities).toHaveLength(5);
+    [0, 2, 4, 6, 8].forEach((i, k) => expect(opacities[k]).toBeCloseTo(sigmoid(i - 5), 4));
+  });
+
+  it('writes extra properties as primvars and material_index as GeomSubsets', async () => {
+    const usdz = await convertPlyToUsdz(toBuffer(ASCII_ATTRIBUTES_PLY));
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    const find = (node: UsdNode, type: string): UsdNode[] => [
+      ...(node.getTypeName() === type ? [node] : []),
+      ...[...node.getChildren()].flatMap(child => find(child, type)),
+    ];
+    const [meshNode] = find(root, 'Mesh');
+    expect(meshNode.getProperty('uchar[] primvars:classification')).toBe('[2,6,2,9]');
+    expect(meshNode.getProperty('double[] primvars:gps_time')).toBe('[123456789.125, 123456790.5, 1, 2]');
+    expect(meshNode.getProperty('uniform token primvars:intensity:interpolation')).toBe('vertex');
+    expect(meshNode.getProperty('float[] primvars:quality')).toBe('[0.5, 0.75, 0.75]');
+    expect(meshNode.getProperty('uniform token primvars:quality:interpolation')).toBe('uniform');
+    expect(meshNode.getProperty('int[] primvars:material_index')).toBeUndefined();
+
+    const subsets = find(meshNode, 'GeomSubset');
+    expect(subsets.map(subset => subset.getName())).toEqual(['material_neg1', 'material_3']);
+    expect(subsets[0].getProperty('int[] indices')).toBe('[1,2]');
+    expect(subsets[0].getProperty('uniform token familyName')).toBe('materialBind');
+    expect(subsets[1].getProperty('material:binding')).toBe('</Root/Materials/PlyMaterial_3>');
+  });
+
+  it('keeps vertex properties aligned when downsampling', async () => {
+    const lines = ['ply', 'format ascii 1.0', 'element vertex 10',
+      'property float x', 'property float y', 'property float z', 'property int classification', 'end_header'];
+    for (let i = 0; i < 10; i++) lines.push(`${i} 0 0 ${i * 10}`);
+    const usdz = await convertPlyToUsdz(toBuffer(lines.join('\n') + '\n'), { maxPoints: 5 });
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    expect(findPoints(root)!.getProperty('int[] primvars:classification')).toBe('[0,20,40,60,80]');
+  });
 });
@@ -0,0 +1,115 @@
+/**
+ * STL solids and facet color tests
+ *
+ * Parses and converts multi-solid ASCII STLs and binary STLs colored with
+ * the VisCAM/SolidView and Materialise conventions, and checks the meshes,
+ * GeomSubset materials and uniform displayColor written for them.
+ */
+import { describe, it, expect } from 'vitest';
+import { convertStlToUsdz } from '../converters/stl';
+import { parseStl } from '../converters/stl/stl-parser';
+import { readUsdz } from '../converters/usdz';
+import { UsdNode } from '../core/usd-node';
+import { collect, property, numbers } from './helpers/usd-tree';
+
+function facet(x: number): string {
+  return `facet normal 0 0 1\nouter loop\nvertex ${x} 0 0\nvertex ${x + 1} 0 0\nvertex ${x} 1 0\nendloop\nendfacet\n`;
+}
+
+const MULTI_SOLID = [
+  `solid wheel\n${facet(0)}${facet(2)}endsolid wheel`,
+  `solid body part\n${facet(5)}endsolid body part`,
+  `solid wheel\n${facet(8)}endsolid`
+].join('\n');
+
+/**
+ * Binary STL with one triangle per attribute value; `header` is written at
+ * the start of the 80-byte header, `bytes` patched in after it
+ */
+function binaryStl(attributes: number[], header = '', bytes: Record<number, number[]> = {}): ArrayBuffer {
+  const buffer = new ArrayBuffer(84 + attributes.length * 50);
+  const view = new DataView(buffer);
+  new Uint8Array(buffer).set(new TextEncoder().encode(header));
+  for (const [offset, values] of Object.entries(bytes)) {
+    new Uint8Array(buffer).set(values, Number(offset));
+  }
+  view.setUint32(80, attributes.length, true);
+  attributes.forEach((attribute, i) => {
+    const offset = 84 + i * 50;
+    view.setFloat32(offset + 8, 1, true);
+    [i, 0, 0, i + 1, 0, 0, i, 1, 0].forEach((value, j) => view.setFloat32(offset + 12 + j * 4, value, true));
+    view.setUint16(offset + 48, attribute, true);
+  });
+  return buffer;
+}
+
+async function convert(input: ArrayBuffer, config?: { maxColorMaterials?: number; decimateRatio?: number }): Promise<UsdNode> {
+  const usdz = await convertStlToUsdz(input, config);
+  const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+  return root;
+}
+
+describe('STL solids', () => {
+  it('records each solid of an ASCII file as a triangle range', () => {
+    const mesh = parseStl(new TextEncoder().encode(MULTI_SOLID).buffer as ArrayBuffer);
+    expect(mesh.solids).toEqual([
+      { name: 'wheel', triangleOffset: 0, triangleCount: 2 },
+      { name: 'body part', triangleOffset: 2, triangleCount: 1 },
+      { name: 'wheel', triangleOffset: 3, triangleCount: 1 }
+    ]);
+  });
+
+  it('writes one named mesh per solid', async () => {
+    const root = await convert(new TextEncoder().encode(MULTI_SOLID).buffer as ArrayBuffer);
+    const meshes = collect(root, 'Mesh');
+    expect(meshes.map(mesh => mesh.getName())).toEqual(['wheel', 'body_part', 'wheel_1']);
+    expect(meshes.map(mesh => numbers(property(mesh, 'faceVertexCounts')).length)).toEqual([2, 1, 1]);
+    expect(property(meshes[1], 'material:binding')).toContain('/Materials/StlMaterial');
+  });
+
+  it('keeps a single solid as StlMesh', async () => {
+    const root = await convert(new TextEncoder().encode(`solid part\n${facet(0)}endsolid part`).buffer as ArrayBuffer);
+    expect(collect(root, 'Mesh').map(mesh => mesh.getName())).toEqual(['StlMesh']);
+  });
+});
+
+describe('STL facet colors', () => {
+  it('reads VisCAM/SolidView colors per facet', () => {
+    const mesh = parseStl(binaryStl([0x8000 | (31 << 10), 0, 0x8000 | 31]));
+    expect(mesh.colors).toEqual([1, 0, 0, 0.7, 0.7, 0.7, 0, 0, 1]);
+  });
+
+  it('reads Materialise colors and the COLOR= object color', () => {
+    const mesh = parseStl(binaryStl([31, 0x8000], 'COLOR=', { 6: [0, 255, 0, 255] }));
+    expect(mesh.colors).toEqual([1, 0, 0, 0, 1, 0]);
+  });
+
+  it('ignores attribute bytes without a color convention', () => {
+    expect(parseStl(binaryStl([0, 0])).colors).toBeUndefined();
+  });
+
+  it('binds one GeomSubset material per color', async () => {
+    const root = await convert(binaryStl([0x8000 | (31 << 10), 0x8000 | 31, 0x8000 | (31 << 10)]));
+    const subsets = collect(root, 'GeomSubset');
+    expect(subsets.map(subset => subset.getName())).toEqual(['StlColor_FF0000', 'StlColor_0000FF']);
+    expect(numbers(property(subsets[0], 'indices'))).toEqual([0, 2]);
+    expect(property(subsets[0], 'material:binding')).toContain('/Materials/StlColor_FF0000');
+
+    const material = collect(root, 'Material').find(node => node.getName() === 'StlColor_0000FF')!;
+    expect(numbers(property(collect(material, 'Shader')[0], 'inputs:diffuseColor'))).toEqual([0, 0, 1]);
+  });
+
+  it('binds a single color directly', async () => {
+    const root = await convert(binaryStl([0x8000 | 31, 0x8000 | 31]));
+    expect(collect(root, 'GeomSubset')).toHaveLength(0);
+    expect(property(collect(root, 'Mesh')[0], 'material:binding')).toContain('/Materials/StlColor_0000FF');
+  });
+
+  it('writes uniform displayColor beyond maxColorMaterials', async () => {
+    const root = await convert(binaryStl([0x8000 | 31, 0x8000 | (31 << 5), 0x8000 | (31 << 10)]), { maxColorMaterials: 2 });
+    const mesh = collect(root, 'Mesh')[0];
+    expect(collect(root, 'GeomSubset')).toHaveLength(0);
+    expect(numbers(property(mesh, 'primvars:displayColor'))).toEqual([0, 0, 1, 0, 1, 0, 1, 0, 0]);
+    expect(property(mesh, 'material:binding')).toContain('/Materials/StlMaterial');
+  });
+});
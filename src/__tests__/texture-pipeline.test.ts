@@ -0,0 +1,140 @@
+/**
+ * Texture pipeline tests
+ *
+ * Runs sharp-generated images through `processTextures` and checks the
+ * transcoding, resizing and JPEG decisions along with the asset paths
+ * rewritten in the stage tree.
+ */
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { UsdNode } from '../core/usd-node';
+import { processTextures } from '../converters/shared/texture-pipeline';
+import { getTextureExtensionFromData } from '../converters/shared/usd-packaging';
+import { collectConversionReport } from '../converters/shared/conversion-report';
+
+async function image(
+  width: number,
+  height: number,
+  format: 'png' | 'webp' | 'jpeg',
+  alpha = 1
+): Promise<ArrayBuffer> {
+  const base = sharp({ create: { width, height, channels: 4, background: { r: 200, g: 40, b: 40, alpha } } });
+  const buffer = await (format === 'png' ? base.png() : format === 'webp' ? base.webp({ lossless: true }) : base.jpeg()).toBuffer();
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+async function size(data: ArrayBuffer): Promise<[number, number]> {
+  const { width, height } = await sharp(Buffer.from(data)).metadata();
+  return [width!, height!];
+}
+
+/**
+ * A material reading `diffuse` into diffuseColor and `normal` into normal,
+ * with asset paths in the converters' `textures/Texture_<basename>.<ext>` form.
+ */
+function material(diffuseExt: string, normalExt = 'png'): { root: UsdNode; diffuse: UsdNode; normal: UsdNode } {
+  const root = new UsdNode('/Root', 'Xform');
+  const mat = new UsdNode('/Root/Mat', 'Material');
+  const diffuse = new UsdNode('/Root/Mat/Texture_aaaa_diffuse', 'Shader');
+  diffuse.setProperty('asset inputs:file', `@textures/Texture_aaaa.${diffuseExt}@`, 'asset');
+  diffuse.setProperty('token inputs:sourceColorSpace', 'sRGB', 'token');
+  const normal = new UsdNode('/Root/Mat/Texture_bbbb_normal', 'Shader');
+  normal.setProperty('asset inputs:file', `@textures/Texture_bbbb.${normalExt}@`, 'asset');
+  normal.setProperty('token inputs:sourceColorSpace', 'raw', 'token');
+  const surface = new UsdNode('/Root/Mat/PreviewSurface', 'Shader');
+  surface.setProperty('color3f inputs:diffuseColor.connect', '</Root/Mat/Texture_aaaa_diffuse.outputs:rgb>', 'connection');
+  surface.setProperty('normal3f inputs:normal.connect', '</Root/Mat/Texture_bbbb_normal.outputs:rgb>', 'connection');
+  mat.addChild(diffuse);
+  mat.addChild(normal);
+  mat.addChild(surface);
+  root.addChild(mat);
+  return { root, diffuse, normal };
+}
+
+describe('getTextureExtensionFromData', () => {
+  it('recognizes AVIF and KTX2 headers', () => {
+    const avif = new Uint8Array([0, 0, 0, 0x1c, 0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66]);
+    const ktx2 = new Uint8Array([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(getTextureExtensionFromData(avif.buffer)).toBe('avif');
+    expect(getTextureExtensionFromData(ktx2.buffer)).toBe('ktx2');
+  });
+});
+
+describe('processTextures', () => {
+  it('transcodes WebP to PNG and rewrites the asset path', async () => {
+    const { root, diffuse } = material('webp');
+    const textures = new Map([['aaaa_diffuse', await image(8, 8, 'webp')]]);
+
+    const report = await processTextures(textures, [root]);
+
+    expect(report.transcoded).toEqual(['aaaa']);
+    expect(getTextureExtensionFromData(textures.get('aaaa_diffuse')!)).toBe('png');
+    expect(diffuse.getProperty('asset inputs:file')).toBe('@textures/Texture_aaaa.png@');
+  });
+
+  it('leaves PNG and JPEG textures untouched without options', async () => {
+    const { root } = material('png');
+    const png = await image(8, 8, 'png');
+    const textures = new Map([['aaaa_diffuse', png]]);
+
+    const report = await processTextures(textures, [root]);
+
+    expect(report).toEqual({ transcoded: [], resized: [], failed: [] });
+    expect(textures.get('aaaa_diffuse')).toBe(png);
+  });
+
+  it('caps the longest edge and rounds to powers of two', async () => {
+    const { root } = material('png');
+    const textures = new Map([
+      ['aaaa_diffuse', await image(600, 300, 'png')],
+      ['aaaa_emissive', await image(600, 300, 'png')]
+    ]);
+
+    const report = await processTextures(textures, [root], { maxSize: 512, powerOfTwo: true });
+
+    expect(report.resized).toEqual(['aaaa']);
+    expect(await size(textures.get('aaaa_diffuse')!)).toEqual([512, 256]);
+    expect(textures.get('aaaa_emissive')).toBe(textures.get('aaaa_diffuse'));
+  });
+
+  it('writes opaque color maps as JPEG but keeps data maps and alpha in PNG', async () => {
+    const { root, diffuse, normal } = material('png');
+    const textures = new Map([
+      ['aaaa_diffuse', await image(8, 8, 'png')],
+      ['bbbb_normal', await image(8, 8, 'png')]
+    ]);
+
+    await processTextures(textures, [root], { jpegForOpaqueColor: true });
+
+    expect(getTextureExtensionFromData(textures.get('aaaa_diffuse')!)).toBe('jpg');
+    expect(diffuse.getProperty('asset inputs:file')).toBe('@textures/Texture_aaaa.jpg@');
+    expect(getTextureExtensionFromData(textures.get('bbbb_normal')!)).toBe('png');
+    expect(normal.getProperty('asset inputs:file')).toBe('@textures/Texture_bbbb.png@');
+
+    const translucent = material('png');
+    const translucentTextures = new Map([['aaaa_diffuse', await image(8, 8, 'png', 0.5)]]);
+    await processTextures(translucentTextures, [translucent.root], { jpegForOpaqueColor: true });
+    expect(getTextureExtensionFromData(translucentTextures.get('aaaa_diffuse')!)).toBe('png');
+  });
+
+  it('fails on KTX2 textures, naming the texture', async () => {
+    const { root } = material('ktx2');
+    const ktx2 = new Uint8Array([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]).buffer;
+    const textures = new Map([['aaaa_diffuse', ktx2]]);
+
+    await expect(processTextures(textures, [root])).rejects.toThrow('aaaa.ktx2');
+  });
+
+  it('reports images sharp cannot decode as warnings and packs them as-is', async () => {
+    const { root, diffuse } = material('webp');
+    const corrupt = new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50, 1, 2, 3, 4]).buffer;
+    const textures = new Map([['aaaa_diffuse', corrupt]]);
+
+    const { output, report } = await collectConversionReport(() => processTextures(textures, [root]));
+
+    expect(output.failed).toEqual(['aaaa']);
+    expect(report.warnings.find(warning => warning.code === 'texture_undecodable')?.context?.texture).toBe('aaaa.webp');
+    expect(textures.get('aaaa_diffuse')).toBe(corrupt);
+    expect(diffuse.getProperty('asset inputs:file')).toBe('@textures/Texture_aaaa.webp@');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * 3MF converter tests
+ *
+ * Builds a 3MF package with base materials, a color group, a texture group,
+ * an assembly of components and a build item from a second model part, then
+ * checks the converted prim hierarchy, materials and layer metadata.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { deflateRawSync } from 'node:zlib';
+import { convertThreeMfToUsdz } from '../converters/threemf';
+import { readUsdz, UsdzReadResult } from '../converters/usdz';
+import { getModelInfo } from '../converters/info';
+import { UsdNode } from '../core/usd-node';
+import { defineConfig } from '../index';
+import { property, numbers } from './helpers/usd-tree';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const TETRAHEDRON = '<vertices><vertex x="0" y="0" z="0"/><vertex x="10" y="0" z="0"/>' +
+  '<vertex x="0" y="10" z="0"/><vertex x="0" y="0" z="10"/></vertices>';
+
+const ROOT_MODEL = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02"
+    xmlns:m="http://schemas.microsoft.com/3dmanufacturing/material/2015/02"
+    xmlns:p="http://schemas.microsoft.com/3dmanufacturing/production/2015/06">
+  <resources>
+    <basematerials id="1"><base name="Red" displaycolor="#FF0000"/><base name="Blue" displaycolor="#0000FF80"/></basematerials>
+    <m:colorgroup id="2"><m:color color="#00FF00"/><m:color color="#FFFF00"/><m:color color="#00FFFF"/></m:colorgroup>
+    <m:texture2d id="3" path="/3D/Textures/tex.png" contenttype="image/png" tilestyleu="clamp" tilestylev="mirror"/>
+    <m:texture2dgroup id="4" texid="3"><m:tex2coord u="0" v="0"/><m:tex2coord u="1" v="0"/><m:tex2coord u="0" v="1"/></m:texture2dgroup>
+    <object id="5" name="Body" type="model" pid="1" pindex="0">
+      <mesh>${TETRAHEDRON}<triangles>
+        <triangle v1="0" v2="2" v3="1"/>
+        <triangle v1="0" v2="1" v3="3" pid="1" p1="1"/>
+        <triangle v1="1" v2="2" v3="3" pid="2" p1="0" p2="1" p3="2"/>
+        <triangle v1="0" v2="3" v3="2" pid="4" p1="0" p2="1" p3="2"/>
+      </triangles></mesh>
+    </object>
+    <object id="6" name="Assembly" type="model">
+      <components><component objectid="5" transform="1 0 0 0 1 0 0 0 1 20 0 0"/><component objectid="5"/></components>
+    </object>
+  </resources>
+  <build>
+    <item objectid="6" transform="1 0 0 0 1 0 0 0 1 100 100 0"/>
+    <item objectid="7" p:path="/3D/Objects/plain.model"/>
+  </build>
+</model>`;
+
+const PLAIN_MODEL = `<?xml version="1.0"?>
+<model unit="millimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02"><resources>
+  <object id="7" name="Plain"><mesh>${TETRAHEDRON}<triangles>
+    <triangle v1="0" v2="2" v3="1"/><triangle v1="0" v2="1" v3="3"/>
+  </triangles></mesh></object>
+</resources><build/></model>`;
+
+const RELS = '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>' +
+  '</Relationships>';
+
+/**
+ * Minimal zip archive with DEFLATE-compressed entries
+ */
+function zip(files: Array<[string, Uint8Array]>): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, data] of files) {
+    const nameBytes = new TextEncoder().encode(name);
+    const compressed = new Uint8Array(deflateRawSync(data));
+    const local = new Uint8Array(30 + nameBytes.length + compressed.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, 8, true);
+    lv.setUint32(18, compressed.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(compressed, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, 8, true);
+    cv.setUint32(20, compressed.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+  return Buffer.concat([...locals, ...centrals, eocd]);
+}
+
+function find(root: UsdNode, name: string): UsdNode {
+  const visit = (node: UsdNode): UsdNode | undefined => {
+    if (node.getName() === name) return node;
+    for (const child of node.getChildren()) {
+      const found = visit(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const found = visit(root);
+  if (!found) throw new Error(`No prim named ${name}`);
+  return found;
+}
+
+function children(node: UsdNode): string[] {
+  return [...node.getChildren()].map(child => child.getName());
+}
+
+let dir: string;
+let file: string;
+let result: UsdzReadResult;
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-3mf-'));
+  file = path.join(dir, 'assembly.3mf');
+  const text = (value: string) => new TextEncoder().encode(value);
+  fs.writeFileSync(file, zip([
+    ['_rels/.rels', text(RELS)],
+    ['3D/3dmodel.model', text(ROOT_MODEL)],
+    ['3D/Objects/plain.model', text(PLAIN_MODEL)],
+    ['3D/Textures/tex.png', new Uint8Array(PNG)]
+  ]));
+
+  const usdz = await convertThreeMfToUsdz(file);
+  result = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('convertThreeMfToUsdz', () => {
+  it('maps build items and components to an Xform hierarchy', () => {
+    const scene = find(result.root, 'threemf_scene');
+    expect(children(scene)).toEqual(['Assembly', 'Plain']);
+
+    const assembly = find(result.root, 'Assembly');
+    expect(assembly.getTypeName()).toBe('Xform');
+    expect(children(assembly)).toEqual(['Body', 'Body_1']);
+    expect(numbers(property(assembly, 'xformOp:transform')).slice(12)).toEqual([100, 100, 0, 1]);
+    expect(numbers(property(find(result.root, 'Body'), 'xformOp:transform')).slice(12)).toEqual([20, 0, 0, 1]);
+    expect(property(find(result.root, 'Body_1'), 'xformOp:transform')).toBeUndefined();
+
+    const plain = find(result.root, 'Plain');
+    expect(children(plain)).toEqual(['Mesh']);
+    expect(numbers(property(find(plain, 'Mesh'), 'faceVertexCounts'))).toEqual([3, 3]);
+  });
+
+  it('sets the layer scale from the model unit and centers the build', () => {
+    expect(result.layerMetadata.metersPerUnit).toBe(0.001);
+    expect(numbers(property(find(result.root, 'threemf_scene'), 'xformOp:translate'))).toEqual([-65, -55, -5]);
+  });
+
+  it('binds one GeomSubset per material', () => {
+    const mesh = find(find(result.root, 'Body'), 'Mesh');
+    expect(children(mesh)).toEqual(['Red', 'Blue', 'VertexColor', 'Texture_4']);
+    expect(numbers(property(find(mesh, 'Blue'), 'indices'))).toEqual([1]);
+    expect(property(find(mesh, 'Blue'), 'material:binding')).toContain('/Materials/Blue');
+
+    const blue = find(find(result.root, 'Materials'), 'Blue');
+    expect(Number(property(find(blue, 'PreviewSurface'), 'inputs:opacity'))).toBeCloseTo(128 / 255);
+
+    const plain = find(find(result.root, 'Plain'), 'Mesh');
+    expect(property(plain, 'material:binding')).toContain('/Materials/ThreeMfMaterial');
+  });
+
+  it('writes color groups as displayColor read by the material', () => {
+    const mesh = find(find(result.root, 'Body'), 'Mesh');
+    const colors = numbers(property(mesh, 'primvars:displayColor'));
+    expect(colors).toHaveLength(30);
+    expect(colors.slice(12, 21)).toEqual([0, 1, 0, 1, 1, 0, 0, 1, 1]);
+    expect(numbers(property(mesh, 'primvars:displayOpacity'))[3]).toBeCloseTo(0.502);
+
+    const material = find(find(result.root, 'Materials'), 'VertexColor');
+    expect(property(find(material, 'PreviewSurface'), 'inputs:diffuseColor.connect'))
+      .toContain('PrimvarReader_displayColor.outputs:result');
+  });
+
+  it('writes texture groups as UVs and a packaged UsdUVTexture', () => {
+    const mesh = find(find(result.root, 'Body'), 'Mesh');
+    expect(numbers(property(mesh, 'primvars:st')).slice(-6)).toEqual([0, 0, 1, 0, 0, 1]);
+
+    const texture = find(find(find(result.root, 'Materials'), 'Texture_4'), 'UVTexture');
+    expect(property(texture, 'inputs:file')).toContain('textures/Texture_threemf0.png');
+    expect(property(texture, 'inputs:wrapS')).toBe('clamp');
+    expect(property(texture, 'inputs:wrapT')).toBe('mirror');
+    expect(result.files.has('textures/Texture_threemf0.png')).toBe(true);
+  });
+
+  it('is dispatched by WebUsdFramework.convert', async () => {
+    const usdz = await defineConfig().convert(file);
+    const { root } = await readUsdz(new Uint8Array(await usdz.arrayBuffer()));
+    expect(children(find(root, 'threemf_scene'))).toEqual(['Assembly', 'Plain']);
+  });
+
+  it('is summarized by getModelInfo', async () => {
+    const info = await getModelInfo(file);
+    expect(info.format).toBe('3mf');
+    expect(info.meshes.map(mesh => mesh.name)).toEqual(['Body', 'Plain']);
+    expect([...info.meshes[0].materials].sort()).toEqual(['Blue', 'Red', 'Texture_4', 'VertexColor']);
+    expect(info.textures).toEqual([{ name: 'tex.png', mimeType: 'image/png', byteLength: PNG.length }]);
+    expect(info.bounds).toEqual({ min: [0, 0, 0], max: [130, 110, 10] });
+  });
+
+  it('rejects archives without a model part', async () => {
+    const empty = path.join(dir, 'empty.3mf');
+    fs.writeFileSync(empty, zip([['_rels/.rels', new TextEncoder().encode(RELS)]]));
+    await expect(convertThreeMfToUsdz(empty)).rejects.toThrow();
+  });
+});
@@ -47,6 +47,18 @@ describe('UsdNode', () => {
       expect(usda).toContain('float3[] translations = [(0, 0, 0)]');
     });
 
+    it('groups typed arrays by the tuple width of their declared type', () => {
+      const node = new UsdNode('/Root/Points', 'Points');
+      node.setProperty('quatf[] orientations', new Float32Array([1, 0, 0, 0, 0, 0, 0, 1]));
+      node.setProperty('texCoord2f[] primvars:st', new Float32Array([0, 0.5, 1, 0.25, 0.5, 1]));
+      node.setProperty('float[] opacities', new Float32Array([0.5, 0.00012345, 1]));
+
+      const usda = node.serializeToUsda();
+      expect(usda).toContain('quatf[] orientations = [(1,0,0,0), (0,0,0,1)]');
+      expect(usda).toContain('texCoord2f[] primvars:st = [(0,0.5), (1,0.25), (0.5,1)]');
+      expect(usda).toContain('float[] opacities = [0.5,1.234e-4,1]');
+    });
+
     it('serializes matrix4d xformOp:transform correctly', () => {
       const node = new UsdNode('/Root/Mesh', 'Mesh');
       node.setProperty(
@@ -61,4 +73,28 @@ describe('UsdNode', () => {
       expect(usda).toContain('xformOpOrder');
     });
   });
+
+  describe('variant sets', () => {
+    it('serializes variant selections and variant bodies', () => {
+      const node = new UsdNode('/Chair', 'Xform');
+      const red = node.addVariant('shading', 'red');
+      red.setProperty('material:binding', '</Looks/Red>', 'rel');
+      node.addVariant('shading', 'blue');
+      node.setVariantSelection('shading', 'red');
+
+      const usda = node.serializeToUsda();
+      expect(usda).toContain('string shading = "red"');
+      expect(usda).toContain('prepend variantSets = ["shading"]');
+      expect(usda).toContain('variantSet "shading" = {');
+      expect(usda).toContain('rel material:binding = </Looks/Red>');
+      expect(usda.indexOf('"red"')).toBeLessThan(usda.indexOf('"blue"'));
+    });
+
+    it('returns the existing variant when added twice', () => {
+      const node = new UsdNode('/Chair', 'Xform');
+      const first = node.addVariant('shading', 'red');
+      expect(node.addVariant('shading', 'red')).toBe(first);
+      expect(node.getVariantSelection('shading')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,321 @@
+/**
+ * Tests for the USDA text parser.
+ *
+ * Covers the tokenizer and syntax tree (`tokenizeUsda`, `parseUsda`) and the
+ * `UsdNode` mapping (`readUsdaLayer`): prim specifiers, typed attributes,
+ * relationships, time samples, variant sets, references and dictionaries.
+ * The round-trip cases check that `serializeToUsda()` output reads back into
+ * a tree that serializes to the same text.
+ */
+import { describe, it, expect } from 'vitest';
+import { UsdNode } from '../core/usd-node';
+import { tokenizeUsda, UsdaSyntaxError } from '../converters/shared/usda/tokenizer';
+import { parseUsda } from '../converters/shared/usda/parser';
+import { readUsdaLayer } from '../converters/shared/usda/layer-reader';
+
+/** A tree shaped like the glTF converter's output. */
+function converterTree(): UsdNode {
+  const root = new UsdNode('/Root', 'Xform');
+  root.setMetadata('timeCodesPerSecond', 24);
+  root.setMetadata('framesPerSecond', 24);
+  root.setMetadata('startTimeCode', 0);
+  root.setMetadata('endTimeCode', 48);
+
+  const xform = new UsdNode('/Root/Node', 'Xform');
+  xform.setTimeSampledProperty('xformOp:translate', new Map([[0, '(0, 0, 0)'], [48, '(0, 1, 0)']]), 'float3');
+  xform.setProperty('xformOpOrder', ['xformOp:translate'], 'token[]');
+  root.addChild(xform);
+
+  const mesh = new UsdNode('/Root/Node/Mesh', 'Mesh');
+  mesh.setProperty('prepend apiSchemas', ['MaterialBindingAPI'], 'string[]');
+  mesh.setProperty('token subdivisionScheme', 'none', 'token');
+  mesh.setProperty('point3f[] points', '[(0, 0, 0), (1, 0, 0), (0, 1, 0)]', 'raw');
+  mesh.setProperty('int[] faceVertexCounts', '[3]', 'raw');
+  mesh.setProperty('int[] faceVertexIndices', '[0, 1, 2]', 'raw');
+  mesh.setProperty('texCoord2f[] primvars:st', '[(0, 1), (1, 1), (0, 0)]', 'texcoord');
+  mesh.setProperty('uniform token primvars:st:interpolation', 'vertex', 'interpolation');
+  mesh.setProperty('token visibility', 'inherited', 'token');
+  mesh.setProperty('material:binding', '</Root/Materials/Mat>', 'rel');
+  xform.addChild(mesh);
+
+  const materials = new UsdNode('/Root/Materials', 'Scope');
+  const material = new UsdNode('/Root/Materials/Mat', 'Material');
+  material.setProperty('token outputs:surface.connect', '</Root/Materials/Mat/Surface.outputs:surface>', 'connection');
+  const shader = new UsdNode('/Root/Materials/Mat/Surface', 'Shader');
+  shader.setProperty('uniform token info:id', 'UsdPreviewSurface');
+  shader.setProperty('color3f inputs:diffuseColor', '(0.8, 0.2, 0.1)', 'color3f');
+  shader.setProperty('float inputs:roughness', '0.4', 'float');
+  shader.setProperty('token outputs:surface', '');
+  material.addChild(shader);
+  materials.addChild(material);
+  root.addChild(materials);
+  return root;
+}
+
+describe('tokenizeUsda', () => {
+  it('splits identifiers, numbers, strings, assets and paths', () => {
+    const tokens = tokenizeUsda('float3 inputs:scale = (1, -0.5, 1e-3) # comment\nasset a = @tex.png@ </A/B.c>');
+    expect(tokens.map(t => `${t.kind}:${t.text}`)).toEqual([
+      'identifier:float3', 'identifier:inputs:scale', 'punct:=', 'punct:(',
+      'number:1', 'punct:,', 'number:-0.5', 'punct:,', 'number:1e-3', 'punct:)',
+      'identifier:asset', 'identifier:a', 'punct:=', 'asset:tex.png', 'path:/A/B.c', 'eof:',
+    ]);
+  });
+
+  it('decodes string escapes and triple-quoted strings', () => {
+    const [escaped, triple] = tokenizeUsda('"a\\"b\\n" """line one\nline two"""');
+    expect(escaped.text).toBe('a"b\n');
+    expect(triple.text).toBe('line one\nline two');
+  });
+
+  it('reports the position of an unterminated string', () => {
+    expect(() => tokenizeUsda('def "A"\n  token t = "oops\n')).toThrow(UsdaSyntaxError);
+    try {
+      tokenizeUsda('def "A"\n  token t = "oops\n');
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 13 });
+    }
+  });
+});
+
+describe('parseUsda', () => {
+  it('requires the #usda header', () => {
+    expect(() => parseUsda('def Xform "A" {}')).toThrow(/#usda 1\.0/);
+  });
+
+  it('builds prim specs with specifiers, metadata and properties', () => {
+    const layer = parseUsda(`#usda 1.0
+(
+    defaultPrim = "A"
+)
+
+over Xform "A" (
+    kind = "component"
+)
+{
+    custom uniform double radius = 2
+    float3 xformOp:translate.timeSamples = {
+        0: (0, 0, 0),
+        10: (1, 0, 0),
+    }
+    rel proxyPrim = [</A/B>, </A/C>]
+    class "B"
+    {
+    }
+}
+`);
+    expect(layer.version).toBe('1.0');
+    expect(layer.metadata).toEqual([{ name: 'defaultPrim', value: { kind: 'string', value: 'A', text: '"A"' } }]);
+
+    const [prim] = layer.prims;
+    expect(prim).toMatchObject({ specifier: 'over', typeName: 'Xform', name: 'A' });
+    expect(prim.metadata[0]).toMatchObject({ name: 'kind', value: { value: 'component' } });
+    expect(prim.properties[0]).toMatchObject({
+      kind: 'attribute', name: 'radius', typeName: 'double', custom: true, variability: 'uniform', field: 'default',
+    });
+    expect(prim.properties[1]).toMatchObject({ field: 'timeSamples', timeSamples: [{ time: 0 }, { time: 10 }] });
+    expect(prim.properties[2]).toMatchObject({ kind: 'relationship', value: { kind: 'list' } });
+    expect(prim.children[0]).toMatchObject({ specifier: 'class', typeName: '', name: 'B' });
+  });
+
+  it('points syntax errors at the offending token', () => {
+    expect(() => parseUsda('#usda 1.0\ndef Xform "A"\n{\n    float = 1\n}\n')).toThrow(
+      /Expected an identifier, found "=" \(line 4, column 11\)/
+    );
+  });
+});
+
+describe('readUsdaLayer', () => {
+  it('keys attributes and relationships the way the converters do', () => {
+    const { root, report } = readUsdaLayer(`#usda 1.0
+def Mesh "Body" (
+    prepend apiSchemas = ["MaterialBindingAPI"]
+)
+{
+    uniform token subdivisionScheme = "none"
+    point3f[] points = [(0, 0, 0), (1, 0, 0), (0, 1, 0)]
+    color3f[] primvars:displayColor = [(1, 0, 0)] (
+        interpolation = "constant"
+    )
+    float3 inputs:scale = (1, 1, 1)
+    asset inputs:file = @textures/a.png@
+    string inputs:varname = "st"
+    float outputs:r
+    float2 inputs:st.connect = </Body/Reader.outputs:result>
+    rel material:binding = </Looks/Red>
+    rel skel:blendShapes = [</Body/A>, </Body/B>]
+    float3 xformOp:rotateXYZ = (0, 90, 0)
+    uniform token[] xformOpOrder = ["xformOp:rotateXYZ"]
+}
+`);
+    expect(root.getProperty('prepend apiSchemas')).toEqual(['MaterialBindingAPI']);
+    expect(root.getProperty('uniform token subdivisionScheme')).toBe('none');
+    expect(root.getProperty('point3f[] points')).toBe('[(0, 0, 0), (1, 0, 0), (0, 1, 0)]');
+    expect(root.getProperty('uniform token primvars:displayColor:interpolation')).toBe('constant');
+    expect(root.getProperty('float3 inputs:scale')).toBe('(1, 1, 1)');
+    expect(root.getProperty('asset inputs:file')).toBe('@textures/a.png@');
+    expect(root.getProperty('string inputs:varname')).toBe('st');
+    expect(root.getProperty('float outputs:r')).toBe('');
+    expect(root.getProperty('float2 inputs:st.connect')).toBe('</Body/Reader.outputs:result>');
+    expect(root.getProperty('material:binding')).toBe('</Looks/Red>');
+    expect(root.getProperty('rel skel:blendShapes')).toEqual(['</Body/A>', '</Body/B>']);
+    expect(root.getProperty('xformOpOrder')).toEqual(['xformOp:rotateXYZ']);
+
+    const types = new Map([...root.getProperties()].map(p => [p.key, p.type]));
+    expect(types.get('point3f[] points')).toBe('raw');
+    expect(types.get('float3 inputs:scale')).toBe('float3');
+    expect(types.get('float2 inputs:st.connect')).toBe('connection');
+    expect(types.get('rel skel:blendShapes')).toBe('rel[]');
+    expect(report).toMatchObject({ primCount: 1, skipped: [] });
+  });
+
+  it('maps specifiers, time samples, references and dictionaries', () => {
+    const { root, prims, layerMetadata } = readUsdaLayer(`#usda 1.0
+(
+    defaultPrim = "World"
+    upAxis = "Z"
+    metersPerUnit = 0.01
+    customLayerData = {
+        string creator = "Tool"
+    }
+)
+
+class "_Base"
+{
+}
+
+def Xform "World" (
+    customData = {
+        int version = 2
+        dictionary tool = {
+            string name = "blender"
+        }
+    }
+)
+{
+    over "Shared" (
+        prepend references = @./shared.usda@</Shared>
+        payload = @./heavy.usda@
+    )
+    {
+        float3 xformOp:translate.timeSamples = {
+            0: (0, 0, 0),
+            24: (0, 0, 5),
+        }
+    }
+}
+`);
+    expect(prims.map(p => p.getTypeName())).toEqual(['class', 'Xform']);
+    expect(root.getPath()).toBe('/World');
+    expect(root.getMetadata('upAxis')).toBe('Z');
+    expect(root.getMetadata('metersPerUnit')).toBe(0.01);
+    expect(layerMetadata.customLayerData).toEqual({ creator: 'Tool' });
+    expect(root.getProperty('customData')).toEqual({ version: 2, tool: { name: 'blender' } });
+
+    const [shared] = root.getChildren();
+    expect(shared.getTypeName()).toBe('over');
+    expect(shared.getProperty('prepend references')).toBe('@./shared.usda@</Shared>');
+    expect(shared.getProperty('payload')).toBe('@./heavy.usda@');
+    const [samples] = shared.getTimeSampledProperties();
+    expect(samples.key).toBe('xformOp:translate');
+    expect(samples.type).toBe('float3');
+    expect([...samples.timeSamples]).toEqual([[0, '(0, 0, 0)'], [24, '(0, 0, 5)']]);
+  });
+
+  it('rebuilds variant sets and selections', () => {
+    const { root } = readUsdaLayer(`#usda 1.0
+def Xform "Chair" (
+    variants = {
+        string shading = "red"
+    }
+    prepend variantSets = "shading"
+)
+{
+    variantSet "shading" = {
+        "blue" (
+            prepend apiSchemas = ["MaterialBindingAPI"]
+        ) {
+            rel material:binding = </Looks/Blue>
+        }
+        "red" {
+            def Scope "Extra"
+            {
+            }
+        }
+    }
+}
+`);
+    expect(root.getVariantSelection('shading')).toBe('red');
+    const [set] = root.getVariantSets();
+    expect(set.name).toBe('shading');
+    expect([...set.variants.keys()]).toEqual(['blue', 'red']);
+    expect(set.variants.get('blue')!.getProperty('material:binding')).toBe('</Looks/Blue>');
+    expect([...set.variants.get('red')!.getChildren()].map(c => c.getPath())).toEqual(['/Chair/Extra']);
+  });
+
+  it('reports statements it cannot represent', () => {
+    const { report } = readUsdaLayer(`#usda 1.0
+def Xform "A"
+{
+    reorder nameChildren = ["B"]
+    color3f inputs:color = (1, 1, 1) (
+        colorSpace = "srgb"
+    )
+}
+`);
+    expect(report.skipped).toEqual([
+      { path: '/A.inputs:color', field: 'colorSpace', reason: expect.any(String) },
+      { path: '/A', field: 'reorder nameChildren', reason: expect.any(String) },
+    ]);
+  });
+});
+
+describe('USDA round trip', () => {
+  it('reads serializer output back into a tree that serializes identically', () => {
+    const usda = converterTree().serializeToUsda();
+    const { root, report } = readUsdaLayer(usda);
+    expect(report.skipped).toEqual([]);
+    expect(root.serializeToUsda()).toBe(usda);
+  });
+
+  it('is idempotent for hand-authored layers', () => {
+    const first = readUsdaLayer(`#usda 1.0
+(
+    defaultPrim = "World"
+    upAxis = "Z"
+)
+
+def Xform "World" (
+    kind = "assembly"
+    variants = {
+        string look = "a"
+    }
+)
+{
+    custom double radius = 1.5
+    def "Proxy" (
+        prepend references = @./proxy.usda@
+    )
+    {
+    }
+    def Mesh "Body"
+    {
+        float[] primvars:occlusion = [1, 0.5] (
+            interpolation = "vertex"
+        )
+        rel material:binding
+    }
+    variantSet "look" = {
+        "a" {
+            double radius = 2
+        }
+    }
+}
+`).root.serializeToUsda();
+    const second = readUsdaLayer(first).root.serializeToUsda();
+    expect(second).toBe(first);
+    expect(first).toContain('upAxis = "Z"');
+    expect(first).toContain('custom double radius = 1.5');
+    expect(first).toContain('variantSet "look" = {');
+  });
+});
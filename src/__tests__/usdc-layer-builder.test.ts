@@ -213,6 +213,42 @@ describe('UsdcLayerBuilder — array attributes', () => {
   });
 });
 
+describe('UsdcLayerBuilder — attribute specs and variants', () => {
+  function specTypes(bytes: Uint8Array): SdfSpecType[] {
+    const specsEntry = readToc(bytes).find((e) => e.name === 'SPECS')!;
+    return decodeSpecsSection(bytes.subarray(specsEntry.start, specsEntry.start + specsEntry.size)).map(
+      (s) => s.specType
+    );
+  }
+
+  it('writes an Attribute spec per addAttributeSpec name, merging repeats', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Material');
+    b.declarePrim('/Root/Surface', 'Shader');
+    b.addAttributeSpec(root, 'outputs:surface', { typeName: 'token' });
+    b.addAttributeSpec(root, 'outputs:surface', {
+      typeName: 'token',
+      connectionPaths: ['/Root/Surface.outputs:surface'],
+    });
+    const types = specTypes(b.serialize());
+    expect(types.filter((t) => t === SdfSpecType.Attribute)).toHaveLength(1);
+  });
+
+  it('writes VariantSet and Variant specs for declareVariant', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    const red = b.declareVariant(root, 'look', 'red');
+    expect(b.declareVariant(root, 'look', 'red')).toBe(red);
+    b.declareVariant(root, 'look', 'blue');
+    b.declareChildPrim(red, 'Inner', 'Scope');
+    b.setVariantSelection(root, 'look', 'red');
+    const types = specTypes(b.serialize());
+    expect(types.filter((t) => t === SdfSpecType.VariantSet)).toHaveLength(1);
+    expect(types.filter((t) => t === SdfSpecType.Variant)).toHaveLength(2);
+    expect(types.filter((t) => t === SdfSpecType.Prim)).toHaveLength(2);
+  });
+});
+
 describe('UsdcLayerBuilder — error paths', () => {
   it('rejects an empty path', () => {
     const b = new UsdcLayerBuilder();
@@ -236,4 +272,17 @@ describe('UsdcLayerBuilder — error paths', () => {
     const child = b.declarePrim('/Root/Child', 'Mesh');
     expect(child.pathIndex).toBe(2);
   });
+
+  it('rejects declaring a prim twice', () => {
+    const b = new UsdcLayerBuilder();
+    b.declarePrim('/Root', 'Xform');
+    expect(() => b.declarePrim('/Root', 'Xform')).toThrow(RangeError);
+  });
+
+  it('rejects an attribute spec over a relationship', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    b.addRelationship(root, 'material:binding', ['/Root']);
+    expect(() => b.addAttributeSpec(root, 'material:binding', { typeName: 'token' })).toThrow(RangeError);
+  });
 });
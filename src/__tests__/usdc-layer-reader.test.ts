@@ -0,0 +1,345 @@
+/**
+ * Tests for the USDC layer reader.
+ *
+ * Round-trips `UsdNode` trees through `encodeUsdNodeTreeToUsdc()` →
+ * `readUsdcLayer()` and checks the rebuilt tree (prim hierarchy, property
+ * keys/values, relationships, list-ops, connections, time samples,
+ * variants, layer metadata), plus OpenUSD value layouts via hand-assembled
+ * buffers fed to `CrateValueReader` directly.
+ */
+import { describe, it, expect } from 'vitest';
+import { UsdNode } from '../core/usd-node';
+import { encodeUsdNodeTreeToUsdc } from '../converters/shared/usdc/usd-node-adapter';
+import { readUsdcLayer } from '../converters/shared/usdc/layer-reader';
+import { buildSimpleUsdcLayer, UsdcLayerBuilder } from '../converters/shared/usdc/layer-builder';
+import { CrateValueReader, shortestFloat32 } from '../converters/shared/usdc/value-reader';
+import {
+  CrateDataType,
+  encodeValueRep,
+  externalValueRep,
+  inlineFloat,
+  inlineInt,
+} from '../converters/shared/usdc/value-rep';
+import { readBootstrap, readTOC } from '../converters/shared/usdc-writer';
+
+function meshTree(): UsdNode {
+  const root = new UsdNode('/Root', 'Xform');
+  root.setProperty('prepend apiSchemas', ['MaterialBindingAPI'], 'string[]');
+
+  const mesh = new UsdNode('/Root/Mesh', 'Mesh');
+  mesh.setProperty('point3f[] points', new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+  mesh.setProperty('int[] faceVertexIndices', new Int32Array([0, 1, 2]));
+  mesh.setProperty('int[] faceVertexCounts', new Int32Array([3]));
+  mesh.setProperty('color3f[] primvars:displayColor', new Float32Array([0.7, 0.7, 0.7]));
+  mesh.setProperty('material:binding', '</Root/Materials/Mat>', 'rel');
+  root.addChild(mesh);
+
+  const materials = new UsdNode('/Root/Materials', 'Scope');
+  const material = new UsdNode('/Root/Materials/Mat', 'Material');
+  const shader = new UsdNode('/Root/Materials/Mat/Surface', 'Shader');
+  shader.setProperty('uniform token info:id', 'UsdPreviewSurface');
+  shader.setProperty('float inputs:roughness', '0.6', 'float');
+  shader.setProperty('int inputs:useSpecularWorkflow', '0', 'int');
+  shader.setProperty('color3f inputs:diffuseColor', '(0.8, 0.1, 0.2)', 'color3f');
+  material.addChild(shader);
+  materials.addChild(material);
+  root.addChild(materials);
+  return root;
+}
+
+function childByName(node: UsdNode, name: string): UsdNode {
+  for (const child of node.getChildren()) {
+    if (child.getName() === name) return child;
+  }
+  throw new Error(`no child ${name} under ${node.getPath()}`);
+}
+
+describe('usdc-writer — readBootstrap / readTOC', () => {
+  it('round-trips the bootstrap and TOC the builder writes', () => {
+    const bytes = buildSimpleUsdcLayer(() => {});
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const { version, tocOffset } = readBootstrap(view);
+    expect(version).toEqual({ major: 0, minor: 8, patch: 0 });
+    expect(readTOC(view, tocOffset).map((s) => s.name)).toEqual([
+      'TOKENS',
+      'STRINGS',
+      'FIELDS',
+      'FIELDSETS',
+      'PATHS',
+      'SPECS',
+    ]);
+  });
+
+  it('rejects a buffer without the PXR-USDC magic', () => {
+    const bytes = new Uint8Array(128);
+    expect(() => readBootstrap(new DataView(bytes.buffer))).toThrow(/magic/);
+  });
+});
+
+describe('readUsdcLayer — UsdNode round-trip', () => {
+  it('rebuilds the prim hierarchy with type names', () => {
+    const { bytes, report } = encodeUsdNodeTreeToUsdc(meshTree());
+    expect(report.skipped).toBe(0);
+
+    const layer = readUsdcLayer(bytes);
+    expect(layer.prims).toHaveLength(1);
+    expect(layer.root.getPath()).toBe('/Root');
+    expect(layer.root.getTypeName()).toBe('Xform');
+
+    const mesh = childByName(layer.root, 'Mesh');
+    expect(mesh.getTypeName()).toBe('Mesh');
+    const shader = childByName(childByName(childByName(layer.root, 'Materials'), 'Mat'), 'Surface');
+    expect(shader.getPath()).toBe('/Root/Materials/Mat/Surface');
+    expect(layer.report.primCount).toBe(5);
+    expect(layer.report.skipped).toEqual([]);
+  });
+
+  it('restores geometry arrays under converter-style keys', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(meshTree()).bytes);
+    const mesh = childByName(layer.root, 'Mesh');
+
+    const points = mesh.getProperty('point3f[] points');
+    expect(points).toBeInstanceOf(Float32Array);
+    expect(Array.from(points as Float32Array)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    expect(Array.from(mesh.getProperty('int[] faceVertexIndices') as Int32Array)).toEqual([0, 1, 2]);
+    expect(Array.from(mesh.getProperty('int[] faceVertexCounts') as Int32Array)).toEqual([3]);
+    expect(mesh.getProperty('color3f[] primvars:displayColor')).toBeInstanceOf(Float32Array);
+  });
+
+  it('restores scalar shader inputs and uniform tokens', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(meshTree()).bytes);
+    const shader = childByName(childByName(childByName(layer.root, 'Materials'), 'Mat'), 'Surface');
+
+    expect(shader.getProperty('uniform token info:id')).toBe('UsdPreviewSurface');
+    expect(shader.getProperty('float inputs:roughness')).toBe(0.6);
+    expect(shader.getProperty('int inputs:useSpecularWorkflow')).toBe(0);
+    expect(shader.getProperty('color3f inputs:diffuseColor')).toBe('(0.8, 0.1, 0.2)');
+  });
+
+  it('restores relationships and apiSchemas list-ops', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(meshTree()).bytes);
+    const mesh = childByName(layer.root, 'Mesh');
+
+    expect(mesh.getProperty('material:binding')).toBe('</Root/Materials/Mat>');
+    expect(layer.root.getProperty('prepend apiSchemas')).toEqual(['MaterialBindingAPI']);
+  });
+
+  it('keys xformOpOrder without a type prefix, as the converters do', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    b.addTokenArrayAttribute(root, 'xformOpOrder', ['xformOp:transform']);
+    const layer = readUsdcLayer(b.serialize());
+    expect(layer.root.getProperty('xformOpOrder')).toEqual(['xformOp:transform']);
+  });
+
+  it('re-encodes the rebuilt tree without skipping anything', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(meshTree()).bytes);
+    const again = encodeUsdNodeTreeToUsdc(layer.root);
+    expect(again.report.skipped).toBe(0);
+    expect(readUsdcLayer(again.bytes).report.primCount).toBe(5);
+  });
+
+  it('emits multi-target relationships as rel[]', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'SkelRoot');
+    b.declarePrim('/Root/A', 'Xform');
+    b.declarePrim('/Root/B', 'Xform');
+    b.addRelationship(root, 'skel:blendShapes', ['/Root/A', '/Root/B']);
+    const layer = readUsdcLayer(b.serialize());
+    expect(layer.root.getProperty('rel skel:blendShapes')).toEqual(['</Root/A>', '</Root/B>']);
+  });
+
+  it('throws RangeError on a truncated file', () => {
+    const bytes = buildSimpleUsdcLayer(() => {});
+    expect(() => readUsdcLayer(bytes.subarray(0, 100))).toThrow(RangeError);
+  });
+});
+
+function shadedTree(): UsdNode {
+  const root = new UsdNode('/Root', 'Xform');
+  root.setMetadata('defaultPrim', 'Root');
+  root.setMetadata('upAxis', 'Z');
+  root.setMetadata('metersPerUnit', 0.01);
+  root.setMetadata('timeCodesPerSecond', 24);
+  root.setMetadata('framesPerSecond', 24);
+  root.setMetadata('startTimeCode', 0);
+  root.setMetadata('endTimeCode', 48);
+  root.setProperty('xformOp:transform', '( (1, 0, 0, 0), (0, 1, 0, 0), (0, 0, 1, 0), (0, 2, 0, 1) )', 'matrix4d');
+  root.setProperty('xformOpOrder', ['xformOp:transform'], 'token[]');
+
+  const mesh = new UsdNode('/Root/Mesh', 'Mesh');
+  mesh.setMetadata('kind', 'component');
+  mesh.setProperty('customData', { source: 'glTF', index: 3 });
+  mesh.setProperty('texCoord2f[] primvars:st', new Float32Array([0, 0, 1, 0, 0, 1]), 'texCoord2f[]');
+  mesh.setProperty('primvars:st:interpolation', 'vertex', 'interpolation');
+  mesh.setProperty('material:binding', '</Root/Mat>', 'rel');
+  mesh.setTimeSampledProperty('xformOp:translate', new Map([[0, '(0, 0, 0)'], [24, '(0, 1, 0)']]), 'float3');
+  mesh.setProperty('prepend references', '@./part.usda@</Part>');
+  const looks = mesh.addVariant('look', 'red');
+  looks.setProperty('color3f[] primvars:displayColor', new Float32Array([1, 0, 0]));
+  mesh.addVariant('look', 'blue').setProperty('color3f[] primvars:displayColor', new Float32Array([0, 0, 1]));
+  mesh.setVariantSelection('look', 'red');
+  root.addChild(mesh);
+
+  const material = new UsdNode('/Root/Mat', 'Material');
+  material.setProperty('token outputs:surface.connect', '</Root/Mat/Surface.outputs:surface>');
+  const shader = new UsdNode('/Root/Mat/Surface', 'Shader');
+  shader.setProperty('uniform token info:id', 'UsdPreviewSurface');
+  shader.setProperty('color3f inputs:diffuseColor.connect', '</Root/Mat/Tex.outputs:rgb>');
+  shader.setProperty('token outputs:surface', '');
+  const texture = new UsdNode('/Root/Mat/Tex', 'Shader');
+  texture.setProperty('asset inputs:file', '@textures/base.png@', 'asset');
+  texture.setProperty('half inputs:scale', 0.5);
+  texture.setProperty('quatf inputs:rotation', '(1, 0, 0, 0)');
+  material.addChild(shader);
+  material.addChild(texture);
+  root.addChild(material);
+  return root;
+}
+
+describe('readUsdcLayer — converter output round-trip', () => {
+  it('encodes the whole tree without skipping anything', () => {
+    const { bytes, report } = encodeUsdNodeTreeToUsdc(shadedTree());
+    expect(report.properties.filter((p) => !p.emitted)).toEqual([]);
+    expect(readUsdcLayer(bytes).report.skipped).toEqual([]);
+  });
+
+  it('restores layer metadata onto the root node', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(shadedTree()).bytes);
+    expect(layer.layerMetadata.upAxis).toBe('Z');
+    expect(layer.layerMetadata.metersPerUnit).toBe(0.01);
+    expect(layer.layerMetadata.endTimeCode).toBe(48);
+    expect(layer.layerMetadata.customLayerData).toEqual({ creator: 'WebUSD Framework' });
+    expect(layer.root.getMetadata('timeCodesPerSecond')).toBe(24);
+  });
+
+  it('restores bare matrix4d transforms and prim metadata', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(shadedTree()).bytes);
+    const usda = layer.root.serializeToUsda();
+    expect(usda).toContain('matrix4d xformOp:transform = ( (1, 0, 0, 0), (0, 1, 0, 0), (0, 0, 1, 0), (0, 2, 0, 1) )');
+    const mesh = childByName(layer.root, 'Mesh');
+    expect(mesh.getMetadata('kind')).toBe('component');
+    expect(mesh.getProperty('customData')).toEqual({ source: 'glTF', index: 3 });
+  });
+
+  it('restores connections, assets and value-less declarations', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(shadedTree()).bytes);
+    const material = childByName(layer.root, 'Mat');
+    const usda = material.serializeToUsda();
+    expect(usda).toContain('token outputs:surface.connect = </Root/Mat/Surface.outputs:surface>');
+    expect(usda).toContain('color3f inputs:diffuseColor.connect = </Root/Mat/Tex.outputs:rgb>');
+    expect(usda).toContain('asset inputs:file = @textures/base.png@');
+    expect(usda).toMatch(/token outputs:surface\n/);
+  });
+
+  it('restores half and quaternion scalars', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(shadedTree()).bytes);
+    const texture = childByName(childByName(layer.root, 'Mat'), 'Tex');
+    expect(texture.getProperty('half inputs:scale')).toBe(0.5);
+    expect(texture.getProperty('quatf inputs:rotation')).toBe('(1, 0, 0, 0)');
+  });
+
+  it('restores time samples, primvar interpolation, references and variants', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(shadedTree()).bytes);
+    const mesh = childByName(layer.root, 'Mesh');
+    const sampled = [...mesh.getTimeSampledProperties()];
+    expect(sampled).toHaveLength(1);
+    expect([...sampled[0].timeSamples.keys()]).toEqual([0, 24]);
+
+    expect(mesh.getProperty('uniform token primvars:st:interpolation')).toBe('vertex');
+    expect(mesh.serializeToUsda()).toContain('prepend references = @./part.usda@</Part>');
+    expect(mesh.getVariantSelection('look')).toBe('red');
+    const sets = [...mesh.getVariantSets()];
+    expect(sets.map((s) => [s.name, [...s.variants.keys()]])).toEqual([['look', ['red', 'blue']]]);
+  });
+
+  it('re-encodes the rebuilt tree without skipping anything', () => {
+    const layer = readUsdcLayer(encodeUsdNodeTreeToUsdc(shadedTree()).bytes);
+    expect(encodeUsdNodeTreeToUsdc(layer.root).report.skipped).toBe(0);
+  });
+});
+
+describe('CrateValueReader — OpenUSD value layouts', () => {
+  const tables = { tokens: ['a', 'key'], strings: ['key'], paths: ['/'] };
+
+  it('decodes inlined scalars', () => {
+    const reader = new CrateValueReader(new Uint8Array(8), tables);
+    expect(reader.read(inlineInt(-5)).value).toBe(-5);
+    expect(reader.read(inlineFloat(0.6)).value).toBe(0.6);
+    // Inlined Vec3f with integral components: one int8 per component.
+    const vec = encodeValueRep({
+      type: CrateDataType.Vec3f,
+      isArray: false,
+      isInlined: true,
+      isCompressed: false,
+      payload: 0x02ff01n, // (1, -1, 2)
+    });
+    expect(reader.read(vec).value).toEqual([1, -1, 2]);
+  });
+
+  it('decodes time samples through the recursive jump layout', () => {
+    // [0]  int64 jump → 16        [8]  padding
+    // [16] ValueRep(times)         [24] int64 jump → 32
+    // [32] uint64 count = 2        [40] ValueRep × 2
+    // [56] DoubleVector: uint64 count = 2, f64 × 2
+    const bytes = new Uint8Array(88);
+    const view = new DataView(bytes.buffer);
+    view.setBigInt64(0, 16n, true);
+    view.setBigUint64(16, externalValueRep({
+      type: CrateDataType.DoubleVector,
+      isArray: false,
+      isCompressed: false,
+      fileOffset: 56,
+    }), true);
+    view.setBigInt64(24, 8n, true);
+    view.setBigUint64(32, 2n, true);
+    view.setBigUint64(40, inlineFloat(1.5), true);
+    view.setBigUint64(48, inlineFloat(3), true);
+    view.setBigUint64(56, 2n, true);
+    view.setFloat64(64, 0, true);
+    view.setFloat64(72, 24, true);
+
+    const rep = externalValueRep({
+      type: CrateDataType.TimeSamples,
+      isArray: false,
+      isCompressed: false,
+      fileOffset: 0,
+    });
+    const samples = new CrateValueReader(bytes, tables).read(rep).value;
+    expect(samples).toBeInstanceOf(Map);
+    expect([...(samples as Map<number, unknown>)]).toEqual([[0, 1.5], [24, 3]]);
+  });
+
+  it('decodes dictionaries keyed by StringIndex', () => {
+    // uint64 count = 1, uint32 key, int64 jump → ValueRep
+    const bytes = new Uint8Array(28);
+    const view = new DataView(bytes.buffer);
+    view.setBigUint64(0, 1n, true);
+    view.setUint32(8, 0, true);
+    view.setBigInt64(12, 8n, true);
+    view.setBigUint64(20, inlineInt(7), true);
+    const rep = externalValueRep({
+      type: CrateDataType.Dictionary,
+      isArray: false,
+      isCompressed: false,
+      fileOffset: 0,
+    });
+    expect(new CrateValueReader(bytes, tables).read(rep).value).toEqual({ key: 7 });
+  });
+
+  it('rejects offsets outside the file', () => {
+    const rep = externalValueRep({
+      type: CrateDataType.Float,
+      isArray: true,
+      isCompressed: false,
+      fileOffset: 1000,
+    });
+    expect(() => new CrateValueReader(new Uint8Array(16), tables).read(rep)).toThrow(RangeError);
+  });
+
+  it('shortestFloat32 prints float32 values the way they were authored', () => {
+    expect(shortestFloat32(Math.fround(0.7))).toBe(0.7);
+    expect(shortestFloat32(Math.fround(1 / 3))).toBe(0.33333334);
+    expect(shortestFloat32(2)).toBe(2);
+  });
+});
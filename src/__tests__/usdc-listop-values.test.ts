@@ -11,6 +11,8 @@ import {
   encodeTokenListOp,
   encodePathListOp,
   decodeTokenListOp,
+  encodeReferenceListOp,
+  decodeReferenceListOp,
   SdfListOpSubListType,
   listOpValueRep,
   type TokenListOpInput,
@@ -157,3 +159,25 @@ describe('decodeTokenListOp — error paths', () => {
     expect(() => decodeTokenListOp(buf)).toThrow();
   });
 });
+
+describe('encodeReferenceListOp / decodeReferenceListOp', () => {
+  it('round-trips references with and without layer offsets', () => {
+    const input = {
+      prepended: [
+        { assetPathStringIndex: 1, primPathIndex: 2 },
+        { assetPathStringIndex: 0, primPathIndex: 3, layerOffset: { offset: 10, scale: 2 } },
+      ],
+    };
+    const enc = encodeReferenceListOp(input);
+    expect(enc.type).toBe(CrateDataType.ReferenceListOp);
+    expect(enc.bytes.length).toBe(2 + 1 + 8 + 2 * 32);
+    expect(decodeReferenceListOp(enc.bytes)).toEqual({ isExplicit: false, ...input });
+  });
+
+  it('rejects reference customData', () => {
+    const enc = encodeReferenceListOp({ explicit: [{ assetPathStringIndex: 0, primPathIndex: 0 }], isExplicit: true });
+    const bytes = enc.bytes.slice();
+    bytes[bytes.length - 8] = 1;
+    expect(() => decodeReferenceListOp(bytes)).toThrow(RangeError);
+  });
+});
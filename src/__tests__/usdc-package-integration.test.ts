@@ -8,7 +8,7 @@
  *                          (`model.usdc`) using the UsdNode → USDC adapter.
  *                          Falls back to USDA when the source tree was not
  *                          provided OR contains properties the adapter can't
- *                          encode yet.
+ *                          encode.
  *
  * These tests cover both branches plus the fallback safety net.
  */
@@ -95,7 +95,7 @@ describe('layerFormat — "usdc"', () => {
 
   it('falls back to model.usda when the tree contains unsupported properties', async () => {
     const root = new UsdNode('/Root', 'Xform');
-    // material:binding is a relationship — adapter does not yet emit these.
+    // A relationship target must be an absolute path to be encoded.
     root.setProperty('material:binding', '<x>');
 
     const content: PackageContent = {
@@ -73,20 +73,16 @@ describe('PLY → USDZ — layerFormat option', () => {
     expect(names).toContain('model.usda');
   });
 
-  it('layerFormat: "usdc" produces a valid USDZ archive (falls back to USDA when adapter cannot encode the full tree)', async () => {
-    // The PLY converter currently emits material binding + outputs:surface
-    // connection + prepend apiSchemas — none of which the adapter can yet
-    // encode. The packager falls back to USDA, but the archive itself must
-    // remain valid and readable.
+  it('layerFormat: "usdc" writes the root layer as model.usdc', async () => {
+    // The PLY converter emits a material binding, an outputs:surface
+    // connection and prepend apiSchemas; the adapter encodes all of them,
+    // so the packager does not fall back to USDA.
     const blob = await convertPlyToUsdz(MINIMAL_PLY_BUFFER, undefined, {
       layerFormat: 'usdc',
     });
     const names = await readArchiveNames(blob);
-    expect(names.length).toBeGreaterThan(0);
-    // Either model.usdc (adapter succeeded) or model.usda (fallback) is fine;
-    // both are valid USDZ contents. The point is that the option threads
-    // through without crashing and the archive is well-formed.
-    expect(names.some((n) => n === 'model.usdc' || n === 'model.usda')).toBe(true);
+    expect(names).toContain('model.usdc');
+    expect(names).not.toContain('model.usda');
 
     // First file should always start with the ZIP local-file-header magic.
     const bytes = new Uint8Array(await blob.arrayBuffer());
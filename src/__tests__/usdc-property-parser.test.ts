@@ -4,11 +4,11 @@
  * UsdNode property keys use a USDA-style line head; the parser splits them
  * into a structured descriptor the USDC encoder can switch on. These tests
  * cover the typical scalar / array / qualified-attribute shapes the live
- * converters emit, plus the common non-attribute keys (relationships,
- * connections, list-ops) that are routed back to the USDA fallback.
+ * converters emit, plus the non-attribute keys (relationships,
+ * connections, list-ops) the adapter encodes as their own specs or fields.
  */
 import { describe, it, expect } from 'vitest';
-import { parsePropertyKey } from '../converters/shared/usdc/property-parser';
+import { parsePropertyKey, parseTypeName } from '../converters/shared/usdc/property-parser';
 import { CrateDataType } from '../converters/shared/usdc/value-rep';
 
 describe('parsePropertyKey — scalar attributes', () => {
@@ -17,9 +17,11 @@ describe('parsePropertyKey — scalar attributes', () => {
     expect(r).toEqual({
       kind: 'attribute',
       name: 'inputs:roughness',
+      typeName: 'float',
       type: CrateDataType.Float,
       isArray: false,
       isUniform: false,
+      isCustom: false,
     });
   });
 
@@ -28,9 +30,11 @@ describe('parsePropertyKey — scalar attributes', () => {
     expect(r).toEqual({
       kind: 'attribute',
       name: 'outputs:surface',
+      typeName: 'token',
       type: CrateDataType.Token,
       isArray: false,
       isUniform: false,
+      isCustom: false,
     });
   });
 
@@ -39,9 +43,11 @@ describe('parsePropertyKey — scalar attributes', () => {
     expect(r).toEqual({
       kind: 'attribute',
       name: 'info:id',
+      typeName: 'token',
       type: CrateDataType.Token,
       isArray: false,
       isUniform: true,
+      isCustom: false,
     });
   });
 
@@ -74,12 +80,25 @@ describe('parsePropertyKey — array attributes', () => {
     expect(r).toEqual({
       kind: 'attribute',
       name: 'points',
+      typeName: 'point3f[]',
       type: CrateDataType.Vec3f,
       isArray: true,
       isUniform: false,
+      isCustom: false,
     });
   });
 
+  it('parses matrix4d[] and quatf[] (skeleton and animation values)', () => {
+    const m = parsePropertyKey('uniform matrix4d[] bindTransforms');
+    if (m.kind !== 'attribute') throw new Error('expected attribute');
+    expect(m.type).toBe(CrateDataType.Matrix4d);
+    expect(m.isUniform).toBe(true);
+    const q = parsePropertyKey('quatf[] rotations');
+    if (q.kind !== 'attribute') throw new Error('expected attribute');
+    expect(q.type).toBe(CrateDataType.Quatf);
+    expect(parseTypeName('half3[]')).toEqual({ type: CrateDataType.Vec3h, isArray: true });
+  });
+
   it('parses normal3f[] normals', () => {
     const r = parsePropertyKey('normal3f[] normals');
     if (r.kind !== 'attribute') throw new Error('expected attribute');
@@ -169,23 +188,51 @@ describe('parsePropertyKey — relationship keys', () => {
     expect(r).toEqual({ kind: 'relationship', name: 'myRel' });
   });
 
+  it('parses a custom relationship', () => {
+    expect(parsePropertyKey('custom rel proxy')).toEqual({ kind: 'relationship', name: 'proxy' });
+  });
+
   it('returns unsupported when `rel` is missing a name', () => {
     expect(parsePropertyKey('rel ').kind).toBe('unsupported');
   });
 });
 
-describe('parsePropertyKey — non-attribute keys (unsupported)', () => {
-  it('returns unsupported for connection (.connect suffix)', () => {
-    const r = parsePropertyKey('token outputs:surface.connect');
-    expect(r.kind).toBe('unsupported');
+describe('parsePropertyKey — connections', () => {
+  it('parses a typed connection', () => {
+    expect(parsePropertyKey('color3f inputs:diffuseColor.connect')).toEqual({
+      kind: 'connection',
+      name: 'inputs:diffuseColor',
+      typeName: 'color3f',
+      type: CrateDataType.Vec3f,
+      isArray: false,
+    });
   });
 
+  it('defaults an untyped connection to token', () => {
+    const r = parsePropertyKey('outputs:surface.connect');
+    if (r.kind !== 'connection') throw new Error('expected connection');
+    expect(r.name).toBe('outputs:surface');
+    expect(r.typeName).toBe('token');
+  });
+});
+
+describe('parsePropertyKey — custom attributes', () => {
+  it('flags `custom` declarations', () => {
+    const r = parsePropertyKey('custom string userProperties:note');
+    if (r.kind !== 'attribute') throw new Error('expected attribute');
+    expect(r.isCustom).toBe(true);
+    expect(r.type).toBe(CrateDataType.String);
+  });
+});
+
+describe('parsePropertyKey — unknown types', () => {
   it('returns unsupported for an unknown type token', () => {
-    const r = parsePropertyKey('matrix4d someXform');
+    const r = parsePropertyKey('foo3x someXform');
     expect(r.kind).toBe('unsupported');
     if (r.kind === 'unsupported') {
-      expect(r.reason).toContain('matrix4d');
+      expect(r.reason).toContain('foo3x');
     }
+    expect(parseTypeName('foo3x[]')).toBeNull();
   });
 });
 
@@ -0,0 +1,117 @@
+/**
+ * Tests for the typed-value encoder the UsdNode → USDC adapter uses.
+ *
+ * Inline values are checked on their ValueRep; external values are written
+ * into a layer as attribute defaults and read back through
+ * `readUsdcLayer()`, so both the bytes and the reader's interpretation of
+ * them are covered.
+ */
+import { describe, it, expect } from 'vitest';
+import { UsdcLayerBuilder } from '../converters/shared/usdc/layer-builder';
+import { readUsdcLayer } from '../converters/shared/usdc/layer-reader';
+import { encodeDictionaryValue, encodeTypedValue } from '../converters/shared/usdc/typed-values';
+import { CrateDataType, decodeValueRep } from '../converters/shared/usdc/value-rep';
+
+/** Encode `value` as the default of `/Root.<name>` and read the property back. */
+function roundTrip(typeName: string, type: CrateDataType, isArray: boolean, value: unknown): unknown {
+  const b = new UsdcLayerBuilder();
+  const root = b.declarePrim('/Root', 'Xform');
+  const encoded = encodeTypedValue(type, isArray, value, b);
+  if (!encoded) throw new Error(`${typeName}: not encodable`);
+  b.addAttributeSpec(root, 'value', { typeName, default: encoded });
+  return readUsdcLayer(b.serialize()).root.getProperty(`${typeName} value`);
+}
+
+describe('encodeTypedValue — inline scalars', () => {
+  const b = new UsdcLayerBuilder();
+
+  it('inlines bool, int, float and half scalars', () => {
+    for (const [type, value] of [
+      [CrateDataType.Bool, true],
+      [CrateDataType.Int, -3],
+      [CrateDataType.Float, 0.25],
+      [CrateDataType.Half, 0.5],
+    ] as const) {
+      const encoded = encodeTypedValue(type, false, value, b);
+      expect(encoded?.kind).toBe('inline');
+      if (encoded?.kind === 'inline') expect(decodeValueRep(encoded.rep).type).toBe(type);
+    }
+  });
+
+  it('inlines a double only when it survives a float round-trip', () => {
+    expect(encodeTypedValue(CrateDataType.Double, false, 0.5, b)?.kind).toBe('inline');
+    expect(encodeTypedValue(CrateDataType.Double, false, 0.1, b)?.kind).toBe('external');
+  });
+
+  it('writes null and None as a ValueBlock', () => {
+    const encoded = encodeTypedValue(CrateDataType.Float, false, 'None', b);
+    if (encoded?.kind !== 'inline') throw new Error('expected inline');
+    expect(decodeValueRep(encoded.rep).type).toBe(CrateDataType.ValueBlock);
+  });
+
+  it('unquotes token and asset literals', () => {
+    const token = encodeTypedValue(CrateDataType.Token, false, '"vertex"', b);
+    if (token?.kind !== 'inline') throw new Error('expected inline');
+    expect(Number(decodeValueRep(token.rep).payload)).toBe(b.internToken('vertex'));
+    const asset = encodeTypedValue(CrateDataType.AssetPath, false, '@textures/a.png@', b);
+    if (asset?.kind !== 'inline') throw new Error('expected inline');
+    expect(Number(decodeValueRep(asset.rep).payload)).toBe(b.internToken('textures/a.png'));
+  });
+});
+
+describe('encodeTypedValue — shape checks', () => {
+  const b = new UsdcLayerBuilder();
+
+  it('rejects the wrong arity', () => {
+    expect(encodeTypedValue(CrateDataType.Vec3f, false, '(1, 2)', b)).toBeNull();
+    expect(encodeTypedValue(CrateDataType.Vec2f, true, [1, 2, 3], b)).toBeNull();
+  });
+
+  it('rejects out-of-range and fractional integers', () => {
+    expect(encodeTypedValue(CrateDataType.Int, false, 2 ** 31, b)).toBeNull();
+    expect(encodeTypedValue(CrateDataType.UChar, false, 1.5, b)).toBeNull();
+  });
+
+  it('rejects non-numeric text and objects for numeric types', () => {
+    expect(encodeTypedValue(CrateDataType.Float, false, 'abc', b)).toBeNull();
+    expect(encodeTypedValue(CrateDataType.Float, false, { x: 1 }, b)).toBeNull();
+  });
+});
+
+describe('encodeTypedValue — layer round-trip', () => {
+  it('round-trips matrix4d literals', () => {
+    const matrix = '( (1, 0, 0, 0), (0, 1, 0, 0), (0, 0, 1, 0), (5, 6, 7, 1) )';
+    expect(roundTrip('matrix4d', CrateDataType.Matrix4d, false, matrix)).toBe(matrix);
+  });
+
+  it('keeps quaternion literals real-first', () => {
+    expect(roundTrip('quatf', CrateDataType.Quatf, false, '(0.5, 1, 0, 0)')).toBe('(0.5, 1, 0, 0)');
+  });
+
+  it('round-trips texCoord2f[] from a typed array', () => {
+    const st = roundTrip('texCoord2f[]', CrateDataType.Vec2f, true, new Float32Array([0, 1, 0.5, 0.25]));
+    expect(st).toBe('[(0, 1), (0.5, 0.25)]');
+  });
+
+  it('round-trips half3[] and token[] values', () => {
+    const scales = roundTrip('half3[]', CrateDataType.Vec3h, true, '[(1, 2, 0.5)]');
+    expect(Array.from(scales as Float32Array)).toEqual([1, 2, 0.5]);
+    expect(roundTrip('token[]', CrateDataType.Token, true, '["a", "b"]')).toEqual(['a', 'b']);
+  });
+});
+
+describe('encodeDictionaryValue', () => {
+  it('types entries from their JS values', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    const dict = { name: 'x', count: 2, scale: 1.5, on: true, nested: { tags: ['a', 'b'] } };
+    b.addField(root, 'customData', encodeDictionaryValue(dict, b)!);
+    expect(readUsdcLayer(b.serialize()).root.getProperty('customData')).toEqual(dict);
+  });
+
+  it('rejects entries it cannot type', () => {
+    const b = new UsdcLayerBuilder();
+    expect(encodeDictionaryValue({ f: () => 1 }, b)).toBeNull();
+    expect(encodeDictionaryValue({ mixed: [1, 'a'] }, b)).toBeNull();
+  });
+});
@@ -6,8 +6,9 @@
  *   - that representative scene fragments produce structurally-valid USDC,
  *   - that the per-property type dispatch covers the shapes the live PLY /
  *     OBJ / STL / GLB converters emit,
- *   - that unsupported keys (relationships, list-ops, connections) are
- *     reported but do not abort the walk,
+ *   - that relationships, connections, list-ops, time samples, variants and
+ *     metadata are encoded, and keys that cannot be are reported but do not
+ *     abort the walk,
  *   - that the resulting USDC contains the tokens, paths, fields, and specs
  *     we'd expect for the input.
  */
@@ -113,12 +114,49 @@ describe('applyProperty — scalar dispatch', () => {
     expect(r.emitted).toBe(true);
   });
 
-  it('skips connection keys (.connect suffix)', () => {
+  it('emits a connection for an absolute source path', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Material');
+    const r = applyProperty(b, root, 'token outputs:surface.connect', '</Root/Surface.outputs:surface>');
+    expect(r.emitted).toBe(true);
+  });
+
+  it('skips connections whose source is not an absolute path', () => {
     const b = new UsdcLayerBuilder();
     const root = b.declarePrim('/Root', 'Material');
     expect(applyProperty(b, root, 'token outputs:surface.connect', '<x>').emitted).toBe(false);
   });
 
+  it('types bare keys the way the serializer does', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    const matrix = '( (1, 0, 0, 0), (0, 1, 0, 0), (0, 0, 1, 0), (0, 0, 0, 1) )';
+    expect(applyProperty(b, root, 'xformOp:transform', matrix).emitted).toBe(true);
+    expect(applyProperty(b, root, 'inputs:file', '@a.png@').emitted).toBe(true);
+    expect(applyProperty(b, root, 'xformOp:translate', '(0, 1, 0)', 'float3').emitted).toBe(true);
+    expect(applyProperty(b, root, 'primvars:st:interpolation', 'vertex', 'interpolation').emitted).toBe(true);
+    expect(applyProperty(b, root, 'unknownBareKey', 1).emitted).toBe(false);
+  });
+
+  it('emits half, quatf and matrix4d[] values', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Skeleton');
+    expect(applyProperty(b, root, 'half inputs:scale', 0.5).emitted).toBe(true);
+    expect(applyProperty(b, root, 'quatf[] rotations', '[(1, 0, 0, 0), (0.7071, 0, 0.7071, 0)]').emitted).toBe(true);
+    expect(applyProperty(b, root, 'half3[] scales', '[(1, 1, 1)]').emitted).toBe(true);
+    expect(
+      applyProperty(b, root, 'uniform matrix4d[] bindTransforms', '[( (1, 0, 0, 0), (0, 1, 0, 0), (0, 0, 1, 0), (0, 0, 0, 1) )]').emitted
+    ).toBe(true);
+    expect(applyProperty(b, root, 'quatf[] rotations2', '[(1, 0, 0)]').emitted).toBe(false);
+  });
+
+  it('emits customData dictionaries and rejects non-objects', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    expect(applyProperty(b, root, 'customData', { a: 'x', n: 1.5, nested: { ok: true } }).emitted).toBe(true);
+    expect(applyProperty(b, root, 'assetInfo', 'not-a-dictionary').emitted).toBe(false);
+  });
+
   it('emits a Relationship for material:binding (target as USDA-style <path>)', () => {
     const b = new UsdcLayerBuilder();
     const root = b.declarePrim('/Root', 'Xform');
@@ -169,10 +207,17 @@ describe('applyProperty — scalar dispatch', () => {
     expect(r.emitted).toBe(true);
   });
 
-  it('skips list-ops for fields that are not TokenListOp-shaped (e.g. references)', () => {
+  it('emits a ReferenceListOp for prepend references', () => {
+    const b = new UsdcLayerBuilder();
+    const root = b.declarePrim('/Root', 'Xform');
+    expect(applyProperty(b, root, 'prepend references', ['@asset.usd@']).emitted).toBe(true);
+    expect(applyProperty(b, root, 'append references', '[@a.usd@</A>, </Local>]').emitted).toBe(true);
+  });
+
+  it('skips list-ops for fields without a crate list-op encoding', () => {
     const b = new UsdcLayerBuilder();
     const root = b.declarePrim('/Root', 'Xform');
-    expect(applyProperty(b, root, 'prepend references', ['@asset.usd@']).emitted).toBe(false);
+    expect(applyProperty(b, root, 'prepend inherits', ['</Base>']).emitted).toBe(false);
   });
 
   it('skips list-ops whose value is not a string array', () => {
@@ -355,3 +400,53 @@ describe('adaptUsdNodeTree — properties report', () => {
     expect(apiSchemasReport?.emitted).toBe(true);
   });
 });
+
+describe('adaptUsdNodeTree — time samples, variants and metadata', () => {
+  it('reports time-sampled properties under a .timeSamples key', () => {
+    const root = new UsdNode('/Root', 'Xform');
+    root.setTimeSampledProperty('xformOp:translate', new Map([[0, '(0, 0, 0)'], [1, '(0, 1, 0)']]), 'float3');
+    root.setTimeSampledProperty('float3 xformOp:scale', new Map([[0, '(1, 1)'], [1, '(2, 2, 2)']]), 'float3');
+
+    const report = adaptUsdNodeTree(root, new UsdcLayerBuilder());
+    expect(report.properties).toEqual([
+      { rawKey: 'xformOp:translate.timeSamples', emitted: true },
+      expect.objectContaining({ rawKey: 'float3 xformOp:scale.timeSamples', emitted: false }),
+    ]);
+  });
+
+  it('walks variants without counting them as prims', () => {
+    const root = new UsdNode('/Root', 'Xform');
+    root.addVariant('look', 'red').setProperty('material:binding', '</Root/Red>', 'rel');
+    root.setVariantSelection('look', 'red');
+
+    const report = adaptUsdNodeTree(root, new UsdcLayerBuilder());
+    expect(report.primCount).toBe(1);
+    expect(report.skipped).toBe(0);
+    expect(report.properties.map((p) => p.rawKey)).toEqual(['material:binding']);
+  });
+
+  it('encodes scalar prim metadata and reports unknown keys', () => {
+    const root = new UsdNode('/Root', 'Xform');
+    root.setMetadata('upAxis', 'Z');
+    const child = new UsdNode('/Root/Child', 'Xform');
+    child.setMetadata('kind', 'component');
+    child.setMetadata('active', false);
+    child.setMetadata('instancing:prototype', ['a']);
+    root.addChild(child);
+
+    const report = adaptUsdNodeTree(root, new UsdcLayerBuilder());
+    expect(report.properties.map((p) => [p.rawKey, p.emitted])).toEqual([
+      ['kind', true],
+      ['active', true],
+      ['instancing:prototype', false],
+    ]);
+  });
+
+  it('declares sibling root prims after the root', () => {
+    const root = new UsdNode('/Root', 'Xform');
+    const materials = new UsdNode('/Materials', 'Scope');
+    const { bytes, report } = encodeUsdNodeTreeToUsdc(root, [materials]);
+    expect(report.primCount).toBe(2);
+    expect(getTokens(bytes)).toContain('Materials');
+  });
+});
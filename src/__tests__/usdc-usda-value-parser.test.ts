@@ -12,6 +12,9 @@ import {
   parseVec3fScalar,
   parseVec2fScalar,
   parseVec3fArray,
+  parseUsdaNumbers,
+  parseUsdaStringList,
+  unquoteUsdaString,
 } from '../converters/shared/usdc/usda-value-parser';
 
 describe('parseVec3fScalar', () => {
@@ -89,3 +92,38 @@ describe('parseVec3fArray', () => {
     expect(parseVec3fArray('[(a, b, c)]')).toBeNull();
   });
 });
+
+describe('parseUsdaNumbers', () => {
+  it('flattens nested tuples and lists', () => {
+    expect(parseUsdaNumbers('[(1, 2), (3.5, -4e-2)]')).toEqual([1, 2, 3.5, -0.04]);
+    expect(parseUsdaNumbers('( (1, 0), (0, 1) )')).toEqual([1, 0, 0, 1]);
+  });
+
+  it('accepts inf, nan and booleans', () => {
+    const n = parseUsdaNumbers('(inf, -inf, nan, true, false)')!;
+    expect(n.slice(0, 2)).toEqual([Infinity, -Infinity]);
+    expect(Number.isNaN(n[2])).toBe(true);
+    expect(n.slice(3)).toEqual([1, 0]);
+  });
+
+  it('rejects non-numeric text', () => {
+    expect(parseUsdaNumbers('(1, a)')).toBeNull();
+  });
+});
+
+describe('parseUsdaStringList', () => {
+  it('parses quoted, asset and bare items', () => {
+    expect(parseUsdaStringList('["a", \'b\', @c.png@, d]')).toEqual(['a', 'b', 'c.png', 'd']);
+    expect(parseUsdaStringList('[]')).toEqual([]);
+  });
+
+  it('rejects text that is not a list', () => {
+    expect(parseUsdaStringList('"a"')).toBeNull();
+  });
+
+  it('unquoteUsdaString strips one layer of quotes or @ delimiters', () => {
+    expect(unquoteUsdaString('"x"')).toBe('x');
+    expect(unquoteUsdaString('@a.usd@')).toBe('a.usd');
+    expect(unquoteUsdaString('plain')).toBe('plain');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for `readUsdz()`.
+ *
+ * Packages trees with `createUsdzPackage({ layerFormat: 'usdc' })` and reads
+ * them back: root-layer discovery, the side-car file map, loose `.usdc` /
+ * `.usda` input, USDA root layers, DEFLATE entries written by third-party
+ * zippers, and the errors raised for inputs the reader cannot handle.
+ */
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UsdNode } from '../core/usd-node';
+import { UsdConversionError, UsdFileSystemError } from '../errors';
+import { readUsdz } from '../converters/usdz';
+import { createUsdzPackage, type PackageContent } from '../converters/shared/usd-packaging';
+import { encodeUsdNodeTreeToUsdc } from '../converters/shared/usdc/usd-node-adapter';
+import { UsdzZipReader } from '../converters/shared/usdz-zip-reader';
+
+function basicTree(): UsdNode {
+  const root = new UsdNode('/Root', 'Xform');
+  const mesh = new UsdNode('/Root/Mesh', 'Mesh');
+  mesh.setProperty('point3f[] points', new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+  mesh.setProperty('int[] faceVertexIndices', new Int32Array([0, 1, 2]));
+  mesh.setProperty('int[] faceVertexCounts', new Int32Array([3]));
+  root.addChild(mesh);
+  return root;
+}
+
+function content(tree?: UsdNode): PackageContent {
+  const texture = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]);
+  return {
+    usdContent: '#usda 1.0\n(\n  defaultPrim = "Root"\n)\n\ndef Xform "Root" {}\n',
+    geometryFiles: new Map(),
+    textureFiles: new Map([['Texture_0.png', texture.buffer]]),
+    ...(tree ? { usdContentNode: tree } : {}),
+  };
+}
+
+/** Build a single-entry zip whose entry is DEFLATE-compressed. */
+function deflatedZip(name: string, data: Uint8Array): Uint8Array {
+  const nameBytes = new TextEncoder().encode(name);
+  const compressed = new Uint8Array(deflateRawSync(data));
+  const local = new Uint8Array(30 + nameBytes.length);
+  const lv = new DataView(local.buffer);
+  lv.setUint32(0, 0x04034b50, true);
+  lv.setUint16(8, 8, true);
+  lv.setUint32(18, compressed.length, true);
+  lv.setUint32(22, data.length, true);
+  lv.setUint16(26, nameBytes.length, true);
+  local.set(nameBytes, 30);
+
+  const central = new Uint8Array(46 + nameBytes.length);
+  const cv = new DataView(central.buffer);
+  cv.setUint32(0, 0x02014b50, true);
+  cv.setUint16(10, 8, true);
+  cv.setUint32(20, compressed.length, true);
+  cv.setUint32(24, data.length, true);
+  cv.setUint16(28, nameBytes.length, true);
+  cv.setUint32(42, 0, true);
+  central.set(nameBytes, 46);
+
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, 1, true);
+  ev.setUint16(10, 1, true);
+  ev.setUint32(12, central.length, true);
+  ev.setUint32(16, local.length + compressed.length, true);
+
+  const out = new Uint8Array(local.length + compressed.length + central.length + eocd.length);
+  out.set(local, 0);
+  out.set(compressed, local.length);
+  out.set(central, local.length + compressed.length);
+  out.set(eocd, local.length + compressed.length + central.length);
+  return out;
+}
+
+describe('readUsdz — USDZ archives', () => {
+  it('reads the USDC root layer and keeps the other files', async () => {
+    const blob = await createUsdzPackage(content(basicTree()), { layerFormat: 'usdc' });
+    const result = await readUsdz(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(result.layerFormat).toBe('usdc');
+    expect(result.rootLayerName).toBe('model.usdc');
+    expect(result.root.getPath()).toBe('/Root');
+    const [mesh] = [...result.root.getChildren()];
+    expect(mesh?.getTypeName()).toBe('Mesh');
+    expect(Array.from(mesh?.getProperty('int[] faceVertexIndices') as Int32Array)).toEqual([0, 1, 2]);
+
+    const [[texturePath, texture]] = [...result.files];
+    expect(texturePath).toMatch(/^textures\/.+\.png$/);
+    expect(result.files.size).toBe(1);
+    expect(Array.from(texture)).toEqual([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]);
+  });
+
+  it('accepts an ArrayBuffer and a file path', async () => {
+    const blob = await createUsdzPackage(content(basicTree()), { layerFormat: 'usdc' });
+    const buffer = await blob.arrayBuffer();
+    expect((await readUsdz(buffer)).root.getPath()).toBe('/Root');
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usdz-reader-'));
+    try {
+      const file = path.join(dir, 'model.usdz');
+      fs.writeFileSync(file, new Uint8Array(buffer));
+      expect((await readUsdz(file)).root.getPath()).toBe('/Root');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('inflates DEFLATE entries', async () => {
+    const layer = encodeUsdNodeTreeToUsdc(basicTree()).bytes;
+    const zip = deflatedZip('scene.usdc', layer);
+    expect(new UsdzZipReader(zip).entries[0]?.compressionMethod).toBe(8);
+
+    const result = await readUsdz(zip);
+    expect(result.rootLayerName).toBe('scene.usdc');
+    expect(result.root.getPath()).toBe('/Root');
+  });
+
+  it('reads a USDA root layer', async () => {
+    const blob = await createUsdzPackage(content());
+    const result = await readUsdz(await blob.arrayBuffer());
+    expect(result.layerFormat).toBe('usda');
+    expect(result.rootLayerName).toMatch(/\.usda$/);
+    expect(result.root.getPath()).toBe('/Root');
+    expect(result.layerMetadata.defaultPrim).toBe('Root');
+    expect([...result.files.keys()]).toEqual([expect.stringMatching(/^textures\/.+\.png$/)]);
+  });
+});
+
+describe('readUsdz — loose layers and bad input', () => {
+  it('reads a loose .usdc layer', async () => {
+    const result = await readUsdz(encodeUsdNodeTreeToUsdc(basicTree()).bytes);
+    expect(result.rootLayerName).toBe('layer.usdc');
+    expect(result.files.size).toBe(0);
+    expect(result.root.getPath()).toBe('/Root');
+  });
+
+  it('reads a loose .usda layer', async () => {
+    const text = '#usda 1.0\n\ndef Xform "World"\n{\n    def Mesh "Body"\n    {\n    }\n}\n';
+    const result = await readUsdz(new TextEncoder().encode(text));
+    expect(result.rootLayerName).toBe('layer.usda');
+    expect(result.layerFormat).toBe('usda');
+    expect([...result.root.getChildren()].map(c => c.getPath())).toEqual(['/World/Body']);
+  });
+
+  it('rejects input that is neither zip nor a USD layer', async () => {
+    await expect(readUsdz(new TextEncoder().encode('solid cube\n'))).rejects.toMatchObject({
+      stage: 'usdz_read',
+    });
+  });
+
+  it('wraps USDA syntax errors as usda_parse conversion errors with a position', async () => {
+    const text = '#usda 1.0\n\ndef Xform "World"\n{\n    float radius = \n}\n';
+    const error = await readUsdz(new TextEncoder().encode(text)).catch(e => e);
+    expect(error).toBeInstanceOf(UsdConversionError);
+    expect(error).toMatchObject({ stage: 'usda_parse', context: { layer: 'layer.usda', line: 6, column: 1 } });
+  });
+
+  it('wraps decode failures as usdc_decode conversion errors', async () => {
+    const truncated = encodeUsdNodeTreeToUsdc(basicTree()).bytes.subarray(0, 100);
+    await expect(readUsdz(truncated)).rejects.toMatchObject({ stage: 'usdc_decode' });
+  });
+
+  it('raises a file-system error for a missing path', async () => {
+    await expect(readUsdz('/nonexistent/model.usdz')).rejects.toBeInstanceOf(UsdFileSystemError);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * USDZ to glTF tests
+ *
+ * Converts an in-memory GLB to USDZ (ASCII and binary root layers), reads it
+ * back with the reverse converter and checks the rebuilt hierarchy,
+ * materials, skin, animation channels and morph targets.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document, Node, NodeIO, Primitive, Root } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { readUsdzDocument, convertUsdzToGlb } from '../converters/usdz';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/**
+ * A textured, morphing quad, a blended triangle and a two-joint skinned leg,
+ * with translation, rotation and weights animation
+ */
+async function buildGlb(): Promise<ArrayBuffer> {
+  const doc = new Document();
+  const buffer = doc.createBuffer();
+  const accessor = (type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4' | 'MAT4', array: Float32Array | Uint16Array) =>
+    doc.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+
+  const base = doc.createTexture('base').setImage(new Uint8Array(PNG)).setMimeType('image/png');
+  const normal = doc.createTexture('normal').setImage(new Uint8Array(PNG)).setMimeType('image/png');
+  const textured = doc.createMaterial('Textured')
+    .setBaseColorFactor([0.8, 0.2, 0.1, 1])
+    .setBaseColorTexture(base)
+    .setNormalTexture(normal)
+    .setMetallicFactor(0.1)
+    .setRoughnessFactor(0.4)
+    .setEmissiveFactor([0.1, 0.2, 0.3]);
+  const glass = doc.createMaterial('Glass').setBaseColorFactor([0, 0, 1, 0.5]).setAlphaMode('BLEND').setDoubleSided(true);
+
+  const quad = doc.createPrimitive()
+    .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0])))
+    .setAttribute('NORMAL', accessor('VEC3', new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1])))
+    .setAttribute('TEXCOORD_0', accessor('VEC2', new Float32Array([0, 0, 1, 0, 0, 1, 1, 1])))
+    .setIndices(accessor('SCALAR', new Uint16Array([0, 1, 2, 2, 1, 3])))
+    .setMaterial(textured)
+    .addTarget(doc.createPrimitiveTarget('Bulge')
+      .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 0.5, 0, 0, 0, 0, 0, 0, 0, 0, 0]))));
+  const triangle = doc.createPrimitive()
+    .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 1, 1, 0, 1, 0, 1, 1])))
+    .setMaterial(glass);
+  const quadNode = doc.createNode('QuadNode')
+    .setMesh(doc.createMesh('Quad').addPrimitive(quad).addPrimitive(triangle).setWeights([0]))
+    .setTranslation([1, 2, 3]);
+
+  const hip = doc.createNode('Hip');
+  const knee = doc.createNode('Knee').setTranslation([0, 1, 0]);
+  hip.addChild(knee);
+  const skin = doc.createSkin('Skin').addJoint(hip).addJoint(knee).setInverseBindMatrices(accessor('MAT4', new Float32Array([
+    1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1,
+    1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -1, 0, 1,
+  ])));
+  const leg = doc.createPrimitive()
+    .setAttribute('POSITION', accessor('VEC3', new Float32Array([0, 0, 0, 1, 0, 0, 0, 2, 0])))
+    .setAttribute('JOINTS_0', accessor('VEC4', new Uint16Array([0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0])))
+    .setAttribute('WEIGHTS_0', accessor('VEC4', new Float32Array([1, 0, 0, 0, 0.5, 0.5, 0, 0, 1, 0, 0, 0])));
+  const legNode = doc.createNode('LegMesh').setMesh(doc.createMesh('Leg').addPrimitive(leg)).setSkin(skin);
+
+  doc.getRoot().setDefaultScene(doc.createScene('Scene').addChild(quadNode).addChild(hip).addChild(legNode));
+
+  const times = accessor('SCALAR', new Float32Array([0, 1]));
+  const animation = doc.createAnimation('Walk');
+  const channel = (node: Node, targetPath: 'translation' | 'rotation' | 'weights', type: 'SCALAR' | 'VEC3' | 'VEC4', values: number[]) => {
+    const sampler = doc.createAnimationSampler().setInput(times).setOutput(accessor(type, new Float32Array(values)));
+    animation.addSampler(sampler).addChannel(
+      doc.createAnimationChannel().setTargetNode(node).setTargetPath(targetPath).setSampler(sampler)
+    );
+  };
+  channel(quadNode, 'translation', 'VEC3', [1, 2, 3, 1, 3, 3]);
+  channel(knee, 'rotation', 'VEC4', [0, 0, 0, 1, 0, 0, 0.7071068, 0.7071068]);
+  channel(quadNode, 'weights', 'SCALAR', [0, 1]);
+
+  const glb = await new NodeIO().writeBinary(doc);
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+function findNode(root: Root, name: string): Node {
+  const node = root.listNodes().find(candidate => candidate.getName() === name);
+  expect(node, `node ${name}`).toBeDefined();
+  return node!;
+}
+
+function primitives(root: Root): Primitive[] {
+  return root.listMeshes().flatMap(mesh => mesh.listPrimitives());
+}
+
+let glb: ArrayBuffer;
+let dir: string;
+
+beforeAll(async () => {
+  glb = await buildGlb();
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webusd-reverse-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe.each(['usda', 'usdc'] as const)('readUsdzDocument (%s root layer)', (layerFormat) => {
+  let root: Root;
+
+  beforeAll(async () => {
+    const usdz = await convertGlbToUsdz(glb, undefined, { layerFormat });
+    const document = await readUsdzDocument(new Uint8Array(await usdz.arrayBuffer()));
+    root = document.getRoot();
+  });
+
+  it('rebuilds the node hierarchy and transforms', () => {
+    expect(root.listScenes()).toHaveLength(1);
+    expect(findNode(root, 'QuadNode').getTranslation()).toEqual([1, 2, 3]);
+    expect(findNode(root, 'Knee').getTranslation()).toEqual([0, 1, 0]);
+  });
+
+  it('splits meshes per GeomSubset material with welded attributes', () => {
+    const quad = primitives(root).find(prim => prim.getMaterial()?.getName() === 'Textured')!;
+    expect(quad.listSemantics()).toEqual(expect.arrayContaining(['POSITION', 'NORMAL', 'TEXCOORD_0']));
+    expect(quad.getAttribute('POSITION')!.getCount()).toBe(4);
+    expect(quad.getIndices()!.getCount()).toBe(6);
+
+    // V is flipped on export and flipped back on import
+    const uvs = Array.from(quad.getAttribute('TEXCOORD_0')!.getArray()!);
+    expect(uvs.slice(0, 2)).toEqual([0, 0]);
+  });
+
+  it('maps UsdPreviewSurface inputs back to PBR materials', () => {
+    const textured = root.listMaterials().find(material => material.getName() === 'Textured')!;
+    expect(textured.getBaseColorFactor().map(v => +v.toFixed(3))).toEqual([0.8, 0.2, 0.1, 1]);
+    expect(textured.getBaseColorTexture()?.getMimeType()).toBe('image/png');
+    expect(textured.getNormalTexture()).not.toBeNull();
+    expect(textured.getMetallicFactor()).toBeCloseTo(0.1);
+    expect(textured.getRoughnessFactor()).toBeCloseTo(0.4);
+    expect(textured.getEmissiveFactor().map(v => +v.toFixed(3))).toEqual([0.1, 0.2, 0.3]);
+
+    const glass = root.listMaterials().find(material => material.getName() === 'Glass')!;
+    expect(glass.getAlphaMode()).toBe('BLEND');
+    expect(glass.getAlpha()).toBeCloseTo(0.5);
+    expect(glass.getDoubleSided()).toBe(true);
+  });
+
+  it('rebuilds the skeleton as a skin with inverse bind matrices', () => {
+    const skins = root.listSkins();
+    expect(skins).toHaveLength(1);
+    expect(skins[0].listJoints().map(joint => joint.getName())).toEqual(['Hip', 'Knee']);
+    const inverseBinds = Array.from(skins[0].getInverseBindMatrices()!.getArray()!);
+    expect(inverseBinds[16 + 13]).toBeCloseTo(-1);
+
+    const skinned = root.listNodes().find(node => node.getSkin() === skins[0])!;
+    const weights = skinned.getMesh()!.listPrimitives()[0].getAttribute('WEIGHTS_0')!;
+    expect(weights.getElement(1, [])).toEqual([0.5, 0.5, 0, 0]);
+  });
+
+  it('turns time samples into one animation', () => {
+    const animations = root.listAnimations();
+    expect(animations).toHaveLength(1);
+    const channels = animations[0].listChannels();
+    const byPath = (targetPath: string) => channels.find(channel => channel.getTargetPath() === targetPath)!;
+
+    expect(byPath('translation').getTargetNode()!.getName()).toBe('QuadNode');
+    expect(Array.from(byPath('translation').getSampler()!.getOutput()!.getArray()!)).toEqual([1, 2, 3, 1, 3, 3]);
+
+    const rotation = byPath('rotation');
+    expect(rotation.getTargetNode()!.getName()).toBe('Knee');
+    const last = Array.from(rotation.getSampler()!.getOutput()!.getArray()!).slice(4);
+    expect(last.map(v => +v.toFixed(3))).toEqual([0, 0, 0.707, 0.707]);
+
+    const weights = byPath('weights');
+    const times = weights.getSampler()!.getInput()!.getArray()!;
+    expect(times[0]).toBe(0);
+    expect(times[times.length - 1]).toBeCloseTo(1, 1);
+  });
+
+  it('restores blend shapes as morph targets', () => {
+    const morphing = primitives(root).find(prim => prim.listTargets().length > 0)!;
+    expect(morphing.getMaterial()?.getName()).toBe('Textured');
+    const offsets = Array.from(morphing.listTargets()[0].getAttribute('POSITION')!.getArray()!);
+    expect(offsets.some(v => v !== 0)).toBe(true);
+  });
+});
+
+describe('convertUsdzToGlb', () => {
+  it('reads a .usdz path and writes a loadable GLB', async () => {
+    const usdz = await convertGlbToUsdz(glb);
+    const file = path.join(dir, 'model.usdz');
+    fs.writeFileSync(file, new Uint8Array(await usdz.arrayBuffer()));
+
+    const result = await convertUsdzToGlb(file);
+    const document = await new NodeIO().readBinary(new Uint8Array(result));
+    const root = document.getRoot();
+    expect(root.listMeshes().length).toBeGreaterThanOrEqual(3);
+    expect(root.listTextures().length).toBeGreaterThan(0);
+    expect(root.listSkins()).toHaveLength(1);
+    expect(root.listAnimations()).toHaveLength(1);
+  });
+});
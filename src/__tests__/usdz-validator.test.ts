@@ -0,0 +1,183 @@
+/**
+ * USDZ validator tests
+ *
+ * Validates converter output (which must pass) and hand-built archives
+ * that break one rule family each: zip layout, stage metadata, and
+ * relationship / texture / extent checks on prims.
+ */
+import { describe, it, expect } from 'vitest';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { convertGlbToUsdz } from '../converters/gltf';
+import { validateUsdz, type UsdzValidationReport } from '../converters/usdz';
+import { UsdzZipWriter } from '../converters/shared/usdz-zip-writer';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+const HEADER = `#usda 1.0
+(
+    defaultPrim = "Root"
+    metersPerUnit = 1
+    upAxis = "Y"
+)
+`;
+
+function archive(files: Array<[string, string | Uint8Array]>, alignTo64Bytes = true): Uint8Array {
+  const writer = new UsdzZipWriter({ alignTo64Bytes });
+  for (const [name, data] of files) {
+    writer.addFile(name, typeof data === 'string' ? new TextEncoder().encode(data) : data);
+  }
+  return writer.generate();
+}
+
+/** Rename an entry in place; the writer itself refuses names USDZ does not allow */
+function rename(bytes: Uint8Array, from: string, to: string): Uint8Array {
+  const source = new TextEncoder().encode(from);
+  const target = new TextEncoder().encode(to);
+  for (let offset = 0; offset + source.length <= bytes.length; offset++) {
+    if (source.every((byte, i) => bytes[offset + i] === byte)) bytes.set(target, offset);
+  }
+  return bytes;
+}
+
+function ruleIds(report: UsdzValidationReport): string[] {
+  return report.issues.map(issue => issue.ruleId);
+}
+
+describe('validateUsdz', () => {
+  it('accepts converter output', async () => {
+    const document = new Document();
+    const buffer = document.createBuffer();
+    const position = document.createAccessor()
+      .setType('VEC3')
+      .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+      .setBuffer(buffer);
+    const material = document.createMaterial('Red').setBaseColorFactor([1, 0, 0, 1]);
+    const mesh = document.createMesh('Tri').addPrimitive(
+      document.createPrimitive().setAttribute('POSITION', position).setMaterial(material)
+    );
+    document.createScene('Scene').addChild(document.createNode('Tri').setMesh(mesh));
+
+    const glb = await new NodeIO().writeBinary(document);
+    const blob = await convertGlbToUsdz(glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer);
+    const report = await validateUsdz(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(report.issues).toEqual([]);
+    expect(report.valid).toBe(true);
+  });
+
+  it('reports input that is not a zip archive', async () => {
+    const report = await validateUsdz(new TextEncoder().encode(HEADER));
+
+    expect(report.valid).toBe(false);
+    expect(ruleIds(report)).toEqual(['zip.archive']);
+  });
+
+  it('checks alignment, file types and the first file', async () => {
+    const report = await validateUsdz(rename(archive([
+      ['textures/a.png', PNG],
+      ['notes.png', 'hello'],
+      ['model.usda', `${HEADER}def Xform "Root"\n{\n}\n`]
+    ], false), 'notes.png', 'notes.txt'));
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toContainEqual(expect.objectContaining({ ruleId: 'zip.firstLayer', path: 'textures/a.png' }));
+    expect(report.issues).toContainEqual(expect.objectContaining({ ruleId: 'zip.fileType', path: 'notes.txt' }));
+    expect(ruleIds(report)).toContain('zip.alignment');
+  });
+
+  it('reports compressed entries', async () => {
+    const bytes = archive([['model.usda', `${HEADER}def Xform "Root"\n{\n}\n`], ['textures/a.png', PNG]]);
+    // Mark the texture's central-directory record as DEFLATE
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let records = 0;
+    for (let offset = 0; offset + 4 <= bytes.length; offset++) {
+      if (view.getUint32(offset, true) === 0x02014b50 && ++records === 2) {
+        view.setUint16(offset + 10, 8, true);
+      }
+    }
+
+    const report = await validateUsdz(bytes);
+
+    expect(report.issues).toContainEqual(expect.objectContaining({
+      ruleId: 'zip.compression',
+      severity: 'error',
+      path: 'textures/a.png'
+    }));
+  });
+
+  it('checks defaultPrim, metersPerUnit and upAxis', async () => {
+    const missing = await validateUsdz(archive([['model.usda', '#usda 1.0\n\ndef Xform "Root"\n{\n}\n']]));
+    expect(ruleIds(missing)).toEqual(['stage.defaultPrim', 'stage.metersPerUnit', 'stage.upAxis']);
+
+    const dangling = await validateUsdz(archive([
+      ['model.usda', '#usda 1.0\n(\n    defaultPrim = "Model"\n    metersPerUnit = 1\n    upAxis = "X"\n)\n\ndef Xform "Root"\n{\n}\n']
+    ]));
+    expect(dangling.issues).toEqual([
+      expect.objectContaining({ ruleId: 'stage.defaultPrim', message: 'defaultPrim "Model" is not a root prim of the layer' }),
+      expect.objectContaining({ ruleId: 'stage.upAxis', message: 'upAxis must be Y or Z, got X' })
+    ]);
+  });
+
+  it('checks bindings, textures, skeletons and extents', async () => {
+    const layer = `${HEADER}
+def Xform "Root"
+{
+    def Mesh "Plain" (
+        prepend apiSchemas = ["MaterialBindingAPI"]
+    )
+    {
+        point3f[] points = [(0, 0, 0), (2, 0, 0), (0, 1, 0)]
+        float3[] extent = [(0, 0, 0), (1, 1, 0)]
+        rel material:binding = </Root/Looks/Missing>
+    }
+
+    def Mesh "Skinned" (
+        prepend apiSchemas = ["SkelBindingAPI"]
+    )
+    {
+        point3f[] points = [(0, 0, 0)]
+        float3[] extent = [(0, 0, 0), (0, 0, 0)]
+        rel skel:skeleton = </Root/Looks>
+    }
+
+    def Scope "Looks"
+    {
+        def Material "Mat"
+        {
+            def Shader "Tex"
+            {
+                uniform token info:id = "UsdUVTexture"
+                asset inputs:file = @textures/a.jpg@
+            }
+
+            def Shader "Gone"
+            {
+                uniform token info:id = "UsdUVTexture"
+                asset inputs:file = @textures/gone.png@
+            }
+
+            def Shader "Web"
+            {
+                uniform token info:id = "UsdUVTexture"
+                asset inputs:file = @textures/b.webp@
+            }
+        }
+    }
+}
+`;
+    const report = await validateUsdz(archive([['model.usda', layer], ['textures/a.jpg', PNG]]));
+
+    expect(report.issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ ruleId: 'material.binding', severity: 'error', path: '/Root/Plain' }),
+      expect.objectContaining({ ruleId: 'geom.extent', severity: 'warning', path: '/Root/Plain' }),
+      expect.objectContaining({ ruleId: 'skel.binding', severity: 'error', path: '/Root/Skinned' }),
+      expect.objectContaining({ ruleId: 'skel.root', severity: 'error', path: '/Root/Skinned' }),
+      expect.objectContaining({ ruleId: 'texture.format', message: 'Texture textures/a.jpg holds PNG data' }),
+      expect.objectContaining({ ruleId: 'texture.missing', path: '/Root/Looks/Mat/Gone' }),
+      expect.objectContaining({ ruleId: 'texture.format', path: '/Root/Looks/Mat/Web' })
+    ]));
+    expect(report.issues).toHaveLength(7);
+    expect(report.errorCount).toBe(6);
+    expect(report.warningCount).toBe(1);
+  });
+});
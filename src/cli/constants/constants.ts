@@ -1,33 +1,72 @@
 const pkg = JSON.parse(require("fs").readFileSync(require("path").resolve(process.cwd(), "package.json"), "utf-8")) as { version: string }
 export const CLI_VERSION: string = pkg.version
 
-export const SUPPORTED_EXTENSIONS = [".glb", ".gltf", ".obj", ".fbx", ".stl", ".ply"] as const
+export const SUPPORTED_EXTENSIONS = [".glb", ".gltf", ".obj", ".fbx", ".stl", ".ply", ".3mf"] as const
+
+export const USD_EXTENSIONS = [".usdz", ".usda", ".usdc", ".usd"] as const
+
+export const OUTPUT_TARGETS = ["usdz", "glb"] as const
+
+export type OutputTarget = typeof OUTPUT_TARGETS[number]
+
+export const COMMANDS = ["convert", "inspect", "info", "validate"] as const
+
+export type CliCommand = typeof COMMANDS[number]
 
 export const DEFAULT_OUTPUT_EXTENSION = ".usdz"
 
 export const HELP_TEXT = `webusd - Convert 3D models to USDZ format
 
 Usage:
-  webusd <input> [options]
+  webusd [convert] <input> [options]
+  webusd [convert] <dir | glob | files...> [-o <out-dir>] [-j <n>] [options]
+  webusd [convert] <file.usdz> --to glb [-o <file.glb>]
+  webusd inspect <file.usdz> [--json]
+  webusd info <model> [--json]
+  webusd validate <file.usdz> [--json]
+
+Commands:
+  convert                  Convert models to USDZ (the default command), or a
+                           .usdz / .usda / .usdc file back to GLB with --to glb
+  inspect <file.usdz>      List the archive's files and print the layer metadata
+                           and prim tree (.usda / .usdc layers are accepted too)
+  info <model>             Report meshes, materials, textures, animations and
+                           bounds of a source model before converting it
+  validate <file.usdz>     Check an archive against the USDZ / ARKit rules
+                           (exits 1 when any error-severity issue is found)
 
 Arguments:
-  input                    Path to the input file (.glb, .gltf, .obj, .fbx, .stl, .ply)
+  input                    Path to the input file (.glb, .gltf, .obj, .fbx, .stl, .ply, .3mf)
+                           A directory, glob or several files converts every
+                           supported file, mirroring the tree into --output
 
 Options:
-  -o, --output <path>      Output file path (default: <input>.usdz)
+  -o, --output <path>      Output file path (default: <input>.usdz, <input>.glb with --to glb)
+                           Output directory in batch mode (default: output)
+  -j, --jobs <n>           Concurrent conversions in batch mode (default: CPU count)
   -d, --debug              Enable debug mode with intermediate files
-  --decimate <n>           Target face count for mesh decimation (PLY only, 0 = off)
+  --decimate <n>           Target triangle count for the whole model (0 = off)
+  --decimate-ratio <r>     Fraction of triangles to keep, 0-1 (1 = off)
   --up-axis <Y|Z>          Up axis (default: Y)
   --meters-per-unit <n>    Scene scale (default: 1)
+  --to <usdz|glb>          Output format (default: usdz); glb reads one USD file
+  --json                   Print the command's result as JSON on stdout
+                           (logs go to stderr)
   -h, --help               Show this help message
   -v, --version            Show version
 
 Supported Formats:
-  GLB, GLTF, OBJ, FBX, STL, PLY
+  GLB, GLTF, OBJ, FBX, STL, PLY, 3MF
 
 Examples:
   webusd model.glb
   webusd model.glb -o output.usdz -d
   webusd scan.ply --decimate 500000
-  webusd ./stl-folder/
-`.trim()
\ No newline at end of file
+  webusd model.glb --decimate-ratio 0.25
+  webusd ./assets/ -o ./usdz/ -j 8
+  webusd "assets/**/*.{glb,obj}" -o ./usdz/
+  webusd model.usdz --to glb
+  webusd info model.glb
+  webusd inspect model.usdz --json
+  webusd validate model.usdz --json
+`.trim()
@@ -1,6 +1,11 @@
 export {
   CLI_VERSION,
   SUPPORTED_EXTENSIONS,
+  USD_EXTENSIONS,
+  COMMANDS,
+  type CliCommand,
+  OUTPUT_TARGETS,
+  type OutputTarget,
   DEFAULT_OUTPUT_EXTENSION,
   HELP_TEXT,
 } from "./constants"
\ No newline at end of file
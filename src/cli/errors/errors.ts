@@ -7,4 +7,9 @@ export class CliConfigError extends Data.TaggedError("CliConfigError")<{
 export class ConversionError extends Data.TaggedError("ConversionError")<{
   readonly message: string
   readonly cause?: unknown
+}> {}
+
+export class ValidationError extends Data.TaggedError("ValidationError")<{
+  readonly message: string
+  readonly errorCount: number
 }> {}
\ No newline at end of file
@@ -1 +1 @@
-export { CliConfigError, ConversionError } from "./errors"
\ No newline at end of file
+export { CliConfigError, ConversionError, ValidationError } from "./errors"
\ No newline at end of file
@@ -4,10 +4,21 @@ export type { CliLoggerShape } from "./services/CliLogger"
 export { CliLogger, CliLoggerLive } from "./services/CliLogger"
 export type { ConverterShape } from "./services/Converter"
 export { Converter, ConverterLive } from "./services/Converter"
-export type { CliConfigError, ConversionError } from "./errors"
+export type { BatchConverterShape, BatchJob, BatchResult } from "./services/BatchConverter"
+export { BatchConverter, BatchConverterLive, planBatchJobs } from "./services/BatchConverter"
+export type { InspectorShape, InspectReport, InspectEntry, InspectPrim } from "./services/Inspector"
+export { Inspector, InspectorLive } from "./services/Inspector"
+export type { InfoReporterShape } from "./services/InfoReporter"
+export { InfoReporter, InfoReporterLive } from "./services/InfoReporter"
+export type { ValidatorShape } from "./services/Validator"
+export { Validator, ValidatorLive } from "./services/Validator"
+export type { CliConfigError, ConversionError, ValidationError } from "./errors"
 export {
   CLI_VERSION,
   SUPPORTED_EXTENSIONS,
+  USD_EXTENSIONS,
+  COMMANDS,
+  type CliCommand,
   DEFAULT_OUTPUT_EXTENSION,
   HELP_TEXT,
 } from "./constants"
\ No newline at end of file
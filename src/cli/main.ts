@@ -1,18 +1,52 @@
 import { Effect, Layer } from "effect"
-import { CliConfigLive } from "./services/CliConfig"
+import { CliConfig, CliConfigLive } from "./services/CliConfig"
 import { CliLoggerLive } from "./services/CliLogger"
 import { Converter, ConverterLive } from "./services/Converter"
-import { CliConfigError, ConversionError } from "./errors"
+import { BatchConverter, BatchConverterLive } from "./services/BatchConverter"
+import { Inspector, InspectorLive } from "./services/Inspector"
+import { InfoReporter, InfoReporterLive } from "./services/InfoReporter"
+import { Validator, ValidatorLive } from "./services/Validator"
+import { CliConfigError, ConversionError, ValidationError } from "./errors"
 import { CLI_VERSION } from "./constants"
 
 const AppConfigLive = Layer.merge(CliConfigLive, CliLoggerLive)
 
-const MainLive = ConverterLive.pipe(
+const MainLive = Layer.mergeAll(
+  ConverterLive,
+  BatchConverterLive,
+  InspectorLive,
+  InfoReporterLive,
+  ValidatorLive,
+  CliConfigLive,
+).pipe(
   Layer.provide(AppConfigLive),
   Layer.provide(CliConfigLive),
 )
 
 const program = Effect.gen(function* () {
+  const config = yield* CliConfig
+  switch (config.command) {
+    case "inspect": {
+      const inspector = yield* Inspector
+      yield* inspector.run
+      return
+    }
+    case "info": {
+      const infoReporter = yield* InfoReporter
+      yield* infoReporter.run
+      return
+    }
+    case "validate": {
+      const validator = yield* Validator
+      yield* validator.run
+      return
+    }
+  }
+  if (config.batch) {
+    const batchConverter = yield* BatchConverter
+    yield* batchConverter.run
+    return
+  }
   const converter = yield* Converter
   yield* converter.run
 })
@@ -25,6 +59,11 @@ const runnable = program.pipe(
       process.exit(e.message.includes("Usage:") || e.message.startsWith(`webusd ${CLI_VERSION}`) ? 0 : 1)
     }),
   ),
+  Effect.catchTag("ValidationError", (_e: ValidationError) =>
+    Effect.sync(() => {
+      process.exit(1)
+    }),
+  ),
   Effect.catchTag("ConversionError", (e: ConversionError) =>
     Effect.sync(() => {
       console.error(`Error: ${e.message}`)
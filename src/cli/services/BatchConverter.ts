@@ -0,0 +1,218 @@
+/**
+ * BatchConverter Service
+ *
+ * Converts directories, globs and file lists of mixed formats. Each file is
+ * converted by a child `webusd` process so a crash or leak in one conversion
+ * cannot take down the batch; `--jobs` processes run at a time.
+ * Depends on CliConfig and CliLogger.
+ */
+
+import { Effect, Context, Layer } from "effect"
+import { spawn } from "child_process"
+import * as fs from "fs"
+import * as path from "path"
+import { CliConfig, type CliConfigShape } from "./CliConfig"
+import { CliLogger } from "./CliLogger"
+import { ConversionError } from "../errors"
+import { SUPPORTED_EXTENSIONS, DEFAULT_OUTPUT_EXTENSION } from "../constants"
+import { expandGlob, findFilesByExtension, getGlobBase, isDirectory, isGlobInput } from "../../utils/file-utils"
+
+/**
+ * One source file and where its output goes
+ */
+export interface BatchJob {
+  readonly source: string
+  /** Source path relative to the input it was found under */
+  readonly relativePath: string
+  readonly output: string
+}
+
+export interface BatchResult extends BatchJob {
+  readonly ok: boolean
+  readonly seconds: number
+  readonly error?: string
+}
+
+export interface BatchConverterShape {
+  readonly run: Effect.Effect<ReadonlyArray<BatchResult>, ConversionError>
+}
+
+export class BatchConverter extends Context.Tag("BatchConverter")<
+  BatchConverter,
+  BatchConverterShape
+>() {}
+
+/**
+ * Expand directory, glob and file inputs into jobs that mirror each input's
+ * tree under `outputDir`.
+ *
+ * Directories are searched recursively for supported formats and globs are
+ * relative to their leading directory; plain files keep their own name.
+ * When two sources would write the same `.usdz` (`chair.glb` and `chair.obj`),
+ * both keep their source extension (`chair.glb.usdz`, `chair.obj.usdz`).
+ */
+export function planBatchJobs(inputPaths: ReadonlyArray<string>, outputDir: string): BatchJob[] {
+  const supported = SUPPORTED_EXTENSIONS as readonly string[]
+  const sources = new Map<string, string>()
+
+  for (const input of inputPaths) {
+    let base: string
+    let files: string[]
+    if (isGlobInput(input)) {
+      base = path.resolve(getGlobBase(input))
+      files = expandGlob(input).filter(file => supported.includes(path.extname(file).toLowerCase()))
+    } else if (isDirectory(input)) {
+      base = path.resolve(input)
+      files = findFilesByExtension(input, supported)
+    } else {
+      base = path.dirname(path.resolve(input))
+      files = [path.resolve(input)]
+    }
+    for (const file of files) {
+      if (!sources.has(file)) sources.set(file, path.relative(base, file))
+    }
+  }
+
+  const stem = (relativePath: string) => relativePath.replace(/\.[^./\\]+$/, "").toLowerCase()
+  const stemCounts = new Map<string, number>()
+  for (const relativePath of sources.values()) {
+    stemCounts.set(stem(relativePath), (stemCounts.get(stem(relativePath)) ?? 0) + 1)
+  }
+
+  return [...sources].map(([source, relativePath]) => {
+    const name = stemCounts.get(stem(relativePath))! > 1
+      ? relativePath
+      : relativePath.replace(/\.[^./\\]+$/, "")
+    return { source, relativePath, output: path.resolve(outputDir, `${name}${DEFAULT_OUTPUT_EXTENSION}`) }
+  })
+}
+
+/**
+ * CLI arguments that convert one job with the batch's settings
+ */
+function workerArgs(job: BatchJob, config: CliConfigShape): string[] {
+  return [
+    job.source,
+    "--output", job.output,
+    "--up-axis", config.upAxis,
+    "--meters-per-unit", String(config.metersPerUnit),
+    ...(config.decimateTarget > 0 ? ["--decimate", String(config.decimateTarget)] : []),
+    ...(config.decimateRatio < 1 ? ["--decimate-ratio", String(config.decimateRatio)] : []),
+    ...(config.debug ? ["--debug"] : []),
+  ]
+}
+
+/**
+ * Pick the error (and cause) a failed worker reported
+ */
+function workerError(stderr: string, code: number | null): string {
+  const lines = stderr.split("\n").map(line => line.trim()).filter(Boolean)
+  const error = lines.find(line => line.startsWith("Error:"))
+  const cause = lines.find(line => line.startsWith("Cause:"))
+  if (!error) return lines[lines.length - 1] ?? `exited with code ${code}`
+  return cause ? `${error.slice("Error:".length).trim()} (${cause.slice("Cause:".length).trim()})` : error.slice("Error:".length).trim()
+}
+
+export const BatchConverterLive: Layer.Layer<BatchConverter, never, CliConfig | CliLogger> = Layer.effect(
+  BatchConverter,
+  Effect.gen(function* () {
+    const config = yield* CliConfig
+    const logger = yield* CliLogger
+
+    // Re-run this CLI entry point (with the same loader flags) for each file
+    const entryPoint = process.argv[1] ?? ""
+
+    const convertOne = (job: BatchJob) =>
+      Effect.async<BatchResult>((resume) => {
+        const startTime = Date.now()
+        const done = (ok: boolean, error?: string) =>
+          resume(Effect.succeed({
+            ...job,
+            ok,
+            seconds: (Date.now() - startTime) / 1000,
+            ...(error !== undefined ? { error } : {}),
+          }))
+
+        try {
+          fs.mkdirSync(path.dirname(job.output), { recursive: true })
+        } catch (e) {
+          done(false, `Cannot create output directory: ${e instanceof Error ? e.message : String(e)}`)
+          return
+        }
+
+        const child = spawn(process.execPath, [...process.execArgv, entryPoint, ...workerArgs(job, config)], {
+          stdio: ["ignore", "pipe", "pipe"],
+        })
+        let stdout = ""
+        let stderr = ""
+        child.stdout.on("data", (chunk) => { stdout += chunk })
+        child.stderr.on("data", (chunk) => { stderr += chunk })
+        child.on("error", (e) => done(false, e.message))
+        child.on("close", (code) => {
+          if (config.debug && stdout) Effect.runSync(logger.print(stdout.trimEnd()))
+          done(code === 0, code === 0 ? undefined : workerError(stderr, code))
+        })
+
+        return Effect.sync(() => {
+          child.kill()
+        })
+      })
+
+    return {
+      run: Effect.gen(function* () {
+        const outputDir = path.resolve(config.outputPath)
+        const jobs = yield* Effect.try({
+          try: () => planBatchJobs(config.inputPaths, outputDir),
+          catch: (e) => new ConversionError({ message: "Failed to collect batch inputs", cause: e }),
+        })
+
+        if (jobs.length === 0) {
+          return yield* Effect.fail(new ConversionError({
+            message: `No ${SUPPORTED_EXTENSIONS.join(", ")} files found in: ${config.inputPaths.join(" ")}`,
+          }))
+        }
+
+        yield* logger.info(`Batch: ${jobs.length} files -> ${outputDir} (${config.jobs} jobs)`)
+        const startTime = Date.now()
+
+        const results = yield* Effect.forEach(
+          jobs,
+          (job) =>
+            convertOne(job).pipe(
+              Effect.tap((result) =>
+                result.ok
+                  ? logger.success(`OK   ${result.relativePath} (${result.seconds.toFixed(1)}s)`)
+                  : logger.error(`FAIL ${result.relativePath}: ${result.error}`),
+              ),
+            ),
+          { concurrency: config.jobs },
+        )
+
+        const failed = results.filter((result) => !result.ok)
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
+        yield* logger.info(`Converted ${results.length - failed.length}/${results.length} files in ${elapsed}s`)
+        if (config.json) {
+          yield* logger.json({
+            outputDir,
+            total: results.length,
+            succeeded: results.length - failed.length,
+            failed: failed.length,
+            seconds: Number(elapsed),
+            results,
+          })
+        }
+
+        if (failed.length > 0) {
+          for (const result of failed) {
+            yield* logger.error(`  ${result.relativePath}: ${result.error}`)
+          }
+          return yield* Effect.fail(new ConversionError({
+            message: `${failed.length} of ${results.length} conversions failed`,
+          }))
+        }
+
+        return results
+      }),
+    }
+  })
+)
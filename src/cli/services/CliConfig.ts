@@ -1,15 +1,30 @@
 import { Effect, Context, Layer } from "effect"
+import { availableParallelism } from "os"
+import { isDirectory, isGlobInput } from "../../utils/file-utils"
 import { CliConfigError } from "../errors"
-import { CLI_VERSION, SUPPORTED_EXTENSIONS, HELP_TEXT } from "../constants"
+import { CLI_VERSION, SUPPORTED_EXTENSIONS, USD_EXTENSIONS, COMMANDS, OUTPUT_TARGETS, HELP_TEXT, type CliCommand, type OutputTarget } from "../constants"
 
 export interface CliConfigShape {
+  readonly command: CliCommand
   readonly inputPath: string
+  /** Every positional input; more than one (or a directory / glob) selects batch mode */
+  readonly inputPaths: ReadonlyArray<string>
+  /** Output file, or the output directory in batch mode */
   readonly outputPath: string
+  readonly batch: boolean
+  /** Output format: USDZ from a model, or GLB from a USD file */
+  readonly target: OutputTarget
+  /** Concurrent conversions in batch mode */
+  readonly jobs: number
   readonly format: string
   readonly debug: boolean
+  /** Target triangle count for decimation (0 = off) */
   readonly decimateTarget: number
+  /** Fraction of triangles to keep (1 = off) */
+  readonly decimateRatio: number
   readonly upAxis: "Y" | "Z"
   readonly metersPerUnit: number
+  readonly json: boolean
 }
 
 export class CliConfig extends Context.Tag("CliConfig")<
@@ -19,9 +34,12 @@ export class CliConfig extends Context.Tag("CliConfig")<
 
 function parseArgs(argv: ReadonlyArray<string>): Effect.Effect<CliConfigShape, CliConfigError> {
   return Effect.gen(function* () {
-    const args = argv.slice(2)
+    // `webusd <input>` is shorthand for `webusd convert <input>`
+    const explicitCommand = (COMMANDS as readonly string[]).includes(argv[2] ?? "")
+    const command = (explicitCommand ? argv[2] : "convert") as CliCommand
+    const args = argv.slice(explicitCommand ? 3 : 2)
 
-    if (args.length === 0 || args.includes("-h") || args.includes("--help")) {
+    if ((args.length === 0 && !explicitCommand) || args.includes("-h") || args.includes("--help")) {
       return yield* Effect.fail(new CliConfigError({ message: HELP_TEXT }))
     }
 
@@ -29,12 +47,16 @@ function parseArgs(argv: ReadonlyArray<string>): Effect.Effect<CliConfigShape, C
       return yield* Effect.fail(new CliConfigError({ message: `webusd ${CLI_VERSION}` }))
     }
 
-    let inputPath = ""
+    const inputPaths: string[] = []
     let outputPath = ""
+    let jobs = availableParallelism()
     let debug = false
     let decimateTarget = 0
+    let decimateRatio = 1
     let upAxis: "Y" | "Z" = "Y"
     let metersPerUnit = 1
+    let json = false
+    let target: OutputTarget = "usdz"
 
     for (let i = 0; i < args.length; i++) {
       const arg = args[i]!
@@ -59,6 +81,15 @@ function parseArgs(argv: ReadonlyArray<string>): Effect.Effect<CliConfigShape, C
           decimateTarget = Math.floor(n)
           break
         }
+        case "--decimate-ratio": {
+          const val = args[++i]
+          const n = Number(val)
+          if (!val || isNaN(n) || n <= 0 || n > 1) {
+            return yield* Effect.fail(new CliConfigError({ message: "Invalid value for --decimate-ratio (must be > 0 and <= 1)" }))
+          }
+          decimateRatio = n
+          break
+        }
         case "--up-axis": {
           const val = args[++i]
           if (val !== "Y" && val !== "Z") {
@@ -76,43 +107,129 @@ function parseArgs(argv: ReadonlyArray<string>): Effect.Effect<CliConfigShape, C
           metersPerUnit = n
           break
         }
+        case "-j":
+        case "--jobs": {
+          const val = args[++i]
+          const n = Number(val)
+          if (!val || !Number.isInteger(n) || n < 1) {
+            return yield* Effect.fail(new CliConfigError({ message: "Invalid value for --jobs (must be an integer >= 1)" }))
+          }
+          jobs = n
+          break
+        }
+        case "--to": {
+          const val = args[++i]
+          if (!(OUTPUT_TARGETS as readonly string[]).includes(val ?? "")) {
+            return yield* Effect.fail(new CliConfigError({ message: `Invalid value for --to (must be ${OUTPUT_TARGETS.join(" or ")})` }))
+          }
+          target = val as OutputTarget
+          break
+        }
+        case "--json":
+          json = true
+          break
         default:
           if (arg.startsWith("-")) {
             return yield* Effect.fail(new CliConfigError({ message: `Unknown option: ${arg}` }))
           }
-          inputPath = arg
+          inputPaths.push(arg)
       }
     }
 
+    const inputPath = inputPaths[0] ?? ""
     if (!inputPath) {
       return yield* Effect.fail(new CliConfigError({ message: "No input file specified. Run webusd --help for usage." }))
     }
 
-    const ext = inputPath.toLowerCase().slice(inputPath.lastIndexOf("."))
+    const extensionOf = (file: string) => {
+      const dot = file.lastIndexOf(".")
+      return dot > Math.max(file.lastIndexOf("/"), file.lastIndexOf("\\")) ? file.slice(dot).toLowerCase() : ""
+    }
+
+    if (command !== "convert") {
+      const accepted: readonly string[] = command === "validate"
+        ? [".usdz"]
+        : command === "inspect" ? USD_EXTENSIONS : SUPPORTED_EXTENSIONS
+      if (!accepted.includes(extensionOf(inputPath))) {
+        return yield* Effect.fail(new CliConfigError({
+          message: `webusd ${command} expects a ${accepted.join(", ")} file: ${inputPath}`
+        }))
+      }
+      return {
+        command,
+        inputPath,
+        inputPaths,
+        outputPath: "",
+        batch: false,
+        target,
+        jobs,
+        format: extensionOf(inputPath),
+        debug,
+        decimateTarget,
+        decimateRatio,
+        upAxis,
+        metersPerUnit,
+        json,
+      }
+    }
+
+    if (target === "glb") {
+      if (inputPaths.length > 1 || !(USD_EXTENSIONS as readonly string[]).includes(extensionOf(inputPath))) {
+        return yield* Effect.fail(new CliConfigError({
+          message: `webusd --to glb expects one ${USD_EXTENSIONS.join(", ")} file: ${inputPaths.join(" ")}`
+        }))
+      }
+      return {
+        command,
+        inputPath,
+        inputPaths,
+        outputPath: outputPath || `${inputPath.replace(/\.[^.]+$/, "")}.glb`,
+        batch: false,
+        target,
+        jobs,
+        format: extensionOf(inputPath),
+        debug,
+        decimateTarget,
+        decimateRatio,
+        upAxis,
+        metersPerUnit,
+        json,
+      }
+    }
+
     const validExts = SUPPORTED_EXTENSIONS as readonly string[]
-    const isDirectory = !ext || !validExts.includes(ext)
 
-    if (!isDirectory && !validExts.includes(ext)) {
+    const batch = inputPaths.length > 1 ||
+      isGlobInput(inputPath) ||
+      (!validExts.includes(extensionOf(inputPath)) && isDirectory(inputPath))
+
+    if (!batch && !validExts.includes(extensionOf(inputPath))) {
       return yield* Effect.fail(new CliConfigError({
-        message: `Unsupported format: ${ext}\nSupported: ${SUPPORTED_EXTENSIONS.join(", ")}`
+        message: `Unsupported format: ${extensionOf(inputPath) || inputPath}\nSupported: ${SUPPORTED_EXTENSIONS.join(", ")}`
       }))
     }
 
-    const format = isDirectory ? ".stl" : ext
+    const format = batch ? "" : extensionOf(inputPath)
 
     if (!outputPath) {
-      const base = inputPath.replace(/\.[^.]+$/, "")
-      outputPath = `${base}.usdz`
+      outputPath = batch ? "output" : `${inputPath.replace(/\.[^.]+$/, "")}.usdz`
     }
 
     return {
+      command,
       inputPath,
+      inputPaths,
       outputPath,
+      batch,
+      target,
+      jobs,
       format,
       debug,
       decimateTarget,
+      decimateRatio,
       upAxis,
       metersPerUnit,
+      json,
     }
   })
 }
@@ -1,12 +1,15 @@
 /**
  * CliLogger Service
  *
- * Structured console logging for the CLI.
+ * Structured console logging for the CLI. `json` writes straight to stdout;
+ * in --json mode every other message, and the library's own logging run
+ * through `withLibraryLogs`, goes to stderr so stdout holds only the document.
  * Depends on CliConfig (Layer<CliLogger, never, CliConfig>).
  */
 
 import { Effect, Context, Layer } from "effect"
 import { CliConfig } from "./CliConfig"
+import { createLogSink, runWithLogSink, type LogTarget } from "../../utils/logger"
 
 export interface CliLoggerShape {
   readonly info: (message: string) => Effect.Effect<void>
@@ -14,6 +17,20 @@ export interface CliLoggerShape {
   readonly warn: (message: string) => Effect.Effect<void>
   readonly error: (message: string) => Effect.Effect<void>
   readonly debug: (message: string) => Effect.Effect<void>
+  readonly print: (message: string) => Effect.Effect<void>
+  readonly json: (value: unknown) => Effect.Effect<void>
+  /** Where the library should log: stderr in --json mode, else undefined (the console) */
+  readonly libraryTarget: LogTarget | undefined
+  /** Run `fn` with library logging sent to `libraryTarget` */
+  readonly withLibraryLogs: <T>(fn: () => T) => T
+}
+
+/** Library log target writing every level to stderr */
+const stderrTarget: LogTarget = {
+  debug: (message, ...args) => console.error(message, ...args),
+  info: (message, ...args) => console.error(message, ...args),
+  warn: (message, ...args) => console.error(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
 }
 
 export class CliLogger extends Context.Tag("CliLogger")<
@@ -25,6 +42,10 @@ export const CliLoggerLive: Layer.Layer<CliLogger, never, CliConfig> = Layer.eff
   CliLogger,
   Effect.gen(function* () {
     const config = yield* CliConfig
+    // stdout is reserved for the JSON document in --json mode
+    const out = (message: string) => (config.json ? console.error(message) : console.log(message))
+    const libraryTarget = config.json ? stderrTarget : undefined
+    const librarySink = createLogSink(libraryTarget)
 
     const timestamp = () => {
       const d = new Date()
@@ -34,11 +55,11 @@ export const CliLoggerLive: Layer.Layer<CliLogger, never, CliConfig> = Layer.eff
     return {
       info: (message: string) =>
         Effect.sync(() => {
-          console.log(`[${timestamp()}] ${message}`)
+          out(`[${timestamp()}] ${message}`)
         }),
       success: (message: string) =>
         Effect.sync(() => {
-          console.log(`[${timestamp()}] ${message}`)
+          out(`[${timestamp()}] ${message}`)
         }),
       warn: (message: string) =>
         Effect.sync(() => {
@@ -51,9 +72,19 @@ export const CliLoggerLive: Layer.Layer<CliLogger, never, CliConfig> = Layer.eff
       debug: (message: string) =>
         Effect.sync(() => {
           if (config.debug) {
-            console.log(`[${timestamp()}] DEBUG ${message}`)
+            out(`[${timestamp()}] DEBUG ${message}`)
           }
         }),
+      print: (message: string) =>
+        Effect.sync(() => {
+          out(message)
+        }),
+      json: (value: unknown) =>
+        Effect.sync(() => {
+          process.stdout.write(`${JSON.stringify(value, null, 2)}\n`)
+        }),
+      libraryTarget,
+      withLibraryLogs: <T>(fn: () => T): T => runWithLogSink(librarySink, fn),
     }
   })
 )
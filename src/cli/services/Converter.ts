@@ -2,7 +2,7 @@ import { Effect, Context, Layer } from "effect"
 import { CliConfig } from "./CliConfig"
 import { CliLogger } from "./CliLogger"
 import { ConversionError } from "../errors"
-import { defineConfig, convertPlyToUsdz } from "../../index"
+import { defineConfig, convertPlyToUsdz, convertUsdzToGlb } from "../../index"
 
 export interface ConverterShape {
   readonly run: Effect.Effect<string, ConversionError>
@@ -28,6 +28,9 @@ export const ConverterLive: Layer.Layer<Converter, never, CliConfig | CliLogger>
         if (config.decimateTarget > 0) {
           yield* logger.info(`Decimation target: ${config.decimateTarget} faces`)
         }
+        if (config.decimateRatio < 1) {
+          yield* logger.info(`Decimation ratio: ${config.decimateRatio}`)
+        }
 
         const startTime = Date.now()
 
@@ -55,39 +58,27 @@ export const ConverterLive: Layer.Layer<Converter, never, CliConfig | CliLogger>
           }))
         }
 
-        const stat = yield* Effect.try({
-          try: () => fs.statSync(resolvedInput),
-          catch: (e) => new ConversionError({ message: `Cannot stat input: ${resolvedInput}`, cause: e }),
-        })
-
         yield* logger.info(`Converting...`)
 
-        if (stat.isDirectory()) {
-          const usd = defineConfig({
-            debug: config.debug,
-            ...(config.debug ? { debugOutputDir: path.dirname(resolvedOutput) } : {}),
-            upAxis: config.upAxis,
-            metersPerUnit: config.metersPerUnit,
-          })
-
-          const result = yield* Effect.tryPromise({
-            try: () => usd.convert(resolvedInput),
+        if (config.target === "glb") {
+          const buffer = yield* Effect.tryPromise({
+            try: () => logger.withLibraryLogs(() => convertUsdzToGlb(resolvedInput)),
             catch: (e) => new ConversionError({
-              message: `Conversion failed for directory: ${resolvedInput}`,
+              message: `GLB export failed: ${resolvedInput}`,
               cause: e,
             }),
           })
 
-          if (result instanceof Blob) {
-            const buffer = yield* Effect.tryPromise({
-              try: () => result.arrayBuffer(),
-              catch: (e) => new ConversionError({ message: "Failed to read conversion result", cause: e }),
-            })
-            yield* Effect.try({
-              try: () => fs.writeFileSync(resolvedOutput, Buffer.from(buffer)),
-              catch: (e) => new ConversionError({ message: `Failed to write output: ${resolvedOutput}`, cause: e }),
-            })
-          }
+          yield* Effect.try({
+            try: () => {
+              const dir = path.dirname(resolvedOutput)
+              if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true })
+              }
+              fs.writeFileSync(resolvedOutput, Buffer.from(buffer))
+            },
+            catch: (e) => new ConversionError({ message: `Failed to write output: ${resolvedOutput}`, cause: e }),
+          })
         } else if (config.format === ".ply") {
           const inputBuffer = yield* Effect.try({
             try: () => {
@@ -98,13 +89,14 @@ export const ConverterLive: Layer.Layer<Converter, never, CliConfig | CliLogger>
           })
 
           const result = yield* Effect.tryPromise({
-            try: () => convertPlyToUsdz(inputBuffer, {
+            try: () => logger.withLibraryLogs(() => convertPlyToUsdz(inputBuffer, {
               decimateTarget: config.decimateTarget,
+              decimateRatio: config.decimateRatio,
               debug: config.debug,
               ...(config.debug ? { debugOutputDir: path.dirname(resolvedOutput) } : {}),
               upAxis: config.upAxis,
               metersPerUnit: config.metersPerUnit,
-            }),
+            })),
             catch: (e) => new ConversionError({
               message: `PLY conversion failed: ${resolvedInput}`,
               cause: e,
@@ -126,6 +118,9 @@ export const ConverterLive: Layer.Layer<Converter, never, CliConfig | CliLogger>
             ...(config.debug ? { debugOutputDir: path.dirname(resolvedOutput) } : {}),
             upAxis: config.upAxis,
             metersPerUnit: config.metersPerUnit,
+            decimateTarget: config.decimateTarget,
+            decimateRatio: config.decimateRatio,
+            ...(logger.libraryTarget ? { logger: logger.libraryTarget } : {}),
           })
 
           const result = yield* Effect.tryPromise({
@@ -162,6 +157,14 @@ export const ConverterLive: Layer.Layer<Converter, never, CliConfig | CliLogger>
 
         yield* logger.success(`Done in ${elapsed}s`)
         yield* logger.success(`Output: ${resolvedOutput} (${sizeMb} MB)`)
+        if (config.json) {
+          yield* logger.json({
+            input: resolvedInput,
+            output: resolvedOutput,
+            bytes: outputStat.size,
+            seconds: Number(elapsed),
+          })
+        }
 
         return resolvedOutput
       }),
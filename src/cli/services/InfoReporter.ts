@@ -0,0 +1,78 @@
+/**
+ * InfoReporter Service
+ *
+ * `webusd info`: summarizes a source model (meshes, materials, textures,
+ * animations, bounds) before conversion.
+ */
+
+import { Effect, Context, Layer } from "effect"
+import { CliConfig } from "./CliConfig"
+import { CliLogger } from "./CliLogger"
+import { ConversionError } from "../errors"
+import { getModelInfo, type ModelInfo } from "../../index"
+
+export interface InfoReporterShape {
+  readonly run: Effect.Effect<ModelInfo, ConversionError>
+}
+
+export class InfoReporter extends Context.Tag("InfoReporter")<
+  InfoReporter,
+  InfoReporterShape
+>() {}
+
+const formatVector = (v: ReadonlyArray<number>) => `(${v.map((n) => Number(n.toPrecision(6))).join(", ")})`
+
+export const InfoReporterLive: Layer.Layer<InfoReporter, never, CliConfig | CliLogger> = Layer.effect(
+  InfoReporter,
+  Effect.gen(function* () {
+    const config = yield* CliConfig
+    const logger = yield* CliLogger
+
+    return {
+      run: Effect.gen(function* () {
+        const info = yield* Effect.tryPromise({
+          try: () => logger.withLibraryLogs(() => getModelInfo(config.inputPath)),
+          catch: (e) => new ConversionError({ message: `Failed to read ${config.inputPath}`, cause: e }),
+        })
+
+        if (config.json) {
+          yield* logger.json(info)
+          return info
+        }
+
+        yield* logger.print(`${config.inputPath} (${info.format.toUpperCase()})`)
+        yield* logger.print(`  Vertices:  ${info.vertexCount}`)
+        yield* logger.print(`  Triangles: ${info.triangleCount}`)
+        yield* logger.print(`  Bounds:    ${info.bounds ? `${formatVector(info.bounds.min)} - ${formatVector(info.bounds.max)}` : "none"}`)
+
+        yield* logger.print(`Meshes (${info.meshes.length}):`)
+        for (const mesh of info.meshes) {
+          const materials = mesh.materials.length ? `  [${mesh.materials.join(", ")}]` : ""
+          yield* logger.print(`  ${mesh.name}: ${mesh.vertexCount} vertices, ${mesh.triangleCount} triangles${materials}`)
+        }
+
+        yield* logger.print(`Materials (${info.materials.length}):`)
+        for (const material of info.materials) {
+          yield* logger.print(`  ${material}`)
+        }
+
+        yield* logger.print(`Textures (${info.textures.length}):`)
+        for (const texture of info.textures) {
+          const details = [
+            texture.mimeType,
+            texture.width !== undefined ? `${texture.width}x${texture.height}` : undefined,
+            texture.byteLength !== undefined ? `${texture.byteLength} bytes` : "missing",
+          ].filter(Boolean)
+          yield* logger.print(`  ${texture.name} (${details.join(", ")})`)
+        }
+
+        yield* logger.print(`Animations (${info.animations.length}):`)
+        for (const animation of info.animations) {
+          yield* logger.print(`  ${animation.name}: ${animation.channels} channels, ${animation.duration.toFixed(2)}s`)
+        }
+
+        return info
+      }),
+    }
+  })
+)
@@ -0,0 +1,149 @@
+/**
+ * Inspector Service
+ *
+ * `webusd inspect`: lists a USDZ archive's files and prints the root layer's
+ * metadata and prim tree. Loose .usda / .usdc layers have no listing.
+ */
+
+import { Effect, Context, Layer } from "effect"
+import * as fs from "fs"
+import { CliConfig } from "./CliConfig"
+import { CliLogger } from "./CliLogger"
+import { ConversionError } from "../errors"
+import { readUsdz, type UsdNode } from "../../index"
+import { UsdzZipReader } from "../../converters/shared/usdz-zip-reader"
+
+/** Data of USDZ entries must start on this boundary */
+const USDZ_ALIGNMENT = 64
+
+export interface InspectEntry {
+  readonly name: string
+  readonly size: number
+  readonly offset: number
+  readonly aligned: boolean
+  readonly compressed: boolean
+}
+
+export interface InspectPrim {
+  readonly path: string
+  readonly type: string
+  /** Variant names per variant set, when the prim has any */
+  readonly variantSets?: Record<string, string[]>
+  readonly children: InspectPrim[]
+}
+
+export interface InspectReport {
+  readonly file: string
+  /** Null for loose layers */
+  readonly entries: InspectEntry[] | null
+  readonly layer: {
+    readonly name: string
+    readonly format: string
+    readonly metadata: Record<string, unknown>
+  }
+  readonly prims: InspectPrim[]
+}
+
+export interface InspectorShape {
+  readonly run: Effect.Effect<InspectReport, ConversionError>
+}
+
+export class Inspector extends Context.Tag("Inspector")<
+  Inspector,
+  InspectorShape
+>() {}
+
+function describePrim(node: UsdNode): InspectPrim {
+  const variantSets: Record<string, string[]> = {}
+  const children = [...node.getChildren()].map(describePrim)
+  for (const { name, variants } of node.getVariantSets()) {
+    variantSets[name] = [...variants.keys()]
+    for (const variant of variants.values()) {
+      children.push(...[...variant.getChildren()].map(describePrim))
+    }
+  }
+  return {
+    path: node.getPath(),
+    type: node.getTypeName(),
+    ...(Object.keys(variantSets).length > 0 ? { variantSets } : {}),
+    children,
+  }
+}
+
+function formatPrims(prims: InspectPrim[], depth = 0): string[] {
+  return prims.flatMap((prim) => {
+    const name = depth === 0 ? prim.path : prim.path.slice(prim.path.lastIndexOf("/") + 1)
+    const variants = Object.entries(prim.variantSets ?? {})
+      .map(([set, names]) => ` {${set} = ${names.join(" | ")}}`)
+      .join("")
+    return [
+      `${"  ".repeat(depth + 1)}${name}${prim.type ? ` (${prim.type})` : ""}${variants}`,
+      ...formatPrims(prim.children, depth + 1),
+    ]
+  })
+}
+
+export const InspectorLive: Layer.Layer<Inspector, never, CliConfig | CliLogger> = Layer.effect(
+  Inspector,
+  Effect.gen(function* () {
+    const config = yield* CliConfig
+    const logger = yield* CliLogger
+
+    return {
+      run: Effect.gen(function* () {
+        const bytes = yield* Effect.try({
+          try: () => new Uint8Array(fs.readFileSync(config.inputPath)),
+          catch: (e) => new ConversionError({ message: `Failed to read input: ${config.inputPath}`, cause: e }),
+        })
+
+        const result = yield* Effect.tryPromise({
+          try: () => logger.withLibraryLogs(() => readUsdz(bytes)),
+          catch: (e) => new ConversionError({ message: `Failed to read ${config.inputPath}`, cause: e }),
+        })
+
+        const entries = config.format !== ".usdz" ? null : yield* Effect.try({
+          try: () => new UsdzZipReader(bytes).entries.map((entry): InspectEntry => ({
+            name: entry.name,
+            size: entry.uncompressedSize,
+            offset: entry.dataOffset,
+            aligned: entry.dataOffset % USDZ_ALIGNMENT === 0,
+            compressed: entry.compressionMethod !== 0,
+          })),
+          catch: (e) => new ConversionError({ message: `Failed to list archive: ${config.inputPath}`, cause: e }),
+        })
+
+        const report: InspectReport = {
+          file: config.inputPath,
+          entries,
+          layer: { name: result.rootLayerName, format: result.layerFormat, metadata: result.layerMetadata },
+          prims: result.prims.map(describePrim),
+        }
+
+        if (config.json) {
+          yield* logger.json(report)
+          return report
+        }
+
+        if (entries) {
+          yield* logger.print(`Archive: ${config.inputPath} (${entries.length} files)`)
+          for (const entry of entries) {
+            const flags = [entry.aligned ? "" : "unaligned", entry.compressed ? "compressed" : ""].filter(Boolean)
+            yield* logger.print(
+              `  ${String(entry.offset).padStart(10)} ${String(entry.size).padStart(10)}  ${entry.name}${flags.length ? `  [${flags.join(", ")}]` : ""}`
+            )
+          }
+        }
+        yield* logger.print(`Layer: ${report.layer.name} (${report.layer.format})`)
+        for (const [key, value] of Object.entries(report.layer.metadata)) {
+          yield* logger.print(`  ${key} = ${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+        }
+        yield* logger.print("Prims:")
+        for (const line of formatPrims(report.prims)) {
+          yield* logger.print(line)
+        }
+
+        return report
+      }),
+    }
+  })
+)
@@ -0,0 +1,59 @@
+/**
+ * Validator Service
+ *
+ * Runs `validateUsdz` for `webusd validate` and prints the report.
+ * Fails with ValidationError when the archive has error-severity issues.
+ */
+
+import { Effect, Context, Layer } from "effect"
+import { CliConfig } from "./CliConfig"
+import { CliLogger } from "./CliLogger"
+import { ConversionError, ValidationError } from "../errors"
+import { validateUsdz, type UsdzValidationReport } from "../../index"
+
+export interface ValidatorShape {
+  readonly run: Effect.Effect<UsdzValidationReport, ConversionError | ValidationError>
+}
+
+export class Validator extends Context.Tag("Validator")<
+  Validator,
+  ValidatorShape
+>() {}
+
+export const ValidatorLive: Layer.Layer<Validator, never, CliConfig | CliLogger> = Layer.effect(
+  Validator,
+  Effect.gen(function* () {
+    const config = yield* CliConfig
+    const logger = yield* CliLogger
+
+    return {
+      run: Effect.gen(function* () {
+        yield* logger.info(`Validating: ${config.inputPath}`)
+
+        const report = yield* Effect.tryPromise({
+          try: () => logger.withLibraryLogs(() => validateUsdz(config.inputPath)),
+          catch: (e) => new ConversionError({ message: `Cannot read input: ${config.inputPath}`, cause: e }),
+        })
+
+        if (config.json) {
+          yield* logger.json(report)
+        } else {
+          for (const issue of report.issues) {
+            const line = `${issue.ruleId} ${issue.path ? `${issue.path}: ` : ""}${issue.message}`
+            yield* issue.severity === "error" ? logger.error(line) : logger.warn(line)
+          }
+          const summary = `${report.errorCount} error(s), ${report.warningCount} warning(s)`
+          yield* report.valid ? logger.success(`Valid: ${summary}`) : logger.error(`Invalid: ${summary}`)
+        }
+
+        if (!report.valid) {
+          return yield* Effect.fail(new ValidationError({
+            message: `${config.inputPath} failed validation`,
+            errorCount: report.errorCount,
+          }))
+        }
+        return report
+      }),
+    }
+  })
+)
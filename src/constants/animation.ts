@@ -28,5 +28,16 @@ export const ANIMATION = {
    * This prevents floating point precision issues.
    */
   SNAP_TIME_CODE_TOL: 0.001 / 120.0,
+
+  /**
+   * Samples per second used to bake CUBICSPLINE curves into linear keys.
+   */
+  BAKE_RATE: 60,
+
+  /**
+   * Default error bound for keyframe reduction after resampling.
+   * Scene units for translation, scale and weights; radians for rotation.
+   */
+  RESAMPLE_TOLERANCE: 1e-4,
 } as const;
 
@@ -13,5 +13,11 @@ export const SKELETON = {
    * Most GLTF models use 4 joint influences per vertex.
    */
   JOINTS_PER_VERTEX: 4,
+
+  /**
+   * Largest skeleton ARKit Quick Look skins on device.
+   * Used as the default `maxJoints` of the skinning joint budget.
+   */
+  ARKIT_MAX_JOINTS: 256,
 } as const;
 
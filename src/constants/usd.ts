@@ -9,6 +9,8 @@ export const USD_NODE_TYPES = {
   MESH: 'Mesh',
   MATERIAL: 'Material',
   SHADER: 'Shader',
+  CAMERA: 'Camera',
+  POINT_INSTANCER: 'PointInstancer',
 } as const;
 
 /**
@@ -70,6 +72,30 @@ export const USD_PROPERTY_TYPES = {
   FLOAT: 'float',
 } as const;
 
+/**
+ * UsdGeom Camera Constants
+ * Apertures and focal length are expressed in tenths of a scene unit.
+ */
+export const USD_CAMERA = {
+  PROJECTION_PERSPECTIVE: 'perspective',
+  PROJECTION_ORTHOGRAPHIC: 'orthographic',
+  DEFAULT_HORIZONTAL_APERTURE: 20.955,
+  DEFAULT_VERTICAL_APERTURE: 15.2908,
+  APERTURE_UNIT: 0.1,
+  INFINITE_FAR_CLIP: 1000000,
+} as const;
+
+/**
+ * UsdLux Constants
+ * Point and spot lights become SphereLights of DEFAULT_SPHERE_RADIUS meters.
+ */
+export const USD_LIGHT = {
+  DISTANT_LIGHT: 'DistantLight',
+  SPHERE_LIGHT: 'SphereLight',
+  DEFAULT_SPHERE_RADIUS: 0.01,
+  PURPOSE_GUIDE: 'guide',
+} as const;
+
 /**
  * ZIP Version Constants
  */
@@ -0,0 +1,438 @@
+/** WebUsdFramework.Converters.Fbx.FbxParser - Reads binary and ASCII FBX files into a node tree */
+
+import { inflateSync } from 'node:zlib';
+
+/**
+ * Value of one FBX node property.
+ *
+ * Integers beyond the safe range (64-bit object ids) stay bigint; numeric
+ * arrays keep their stored type, and `R` raw data is a Uint8Array.
+ */
+export type FbxProperty =
+  | number
+  | bigint
+  | boolean
+  | string
+  | Uint8Array
+  | Int32Array
+  | Float32Array
+  | Float64Array;
+
+/**
+ * FBX node record
+ */
+export interface FbxNode {
+  name: string;
+  properties: FbxProperty[];
+  children: FbxNode[];
+}
+
+/**
+ * Parsed FBX file
+ */
+export interface FbxFile {
+  format: 'binary' | 'ascii';
+  /** File version, e.g. 7400 for FBX 2014/2015 */
+  version: number;
+  nodes: FbxNode[];
+}
+
+const BINARY_MAGIC = 'Kaydara FBX Binary  \0';
+const BINARY_HEADER_SIZE = 27;
+
+/** Files from this version on use 64-bit record offsets */
+const BINARY_64BIT_VERSION = 7500;
+
+/** Oldest version with id-based objects and connections */
+const MIN_SUPPORTED_VERSION = 7000;
+
+/**
+ * Parse an FBX file. Binary files are detected by their magic; anything
+ * else is read as ASCII.
+ *
+ * Object names are normalized to the ASCII `Class::Name` form in both formats.
+ */
+export function parseFbx(buffer: ArrayBuffer | Uint8Array): FbxFile {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const file = isBinaryFbx(bytes) ? parseBinaryFbx(bytes) : parseAsciiFbx(bytes);
+  if (file.version < MIN_SUPPORTED_VERSION) {
+    throw new Error(`FBX ${file.version} files are not supported; re-export as FBX 7.x (2011 or newer)`);
+  }
+  return file;
+}
+
+/**
+ * Find the first direct child with the given name
+ */
+export function findChild(node: FbxNode | undefined, name: string): FbxNode | undefined {
+  return node?.children.find((child) => child.name === name);
+}
+
+/**
+ * List the direct children with the given name
+ */
+export function findChildren(node: FbxNode | undefined, name: string): FbxNode[] {
+  return node ? node.children.filter((child) => child.name === name) : [];
+}
+
+/**
+ * First property of a named child, e.g. `Vertices` or `MappingInformationType`
+ */
+export function childValue(node: FbxNode | undefined, name: string): FbxProperty | undefined {
+  return findChild(node, name)?.properties[0];
+}
+
+/**
+ * Numeric array of a named child, e.g. `Vertices` or `KeyTime`
+ */
+export function childArray(node: FbxNode | undefined, name: string): ArrayLike<number> | undefined {
+  const value = childValue(node, name);
+  return ArrayBuffer.isView(value) ? (value as ArrayLike<number>) : undefined;
+}
+
+function isBinaryFbx(bytes: Uint8Array): boolean {
+  if (bytes.length < BINARY_HEADER_SIZE) return false;
+  for (let i = 0; i < BINARY_MAGIC.length; i++) {
+    if (bytes[i] !== BINARY_MAGIC.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Binary
+// ---------------------------------------------------------------------------
+
+class BinaryReader {
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder('utf-8');
+  offset = 0;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`FBX: unexpected end of file at byte ${this.offset}`);
+    }
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  i16(): number {
+    this.ensure(2);
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i64(): number | bigint {
+    this.ensure(8);
+    const value = this.view.getBigInt64(this.offset, true);
+    this.offset += 8;
+    return toSafeNumber(value);
+  }
+
+  u64(): number {
+    this.ensure(8);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return Number(value);
+  }
+
+  f32(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  slice(length: number): Uint8Array {
+    this.ensure(length);
+    const out = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  string(length: number): string {
+    return this.decoder.decode(this.slice(length));
+  }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+function parseBinaryFbx(bytes: Uint8Array): FbxFile {
+  const reader = new BinaryReader(bytes);
+  reader.offset = BINARY_HEADER_SIZE - 4;
+  const version = reader.u32();
+  const wide = version >= BINARY_64BIT_VERSION;
+
+  const nodes: FbxNode[] = [];
+  while (reader.offset < bytes.length) {
+    const node = readBinaryNode(reader, wide);
+    if (!node) break;
+    nodes.push(node);
+  }
+  return { format: 'binary', version, nodes };
+}
+
+/**
+ * Read one node record, or null for the empty record that ends a list
+ */
+function readBinaryNode(reader: BinaryReader, wide: boolean): FbxNode | null {
+  const endOffset = wide ? reader.u64() : reader.u32();
+  const propertyCount = wide ? reader.u64() : reader.u32();
+  // Property list byte length; properties are self-describing
+  if (wide) reader.u64();
+  else reader.u32();
+  const nameLength = reader.u8();
+
+  if (endOffset === 0) return null;
+
+  const name = reader.string(nameLength);
+  const properties: FbxProperty[] = [];
+  for (let i = 0; i < propertyCount; i++) {
+    properties.push(readBinaryProperty(reader));
+  }
+
+  const children: FbxNode[] = [];
+  while (reader.offset < endOffset) {
+    const child = readBinaryNode(reader, wide);
+    if (!child) break;
+    children.push(child);
+  }
+  reader.offset = endOffset;
+
+  return { name, properties, children };
+}
+
+function readBinaryProperty(reader: BinaryReader): FbxProperty {
+  const type = String.fromCharCode(reader.u8());
+  switch (type) {
+    case 'Y': return reader.i16();
+    case 'C': return reader.u8() !== 0;
+    case 'I': return reader.i32();
+    case 'F': return reader.f32();
+    case 'D': return reader.f64();
+    case 'L': return reader.i64();
+    case 'S': return normalizeObjectName(reader.string(reader.u32()));
+    case 'R': return Uint8Array.from(reader.slice(reader.u32()));
+    case 'f': return readBinaryArray(reader, 4, (data) => new Float32Array(data));
+    case 'd': return readBinaryArray(reader, 8, (data) => new Float64Array(data));
+    case 'i': return readBinaryArray(reader, 4, (data) => new Int32Array(data));
+    case 'b': return readBinaryArray(reader, 1, (data) => new Uint8Array(data));
+    case 'l': return readBinaryArray(reader, 8, (data) => Float64Array.from(new BigInt64Array(data), Number));
+    default:
+      throw new Error(`FBX: unknown property type '${type}' at byte ${reader.offset - 1}`);
+  }
+}
+
+function readBinaryArray<T extends FbxProperty>(
+  reader: BinaryReader,
+  elementSize: number,
+  create: (data: ArrayBuffer) => T
+): T {
+  const length = reader.u32();
+  const encoding = reader.u32();
+  const byteLength = reader.u32();
+  const stored = reader.slice(byteLength);
+
+  let data: Uint8Array;
+  if (encoding === 0) {
+    data = stored;
+  } else if (encoding === 1) {
+    data = inflateSync(stored);
+  } else {
+    throw new Error(`FBX: unknown array encoding ${encoding}`);
+  }
+  if (data.length < length * elementSize) {
+    throw new Error(`FBX: array data too short (${data.length} bytes for ${length} elements)`);
+  }
+
+  // Copy into an aligned buffer for the typed array view (Buffer#slice
+  // would share the inflate or input pool)
+  const aligned = new Uint8Array(length * elementSize);
+  aligned.set(data.subarray(0, aligned.length));
+  return create(aligned.buffer);
+}
+
+/** Binary files store object names as `Name\0\x01Class`; ASCII uses `Class::Name` */
+function normalizeObjectName(value: string): string {
+  const separator = value.indexOf('\0\x01');
+  if (separator < 0) return value;
+  return `${value.slice(separator + 2)}::${value.slice(0, separator)}`;
+}
+
+// ---------------------------------------------------------------------------
+// ASCII
+// ---------------------------------------------------------------------------
+
+type AsciiToken =
+  | { kind: 'key'; value: string; line: number }
+  | { kind: 'value'; value: number | bigint | string; line: number }
+  | { kind: 'count'; value: number; line: number }
+  | { kind: 'punct'; value: '{' | '}' | ','; line: number };
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function parseAsciiFbx(bytes: Uint8Array): FbxFile {
+  const text = new TextDecoder('utf-8').decode(bytes);
+  if (!/FBXHeaderExtension|^\s*;\s*FBX/m.test(text.slice(0, 4096))) {
+    throw new Error('Not a valid FBX file: missing binary magic or ASCII header');
+  }
+
+  const tokens = tokenizeAscii(text);
+  const cursor = { index: 0 };
+  const nodes = readAsciiNodeList(tokens, cursor);
+
+  const header = nodes.find((node) => node.name === 'FBXHeaderExtension');
+  const version = Number(childValue(header, 'FBXVersion') ?? 0);
+  return { format: 'ascii', version, nodes };
+}
+
+function tokenizeAscii(text: string): AsciiToken[] {
+  const tokens: AsciiToken[] = [];
+  let line = 1;
+  let i = 0;
+  const length = text.length;
+
+  while (i < length) {
+    const ch = text[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i++;
+    } else if (ch === ';') {
+      while (i < length && text[i] !== '\n') i++;
+    } else if (ch === '{' || ch === '}' || ch === ',') {
+      tokens.push({ kind: 'punct', value: ch, line });
+      i++;
+    } else if (ch === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end < 0) throw new Error(`FBX: unterminated string on line ${line}`);
+      const value = text.slice(i + 1, end);
+      for (let j = i; j < end; j++) if (text[j] === '\n') line++;
+      tokens.push({ kind: 'value', value: normalizeObjectName(value.replace(/&quot;/g, '"')), line });
+      i = end + 1;
+    } else if (ch === '*') {
+      let j = i + 1;
+      while (j < length && /[0-9]/.test(text[j])) j++;
+      tokens.push({ kind: 'count', value: Number(text.slice(i + 1, j)), line });
+      i = j;
+    } else {
+      let j = i;
+      while (j < length && !/[\s,{}:;"]/.test(text[j])) j++;
+      const word = text.slice(i, j);
+      if (j === i) {
+        throw new Error(`FBX: unexpected '${ch}' on line ${line}`);
+      }
+      if (text[j] === ':') {
+        tokens.push({ kind: 'key', value: word, line });
+        i = j + 1;
+      } else {
+        tokens.push({ kind: 'value', value: parseAsciiScalar(word), line });
+        i = j;
+      }
+    }
+  }
+  return tokens;
+}
+
+function parseAsciiScalar(word: string): number | bigint | string {
+  if (!NUMBER_PATTERN.test(word)) return word;
+  if (/[.eE]/.test(word)) return Number(word);
+  const value = Number(word);
+  return Number.isSafeInteger(value) ? value : BigInt(word);
+}
+
+function readAsciiNodeList(tokens: AsciiToken[], cursor: { index: number }): FbxNode[] {
+  const nodes: FbxNode[] = [];
+  while (cursor.index < tokens.length) {
+    const token = tokens[cursor.index];
+    if (token.kind === 'punct' && token.value === '}') {
+      cursor.index++;
+      break;
+    }
+    if (token.kind !== 'key') {
+      throw new Error(`FBX: expected a node name on line ${token.line}`);
+    }
+    cursor.index++;
+    nodes.push(readAsciiNode(token.value, token.line, tokens, cursor));
+  }
+  return nodes;
+}
+
+function readAsciiNode(name: string, line: number, tokens: AsciiToken[], cursor: { index: number }): FbxNode {
+  const properties: FbxProperty[] = [];
+  let children: FbxNode[] = [];
+  let isArray = false;
+  let lastLine = line;
+  let continued = true;
+
+  while (cursor.index < tokens.length) {
+    const token = tokens[cursor.index];
+    if (token.kind === 'punct' && token.value === '{') {
+      cursor.index++;
+      children = readAsciiNodeList(tokens, cursor);
+      break;
+    }
+    if (token.kind === 'punct' && token.value === '}') break;
+    if (token.kind === 'key') break;
+    // Values continue on the next line only after a trailing comma
+    if (token.line !== lastLine && !continued) break;
+
+    cursor.index++;
+    lastLine = token.line;
+    if (token.kind === 'punct') {
+      continued = true;
+    } else if (token.kind === 'count') {
+      isArray = true;
+      continued = false;
+    } else {
+      properties.push(token.value);
+      continued = false;
+    }
+  }
+
+  // `Name: *N { a: v0, v1, ... }` holds a single array property
+  if (isArray) {
+    return { name, properties: [toTypedArray(findChild({ name, properties, children }, 'a')?.properties ?? [])], children: [] };
+  }
+  return { name, properties, children };
+}
+
+function toTypedArray(values: FbxProperty[]): Int32Array | Float64Array {
+  const numbers = values.map(Number);
+  const integral = numbers.every((n) => Number.isInteger(n) && n >= -0x80000000 && n <= 0x7fffffff);
+  return integral ? Int32Array.from(numbers) : Float64Array.from(numbers);
+}
@@ -0,0 +1,182 @@
+/** WebUsdFramework.Converters.Fbx.FbxScene - FBX object graph with resolved properties and connections */
+
+import { FbxFile, FbxNode, FbxProperty, findChild, findChildren } from './fbx-parser';
+
+/**
+ * Object from the `Objects` section (Model, Geometry, Material, ...)
+ */
+export interface FbxObject {
+  /** Object id as a string (ids are 64-bit) */
+  id: string;
+  /** Node name: `Model`, `Geometry`, `Material`, `Deformer`, ... */
+  type: string;
+  /** Name without the `Class::` prefix */
+  name: string;
+  /** Third property: `Mesh`, `LimbNode`, `Skin`, `Cluster`, ... */
+  subclass: string;
+  node: FbxNode;
+}
+
+/**
+ * Connection from a child object to its parent (OO) or to a parent property (OP)
+ */
+export interface FbxConnection {
+  object: FbxObject;
+  /** Target property for OP connections, e.g. `DiffuseColor` or `Lcl Translation` */
+  property?: string;
+}
+
+/** Id of the implicit scene root in connections */
+export const FBX_ROOT_ID = '0';
+
+/** FBX time units per second */
+export const FBX_TIME_UNITS_PER_SECOND = 46186158000;
+
+/**
+ * Indexed FBX scene: objects by id, connections both ways, and every
+ * object's `Properties70` merged over its type's property template.
+ */
+export class FbxScene {
+  readonly objects = new Map<string, FbxObject>();
+  readonly version: number;
+
+  private readonly childLinks = new Map<string, FbxConnection[]>();
+  private readonly parentLinks = new Map<string, FbxConnection[]>();
+  private readonly templates = new Map<string, Map<string, FbxProperty[]>>();
+  private readonly propertyCache = new Map<string, Map<string, FbxProperty[]>>();
+  private readonly globalSettings: Map<string, FbxProperty[]>;
+
+  constructor(file: FbxFile) {
+    this.version = file.version;
+    const top = (name: string) => file.nodes.find((node) => node.name === name);
+
+    for (const objectType of findChildren(top('Definitions'), 'ObjectType')) {
+      const template = findChild(objectType, 'PropertyTemplate');
+      if (template) {
+        this.templates.set(String(objectType.properties[0]), readPropertyBlock(template));
+      }
+    }
+
+    for (const node of top('Objects')?.children ?? []) {
+      const [id, fullName, subclass] = node.properties;
+      if (id === undefined) continue;
+      const name = String(fullName ?? '');
+      const separator = name.indexOf('::');
+      this.objects.set(String(id), {
+        id: String(id),
+        type: node.name,
+        name: separator >= 0 ? name.slice(separator + 2) : name,
+        subclass: String(subclass ?? ''),
+        node,
+      });
+    }
+
+    for (const link of findChildren(top('Connections'), 'C')) {
+      const [kind, childId, parentId, property] = link.properties;
+      const child = this.objects.get(String(childId));
+      if (!child) continue;
+      const parentKey = String(parentId);
+      const parent = this.objects.get(parentKey);
+      const isProperty = kind === 'OP' && property !== undefined;
+
+      addLink(this.childLinks, parentKey, isProperty ? { object: child, property: String(property) } : { object: child });
+      if (parent) {
+        addLink(this.parentLinks, child.id, isProperty ? { object: parent, property: String(property) } : { object: parent });
+      }
+    }
+
+    this.globalSettings = readPropertyBlock(top('GlobalSettings'));
+  }
+
+  /**
+   * Objects connected to `id` (its children, geometry, materials, curves...),
+   * in file order, optionally filtered by object type
+   */
+  childrenOf(id: string, type?: string): FbxConnection[] {
+    const links = this.childLinks.get(id) ?? [];
+    return type ? links.filter((link) => link.object.type === type) : links;
+  }
+
+  /**
+   * Objects `id` is connected to, optionally filtered by object type
+   */
+  parentsOf(id: string, type?: string): FbxConnection[] {
+    const links = this.parentLinks.get(id) ?? [];
+    return type ? links.filter((link) => link.object.type === type) : links;
+  }
+
+  /** True when the object is connected directly to the scene root */
+  isRootChild(id: string): boolean {
+    return (this.childLinks.get(FBX_ROOT_ID) ?? []).some((link) => link.object.id === id);
+  }
+
+  /**
+   * Property values of an object, falling back to its type's template
+   */
+  property(object: FbxObject, name: string): FbxProperty[] | undefined {
+    let properties = this.propertyCache.get(object.id);
+    if (!properties) {
+      properties = readPropertyBlock(object.node);
+      this.propertyCache.set(object.id, properties);
+    }
+    return properties.get(name) ?? this.templates.get(object.type)?.get(name);
+  }
+
+  number(object: FbxObject, name: string, fallback: number): number {
+    const value = this.property(object, name)?.[0];
+    return typeof value === 'number' ? value : typeof value === 'bigint' ? Number(value) : fallback;
+  }
+
+  vector3(object: FbxObject, name: string, fallback: [number, number, number]): [number, number, number] {
+    const value = this.property(object, name);
+    if (!value || value.length < 3) return fallback;
+    return [Number(value[0]), Number(value[1]), Number(value[2])];
+  }
+
+  string(object: FbxObject, name: string): string | undefined {
+    const value = this.property(object, name)?.[0];
+    return value === undefined ? undefined : String(value);
+  }
+
+  /** GlobalSettings property (UpAxis, UnitScaleFactor, TimeMode, ...) */
+  setting(name: string, fallback: number): number {
+    const value = this.globalSettings.get(name)?.[0];
+    return value === undefined ? fallback : Number(value);
+  }
+
+  listObjects(type: string, subclass?: string): FbxObject[] {
+    const out: FbxObject[] = [];
+    for (const object of this.objects.values()) {
+      if (object.type === type && (subclass === undefined || object.subclass === subclass)) {
+        out.push(object);
+      }
+    }
+    return out;
+  }
+}
+
+function addLink(map: Map<string, FbxConnection[]>, key: string, link: FbxConnection): void {
+  const links = map.get(key);
+  if (links) links.push(link);
+  else map.set(key, [link]);
+}
+
+/**
+ * Read `Properties70` (FBX 7) or `Properties60` entries of a node into name -> values
+ */
+function readPropertyBlock(node: FbxNode | undefined): Map<string, FbxProperty[]> {
+  const out = new Map<string, FbxProperty[]>();
+  const block70 = findChild(node, 'Properties70');
+  if (block70) {
+    // P: name, type, label, flags, values...
+    for (const entry of findChildren(block70, 'P')) {
+      out.set(String(entry.properties[0]), entry.properties.slice(4));
+    }
+    return out;
+  }
+  // Property: name, type, flags, values...
+  for (const entry of findChildren(findChild(node, 'Properties60'), 'Property')) {
+    out.set(String(entry.properties[0]), entry.properties.slice(3));
+  }
+  return out;
+}
@@ -3,11 +3,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { logger } from '../../utils/logger';
 
-// Import the fbx2gltf CommonJS module
-const fbx2gltfModule = require('fbx2gltf');
-const fbx2gltfConvert: (srcFile: string, destFile: string, opts?: string[]) => Promise<string> =
-  typeof fbx2gltfModule === 'function' ? fbx2gltfModule : fbx2gltfModule.default || fbx2gltfModule.convert;
+type Fbx2gltfConvert = (srcFile: string, destFile: string, opts?: string[]) => Promise<string>;
+
+// Load the fbx2gltf CommonJS module on first use, so the native FBX reader
+// works where the package and its binary are not installed
+function loadFbx2gltf(): Fbx2gltfConvert {
+  const fbx2gltfModule = require('fbx2gltf');
+  return typeof fbx2gltfModule === 'function' ? fbx2gltfModule : fbx2gltfModule.default || fbx2gltfModule.convert;
+}
 
 export interface FbxToGltfOptions {
   binary?: boolean;      // Output GLB instead of GLTF
@@ -15,7 +20,9 @@ export interface FbxToGltfOptions {
   extraArgs?: string[];  // Extra args to pass to FBX2glTF
 }
 
-// Converts FBX file to GLB/GLTF using the FBX2glTF command-line tool
+// Converts FBX file to GLB/GLTF using the FBX2glTF command-line tool.
+// The framework reads FBX natively (see fbx-to-gltf.ts); this remains for
+// callers that want FBX2glTF's output.
 export async function convertFbxToGltfViaTool(
   fbxPath: string,
   options: FbxToGltfOptions = {}
@@ -31,9 +38,9 @@ export async function convertFbxToGltfViaTool(
   const outputPath = path.join(tmpDir, `converted${outputExt}`);
 
   try {
-    console.log(`Converting FBX to ${outputExt.toUpperCase()} using FBX2glTF tool...`);
-    console.log(`  Input:  ${fbxPath}`);
-    console.log(`  Output: ${outputPath}`);
+    logger.info(`Converting FBX to ${outputExt.toUpperCase()} using FBX2glTF tool...`);
+    logger.info(`  Input:  ${fbxPath}`);
+    logger.info(`  Output: ${outputPath}`);
 
     // Build options array
     const args: string[] = options.extraArgs || [];
@@ -43,7 +50,7 @@ export async function convertFbxToGltfViaTool(
     }
 
     // Convert FBX to GLTF/GLB
-    await fbx2gltfConvert(fbxPath, outputPath, args);
+    await loadFbx2gltf()(fbxPath, outputPath, args);
 
     // Read the output file
     if (!fs.existsSync(outputPath)) {
@@ -51,7 +58,7 @@ export async function convertFbxToGltfViaTool(
     }
 
     const gltfBuffer = fs.readFileSync(outputPath);
-    console.log(`FBX converted successfully (${(gltfBuffer.length / 1024).toFixed(2)} KB)`);
+    logger.info(`FBX converted successfully (${(gltfBuffer.length / 1024).toFixed(2)} KB)`);
 
     return gltfBuffer.buffer.slice(
       gltfBuffer.byteOffset,
@@ -59,7 +66,7 @@ export async function convertFbxToGltfViaTool(
     );
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
-    console.error(`FBX2glTF conversion failed: ${errMsg}`);
+    logger.error(`FBX2glTF conversion failed: ${errMsg}`);
     throw new Error(`FBX to GLTF conversion failed: ${errMsg}`);
   } finally {
     // Cleanup temp directory
@@ -68,7 +75,7 @@ export async function convertFbxToGltfViaTool(
         fs.rmSync(tmpDir, { recursive: true, force: true });
       }
     } catch (cleanupError) {
-      console.warn(`Warning: Failed to cleanup temp directory: ${tmpDir}`);
+      logger.warn(`Warning: Failed to cleanup temp directory: ${tmpDir}`);
     }
   }
 }
@@ -0,0 +1,247 @@
+/** WebUsdFramework.Converters.Fbx.FbxToGltf - Native FBX to glTF-Transform document conversion */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Buffer as GltfBuffer, Document, MathUtils, Mesh, Node, NodeIO, Skin, mat4, vec3, vec4 } from '@gltf-transform/core';
+import { Logger, LoggerFactory } from '../../utils';
+import { parseFbx } from './fbx-parser';
+import { FbxObject, FbxScene } from './fbx-scene';
+import {
+  FbxModelTransform,
+  Mat4,
+  axisConversionMatrix,
+  geometricMatrix,
+  identity,
+  isIdentity,
+  modelLocalMatrix,
+  multiply,
+  readModelTransform,
+} from './fbx-transform';
+import { buildTriangleGroups } from './helpers/fbx-geometry';
+import { FbxMaterialBuilder } from './helpers/fbx-materials';
+import { FbxSkinBinding, buildSkinAttributes, readSkinBinding } from './helpers/fbx-skin';
+import { buildAnimations } from './helpers/fbx-animation';
+
+export interface FbxReadOptions {
+  /**
+   * Directory external texture files are resolved against.
+   * Defaults to the FBX file's directory when reading from a path.
+   */
+  resourceDirectory?: string;
+}
+
+/**
+ * Read a binary (7.x, zlib-compressed arrays included) or ASCII FBX file
+ * into a glTF-Transform document, without the FBX2glTF binary.
+ *
+ * - Meshes: polygons fan-triangulated, split per material, with normals,
+ *   every UV layer and vertex colors
+ * - Materials: Lambert / Phong, Maya Stingray PBS and 3ds Max Physical,
+ *   with embedded (`Video` content) or external textures
+ * - Skins: clusters become joints, weights and inverse bind matrices
+ * - Animation: one glTF animation per stack, sampled at the scene frame rate
+ *
+ * The scene is converted to glTF's Y-up meters through a `RootNode` when
+ * the file uses another axis system or unit.
+ */
+export async function readFbxDocument(
+  input: ArrayBuffer | Uint8Array | string,
+  options: FbxReadOptions = {}
+): Promise<Document> {
+  const logger = LoggerFactory.forConversion();
+  const bytes = typeof input === 'string' ? new Uint8Array(fs.readFileSync(input)) : input;
+  const resourceDirectory = options.resourceDirectory
+    ?? (typeof input === 'string' ? path.dirname(path.resolve(input)) : undefined);
+
+  const file = parseFbx(bytes);
+  const scene = new FbxScene(file);
+  logger.info('FBX parsed', {
+    stage: 'fbx_parsing',
+    format: file.format,
+    version: file.version,
+    objectCount: scene.objects.size
+  });
+
+  return buildDocument(scene, logger, resourceDirectory);
+}
+
+/**
+ * Convert an FBX file to a GLB buffer with the native reader
+ */
+export async function convertFbxToGlb(
+  input: ArrayBuffer | Uint8Array | string,
+  options: FbxReadOptions = {}
+): Promise<ArrayBuffer> {
+  const document = await readFbxDocument(input, options);
+  const glb = await new NodeIO().writeBinary(document);
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+function buildDocument(scene: FbxScene, logger: Logger, resourceDirectory: string | undefined): Document {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const gltfScene = document.createScene('Scene');
+  document.getRoot().setDefaultScene(gltfScene);
+
+  // Nodes
+  const models = scene.listObjects('Model');
+  const nodes = new Map<string, Node>();
+  const transforms = new Map<string, FbxModelTransform>();
+  const localMatrices = new Map<string, Mat4>();
+  for (const model of models) {
+    const transform = readModelTransform(scene, model);
+    const local = modelLocalMatrix(transform);
+    const node = document.createNode(model.name || `Model_${nodes.size}`);
+    setNodeMatrix(node, local);
+    nodes.set(model.id, node);
+    transforms.set(model.id, transform);
+    localMatrices.set(model.id, local);
+
+    // Cameras and lights keep only their transform
+    if (model.subclass === 'Camera' || model.subclass === 'Light') {
+      logger.warn(`FBX ${model.subclass.toLowerCase()} "${model.name}" is converted as a plain transform`, {
+        stage: 'fbx_parsing',
+        code: model.subclass === 'Camera' ? 'camera_skipped' : 'light_skipped',
+        model: model.name
+      });
+    }
+  }
+
+  const parentOf = (model: FbxObject) => scene.parentsOf(model.id, 'Model')[0]?.object;
+  const roots: Node[] = [];
+  for (const model of models) {
+    const parent = parentOf(model);
+    const parentNode = parent ? nodes.get(parent.id) : undefined;
+    if (parentNode) parentNode.addChild(nodes.get(model.id)!);
+    else roots.push(nodes.get(model.id)!);
+  }
+
+  const conversion = axisConversionMatrix(scene);
+  if (isIdentity(conversion)) {
+    for (const root of roots) gltfScene.addChild(root);
+  } else {
+    const wrapper = document.createNode('RootNode');
+    setNodeMatrix(wrapper, conversion);
+    for (const root of roots) wrapper.addChild(root);
+    gltfScene.addChild(wrapper);
+  }
+
+  // World matrices in file space, for skins
+  const globalMatrices = new Map<string, Mat4>();
+  const globalMatrix = (model: FbxObject): Mat4 => {
+    let matrix = globalMatrices.get(model.id);
+    if (!matrix) {
+      const parent = parentOf(model);
+      const local = localMatrices.get(model.id) ?? identity();
+      matrix = parent ? multiply(globalMatrix(parent), local) : local;
+      globalMatrices.set(model.id, matrix);
+    }
+    return matrix;
+  };
+
+  // Meshes, materials and skins
+  const materials = new FbxMaterialBuilder(document, scene, logger, resourceDirectory);
+  const meshes = new Map<string, Mesh>();
+  const skins = new Map<string, Skin>();
+  for (const model of models) {
+    const geometry = scene.childrenOf(model.id, 'Geometry').find((link) => link.object.subclass === 'Mesh')?.object;
+    if (!geometry) continue;
+
+    const fbxMaterials = scene.childrenOf(model.id, 'Material').map((link) => link.object);
+    const geometric = geometricMatrix(scene, model);
+    const binding = readSkinBinding(scene, geometry, globalMatrix);
+    // Instances share a mesh unless a geometric transform is baked in
+    const key = isIdentity(geometric) ? `${geometry.id}:${fbxMaterials.map((m) => m.id).join(',')}` : undefined;
+
+    let mesh = key ? meshes.get(key) : undefined;
+    if (!mesh) {
+      mesh = buildMesh(document, buffer, geometry, geometric, fbxMaterials, materials, binding);
+      if (!mesh) continue;
+      if (key) meshes.set(key, mesh);
+    }
+    const node = nodes.get(model.id)!;
+    node.setMesh(mesh);
+
+    if (binding) {
+      let skin = skins.get(binding.id);
+      if (!skin) {
+        skin = createSkin(document, buffer, binding, nodes);
+        skins.set(binding.id, skin);
+      }
+      node.setSkin(skin);
+    }
+  }
+
+  const animationCount = buildAnimations(document, buffer, scene, nodes, transforms);
+
+  const root = document.getRoot();
+  logger.info('FBX scene converted', {
+    stage: 'fbx_parsing',
+    nodeCount: root.listNodes().length,
+    meshCount: root.listMeshes().length,
+    materialCount: root.listMaterials().length,
+    textureCount: root.listTextures().length,
+    skinCount: root.listSkins().length,
+    animationCount
+  });
+  return document;
+}
+
+function setNodeMatrix(node: Node, matrix: Mat4): void {
+  const t: vec3 = [0, 0, 0];
+  const r: vec4 = [0, 0, 0, 1];
+  const s: vec3 = [1, 1, 1];
+  MathUtils.decompose(Array.from(matrix) as mat4, t, r, s);
+  node.setTranslation(t).setRotation(r).setScale(s);
+}
+
+function buildMesh(
+  document: Document,
+  buffer: GltfBuffer,
+  geometry: FbxObject,
+  geometric: Mat4,
+  fbxMaterials: FbxObject[],
+  materials: FbxMaterialBuilder,
+  binding: FbxSkinBinding | undefined
+): Mesh | undefined {
+  const groups = buildTriangleGroups(geometry, geometric);
+  if (groups.length === 0) return undefined;
+
+  const mesh = document.createMesh(geometry.name || 'Mesh');
+  const accessor = (type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4', array: Float32Array | Uint16Array | Uint32Array) =>
+    document.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+
+  for (const group of groups) {
+    const vertexCount = group.positions.length / 3;
+    const primitive = document.createPrimitive()
+      .setAttribute('POSITION', accessor('VEC3', group.positions))
+      .setAttribute('NORMAL', accessor('VEC3', group.normals))
+      .setIndices(accessor('SCALAR', vertexCount <= 0xffff ? Uint16Array.from(group.indices) : group.indices));
+
+    group.uvs.forEach((uv, set) => primitive.setAttribute(`TEXCOORD_${set}`, accessor('VEC2', uv)));
+    if (group.colors) primitive.setAttribute('COLOR_0', accessor('VEC4', group.colors));
+
+    if (binding) {
+      const { joints, weights } = buildSkinAttributes(binding, group.controlPoints);
+      primitive
+        .setAttribute('JOINTS_0', accessor('VEC4', joints))
+        .setAttribute('WEIGHTS_0', accessor('VEC4', weights));
+    }
+
+    const fbxMaterial = fbxMaterials[group.materialIndex] ?? fbxMaterials[0];
+    primitive.setMaterial(fbxMaterial ? materials.getMaterial(fbxMaterial) : materials.getDefaultMaterial());
+    mesh.addPrimitive(primitive);
+  }
+  return mesh;
+}
+
+function createSkin(document: Document, buffer: GltfBuffer, binding: FbxSkinBinding, nodes: Map<string, Node>): Skin {
+  const skin = document.createSkin();
+  const matrices = new Float32Array(binding.joints.length * 16);
+  binding.joints.forEach((joint, i) => {
+    skin.addJoint(nodes.get(joint.id)!);
+    matrices.set(binding.inverseBindMatrices[i], i * 16);
+  });
+  skin.setInverseBindMatrices(document.createAccessor().setType('MAT4').setArray(matrices).setBuffer(buffer));
+  return skin;
+}
@@ -0,0 +1,242 @@
+/** WebUsdFramework.Converters.Fbx.FbxTransform - FBX node transform evaluation and 4x4 matrix math */
+
+import { FbxObject, FbxScene } from './fbx-scene';
+
+/** Column-major 4x4 matrix (glTF layout) */
+export type Mat4 = Float64Array;
+
+type Vec3 = [number, number, number];
+
+/**
+ * Euler rotation orders by FBX `RotationOrder` enum value.
+ * The first axis is applied first (XYZ means Rz * Ry * Rx).
+ */
+const ROTATION_ORDERS = ['XYZ', 'XZY', 'YZX', 'YXZ', 'ZXY', 'ZYX'] as const;
+
+/**
+ * Local transform inputs of an FBX Model
+ */
+export interface FbxModelTransform {
+  translation: Vec3;
+  rotation: Vec3;
+  scaling: Vec3;
+  preRotation: Vec3;
+  postRotation: Vec3;
+  rotationOffset: Vec3;
+  rotationPivot: Vec3;
+  scalingOffset: Vec3;
+  scalingPivot: Vec3;
+  rotationOrder: number;
+}
+
+export function identity(): Mat4 {
+  const m = new Float64Array(16);
+  m[0] = m[5] = m[10] = m[15] = 1;
+  return m;
+}
+
+export function multiply(a: ArrayLike<number>, b: ArrayLike<number>): Mat4 {
+  const out = new Float64Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+/**
+ * Multiply a chain of matrices left to right
+ */
+export function compose(...matrices: ArrayLike<number>[]): Mat4 {
+  let out = identity();
+  for (const m of matrices) out = multiply(out, m);
+  return out;
+}
+
+export function invert(m: ArrayLike<number>): Mat4 {
+  const a00 = m[0], a01 = m[1], a02 = m[2], a03 = m[3];
+  const a10 = m[4], a11 = m[5], a12 = m[6], a13 = m[7];
+  const a20 = m[8], a21 = m[9], a22 = m[10], a23 = m[11];
+  const a30 = m[12], a31 = m[13], a32 = m[14], a33 = m[15];
+
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  if (!det) return identity();
+  const inv = 1 / det;
+
+  const out = new Float64Array(16);
+  out[0] = (a11 * b11 - a12 * b10 + a13 * b09) * inv;
+  out[1] = (a02 * b10 - a01 * b11 - a03 * b09) * inv;
+  out[2] = (a31 * b05 - a32 * b04 + a33 * b03) * inv;
+  out[3] = (a22 * b04 - a21 * b05 - a23 * b03) * inv;
+  out[4] = (a12 * b08 - a10 * b11 - a13 * b07) * inv;
+  out[5] = (a00 * b11 - a02 * b08 + a03 * b07) * inv;
+  out[6] = (a32 * b02 - a30 * b05 - a33 * b01) * inv;
+  out[7] = (a20 * b05 - a22 * b02 + a23 * b01) * inv;
+  out[8] = (a10 * b10 - a11 * b08 + a13 * b06) * inv;
+  out[9] = (a01 * b08 - a00 * b10 - a03 * b06) * inv;
+  out[10] = (a30 * b04 - a31 * b02 + a33 * b00) * inv;
+  out[11] = (a21 * b02 - a20 * b04 - a23 * b00) * inv;
+  out[12] = (a11 * b07 - a10 * b09 - a12 * b06) * inv;
+  out[13] = (a00 * b09 - a01 * b07 + a02 * b06) * inv;
+  out[14] = (a31 * b01 - a30 * b03 - a32 * b00) * inv;
+  out[15] = (a20 * b03 - a21 * b01 + a22 * b00) * inv;
+  return out;
+}
+
+export function translation(v: ArrayLike<number>): Mat4 {
+  const m = identity();
+  m[12] = v[0];
+  m[13] = v[1];
+  m[14] = v[2];
+  return m;
+}
+
+export function scaling(v: ArrayLike<number>): Mat4 {
+  const m = identity();
+  m[0] = v[0];
+  m[5] = v[1];
+  m[10] = v[2];
+  return m;
+}
+
+/**
+ * Rotation matrix from Euler angles in degrees
+ */
+export function eulerRotation(degrees: ArrayLike<number>, order = 0): Mat4 {
+  const axes = ROTATION_ORDERS[order] ?? 'XYZ';
+  let m = identity();
+  for (const axis of axes) {
+    const index = axis === 'X' ? 0 : axis === 'Y' ? 1 : 2;
+    const angle = (degrees[index] * Math.PI) / 180;
+    if (angle !== 0) m = multiply(axisRotation(index, angle), m);
+  }
+  return m;
+}
+
+function axisRotation(axis: number, radians: number): Mat4 {
+  const m = identity();
+  const c = Math.cos(radians);
+  const s = Math.sin(radians);
+  const [i, j] = axis === 0 ? [1, 2] : axis === 1 ? [2, 0] : [0, 1];
+  m[i * 4 + i] = c;
+  m[j * 4 + j] = c;
+  m[i * 4 + j] = s;
+  m[j * 4 + i] = -s;
+  return m;
+}
+
+export function transformPoint(m: ArrayLike<number>, x: number, y: number, z: number): Vec3 {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+/**
+ * Transform a direction by the inverse transpose (normals), without normalizing
+ */
+export function transformNormal(inverse: ArrayLike<number>, x: number, y: number, z: number): Vec3 {
+  return [
+    inverse[0] * x + inverse[1] * y + inverse[2] * z,
+    inverse[4] * x + inverse[5] * y + inverse[6] * z,
+    inverse[8] * x + inverse[9] * y + inverse[10] * z,
+  ];
+}
+
+export function isIdentity(m: ArrayLike<number>, epsilon = 1e-9): boolean {
+  for (let i = 0; i < 16; i++) {
+    if (Math.abs(m[i] - (i % 5 === 0 ? 1 : 0)) > epsilon) return false;
+  }
+  return true;
+}
+
+/**
+ * Static transform inputs of a Model
+ */
+export function readModelTransform(scene: FbxScene, model: FbxObject): FbxModelTransform {
+  const zero: Vec3 = [0, 0, 0];
+  return {
+    translation: scene.vector3(model, 'Lcl Translation', zero),
+    rotation: scene.vector3(model, 'Lcl Rotation', zero),
+    scaling: scene.vector3(model, 'Lcl Scaling', [1, 1, 1]),
+    preRotation: scene.vector3(model, 'PreRotation', zero),
+    postRotation: scene.vector3(model, 'PostRotation', zero),
+    rotationOffset: scene.vector3(model, 'RotationOffset', zero),
+    rotationPivot: scene.vector3(model, 'RotationPivot', zero),
+    scalingOffset: scene.vector3(model, 'ScalingOffset', zero),
+    scalingPivot: scene.vector3(model, 'ScalingPivot', zero),
+    rotationOrder: scene.number(model, 'RotationOrder', 0),
+  };
+}
+
+/**
+ * FBX local transform:
+ * T * Roff * Rp * Rpre * R * Rpost^-1 * Rp^-1 * Soff * Sp * S * Sp^-1
+ */
+export function modelLocalMatrix(t: FbxModelTransform): Mat4 {
+  const pivot = t.rotationPivot;
+  const scalePivot = t.scalingPivot;
+  return compose(
+    translation(t.translation),
+    translation(t.rotationOffset),
+    translation(pivot),
+    eulerRotation(t.preRotation),
+    eulerRotation(t.rotation, t.rotationOrder),
+    invert(eulerRotation(t.postRotation)),
+    translation([-pivot[0], -pivot[1], -pivot[2]]),
+    translation(t.scalingOffset),
+    translation(scalePivot),
+    scaling(t.scaling),
+    translation([-scalePivot[0], -scalePivot[1], -scalePivot[2]])
+  );
+}
+
+/**
+ * Geometric transform: applies to the model's geometry only, not its children
+ */
+export function geometricMatrix(scene: FbxScene, model: FbxObject): Mat4 {
+  return compose(
+    translation(scene.vector3(model, 'GeometricTranslation', [0, 0, 0])),
+    eulerRotation(scene.vector3(model, 'GeometricRotation', [0, 0, 0])),
+    scaling(scene.vector3(model, 'GeometricScaling', [1, 1, 1]))
+  );
+}
+
+/**
+ * Conversion from the file's axis system and unit to glTF's Y-up, +Z-front,
+ * right-handed meters
+ */
+export function axisConversionMatrix(scene: FbxScene): Mat4 {
+  const upAxis = scene.setting('UpAxis', 1);
+  const upSign = scene.setting('UpAxisSign', 1);
+  const frontAxis = scene.setting('FrontAxis', 2);
+  const frontSign = scene.setting('FrontAxisSign', 1);
+  const coordAxis = scene.setting('CoordAxis', 0);
+  const coordSign = scene.setting('CoordAxisSign', 1);
+  // UnitScaleFactor is centimeters per file unit
+  const metersPerUnit = scene.setting('UnitScaleFactor', 1) / 100;
+
+  const m = new Float64Array(16);
+  m[coordAxis * 4 + 0] = coordSign * metersPerUnit;
+  m[upAxis * 4 + 1] = upSign * metersPerUnit;
+  m[frontAxis * 4 + 2] = frontSign * metersPerUnit;
+  m[15] = 1;
+  return m;
+}
@@ -0,0 +1,272 @@
+/** WebUsdFramework.Converters.Fbx.Helpers.FbxAnimation - Samples FBX animation stacks into glTF animations */
+
+import { Accessor, Buffer, Document, MathUtils, Node, mat4 } from '@gltf-transform/core';
+import { childArray } from '../fbx-parser';
+import { FbxObject, FbxScene, FBX_TIME_UNITS_PER_SECOND } from '../fbx-scene';
+import { FbxModelTransform, modelLocalMatrix } from '../fbx-transform';
+
+// KeyAttrFlags interpolation bits
+const INTERPOLATION_CONSTANT = 0x2;
+const INTERPOLATION_LINEAR = 0x4;
+
+/** Frame rates by GlobalSettings `TimeMode` */
+const TIME_MODE_FPS: Record<number, number> = {
+  1: 120, 2: 100, 3: 60, 4: 50, 5: 48, 6: 30, 7: 30, 8: 29.97, 9: 29.97,
+  10: 25, 11: 24, 13: 23.976, 15: 96, 16: 72, 17: 59.94,
+};
+const DEFAULT_FPS = 30;
+const CUSTOM_TIME_MODE = 14;
+
+/** Values closer than this are treated as unchanged when dropping static channels */
+const EPSILON = 1e-6;
+
+/**
+ * Keyframed FBX AnimationCurve
+ */
+interface FbxCurve {
+  /** Key times in seconds */
+  times: Float64Array;
+  values: Float32Array;
+  /** Interpolation flags per key */
+  flags: Int32Array;
+  /** Outgoing and next incoming slopes (value per second) per key */
+  slopes: Float32Array;
+}
+
+type Channel = 'translation' | 'rotation' | 'scaling';
+
+const CHANNEL_PROPERTIES: Record<string, Channel> = {
+  'Lcl Translation': 'translation',
+  'Lcl Rotation': 'rotation',
+  'Lcl Scaling': 'scaling',
+};
+
+/**
+ * Curves driving one model: three optional components per channel, with
+ * the curve node's defaults for missing components
+ */
+interface ModelAnimation {
+  model: FbxObject;
+  channels: Partial<Record<Channel, { curves: (FbxCurve | undefined)[]; defaults: number[] }>>;
+}
+
+/**
+ * Build one glTF animation per FBX AnimationStack. Curves are sampled at
+ * the scene frame rate through the full FBX transform (pivots, pre/post
+ * rotation, rotation order), so the output is exact at every frame.
+ * Only the first animation layer of a stack is read.
+ */
+export function buildAnimations(
+  document: Document,
+  buffer: Buffer,
+  scene: FbxScene,
+  nodes: Map<string, Node>,
+  transforms: Map<string, FbxModelTransform>
+): number {
+  const fps = sceneFrameRate(scene);
+  let count = 0;
+
+  for (const stack of scene.listObjects('AnimationStack')) {
+    const layer = scene.childrenOf(stack.id, 'AnimationLayer')[0]?.object;
+    if (!layer) continue;
+
+    const animated = collectModelAnimations(scene, layer);
+    if (animated.size === 0) continue;
+
+    let start = Infinity;
+    let end = -Infinity;
+    for (const { channels } of animated.values()) {
+      for (const channel of Object.values(channels)) {
+        for (const curve of channel.curves) {
+          if (!curve || curve.times.length === 0) continue;
+          start = Math.min(start, curve.times[0]);
+          end = Math.max(end, curve.times[curve.times.length - 1]);
+        }
+      }
+    }
+    if (!Number.isFinite(start)) continue;
+
+    const frameCount = Math.max(1, Math.round((end - start) * fps) + 1);
+    const times = new Float32Array(frameCount);
+    for (let f = 0; f < frameCount; f++) times[f] = Math.min(end, start + f / fps) - start;
+
+    const animation = document.createAnimation(stack.name || `Animation_${count}`);
+    let input: Accessor | undefined;
+
+    for (const { model, channels } of animated.values()) {
+      const node = nodes.get(model.id);
+      const base = transforms.get(model.id);
+      if (!node || !base) continue;
+
+      const translations = new Float32Array(frameCount * 3);
+      const rotations = new Float32Array(frameCount * 4);
+      const scales = new Float32Array(frameCount * 3);
+      const t: [number, number, number] = [0, 0, 0];
+      const r: [number, number, number, number] = [0, 0, 0, 1];
+      const s: [number, number, number] = [1, 1, 1];
+
+      for (let f = 0; f < frameCount; f++) {
+        const time = start + times[f];
+        const sampled: FbxModelTransform = {
+          ...base,
+          translation: sampleChannel(channels.translation, time, base.translation),
+          rotation: sampleChannel(channels.rotation, time, base.rotation),
+          scaling: sampleChannel(channels.scaling, time, base.scaling),
+        };
+        MathUtils.decompose(Array.from(modelLocalMatrix(sampled)) as mat4, t, r, s);
+
+        // Keep quaternions in one hemisphere so slerp takes the short way
+        if (f > 0) {
+          const dot = r[0] * rotations[f * 4 - 4] + r[1] * rotations[f * 4 - 3] + r[2] * rotations[f * 4 - 2] + r[3] * rotations[f * 4 - 1];
+          if (dot < 0) for (let k = 0; k < 4; k++) r[k] = -r[k];
+        }
+        translations.set(t, f * 3);
+        rotations.set(r, f * 4);
+        scales.set(s, f * 3);
+      }
+
+      const outputs: ['translation' | 'rotation' | 'scale', Float32Array, number[]][] = [
+        ['translation', translations, node.getTranslation()],
+        ['rotation', rotations, node.getRotation()],
+        ['scale', scales, node.getScale()],
+      ];
+      for (const [path, values, rest] of outputs) {
+        if (isConstant(values, rest)) continue;
+        input ??= document.createAccessor().setType('SCALAR').setArray(times).setBuffer(buffer);
+        const output = document.createAccessor()
+          .setType(path === 'rotation' ? 'VEC4' : 'VEC3')
+          .setArray(values)
+          .setBuffer(buffer);
+        const sampler = document.createAnimationSampler().setInput(input).setOutput(output).setInterpolation('LINEAR');
+        animation.addSampler(sampler).addChannel(
+          document.createAnimationChannel().setTargetNode(node).setTargetPath(path).setSampler(sampler)
+        );
+      }
+    }
+
+    if (animation.listChannels().length === 0) {
+      animation.dispose();
+      continue;
+    }
+    count++;
+  }
+  return count;
+}
+
+function sceneFrameRate(scene: FbxScene): number {
+  const mode = scene.setting('TimeMode', 0);
+  if (mode === CUSTOM_TIME_MODE) return scene.setting('CustomFrameRate', DEFAULT_FPS) || DEFAULT_FPS;
+  return TIME_MODE_FPS[mode] ?? DEFAULT_FPS;
+}
+
+function collectModelAnimations(scene: FbxScene, layer: FbxObject): Map<string, ModelAnimation> {
+  const animated = new Map<string, ModelAnimation>();
+
+  for (const { object: curveNode } of scene.childrenOf(layer.id, 'AnimationCurveNode')) {
+    for (const target of scene.parentsOf(curveNode.id, 'Model')) {
+      const channel = target.property ? CHANNEL_PROPERTIES[target.property] : undefined;
+      if (!channel) continue;
+
+      const curves: (FbxCurve | undefined)[] = [undefined, undefined, undefined];
+      const defaults = ['d|X', 'd|Y', 'd|Z'].map((name) => scene.property(curveNode, name)?.[0]);
+      for (const link of scene.childrenOf(curveNode.id, 'AnimationCurve')) {
+        const component = ['d|X', 'd|Y', 'd|Z'].indexOf(link.property ?? '');
+        if (component >= 0) curves[component] = readCurve(link.object);
+      }
+      if (curves.every((curve) => !curve)) continue;
+
+      let entry = animated.get(target.object.id);
+      if (!entry) animated.set(target.object.id, (entry = { model: target.object, channels: {} }));
+      entry.channels[channel] = {
+        curves,
+        defaults: defaults.map((value) => (value === undefined ? NaN : Number(value))),
+      };
+    }
+  }
+  return animated;
+}
+
+function readCurve(curve: FbxObject): FbxCurve | undefined {
+  const keyTimes = childArray(curve.node, 'KeyTime');
+  const keyValues = childArray(curve.node, 'KeyValueFloat');
+  const count = Math.min(keyTimes?.length ?? 0, keyValues?.length ?? 0);
+  if (!keyTimes || !keyValues || count === 0) return undefined;
+
+  const times = new Float64Array(count);
+  for (let k = 0; k < count; k++) times[k] = keyTimes[k] / FBX_TIME_UNITS_PER_SECOND;
+  const values = Float32Array.from({ length: count }, (_, k) => keyValues[k]);
+
+  // Attributes are run-length encoded: attribute i applies to refCount[i] keys
+  const attrFlags = childArray(curve.node, 'KeyAttrFlags');
+  const attrData = childArray(curve.node, 'KeyAttrDataFloat');
+  const refCounts = childArray(curve.node, 'KeyAttrRefCount');
+  const flags = new Int32Array(count).fill(INTERPOLATION_LINEAR);
+  const slopes = new Float32Array(count * 2);
+  if (attrFlags && refCounts) {
+    let key = 0;
+    for (let attr = 0; attr < refCounts.length && key < count; attr++) {
+      for (let n = 0; n < refCounts[attr] && key < count; n++, key++) {
+        flags[key] = attrFlags[attr] ?? INTERPOLATION_LINEAR;
+        slopes[key * 2] = attrData?.[attr * 4] ?? 0;
+        slopes[key * 2 + 1] = attrData?.[attr * 4 + 1] ?? 0;
+      }
+    }
+  }
+  return { times, values, flags, slopes };
+}
+
+/**
+ * Evaluate a curve: constant, linear or cubic Hermite with the stored slopes
+ */
+function evaluateCurve(curve: FbxCurve, time: number): number {
+  const { times, values, flags, slopes } = curve;
+  const last = times.length - 1;
+  if (time <= times[0]) return values[0];
+  if (time >= times[last]) return values[last];
+
+  let lo = 0;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= time) lo = mid;
+    else hi = mid;
+  }
+
+  const p0 = values[lo];
+  const p1 = values[hi];
+  const duration = times[hi] - times[lo];
+  if (duration <= 0 || flags[lo] & INTERPOLATION_CONSTANT) return p0;
+
+  const u = (time - times[lo]) / duration;
+  if (flags[lo] & INTERPOLATION_LINEAR) return p0 + (p1 - p0) * u;
+
+  const m0 = slopes[lo * 2] * duration;
+  const m1 = slopes[lo * 2 + 1] * duration;
+  const u2 = u * u;
+  const u3 = u2 * u;
+  return (2 * u3 - 3 * u2 + 1) * p0 + (u3 - 2 * u2 + u) * m0 + (-2 * u3 + 3 * u2) * p1 + (u3 - u2) * m1;
+}
+
+function sampleChannel(
+  channel: ModelAnimation['channels'][Channel],
+  time: number,
+  fallback: [number, number, number]
+): [number, number, number] {
+  if (!channel) return fallback;
+  const out: [number, number, number] = [fallback[0], fallback[1], fallback[2]];
+  for (let i = 0; i < 3; i++) {
+    const curve = channel.curves[i];
+    if (curve) out[i] = evaluateCurve(curve, time);
+    else if (!Number.isNaN(channel.defaults[i])) out[i] = channel.defaults[i];
+  }
+  return out;
+}
+
+/** True when every sample equals the node's rest value */
+function isConstant(values: Float32Array, rest: number[]): boolean {
+  const size = rest.length;
+  for (let i = 0; i < values.length; i++) {
+    if (Math.abs(values[i] - rest[i % size]) > EPSILON) return false;
+  }
+  return true;
+}
@@ -0,0 +1,259 @@
+/** WebUsdFramework.Converters.Fbx.Helpers.FbxGeometry - Splits FBX polygon meshes into indexed triangle groups */
+
+import { FbxNode, childArray, childValue, findChildren } from '../fbx-parser';
+import { FbxObject } from '../fbx-scene';
+import { Mat4, invert, isIdentity, transformNormal, transformPoint } from '../fbx-transform';
+
+/**
+ * Triangles of one material, with per-vertex attributes unwelded from
+ * FBX's per-polygon-vertex layers
+ */
+export interface FbxTriangleGroup {
+  /** Index into the model's connected materials */
+  materialIndex: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  /** One array per UV layer, V flipped to glTF's top-left origin */
+  uvs: Float32Array[];
+  /** RGBA vertex colors */
+  colors: Float32Array | undefined;
+  /** Control point of each vertex, for skin weights */
+  controlPoints: Uint32Array;
+  indices: Uint32Array;
+}
+
+/**
+ * Layer element with its mapping resolved to a lookup
+ */
+interface LayerLookup {
+  values: ArrayLike<number>;
+  size: number;
+  /** Value index for a polygon vertex */
+  resolve: (corner: number, polygon: number, controlPoint: number) => number;
+}
+
+/**
+ * Build triangle groups (one per material) from a `Geometry` of subclass Mesh.
+ * Polygons are fan-triangulated; `geometric` is baked into positions and normals.
+ */
+export function buildTriangleGroups(geometry: FbxObject, geometric: Mat4): FbxTriangleGroup[] {
+  const node = geometry.node;
+  const vertices = childArray(node, 'Vertices');
+  const polygonIndex = childArray(node, 'PolygonVertexIndex');
+  if (!vertices || !polygonIndex || vertices.length < 3 || polygonIndex.length < 3) return [];
+
+  // Polygon starts; the last index of a polygon is stored as ~index
+  const polygonStarts: number[] = [];
+  let start = 0;
+  for (let i = 0; i < polygonIndex.length; i++) {
+    if (polygonIndex[i] < 0) {
+      polygonStarts.push(start);
+      start = i + 1;
+    }
+  }
+  polygonStarts.push(start);
+  const polygonCount = polygonStarts.length - 1;
+  const controlPoint = (corner: number) => {
+    const value = polygonIndex[corner];
+    return value < 0 ? ~value : value;
+  };
+
+  const normals = readLayer(node, 'LayerElementNormal', 'Normals', ['NormalsIndex', 'NormalIndex'], 3);
+  const colors = readLayer(node, 'LayerElementColor', 'Colors', ['ColorIndex'], 4);
+  const uvLayers = findChildren(node, 'LayerElementUV')
+    .sort((a, b) => Number(a.properties[0] ?? 0) - Number(b.properties[0] ?? 0))
+    .map((layer) => readLayerNode(layer, 'UV', ['UVIndex'], 2))
+    .filter((layer): layer is LayerLookup => layer !== undefined);
+  const materialLayer = findChildren(node, 'LayerElementMaterial')[0];
+  const materials = childArray(materialLayer, 'Materials');
+  const materialsByPolygon = String(childValue(materialLayer, 'MappingInformationType') ?? '') === 'ByPolygon';
+
+  const smoothNormals = normals ? undefined : computeControlPointNormals(vertices, polygonIndex, polygonStarts);
+  const bake = !isIdentity(geometric);
+  const normalMatrix = invert(geometric);
+
+  // Polygons per material
+  const polygonsByMaterial = new Map<number, number[]>();
+  for (let p = 0; p < polygonCount; p++) {
+    const material = materials && materials.length > 0
+      ? Math.max(0, materials[materialsByPolygon ? Math.min(p, materials.length - 1) : 0])
+      : 0;
+    let list = polygonsByMaterial.get(material);
+    if (!list) polygonsByMaterial.set(material, (list = []));
+    list.push(p);
+  }
+
+  const groups: FbxTriangleGroup[] = [];
+  for (const [materialIndex, polygons] of [...polygonsByMaterial].sort((a, b) => a[0] - b[0])) {
+    const vertexKeys = new Map<string, number>();
+    const cornerSources: number[][] = [];
+    const indices: number[] = [];
+
+    const vertexOf = (corner: number, polygon: number): number => {
+      const v = controlPoint(corner);
+      const sources = [
+        v,
+        normals ? normals.resolve(corner, polygon, v) : v,
+        colors ? colors.resolve(corner, polygon, v) : 0,
+        ...uvLayers.map((layer) => layer.resolve(corner, polygon, v)),
+      ];
+      const key = sources.join('/');
+      let index = vertexKeys.get(key);
+      if (index === undefined) {
+        index = cornerSources.length;
+        vertexKeys.set(key, index);
+        cornerSources.push(sources);
+      }
+      return index;
+    };
+
+    for (const p of polygons) {
+      const first = polygonStarts[p];
+      const last = polygonStarts[p + 1] - 1;
+      if (last - first < 2) continue;
+      const a = vertexOf(first, p);
+      for (let corner = first + 1; corner < last; corner++) {
+        indices.push(a, vertexOf(corner, p), vertexOf(corner + 1, p));
+      }
+    }
+    if (indices.length === 0) continue;
+
+    const count = cornerSources.length;
+    const positions = new Float32Array(count * 3);
+    const outNormals = new Float32Array(count * 3);
+    const outUvs = uvLayers.map(() => new Float32Array(count * 2));
+    const outColors = colors ? new Float32Array(count * 4) : undefined;
+    const controlPoints = new Uint32Array(count);
+
+    for (let i = 0; i < count; i++) {
+      const [v, n, c, ...uv] = cornerSources[i];
+      controlPoints[i] = v;
+
+      let px = vertices[v * 3], py = vertices[v * 3 + 1], pz = vertices[v * 3 + 2];
+      if (bake) [px, py, pz] = transformPoint(geometric, px, py, pz);
+      positions.set([px, py, pz], i * 3);
+
+      const normalSource = normals ?? { values: smoothNormals!, size: 3 };
+      let nx = normalSource.values[n * 3] ?? 0;
+      let ny = normalSource.values[n * 3 + 1] ?? 0;
+      let nz = normalSource.values[n * 3 + 2] ?? 1;
+      if (bake) [nx, ny, nz] = transformNormal(normalMatrix, nx, ny, nz);
+      const length = Math.hypot(nx, ny, nz) || 1;
+      outNormals.set([nx / length, ny / length, nz / length], i * 3);
+
+      uvLayers.forEach((layer, l) => {
+        outUvs[l][i * 2] = layer.values[uv[l] * 2] ?? 0;
+        outUvs[l][i * 2 + 1] = 1 - (layer.values[uv[l] * 2 + 1] ?? 0);
+      });
+
+      if (outColors && colors) {
+        for (let k = 0; k < 4; k++) outColors[i * 4 + k] = colors.values[c * 4 + k] ?? 1;
+      }
+    }
+
+    groups.push({
+      materialIndex,
+      positions,
+      normals: outNormals,
+      uvs: outUvs,
+      colors: outColors,
+      controlPoints,
+      indices: Uint32Array.from(indices),
+    });
+  }
+  return groups;
+}
+
+function readLayer(
+  geometry: FbxNode,
+  layerName: string,
+  valuesName: string,
+  indexNames: string[],
+  size: number
+): LayerLookup | undefined {
+  // Layer 0 is the one renderers read; extra normal/color layers are ignored
+  const layer = findChildren(geometry, layerName)
+    .sort((a, b) => Number(a.properties[0] ?? 0) - Number(b.properties[0] ?? 0))[0];
+  return layer ? readLayerNode(layer, valuesName, indexNames, size) : undefined;
+}
+
+function readLayerNode(
+  layer: FbxNode,
+  valuesName: string,
+  indexNames: string[],
+  size: number
+): LayerLookup | undefined {
+  const values = childArray(layer, valuesName);
+  if (!values || values.length < size) return undefined;
+
+  const mapping = String(childValue(layer, 'MappingInformationType') ?? 'ByPolygonVertex');
+  const reference = String(childValue(layer, 'ReferenceInformationType') ?? 'Direct');
+  const index = reference === 'Direct'
+    ? undefined
+    : indexNames.map((name) => childArray(layer, name)).find((array) => array !== undefined);
+
+  const direct = (corner: number, polygon: number, controlPoint: number): number => {
+    switch (mapping) {
+      case 'ByVertice':
+      case 'ByVertex':
+      case 'ByControlPoint':
+        return controlPoint;
+      case 'ByPolygon':
+        return polygon;
+      case 'AllSame':
+        return 0;
+      default:
+        return corner;
+    }
+  };
+  const last = values.length / size - 1;
+  const clamp = (i: number) => (i < 0 ? 0 : i > last ? last : i);
+
+  return {
+    values,
+    size,
+    resolve: index
+      ? (corner, polygon, controlPoint) => clamp(index[direct(corner, polygon, controlPoint)] ?? 0)
+      : (corner, polygon, controlPoint) => clamp(direct(corner, polygon, controlPoint)),
+  };
+}
+
+/**
+ * Area-weighted smooth normals per control point, for meshes without a normal layer
+ */
+function computeControlPointNormals(
+  vertices: ArrayLike<number>,
+  polygonIndex: ArrayLike<number>,
+  polygonStarts: number[]
+): Float32Array {
+  const normals = new Float32Array(vertices.length);
+  const point = (corner: number) => {
+    const value = polygonIndex[corner];
+    return value < 0 ? ~value : value;
+  };
+
+  for (let p = 0; p < polygonStarts.length - 1; p++) {
+    const first = polygonStarts[p];
+    const last = polygonStarts[p + 1] - 1;
+    const a = point(first);
+    for (let corner = first + 1; corner < last; corner++) {
+      const b = point(corner);
+      const c = point(corner + 1);
+      const abx = vertices[b * 3] - vertices[a * 3];
+      const aby = vertices[b * 3 + 1] - vertices[a * 3 + 1];
+      const abz = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+      const acx = vertices[c * 3] - vertices[a * 3];
+      const acy = vertices[c * 3 + 1] - vertices[a * 3 + 1];
+      const acz = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+      const nx = aby * acz - abz * acy;
+      const ny = abz * acx - abx * acz;
+      const nz = abx * acy - aby * acx;
+      for (const v of [a, b, c]) {
+        normals[v * 3] += nx;
+        normals[v * 3 + 1] += ny;
+        normals[v * 3 + 2] += nz;
+      }
+    }
+  }
+  return normals;
+}
@@ -0,0 +1,274 @@
+/** WebUsdFramework.Converters.Fbx.Helpers.FbxMaterials - Maps FBX surface materials and textures to glTF PBR materials */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, Material, Texture, TextureInfo } from '@gltf-transform/core';
+import { Logger } from '../../../utils';
+import { childValue } from '../fbx-parser';
+import { FbxObject, FbxScene } from '../fbx-scene';
+
+/** FBX `WrapModeU/V` value for clamped textures */
+const WRAP_CLAMP = 1;
+
+/**
+ * Texture slots of the material families FBX exporters write
+ */
+const SLOTS = {
+  baseColor: ['Maya|TEX_color_map', '3dsMax|Parameters|base_color_map', 'DiffuseColor', 'Diffuse'],
+  normal: ['Maya|TEX_normal_map', '3dsMax|Parameters|bump_map', 'NormalMap'],
+  emissive: ['Maya|TEX_emissive_map', '3dsMax|Parameters|emit_color_map', 'EmissiveColor', 'Emissive'],
+  metallic: ['Maya|TEX_metallic_map', '3dsMax|Parameters|metalness_map'],
+  roughness: ['Maya|TEX_roughness_map', '3dsMax|Parameters|roughness_map'],
+  occlusion: ['Maya|TEX_ao_map'],
+  opacity: ['TransparentColor', 'TransparencyFactor', '3dsMax|Parameters|transparency_map'],
+} as const;
+
+/**
+ * Creates glTF materials and textures for FBX `Material` objects, sharing
+ * one glTF texture per image
+ */
+export class FbxMaterialBuilder {
+  private readonly materials = new Map<string, Material>();
+  private readonly textures = new Map<string, Texture | null>();
+
+  constructor(
+    private readonly document: Document,
+    private readonly scene: FbxScene,
+    private readonly logger: Logger,
+    /** Directory external texture paths are resolved against */
+    private readonly resourceDirectory: string | undefined
+  ) {}
+
+  getMaterial(fbxMaterial: FbxObject): Material {
+    let material = this.materials.get(fbxMaterial.id);
+    if (!material) {
+      material = this.createMaterial(fbxMaterial);
+      this.materials.set(fbxMaterial.id, material);
+    }
+    return material;
+  }
+
+  /** Grey material for meshes without one */
+  getDefaultMaterial(): Material {
+    let material = this.materials.get('');
+    if (!material) {
+      material = this.document.createMaterial('DefaultMaterial')
+        .setBaseColorFactor([0.8, 0.8, 0.8, 1])
+        .setMetallicFactor(0)
+        .setRoughnessFactor(1);
+      this.materials.set('', material);
+    }
+    return material;
+  }
+
+  private createMaterial(fbxMaterial: FbxObject): Material {
+    const scene = this.scene;
+    const material = this.document.createMaterial(fbxMaterial.name || 'Material');
+    const has = (name: string) => scene.property(fbxMaterial, name) !== undefined;
+
+    let baseColor: [number, number, number];
+    let opacity: number;
+    let emissive: [number, number, number];
+    let metallic = 0;
+    let roughness: number;
+
+    if (has('Maya|base_color')) {
+      // Maya Stingray PBS
+      baseColor = scene.vector3(fbxMaterial, 'Maya|base_color', [1, 1, 1]);
+      metallic = scene.number(fbxMaterial, 'Maya|metallic', 0);
+      roughness = scene.number(fbxMaterial, 'Maya|roughness', 0.5);
+      const intensity = scene.number(fbxMaterial, 'Maya|emissive_intensity', 1);
+      emissive = scene.vector3(fbxMaterial, 'Maya|emissive', [0, 0, 0]).map((c) => c * intensity) as [number, number, number];
+      opacity = 1;
+    } else if (has('3dsMax|Parameters|base_color')) {
+      // 3ds Max Physical Material
+      const weight = scene.number(fbxMaterial, '3dsMax|Parameters|base_weight', 1);
+      baseColor = scene.vector3(fbxMaterial, '3dsMax|Parameters|base_color', [1, 1, 1]).map((c) => c * weight) as [number, number, number];
+      metallic = scene.number(fbxMaterial, '3dsMax|Parameters|metalness', 0);
+      roughness = scene.number(fbxMaterial, '3dsMax|Parameters|roughness', 0.5);
+      if (scene.number(fbxMaterial, '3dsMax|Parameters|roughness_inv', 0)) roughness = 1 - roughness;
+      const emission = scene.number(fbxMaterial, '3dsMax|Parameters|emission', 0);
+      emissive = scene.vector3(fbxMaterial, '3dsMax|Parameters|emit_color', [0, 0, 0]).map((c) => c * emission) as [number, number, number];
+      opacity = 1 - scene.number(fbxMaterial, '3dsMax|Parameters|transparency', 0);
+    } else {
+      // Lambert / Phong
+      const diffuseFactor = scene.number(fbxMaterial, 'DiffuseFactor', 1);
+      baseColor = scene.vector3(fbxMaterial, 'DiffuseColor', scene.vector3(fbxMaterial, 'Diffuse', [0.8, 0.8, 0.8]))
+        .map((c) => c * diffuseFactor) as [number, number, number];
+      const emissiveFactor = scene.number(fbxMaterial, 'EmissiveFactor', 1);
+      emissive = scene.vector3(fbxMaterial, 'EmissiveColor', scene.vector3(fbxMaterial, 'Emissive', [0, 0, 0]))
+        .map((c) => c * emissiveFactor) as [number, number, number];
+      opacity = has('Opacity')
+        ? scene.number(fbxMaterial, 'Opacity', 1)
+        : 1 - scene.number(fbxMaterial, 'TransparencyFactor', 0);
+      // Blinn-Phong exponent to perceptual roughness
+      const shininess = scene.number(fbxMaterial, 'ShininessExponent', scene.number(fbxMaterial, 'Shininess', 0));
+      const isPhong = String(childValue(fbxMaterial.node, 'ShadingModel') ?? '').toLowerCase() === 'phong';
+      roughness = isPhong && shininess > 0 ? Math.sqrt(2 / (shininess + 2)) : 1;
+    }
+
+    const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+    opacity = clamp01(opacity);
+
+    const baseColorTexture = this.textureFor(fbxMaterial, SLOTS.baseColor);
+    if (baseColorTexture) {
+      // A connected texture replaces the color
+      baseColor = [1, 1, 1];
+      this.applyTexture(material.setBaseColorTexture(baseColorTexture.texture).getBaseColorTextureInfo(), baseColorTexture.source);
+    }
+    material.setBaseColorFactor([clamp01(baseColor[0]), clamp01(baseColor[1]), clamp01(baseColor[2]), opacity]);
+
+    const normalTexture = this.textureFor(fbxMaterial, SLOTS.normal);
+    if (normalTexture) {
+      this.applyTexture(material.setNormalTexture(normalTexture.texture).getNormalTextureInfo(), normalTexture.source);
+    }
+
+    const emissiveTexture = this.textureFor(fbxMaterial, SLOTS.emissive);
+    if (emissiveTexture) {
+      emissive = [1, 1, 1];
+      this.applyTexture(material.setEmissiveTexture(emissiveTexture.texture).getEmissiveTextureInfo(), emissiveTexture.source);
+    }
+    material.setEmissiveFactor([clamp01(emissive[0]), clamp01(emissive[1]), clamp01(emissive[2])]);
+
+    // glTF packs roughness (G) and metalness (B) in one texture; a lone
+    // greyscale roughness map works when the metallic factor is zero
+    const metallicTexture = this.textureFor(fbxMaterial, SLOTS.metallic);
+    const roughnessTexture = this.textureFor(fbxMaterial, SLOTS.roughness);
+    if (roughnessTexture && (!metallicTexture || metallicTexture.texture === roughnessTexture.texture)) {
+      metallic = metallicTexture ? 1 : 0;
+      roughness = 1;
+      this.applyTexture(
+        material.setMetallicRoughnessTexture(roughnessTexture.texture).getMetallicRoughnessTextureInfo(),
+        roughnessTexture.source
+      );
+    } else if (metallicTexture) {
+      this.logger.warn(`FBX material "${fbxMaterial.name}": separate metallic map is not supported, using the metallic value`);
+    }
+    material.setMetallicFactor(clamp01(metallic)).setRoughnessFactor(clamp01(roughness));
+
+    const occlusionTexture = this.textureFor(fbxMaterial, SLOTS.occlusion);
+    if (occlusionTexture) {
+      this.applyTexture(material.setOcclusionTexture(occlusionTexture.texture).getOcclusionTextureInfo(), occlusionTexture.source);
+    }
+
+    // Alpha in the base color texture drives transparency when an opacity map is the same image
+    const opacityTexture = this.textureFor(fbxMaterial, SLOTS.opacity);
+    if (opacity < 1 || (opacityTexture && opacityTexture.texture === baseColorTexture?.texture)) {
+      material.setAlphaMode('BLEND');
+    }
+
+    return material;
+  }
+
+  private applyTexture(info: TextureInfo | null, source: FbxObject): void {
+    if (!info) return;
+    if (this.scene.number(source, 'WrapModeU', 0) === WRAP_CLAMP) info.setWrapS(TextureInfo.WrapMode.CLAMP_TO_EDGE);
+    if (this.scene.number(source, 'WrapModeV', 0) === WRAP_CLAMP) info.setWrapT(TextureInfo.WrapMode.CLAMP_TO_EDGE);
+  }
+
+  /**
+   * First texture connected to one of the material properties. Layered
+   * textures use their bottom layer.
+   */
+  private textureFor(fbxMaterial: FbxObject, slots: readonly string[]): { texture: Texture; source: FbxObject } | undefined {
+    const links = this.scene.childrenOf(fbxMaterial.id);
+    for (const slot of slots) {
+      for (const link of links) {
+        if (link.property !== slot) continue;
+        let source: FbxObject | undefined = link.object;
+        if (source.type === 'LayeredTexture') {
+          source = this.scene.childrenOf(source.id, 'Texture')[0]?.object;
+        }
+        if (source?.type !== 'Texture') continue;
+        const texture = this.getTexture(source);
+        if (texture) return { texture, source };
+      }
+    }
+    return undefined;
+  }
+
+  private getTexture(fbxTexture: FbxObject): Texture | undefined {
+    const video = this.scene.childrenOf(fbxTexture.id, 'Video')[0]?.object;
+    const fileName = textureFileName(fbxTexture, video);
+    const embedded = video ? readEmbeddedContent(video) : undefined;
+    const key = embedded ? `video:${video!.id}` : `file:${fileName}`;
+
+    const cached = this.textures.get(key);
+    if (cached !== undefined) return cached ?? undefined;
+
+    const image = embedded ?? this.readExternalImage(fbxTexture, video);
+    if (!image) {
+      this.logger.warn(`FBX texture "${fbxTexture.name}" not found${fileName ? `: ${fileName}` : ''}`);
+      this.textures.set(key, null);
+      return undefined;
+    }
+
+    const mimeType = detectImageMimeType(image, fileName);
+    const texture = this.document.createTexture(fbxTexture.name || path.basename(fileName))
+      .setImage(image)
+      .setMimeType(mimeType)
+      .setURI(path.basename(fileName) || `${fbxTexture.name || 'texture'}.${mimeType.split('/')[1]}`);
+    this.textures.set(key, texture);
+    return texture;
+  }
+
+  private readExternalImage(fbxTexture: FbxObject, video: FbxObject | undefined): Uint8Array | undefined {
+    const candidates = [...fileNames(fbxTexture), ...(video ? fileNames(video) : [])];
+    const texturePath = this.scene.string(fbxTexture, 'Path');
+    if (texturePath) candidates.push(texturePath.replace(/\\/g, '/'));
+
+    const paths = new Set<string>();
+    for (const candidate of candidates) {
+      if (this.resourceDirectory) {
+        paths.add(path.resolve(this.resourceDirectory, candidate));
+        paths.add(path.join(this.resourceDirectory, path.basename(candidate)));
+      }
+      if (path.isAbsolute(candidate)) paths.add(candidate);
+    }
+
+    for (const candidate of paths) {
+      try {
+        if (fs.statSync(candidate).isFile()) return new Uint8Array(fs.readFileSync(candidate));
+      } catch {
+        // Try the next location
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * File paths stored on a Texture or Video, relative first, with forward slashes
+ */
+function fileNames(owner: FbxObject): string[] {
+  const out: string[] = [];
+  for (const name of ['RelativeFilename', 'FileName', 'Filename']) {
+    const value = childValue(owner.node, name);
+    if (typeof value === 'string' && value) out.push(value.replace(/\\/g, '/'));
+  }
+  return out;
+}
+
+function textureFileName(fbxTexture: FbxObject, video: FbxObject | undefined): string {
+  return fileNames(fbxTexture)[0] ?? (video ? fileNames(video)[0] : undefined) ?? '';
+}
+
+/**
+ * Embedded image bytes of a `Video`: raw in binary files, base64 in ASCII files
+ */
+function readEmbeddedContent(video: FbxObject): Uint8Array | undefined {
+  const content = video.node.children.find((child) => child.name === 'Content');
+  if (!content) return undefined;
+  const raw = content.properties.find((value): value is Uint8Array => value instanceof Uint8Array);
+  if (raw && raw.length > 0) return raw;
+  const base64 = content.properties.filter((value): value is string => typeof value === 'string').join('');
+  return base64 ? new Uint8Array(Buffer.from(base64, 'base64')) : undefined;
+}
+
+export function detectImageMimeType(image: Uint8Array, fileName: string): string {
+  if (image[0] === 0x89 && image[1] === 0x50 && image[2] === 0x4e && image[3] === 0x47) return 'image/png';
+  if (image[0] === 0xff && image[1] === 0xd8) return 'image/jpeg';
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  if (extension === 'jpg' || extension === 'jpeg') return 'image/jpeg';
+  return extension ? `image/${extension}` : 'image/png';
+}
@@ -0,0 +1,122 @@
+/** WebUsdFramework.Converters.Fbx.Helpers.FbxSkin - Reads FBX skin clusters into glTF joints, weights and bind matrices */
+
+import { childArray } from '../fbx-parser';
+import { FbxObject, FbxScene } from '../fbx-scene';
+import { Mat4, identity, invert, multiply } from '../fbx-transform';
+
+/** Influences per vertex in JOINTS_0 / WEIGHTS_0 */
+const MAX_INFLUENCES = 4;
+
+/**
+ * Skin deformer of one geometry
+ */
+export interface FbxSkinBinding {
+  /** Skin deformer id, shared by every mesh node it binds */
+  id: string;
+  /** Bone models in joint order */
+  joints: FbxObject[];
+  /** Column-major inverse bind matrix per joint */
+  inverseBindMatrices: Mat4[];
+  /** [joint, weight] pairs per control point */
+  influences: Array<Array<[number, number]> | undefined>;
+}
+
+/**
+ * Read the Skin deformer on a geometry. Each Cluster binds one bone: its
+ * `Indexes` / `Weights` list control points, `TransformLink` is the bone's
+ * world matrix at bind time and `Transform` the mesh's.
+ *
+ * Bones between bound joints are added with zero weight so the joint
+ * hierarchy has no gaps.
+ *
+ * @param globalMatrix - Rest world matrix of a model, for the added bones
+ */
+export function readSkinBinding(
+  scene: FbxScene,
+  geometry: FbxObject,
+  globalMatrix: (model: FbxObject) => Mat4
+): FbxSkinBinding | undefined {
+  const skin = scene.childrenOf(geometry.id, 'Deformer').find((link) => link.object.subclass === 'Skin')?.object;
+  if (!skin) return undefined;
+
+  const joints: FbxObject[] = [];
+  const inverseBindMatrices: Mat4[] = [];
+  const influences: FbxSkinBinding['influences'] = [];
+  let meshBind: Mat4 | undefined;
+
+  for (const { object: cluster } of scene.childrenOf(skin.id, 'Deformer')) {
+    if (cluster.subclass !== 'Cluster') continue;
+    const bone = scene.childrenOf(cluster.id, 'Model')[0]?.object;
+    if (!bone) continue;
+
+    const transform = childArray(cluster.node, 'Transform');
+    const transformLink = childArray(cluster.node, 'TransformLink');
+    const meshMatrix = transform && transform.length === 16 ? Float64Array.from(transform) : identity();
+    const boneMatrix = transformLink && transformLink.length === 16 ? Float64Array.from(transformLink) : globalMatrix(bone);
+    meshBind ??= meshMatrix;
+
+    const joint = joints.length;
+    joints.push(bone);
+    inverseBindMatrices.push(multiply(invert(boneMatrix), meshMatrix));
+
+    const indexes = childArray(cluster.node, 'Indexes');
+    const weights = childArray(cluster.node, 'Weights');
+    if (!indexes || !weights) continue;
+    for (let i = 0; i < Math.min(indexes.length, weights.length); i++) {
+      if (weights[i] <= 0) continue;
+      (influences[indexes[i]] ??= []).push([joint, weights[i]]);
+    }
+  }
+  if (joints.length === 0) return undefined;
+
+  // Fill in unbound bones between bound ones
+  const bound = new Set(joints.map((joint) => joint.id));
+  for (const joint of [...joints]) {
+    const chain: FbxObject[] = [];
+    let parent = scene.parentsOf(joint.id, 'Model')[0]?.object;
+    while (parent) {
+      if (bound.has(parent.id)) {
+        for (const bone of chain) {
+          bound.add(bone.id);
+          joints.push(bone);
+          inverseBindMatrices.push(multiply(invert(globalMatrix(bone)), meshBind ?? identity()));
+        }
+        break;
+      }
+      chain.push(parent);
+      parent = scene.parentsOf(parent.id, 'Model')[0]?.object;
+    }
+  }
+
+  return { id: skin.id, joints, inverseBindMatrices, influences };
+}
+
+/**
+ * JOINTS_0 / WEIGHTS_0 for vertices built from the given control points:
+ * the strongest four influences, renormalized
+ */
+export function buildSkinAttributes(
+  binding: FbxSkinBinding,
+  controlPoints: ArrayLike<number>
+): { joints: Uint16Array; weights: Float32Array } {
+  const joints = new Uint16Array(controlPoints.length * MAX_INFLUENCES);
+  const weights = new Float32Array(controlPoints.length * MAX_INFLUENCES);
+
+  for (let v = 0; v < controlPoints.length; v++) {
+    const list = binding.influences[controlPoints[v]];
+    if (!list) {
+      // Weights must sum to one; unbound vertices follow the first joint
+      weights[v * MAX_INFLUENCES] = 1;
+      continue;
+    }
+    const strongest = list.length > MAX_INFLUENCES
+      ? [...list].sort((a, b) => b[1] - a[1]).slice(0, MAX_INFLUENCES)
+      : list;
+    const total = strongest.reduce((sum, [, weight]) => sum + weight, 0) || 1;
+    strongest.forEach(([joint, weight], k) => {
+      joints[v * MAX_INFLUENCES + k] = joint;
+      weights[v * MAX_INFLUENCES + k] = weight / total;
+    });
+  }
+  return { joints, weights };
+}
@@ -1,4 +1,8 @@
 /** WebUsdFramework.Converters.Fbx.Index - FBX converter entry barrel */
 
+export { readFbxDocument, convertFbxToGlb } from './fbx-to-gltf';
+export type { FbxReadOptions } from './fbx-to-gltf';
+export { parseFbx } from './fbx-parser';
+export type { FbxFile, FbxNode, FbxProperty } from './fbx-parser';
 export { convertFbxToGltfViaTool, isFbx2gltfAvailable } from './fbx-to-gltf-via-tool';
 export type { FbxToGltfOptions } from './fbx-to-gltf-via-tool';
@@ -3,7 +3,16 @@
 import { Node, Accessor } from '@gltf-transform/core';
 import { InstancedMesh } from '@gltf-transform/extensions';
 import { UsdNode } from '../../../core/usd-node';
-import { formatUsdTuple3, formatUsdTuple4 } from '../../../utils/usd-formatter';
+import { USD_NODE_TYPES, USD_PROPERTY_TYPES } from '../../../constants/usd';
+import { sanitizeName } from '../../../utils';
+import { logger } from '../../../utils/logger';
+import {
+  formatUsdArray,
+  formatUsdFloat,
+  formatUsdNumberArray,
+  formatUsdTuple3,
+  formatUsdTuple4
+} from '../../../utils/usd-formatter';
 
 /**
  * Properties extracted from GPU instancing extension
@@ -13,7 +22,7 @@ export interface InstancingProperties {
   translations?: Float32Array | undefined;
   rotations?: Float32Array | undefined;
   scales?: Float32Array | undefined;
-  ids?: Uint8Array | Uint16Array | Uint32Array | undefined;
+  ids?: number[] | undefined;
   customAttributes: Map<string, Accessor>;
 }
 
@@ -41,7 +50,7 @@ export function processInstancingExtension(node: Node): InstancingProperties | n
   let translations: Float32Array | undefined;
   let rotations: Float32Array | undefined;
   let scales: Float32Array | undefined;
-  let ids: Uint8Array | Uint16Array | Uint32Array | undefined;
+  let ids: number[] | undefined;
 
   const customAttributes = new Map<string, Accessor>();
 
@@ -54,23 +63,24 @@ export function processInstancingExtension(node: Node): InstancingProperties | n
 
     switch (semantic) {
       case 'TRANSLATION':
-        if (array instanceof Float32Array) {
-          translations = array;
-        }
+        translations = readFloatElements(accessor);
         break;
       case 'ROTATION':
-        if (array instanceof Float32Array) {
-          rotations = array;
-        }
+        // Rotations may be normalized byte/short quaternions
+        rotations = readFloatElements(accessor);
         break;
       case 'SCALE':
-        if (array instanceof Float32Array) {
-          scales = array;
-        }
+        scales = readFloatElements(accessor);
         break;
       case '_ID':
-        if (array instanceof Uint8Array || array instanceof Uint16Array || array instanceof Uint32Array) {
-          ids = array;
+        ids = readInstanceIds(accessor);
+        if (!ids) {
+          // Keep the values as a primvar rather than dropping them
+          logger.warn(`[processInstancingExtension] _ID is not one finite number per instance; writing it as a primvar`, {
+            node: node.getName(),
+            type: accessor.getType()
+          });
+          customAttributes.set(semantic, accessor);
         }
         break;
       default:
@@ -93,61 +103,199 @@ export function processInstancingExtension(node: Node): InstancingProperties | n
 }
 
 /**
- * Apply instancing to USD node using PointInstancer
- * Note: This creates a PointInstancer which requires the mesh to be referenced
+ * `_ID` values rounded to integers, or undefined when the accessor is not
+ * scalar or holds values that are not finite
  */
-export function applyInstancingToUsdNode(
+function readInstanceIds(accessor: Accessor): number[] | undefined {
+  if (accessor.getElementSize() !== 1) return undefined;
+  const ids: number[] = [];
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    const value = Math.round(accessor.getElement(i, element)[0]);
+    if (!Number.isFinite(value)) return undefined;
+    ids.push(value);
+  }
+  return ids;
+}
+
+/**
+ * Accessor values as floats, denormalizing integer component types
+ */
+function readFloatElements(accessor: Accessor): Float32Array {
+  const array = accessor.getArray();
+  if (array instanceof Float32Array) {
+    return array;
+  }
+  const elementSize = accessor.getElementSize();
+  const values = new Float32Array(accessor.getCount() * elementSize);
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    values.set(accessor.getElement(i, element), i * elementSize);
+  }
+  return values;
+}
+
+/**
+ * Create the PointInstancer for an instanced node: a `${name}_Instancer`
+ * child of `usdNode` with a `Prototypes` scope holding one Xform prototype.
+ * The caller builds the mesh prims into the returned prototype.
+ */
+export function createPointInstancer(
   usdNode: UsdNode,
-  instancingProps: InstancingProperties,
-  prototypePath: string
-): void {
-  const { instanceCount, translations, rotations, scales } = instancingProps;
+  name: string
+): { instancer: UsdNode; prototype: UsdNode } {
+  const instancer = new UsdNode(`${usdNode.getPath()}/${name}_Instancer`, USD_NODE_TYPES.POINT_INSTANCER);
+  const prototypes = new UsdNode(`${instancer.getPath()}/Prototypes`, USD_NODE_TYPES.SCOPE);
+  const prototype = new UsdNode(`${prototypes.getPath()}/${name}`, USD_NODE_TYPES.XFORM);
 
-  // Change node type to PointInstancer
-  // Note: In USD, we need to create a PointInstancer that references the prototype mesh
-  // For now, we'll add the instancing data as metadata and let the converter handle it
-  // A full implementation would require restructuring to use PointInstancer prim type
+  prototypes.addChild(prototype);
+  instancer.addChild(prototypes);
+  usdNode.addChild(instancer);
 
-  // Store instancing data as metadata for now
-  // Full PointInstancer implementation would require:
-  // 1. Creating a prototype mesh
-  // 2. Creating a PointInstancer prim that references it
-  // 3. Setting positions, orientations, scales, and ids
+  return { instancer, prototype };
+}
+
+/**
+ * Write the per-instance attributes of a PointInstancer built by
+ * `createPointInstancer`. Every instance uses the single prototype, so
+ * `protoIndices` is all zeros; `_ID` becomes `ids` and the other custom
+ * attributes become per-instance primvars.
+ */
+export function applyInstancingToUsdNode(
+  instancer: UsdNode,
+  instancingProps: InstancingProperties,
+  prototype: UsdNode
+): void {
+  const { instanceCount, translations, rotations, scales, ids, customAttributes } = instancingProps;
 
-  usdNode.setMetadata('instancing:instanceCount', instanceCount);
-  usdNode.setMetadata('instancing:prototypePath', prototypePath);
+  instancer.setProperty('rel prototypes', `<${prototype.getPath()}>`, USD_PROPERTY_TYPES.REL);
+  instancer.setProperty('int[] protoIndices', formatUsdNumberArray(new Array(instanceCount).fill(0)), 'raw');
 
-  if (translations) {
-    const positions: string[] = [];
-    for (let i = 0; i < translations.length; i += 3) {
-      positions.push(formatUsdTuple3(translations[i], translations[i + 1], translations[i + 2]));
+  const positions: string[] = [];
+  const orientations: string[] = [];
+  const scaleList: string[] = [];
+  for (let i = 0; i < instanceCount; i++) {
+    positions.push(translations
+      ? formatUsdTuple3(translations[i * 3], translations[i * 3 + 1], translations[i * 3 + 2])
+      : '(0, 0, 0)');
+    // GLTF stores (x, y, z, w); USD quaternions are written (w, x, y, z)
+    orientations.push(rotations
+      ? formatUsdTuple4(rotations[i * 4 + 3], rotations[i * 4], rotations[i * 4 + 1], rotations[i * 4 + 2])
+      : '(1, 0, 0, 0)');
+    if (scales) {
+      scaleList.push(formatUsdTuple3(scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]));
     }
-    usdNode.setMetadata('instancing:positions', positions);
   }
 
+  instancer.setProperty('point3f[] positions', formatUsdArray(positions), 'raw');
   if (rotations) {
-    const orientations: string[] = [];
-    for (let i = 0; i < rotations.length; i += 4) {
-      // USD uses quaternions as (x, y, z, w)
-      orientations.push(formatUsdTuple4(rotations[i], rotations[i + 1], rotations[i + 2], rotations[i + 3]));
-    }
-    usdNode.setMetadata('instancing:orientations', orientations);
+    instancer.setProperty('quath[] orientations', formatUsdArray(orientations), 'raw');
   }
-
   if (scales) {
-    const scalesList: string[] = [];
-    for (let i = 0; i < scales.length; i += 3) {
-      scalesList.push(formatUsdTuple3(scales[i], scales[i + 1], scales[i + 2]));
-    }
-    usdNode.setMetadata('instancing:scales', scalesList);
+    instancer.setProperty('float3[] scales', formatUsdArray(scaleList), 'raw');
   }
+  if (ids) {
+    instancer.setProperty('int64[] ids', formatUsdNumberArray(ids), 'raw');
+  }
+
+  for (const [semantic, accessor] of customAttributes) {
+    applyInstancePrimvar(instancer, semantic, accessor);
+  }
+
+  const extent = computeInstancerExtent(instancingProps, prototype);
+  if (extent) {
+    instancer.setProperty(
+      'float3[] extent',
+      `[${formatUsdTuple3(extent[0], extent[1], extent[2])}, ${formatUsdTuple3(extent[3], extent[4], extent[5])}]`,
+      'raw'
+    );
+  }
+}
+
+/**
+ * Custom `_NAME` attributes become `primvars:NAME` with one element per
+ * instance ("vertex" interpolation on a PointInstancer)
+ */
+function applyInstancePrimvar(instancer: UsdNode, semantic: string, accessor: Accessor): void {
+  const componentCount = accessor.getElementSize();
+  if (componentCount < 1 || componentCount > 4) return;
 
-  if (instancingProps.ids) {
-    const idsArray = Array.from(instancingProps.ids);
-    usdNode.setMetadata('instancing:ids', idsArray);
+  const isInteger = !accessor.getNormalized() && !(accessor.getArray() instanceof Float32Array);
+  const baseType = isInteger ? 'int' : 'float';
+  const usdType = componentCount === 1 ? baseType : `${baseType}${componentCount}`;
+
+  const values: string[] = [];
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    accessor.getElement(i, element);
+    values.push(componentCount === 1
+      ? (isInteger ? String(element[0]) : formatUsdFloat(element[0]))
+      : `(${element.map(value => (isInteger ? String(value) : formatUsdFloat(value))).join(', ')})`);
   }
 
-  // Log that instancing was detected
-  console.log(`[InstancingProcessor] Detected GPU instancing: ${instanceCount} instances`);
+  const primvarName = `primvars:${sanitizeName(semantic.slice(1))}`;
+  instancer.setProperty(`${usdType}[] ${primvarName}`, formatUsdArray(values), 'raw');
+  instancer.setProperty(`token ${primvarName}:interpolation`, 'vertex', 'interpolation');
+}
+
+/**
+ * Bounds of every instance: the prototype meshes' extents moved by each
+ * instance's scale, rotation and translation
+ */
+function computeInstancerExtent(
+  instancingProps: InstancingProperties,
+  prototype: UsdNode
+): [number, number, number, number, number, number] | null {
+  const corners = collectPrototypeCorners(prototype);
+  if (corners.length === 0) return null;
+
+  const { instanceCount, translations, rotations, scales } = instancingProps;
+  const extent: [number, number, number, number, number, number] = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < instanceCount; i++) {
+    const [qx, qy, qz, qw] = rotations ? [rotations[i * 4], rotations[i * 4 + 1], rotations[i * 4 + 2], rotations[i * 4 + 3]] : [0, 0, 0, 1];
+    for (const corner of corners) {
+      const x = corner[0] * (scales ? scales[i * 3] : 1);
+      const y = corner[1] * (scales ? scales[i * 3 + 1] : 1);
+      const z = corner[2] * (scales ? scales[i * 3 + 2] : 1);
+
+      // Rotate by the unit quaternion: v + 2w(q × v) + 2q × (q × v)
+      const cx = qy * z - qz * y;
+      const cy = qz * x - qx * z;
+      const cz = qx * y - qy * x;
+      const point = [
+        x + 2 * (qw * cx + qy * cz - qz * cy),
+        y + 2 * (qw * cy + qz * cx - qx * cz),
+        z + 2 * (qw * cz + qx * cy - qy * cx)
+      ];
+
+      for (let c = 0; c < 3; c++) {
+        const value = point[c] + (translations ? translations[i * 3 + c] : 0);
+        extent[c] = Math.min(extent[c], value);
+        extent[c + 3] = Math.max(extent[c + 3], value);
+      }
+    }
+  }
+  return extent;
 }
 
+/**
+ * Corners of the extent boxes of the meshes under the prototype
+ */
+function collectPrototypeCorners(node: UsdNode): Array<[number, number, number]> {
+  const corners: Array<[number, number, number]> = [];
+  const extent = node.getProperty('float3[] extent');
+  const values = typeof extent === 'string' ? extent.match(/[-\d.eE+]+/g)?.map(Number) : undefined;
+  if (values && values.length === 6) {
+    for (const x of [values[0], values[3]]) {
+      for (const y of [values[1], values[4]]) {
+        for (const z of [values[2], values[5]]) {
+          corners.push([x, y, z]);
+        }
+      }
+    }
+  }
+  for (const child of node.getChildren()) {
+    corners.push(...collectPrototypeCorners(child));
+  }
+  return corners;
+}
@@ -3,6 +3,11 @@
 import { Node } from '@gltf-transform/core';
 import { Light } from '@gltf-transform/extensions';
 import { UsdNode } from '../../../core/usd-node';
+import { USD_LIGHT, USD_PROPERTY_TYPES } from '../../../constants/usd';
+import { LightOptions } from '../../../schemas';
+import { ApiSchemaBuilder, API_SCHEMAS } from '../../../utils/api-schema-builder';
+import { formatUsdFloat, formatUsdTuple3 } from '../../../utils/usd-formatter';
+import { logger } from '../../../utils/logger';
 
 /**
  * Light properties extracted from GLTF
@@ -33,7 +38,7 @@ export function processLightExtension(node: Node): LightProperties | null {
     const innerConeAngle = lightExtension.getInnerConeAngle();
     const outerConeAngle = lightExtension.getOuterConeAngle();
 
-    console.log(`[processLightExtension] Extracted light properties`, {
+    logger.info(`[processLightExtension] Extracted light properties`, {
       nodeName: node.getName(),
       type,
       color,
@@ -52,73 +57,77 @@ export function processLightExtension(node: Node): LightProperties | null {
       outerConeAngle
     };
   } catch (error) {
-    console.warn(`[processLightExtension] Failed to extract light properties: ${error instanceof Error ? error.message : String(error)}`);
+    logger.warn(`[processLightExtension] Failed to extract light properties: ${error instanceof Error ? error.message : String(error)}`);
     return null;
   }
 }
 
 /**
- * Apply light properties to a USD node
- * Note: USD uses different light prim types (DistantLight, SphereLight, DiskLight, RectLight)
+ * UsdLux intensity for a GLTF light.
+ *
+ * With photometric units, directional lights keep their illuminance (lux)
+ * on a normalized DistantLight. Point and spot intensities are candela; a
+ * Lambertian sphere of radius r meters and luminance L (nits) has a
+ * luminous intensity of L * PI * r^2 in every direction, so the SphereLight
+ * gets L = cd / (PI * r^2). The radius is measured in meters rather than
+ * scene units, which keeps falloff over scene distances correct for any
+ * `metersPerUnit`.
  */
-export function applyLightToUsdNode(usdNode: UsdNode, lightProps: LightProperties): void {
-  const nodeName = usdNode.getName();
-  const nodePath = usdNode.getPath();
-
-  // USD light prim types:
-  // - DistantLight (directional)
-  // - SphereLight (point)
-  // - DiskLight (spot)
-
-  let lightType: string;
-  switch (lightProps.type) {
-    case 'directional':
-      lightType = 'DistantLight';
-      break;
-    case 'point':
-      lightType = 'SphereLight';
-      break;
-    case 'spot':
-      lightType = 'DiskLight';
-      break;
-    default:
-      console.warn(`[applyLightToUsdNode] Unknown light type: ${lightProps.type}`);
-      return;
+export function computeLightIntensity(lightProps: LightProperties, options: LightOptions = {}): number {
+  if (options.units === 'raw' || lightProps.type === 'directional') {
+    return lightProps.intensity;
   }
+  const radius = options.radius ?? USD_LIGHT.DEFAULT_SPHERE_RADIUS;
+  return lightProps.intensity / (Math.PI * radius * radius);
+}
 
-  // Create light prim as child of the node
-  const lightNode = new UsdNode(`${nodePath}/Light`, lightType);
-
-  // Set purpose to "guide" to prevent lights from rendering as visible geometry
-  lightNode.setProperty('token purpose', 'guide', 'token');
-
-  // Set color (RGB)
-  lightNode.setProperty('color3f inputs:color', `(${lightProps.color[0]}, ${lightProps.color[1]}, ${lightProps.color[2]})`, 'color3f');
+/**
+ * Add a UsdLux light prim under the node's Xform.
+ *
+ * - directional: DistantLight (GLTF and USD both shine down -Z)
+ * - point: SphereLight with `treatAsPoint`
+ * - spot: SphereLight with ShapingAPI; the cone angle is the outer cone and
+ *   the softness is 1 - inner / outer, as three.js derives its penumbra
+ *
+ * UsdLux has no cutoff distance, so `range` is dropped.
+ */
+export function applyLightToUsdNode(
+  usdNode: UsdNode,
+  lightProps: LightProperties,
+  options: LightOptions = {},
+  metersPerUnit: number = 1
+): UsdNode {
+  const isDistant = lightProps.type === 'directional';
+  const lightNode = new UsdNode(
+    `${usdNode.getPath()}/Light`,
+    isDistant ? USD_LIGHT.DISTANT_LIGHT : USD_LIGHT.SPHERE_LIGHT
+  );
+
+  if (options.guidePurpose) {
+    lightNode.setProperty('token purpose', USD_LIGHT.PURPOSE_GUIDE, USD_PROPERTY_TYPES.TOKEN);
+  }
 
-  // Set intensity
-  lightNode.setProperty('float inputs:intensity', lightProps.intensity.toString(), 'float');
+  lightNode.setProperty('color3f inputs:color', formatUsdTuple3(...lightProps.color), 'color3f');
+  lightNode.setProperty('float inputs:intensity', formatUsdFloat(computeLightIntensity(lightProps, options)), USD_PROPERTY_TYPES.FLOAT);
 
-  // Set range (for point and spot lights)
-  if (lightProps.range !== null && lightProps.range !== undefined && (lightProps.type === 'point' || lightProps.type === 'spot')) {
-    lightNode.setProperty('float inputs:radius', (lightProps.range / 2).toString(), 'float');
+  if (isDistant) {
+    if (options.units !== 'raw') {
+      lightNode.setProperty('bool inputs:normalize', 'true', 'bool');
+    }
+  } else {
+    const radius = (options.radius ?? USD_LIGHT.DEFAULT_SPHERE_RADIUS) / metersPerUnit;
+    lightNode.setProperty('float inputs:radius', formatUsdFloat(radius), USD_PROPERTY_TYPES.FLOAT);
+    lightNode.setProperty('bool treatAsPoint', 'true', 'bool');
   }
 
-  // Set cone angles (for spot lights)
   if (lightProps.type === 'spot') {
-    if (lightProps.innerConeAngle !== undefined) {
-      lightNode.setProperty('float inputs:innerConeAngle', lightProps.innerConeAngle.toString(), 'float');
-    }
-    if (lightProps.outerConeAngle !== undefined) {
-      lightNode.setProperty('float inputs:outerConeAngle', lightProps.outerConeAngle.toString(), 'float');
-    }
+    const outer = lightProps.outerConeAngle ?? Math.PI / 4;
+    const inner = Math.min(lightProps.innerConeAngle ?? 0, outer);
+    ApiSchemaBuilder.addApiSchema(lightNode, API_SCHEMAS.SHAPING);
+    lightNode.setProperty('float inputs:shaping:cone:angle', formatUsdFloat((outer * 180) / Math.PI), USD_PROPERTY_TYPES.FLOAT);
+    lightNode.setProperty('float inputs:shaping:cone:softness', formatUsdFloat(outer > 0 ? 1 - inner / outer : 0), USD_PROPERTY_TYPES.FLOAT);
   }
 
   usdNode.addChild(lightNode);
-
-  console.log(`[applyLightToUsdNode] Applied ${lightType} to node: ${nodeName}`, {
-    color: lightProps.color,
-    intensity: lightProps.intensity,
-    range: lightProps.range
-  });
+  return lightNode;
 }
-
@@ -10,6 +10,7 @@ import { Anisotropy } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_anisotropy extension
@@ -53,13 +54,13 @@ export class PBRAnisotropyProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRAnisotropyProcessor] Extracted anisotropyTexture`, {
+          logger.info(`[PBRAnisotropyProcessor] Extracted anisotropyTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRAnisotropyProcessor] Failed to extract anisotropyTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRAnisotropyProcessor] Failed to extract anisotropyTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -10,6 +10,7 @@ import { Clearcoat } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_clearcoat extension
@@ -53,13 +54,13 @@ export class PBRClearcoatProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRClearcoatProcessor] Extracted clearcoatTexture`, {
+          logger.info(`[PBRClearcoatProcessor] Extracted clearcoatTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRClearcoatProcessor] Failed to extract clearcoatTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRClearcoatProcessor] Failed to extract clearcoatTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -80,13 +81,13 @@ export class PBRClearcoatProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRClearcoatProcessor] Extracted clearcoatRoughnessTexture`, {
+          logger.info(`[PBRClearcoatProcessor] Extracted clearcoatRoughnessTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRClearcoatProcessor] Failed to extract clearcoatRoughnessTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRClearcoatProcessor] Failed to extract clearcoatRoughnessTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -107,13 +108,13 @@ export class PBRClearcoatProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRClearcoatProcessor] Extracted clearcoatNormalTexture`, {
+          logger.info(`[PBRClearcoatProcessor] Extracted clearcoatNormalTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRClearcoatProcessor] Failed to extract clearcoatNormalTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRClearcoatProcessor] Failed to extract clearcoatNormalTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
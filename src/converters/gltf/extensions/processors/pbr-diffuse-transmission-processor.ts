@@ -10,6 +10,7 @@ import { DiffuseTransmission } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_diffuse_transmission extension
@@ -53,13 +54,13 @@ export class PBRDiffuseTransmissionProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRDiffuseTransmissionProcessor] Extracted diffuseTransmissionTexture`, {
+          logger.info(`[PBRDiffuseTransmissionProcessor] Extracted diffuseTransmissionTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRDiffuseTransmissionProcessor] Failed to extract diffuseTransmissionTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRDiffuseTransmissionProcessor] Failed to extract diffuseTransmissionTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -80,13 +81,13 @@ export class PBRDiffuseTransmissionProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRDiffuseTransmissionProcessor] Extracted diffuseTransmissionColorTexture`, {
+          logger.info(`[PBRDiffuseTransmissionProcessor] Extracted diffuseTransmissionColorTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRDiffuseTransmissionProcessor] Failed to extract diffuseTransmissionColorTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRDiffuseTransmissionProcessor] Failed to extract diffuseTransmissionColorTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
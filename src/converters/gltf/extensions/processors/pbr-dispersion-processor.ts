@@ -8,6 +8,7 @@
 import { Material } from '@gltf-transform/core';
 import { Dispersion } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_dispersion extension
@@ -35,7 +36,7 @@ export class PBRDispersionProcessor implements IExtensionProcessor {
     try {
       const dispersion = dispersionExtension.getDispersion();
 
-      console.log(`[PBRDispersionProcessor] Extracted dispersion`, {
+      logger.info(`[PBRDispersionProcessor] Extracted dispersion`, {
         materialName,
         dispersion
       });
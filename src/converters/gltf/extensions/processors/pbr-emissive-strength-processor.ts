@@ -8,6 +8,7 @@
 import { Material } from '@gltf-transform/core';
 import { EmissiveStrength } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_emissive_strength extension
@@ -35,7 +36,7 @@ export class PBREmissiveStrengthProcessor implements IExtensionProcessor {
     try {
       const emissiveStrength = emissiveStrengthExtension.getEmissiveStrength();
 
-      console.log(`[PBREmissiveStrengthProcessor] Extracted emissive strength`, {
+      logger.info(`[PBREmissiveStrengthProcessor] Extracted emissive strength`, {
         materialName,
         emissiveStrength
       });
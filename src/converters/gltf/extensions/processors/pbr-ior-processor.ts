@@ -8,6 +8,7 @@
 import { Material } from '@gltf-transform/core';
 import { IOR } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_ior extension
@@ -35,7 +36,7 @@ export class PBRIORProcessor implements IExtensionProcessor {
     try {
       const ior = iorExtension.getIOR();
 
-      console.log(`[PBRIORProcessor] Extracted index of refraction`, {
+      logger.info(`[PBRIORProcessor] Extracted index of refraction`, {
         materialName,
         ior
       });
@@ -10,6 +10,7 @@ import { Iridescence } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_iridescence extension
@@ -53,13 +54,13 @@ export class PBRIridescenceProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRIridescenceProcessor] Extracted iridescenceTexture`, {
+          logger.info(`[PBRIridescenceProcessor] Extracted iridescenceTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRIridescenceProcessor] Failed to extract iridescenceTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRIridescenceProcessor] Failed to extract iridescenceTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -80,13 +81,13 @@ export class PBRIridescenceProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRIridescenceProcessor] Extracted iridescenceThicknessTexture`, {
+          logger.info(`[PBRIridescenceProcessor] Extracted iridescenceThicknessTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRIridescenceProcessor] Failed to extract iridescenceThicknessTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRIridescenceProcessor] Failed to extract iridescenceThicknessTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -10,6 +10,7 @@ import { Sheen } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_sheen extension
@@ -53,13 +54,13 @@ export class PBRSheenProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRSheenProcessor] Extracted sheenColorTexture`, {
+          logger.info(`[PBRSheenProcessor] Extracted sheenColorTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRSheenProcessor] Failed to extract sheenColorTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRSheenProcessor] Failed to extract sheenColorTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -80,13 +81,13 @@ export class PBRSheenProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRSheenProcessor] Extracted sheenRoughnessTexture`, {
+          logger.info(`[PBRSheenProcessor] Extracted sheenRoughnessTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRSheenProcessor] Failed to extract sheenRoughnessTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRSheenProcessor] Failed to extract sheenRoughnessTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -10,6 +10,7 @@ import { PBRSpecularGlossiness } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_pbrSpecularGlossiness extension
@@ -53,13 +54,13 @@ export class PBRSpecularGlossinessProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRSpecularGlossinessProcessor] Extracted specularGlossinessTexture`, {
+          logger.info(`[PBRSpecularGlossinessProcessor] Extracted specularGlossinessTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRSpecularGlossinessProcessor] Failed to extract specularGlossinessTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRSpecularGlossinessProcessor] Failed to extract specularGlossinessTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -83,13 +84,13 @@ export class PBRSpecularGlossinessProcessor implements IExtensionProcessor {
               transform
             });
 
-            console.log(`[PBRSpecularGlossinessProcessor] Extracted diffuseTexture`, {
+            logger.info(`[PBRSpecularGlossinessProcessor] Extracted diffuseTexture`, {
               materialName,
               textureId,
               uvSet
             });
           } catch (error) {
-            console.warn(`[PBRSpecularGlossinessProcessor] Failed to extract diffuseTexture: ${error instanceof Error ? error.message : String(error)}`);
+            logger.warn(`[PBRSpecularGlossinessProcessor] Failed to extract diffuseTexture: ${error instanceof Error ? error.message : String(error)}`);
           }
         }
       }
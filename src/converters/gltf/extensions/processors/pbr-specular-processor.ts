@@ -10,6 +10,7 @@ import { Specular } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_specular extension
@@ -53,13 +54,13 @@ export class PBRSpecularProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRSpecularProcessor] Extracted specularColorTexture`, {
+          logger.info(`[PBRSpecularProcessor] Extracted specularColorTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRSpecularProcessor] Failed to extract specularColorTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRSpecularProcessor] Failed to extract specularColorTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
@@ -10,6 +10,7 @@ import { Transmission } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_transmission extension
@@ -53,13 +54,13 @@ export class PBRTransmissionProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRTransmissionProcessor] Extracted transmissionTexture`, {
+          logger.info(`[PBRTransmissionProcessor] Extracted transmissionTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRTransmissionProcessor] Failed to extract transmissionTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRTransmissionProcessor] Failed to extract transmissionTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
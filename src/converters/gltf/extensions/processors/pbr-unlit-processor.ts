@@ -8,6 +8,7 @@
 import { Material } from '@gltf-transform/core';
 import { Unlit } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_unlit extension
@@ -33,7 +34,7 @@ export class PBRUnlitProcessor implements IExtensionProcessor {
     }
 
     try {
-      console.log(`[PBRUnlitProcessor] Material marked as unlit`, {
+      logger.info(`[PBRUnlitProcessor] Material marked as unlit`, {
         materialName
       });
 
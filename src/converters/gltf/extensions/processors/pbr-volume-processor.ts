@@ -10,6 +10,7 @@ import { Volume } from '@gltf-transform/extensions';
 import { IExtensionProcessor, ExtensionProcessingContext, ExtensionProcessingResult } from '../extension-processor';
 import { TextureReference } from '../../../shared/usd-material-builder';
 import { generateTextureId, extractTextureTransform } from './texture-utils';
+import { logger } from '../../../../utils/logger';
 
 /**
  * Processor for KHR_materials_volume extension
@@ -53,13 +54,13 @@ export class PBRVolumeProcessor implements IExtensionProcessor {
             transform
           });
 
-          console.log(`[PBRVolumeProcessor] Extracted thicknessTexture`, {
+          logger.info(`[PBRVolumeProcessor] Extracted thicknessTexture`, {
             materialName,
             textureId,
             uvSet
           });
         } catch (error) {
-          console.warn(`[PBRVolumeProcessor] Failed to extract thicknessTexture: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[PBRVolumeProcessor] Failed to extract thicknessTexture: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
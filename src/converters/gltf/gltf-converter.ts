@@ -2,11 +2,11 @@
 
 import { Document, Node, Skin } from '@gltf-transform/core';
 import { GltfTransformConfig } from '../../schemas';
-import { Logger, LoggerFactory, ApiSchemaBuilder, API_SCHEMAS, normalizePropertyToArray, getFirstPropertyValue, sanitizeName } from '../../utils';
+import { Logger, LoggerFactory, ApiSchemaBuilder, API_SCHEMAS, normalizePropertyToArray, getFirstPropertyValue, sanitizeName, createLogSink, runWithLogSink } from '../../utils';
 import { UsdNode } from '../../core/usd-node';
 import { GltfParserFactory } from './gltf-parser';
 import { createRootStructure } from '../shared/usd-root-builder';
-import { processGeometries } from './helpers/geometry-processor';
+import { processGeometrySteps } from './helpers/geometry-processor';
 import {
   buildNodeHierarchy,
   HierarchyBuilderContext
@@ -23,11 +23,16 @@ import {
   writeDebugOutput,
   DebugOutputContent
 } from '../shared/debug-writer';
+import { processTextures } from '../shared/texture-pipeline';
 import { calculateSceneExtent } from './helpers/usd-hierarchy-builder';
 import { processSkeletons, bindSkeletonToMesh, findLowestCommonAncestor, findRelatedMeshes, findParentNode } from './helpers/skeleton-processor';
+import { readSkinInfluences, optimizeSkinInfluences } from './helpers/skin-influences';
 import { formatUsdTuple3 } from '../../utils/usd-formatter';
 import { processXMPExtension, formatXMPForUSD } from './extensions/xmp-processor';
-import { preprocessGltfDocument } from './helpers/gltf-transform-helpers';
+import { preprocessGltfDocument, decimateGltfDocument, decodeCompressedGeometry } from './helpers/gltf-transform-helpers';
+import { resolveActiveSceneIndex, buildAdditionalScenes, arrangeScenes, adoptLiftedSkelRoots, countSceneDeformers } from './helpers/scene-builder';
+import { DEFAULT_CONFIG, SKELETON } from '../../constants';
+import { ConversionProgressTracker } from '../shared/conversion-progress';
 
 /**
  * Conversion Stage Names
@@ -43,6 +48,19 @@ const CONVERSION_STAGES = {
   ERROR: 'conversion_error'
 } as const;
 
+/**
+ * Stages in the order a conversion runs them, for progress events
+ */
+const PROGRESS_STAGES = [
+  CONVERSION_STAGES.START,
+  CONVERSION_STAGES.PARSING,
+  CONVERSION_STAGES.GEOMETRY,
+  CONVERSION_STAGES.MATERIALS,
+  CONVERSION_STAGES.ANIMATIONS,
+  CONVERSION_STAGES.PACKAGING,
+  CONVERSION_STAGES.COMPLETE
+];
+
 /**
  * Error Messages
  */
@@ -54,7 +72,6 @@ const ERROR_MESSAGES = {
  * Conversion Constants
  */
 const CONVERSION_CONSTANTS = {
-  FIRST_SCENE_INDEX: 0,
   INITIAL_COUNTER: 0,
   MAIN_USD_FILE_COUNT: 1,
   EMPTY_COUNT: 0
@@ -87,21 +104,40 @@ const STRING_CONSTANTS = {
  */
 export function convertGlbToUsdz(
   input: ArrayBuffer | string,
-  config?: GltfTransformConfig
+  config?: GltfTransformConfig,
+  options?: ConvertOptions & { outputPath?: undefined }
 ): Promise<Blob>;
 export function convertGlbToUsdz(
   input: ArrayBuffer | string,
   config: GltfTransformConfig | undefined,
   options: ConvertOptions & { outputPath: string }
 ): Promise<UsdzStreamResult>;
+export function convertGlbToUsdz(
+  input: ArrayBuffer | string,
+  config?: GltfTransformConfig,
+  options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult>;
 export async function convertGlbToUsdz(
   input: ArrayBuffer | string,
   config?: GltfTransformConfig,
   options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult> {
+  return runWithLogSink(
+    createLogSink(config?.logger, config?.onDiagnostic),
+    () => convertGltfInput(input, config, options)
+  );
+}
+
+async function convertGltfInput(
+  input: ArrayBuffer | string,
+  config?: GltfTransformConfig,
+  options?: ConvertOptions
 ): Promise<Blob | UsdzStreamResult> {
   const logger = LoggerFactory.forConversion();
+  const progress = new ConversionProgressTracker(PROGRESS_STAGES, options);
 
   try {
+    progress.enterStage(CONVERSION_STAGES.START);
     const inputType = typeof input === 'string' ? STRING_CONSTANTS.INPUT_TYPES.GLTF_FILE : STRING_CONSTANTS.INPUT_TYPES.GLB_BUFFER;
 
     // Get file size for logging
@@ -125,8 +161,12 @@ export async function convertGlbToUsdz(
     });
 
     // Parse GLB/GLTF document using factory pattern
+    progress.enterStage(CONVERSION_STAGES.PARSING);
     let document = await parseGltfOrGlbDocument(input, logger);
 
+    // Decode Draco/meshopt compressed and quantized geometry to float32 attributes
+    document = await decodeCompressedGeometry(document, logger);
+
     // Apply preprocessing transforms if configured
     if (config?.preprocess) {
       logger.info('Applying GLTF preprocessing transforms', {
@@ -136,6 +176,11 @@ export async function convertGlbToUsdz(
       document = await preprocessGltfDocument(document, config.preprocess, logger);
     }
 
+    // Reduce meshes to the configured triangle budget
+    if (config) {
+      decimateGltfDocument(document, config, logger);
+    }
+
     // Process XMP metadata from document root
     const xmpMetadata = processXMPExtension(document);
     if (xmpMetadata) {
@@ -148,12 +193,19 @@ export async function convertGlbToUsdz(
     // Create USD root structure
     const root = document.getRoot();
     const allScenes = root.listScenes();
-    if (allScenes.length > 1) {
-      console.warn(
-        `[WebUsdFramework] GLB contains ${allScenes.length} scenes — only the first scene ("${allScenes[0].getName() || 'unnamed'}") will be converted. ${allScenes.length - 1} scene(s) will be skipped.`
+    const sceneMode = config?.sceneMode ?? 'first';
+    if (allScenes.length > 1 && sceneMode === 'first') {
+      logger.warn(
+        `GLB contains ${allScenes.length} scenes — only the first scene ("${allScenes[0].getName() || 'unnamed'}") will be converted. ${allScenes.length - 1} scene(s) will be skipped. Set sceneMode to 'variants' or 'siblings' to convert every scene.`,
+        {
+          stage: CONVERSION_STAGES.PARSING,
+          code: 'scene_skipped',
+          skippedScenes: allScenes.length - 1
+        }
       );
     }
-    const scene = allScenes[CONVERSION_CONSTANTS.FIRST_SCENE_INDEX];
+    const activeSceneIndex = resolveActiveSceneIndex(allScenes, root.getDefaultScene(), sceneMode, config?.activeScene);
+    const scene = allScenes[activeSceneIndex];
     const sceneName = scene.getName();
     const rootStructure = createRootStructure(sceneName);
 
@@ -170,7 +222,8 @@ export async function convertGlbToUsdz(
     // Process geometries using embedded approach for optimal USDZ compatibility
     // Geometry data is embedded directly in the main USD file instead of separate files
     // This ensures proper rendering across different USD viewers and platforms
-    const geometryResult = processGeometries(root.listMeshes());
+    progress.enterStage(CONVERSION_STAGES.GEOMETRY);
+    const geometryResult = await progress.runSteps(processGeometrySteps(root.listMeshes()));
 
     logger.info(`Processed ${geometryResult.geometryCounter} geometries (embedded approach)`, {
       stage: CONVERSION_STAGES.GEOMETRY
@@ -184,10 +237,17 @@ export async function convertGlbToUsdz(
       materialsNode: rootStructure.materialsNode,
       materialCounter: CONVERSION_CONSTANTS.INITIAL_COUNTER,
       document,
-      nodeMap: new Map<Node, UsdNode>()
+      nodeMap: new Map<Node, UsdNode>(),
+      lights: config?.lights,
+      // GLTF scene units are meters, written with the default metersPerUnit
+      metersPerUnit: DEFAULT_CONFIG.METERS_PER_UNIT
     };
 
-    for (const childNode of scene.listChildren()) {
+    progress.enterStage(CONVERSION_STAGES.MATERIALS);
+    const sceneChildren = scene.listChildren();
+    for (let i = 0; i < sceneChildren.length; i++) {
+      const childNode = sceneChildren[i];
+      if (i > 0) await progress.advance(i / sceneChildren.length);
       hierarchyContext.materialCounter = await buildNodeHierarchy(
         childNode,
         rootStructure.sceneNode,
@@ -204,6 +264,7 @@ export async function convertGlbToUsdz(
     );
 
     // Process skeletons (after node map is populated)
+    progress.enterStage(CONVERSION_STAGES.ANIMATIONS);
     logger.info('Processing skeletons', {
       stage: CONVERSION_STAGES.ANIMATIONS
     });
@@ -211,7 +272,8 @@ export async function convertGlbToUsdz(
       document,
       hierarchyContext.nodeMap,
       rootStructure.sceneNode.getPath(),
-      logger
+      logger,
+      config?.skinning
     );
 
     // Bind meshes to skeletons
@@ -435,46 +497,18 @@ export async function convertGlbToUsdz(
                 // Process each primitive's skinning data independently
                 for (let primIdx = 0; primIdx < primitives.length; primIdx++) {
                   const primitive = primitives[primIdx];
-                  const jointIndices = primitive.getAttribute('JOINTS_0')?.getArray();
-                  const jointWeights = primitive.getAttribute('WEIGHTS_0')?.getArray();
+                  const influences = readSkinInfluences(primitive);
 
                   logger.info('Extracting joint data from mesh primitive', {
                     nodeName: node.getName(),
                     meshName: mesh.getName(),
                     primitiveIndex: primIdx,
                     primitiveCount: primitives.length,
-                    hasJOINTS_0: !!jointIndices,
-                    hasWEIGHTS_0: !!jointWeights,
-                    jointIndicesType: jointIndices?.constructor?.name,
-                    jointWeightsType: jointWeights?.constructor?.name
+                    influenceSets: influences ? influences.elementSize / SKELETON.JOINTS_PER_VERTEX : 0
                   });
 
-                  let indicesArray: number[] = [];
-                  let weightsArray: number[] = [];
-
-                  if (jointIndices) {
-                    if (jointIndices instanceof Uint8Array || jointIndices instanceof Uint16Array) {
-                      indicesArray = Array.from(jointIndices);
-                    } else if (Array.isArray(jointIndices)) {
-                      indicesArray = jointIndices;
-                    }
-                  } else {
-                    logger.warn('No JOINTS_0 attribute found on primitive', {
-                      nodeName: node.getName(),
-                      meshName: mesh.getName(),
-                      primitiveIndex: primIdx
-                    });
-                    continue;
-                  }
-
-                  if (jointWeights) {
-                    if (jointWeights instanceof Float32Array) {
-                      weightsArray = Array.from(jointWeights);
-                    } else if (Array.isArray(jointWeights)) {
-                      weightsArray = jointWeights;
-                    }
-                  } else {
-                    logger.warn('No WEIGHTS_0 attribute found on primitive', {
+                  if (!influences) {
+                    logger.warn('No JOINTS_n/WEIGHTS_n attributes found on primitive', {
                       nodeName: node.getName(),
                       meshName: mesh.getName(),
                       primitiveIndex: primIdx
@@ -482,15 +516,7 @@ export async function convertGlbToUsdz(
                     continue;
                   }
 
-                  // Verify indices match weights (should be same length)
-                  if (indicesArray.length !== weightsArray.length) {
-                    logger.warn('Joint indices and weights length mismatch', {
-                      indicesLength: indicesArray.length,
-                      weightsLength: weightsArray.length,
-                      nodeName: node.getName(),
-                      primitiveIndex: primIdx
-                    });
-                  }
+                  const indicesArray = influences.indices;
 
                   // Map GLTF joint indices to USD skeleton joint indices
                   let unmappedIndices = 0;
@@ -535,10 +561,17 @@ export async function convertGlbToUsdz(
                     });
                   }
 
+                  // Merge influences that now share a joint, then prune to the budget
+                  const optimized = optimizeSkinInfluences(
+                    { elementSize: influences.elementSize, indices: remappedIndices, weights: influences.weights },
+                    config?.skinning?.maxInfluences
+                  );
+
                   logger.info('Validated joint indices for USD skeleton', {
                     primitiveIndex: primIdx,
-                    indicesCount: remappedIndices.length,
-                    weightsCount: weightsArray.length,
+                    indicesCount: optimized.indices.length,
+                    elementSize: optimized.elementSize,
+                    sourceElementSize: influences.elementSize,
                     skeletonJointCount
                   });
 
@@ -564,15 +597,15 @@ export async function convertGlbToUsdz(
                     primitiveIndex: primIdx,
                     originalParent: originalParent?.getName(),
                     skeletonPath: skeletonData.skelRootNode.getPath(),
-                    indicesCount: remappedIndices.length,
-                    weightsCount: weightsArray.length
+                    indicesCount: optimized.indices.length,
+                    elementSize: optimized.elementSize
                   });
 
                   bindSkeletonToMesh(
                     meshNode,
                     skeletonData.skelRootNode.getPath(),
-                    remappedIndices,
-                    weightsArray,
+                    optimized.indices,
+                    optimized.weights,
                     skeletonData.skelRootNode,
                     skeletonData.skeletonPrimNode,
                     logger,
@@ -581,7 +614,8 @@ export async function convertGlbToUsdz(
                     skeletonData.jointPaths.length,
                     node,
                     group.lcaUsdNode || undefined,
-                    document
+                    document,
+                    optimized.elementSize
                   );
                 }
               } else {
@@ -604,7 +638,8 @@ export async function convertGlbToUsdz(
       document,
       hierarchyContext.nodeMap,
       logger,
-      skeletonMap.size > 0 ? skeletonMap : undefined
+      skeletonMap.size > 0 ? skeletonMap : undefined,
+      config?.animation
     );
 
     // Move animated SkelRoots to top-level for defaultPrim compatibility
@@ -1316,17 +1351,60 @@ export async function convertGlbToUsdz(
       }
     }
 
+    // Build the remaining scenes once the active scene's paths are final
+    let sceneNodes = [rootStructure.sceneNode];
+    if (sceneMode !== 'first' && allScenes.length > 1) {
+      // Lifted SkelRoots belong to the active scene's variant or sibling prim
+      adoptLiftedSkelRoots(rootStructure);
+      sceneNodes = await buildAdditionalScenes(allScenes, activeSceneIndex, rootStructure, hierarchyContext, sceneMode);
+      logger.info(`Converted ${sceneNodes.length} scenes as ${sceneMode}`, {
+        stage: CONVERSION_STAGES.GEOMETRY,
+        activeScene: rootStructure.sceneNode.getName()
+      });
+
+      allScenes.forEach((otherScene, index) => {
+        if (index === activeSceneIndex) return;
+        const { skinnedNodes, animatedNodes } = countSceneDeformers(otherScene);
+        if (skinnedNodes > 0 || animatedNodes > 0) {
+          logger.warn(
+            `Scene "${sceneNodes[index].getName()}" has ${skinnedNodes} skinned and ${animatedNodes} animated node(s); skinning and animation are only converted for the active scene, so it is written as static geometry.`,
+            {
+              stage: CONVERSION_STAGES.GEOMETRY,
+              code: 'scene_deformers_skipped',
+              scene: sceneNodes[index].getName(),
+              skinnedNodes,
+              animatedNodes
+            }
+          );
+        }
+      });
+    }
+
     // Calculate and set scene extent
-    const sceneExtent = calculateSceneExtent(rootStructure.sceneNode);
-    if (sceneExtent) {
-      const [minX, minY, minZ, maxX, maxY, maxZ] = sceneExtent;
-      rootStructure.sceneNode.setProperty(
-        'float3[] extent',
-        `[(${minX}, ${minY}, ${minZ}), (${maxX}, ${maxY}, ${maxZ})]`,
-        'raw'
-      );
+    for (const sceneNode of sceneNodes) {
+      const sceneExtent = calculateSceneExtent(sceneNode);
+      if (sceneExtent) {
+        const [minX, minY, minZ, maxX, maxY, maxZ] = sceneExtent;
+        sceneNode.setProperty(
+          'float3[] extent',
+          `[(${minX}, ${minY}, ${minZ}), (${maxX}, ${maxY}, ${maxZ})]`,
+          'raw'
+        );
+      }
     }
 
+    if (sceneNodes.length > 1) {
+      arrangeScenes(rootStructure, sceneNodes, activeSceneIndex, sceneMode);
+    }
+
+    // Bring textures into an ARKit-readable format before asset paths are serialized
+    await processTextures(
+      hierarchyContext.textureFiles,
+      [rootStructure.rootNode, ...(rootStructure.topLevelPrims ?? [])],
+      config?.textures,
+      logger
+    );
+
     // Serialize Root node and its children
     let usdContent = rootStructure.rootNode.serializeToUsda();
 
@@ -1340,18 +1418,26 @@ export async function convertGlbToUsdz(
     // Create package content
     const packageContent: PackageContent = {
       usdContent,
+      usdContentNode: rootStructure.rootNode,
+      ...(rootStructure.topLevelPrims?.length ? { usdContentSiblingNodes: rootStructure.topLevelPrims } : {}),
       geometryFiles: geometryResult.geometryFiles,
       textureFiles: hierarchyContext.textureFiles
     };
+    const packageConfig = options?.layerFormat ? { layerFormat: options.layerFormat } : undefined;
 
     // Package as USDZ
+    progress.enterStage(CONVERSION_STAGES.PACKAGING);
     logger.info('Generating USDZ package', {
       stage: CONVERSION_STAGES.PACKAGING,
       fileCount: CONVERSION_CONSTANTS.MAIN_USD_FILE_COUNT + packageContent.geometryFiles.size + packageContent.textureFiles.size
     });
 
     if (options?.outputPath) {
-      const result = await createUsdzPackageToFile(packageContent, options.outputPath);
+      const result = await createUsdzPackageToFile(packageContent, options.outputPath, {
+        ...packageConfig,
+        ...progress.packagingOptions()
+      });
+      progress.enterStage(CONVERSION_STAGES.COMPLETE);
       logger.info('USDZ conversion completed', {
         stage: CONVERSION_STAGES.COMPLETE,
         usdzSize: result.totalBytes,
@@ -1361,7 +1447,11 @@ export async function convertGlbToUsdz(
       return result;
     }
 
-    const usdzBlob = await createUsdzPackage(packageContent);
+    const usdzBlob = await createUsdzPackage(packageContent, {
+      ...packageConfig,
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+    progress.enterStage(CONVERSION_STAGES.COMPLETE);
 
     logger.info('USDZ conversion completed', {
       stage: CONVERSION_STAGES.COMPLETE,
@@ -1,7 +1,26 @@
 /** WebUsdFramework.Converters.Gltf.GltfParser - GLTF/GLB binary parsing and memory loading via gltf-transform */
 
-import { Document, NodeIO } from '@gltf-transform/core';
+import { Document, ILogger, NodeIO } from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import * as draco3d from 'draco3dgltf';
+import { MeshoptDecoder } from 'meshoptimizer';
+import { logger } from '../../utils/logger';
+
+/**
+ * Routes gltf-transform's own messages through the framework logger, so
+ * extensions the reader skips show up as `unsupported_extension` warnings
+ */
+const gltfTransformLogger: ILogger = {
+  debug: (text) => logger.debug(text, { operation: 'gltf_io' }),
+  info: (text) => logger.info(text, { operation: 'gltf_io' }),
+  warn: (text) => {
+    const extension = /^Missing optional extension, "(.+)"\.$/.exec(text)?.[1];
+    logger.warn(text, extension
+      ? { operation: 'gltf_io', code: 'unsupported_extension', extension }
+      : { operation: 'gltf_io' });
+  },
+  error: (text) => logger.error(text, { operation: 'gltf_io' })
+};
 
 /**
  * Parser interface
@@ -11,21 +30,50 @@ export interface IGltfParser {
   getType(): string;
 }
 
+/**
+ * Decoder modules for KHR_draco_mesh_compression and EXT_meshopt_compression.
+ * The WASM builds are instantiated once and shared by every parser.
+ */
+let decoderDependencies: Promise<Record<string, unknown>> | undefined;
+
+function loadDecoderDependencies(): Promise<Record<string, unknown>> {
+  decoderDependencies ??= (async () => {
+    const [dracoDecoder] = await Promise.all([draco3d.createDecoderModule(), MeshoptDecoder.ready]);
+    return {
+      'draco3d.decoder': dracoDecoder,
+      'meshopt.decoder': MeshoptDecoder
+    };
+  })();
+  return decoderDependencies;
+}
+
+/**
+ * NodeIO with every glTF-Transform extension and the geometry decoders
+ * registered, so compressed primitives are decoded while reading
+ */
+export async function createGltfIO(): Promise<NodeIO> {
+  return new NodeIO()
+    .setLogger(gltfTransformLogger)
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies(await loadDecoderDependencies());
+}
+
 /**
  * GLB Parser - handles binary GLB files from ArrayBuffer
  */
 class GlbParser implements IGltfParser {
-  private io: NodeIO;
+  private io: Promise<NodeIO>;
 
   constructor() {
-    this.io = new NodeIO().registerExtensions(ALL_EXTENSIONS);
+    this.io = createGltfIO();
   }
 
   async parse(input: ArrayBuffer | string): Promise<Document> {
     if (typeof input === 'string') {
       throw new Error('GlbParser expects ArrayBuffer, received string path');
     }
-    const document = await this.io.readBinary(new Uint8Array(input));
+    const io = await this.io;
+    const document = await io.readBinary(new Uint8Array(input));
     this.convertSpecGlossToMetalRough(document);
     return document;
   }
@@ -69,10 +117,10 @@ class GlbParser implements IGltfParser {
  * GLTF Parser - handles JSON GLTF files with external resources
  */
 class GltfParser implements IGltfParser {
-  private io: NodeIO;
+  private io: Promise<NodeIO>;
 
   constructor() {
-    this.io = new NodeIO().registerExtensions(ALL_EXTENSIONS);
+    this.io = createGltfIO();
   }
 
   async parse(input: ArrayBuffer | string): Promise<Document> {
@@ -81,7 +129,8 @@ class GltfParser implements IGltfParser {
     }
 
     // Use NodeIO.read() which handles external .bin and texture files
-    const document = await this.io.read(input);
+    const io = await this.io;
+    const document = await io.read(input);
     this.convertSpecGlossToMetalRough(document);
     return document;
   }
@@ -125,10 +174,10 @@ class GltfParser implements IGltfParser {
  * GLTF Parser with fallback for missing resources
  */
 class GltfParserWithFallback implements IGltfParser {
-  private io: NodeIO;
+  private io: Promise<NodeIO>;
 
   constructor(_filePath: string) {
-    this.io = new NodeIO().registerExtensions(ALL_EXTENSIONS);
+    this.io = createGltfIO();
   }
 
   async parse(input: ArrayBuffer | string): Promise<Document> {
@@ -138,7 +187,8 @@ class GltfParserWithFallback implements IGltfParser {
 
     try {
       // Try to load with all resources
-      const document = await this.io.read(input);
+      const io = await this.io;
+      const document = await io.read(input);
 
       // Convert specular-glossiness materials to metallic-roughness for USDZ
       this.convertSpecGlossToMetalRoughOptimized(document);
@@ -177,7 +227,7 @@ class GltfParserWithFallback implements IGltfParser {
       }
     }
 
-    console.log(`Material conversion: ${convertedCount} converted, ${skippedCount} skipped`);
+    logger.info(`Material conversion: ${convertedCount} converted, ${skippedCount} skipped`);
   }
 
   /**
@@ -231,14 +281,17 @@ class GltfParserWithFallback implements IGltfParser {
             const bufferData = fs.readFileSync(bufferPath);
             resources[buffer.uri] = new Uint8Array(bufferData);
           } catch (bufferError: unknown) {
-            console.warn(`Failed to load buffer: ${buffer.uri}`, bufferError instanceof Error ? bufferError.message : String(bufferError));
+            logger.warn(`Failed to load buffer: ${buffer.uri}`, {
+              error: bufferError instanceof Error ? bufferError.message : String(bufferError)
+            });
           }
         }
       }
     }
 
     // Parse GLTF JSON with available resources (skip missing textures)
-    return await this.io.readJSON({ json: gltfJson, resources });
+    const io = await this.io;
+    return await io.readJSON({ json: gltfJson, resources });
   }
 
   getType(): string {
@@ -3,6 +3,7 @@
 import { Animation, Node, Skin } from '@gltf-transform/core';
 import { UsdNode } from '../../../core/usd-node';
 import { Logger } from '../../../utils';
+import { AnimationOptions } from '../../../schemas';
 import { SkeletonData } from './skeleton-processor';
 import { SkeletonAnimationProcessor } from './processors/skeleton-animation-processor';
 import { NodeAnimationProcessor } from './processors/node-animation-processor';
@@ -34,6 +35,8 @@ export interface AnimationProcessorContext {
   nodeMap: Map<Node, UsdNode>;
   logger: Logger;
   skeletonMap?: Map<Skin, SkeletonData> | undefined;
+  /** Bake rate and keyframe reduction tolerance for sampler resampling */
+  animation?: AnimationOptions | undefined;
 }
 
 /**
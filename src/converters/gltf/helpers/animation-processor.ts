@@ -2,6 +2,7 @@
 
 import { Document, Node, Skin, Animation } from '@gltf-transform/core';
 import { Logger } from '../../../utils';
+import { AnimationOptions } from '../../../schemas';
 import { SkeletonData } from './skeleton-processor';
 import { ANIMATION } from '../../../constants';
 import { UsdNode } from '../../../core/usd-node';
@@ -61,7 +62,8 @@ export function processAnimations(
   document: Document,
   nodeMap: Map<Node, UsdNode>,
   logger: Logger,
-  skeletonMap?: Map<Skin, SkeletonData>
+  skeletonMap?: Map<Skin, SkeletonData>,
+  animationOptions?: AnimationOptions
 ): AnimationTimeCode | null {
   const root = document.getRoot();
   const animations = root.listAnimations();
@@ -78,6 +80,7 @@ export function processAnimations(
     nodeMap,
     logger,
     skeletonMap,
+    animation: animationOptions,
   };
 
   const defaultFrameRate = ANIMATION.FRAME_RATE;
@@ -0,0 +1,214 @@
+/** WebUsdFramework.Converters.Gltf.Helpers.AnimationResampler - Bakes GLTF sampler curves into USD-ready linear keys */
+
+import { AnimationSampler } from '@gltf-transform/core';
+import { AnimationOptions } from '../../../schemas';
+import { ANIMATION } from '../../../constants';
+
+/**
+ * Keyframes USD can play back with its linear (slerp for quaternions)
+ * interpolation. Values keep the GLTF component order, so rotations are
+ * (x, y, z, w).
+ */
+export interface ResampledCurve {
+  times: number[];
+  values: number[][];
+}
+
+export type SamplerInterpolation = 'LINEAR' | 'STEP' | 'CUBICSPLINE';
+
+/**
+ * Resample a channel's sampler for `targetPath` ('translation', 'rotation',
+ * 'scale' or 'weights'). Returns null when the sampler has no keys.
+ */
+export function resampleAnimationSampler(
+  sampler: AnimationSampler,
+  targetPath: string | null,
+  options: AnimationOptions = {}
+): ResampledCurve | null {
+  const times = sampler.getInput()?.getArray();
+  const output = sampler.getOutput()?.getArray();
+  if (!times || !output || times.length === 0) return null;
+
+  const interpolation = sampler.getInterpolation() as SamplerInterpolation;
+  const isRotation = targetPath === 'rotation';
+  const valuesPerKey = interpolation === 'CUBICSPLINE' ? 3 : 1;
+  const componentCount = isRotation ? 4 : targetPath === 'weights'
+    ? Math.floor(output.length / (times.length * valuesPerKey))
+    : 3;
+  if (componentCount === 0) return null;
+
+  return resampleCurve(times, output, interpolation, componentCount, isRotation, options);
+}
+
+/**
+ * Evaluate a GLTF curve into linear keys and drop the keys that linear
+ * interpolation reproduces within the tolerance.
+ *
+ * - LINEAR keys are kept as they are.
+ * - STEP keys get a held copy one time code before the next key, so the
+ *   value only changes at the key.
+ * - CUBICSPLINE segments are evaluated as Hermite splines at `bakeRate`
+ *   samples per second. Rotations are evaluated per component and then
+ *   normalized, as the GLTF spec requires.
+ */
+export function resampleCurve(
+  times: ArrayLike<number>,
+  output: ArrayLike<number>,
+  interpolation: SamplerInterpolation,
+  componentCount: number,
+  isRotation: boolean,
+  options: AnimationOptions = {}
+): ResampledCurve {
+  const bakeRate = options.bakeRate ?? ANIMATION.BAKE_RATE;
+  const tolerance = options.tolerance ?? ANIMATION.RESAMPLE_TOLERANCE;
+  const keyCount = times.length;
+  const read = (offset: number) => Array.from({ length: componentCount }, (_, c) => output[offset + c]);
+
+  const curve: ResampledCurve = { times: [], values: [] };
+  if (interpolation === 'CUBICSPLINE') {
+    // Layout per key: [inTangent, value, outTangent]
+    const stride = componentCount * 3;
+    const value = (k: number) => read(k * stride + componentCount);
+    const inTangent = (k: number) => read(k * stride);
+    const outTangent = (k: number) => read(k * stride + componentCount * 2);
+
+    for (let k = 0; k < keyCount - 1; k++) {
+      const t0 = times[k];
+      const dt = times[k + 1] - t0;
+      const steps = Math.max(1, Math.ceil(dt * bakeRate));
+      const v0 = value(k);
+      const b0 = outTangent(k);
+      const v1 = value(k + 1);
+      const a1 = inTangent(k + 1);
+      for (let step = 0; step < steps; step++) {
+        const s = step / steps;
+        const s2 = s * s;
+        const s3 = s2 * s;
+        const h00 = 2 * s3 - 3 * s2 + 1;
+        const h10 = s3 - 2 * s2 + s;
+        const h01 = -2 * s3 + 3 * s2;
+        const h11 = s3 - s2;
+        curve.times.push(t0 + dt * s);
+        curve.values.push(v0.map((_, c) => h00 * v0[c] + h10 * dt * b0[c] + h01 * v1[c] + h11 * dt * a1[c]));
+      }
+    }
+    curve.times.push(times[keyCount - 1]);
+    curve.values.push(value(keyCount - 1));
+  } else {
+    const holdOffset = 1 / ANIMATION.TIME_CODE_FPS;
+    for (let k = 0; k < keyCount; k++) {
+      curve.times.push(times[k]);
+      curve.values.push(read(k * componentCount));
+      if (interpolation === 'STEP' && k < keyCount - 1) {
+        const holdTime = times[k + 1] - holdOffset;
+        if (holdTime > times[k]) {
+          curve.times.push(holdTime);
+          curve.values.push(read(k * componentCount));
+        }
+      }
+    }
+  }
+
+  if (isRotation) {
+    alignQuaternions(curve.values);
+  }
+  return reduceKeyframes(curve, isRotation, tolerance);
+}
+
+/**
+ * Normalize quaternions and flip each onto the hemisphere of its
+ * predecessor, so slerp between neighbours takes the short way round
+ */
+function alignQuaternions(values: number[][]): void {
+  let previous: number[] | undefined;
+  for (const q of values) {
+    const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+    const sign = previous && dot4(previous, q) < 0 ? -1 : 1;
+    for (let c = 0; c < 4; c++) q[c] = (q[c] / length) * sign;
+    previous = q;
+  }
+}
+
+function dot4(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+}
+
+/**
+ * Quaternion slerp along the shorter arc, as USD interpolates quatf samples
+ */
+function slerp(a: number[], b: number[], s: number): number[] {
+  if (dot4(a, b) < 0) b = b.map(value => -value);
+  const cos = Math.min(1, dot4(a, b));
+  if (cos > 0.9995) {
+    const q = a.map((value, c) => value + (b[c] - value) * s);
+    const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+    return q.map(value => value / length);
+  }
+  const theta = Math.acos(cos);
+  const sin = Math.sin(theta);
+  const wa = Math.sin((1 - s) * theta) / sin;
+  const wb = Math.sin(s * theta) / sin;
+  return a.map((value, c) => wa * value + wb * b[c]);
+}
+
+/**
+ * Deviation between an original key and its interpolated replacement
+ */
+function keyError(a: number[], b: number[], isRotation: boolean): number {
+  if (isRotation) {
+    return 2 * Math.acos(Math.min(1, Math.abs(dot4(a, b))));
+  }
+  let error = 0;
+  for (let c = 0; c < a.length; c++) {
+    error = Math.max(error, Math.abs(a[c] - b[c]));
+  }
+  return error;
+}
+
+/**
+ * Ramer-Douglas-Peucker over time: keep the key that deviates most from
+ * the interpolation between the kept neighbours until every dropped key is
+ * within `tolerance`. The first and last keys are always kept.
+ */
+function reduceKeyframes(curve: ResampledCurve, isRotation: boolean, tolerance: number): ResampledCurve {
+  const count = curve.times.length;
+  if (count <= 2 || tolerance <= 0) return curve;
+
+  const keep = new Uint8Array(count);
+  keep[0] = 1;
+  keep[count - 1] = 1;
+  const ranges: Array<[number, number]> = [[0, count - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    const t0 = curve.times[first];
+    const dt = curve.times[last] - t0;
+    const v0 = curve.values[first];
+    const v1 = curve.values[last];
+    let worst = -1;
+    let worstError = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const s = dt > 0 ? (curve.times[i] - t0) / dt : 0;
+      const interpolated = isRotation
+        ? slerp(v0, v1, s)
+        : v0.map((value, c) => value + (v1[c] - value) * s);
+      const error = keyError(curve.values[i], interpolated, isRotation);
+      if (error > worstError) {
+        worstError = error;
+        worst = i;
+      }
+    }
+    if (worst >= 0) {
+      keep[worst] = 1;
+      ranges.push([first, worst], [worst, last]);
+    }
+  }
+
+  const reduced: ResampledCurve = { times: [], values: [] };
+  for (let i = 0; i < count; i++) {
+    if (keep[i]) {
+      reduced.times.push(curve.times[i]);
+      reduced.values.push(curve.values[i]);
+    }
+  }
+  return reduced;
+}
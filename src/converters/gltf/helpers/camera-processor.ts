@@ -0,0 +1,97 @@
+/** WebUsdFramework.Converters.Gltf.Helpers.CameraProcessor - Translates GLTF cameras to UsdGeom Camera prims */
+
+import { Node } from '@gltf-transform/core';
+import { UsdNode } from '../../../core/usd-node';
+import { USD_CAMERA, USD_NODE_TYPES, USD_PROPERTY_TYPES } from '../../../constants/usd';
+import { formatUsdFloat, formatUsdTuple2 } from '../../../utils/usd-formatter';
+
+/**
+ * Camera properties extracted from GLTF
+ */
+export type CameraProperties =
+  | {
+    type: 'perspective';
+    yfov: number;
+    aspectRatio: number | null;
+    znear: number;
+    zfar: number | null;
+  }
+  | {
+    type: 'orthographic';
+    xmag: number;
+    ymag: number;
+    znear: number;
+    zfar: number;
+  };
+
+/**
+ * Read the camera attached to a GLTF node, if any
+ */
+export function processCamera(node: Node): CameraProperties | null {
+  const camera = node.getCamera();
+  if (!camera) {
+    return null;
+  }
+
+  if (camera.getType() === 'orthographic') {
+    return {
+      type: 'orthographic',
+      xmag: camera.getXMag(),
+      ymag: camera.getYMag(),
+      znear: camera.getZNear(),
+      zfar: camera.getZFar()
+    };
+  }
+
+  return {
+    type: 'perspective',
+    yfov: camera.getYFov(),
+    aspectRatio: camera.getAspectRatio(),
+    znear: camera.getZNear(),
+    zfar: camera.getZFar()
+  };
+}
+
+/**
+ * Add a Camera prim under the node's Xform.
+ *
+ * GLTF and USD cameras both look down -Z with +Y up, so the prim needs no
+ * transform of its own and follows the Xform, including node animation.
+ *
+ * Perspective cameras keep USD's default vertical aperture and derive the
+ * focal length from `yfov`; the horizontal aperture follows `aspectRatio`
+ * (USD's default film back when the GLTF leaves it to the viewport).
+ * Orthographic apertures span `2 * xmag` by `2 * ymag` scene units.
+ */
+export function applyCameraToUsdNode(usdNode: UsdNode, cameraProps: CameraProperties): UsdNode {
+  const cameraNode = new UsdNode(`${usdNode.getPath()}/Camera`, USD_NODE_TYPES.CAMERA);
+
+  let horizontalAperture: number;
+  let verticalAperture: number;
+  let far: number;
+
+  if (cameraProps.type === 'perspective') {
+    verticalAperture = USD_CAMERA.DEFAULT_VERTICAL_APERTURE;
+    horizontalAperture = cameraProps.aspectRatio
+      ? verticalAperture * cameraProps.aspectRatio
+      : USD_CAMERA.DEFAULT_HORIZONTAL_APERTURE;
+    far = cameraProps.zfar ?? USD_CAMERA.INFINITE_FAR_CLIP;
+
+    const focalLength = verticalAperture / (2 * Math.tan(cameraProps.yfov / 2));
+    cameraNode.setProperty('token projection', USD_CAMERA.PROJECTION_PERSPECTIVE, USD_PROPERTY_TYPES.TOKEN);
+    cameraNode.setProperty('float focalLength', formatUsdFloat(focalLength), USD_PROPERTY_TYPES.FLOAT);
+  } else {
+    horizontalAperture = (2 * cameraProps.xmag) / USD_CAMERA.APERTURE_UNIT;
+    verticalAperture = (2 * cameraProps.ymag) / USD_CAMERA.APERTURE_UNIT;
+    far = cameraProps.zfar;
+
+    cameraNode.setProperty('token projection', USD_CAMERA.PROJECTION_ORTHOGRAPHIC, USD_PROPERTY_TYPES.TOKEN);
+  }
+
+  cameraNode.setProperty('float horizontalAperture', formatUsdFloat(horizontalAperture), USD_PROPERTY_TYPES.FLOAT);
+  cameraNode.setProperty('float verticalAperture', formatUsdFloat(verticalAperture), USD_PROPERTY_TYPES.FLOAT);
+  cameraNode.setProperty('float2 clippingRange', formatUsdTuple2(cameraProps.znear, far), 'float2');
+
+  usdNode.addChild(cameraNode);
+  return cameraNode;
+}
@@ -4,6 +4,7 @@ import { Mesh } from '@gltf-transform/core';
 import { buildUsdGeometry, wrapGeometryInUsdFile } from '../../shared/usd-geometry-builder';
 import { buildGeometryPath, buildGeometryName } from '../../shared/usd-packaging';
 import { PrimitiveMetadata } from './usd-hierarchy-builder';
+import type { ConversionSteps } from '../../shared/conversion-progress';
 
 /**
  * Geometry Processing Result
@@ -18,20 +19,21 @@ export interface GeometryProcessingResult {
  * Processes all meshes for embedded geometry approach
  * Instead of creating separate geometry files, we collect the data to embed directly in the main USD
  * This approach ensures optimal USDZ compatibility across different viewers and platforms
+ * Yields the share of meshes processed after each mesh
  */
-export function processGeometries(meshes: Mesh[]): GeometryProcessingResult {
+export function* processGeometrySteps(meshes: Mesh[]): ConversionSteps<GeometryProcessingResult> {
   // We're not creating separate files anymore - everything goes into the main USD
   const geometryFiles = new Map<string, ArrayBuffer>();
   const primitiveMetadata: PrimitiveMetadata[] = [];
   let geometryCounter = 0;
 
-  for (const mesh of meshes) {
-    const primitives = mesh.listPrimitives();
+  for (let m = 0; m < meshes.length; m++) {
+    const primitives = meshes[m].listPrimitives();
 
     for (let i = 0; i < primitives.length; i++) {
       // Process the primitive to collect geometry data for embedding
       // Data will be embedded directly in the main USD file for optimal compatibility
-      const result = processPrimitive(mesh, i, geometryCounter);
+      const result = processPrimitive(meshes[m], i, geometryCounter);
 
       // Skip adding to geometryFiles - we're embedding everything in the main USD now
       // geometryFiles.set(result.filePath, result.buffer);
@@ -39,6 +41,7 @@ export function processGeometries(meshes: Mesh[]): GeometryProcessingResult {
 
       geometryCounter++;
     }
+    yield (m + 1) / meshes.length;
   }
 
   return {
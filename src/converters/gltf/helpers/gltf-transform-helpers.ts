@@ -1,6 +1,6 @@
 /** WebUsdFramework.Converters.Gltf.Helpers.GltfTransformHelpers - Wrapper utilities over @gltf-transform/core functions */
 
-import { Document } from '@gltf-transform/core';
+import { Document, Accessor, Primitive, PropertyType } from '@gltf-transform/core';
 import {
   dequantize,
   normals,
@@ -17,6 +17,7 @@ import {
   join
 } from '@gltf-transform/functions';
 import { Logger } from '../../../utils';
+import { simplifyMesh, remapVertexAttribute, resolveDecimationTarget, type DecimationSettings, type SimplifyAttribute } from '../../shared/mesh-simplifier';
 
 /**
  * Options for GLTF preprocessing transforms
@@ -327,3 +328,165 @@ export async function preprocessGltfDocument(
   return document;
 }
 
+/**
+ * Geometry compression extensions decoded by the parser's registered
+ * Draco and meshopt decoders
+ */
+const GEOMETRY_COMPRESSION_EXTENSIONS = [
+  'KHR_draco_mesh_compression',
+  'EXT_meshopt_compression',
+  'KHR_mesh_quantization'
+];
+
+/**
+ * Fully decode compressed geometry before it reaches the geometry processor.
+ * Draco and meshopt payloads are decompressed on read; this drops their
+ * extensions and dequantizes the integer attributes they usually carry
+ * (KHR_mesh_quantization) so every primitive holds plain float32 vertex data.
+ */
+export async function decodeCompressedGeometry(
+  document: Document,
+  logger: Logger
+): Promise<Document> {
+  const extensions = document.getRoot().listExtensionsUsed()
+    .filter(extension => GEOMETRY_COMPRESSION_EXTENSIONS.includes(extension.extensionName));
+  if (extensions.length === 0) return document;
+
+  logger.info('Decoding compressed geometry', {
+    stage: 'preprocessing',
+    operation: 'decodeCompressedGeometry',
+    extensions: extensions.map(extension => extension.extensionName)
+  });
+
+  for (const extension of extensions) {
+    if (extension.extensionName === 'KHR_mesh_quantization') {
+      // Removes the extension once every attribute is float32
+      await document.transform(dequantize());
+    } else {
+      extension.dispose();
+    }
+  }
+  return document;
+}
+
+/**
+ * Attribute error weights for decimation. Other attributes (joints,
+ * weights, tangents, morph targets) only keep their seams.
+ */
+function decimationWeight(semantic: string): number {
+  if (semantic === 'NORMAL') return 0.5;
+  if (semantic.startsWith('TEXCOORD_') || semantic.startsWith('COLOR_')) return 1;
+  return 0;
+}
+
+/**
+ * Accessor elements as plain floats (normalized integers decoded)
+ */
+function readAccessorFloats(accessor: Accessor): Float32Array {
+  const size = accessor.getElementSize();
+  const values = new Float32Array(accessor.getCount() * size);
+  const element: number[] = [];
+  for (let i = 0; i < accessor.getCount(); i++) {
+    accessor.getElement(i, element);
+    for (let c = 0; c < size; c++) values[i * size + c] = element[c];
+  }
+  return values;
+}
+
+/**
+ * Copy of `accessor` holding only the surviving vertices. The original is
+ * disposed once nothing else uses it.
+ */
+function remapAccessor(accessor: Accessor, vertexRemap: Uint32Array): Accessor {
+  return accessor.clone().setArray(remapVertexAttribute(accessor.getArray()!, accessor.getElementSize(), vertexRemap));
+}
+
+function disposeIfUnused(accessor: Accessor): void {
+  if (accessor.listParents().every(parent => parent.propertyType === PropertyType.ROOT)) {
+    accessor.dispose();
+  }
+}
+
+/**
+ * Decimate every triangle primitive to the configured triangle budget with
+ * the quadric error simplifier. The budget is shared between primitives by
+ * triangle count; all vertex attributes, skin data and morph targets are
+ * compacted alongside positions.
+ */
+export function decimateGltfDocument(
+  document: Document,
+  settings: DecimationSettings,
+  logger: Logger
+): void {
+  const primitives = document.getRoot().listMeshes()
+    .flatMap(mesh => mesh.listPrimitives())
+    .filter(prim => prim.getMode() === Primitive.Mode.TRIANGLES && prim.getAttribute('POSITION'));
+  const triangleCount = (prim: Primitive) =>
+    Math.floor((prim.getIndices()?.getCount() ?? prim.getAttribute('POSITION')!.getCount()) / 3);
+  const totalTriangles = primitives.reduce((sum, prim) => sum + triangleCount(prim), 0);
+  const target = resolveDecimationTarget(totalTriangles, settings);
+  if (target === 0) return;
+
+  logger.info('Decimating meshes', {
+    stage: 'preprocessing',
+    operation: 'decimate',
+    targetFaces: target,
+    inputFaces: totalTriangles
+  });
+
+  let outputTriangles = 0;
+  for (const prim of primitives) {
+    const position = prim.getAttribute('POSITION')!;
+    const indices = prim.getIndices();
+    const attributes: SimplifyAttribute[] = [];
+    for (const semantic of prim.listSemantics()) {
+      if (semantic === 'POSITION') continue;
+      const accessor = prim.getAttribute(semantic)!;
+      attributes.push({ values: readAccessorFloats(accessor), size: accessor.getElementSize(), weight: decimationWeight(semantic) });
+    }
+    for (const morphTarget of prim.listTargets()) {
+      for (const semantic of morphTarget.listSemantics()) {
+        const accessor = morphTarget.getAttribute(semantic)!;
+        attributes.push({ values: readAccessorFloats(accessor), size: accessor.getElementSize(), weight: 0 });
+      }
+    }
+
+    const simplified = simplifyMesh(
+      readAccessorFloats(position),
+      indices?.getArray() ?? Uint32Array.from({ length: position.getCount() }, (_, i) => i),
+      {
+        targetFaceCount: Math.max(1, Math.round(triangleCount(prim) * target / totalTriangles)),
+        attributes
+      }
+    );
+    outputTriangles += simplified.faceCount;
+
+    const replaced: Accessor[] = [];
+    for (const semantic of prim.listSemantics()) {
+      const accessor = prim.getAttribute(semantic)!;
+      prim.setAttribute(semantic, remapAccessor(accessor, simplified.vertexRemap));
+      replaced.push(accessor);
+    }
+    for (const morphTarget of prim.listTargets()) {
+      for (const semantic of morphTarget.listSemantics()) {
+        const accessor = morphTarget.getAttribute(semantic)!;
+        morphTarget.setAttribute(semantic, remapAccessor(accessor, simplified.vertexRemap));
+        replaced.push(accessor);
+      }
+    }
+    const indexArray = simplified.vertexCount <= 0xffff ? Uint16Array.from(simplified.indices) : simplified.indices;
+    const indexAccessor = document.createAccessor()
+      .setType('SCALAR')
+      .setArray(indexArray)
+      .setBuffer(position.getBuffer());
+    prim.setIndices(indexAccessor);
+    if (indices) replaced.push(indices);
+    replaced.forEach(disposeIfUnused);
+  }
+
+  logger.info('Meshes decimated', {
+    stage: 'preprocessing',
+    operation: 'decimate',
+    outputFaces: outputTriangles
+  });
+}
@@ -12,6 +12,7 @@ import { ANIMATION } from '../../../../constants';
 import { IAnimationProcessor, AnimationProcessorContext, AnimationProcessorResult } from '../animation-processor-factory';
 import { TimeCodeConverter } from '../../../../utils/time-code-converter';
 import { formatUsdNumberArrayFixed } from '../../../../utils/usd-formatter';
+import { resampleAnimationSampler } from '../animation-resampler';
 
 /**
  * Stores morph target animation data for a mesh.
@@ -172,10 +173,11 @@ export class MorphTargetAnimationProcessor implements IAnimationProcessor {
       //   values.length = 3 × times.length × morphTargetCount
       // For LINEAR/STEP:
       //   values.length = times.length × morphTargetCount
+      // The resampler bakes CUBICSPLINE and STEP curves into linear keys.
       const interpolation = sampler.getInterpolation();
-      const valuesPerKeyframe = interpolation === 'CUBICSPLINE' ? 3 : 1;
-      const morphTargetCount = Math.floor(values.length / (times.length * valuesPerKeyframe));
-      if (morphTargetCount === 0) {
+      const curve = resampleAnimationSampler(sampler, 'weights', context.animation);
+      const morphTargetCount = curve?.values[0]?.length ?? 0;
+      if (!curve || morphTargetCount === 0) {
         this.logger.warn(`Cannot determine morph target count from animation data`, {
           animationName,
           targetNode: targetNode.getName(),
@@ -186,34 +188,6 @@ export class MorphTargetAnimationProcessor implements IAnimationProcessor {
         continue;
       }
 
-      // For CUBICSPLINE, extract only the keyframe values (index 1 of each triplet per target)
-      // Layout: [inTangent_0..N, value_0..N, outTangent_0..N] per keyframe
-      let weightValues = values;
-      if (interpolation === 'CUBICSPLINE') {
-        weightValues = [];
-        for (let ki = 0; ki < times.length; ki++) {
-          const stride = morphTargetCount * 3;
-          const base = ki * stride + morphTargetCount; // skip in-tangents
-          for (let wi = 0; wi < morphTargetCount; wi++) {
-            weightValues.push(values[base + wi]);
-          }
-        }
-      }
-
-      // Validate that we have the right number of values
-      const expectedValueCount = times.length * morphTargetCount;
-      if (weightValues.length !== expectedValueCount) {
-        this.logger.warn(`Morph target weight count mismatch, using calculated count`, {
-          animationName,
-          targetNode: targetNode.getName(),
-          interpolation,
-          morphTargetCount,
-          timeSampleCount: times.length,
-          expectedValueCount,
-          actualValueCount: weightValues.length
-        });
-      }
-
       // Find the inner mesh node that contains the geometry
       // The nodeMap points to the outer node, but geometry is in a child mesh node
       let geometryMeshNode = usdNode;
@@ -225,12 +199,12 @@ export class MorphTargetAnimationProcessor implements IAnimationProcessor {
 
 
       // Collect all times
-      for (const time of times) {
+      for (const time of curve.times) {
         allAnimationTimes.add(time);
       }
 
-      if (times.length > 0) {
-        for (const t of times) {
+      if (curve.times.length > 0) {
+        for (const t of curve.times) {
           if (t > maxTime) maxTime = t;
         }
       }
@@ -257,13 +231,9 @@ export class MorphTargetAnimationProcessor implements IAnimationProcessor {
         continue;
       }
 
-      for (let i = 0; i < times.length; i++) {
-        const time = times[i];
-        const startIdx = i * morphTargetCount;
-        const weights = weightValues.slice(startIdx, startIdx + morphTargetCount);
-
+      for (let i = 0; i < curve.times.length; i++) {
         // Store weights for this time (if multiple channels target the same mesh, last one wins)
-        meshAnim.weights.set(time, weights);
+        meshAnim.weights.set(curve.times[i], curve.values[i]);
       }
 
       this.logger.info(`Processed morph target animation channel`, {
@@ -271,7 +241,7 @@ export class MorphTargetAnimationProcessor implements IAnimationProcessor {
         targetNode: targetNode.getName(),
         morphTargetCount,
         timeSampleCount: times.length,
-        weightCount: weightValues.length
+        resampledKeyCount: curve.times.length
       });
     }
 
@@ -11,6 +11,7 @@ import { Logger } from '../../../../utils';
 import { ANIMATION } from '../../../../constants';
 import { IAnimationProcessor, AnimationProcessorContext, AnimationProcessorResult } from '../animation-processor-factory';
 import { formatUsdTuple3, formatUsdTuple4 } from '../../../../utils/usd-formatter';
+import { resampleAnimationSampler } from '../animation-resampler';
 
 /**
  * Stores animation data for a single node.
@@ -199,21 +200,26 @@ export class NodeAnimationProcessor implements IAnimationProcessor {
         continue;
       }
 
-      const times = Array.from(inputArray as Float32Array);
-      const values = Array.from(outputArray as Float32Array);
-
-      // Check interpolation mode — CUBICSPLINE stores 3× the data per keyframe
-      // Layout: [inTangent, value, outTangent] per component per keyframe
+      // Bake CUBICSPLINE and STEP curves into linear keys that USD plays back
+      // the same way, then drop keys the interpolation reproduces anyway
       const interpolation = sampler.getInterpolation();
+      const curve = resampleAnimationSampler(sampler, targetPath, context.animation);
+      if (!curve) {
+        this.logger.warn(`Channel sampler has no keyframes`, {
+          animationName,
+          targetNode: targetNode.getName(),
+          targetPath
+        });
+        continue;
+      }
 
       this.logger.info(`Processing animation channel`, {
         animationName,
         targetNode: targetNode.getName(),
         targetPath,
         interpolation,
-        timeSampleCount: times.length,
-        valueCount: values.length,
-        expectedValueCount: targetPath === 'rotation' ? times.length * 4 : times.length * 3
+        keyframeCount: inputArray.length,
+        resampledKeyCount: curve.times.length
       });
 
       let nodeAnim = nodeAnimations.get(usdNode);
@@ -225,46 +231,21 @@ export class NodeAnimationProcessor implements IAnimationProcessor {
       // Store animation values for this node at each time point
       const timeSamples = new Map<number, string>();
       const componentCount = targetPath === 'rotation' ? 4 : 3;
-      // CUBICSPLINE: stride is 3× componentCount (inTangent + value + outTangent)
-      const stride = interpolation === 'CUBICSPLINE' ? componentCount * 3 : componentCount;
-
-      for (let i = 0; i < times.length; i++) {
-        const time = times[i];
-        const startIdx = i * stride + (interpolation === 'CUBICSPLINE' ? componentCount : 0);
-        const value = values.slice(startIdx, startIdx + componentCount);
-
-        // Make sure we have enough values
-        if (value.length < componentCount) {
-          this.logger.warn(`Insufficient values for animation sample at time ${time}`, {
-            expected: componentCount,
-            actual: value.length,
+
+      for (let i = 0; i < curve.times.length; i++) {
+        const time = curve.times[i];
+        const value = curve.values[i];
+
+        // Make sure all values are defined
+        if (value.some(component => component === undefined || Number.isNaN(component))) {
+          this.logger.warn(`Undefined values in animation sample at time ${time}`, {
+            values: value,
             targetPath,
             nodePath: usdNode.getPath()
           });
           continue;
         }
 
-        // Make sure all values are defined
-        if (componentCount === 3) {
-          if (value[0] === undefined || value[1] === undefined || value[2] === undefined) {
-            this.logger.warn(`Undefined values in animation sample at time ${time}`, {
-              values: value,
-              targetPath,
-              nodePath: usdNode.getPath()
-            });
-            continue;
-          }
-        } else {
-          if (value[0] === undefined || value[1] === undefined || value[2] === undefined || value[3] === undefined) {
-            this.logger.warn(`Undefined values in animation sample at time ${time}`, {
-              values: value,
-              targetPath,
-              nodePath: usdNode.getPath()
-            });
-            continue;
-          }
-        }
-
         let valueString: string;
         if (componentCount === 3) {
           // Format as (x, y, z) tuple
@@ -276,20 +257,6 @@ export class NodeAnimationProcessor implements IAnimationProcessor {
         timeSamples.set(time, valueString);
       }
 
-      // STEP interpolation: USD has no native step mode — simulate by inserting a
-      // duplicate sample at nextKeyframe - 1 frame so the linear interpolator holds
-      // the value until the very last moment before the next keyframe changes.
-      if (interpolation === 'STEP' && timeSamples.size > 1) {
-        const sortedTimes = Array.from(timeSamples.keys()).sort((a, b) => a - b);
-        const frameEpsilon = 1 / 120; // one frame at 120 timeCodesPerSecond (sub-frame hold)
-        for (let i = 0; i < sortedTimes.length - 1; i++) {
-          const holdTime = sortedTimes[i + 1] - frameEpsilon;
-          if (holdTime > sortedTimes[i]) {
-            timeSamples.set(holdTime, timeSamples.get(sortedTimes[i])!);
-          }
-        }
-      }
-
       if (targetPath === 'translation') {
         nodeAnim.translations = timeSamples;
         this.logger.info(`Added translation animation`, {
@@ -361,9 +328,10 @@ export class NodeAnimationProcessor implements IAnimationProcessor {
       if (existingOps && Array.isArray(existingOps)) {
         const opsArray = existingOps as string[];
         if (opsArray.includes('xformOp:translate') || opsArray.includes('xformOp:orient') || opsArray.includes('xformOp:scale')) {
-          console.warn(
-            `[WebUsdFramework] Node "${usdNode.getPath()}" already has animation from a previous clip. ` +
-            `Animation "${animationName}" will overwrite it. USDZ only supports one animation per node.`
+          this.logger.warn(
+            `Node "${usdNode.getPath()}" already has animation from a previous clip. ` +
+            `Animation "${animationName}" will overwrite it. USDZ only supports one animation per node.`,
+            { animationName, nodePath: usdNode.getPath() }
           );
         }
       }
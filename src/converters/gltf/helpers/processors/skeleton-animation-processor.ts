@@ -6,7 +6,7 @@
  * running, or any movement that involves a skeleton.
  */
 
-import { Animation, Skin } from '@gltf-transform/core';
+import { Animation, AnimationChannel, Skin } from '@gltf-transform/core';
 import { UsdNode } from '../../../../core/usd-node';
 import { Logger, sanitizeName, formatUsdQuotedArray } from '../../../../utils';
 import {
@@ -23,6 +23,7 @@ import {
   AnimationProcessorResult,
 } from '../animation-processor-factory';
 import { ANIMATION } from '../../../../constants';
+import { resampleAnimationSampler, ResampledCurve } from '../animation-resampler';
 
 /**
  * Stores animation data for a single joint (bone).
@@ -200,6 +201,7 @@ export class SkeletonAnimationProcessor implements IAnimationProcessor {
       // We need every time sample to build complete arrays for each frame
       // Skip joints that aren't in the final skeleton (like omitted root joint)
       const allAnimationTimes = new Set<number>();
+      const channelCurves = new Map<AnimationChannel, ResampledCurve>();
       let maxTime = 0;
 
       for (const channel of channels) {
@@ -219,13 +221,12 @@ export class SkeletonAnimationProcessor implements IAnimationProcessor {
         const sampler = channel.getSampler();
         if (!sampler) continue;
 
-        const input = sampler.getInput();
-        if (!input) continue;
+        // Bake CUBICSPLINE and STEP curves into reduced linear keys
+        const curve = resampleAnimationSampler(sampler, channel.getTargetPath(), context.animation);
+        if (!curve) continue;
+        channelCurves.set(channel, curve);
 
-        const inputArray = input.getArray();
-        if (!inputArray) continue;
-
-        const times = Array.from(inputArray as Float32Array);
+        const times = curve.times;
         for (const time of times) {
           allAnimationTimes.add(time);
         }
@@ -314,25 +315,10 @@ export class SkeletonAnimationProcessor implements IAnimationProcessor {
           isInSkeleton: skeletonJointPathsSet.has(jointPath),
         });
 
-        const sampler = channel.getSampler();
-        if (!sampler) continue;
-
-        const input = sampler.getInput();
-        const output = sampler.getOutput();
-        if (!input || !output) continue;
-
-        const inputArray = input.getArray();
-        const outputArray = output.getArray();
-        if (!inputArray || !outputArray) continue;
-
-        const times = Array.from(inputArray as Float32Array);
-        const values = Array.from(outputArray as Float32Array);
+        const curve = channelCurves.get(channel);
+        if (!curve) continue;
         const targetPath = channel.getTargetPath();
 
-        // Check interpolation mode — CUBICSPLINE stores 3× the data per keyframe
-        // Layout: [inTangent, value, outTangent] per component per keyframe
-        const interpolation = sampler.getInterpolation();
-
         let jointAnim = jointAnimations.get(jointPath);
         if (!jointAnim) {
           jointAnim = { jointPath };
@@ -342,13 +328,9 @@ export class SkeletonAnimationProcessor implements IAnimationProcessor {
         // Store the animation values for this joint at each time point
         const timeSamples = new Map<number, string>();
         const componentCount = targetPath === 'rotation' ? 4 : 3;
-        // CUBICSPLINE: stride is 3× componentCount (inTangent + value + outTangent)
-        const stride = interpolation === 'CUBICSPLINE' ? componentCount * 3 : componentCount;
 
-        for (let i = 0; i < times.length; i++) {
-          const time = times[i];
-          const startIdx = i * stride + (interpolation === 'CUBICSPLINE' ? componentCount : 0);
-          const value = values.slice(startIdx, startIdx + componentCount);
+        for (let i = 0; i < curve.times.length; i++) {
+          const value = curve.values[i];
 
           let valueString: string;
           if (componentCount === 3) {
@@ -358,20 +340,7 @@ export class SkeletonAnimationProcessor implements IAnimationProcessor {
             // Rotations: GLTF stores (x,y,z,w) but USD wants (w,x,y,z)
             valueString = formatUsdTuple4(value[3], value[0], value[1], value[2]);
           }
-          timeSamples.set(time, valueString);
-        }
-
-        // STEP interpolation: simulate by inserting a hold sample one frame before
-        // each keyframe transition so USD's linear interpolator holds the value.
-        if (interpolation === 'STEP' && timeSamples.size > 1) {
-          const frameEpsilon = 1 / 120; // one frame at 120 timeCodesPerSecond
-          const sortedTimes = Array.from(timeSamples.keys()).sort((a, b) => a - b);
-          for (let si = 0; si < sortedTimes.length - 1; si++) {
-            const holdTime = sortedTimes[si + 1] - frameEpsilon;
-            if (holdTime > sortedTimes[si]) {
-              timeSamples.set(holdTime, timeSamples.get(sortedTimes[si])!);
-            }
-          }
+          timeSamples.set(curve.times[i], valueString);
         }
 
         if (targetPath === 'translation') {
@@ -0,0 +1,267 @@
+/** WebUsdFramework.Converters.Gltf.Helpers.SceneBuilder - Emits every GLTF scene as a USD variant or sibling prim */
+
+import { Node, PropertyType, Scene } from '@gltf-transform/core';
+import { UsdNode } from '../../../core/usd-node';
+import { USD_NODE_TYPES, USD_ROOT_PATHS } from '../../../constants/usd';
+import { SceneMode } from '../../../schemas';
+import { UsdRootStructure, createSceneNode } from '../../shared/usd-root-builder';
+import { buildNodeHierarchy, HierarchyBuilderContext } from './usd-hierarchy-builder';
+
+/**
+ * Name of the variant set that holds one variant per GLTF scene
+ */
+export const SCENE_VARIANT_SET = 'sceneVariant';
+
+/**
+ * Picks the scene the converter builds through the full pipeline.
+ * `first` mode always uses scene 0; the other modes honour `activeScene`,
+ * then the document's default scene.
+ */
+export function resolveActiveSceneIndex(
+  scenes: Scene[],
+  defaultScene: Scene | null,
+  mode: SceneMode,
+  activeScene?: number
+): number {
+  if (mode === 'first') {
+    return 0;
+  }
+  if (activeScene !== undefined) {
+    if (activeScene >= scenes.length) {
+      throw new Error(`activeScene ${activeScene} is out of range: document has ${scenes.length} scene(s)`);
+    }
+    return activeScene;
+  }
+  const defaultIndex = defaultScene ? scenes.indexOf(defaultScene) : -1;
+  return defaultIndex === -1 ? 0 : defaultIndex;
+}
+
+/**
+ * Builds every scene except the active one under the scenes scope.
+ *
+ * Runs after the active scene went through skinning and animation, so the
+ * paths in `context.nodeMap` are final. Extra scenes share the context's
+ * material map and texture files, so materials used by several scenes are
+ * authored once. In `siblings` mode a node already built for an earlier
+ * scene is pulled in with an internal reference instead of being duplicated;
+ * variants cannot do that because a reference into an unselected variant
+ * does not resolve.
+ *
+ * Skinning and animation are only applied to the active scene; see
+ * `countSceneDeformers` for what the other scenes lose.
+ *
+ * @returns Every scene node, in document order
+ */
+export async function buildAdditionalScenes(
+  scenes: Scene[],
+  activeIndex: number,
+  rootStructure: UsdRootStructure,
+  context: HierarchyBuilderContext,
+  mode: SceneMode
+): Promise<UsdNode[]> {
+  const builtNodes = new Map(context.nodeMap);
+  const sceneNodes: UsdNode[] = [];
+
+  for (let i = 0; i < scenes.length; i++) {
+    if (i === activeIndex) {
+      sceneNodes.push(rootStructure.sceneNode);
+      continue;
+    }
+
+    const scene = scenes[i];
+    const sceneNode = createSceneNode(rootStructure.scenesNode, scene.getName());
+    const sceneContext: HierarchyBuilderContext = { ...context, nodeMap: new Map<Node, UsdNode>() };
+
+    for (const childNode of scene.listChildren()) {
+      const sharedNode = mode === 'siblings' ? builtNodes.get(childNode) : undefined;
+      if (sharedNode && !hasDeformers(childNode)) {
+        addSharedNodeReference(sceneNode, sharedNode);
+        continue;
+      }
+      sceneContext.materialCounter = await buildNodeHierarchy(childNode, sceneNode, sceneContext);
+    }
+
+    context.materialCounter = sceneContext.materialCounter;
+    for (const [gltfNode, usdNode] of sceneContext.nodeMap) {
+      if (!builtNodes.has(gltfNode)) {
+        builtNodes.set(gltfNode, usdNode);
+      }
+    }
+    sceneNodes.push(sceneNode);
+  }
+
+  return sceneNodes;
+}
+
+/**
+ * Moves the SkelRoots the skeleton pipeline lifted out of the active scene
+ * (animated skeletons go under the root prim, blend shape roots next to it)
+ * back under the active scene prim, so they follow that scene into its
+ * variant or sibling prim. Their ancestor transforms are already baked in
+ * and scene prims carry none, so they render in place. Relationships and
+ * references into a moved SkelRoot are retargeted.
+ */
+export function adoptLiftedSkelRoots(rootStructure: UsdRootStructure): void {
+  const { rootNode, sceneNode } = rootStructure;
+  const lifted: Array<{ skelRoot: UsdNode; detach: () => void }> = [];
+  for (const child of rootNode.getChildren()) {
+    if (child.getTypeName() === 'SkelRoot') {
+      lifted.push({ skelRoot: child, detach: () => rootNode.removeChild(child) });
+    }
+  }
+  const topLevelPrims = rootStructure.topLevelPrims ?? [];
+  for (const prim of topLevelPrims) {
+    if (prim.getTypeName() === 'SkelRoot') {
+      lifted.push({ skelRoot: prim, detach: () => topLevelPrims.splice(topLevelPrims.indexOf(prim), 1) });
+    }
+  }
+
+  const moves: Array<[string, string]> = [];
+  for (const { skelRoot, detach } of lifted) {
+    const siblingNames = new Set(Array.from(sceneNode.getChildren()).map(c => c.getName()));
+    let name = skelRoot.getName();
+    for (let suffix = 1; siblingNames.has(name); suffix++) {
+      name = `${skelRoot.getName()}_${suffix}`;
+    }
+    const oldPath = skelRoot.getPath();
+    const newPath = `${sceneNode.getPath()}/${name}`;
+    detach();
+    movePrim(skelRoot, oldPath, newPath);
+    sceneNode.addChild(skelRoot);
+    moves.push([oldPath, newPath]);
+  }
+
+  if (moves.length > 0) {
+    for (const root of [rootNode, ...topLevelPrims]) {
+      retargetPaths(root, moves);
+    }
+  }
+}
+
+/**
+ * Skinned and animated nodes of a scene. Only the active scene goes
+ * through the skeleton and animation stages, so in any other scene these
+ * are converted as static geometry.
+ */
+export function countSceneDeformers(scene: Scene): { skinnedNodes: number; animatedNodes: number } {
+  let skinnedNodes = 0;
+  let animatedNodes = 0;
+  const visit = (node: Node): void => {
+    if (node.getSkin()) skinnedNodes++;
+    if (node.listParents().some(parent => parent.propertyType === PropertyType.ANIMATION_CHANNEL)) animatedNodes++;
+    node.listChildren().forEach(visit);
+  };
+  scene.listChildren().forEach(visit);
+  return { skinnedNodes, animatedNodes };
+}
+
+/**
+ * Moves the scene nodes into their final layout.
+ *
+ * `siblings`: scenes stay under the scenes scope in document order and every
+ * scene but the active one is authored with `active = false`.
+ *
+ * `variants`: each scene moves into its own variant of `sceneVariant` on the
+ * root prim, wrapped in an `over` of the scenes scope so prim paths are the
+ * same as in a single-scene conversion.
+ */
+export function arrangeScenes(
+  rootStructure: UsdRootStructure,
+  sceneNodes: UsdNode[],
+  activeIndex: number,
+  mode: SceneMode
+): void {
+  const { rootNode, scenesNode } = rootStructure;
+  for (const sceneNode of sceneNodes) {
+    scenesNode.removeChild(sceneNode);
+  }
+
+  if (mode === 'siblings') {
+    sceneNodes.forEach((sceneNode, index) => {
+      if (index !== activeIndex) {
+        sceneNode.setMetadata('active', false);
+      }
+      scenesNode.addChild(sceneNode);
+    });
+    return;
+  }
+
+  for (const sceneNode of sceneNodes) {
+    const variant = rootNode.addVariant(SCENE_VARIANT_SET, sceneNode.getName());
+    const scenesOver = new UsdNode(USD_ROOT_PATHS.SCENES, 'over');
+    scenesOver.addChild(sceneNode);
+    variant.addChild(scenesOver);
+  }
+  rootNode.setVariantSelection(SCENE_VARIANT_SET, sceneNodes[activeIndex].getName());
+}
+
+/**
+ * Skinned and morph-targeted subtrees are rewired by the skeleton pipeline,
+ * so they are rebuilt rather than referenced
+ */
+function hasDeformers(gltfNode: Node): boolean {
+  if (gltfNode.getSkin()) {
+    return true;
+  }
+  const mesh = gltfNode.getMesh();
+  if (mesh && mesh.listPrimitives().some(primitive => primitive.listTargets().length > 0)) {
+    return true;
+  }
+  return gltfNode.listChildren().some(hasDeformers);
+}
+
+/**
+ * Rewrites the path of `node` and its subtree from under `oldPath` to under `newPath`
+ */
+function movePrim(node: UsdNode, oldPath: string, newPath: string): void {
+  node.updatePath(newPath + node.getPath().slice(oldPath.length));
+  for (const child of node.getChildren()) {
+    movePrim(child, oldPath, newPath);
+  }
+}
+
+/**
+ * Points every `<path>` target (relationships, connections, internal
+ * references) under `node` at the moved prims
+ */
+function retargetPaths(node: UsdNode, moves: Array<[string, string]>): void {
+  const retarget = (value: string): string => value.replace(/<([^<>]+)>/g, (match, target: string) => {
+    for (const [from, to] of moves) {
+      if (target === from || target.startsWith(`${from}/`)) {
+        return `<${to}${target.slice(from.length)}>`;
+      }
+    }
+    return match;
+  });
+
+  // Snapshot first: setProperty reorders the properties being iterated
+  for (const { key, value, type } of [...node.getProperties()]) {
+    if (typeof value === 'string' && value.includes('<')) {
+      const updated = retarget(value);
+      if (updated !== value) node.setProperty(key, updated, type);
+    } else if (Array.isArray(value) && value.some(item => typeof item === 'string' && item.includes('<'))) {
+      node.setProperty(key, (value as string[]).map(retarget), type);
+    }
+  }
+  for (const child of node.getChildren()) {
+    retargetPaths(child, moves);
+  }
+}
+
+/**
+ * Adds a prim under `sceneNode` that internally references `sharedNode`
+ */
+function addSharedNodeReference(sceneNode: UsdNode, sharedNode: UsdNode): void {
+  const siblingNames = new Set(Array.from(sceneNode.getChildren()).map(c => c.getName()));
+  let name = sharedNode.getName();
+  for (let suffix = 1; siblingNames.has(name); suffix++) {
+    name = `${sharedNode.getName()}_${suffix}`;
+  }
+
+  const referenceNode = new UsdNode(
+    `${sceneNode.getPath()}/${name}`,
+    sharedNode.getTypeName() || USD_NODE_TYPES.XFORM
+  );
+  referenceNode.setProperty('prepend references', `<${sharedNode.getPath()}>`);
+  sceneNode.addChild(referenceNode);
+}
@@ -5,6 +5,8 @@ import { UsdNode } from '../../../core/usd-node';
 import { Logger, sanitizeName, formatUsdQuotedArray, formatUsdArray, formatUsdNumberArray, formatUsdNumberArrayFixed, formatMatrix, IDENTITY_MATRIX } from '../../../utils';
 import { ApiSchemaBuilder, API_SCHEMAS } from '../../../utils/api-schema-builder';
 import { SKELETON } from '../../../constants/skeleton';
+import { SkinningOptions } from '../../../schemas';
+import { readSkinInfluences, accumulateJointWeights, selectSkeletonJoints } from './skin-influences';
 import { setTransformMatrixString } from '../../../utils/transform-utils';
 
 /**
@@ -48,7 +50,7 @@ function hasJointAnimation(jointNode: Node, document: Document): boolean {
 
 /**
  * Check if a joint (by index) is used by any meshes for skinning
- * This checks if the joint index appears in any mesh's JOINTS_0 attribute
+ * This checks if the joint index appears in any mesh's JOINTS_n attributes
  */
 function isJointUsedByMeshes(
   jointIndex: number,
@@ -66,24 +68,13 @@ function isJointUsedByMeshes(
     const mesh = node.getMesh();
     if (!mesh) continue;
 
-    // Check all primitives in the mesh
-    const primitives = mesh.listPrimitives();
-    for (const primitive of primitives) {
-      const jointsAttribute = primitive.getAttribute('JOINTS_0');
-      if (!jointsAttribute) continue;
-
-      const jointsArray = jointsAttribute.getArray();
-      if (!jointsArray) continue;
-
-      // Check if this joint index appears in the joints array
-      // JOINTS_0 contains indices into skin.joints array
-      if (jointsArray instanceof Uint8Array || jointsArray instanceof Uint16Array) {
-        const indices = Array.from(jointsArray);
-        if (indices.includes(jointIndex)) {
-          return true;
-        }
-      } else if (Array.isArray(jointsArray)) {
-        if (jointsArray.includes(jointIndex)) {
+    // Check every JOINTS_n set of every primitive in the mesh
+    // JOINTS_n contain indices into skin.joints array
+    for (const primitive of mesh.listPrimitives()) {
+      for (let set = 0; ; set++) {
+        const jointsArray = primitive.getAttribute(`JOINTS_${set}`)?.getArray();
+        if (!jointsArray) break;
+        if (Array.prototype.includes.call(jointsArray, jointIndex)) {
           return true;
         }
       }
@@ -93,6 +84,24 @@ function isJointUsedByMeshes(
   return false;
 }
 
+/**
+ * Total skin weight each joint of a skin receives from the meshes bound to it
+ * Indexed like skin.listJoints()
+ */
+function collectJointWeights(skin: Skin, document: Document): number[] {
+  const totals: number[] = new Array(skin.listJoints().length).fill(0);
+  for (const node of document.getRoot().listNodes()) {
+    if (node.getSkin() !== skin) continue;
+    for (const primitive of node.getMesh()?.listPrimitives() ?? []) {
+      const influences = readSkinInfluences(primitive);
+      if (influences) {
+        accumulateJointWeights(influences, totals);
+      }
+    }
+  }
+  return totals;
+}
+
 /**
  * Process skeletons from GLTF document
  * Returns map of skin to skeleton data
@@ -101,7 +110,8 @@ export function processSkeletons(
   document: Document,
   nodeMap: Map<Node, UsdNode>,
   rootPath: string,
-  logger: Logger
+  logger: Logger,
+  options: SkinningOptions = {}
 ): Map<Skin, SkeletonData> {
   const root = document.getRoot();
   const skins = root.listSkins();
@@ -182,8 +192,29 @@ export function processSkeletons(
       }
     }
 
-    const skeletonData = createSkeleton(skin, nodeMap, rootPath, logger, shouldOmitRootJoint);
+    // Drop joints no mesh is weighted to, and fold joints over the budget into their parents
+    const selection = selectSkeletonJoints(skin.listJoints(), collectJointWeights(skin, document), options);
+    if (selection.strippedCount > 0 || selection.collapsedCount > 0) {
+      logger.info('Reduced skeleton joints', {
+        skinName: skin.getName(),
+        totalJoints: joints.length,
+        strippedUnusedJoints: selection.strippedCount,
+        collapsedJoints: selection.collapsedCount
+      });
+    }
+
+    const skeletonData = createSkeleton(skin, nodeMap, rootPath, logger, shouldOmitRootJoint, selection.joints);
     if (skeletonData) {
+      const maxJoints = options.maxJoints ?? SKELETON.ARKIT_MAX_JOINTS;
+      const jointCount = skeletonData.jointPaths.length;
+      if ((options.jointBudget ?? 'warn') !== 'off' && jointCount > maxJoints) {
+        logger.warn(`Skeleton has ${jointCount} joints, more than the budget of ${maxJoints}`, {
+          skinName: skin.getName(),
+          jointCount,
+          maxJoints,
+          jointBudget: options.jointBudget ?? 'warn'
+        });
+      }
       skeletonMap.set(skin, skeletonData);
     }
   }
@@ -236,7 +267,8 @@ function createSkeleton(
   nodeMap: Map<Node, UsdNode>,
   rootPath: string,
   logger: Logger,
-  omitRootJoint: boolean = false
+  omitRootJoint: boolean = false,
+  keptJoints?: Set<Node>
 ): SkeletonData | null {
   let joints = skin.listJoints();
 
@@ -257,6 +289,11 @@ function createSkeleton(
     });
   }
 
+  // Keep only the joints selected for the skeleton (unused and over-budget joints removed)
+  if (keptJoints) {
+    joints = joints.filter(joint => keptJoints.has(joint));
+  }
+
   const skeletonName = sanitizeName(skin.getName() || 'Skeleton');
   const skelRootPath = `${rootPath}/${skeletonName}`;
   // Create SkelRoot as container
@@ -398,12 +435,12 @@ function createSkeleton(
     if (bindMatricesArray && bindMatricesArray.length === expectedArrayLength) {
       // Compute bind transforms by inverting the inverse bind matrices
       // Compute rest transforms from joint hierarchy's rest pose transforms
-      // If root joint was omitted, skip the first bind matrix (index 0)
+      // Omitted and removed joints skip their bind matrices
+      const originalJoints = skin.listJoints();
       for (let i = 0; i < joints.length; i++) {
         const joint = joints[i];
         // Map skeleton joint index to GLTF bind matrix index
-        // If root joint was omitted, skeleton joint 0 maps to GLTF bind matrix 1
-        const gltfJointIndex = omitRootJoint ? i + 1 : i;
+        const gltfJointIndex = originalJoints.indexOf(joint);
         const startIdx = gltfJointIndex * 16;
         const invMatrix = Array.from(bindMatricesArray).slice(startIdx, startIdx + 16);
 
@@ -509,11 +546,12 @@ function createSkeleton(
     const gltfJoint = originalJoints[gltfJointIndex];
 
     // Find this joint in the USD skeleton joints array
-    let usdJointIndex = -1;
-    for (let i = 0; i < joints.length; i++) {
-      if (joints[i] === gltfJoint) {
-        usdJointIndex = i;
-        break;
+    let usdJointIndex = joints.indexOf(gltfJoint);
+
+    // Joints removed from the skeleton hand their weights to the nearest kept ancestor
+    if (usdJointIndex === -1 && keptJoints && !keptJoints.has(gltfJoint)) {
+      for (let ancestor = gltfJoint.getParentNode(); ancestor && usdJointIndex === -1; ancestor = ancestor.getParentNode()) {
+        usdJointIndex = joints.indexOf(ancestor);
       }
     }
 
@@ -922,7 +960,8 @@ export function bindSkeletonToMesh(
   skeletonJointCount?: number,
   gltfNode?: Node,
   commonAncestorUsdNode?: UsdNode,
-  document?: Document
+  document?: Document,
+  elementSize: number = SKELETON.ELEMENT_SIZE
 ): void {
   const meshName = meshNode.getName();
   const skeletonPrimPath = skeletonPrimNode.getPath();
@@ -1092,7 +1131,7 @@ export function bindSkeletonToMesh(
     meshNode.setProperty('uniform token primvars:skel:jointIndices:interpolation', 'vertex', 'interpolation');
     // Set elementSize so USD knows how many joint index values each vertex has
     // USD needs this to correctly parse the joint indices array
-    meshNode.setProperty('int primvars:skel:jointIndices:elementSize', SKELETON.ELEMENT_SIZE, 'elementSize');
+    meshNode.setProperty('int primvars:skel:jointIndices:elementSize', elementSize, 'elementSize');
 
     logger.info('Set joint indices', {
       meshName,
@@ -1110,7 +1149,7 @@ export function bindSkeletonToMesh(
     // Normalize weights per vertex
     // This ensures each vertex's weights sum to 1.0 for proper skinning
     const normalizedWeights: number[] = [];
-    const weightsPerVertex = SKELETON.JOINTS_PER_VERTEX;
+    const weightsPerVertex = elementSize;
 
     for (let i = 0; i < jointWeights.length; i += weightsPerVertex) {
       const vertexWeights = jointWeights.slice(i, i + weightsPerVertex);
@@ -1139,7 +1178,7 @@ export function bindSkeletonToMesh(
     meshNode.setProperty('uniform token primvars:skel:jointWeights:interpolation', 'vertex', 'interpolation');
     // Set elementSize so USD knows how many joint weight values each vertex has
     // USD needs this to correctly parse the joint weights array
-    meshNode.setProperty('int primvars:skel:jointWeights:elementSize', SKELETON.ELEMENT_SIZE, 'elementSize');
+    meshNode.setProperty('int primvars:skel:jointWeights:elementSize', elementSize, 'elementSize');
 
     logger.info('Set joint weights with normalization', {
       meshName,
@@ -1148,8 +1187,8 @@ export function bindSkeletonToMesh(
       weightsPerVertex,
       sampleOriginalWeights: jointWeights.slice(0, 8).map(w => w.toFixed(4)),
       sampleNormalizedWeights: normalizedWeights.slice(0, 8).map(w => w.toFixed(4)),
-      firstVertexWeightSum: jointWeights.slice(0, 4).reduce((sum, w) => sum + w, 0).toFixed(4),
-      firstVertexNormalizedSum: normalizedWeights.slice(0, 4).reduce((sum, w) => sum + w, 0).toFixed(4)
+      firstVertexWeightSum: jointWeights.slice(0, weightsPerVertex).reduce((sum, w) => sum + w, 0).toFixed(4),
+      firstVertexNormalizedSum: normalizedWeights.slice(0, weightsPerVertex).reduce((sum, w) => sum + w, 0).toFixed(4)
     });
   } else {
     logger.warn('No joint weights provided', { meshName });
@@ -0,0 +1,182 @@
+/** WebUsdFramework.Converters.Gltf.Helpers.SkinInfluences - Merges, prunes and budgets GLTF skin weights for UsdSkel */
+
+import { Accessor, Node, Primitive } from '@gltf-transform/core';
+import { SkinningOptions } from '../../../schemas';
+import { SKELETON } from '../../../constants';
+
+/**
+ * Per-vertex joint influences, `elementSize` entries per vertex
+ */
+export interface SkinInfluences {
+  elementSize: number;
+  indices: number[];
+  weights: number[];
+}
+
+/**
+ * Joints kept in a skin's USD skeleton
+ */
+export interface SkeletonJointSelection {
+  joints: Set<Node>;
+  /** Unweighted joints dropped along with their subtrees */
+  strippedCount: number;
+  /** Leaf joints folded into their parents to meet the joint budget */
+  collapsedCount: number;
+}
+
+/**
+ * Read every JOINTS_n / WEIGHTS_n set of a primitive into one list of
+ * influences per vertex. Normalized integer weights are decoded to floats.
+ * Returns null when the primitive has no complete set.
+ */
+export function readSkinInfluences(primitive: Primitive): SkinInfluences | null {
+  const sets: Array<{ joints: Accessor; weights: Accessor }> = [];
+  for (let set = 0; ; set++) {
+    const joints = primitive.getAttribute(`JOINTS_${set}`);
+    const weights = primitive.getAttribute(`WEIGHTS_${set}`);
+    if (!joints || !weights) break;
+    sets.push({ joints, weights });
+  }
+  if (sets.length === 0) return null;
+
+  const vertexCount = Math.min(...sets.map(set => Math.min(set.joints.getCount(), set.weights.getCount())));
+  const elementSize = sets.reduce((size, set) => size + set.joints.getElementSize(), 0);
+  const indices: number[] = new Array(vertexCount * elementSize);
+  const weights: number[] = new Array(vertexCount * elementSize);
+  const jointElement: number[] = [];
+  const weightElement: number[] = [];
+
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    let offset = vertex * elementSize;
+    for (const set of sets) {
+      set.joints.getElement(vertex, jointElement);
+      set.weights.getElement(vertex, weightElement);
+      for (let i = 0; i < jointElement.length; i++) {
+        indices[offset] = jointElement[i];
+        weights[offset] = weightElement[i] ?? 0;
+        offset++;
+      }
+    }
+  }
+
+  return { elementSize, indices, weights };
+}
+
+/**
+ * Merge repeated joints per vertex, drop zero weights and keep at most
+ * `maxInfluences` of the strongest, renormalized to sum to 1. The result's
+ * `elementSize` is the largest influence count left on any vertex; shorter
+ * vertices are padded with zero weights. A vertex without any weight is
+ * bound fully to its first listed joint.
+ */
+export function optimizeSkinInfluences(influences: SkinInfluences, maxInfluences?: number): SkinInfluences {
+  const { elementSize, indices, weights } = influences;
+  const vertexCount = elementSize > 0 ? Math.floor(indices.length / elementSize) : 0;
+  const limit = maxInfluences ?? Infinity;
+
+  const perVertex: Array<Array<[number, number]>> = [];
+  let outputSize = 1;
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const start = vertex * elementSize;
+    const merged = new Map<number, number>();
+    for (let i = start; i < start + elementSize; i++) {
+      if (weights[i] > 0) {
+        merged.set(indices[i], (merged.get(indices[i]) ?? 0) + weights[i]);
+      }
+    }
+
+    let entries = [...merged].sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+    if (entries.length > limit) entries = entries.slice(0, limit);
+    const sum = entries.reduce((total, [, weight]) => total + weight, 0);
+    entries = sum > 0
+      ? entries.map(([joint, weight]) => [joint, weight / sum] as [number, number])
+      : [[indices[start] ?? 0, 1]];
+
+    perVertex.push(entries);
+    outputSize = Math.max(outputSize, entries.length);
+  }
+
+  const result: SkinInfluences = { elementSize: outputSize, indices: [], weights: [] };
+  for (const entries of perVertex) {
+    for (let i = 0; i < outputSize; i++) {
+      result.indices.push(i < entries.length ? entries[i][0] : 0);
+      result.weights.push(i < entries.length ? entries[i][1] : 0);
+    }
+  }
+  return result;
+}
+
+/**
+ * Add each influence's weight to its joint's total
+ */
+export function accumulateJointWeights(influences: SkinInfluences, totals: number[]): void {
+  for (let i = 0; i < influences.indices.length; i++) {
+    const joint = influences.indices[i];
+    if (influences.weights[i] > 0 && joint >= 0) {
+      totals[joint] = (totals[joint] ?? 0) + influences.weights[i];
+    }
+  }
+}
+
+/**
+ * Choose the joints of a skin's USD skeleton from the total skin weight
+ * each joint receives (indexed like `joints`).
+ *
+ * Unless `stripUnusedJoints` is false, joints whose whole subtree carries
+ * no weight are dropped. With `jointBudget: 'reduce'`, the leaf joint with
+ * the least weight is then folded into its parent until the skeleton fits
+ * `maxJoints`. Only leaves are removed, so the kept joints' local
+ * transforms stay valid.
+ */
+export function selectSkeletonJoints(
+  joints: Node[],
+  weightTotals: number[],
+  options: SkinningOptions = {}
+): SkeletonJointSelection {
+  const jointSet = new Set(joints);
+  const kept = new Set(joints);
+  const weightOf = new Map<Node, number>(joints.map((joint, i) => [joint, weightTotals[i] ?? 0]));
+  const parentOf = (joint: Node): Node | null => {
+    const parent = joint.getParentNode();
+    return parent && jointSet.has(parent) ? parent : null;
+  };
+  const isLeaf = (joint: Node): boolean =>
+    !joint.listChildren().some(child => kept.has(child));
+
+  let strippedCount = 0;
+  const hasWeights = [...weightOf.values()].some(weight => weight > 0);
+  if (options.stripUnusedJoints !== false && hasWeights) {
+    let removed = true;
+    while (removed) {
+      removed = false;
+      for (const joint of kept) {
+        if (kept.size > 1 && weightOf.get(joint)! <= 0 && isLeaf(joint)) {
+          kept.delete(joint);
+          strippedCount++;
+          removed = true;
+        }
+      }
+    }
+  }
+
+  let collapsedCount = 0;
+  const maxJoints = options.maxJoints ?? SKELETON.ARKIT_MAX_JOINTS;
+  if (options.jointBudget === 'reduce') {
+    while (kept.size > maxJoints) {
+      let lightest: Node | null = null;
+      for (const joint of kept) {
+        if (parentOf(joint) && isLeaf(joint) && (!lightest || weightOf.get(joint)! < weightOf.get(lightest)!)) {
+          lightest = joint;
+        }
+      }
+      if (!lightest) break;
+
+      const parent = parentOf(lightest)!;
+      weightOf.set(parent, weightOf.get(parent)! + weightOf.get(lightest)!);
+      kept.delete(lightest);
+      collapsedCount++;
+    }
+  }
+
+  return { joints: kept, strippedCount, collapsedCount };
+}
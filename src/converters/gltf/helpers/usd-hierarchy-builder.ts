@@ -10,7 +10,9 @@ import { formatUsdTuple3, formatUsdTuple2 } from '../../../utils/usd-formatter';
 import { SkeletonData } from './skeleton-processor';
 import { ApiSchemaBuilder, API_SCHEMAS } from '../../../utils/api-schema-builder';
 import { processLightExtension, applyLightToUsdNode } from '../extensions/light-processor';
-import { processInstancingExtension, applyInstancingToUsdNode } from '../extensions/instancing-processor';
+import { processInstancingExtension, createPointInstancer, applyInstancingToUsdNode } from '../extensions/instancing-processor';
+import { processCamera, applyCameraToUsdNode } from './camera-processor';
+import { LightOptions } from '../../../schemas';
 
 /**
  * Primitive Metadata Interface
@@ -42,6 +44,8 @@ export interface HierarchyBuilderContext {
   document: Document;
   nodeMap: Map<Node, UsdNode>;
   skeletonMap?: Map<Skin, SkeletonData>;
+  lights?: LightOptions | undefined;
+  metersPerUnit?: number | undefined;
 }
 
 
@@ -139,6 +143,11 @@ export function calculateSceneExtent(sceneNode: UsdNode): [number, number, numbe
       }
     }
 
+    // Prototypes are only drawn through the instancer, whose extent covers them
+    if (node.getTypeName() === USD_NODE_TYPES.POINT_INSTANCER) {
+      return;
+    }
+
     for (const child of node.getChildren()) {
       collectExtents(child, worldMatrix);
     }
@@ -184,16 +193,26 @@ export async function buildNodeHierarchy(
   // Add to node map for animation processing
   context.nodeMap.set(gltfNode, currentNode);
 
-  // Warn if this node has a camera (not yet supported in USDZ export)
-  const camera = gltfNode.getCamera();
-  if (camera) {
-    console.warn(
-      `[WebUsdFramework] Node "${nodeName}" has a camera ("${camera.getName() || 'unnamed'}") attached — cameras are not supported in USDZ and will be skipped.`
-    );
+  // Cameras become a Camera prim under the Xform so they follow node animation
+  const cameraProps = processCamera(gltfNode);
+  if (cameraProps) {
+    applyCameraToUsdNode(currentNode, cameraProps);
   }
 
   const mesh = gltfNode.getMesh();
-  if (mesh) {
+  const instancingProps = mesh ? processInstancingExtension(gltfNode) : null;
+  if (mesh && instancingProps) {
+    // EXT_mesh_gpu_instancing: the mesh becomes the prototype of a
+    // PointInstancer instead of being written once per instance
+    const { instancer, prototype } = createPointInstancer(currentNode, nodeName);
+    context.materialCounter = await processMesh(
+      mesh,
+      prototype,
+      nodeName,
+      context
+    );
+    applyInstancingToUsdNode(instancer, instancingProps, prototype);
+  } else if (mesh) {
     context.materialCounter = await processMesh(
       mesh,
       currentNode,
@@ -206,16 +225,7 @@ export async function buildNodeHierarchy(
   // Process light extension if present
   const lightProps = processLightExtension(gltfNode);
   if (lightProps) {
-    applyLightToUsdNode(currentNode, lightProps);
-  }
-
-  // Process GPU instancing extension if present
-  const instancingProps = processInstancingExtension(gltfNode);
-  if (instancingProps && mesh) {
-    // For instancing, we need to reference the prototype mesh
-    // The prototype path would be the mesh node path
-    const prototypePath = currentNode.getPath();
-    applyInstancingToUsdNode(currentNode, instancingProps, prototypePath);
+    applyLightToUsdNode(currentNode, lightProps, context.lights, context.metersPerUnit);
   }
 
   // Process children recursively
@@ -842,25 +852,13 @@ async function processMaterialVariants(
     }
   }
 
-  // Create USD variant set
+  // Create USD variant set: each variant rebinds the mesh's material
   if (variantMaterials.size > 0) {
-    targetNode.setProperty(`variantSetNames`, `["${variantSetName}"]`, 'token[]');
-    targetNode.setProperty(`variantSet.variantSetNames`, `["${variantSetName}"]`, 'token[]');
-
-    // Create variants
+    ApiSchemaBuilder.addApiSchema(targetNode, API_SCHEMAS.MATERIAL_BINDING);
     for (const [variantName, materialInfo] of variantMaterials.entries()) {
-      // Set material binding for this variant
-      ApiSchemaBuilder.addApiSchema(targetNode, API_SCHEMAS.MATERIAL_BINDING);
-      const materialPath = materialInfo.node.getPath();
-
-      // Note: USD variant syntax requires setting properties within variant scope
-      // This is a simplified approach - full variant implementation would require
-      // more complex USD structure
-      targetNode.setProperty(
-        `${variantSetName}.${variantName}.${USD_PROPERTIES.MATERIAL_BINDING}`,
-        `<${materialPath}>`,
-        USD_PROPERTY_TYPES.REL
-      );
+      targetNode
+        .addVariant(variantSetName, variantName)
+        .setProperty(USD_PROPERTIES.MATERIAL_BINDING, `<${materialInfo.node.getPath()}>`, USD_PROPERTY_TYPES.REL);
     }
 
     // Set default variant (use first variant or default material)
@@ -0,0 +1,14 @@
+/**
+ * Model Info
+ *
+ * Entry point for summarizing a source model (meshes, materials, textures, animations, bounds) before conversion.
+ */
+
+export {
+  getModelInfo,
+  type ModelInfo,
+  type ModelMeshInfo,
+  type ModelTextureInfo,
+  type ModelAnimationInfo,
+  type ModelBounds
+} from './model-info';
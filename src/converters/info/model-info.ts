@@ -0,0 +1,385 @@
+/** WebUsdFramework.Converters.Info.ModelInfo - Summarizes a source model's meshes, materials, textures, animations and bounds */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, getBounds } from '@gltf-transform/core';
+import { UsdErrorFactory } from '../../errors';
+import { GltfParserFactory } from '../gltf/gltf-parser';
+import { readFbxDocument } from '../fbx';
+import { parseStl } from '../stl/stl-parser';
+import { parsePlyFile } from '../ply/ply-parser';
+import { parseThreeMfFile, forEachMeshInstance, transformPoint, ThreeMfMesh } from '../threemf/threemf-parser';
+
+/**
+ * Axis-aligned bounds in source units
+ */
+export interface ModelBounds {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export interface ModelMeshInfo {
+  name: string;
+  vertexCount: number;
+  /** 0 for point clouds and line/point primitives */
+  triangleCount: number;
+  /** Names of the materials the mesh uses */
+  materials: string[];
+}
+
+export interface ModelTextureInfo {
+  name: string;
+  mimeType?: string;
+  /** Size of the encoded image; absent when the file could not be found */
+  byteLength?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface ModelAnimationInfo {
+  name: string;
+  channels: number;
+  /** Length in seconds */
+  duration: number;
+}
+
+/**
+ * Summary of a source model, as reported by `getModelInfo`
+ */
+export interface ModelInfo {
+  format: 'glb' | 'gltf' | 'obj' | 'fbx' | 'stl' | 'ply' | '3mf';
+  meshes: ModelMeshInfo[];
+  materials: string[];
+  textures: ModelTextureInfo[];
+  animations: ModelAnimationInfo[];
+  vertexCount: number;
+  triangleCount: number;
+  /** Null when the model has no geometry */
+  bounds: ModelBounds | null;
+}
+
+const TEXTURE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ktx2': 'image/ktx2',
+  '.tga': 'image/x-tga',
+  '.bmp': 'image/bmp'
+};
+
+/** GLTF primitive modes (TRIANGLES, TRIANGLE_STRIP, TRIANGLE_FAN) */
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+/**
+ * Summarize a model file without converting it.
+ *
+ * Reports every mesh with its vertex and triangle counts, the materials and
+ * textures it references, animations with their length, and the model's
+ * bounds. GLB/GLTF files are read with glTF-Transform (FBX with the native
+ * FBX reader); OBJ files are scanned along with their MTL libraries;
+ * STL, PLY and 3MF files are parsed with the converters' own parsers.
+ *
+ * @param filePath - Path to a `.glb`, `.gltf`, `.obj`, `.fbx`, `.stl`, `.ply` or `.3mf` file
+ *
+ * @example
+ * ```typescript
+ * const info = await getModelInfo('./model.glb');
+ * console.log(`${info.meshes.length} meshes, ${info.triangleCount} triangles`);
+ * ```
+ */
+export async function getModelInfo(filePath: string): Promise<ModelInfo> {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw UsdErrorFactory.fileSystemError(`File not found: ${resolved}`, resolved, 'read');
+  }
+
+  const extension = path.extname(resolved).toLowerCase();
+  switch (extension) {
+    case '.glb': {
+      const buffer = fs.readFileSync(resolved);
+      const glb = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+      return getDocumentInfo(await GltfParserFactory.parse(glb), 'glb');
+    }
+    case '.gltf':
+      return getDocumentInfo(await GltfParserFactory.parse(resolved), 'gltf');
+    case '.fbx':
+      return getDocumentInfo(await readFbxDocument(resolved), 'fbx');
+    case '.obj':
+      return getObjInfo(resolved);
+    case '.stl':
+      return getStlInfo(resolved);
+    case '.ply':
+      return getPlyInfo(resolved);
+    case '.3mf':
+      return getThreeMfInfo(resolved);
+    default:
+      throw UsdErrorFactory.conversionError(`Unsupported file format: ${extension}`, 'unsupported_format');
+  }
+}
+
+function getDocumentInfo(document: Document, format: ModelInfo['format']): ModelInfo {
+  const root = document.getRoot();
+
+  const meshes = root.listMeshes().map((mesh, index): ModelMeshInfo => {
+    let vertexCount = 0;
+    let triangleCount = 0;
+    const materials = new Set<string>();
+    for (const primitive of mesh.listPrimitives()) {
+      const positions = primitive.getAttribute('POSITION')?.getCount() ?? 0;
+      const count = primitive.getIndices()?.getCount() ?? positions;
+      vertexCount += positions;
+      const mode = primitive.getMode();
+      if (mode === MODE_TRIANGLES) {
+        triangleCount += Math.floor(count / 3);
+      } else if (mode === MODE_TRIANGLE_STRIP || mode === MODE_TRIANGLE_FAN) {
+        triangleCount += Math.max(0, count - 2);
+      }
+      const material = primitive.getMaterial();
+      if (material) materials.add(material.getName() || `material_${root.listMaterials().indexOf(material)}`);
+    }
+    return { name: mesh.getName() || `mesh_${index}`, vertexCount, triangleCount, materials: [...materials] };
+  });
+
+  const textures = root.listTextures().map((texture, index): ModelTextureInfo => {
+    const size = texture.getSize();
+    return {
+      name: texture.getName() || texture.getURI() || `texture_${index}`,
+      ...(texture.getMimeType() ? { mimeType: texture.getMimeType() } : {}),
+      ...(texture.getImage() ? { byteLength: texture.getImage()!.byteLength } : {}),
+      ...(size ? { width: size[0], height: size[1] } : {})
+    };
+  });
+
+  const animations = root.listAnimations().map((animation, index): ModelAnimationInfo => {
+    let duration = 0;
+    for (const sampler of animation.listSamplers()) {
+      const input = sampler.getInput();
+      if (input && input.getCount() > 0) {
+        duration = Math.max(duration, input.getMax([0])[0]);
+      }
+    }
+    return { name: animation.getName() || `animation_${index}`, channels: animation.listChannels().length, duration };
+  });
+
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  const sceneBounds = scene ? getBounds(scene) : null;
+  const bounds = sceneBounds && sceneBounds.min.every(Number.isFinite)
+    ? { min: [...sceneBounds.min] as ModelBounds['min'], max: [...sceneBounds.max] as ModelBounds['max'] }
+    : null;
+
+  return {
+    format,
+    meshes,
+    materials: root.listMaterials().map((material, index) => material.getName() || `material_${index}`),
+    textures,
+    animations,
+    ...totals(meshes),
+    bounds
+  };
+}
+
+/**
+ * Scan an OBJ (and the MTL libraries it names) line by line.
+ * Meshes follow `o` / `g` statements, as the OBJ converter splits them.
+ */
+function getObjInfo(filePath: string): ModelInfo {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const defaultName = path.basename(filePath, path.extname(filePath));
+  const groups = new Map<string, { vertices: Set<number>; triangleCount: number; materials: Set<string> }>();
+  const materials = new Set<string>();
+  const libraries: string[] = [];
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  let positionCount = 0;
+  let groupName = defaultName;
+  let material = '';
+
+  const group = () => {
+    let entry = groups.get(groupName);
+    if (!entry) {
+      entry = { vertices: new Set(), triangleCount: 0, materials: new Set() };
+      groups.set(groupName, entry);
+    }
+    return entry;
+  };
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line[0] === '#') continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'v') {
+      positionCount++;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = Number(rest[axis]);
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    } else if (keyword === 'f' && rest.length >= 3) {
+      const entry = group();
+      for (const corner of rest) {
+        const index = parseInt(corner, 10);
+        entry.vertices.add(index < 0 ? positionCount + index : index - 1);
+      }
+      entry.triangleCount += rest.length - 2;
+      if (material) entry.materials.add(material);
+    } else if (keyword === 'o' || keyword === 'g') {
+      groupName = rest.join(' ') || defaultName;
+    } else if (keyword === 'usemtl') {
+      material = rest.join(' ');
+      materials.add(material);
+    } else if (keyword === 'mtllib') {
+      libraries.push(rest.join(' '));
+    }
+  }
+
+  const meshes = [...groups].map(([name, entry]): ModelMeshInfo => ({
+    name,
+    vertexCount: entry.vertices.size,
+    triangleCount: entry.triangleCount,
+    materials: [...entry.materials]
+  }));
+
+  return {
+    format: 'obj',
+    meshes,
+    materials: [...materials],
+    textures: getMtlTextures(path.dirname(filePath), libraries),
+    animations: [],
+    ...totals(meshes),
+    bounds: positionCount > 0 ? { min, max } : null
+  };
+}
+
+/**
+ * Texture maps (`map_Kd`, `map_Bump`, `bump`, `norm`, ...) named by MTL libraries
+ */
+function getMtlTextures(objDir: string, libraries: string[]): ModelTextureInfo[] {
+  const textures = new Map<string, ModelTextureInfo>();
+  for (const library of libraries) {
+    const mtlPath = path.resolve(objDir, library);
+    if (!fs.existsSync(mtlPath)) continue;
+
+    for (const raw of fs.readFileSync(mtlPath, 'utf8').split('\n')) {
+      const [keyword, ...rest] = raw.trim().split(/\s+/);
+      if (!/^(map_\w+|bump|disp|decal|norm|refl)$/i.test(keyword) || rest.length === 0) continue;
+
+      // Options like `-bm 0.5` come before the file name, which is the last token
+      const name = rest[rest.length - 1];
+      if (textures.has(name)) continue;
+      const texturePath = path.resolve(path.dirname(mtlPath), name);
+      const mimeType = TEXTURE_MIME_TYPES[path.extname(name).toLowerCase()];
+      textures.set(name, {
+        name,
+        ...(mimeType ? { mimeType } : {}),
+        ...(fs.existsSync(texturePath) ? { byteLength: fs.statSync(texturePath).size } : {})
+      });
+    }
+  }
+  return [...textures.values()];
+}
+
+function getStlInfo(filePath: string): ModelInfo {
+  const buffer = fs.readFileSync(filePath);
+  const mesh = parseStl(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+  const meshes: ModelMeshInfo[] = mesh.solids.length > 1
+    ? mesh.solids.map((solid, index) => ({
+      name: solid.name || `Solid_${index}`,
+      vertexCount: solid.triangleCount * 3,
+      triangleCount: solid.triangleCount,
+      materials: []
+    }))
+    : [{
+      name: path.basename(filePath, path.extname(filePath)),
+      vertexCount: mesh.vertices.length / 3,
+      triangleCount: mesh.triangleCount,
+      materials: []
+    }];
+  return {
+    format: 'stl',
+    meshes,
+    materials: [],
+    textures: [],
+    animations: [],
+    ...totals(meshes),
+    bounds: mesh.triangleCount > 0 ? toBounds(mesh.bounds) : null
+  };
+}
+
+async function getPlyInfo(filePath: string): Promise<ModelInfo> {
+  const mesh = await parsePlyFile(filePath);
+  const meshes: ModelMeshInfo[] = [{
+    name: path.basename(filePath, path.extname(filePath)),
+    vertexCount: mesh.vertexCount,
+    triangleCount: mesh.isPointCloud ? 0 : mesh.faceCount,
+    materials: []
+  }];
+  return {
+    format: 'ply',
+    meshes,
+    materials: [],
+    textures: [],
+    animations: [],
+    ...totals(meshes),
+    bounds: mesh.vertexCount > 0 ? toBounds(mesh.bounds) : null
+  };
+}
+
+async function getThreeMfInfo(filePath: string): Promise<ModelInfo> {
+  const model = await parseThreeMfFile(filePath);
+  const meshes = new Map<ThreeMfMesh, ModelMeshInfo>();
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  forEachMeshInstance(model, (mesh, transform, object) => {
+    if (!meshes.has(mesh)) {
+      const used = new Set(mesh.triangleMaterials);
+      meshes.set(mesh, {
+        name: object.name,
+        vertexCount: mesh.positions.length / 3,
+        triangleCount: mesh.indices.length / 3,
+        materials: model.materials.filter((_, i) => used.has(i)).map(material => material.name)
+      });
+    }
+    const { positions } = mesh;
+    for (let i = 0; i < positions.length; i += 3) {
+      const point = transformPoint(transform, positions[i], positions[i + 1], positions[i + 2]);
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], point[axis]);
+        max[axis] = Math.max(max[axis], point[axis]);
+      }
+    }
+  });
+
+  const meshList = [...meshes.values()];
+  return {
+    format: '3mf',
+    meshes: meshList,
+    materials: model.materials.map(material => material.name),
+    textures: model.textures.map(texture => ({
+      name: texture.path.split('/').pop() ?? texture.path,
+      mimeType: texture.contentType,
+      byteLength: texture.data.byteLength
+    })),
+    animations: [],
+    ...totals(meshList),
+    bounds: min[0] <= max[0] ? { min, max } : null
+  };
+}
+
+function totals(meshes: ModelMeshInfo[]): { vertexCount: number; triangleCount: number } {
+  return {
+    vertexCount: meshes.reduce((sum, mesh) => sum + mesh.vertexCount, 0),
+    triangleCount: meshes.reduce((sum, mesh) => sum + mesh.triangleCount, 0)
+  };
+}
+
+function toBounds(bounds: { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } }): ModelBounds {
+  return {
+    min: [bounds.min.x, bounds.min.y, bounds.min.z],
+    max: [bounds.max.x, bounds.max.y, bounds.max.z]
+  };
+}
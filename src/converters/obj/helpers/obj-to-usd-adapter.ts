@@ -13,16 +13,33 @@ export interface ObjMeshAdapter {
   mesh: ParsedGeometry;
   geometryId: string;
   geometryName: string;
+  /** Bounds of every geometry in the file, so all prims share one fit-to-view transform */
+  sceneBounds: ObjBounds;
 }
 
+/**
+ * A BasisCurves or Points node and the MTL material its elements use
+ */
+export interface ObjElementNode {
+  node: UsdNode;
+  materialName: string;
+}
+
+type ObjBounds = ReturnType<typeof calculateBoundingBox>;
+
+/** Size of the box the whole OBJ is fit into */
+const TARGET_SIZE = 2.0;
+
 /**
  * Converts OBJ meshes to USD format
  */
 export function adaptObjMeshesToUsd(meshes: ParsedGeometry[]): ObjMeshAdapter[] {
+  const sceneBounds = calculateBoundingBox(meshes.map(mesh => mesh.vertexArray));
   return meshes.map((mesh, index) => ({
     mesh,
     geometryId: `Geometry_${index}`,
-    geometryName: `Geometry_${index}`
+    geometryName: `Geometry_${index}`,
+    sceneBounds
   }));
 }
 
@@ -41,12 +58,108 @@ export function createUsdMeshFromObj(
   );
 
   addObjGeometryToMesh(mesh, meshNode);
-  applyObjTransform(mesh, meshNode);
+  applyObjTransform(adapter.sceneBounds, meshNode);
 
   parentNode.addChild(meshNode);
   return meshNode;
 }
 
+/**
+ * Creates USD BasisCurves (`l` records) or Points (`p` records) nodes from OBJ
+ * line or point geometry. Geometry spanning several materials becomes an
+ * Xform with one child per material group. `width` is in scene units, after
+ * the fit-to-view transform.
+ */
+export function createUsdElementsFromObj(
+  adapter: ObjMeshAdapter,
+  parentNode: UsdNode,
+  width: number
+): ObjElementNode[] {
+  const { mesh, geometryName, sceneBounds } = adapter;
+  const isCurves = mesh.materialMetaInfo.geometryType === 1;
+  const typeName = isCurves ? 'BasisCurves' : 'Points';
+  const elementCount = mesh.indexArray ? mesh.indexArray.length : mesh.vertexArray.length / 3;
+  const groups = mesh.createMultiMaterial && mesh.geometryGroups.length > 0
+    ? mesh.geometryGroups.map(group => ({
+      start: group.materialGroupOffset,
+      length: group.materialGroupLength,
+      materialName: mesh.multiMaterial[group.materialIndex]
+    }))
+    : [{ start: 0, length: elementCount, materialName: mesh.materialMetaInfo.materialName }];
+
+  let container = parentNode;
+  if (groups.length > 1) {
+    container = new UsdNode(`${parentNode.getPath()}/${geometryName}`, USD_NODE_TYPES.XFORM);
+    parentNode.addChild(container);
+  }
+  const scale = applyObjTransform(sceneBounds, groups.length > 1 ? container : undefined);
+  const localWidth = width / scale;
+
+  const nodes: ObjElementNode[] = [];
+  let curveIndex = 0;
+  let curveStart = 0;
+  groups.forEach((group, groupIndex) => {
+    const nodePath = groups.length > 1
+      ? `${container.getPath()}/${typeName}_${groupIndex}`
+      : `${parentNode.getPath()}/${geometryName}`;
+    const node = new UsdNode(nodePath, typeName);
+
+    const elements = Array.from({ length: group.length }, (_, k) => {
+      const i = group.start + k;
+      return mesh.indexArray ? mesh.indexArray[i] : i;
+    });
+    addObjElementData(mesh, node, elements, localWidth);
+
+    if (isCurves && mesh.curveVertexCounts) {
+      // Groups hold whole polylines, in order
+      const counts: number[] = [];
+      while (curveIndex < mesh.curveVertexCounts.length && curveStart < group.start + group.length) {
+        counts.push(mesh.curveVertexCounts[curveIndex]);
+        curveStart += mesh.curveVertexCounts[curveIndex++];
+      }
+      node.setProperty('int[] curveVertexCounts', formatUsdNumberArray(counts), 'raw');
+      node.setProperty('uniform token type', 'linear', 'raw');
+    }
+
+    if (groups.length === 1) applyObjTransform(sceneBounds, node);
+    container.addChild(node);
+    nodes.push({ node, materialName: group.materialName });
+  });
+  return nodes;
+}
+
+/**
+ * Adds points, widths, UVs, colors and extent for the listed OBJ vertices
+ */
+function addObjElementData(mesh: ParsedGeometry, node: UsdNode, elements: number[], width: number): void {
+  const { vertexArray, uvArray, colorArray } = mesh;
+  const points = elements.map(i => formatUsdTuple3(vertexArray[i * 3], vertexArray[i * 3 + 1], vertexArray[i * 3 + 2]));
+  node.setProperty('point3f[] points', `[${points.join(', ')}]`, 'raw');
+  node.setProperty('float[] widths', formatUsdNumberArray(elements.map(() => width)), 'raw');
+
+  if (uvArray && uvArray.length === vertexArray.length / 3 * 2) {
+    const uvs = elements.map(i => formatUsdTuple2(uvArray[i * 2], uvArray[i * 2 + 1]));
+    node.setProperty('texCoord2f[] primvars:st', `[${uvs.join(', ')}]`, 'texcoord');
+    node.setProperty('primvars:st:interpolation', 'vertex', 'interpolation');
+  }
+
+  if (colorArray && colorArray.length === vertexArray.length) {
+    const colors = elements.map(i => formatUsdTuple3(colorArray[i * 3], colorArray[i * 3 + 1], colorArray[i * 3 + 2]));
+    node.setProperty('color3f[] primvars:displayColor', `[${colors.join(', ')}]`, 'raw');
+    node.setProperty('uniform token primvars:displayColor:interpolation', 'vertex', 'raw');
+  }
+
+  // Extent covers the widths too
+  const positions = Float32Array.from(elements.flatMap(i => [vertexArray[i * 3], vertexArray[i * 3 + 1], vertexArray[i * 3 + 2]]));
+  const bounds = calculateBoundingBox([positions]);
+  const pad = width / 2;
+  node.setProperty(
+    'float3[] extent',
+    `[${formatUsdTuple3(bounds.minX - pad, bounds.minY - pad, bounds.minZ - pad)}, ${formatUsdTuple3(bounds.maxX + pad, bounds.maxY + pad, bounds.maxZ + pad)}]`,
+    'raw'
+  );
+}
+
 /**
  * Adds OBJ geometry data to USD mesh node
  */
@@ -91,15 +204,14 @@ function addObjGeometryToMesh(mesh: ParsedGeometry, meshNode: UsdNode): void {
 }
 
 /**
- * Apply transform to OBJ mesh
+ * Apply the fit-to-view transform (centered, largest side 2 units) and return
+ * its scale; with no node, only the scale is computed
  */
-function applyObjTransform(mesh: ParsedGeometry, usdNode: UsdNode): void {
-  if (!mesh.vertexArray || mesh.vertexArray.length === 0) {
-    return;
+function applyObjTransform(bounds: ObjBounds, usdNode?: UsdNode): number {
+  if (!Number.isFinite(bounds.minX)) {
+    return 1.0;
   }
 
-  const bounds = calculateBoundingBox(mesh.vertexArray);
-
   const centerX = (bounds.minX + bounds.maxX) / 2;
   const centerY = (bounds.minY + bounds.maxY) / 2;
   const centerZ = (bounds.minZ + bounds.maxZ) / 2;
@@ -110,8 +222,8 @@ function applyObjTransform(mesh: ParsedGeometry, usdNode: UsdNode): void {
     bounds.maxZ - bounds.minZ
   );
 
-  const targetSize = 2.0;
-  const scale = maxDimension > 0 ? targetSize / maxDimension : 1.0;
+  const scale = maxDimension > 0 ? TARGET_SIZE / maxDimension : 1.0;
+  if (!usdNode) return scale;
 
   const m = [
     scale, 0, 0, 0,
@@ -122,12 +234,13 @@ function applyObjTransform(mesh: ParsedGeometry, usdNode: UsdNode): void {
 
   // Use utility function for consistent matrix formatting and transform setting
   setTransformMatrixString(usdNode, formatMatrix(m));
+  return scale;
 }
 
 /**
  * Calculate bounding box from vertex data
  */
-function calculateBoundingBox(vertices: Float32Array): {
+function calculateBoundingBox(vertexArrays: Float32Array[]): {
   minX: number;
   maxX: number;
   minY: number;
@@ -139,17 +252,19 @@ function calculateBoundingBox(vertices: Float32Array): {
   let minY = Infinity, maxY = -Infinity;
   let minZ = Infinity, maxZ = -Infinity;
 
-  for (let i = 0; i < vertices.length; i += 3) {
-    const x = vertices[i];
-    const y = vertices[i + 1];
-    const z = vertices[i + 2];
-
-    minX = Math.min(minX, x);
-    maxX = Math.max(maxX, x);
-    minY = Math.min(minY, y);
-    maxY = Math.max(maxY, y);
-    minZ = Math.min(minZ, z);
-    maxZ = Math.max(maxZ, z);
+  for (const vertices of vertexArrays) {
+    for (let i = 0; i < vertices.length; i += 3) {
+      const x = vertices[i];
+      const y = vertices[i + 1];
+      const z = vertices[i + 2];
+
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      minZ = Math.min(minZ, z);
+      maxZ = Math.max(maxZ, z);
+    }
   }
 
   return { minX, maxX, minY, maxY, minZ, maxZ };
@@ -5,7 +5,7 @@ import { Logger, LoggerFactory } from '../../utils';
 import { ObjParserFactory } from './obj-parser';
 import { ParsedGeometry } from './obj-mesh-parser';
 import { createRootStructure } from '../shared/usd-root-builder';
-import { adaptObjMeshesToUsd, createUsdMeshFromObj } from './helpers/obj-to-usd-adapter';
+import { adaptObjMeshesToUsd, createUsdMeshFromObj, createUsdElementsFromObj } from './helpers/obj-to-usd-adapter';
 import {
   createUsdzPackage,
   createUsdzPackageToFile,
@@ -14,15 +14,21 @@ import {
   ConvertOptions,
   UsdzStreamResult
 } from '../shared/usd-packaging';
+import { ConversionProgressTracker } from '../shared/conversion-progress';
 import {
   writeDebugOutput,
   DebugOutputContent
 } from '../shared/debug-writer';
+import { processTextures } from '../shared/texture-pipeline';
+import { simplifyMesh, remapVertexAttribute, resolveDecimationTarget, type SimplifyAttribute } from '../shared/mesh-simplifier';
 import { UsdNode } from '../../core/usd-node';
 import { USD_PROPERTIES, USD_PROPERTY_TYPES } from '../../constants/usd';
 import * as path from 'path';
 import * as fs from 'fs';
 
+/** Stages in the order a conversion runs them, for progress events */
+const PROGRESS_STAGES = ['conversion_start', 'obj_parsing', 'geometry_processing', 'hierarchy_building', 'material_generation', 'usdz_packaging', 'conversion_complete'];
+
 // Constants
 const DEFAULT_CONFIG: ObjConverterConfig = {
   debug: false,
@@ -35,27 +41,138 @@ const DEFAULT_CONFIG: ObjConverterConfig = {
   materialPerSmoothingGroup: true,
   useOAsMesh: true,
   useIndices: true,
-  disregardNormals: false
+  disregardNormals: false,
+  curveWidth: 0.01,
+  pointWidth: 0.02
 };
 
 // Types for parsed MTL values and texture bindings
+type MtlMapOptions = {
+  scale?: [number, number]; // -s u v
+  offset?: [number, number]; // -o u v
+  clamp?: boolean; // -clamp on
+  bumpMultiplier?: number; // -bm
+  channel?: 'r' | 'g' | 'b' | 'a'; // -imfchan
+};
+
 type MtlMapBinding = {
   textureId: string;
   textureExt: string;
   textureData: ArrayBuffer;
+  options?: MtlMapOptions;
 };
 
 type MtlMaterial = {
   kd?: [number, number, number]; // diffuse color
   ks?: [number, number, number]; // specular color
+  ke?: [number, number, number]; // emissive color
   ns?: number; // shininess
   d?: number; // opacity
+  // PBR extensions
+  pr?: number; // roughness
+  pm?: number; // metallic
+  pc?: number; // clearcoat
+  pcr?: number; // clearcoat roughness
   // maps
   map_Kd?: MtlMapBinding;
   map_Ks?: MtlMapBinding;
   map_Bump?: MtlMapBinding;
+  map_Pr?: MtlMapBinding;
+  map_Pm?: MtlMapBinding;
+  map_Ke?: MtlMapBinding;
+  map_d?: MtlMapBinding;
+  norm?: MtlMapBinding;
+  disp?: MtlMapBinding;
+};
+
+type MtlMapKey = 'map_Kd' | 'map_Ks' | 'map_Bump' | 'map_Pr' | 'map_Pm' | 'map_Ke' | 'map_d' | 'norm' | 'disp';
+
+// MTL texture statements (lower-cased) and the material slot they fill
+const MTL_MAP_KEYWORDS: Record<string, MtlMapKey> = {
+  map_kd: 'map_Kd',
+  map_ks: 'map_Ks',
+  bump: 'map_Bump',
+  map_bump: 'map_Bump',
+  map_normal: 'norm',
+  norm: 'norm',
+  map_pr: 'map_Pr',
+  map_pm: 'map_Pm',
+  map_ke: 'map_Ke',
+  map_d: 'map_d',
+  disp: 'disp'
+};
+
+// Arguments taken by each texture option; -s/-o/-t take one to three numbers
+const MTL_MAP_OPTION_ARITY: Record<string, number> = {
+  '-blendu': 1, '-blendv': 1, '-boost': 1, '-mm': 2, '-texres': 1, '-clamp': 1,
+  '-bm': 1, '-imfchan': 1, '-type': 1, '-cc': 1, '-s': 3, '-o': 3, '-t': 3
 };
 
+// MTL statements with no UsdPreviewSurface input
+const UNSUPPORTED_MTL_KEYWORDS = new Set(['Ps', 'aniso', 'anisor', 'map_Ps']);
+
+/**
+ * Decimate parsed meshes in place to the configured triangle budget, shared
+ * between meshes by triangle count. Material groups keep their triangles.
+ */
+function decimateObjMeshes(parsed: ParsedGeometry[], config: ObjConverterConfig, logger: Logger): void {
+  // Polylines and points have no triangles to reduce
+  const meshes = parsed.filter(mesh => mesh.materialMetaInfo.geometryType === 0);
+  const triangleCounts = meshes.map(mesh => (mesh.indexArray ? mesh.indexArray.length : mesh.vertexArray.length / 3) / 3);
+  const totalTriangles = triangleCounts.reduce((sum, count) => sum + count, 0);
+  const target = resolveDecimationTarget(totalTriangles, config);
+  if (target === 0) return;
+
+  logger.info('Starting mesh decimation', {
+    stage: 'decimation',
+    targetFaces: target,
+    inputFaces: totalTriangles
+  });
+
+  let outputTriangles = 0;
+  meshes.forEach((mesh, index) => {
+    const vertexCount = mesh.vertexArray.length / 3;
+    const indices = mesh.indexArray ?? Uint32Array.from({ length: vertexCount }, (_, i) => i);
+    const attributes: SimplifyAttribute[] = [];
+    // Partially specified attributes don't line up with the vertices; leave them out
+    if (mesh.normalArray?.length === vertexCount * 3) attributes.push({ values: mesh.normalArray, size: 3, weight: 0.5 });
+    if (mesh.uvArray?.length === vertexCount * 2) attributes.push({ values: mesh.uvArray, size: 2 });
+    if (mesh.colorArray?.length === vertexCount * 3) attributes.push({ values: mesh.colorArray, size: 3 });
+
+    const simplified = simplifyMesh(mesh.vertexArray, indices, {
+      targetFaceCount: Math.max(1, Math.round(triangleCounts[index] * target / totalTriangles)),
+      attributes
+    });
+    const remap = simplified.vertexRemap;
+
+    // Group ranges count face corners; surviving triangles keep their input order
+    for (const group of mesh.geometryGroups) {
+      const firstTriangle = group.materialGroupOffset / 3;
+      const endTriangle = firstTriangle + group.materialGroupLength / 3;
+      let kept = 0;
+      let before = 0;
+      for (const triangle of simplified.faceRemap) {
+        if (triangle < firstTriangle) before++;
+        else if (triangle < endTriangle) kept++;
+      }
+      group.materialGroupOffset = before * 3;
+      group.materialGroupLength = kept * 3;
+    }
+
+    mesh.vertexArray = remapVertexAttribute(mesh.vertexArray, 3, remap);
+    mesh.indexArray = simplified.indices;
+    if (mesh.normalArray) mesh.normalArray = mesh.normalArray.length === vertexCount * 3 ? remapVertexAttribute(mesh.normalArray, 3, remap) : null;
+    if (mesh.uvArray) mesh.uvArray = mesh.uvArray.length === vertexCount * 2 ? remapVertexAttribute(mesh.uvArray, 2, remap) : null;
+    if (mesh.colorArray) mesh.colorArray = mesh.colorArray.length === vertexCount * 3 ? remapVertexAttribute(mesh.colorArray, 3, remap) : null;
+    outputTriangles += simplified.faceCount;
+  });
+
+  logger.info('Mesh decimation complete', {
+    stage: 'decimation',
+    outputFaces: outputTriangles
+  });
+}
+
 // Make a valid USD prim name: [A-Za-z_][A-Za-z0-9_]*
 function sanitizeUsdName(name: string): string {
   const replaced = name.replace(/[^A-Za-z0-9_]/g, '_');
@@ -118,24 +235,32 @@ function resolveTexturePath(mtlDir: string, rel: string, extraRoots: string[] =
 
 export function convertObjToUsdz(
   input: ArrayBuffer | string,
-  config?: ObjConverterConfig
+  config?: ObjConverterConfig,
+  options?: ConvertOptions & { outputPath?: undefined }
 ): Promise<Blob>;
 export function convertObjToUsdz(
   input: ArrayBuffer | string,
   config: ObjConverterConfig | undefined,
   options: ConvertOptions & { outputPath: string }
 ): Promise<UsdzStreamResult>;
+export function convertObjToUsdz(
+  input: ArrayBuffer | string,
+  config?: ObjConverterConfig,
+  options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult>;
 export async function convertObjToUsdz(
   input: ArrayBuffer | string,
   config?: ObjConverterConfig,
   options?: ConvertOptions
 ): Promise<Blob | UsdzStreamResult> {
   const logger = LoggerFactory.forConversion();
+  const progress = new ConversionProgressTracker(PROGRESS_STAGES, options);
 
   try {
     // Merge config with defaults
     const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
+    progress.enterStage('conversion_start');
     logger.info('Starting OBJ to USDZ conversion', {
       stage: 'conversion_start',
       inputType: typeof input === 'string' ? 'obj_file' : 'obj_buffer',
@@ -143,6 +268,7 @@ export async function convertObjToUsdz(
     });
 
     // Parse OBJ file
+    progress.enterStage('obj_parsing');
     logger.info('Parsing OBJ file', {
       stage: 'obj_parsing',
       inputType: typeof input === 'string' ? 'file' : 'buffer'
@@ -155,11 +281,14 @@ export async function convertObjToUsdz(
       meshCount: meshes.length
     });
 
+    decimateObjMeshes(meshes, finalConfig, logger);
+
     // Create root structure using existing USD infrastructure
     const rootStructure = createRootStructure('obj_scene');
     const { rootNode, sceneNode, materialsNode } = rootStructure;
 
     // Adapt OBJ meshes to USD-compatible format
+    progress.enterStage('geometry_processing');
     logger.info('Processing geometries', {
       stage: 'geometry_processing',
       meshCount: meshes.length
@@ -167,6 +296,7 @@ export async function convertObjToUsdz(
 
     const meshAdapters = adaptObjMeshesToUsd(meshes);
 
+    progress.enterStage('hierarchy_building');
     logger.info('Building node hierarchy', {
       stage: 'hierarchy_building',
       primitiveCount: meshAdapters.length
@@ -187,8 +317,8 @@ export async function convertObjToUsdz(
     ) : new Map<string, MtlMaterial>();
     // Register textures for packaging/debug
     for (const mat of mtlBindings.values()) {
-      const maps: (MtlMapBinding | undefined)[] = [mat.map_Kd, mat.map_Ks, mat.map_Bump];
-      for (const m of maps) {
+      for (const key of Object.values(MTL_MAP_KEYWORDS)) {
+        const m = mat[key];
         if (!m) continue;
         if (!textureFiles.has(m.textureId)) textureFiles.set(m.textureId, m.textureData);
       }
@@ -202,6 +332,40 @@ export async function convertObjToUsdz(
 
     // Create mesh nodes and bind materials (supports multi-material via GeomSubset)
     for (const meshAdapter of meshAdapters) {
+      if (meshAdapter.mesh.materialMetaInfo.geometryType !== 0) {
+        // `l` / `p` records: BasisCurves / Points, one node per material
+        const isCurves = meshAdapter.mesh.materialMetaInfo.geometryType === 1;
+        const elementNodes = createUsdElementsFromObj(
+          meshAdapter,
+          sceneNode,
+          isCurves ? finalConfig.curveWidth : finalConfig.pointWidth
+        );
+        for (const { node, materialName } of elementNodes) {
+          // The parser tags vertex-colored and flat-shaded groups onto the MTL name
+          const mtlName = materialName.replace(/(_vertexColor)?(_flat)?$/, '');
+          const matObj = mtlBindings.get(mtlName);
+          let matPath = defaultMaterialPath;
+          if (matObj) {
+            matPath = `${materialsNode.getPath()}/${sanitizeUsdName(mtlName)}`;
+            materialsNode.addChild(buildUsdMaterial(matPath, matObj));
+            materialCounter++;
+          }
+          node.setProperty(
+            USD_PROPERTIES.PREPEND_API_SCHEMAS,
+            [USD_PROPERTIES.MATERIAL_BINDING_API],
+            USD_PROPERTY_TYPES.STRING_ARRAY
+          );
+          node.setProperty(USD_PROPERTIES.MATERIAL_BINDING, `<${matPath}>`, USD_PROPERTY_TYPES.REL);
+        }
+        logger.info('Built OBJ elements', {
+          stage: 'geometry_processing',
+          name: meshAdapter.mesh.meshName,
+          type: isCurves ? 'BasisCurves' : 'Points',
+          nodeCount: elementNodes.length
+        });
+        continue;
+      }
+
       const meshNode = createUsdMeshFromObj(meshAdapter, sceneNode);
 
       // Bind material using the same approach as GLB converter
@@ -265,6 +429,10 @@ export async function convertObjToUsdz(
     // Add materials to root level for proper USDZ structure (like GLB converter)
     rootNode.addChild(materialsNode);
 
+    // Bring textures into an ARKit-readable format before asset paths are serialized
+    progress.enterStage('material_generation');
+    await processTextures(textureFiles, [rootNode], finalConfig.textures, logger);
+
     logger.info('Generated materials', {
       stage: 'material_generation',
       materialCount: materialCounter,
@@ -272,6 +440,7 @@ export async function convertObjToUsdz(
     });
 
     // Create USDZ package
+    progress.enterStage('usdz_packaging');
     logger.info('Generating USDZ package', {
       stage: 'usdz_packaging',
       fileCount: 1 + textureFiles.size // +1 for main USD file
@@ -279,12 +448,18 @@ export async function convertObjToUsdz(
 
     const packageContent: PackageContent = {
       usdContent: rootNode.serializeToUsda(),
+      usdContentNode: rootNode,
       geometryFiles: new Map(), // No separate geometry files - embedded in main USD
       textureFiles
     };
+    const packageConfig = options?.layerFormat ? { layerFormat: options.layerFormat } : undefined;
 
     if (options?.outputPath) {
-      const result = await createUsdzPackageToFile(packageContent, options.outputPath);
+      const result = await createUsdzPackageToFile(packageContent, options.outputPath, {
+        ...packageConfig,
+        ...progress.packagingOptions()
+      });
+      progress.enterStage('conversion_complete');
       logger.info('USDZ conversion completed', {
         stage: 'conversion_complete',
         usdzSize: result.totalBytes,
@@ -294,7 +469,11 @@ export async function convertObjToUsdz(
       return result;
     }
 
-    const usdzBlob = await createUsdzPackage(packageContent);
+    const usdzBlob = await createUsdzPackage(packageContent, {
+      ...packageConfig,
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+    progress.enterStage('conversion_complete');
 
     logger.info('USDZ conversion completed', {
       stage: 'conversion_complete',
@@ -326,7 +505,7 @@ export async function convertObjToUsdz(
 
 
 /**
- * Parse all materials from MTL and return mapping materialName -> texture binding (map_Kd only).
+ * Parse all materials from MTL and return mapping materialName -> colors, PBR values and texture bindings.
  */
 function tryLoadMtlAllMaterials(
   objPath: string,
@@ -440,6 +619,7 @@ function tryLoadMtlAllMaterials(
     for (const mtlPath of mtlPaths) {
       logger.info('Parsing MTL', { mtlPath });
       const mtlContent = fs.readFileSync(mtlPath, 'utf8');
+      const mtlDir = path.dirname(mtlPath);
       const lines = mtlContent.split(/\r?\n/);
       let currentMtl = '';
       for (const raw of lines) {
@@ -448,73 +628,48 @@ function tryLoadMtlAllMaterials(
         if (line.startsWith('newmtl ')) {
           currentMtl = line.substring(7).trim();
           if (!map.has(currentMtl)) map.set(currentMtl, {});
-        } else if (line.startsWith('Kd ')) {
-          const parts = line.split(/\s+/);
-          const r = Number(parts[1] || 0.8), g = Number(parts[2] || 0.8), b = Number(parts[3] || 0.8);
-          const mat = map.get(currentMtl); if (mat) mat.kd = [r, g, b];
-        } else if (line.startsWith('Ks ')) {
-          const parts = line.split(/\s+/);
-          const r = Number(parts[1] || 0), g = Number(parts[2] || 0), b = Number(parts[3] || 0);
-          const mat = map.get(currentMtl); if (mat) mat.ks = [r, g, b];
-        } else if (line.startsWith('Ns ')) {
-          const parts = line.split(/\s+/);
-          const s = Number(parts[1] || 0);
-          const mat = map.get(currentMtl); if (mat) mat.ns = s;
-        } else if (line.startsWith('d ') || line.startsWith('Tr ')) {
-          const parts = line.split(/\s+/);
-          const v = Number(parts[1] || 1);
-          const mat = map.get(currentMtl); if (mat) mat.d = line.startsWith('Tr ') ? (1 - v) : v;
-        } else if (line.startsWith('map_Kd')) {
-          if (currentMtl) {
-            const m = line.match(/^map_Kd\s+(.+)$/i);
-            if (!m) continue;
-            const rest = m[1];
-            const mtlDir = path.dirname(mtlPath);
-            const texPath = resolveTexturePath(mtlDir, rest, textureSearchPaths || []);
-            if (!texPath || !fs.existsSync(texPath)) {
-              logger.info('Texture not found', { currentMtl, raw: line, baseDir: mtlDir });
-              continue;
-            }
-            const bytes = fs.readFileSync(texPath);
-            const ab = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
-            const fileBase = path.basename(texPath);
-            const nameNoExt = fileBase.replace(/\.[^.]+$/, '');
-            const ext = getTextureExtensionFromData(ab);
-            const mat = map.get(currentMtl)!; mat.map_Kd = { textureId: nameNoExt, textureExt: ext, textureData: ab };
-            logger.info('Texture mapped (map_Kd)', { currentMtl, texPath, id: nameNoExt, ext });
-          }
-        } else if (line.startsWith('map_Ks')) {
-          if (currentMtl) {
-            const m = line.match(/^map_Ks\s+(.+)$/i);
-            if (!m) continue;
-            const rest = m[1];
-            const mtlDir = path.dirname(mtlPath);
-            const texPath = resolveTexturePath(mtlDir, rest, textureSearchPaths || []);
-            if (!texPath || !fs.existsSync(texPath)) continue;
-            const bytes = fs.readFileSync(texPath);
-            const ab = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
-            const fileBase = path.basename(texPath);
-            const nameNoExt = fileBase.replace(/\.[^.]+$/, '');
-            const ext = getTextureExtensionFromData(ab);
-            const mat = map.get(currentMtl)!; mat.map_Ks = { textureId: nameNoExt, textureExt: ext, textureData: ab };
-            logger.info('Texture mapped (map_Ks)', { currentMtl, texPath, id: nameNoExt, ext });
-          }
-        } else if (line.startsWith('bump') || line.startsWith('map_Bump') || line.startsWith('map_normal')) {
-          if (currentMtl) {
-            const m = line.match(/^(?:bump|map_Bump|map_normal)\s+(.+)$/i);
-            if (!m) continue;
-            const rest = m[1];
-            const mtlDir = path.dirname(mtlPath);
-            const texPath = resolveTexturePath(mtlDir, rest, textureSearchPaths || []);
-            if (!texPath || !fs.existsSync(texPath)) continue;
-            const bytes = fs.readFileSync(texPath);
-            const ab = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
-            const fileBase = path.basename(texPath);
-            const nameNoExt = fileBase.replace(/\.[^.]+$/, '');
-            const ext = getTextureExtensionFromData(ab);
-            const mat = map.get(currentMtl)!; mat.map_Bump = { textureId: nameNoExt, textureExt: ext, textureData: ab };
-            logger.info('Texture mapped (normal)', { currentMtl, texPath, id: nameNoExt, ext });
+          continue;
+        }
+        const mat = map.get(currentMtl);
+        if (!mat) continue;
+        const [keyword, ...args] = line.split(/\s+/);
+        const mapKey = MTL_MAP_KEYWORDS[keyword.toLowerCase()];
+        if (mapKey) {
+          const statement = parseMtlMapStatement(args);
+          if (!statement) continue;
+          const texPath = resolveTexturePath(mtlDir, statement.file, textureSearchPaths || []);
+          if (!texPath || !fs.existsSync(texPath)) {
+            logger.info('Texture not found', { currentMtl, raw: line, baseDir: mtlDir });
+            continue;
           }
+          const bytes = fs.readFileSync(texPath);
+          const ab = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+          const fileBase = path.basename(texPath);
+          const nameNoExt = fileBase.replace(/\.[^.]+$/, '');
+          const ext = getTextureExtensionFromData(ab);
+          mat[mapKey] = { textureId: nameNoExt, textureExt: ext, textureData: ab, options: statement.options };
+          logger.info(`Texture mapped (${keyword})`, { currentMtl, texPath, id: nameNoExt, ext });
+        } else if (keyword === 'Kd') {
+          mat.kd = [Number(args[0] || 0.8), Number(args[1] || 0.8), Number(args[2] || 0.8)];
+        } else if (keyword === 'Ks') {
+          mat.ks = [Number(args[0] || 0), Number(args[1] || 0), Number(args[2] || 0)];
+        } else if (keyword === 'Ke') {
+          mat.ke = [Number(args[0] || 0), Number(args[1] || 0), Number(args[2] || 0)];
+        } else if (keyword === 'Ns') {
+          mat.ns = Number(args[0] || 0);
+        } else if (keyword === 'd' || keyword === 'Tr') {
+          const v = Number(args[0] || 1);
+          mat.d = keyword === 'Tr' ? (1 - v) : v;
+        } else if (keyword === 'Pr') {
+          mat.pr = Number(args[0] || 0);
+        } else if (keyword === 'Pm') {
+          mat.pm = Number(args[0] || 0);
+        } else if (keyword === 'Pc') {
+          mat.pc = Number(args[0] || 0);
+        } else if (keyword === 'Pcr') {
+          mat.pcr = Number(args[0] || 0);
+        } else if (UNSUPPORTED_MTL_KEYWORDS.has(keyword)) {
+          logger.warn('MTL statement has no UsdPreviewSurface input; skipped', { currentMtl, keyword });
         }
       }
     }
@@ -523,7 +678,46 @@ function tryLoadMtlAllMaterials(
 }
 
 /**
- * Build a USD material node with optional UV texture bound to diffuseColor.
+ * Split a texture statement's arguments into its options and file name
+ * (`-bm 0.5 -s 2 2 textures/normal map.png`). The file name is everything
+ * after the options, so names with spaces survive.
+ */
+function parseMtlMapStatement(args: string[]): { file: string; options: MtlMapOptions } | undefined {
+  const options: MtlMapOptions = {};
+  let i = 0;
+  while (i < args.length && MTL_MAP_OPTION_ARITY[args[i].toLowerCase()] !== undefined) {
+    const option = args[i++].toLowerCase();
+    const arity = MTL_MAP_OPTION_ARITY[option];
+    const values: string[] = [];
+    if (arity === 3) {
+      // Optional trailing components: stop at the first non-number
+      while (values.length < 3 && i < args.length - 1 && Number.isFinite(Number(args[i]))) values.push(args[i++]);
+    } else {
+      while (values.length < arity && i < args.length) values.push(args[i++]);
+    }
+    const numbers = values.map(Number);
+    switch (option) {
+      case '-s': if (numbers.length > 0) options.scale = [numbers[0], numbers[1] ?? 1]; break;
+      case '-o': if (numbers.length > 0) options.offset = [numbers[0], numbers[1] ?? 0]; break;
+      case '-clamp': options.clamp = values[0]?.toLowerCase() === 'on'; break;
+      case '-bm': if (Number.isFinite(numbers[0])) options.bumpMultiplier = numbers[0]; break;
+      case '-imfchan': {
+        // m (matte) is the alpha channel
+        const channel = values[0]?.toLowerCase();
+        if (channel === 'r' || channel === 'g' || channel === 'b') options.channel = channel;
+        else if (channel === 'm') options.channel = 'a';
+        break;
+      }
+    }
+  }
+  const file = args.slice(i).join(' ');
+  return file ? { file, options } : undefined;
+}
+
+/**
+ * Build a USD material node: MTL colors and PBR values become UsdPreviewSurface
+ * inputs, each texture map a UsdUVTexture (behind a UsdTransform2d when it has
+ * -s / -o options) connected to the matching input.
  */
 function buildUsdMaterial(
   materialPath: string,
@@ -532,29 +726,61 @@ function buildUsdMaterial(
   const materialNode = new UsdNode(materialPath, 'Material');
   const surfaceShader = new UsdNode(`${materialPath}/PreviewSurface`, 'Shader');
   surfaceShader.setProperty('uniform token info:id', 'UsdPreviewSurface');
-  // Map Ns to roughness (approx)
-  const rough = mat?.ns !== undefined ? (1 - Math.min(mat.ns, 1000) / 1000).toFixed(3) : '0.5';
+  // Pr wins over the Ns approximation
+  const rough = mat?.pr !== undefined ? mat.pr.toFixed(3) : mat?.ns !== undefined ? (1 - Math.min(mat.ns, 1000) / 1000).toFixed(3) : '0.5';
   surfaceShader.setProperty('float inputs:roughness', rough, 'float');
-  surfaceShader.setProperty('float inputs:metallic', '0.0', 'float');
+  surfaceShader.setProperty('float inputs:metallic', mat?.pm !== undefined ? mat.pm.toFixed(3) : '0.0', 'float');
   const opacity = mat?.d !== undefined ? mat.d.toFixed(3) : '1';
   surfaceShader.setProperty('float inputs:opacity', opacity, 'float');
+  if (mat?.pc !== undefined) surfaceShader.setProperty('float inputs:clearcoat', mat.pc.toFixed(3), 'float');
+  if (mat?.pcr !== undefined) surfaceShader.setProperty('float inputs:clearcoatRoughness', mat.pcr.toFixed(3), 'float');
   surfaceShader.setProperty('token outputs:surface', '');
 
-  if (mat?.map_Kd) {
-    const stReader = new UsdNode(`${materialPath}/Primvar_st`, 'Shader');
-    stReader.setProperty('uniform token info:id', 'UsdPrimvarReader_float2');
-    stReader.setProperty('string inputs:varname', 'st');
-    stReader.setProperty('float2 outputs:result', '');
+  // Create a texture node reading `binding` and return its output's connection target
+  let stReader: UsdNode | undefined;
+  const addTexture = (
+    suffix: string,
+    binding: MtlMapBinding,
+    output: 'rgb' | 'scalar',
+    sourceColorSpace: 'sRGB' | 'raw'
+  ): { node: UsdNode; target: string } => {
+    if (!stReader) {
+      stReader = new UsdNode(`${materialPath}/Primvar_st`, 'Shader');
+      stReader.setProperty('uniform token info:id', 'UsdPrimvarReader_float2');
+      stReader.setProperty('string inputs:varname', 'st');
+      stReader.setProperty('float2 outputs:result', '');
+      materialNode.addChild(stReader);
+    }
 
-    const uvTexture = new UsdNode(`${materialPath}/UVTexture`, 'Shader');
-    uvTexture.setProperty('uniform token info:id', 'UsdUVTexture');
-    uvTexture.setProperty('asset inputs:file', `@textures/Texture_${mat.map_Kd.textureId}.${mat.map_Kd.textureExt}@`);
-    uvTexture.setProperty('float3 outputs:rgb', '');
-    uvTexture.setProperty('float2 inputs:st.connect', `<${materialPath}/Primvar_st.outputs:result>`, 'connection');
+    let stSource = `<${materialPath}/Primvar_st.outputs:result>`;
+    const { scale, offset, clamp, channel } = binding.options ?? {};
+    if (scale || offset) {
+      const transform2d = new UsdNode(`${materialPath}/Transform2d${suffix}`, 'Shader');
+      transform2d.setProperty('uniform token info:id', 'UsdTransform2d');
+      transform2d.setProperty('float2 inputs:in.connect', stSource, 'connection');
+      transform2d.setProperty('float2 inputs:scale', `(${(scale ?? [1, 1]).join(', ')})`, 'float2');
+      transform2d.setProperty('float2 inputs:translation', `(${(offset ?? [0, 0]).join(', ')})`, 'float2');
+      transform2d.setProperty('float2 outputs:result', '');
+      materialNode.addChild(transform2d);
+      stSource = `<${materialPath}/Transform2d${suffix}.outputs:result>`;
+    }
 
-    surfaceShader.setProperty('color3f inputs:diffuseColor.connect', `<${materialPath}/UVTexture.outputs:rgb>`, 'connection');
-    materialNode.addChild(stReader);
+    const uvTexture = new UsdNode(`${materialPath}/UVTexture${suffix}`, 'Shader');
+    uvTexture.setProperty('uniform token info:id', 'UsdUVTexture');
+    uvTexture.setProperty('asset inputs:file', `@textures/Texture_${binding.textureId}.${binding.textureExt}@`);
+    uvTexture.setProperty('token inputs:sourceColorSpace', sourceColorSpace, 'token');
+    uvTexture.setProperty('token inputs:wrapS', clamp ? 'clamp' : 'repeat', 'token');
+    uvTexture.setProperty('token inputs:wrapT', clamp ? 'clamp' : 'repeat', 'token');
+    uvTexture.setProperty('float2 inputs:st.connect', stSource, 'connection');
+    const outputName = output === 'rgb' ? 'rgb' : channel ?? 'r';
+    uvTexture.setProperty(output === 'rgb' ? 'float3 outputs:rgb' : `float outputs:${outputName}`, '');
     materialNode.addChild(uvTexture);
+    return { node: uvTexture, target: `<${materialPath}/UVTexture${suffix}.outputs:${outputName}>` };
+  };
+
+  if (mat?.map_Kd) {
+    const { target } = addTexture('', mat.map_Kd, 'rgb', 'sRGB');
+    surfaceShader.setProperty('color3f inputs:diffuseColor.connect', target, 'connection');
   } else {
     const kd = mat?.kd || [0.8, 0.8, 0.8];
     surfaceShader.setProperty('color3f inputs:diffuseColor', `(${kd[0]}, ${kd[1]}, ${kd[2]})`, 'color3f');
@@ -562,30 +788,53 @@ function buildUsdMaterial(
 
   // Specular map/color (optional)
   if (mat?.map_Ks) {
-    const uvSpec = new UsdNode(`${materialPath}/UVTexture_spec`, 'Shader');
-    uvSpec.setProperty('uniform token info:id', 'UsdUVTexture');
-    uvSpec.setProperty('asset inputs:file', `@textures/Texture_${mat.map_Ks.textureId}.${mat.map_Ks.textureExt}@`);
-    uvSpec.setProperty('float3 outputs:rgb', '');
-    uvSpec.setProperty('float2 inputs:st.connect', `<${materialPath}/Primvar_st.outputs:result>`, 'connection');
-    surfaceShader.setProperty('color3f inputs:specularColor.connect', `<${materialPath}/UVTexture_spec.outputs:rgb>`, 'connection');
-    materialNode.addChild(uvSpec);
+    const { target } = addTexture('_spec', mat.map_Ks, 'rgb', 'sRGB');
+    surfaceShader.setProperty('color3f inputs:specularColor.connect', target, 'connection');
   } else if (mat?.ks) {
     surfaceShader.setProperty('color3f inputs:specularColor', `(${mat.ks[0]}, ${mat.ks[1]}, ${mat.ks[2]})`, 'color3f');
   }
 
-  // Normal map (optional)
-  if (mat?.map_Bump) {
-    const uvN = new UsdNode(`${materialPath}/UVTexture_normal`, 'Shader');
-    uvN.setProperty('uniform token info:id', 'UsdUVTexture');
-    uvN.setProperty('asset inputs:file', `@textures/Texture_${mat.map_Bump.textureId}.${mat.map_Bump.textureExt}@`);
-    uvN.setProperty('float3 outputs:rgb', '');
-    uvN.setProperty('float2 inputs:st.connect', `<${materialPath}/Primvar_st.outputs:result>`, 'connection');
-    surfaceShader.setProperty('normal3f inputs:normal.connect', `<${materialPath}/UVTexture_normal.outputs:rgb>`, 'connection');
-    materialNode.addChild(uvN);
+  // Emissive map, tinted by Ke when both are given
+  if (mat?.map_Ke) {
+    const { node, target } = addTexture('_emissive', mat.map_Ke, 'rgb', 'sRGB');
+    if (mat.ke) node.setProperty('float4 inputs:scale', `(${mat.ke[0]}, ${mat.ke[1]}, ${mat.ke[2]}, 1)`, 'float4');
+    surfaceShader.setProperty('color3f inputs:emissiveColor.connect', target, 'connection');
+  } else if (mat?.ke) {
+    surfaceShader.setProperty('color3f inputs:emissiveColor', `(${mat.ke[0]}, ${mat.ke[1]}, ${mat.ke[2]})`, 'color3f');
+  }
+
+  // Single-channel maps replace the matching constant
+  const scalarMaps: Array<[string, MtlMapBinding | undefined, string]> = [
+    ['_roughness', mat?.map_Pr, 'roughness'],
+    ['_metallic', mat?.map_Pm, 'metallic'],
+    ['_opacity', mat?.map_d, 'opacity']
+  ];
+  for (const [suffix, binding, input] of scalarMaps) {
+    if (!binding) continue;
+    const { target } = addTexture(suffix, binding, 'scalar', 'raw');
+    surfaceShader.setProperty(`float inputs:${input}.connect`, target, 'connection');
+  }
+
+  // Normal map (optional): `norm` is the PBR normal map, `bump` the classic slot.
+  // Texels decode as n = texel * 2 - 1, with -bm scaling the xy components.
+  const normalMap = mat?.norm ?? mat?.map_Bump;
+  if (normalMap) {
+    const { node, target } = addTexture('_normal', normalMap, 'rgb', 'raw');
+    const bm = normalMap.options?.bumpMultiplier ?? 1;
+    node.setProperty('float4 inputs:scale', `(${2 * bm}, ${2 * bm}, 2, 1)`, 'float4');
+    node.setProperty('float4 inputs:bias', `(${-bm}, ${-bm}, -1, 0)`, 'float4');
+    surfaceShader.setProperty('normal3f inputs:normal.connect', target, 'connection');
+  }
+
+  // Displacement map (optional), scaled by -bm
+  if (mat?.disp) {
+    const { node, target } = addTexture('_displacement', mat.disp, 'scalar', 'raw');
+    const bm = mat.disp.options?.bumpMultiplier;
+    if (bm !== undefined) node.setProperty('float4 inputs:scale', `(${bm}, ${bm}, ${bm}, 1)`, 'float4');
+    surfaceShader.setProperty('float inputs:displacement.connect', target, 'connection');
   }
 
   materialNode.addChild(surfaceShader);
   materialNode.setProperty('token outputs:surface.connect', `<${materialPath}/PreviewSurface.outputs:surface>`, 'connection');
   return materialNode;
 }
-
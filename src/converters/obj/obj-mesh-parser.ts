@@ -1,12 +1,15 @@
 /** WebUsdFramework.Converters.Obj.ObjMeshParser - Handles text-based loading of OBJ geometries */
 
 export interface ParsedGeometry {
+  /** Name of the `o` / `g` statement the geometry was read under */
   meshName: string;
   vertexArray: Float32Array;
   normalArray: Float32Array | null;
   uvArray: Float32Array | null;
   colorArray: Float32Array | null;
   indexArray: Uint32Array | null;
+  /** Vertices (entries of `indexArray`) per `l` polyline, in order; null for faces and points */
+  curveVertexCounts: Uint32Array | null;
   createMultiMaterial: boolean;
   geometryGroups: MaterialGroup[];
   multiMaterial: string[];
@@ -24,6 +27,7 @@ interface GeometryGroup {
   indexMappingsCount: 0;
   indexMappings: Map<string, number>;
   indices: number[];
+  curveVertexCounts: number[];
   colors: number[];
   uvs: number[];
   normals: number[];
@@ -34,6 +38,7 @@ interface MaterialData {
   materialName: string;
   multiMaterialNames: Map<number, string>;
   modelName: string;
+  /** 0 = faces, 1 = `l` polylines, 2 = `p` points */
   geometryType: number;
 }
 
@@ -77,6 +82,7 @@ export class ObjectFileParser {
 
   private geometryGroups: Map<string, GeometryGroup> = new Map();
   private activeGroup: GeometryGroup | undefined;
+  private objectName = '';
   private currentMaterial = '';
   private faceType = -1;
   private smoothingState = { normalized: -1, raw: -1 };
@@ -208,9 +214,11 @@ export class ObjectFileParser {
       'vt': () => this.handleTextureData(tokens),
       'vn': () => this.handleNormalData(tokens),
       'f': () => this.handleFaceData(tokens, tokenLength, slashCount),
+      'l': () => this.handleLineData(tokens, tokenLength, slashCount),
+      'p': () => this.handlePointData(tokens, tokenLength),
       's': () => this.setSmoothingGroup(tokens[1]),
-      'g': () => this.handleGroupData(),
-      'o': () => this.handleObjectData(),
+      'g': () => this.handleGroupData(tokens, tokenCount),
+      'o': () => this.handleObjectData(tokens, tokenCount),
       'usemtl': () => this.handleMaterialUsage(tokens)
     };
 
@@ -320,18 +328,45 @@ export class ObjectFileParser {
     }
   };
 
+  /**
+   * Handle polyline data (`l v1 v2 ...` or `l v1/vt1 v2/vt2 ...`)
+   */
+  private handleLineData = (tokens: string[], tokenLength: number, slashCount: number): void => {
+    const withUVs = slashCount > 0;
+    this.checkFaceType(withUVs ? 5 : 4);
+    const step = withUVs ? 2 : 1;
+    let count = 0;
+    for (let i = 1; i + step - 1 <= tokenLength; i += step) {
+      this.buildFace(tokens[i], withUVs ? tokens[i + 1] : undefined);
+      count++;
+    }
+    if (count > 0) this.activeGroup!.curveVertexCounts.push(count);
+  };
+
+  /**
+   * Handle point data (`p v1 v2 ...`)
+   */
+  private handlePointData = (tokens: string[], tokenLength: number): void => {
+    this.checkFaceType(6);
+    for (let i = 1; i <= tokenLength; i++) {
+      this.buildFace(tokens[i]);
+    }
+  };
+
   /**
    * Handle group data
    */
-  private handleGroupData = (): void => {
+  private handleGroupData = (tokens: string[], tokenCount: number): void => {
     this.processCompletedMesh();
+    this.objectName = tokens.slice(1, tokenCount).join(' ');
   };
 
   /**
    * Handle object data
    */
-  private handleObjectData = (): void => {
+  private handleObjectData = (tokens: string[], tokenCount: number): void => {
     if (this.useOAsMesh) this.processCompletedMesh();
+    this.objectName = tokens.slice(1, tokenCount).join(' ');
   };
 
   /**
@@ -400,6 +435,7 @@ export class ObjectFileParser {
         indexMappingsCount: 0,
         indexMappings: new Map<string, number>(),
         indices: [],
+        curveVertexCounts: [],
         colors: [],
         uvs: [],
         normals: []
@@ -523,12 +559,14 @@ export class ObjectFileParser {
       totalColorCount: acc.totalColorCount + group.colors.length,
       totalNormalCount: acc.totalNormalCount + group.normals.length,
       totalUvCount: acc.totalUvCount + group.uvs.length,
+      totalCurveCount: acc.totalCurveCount + group.curveVertexCounts.length,
     }), {
       totalVertexCount: 0,
       totalIndexCount: 0,
       totalColorCount: 0,
       totalNormalCount: 0,
       totalUvCount: 0,
+      totalCurveCount: 0,
     });
 
     if (totals.totalVertexCount <= 0) {
@@ -540,12 +578,14 @@ export class ObjectFileParser {
     const colorArray = totals.totalColorCount > 0 ? new Float32Array(totals.totalColorCount) : null;
     const normalArray = totals.totalNormalCount > 0 ? new Float32Array(totals.totalNormalCount) : null;
     const uvArray = totals.totalUvCount > 0 ? new Float32Array(totals.totalUvCount) : null;
+    const curveVertexCounts = totals.totalCurveCount > 0 ? new Uint32Array(totals.totalCurveCount) : null;
 
     let vertexOffset = 0;
     let indexOffset = 0;
     let colorOffset = 0;
     let normalOffset = 0;
     let uvOffset = 0;
+    let curveOffset = 0;
     const geometryGroups: MaterialGroup[] = [];
     let materialGroupOffset = 0;
     let materialIndex = 0;
@@ -588,9 +628,14 @@ export class ObjectFileParser {
         vertexOffset += subMesh.vertices.length;
       }
       if (indexArray) {
-        indexArray.set(subMesh.indices, indexOffset);
+        // Each group's indices point into its own vertices
+        indexArray.set(subMesh.indices.map(index => index + vertexOffset / 3 - subMesh.vertices.length / 3), indexOffset);
         indexOffset += subMesh.indices.length;
       }
+      if (curveVertexCounts) {
+        curveVertexCounts.set(subMesh.curveVertexCounts, curveOffset);
+        curveOffset += subMesh.curveVertexCounts.length;
+      }
       if (colorArray) {
         colorArray.set(subMesh.colors, colorOffset);
         colorOffset += subMesh.colors.length;
@@ -607,12 +652,13 @@ export class ObjectFileParser {
     this.outputCounter++;
 
     return {
-      meshName: 'parsed_mesh',
+      meshName: this.objectName || 'parsed_mesh',
       vertexArray,
       normalArray,
       uvArray,
       colorArray,
       indexArray,
+      curveVertexCounts,
       createMultiMaterial,
       geometryGroups,
       multiMaterial,
@@ -1,9 +1,9 @@
 /** WebUsdFramework.Converters.Ply.PlyConverter - Main PLY to USDZ converter */
 
 import { PlyConverterConfig } from '../../schemas';
-import { LoggerFactory } from '../../utils';
-import { parsePly, parsePlyFile, PlyMeshData } from './ply-parser';
-import { decimateMesh } from './mesh-decimator';
+import { LoggerFactory, sanitizeName } from '../../utils';
+import { parsePlySteps, readPlyFile, PlyAttribute, PlyMeshData, PlySplatData } from './ply-parser';
+import { simplifyMesh, remapVertexAttribute, resolveDecimationTarget, computeBounds, type SimplifyAttribute } from '../shared/mesh-simplifier';
 import { createRootStructure } from '../shared/usd-root-builder';
 import {
   createUsdzPackage,
@@ -16,8 +16,16 @@ import {
   writeDebugOutput,
   DebugOutputContent
 } from '../shared/debug-writer';
+import { ConversionProgressTracker } from '../shared/conversion-progress';
 import { UsdNode } from '../../core/usd-node';
 import { USD_PROPERTIES, USD_PROPERTY_TYPES } from '../../constants/usd';
+
+/** Stages in the order a conversion runs them, for progress events */
+const PROGRESS_STAGES = ['conversion_start', 'ply_parsed', 'decimation', 'usd_built', 'usdz_packaging', 'conversion_complete'];
+
+/** Face property that selects a material per face */
+const MATERIAL_INDEX_PROPERTY = 'material_index';
+
 const DEFAULT_CONFIG: Required<PlyConverterConfig> = {
   debug: false,
   debugOutputDir: './debug-output',
@@ -27,6 +35,7 @@ const DEFAULT_CONFIG: Required<PlyConverterConfig> = {
   defaultPointWidth: 0.005,
   maxPoints: 0,
   decimateTarget: 0,
+  decimateRatio: 1,
 };
 
 /**
@@ -65,6 +74,27 @@ function centerGeometry(data: PlyMeshData): void {
   };
 }
 
+/**
+ * Copy every stride-th splat, matching downsamplePointCloud's vertex selection.
+ */
+function downsampleSplat(splat: PlySplatData, stride: number, count: number): PlySplatData {
+  const coefficientWidth = (splat.shDegree + 1) ** 2 * 3;
+  const pick = (values: Float32Array, width: number): Float32Array => {
+    const out = new Float32Array(count * width);
+    for (let dst = 0; dst < count; dst++) {
+      out.set(values.subarray(dst * stride * width, (dst * stride + 1) * width), dst * width);
+    }
+    return out;
+  };
+  return {
+    orientations: pick(splat.orientations, 4),
+    scales: pick(splat.scales, 3),
+    opacities: pick(splat.opacities, 1),
+    shCoefficients: pick(splat.shCoefficients, coefficientWidth),
+    shDegree: splat.shDegree,
+  };
+}
+
 /**
  * Downsample a point cloud by uniform stride if it exceeds maxPoints.
  * Returns a new PlyMeshData with reduced point count, or the original if no reduction needed.
@@ -122,7 +152,14 @@ function downsamplePointCloud(data: PlyMeshData, maxPoints: number): PlyMeshData
     faceIndices: undefined,
     faceVertexCounts: undefined,
     faceCount: 0,
+    vertexAttributes: data.vertexAttributes.map(attribute => {
+      const values = attribute.values.slice(0, dst);
+      for (let i = 0; i < dst; i++) values[i] = attribute.values[i * stride];
+      return { ...attribute, values };
+    }),
+    faceAttributes: [],
     isPointCloud: true,
+    splat: data.splat ? downsampleSplat(data.splat, stride, dst) : undefined,
     format: data.format,
     bounds: { min: { x: minX, y: minY, z: minZ }, max: { x: maxX, y: maxY, z: maxZ } },
   };
@@ -153,6 +190,13 @@ function buildMeshNode(data: PlyMeshData, meshPath: string): UsdNode {
     meshNode.setProperty('uniform token primvars:st:interpolation', 'vertex', 'raw');
   }
 
+  addAttributePrimvars(meshNode, data.vertexAttributes, 'vertex');
+  addAttributePrimvars(
+    meshNode,
+    data.faceAttributes.filter(attribute => attribute.name !== MATERIAL_INDEX_PROPERTY),
+    'uniform'
+  );
+
   meshNode.setProperty('float3[] extent', formatExtent(data.bounds), 'raw');
   meshNode.setProperty('uniform token subdivisionScheme', 'none', 'raw');
 
@@ -167,10 +211,19 @@ function buildPointsNode(data: PlyMeshData, pointsPath: string, pointWidth: numb
 
   pointsNode.setProperty('point3f[] points', data.positions);
 
-  // Widths — uniform size for all points
-  const widths = new Float32Array(data.vertexCount);
-  widths.fill(pointWidth);
-  pointsNode.setProperty('float[] widths', widths);
+  // Widths — uniform size for all points; splats size each point by its largest axis
+  if (data.splat) {
+    const { scales } = data.splat;
+    const widths = new Float32Array(data.vertexCount);
+    for (let i = 0; i < data.vertexCount; i++) {
+      widths[i] = 2 * Math.max(scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]);
+    }
+    pointsNode.setProperty('float[] widths', widths);
+  } else {
+    const widths = new Float32Array(data.vertexCount);
+    widths.fill(pointWidth);
+    pointsNode.setProperty('float[] widths', widths);
+  }
 
   if (data.normals) {
     pointsNode.setProperty('normal3f[] normals', data.normals);
@@ -182,11 +235,114 @@ function buildPointsNode(data: PlyMeshData, pointsPath: string, pointWidth: numb
     pointsNode.setProperty('uniform token primvars:displayColor:interpolation', 'vertex', 'raw');
   }
 
+  addAttributePrimvars(pointsNode, data.vertexAttributes, 'vertex');
+
+  if (data.splat) {
+    addSplatPrimvars(pointsNode, data.splat);
+  }
+
   pointsNode.setProperty('float3[] extent', formatExtent(data.bounds), 'raw');
 
   return pointsNode;
 }
 
+/**
+ * USD value type for a PLY scalar type.
+ */
+function usdTypeForPly(type: string): string {
+  switch (type) {
+    case 'uchar': case 'uint8': return 'uchar';
+    case 'ushort': case 'uint16': case 'uint': case 'uint32': return 'uint';
+    case 'float': case 'float32': return 'float';
+    case 'double': case 'float64': return 'double';
+    default: return 'int';
+  }
+}
+
+/**
+ * Author PLY properties without a built-in role as typed primvars.
+ */
+function addAttributePrimvars(node: UsdNode, attributes: PlyAttribute[], interpolation: 'vertex' | 'uniform'): void {
+  for (const attribute of attributes) {
+    const name = `primvars:${sanitizeName(attribute.name)}`;
+    const { values } = attribute;
+    // Integers go through UsdNode as-is; floats are written as text to keep their precision
+    const value = values instanceof Float32Array || values instanceof Float64Array
+      ? formatFloatArray(values)
+      : values;
+    node.setProperty(`${usdTypeForPly(attribute.type)}[] ${name}`, value, 'raw');
+    node.setProperty(`uniform token ${name}:interpolation`, interpolation, 'interpolation');
+  }
+}
+
+/**
+ * Split a mesh into material GeomSubsets by its per-triangle material_index,
+ * binding each subset to its own material.
+ */
+function addMaterialSubsets(
+  meshNode: UsdNode,
+  materialIndex: PlyAttribute['values'],
+  materialsNode: UsdNode,
+  color: [number, number, number],
+  hasVertexColors: boolean
+): void {
+  const facesByIndex = new Map<number, number[]>();
+  for (let face = 0; face < materialIndex.length; face++) {
+    const faces = facesByIndex.get(materialIndex[face]);
+    if (faces) faces.push(face);
+    else facesByIndex.set(materialIndex[face], [face]);
+  }
+
+  for (const index of [...facesByIndex.keys()].sort((a, b) => a - b)) {
+    const suffix = index < 0 ? `neg${-index}` : String(index);
+    const materialPath = `${materialsNode.getPath()}/PlyMaterial_${suffix}`;
+    materialsNode.addChild(createBasicMaterial(materialPath, color, hasVertexColors));
+
+    const subset = new UsdNode(`${meshNode.getPath()}/material_${suffix}`, 'GeomSubset');
+    subset.setProperty('uniform token familyName', 'materialBind');
+    subset.setProperty('uniform token elementType', 'face');
+    subset.setProperty('int[] indices', Int32Array.from(facesByIndex.get(index)!));
+    subset.setProperty(
+      USD_PROPERTIES.PREPEND_API_SCHEMAS,
+      [USD_PROPERTIES.MATERIAL_BINDING_API],
+      USD_PROPERTY_TYPES.STRING_ARRAY
+    );
+    subset.setProperty(USD_PROPERTIES.MATERIAL_BINDING, `<${materialPath}>`, USD_PROPERTY_TYPES.REL);
+    meshNode.addChild(subset);
+  }
+}
+
+/**
+ * Author Gaussian splat attributes on a Points prim as primvars:splat:*.
+ */
+function addSplatPrimvars(pointsNode: UsdNode, splat: PlySplatData): void {
+  pointsNode.setProperty('quatf[] primvars:splat:orientations', splat.orientations);
+  pointsNode.setProperty('uniform token primvars:splat:orientations:interpolation', 'vertex', 'interpolation');
+
+  pointsNode.setProperty('float3[] primvars:splat:scales', splat.scales);
+  pointsNode.setProperty('uniform token primvars:splat:scales:interpolation', 'vertex', 'interpolation');
+
+  pointsNode.setProperty('float[] primvars:splat:opacities', splat.opacities);
+  pointsNode.setProperty('uniform token primvars:splat:opacities:interpolation', 'vertex', 'interpolation');
+
+  pointsNode.setProperty('float3[] primvars:splat:sh', splat.shCoefficients);
+  pointsNode.setProperty('uniform token primvars:splat:sh:interpolation', 'vertex', 'interpolation');
+  pointsNode.setProperty('int primvars:splat:sh:elementSize', (splat.shDegree + 1) ** 2, 'elementSize');
+  pointsNode.setProperty('uniform int splat:shDegree', String(splat.shDegree), 'int');
+}
+
+/**
+ * Format float values as a USDA array literal: 6 significant digits for
+ * float data, full precision for doubles. UsdNode's typed-array formatting
+ * rounds to 4 decimals, which loses survey measurements.
+ */
+function formatFloatArray(values: Float32Array | Float64Array): string {
+  const format = values instanceof Float64Array
+    ? (n: number) => String(n)
+    : (n: number) => String(Number(n.toPrecision(6)));
+  return `[${Array.from(values, format).join(', ')}]`;
+}
+
 /**
  * Create a basic USD material.
  */
@@ -228,36 +384,41 @@ function createBasicMaterial(
  */
 export function convertPlyToUsdz(
   input: ArrayBuffer | string,
-  config?: Partial<PlyConverterConfig>
+  config?: Partial<PlyConverterConfig>,
+  options?: ConvertOptions & { outputPath?: undefined }
 ): Promise<Blob>;
 export function convertPlyToUsdz(
   input: ArrayBuffer | string,
   config: Partial<PlyConverterConfig> | undefined,
   options: ConvertOptions & { outputPath: string }
 ): Promise<UsdzStreamResult>;
+export function convertPlyToUsdz(
+  input: ArrayBuffer | string,
+  config?: Partial<PlyConverterConfig>,
+  options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult>;
 export async function convertPlyToUsdz(
   input: ArrayBuffer | string,
   config?: Partial<PlyConverterConfig>,
   options?: ConvertOptions
 ): Promise<Blob | UsdzStreamResult> {
   const logger = LoggerFactory.forConversion();
+  const progress = new ConversionProgressTracker(PROGRESS_STAGES, options);
 
   try {
     const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
+    progress.enterStage('conversion_start');
     logger.info('Starting PLY to USDZ conversion', {
       stage: 'conversion_start',
       inputType: typeof input === 'string' ? 'ply_file' : 'ply_buffer',
     });
 
     // Parse PLY
-    let meshData: PlyMeshData;
-    if (typeof input === 'string') {
-      meshData = await parsePlyFile(input, { debug: finalConfig.debug });
-    } else {
-      meshData = parsePly(input, { debug: finalConfig.debug });
-    }
+    const buffer = typeof input === 'string' ? await readPlyFile(input) : input;
+    let meshData = await progress.runSteps(parsePlySteps(buffer, { debug: finalConfig.debug }));
 
+    progress.enterStage('ply_parsed');
     logger.info('PLY parsed', {
       stage: 'ply_parsed',
       format: meshData.format,
@@ -267,6 +428,10 @@ export async function convertPlyToUsdz(
       hasNormals: !!meshData.normals,
       hasColors: !!meshData.colors,
       hasTexCoords: !!meshData.texCoords,
+      vertexAttributes: meshData.vertexAttributes.map(attribute => attribute.name),
+      faceAttributes: meshData.faceAttributes.map(attribute => attribute.name),
+      isGaussianSplat: !!meshData.splat,
+      ...(meshData.splat ? { shDegree: meshData.splat.shDegree } : {}),
     });
 
     // Downsample point clouds if maxPoints is set
@@ -287,41 +452,58 @@ export async function convertPlyToUsdz(
     centerGeometry(meshData);
 
     // Decimate mesh if requested and applicable
-    if (!meshData.isPointCloud && finalConfig.decimateTarget > 0 && meshData.faceCount > finalConfig.decimateTarget) {
+    const decimateTarget = meshData.isPointCloud ? 0 : resolveDecimationTarget(meshData.faceCount, finalConfig);
+    if (decimateTarget > 0 && meshData.faceIndices) {
       const beforeVerts = meshData.vertexCount;
       const beforeFaces = meshData.faceCount;
 
+      progress.enterStage('decimation');
       logger.info('Starting mesh decimation', {
         stage: 'decimation',
-        targetFaces: finalConfig.decimateTarget,
+        targetFaces: decimateTarget,
         inputVertices: beforeVerts,
         inputFaces: beforeFaces,
       });
 
-      const decimated = decimateMesh(
-        meshData.positions,
-        meshData.faceIndices!,
-        meshData.colors ?? undefined,
-        finalConfig.decimateTarget,
-        meshData.bounds
-      );
+      const attributes: SimplifyAttribute[] = [];
+      if (meshData.normals) attributes.push({ values: meshData.normals, size: 3, weight: 0.5 });
+      if (meshData.colors) attributes.push({ values: meshData.colors, size: 3 });
+      if (meshData.alpha) attributes.push({ values: meshData.alpha, size: 1 });
+      if (meshData.texCoords) attributes.push({ values: meshData.texCoords, size: 2 });
+
+      // Each material_index group becomes a GeomSubset; keep their borders
+      const materialIndex = meshData.faceAttributes.find(attribute => attribute.name === MATERIAL_INDEX_PROPERTY);
+      const simplified = simplifyMesh(meshData.positions, meshData.faceIndices, {
+        targetFaceCount: decimateTarget,
+        attributes,
+        ...(materialIndex ? { faceGroups: materialIndex.values } : {}),
+      });
+      const remap = simplified.vertexRemap;
 
       // Update meshData with decimated result
-      meshData.positions = decimated.positions;
-      meshData.faceIndices = decimated.indices;
-      meshData.faceVertexCounts = decimated.faceVertexCounts;
-      meshData.normals = decimated.normals;
-      meshData.vertexCount = decimated.vertexCount;
-      meshData.faceCount = decimated.faceCount;
-      meshData.bounds = decimated.bounds;
-      if (decimated.colors) meshData.colors = decimated.colors;
+      meshData.positions = remapVertexAttribute(meshData.positions, 3, remap);
+      if (meshData.normals) meshData.normals = remapVertexAttribute(meshData.normals, 3, remap);
+      if (meshData.colors) meshData.colors = remapVertexAttribute(meshData.colors, 3, remap);
+      if (meshData.alpha) meshData.alpha = remapVertexAttribute(meshData.alpha, 1, remap);
+      if (meshData.texCoords) meshData.texCoords = remapVertexAttribute(meshData.texCoords, 2, remap);
+      for (const attribute of meshData.vertexAttributes) {
+        attribute.values = remapVertexAttribute(attribute.values, 1, remap);
+      }
+      for (const attribute of meshData.faceAttributes) {
+        attribute.values = remapVertexAttribute(attribute.values, 1, simplified.faceRemap);
+      }
+      meshData.faceIndices = new Int32Array(simplified.indices);
+      meshData.faceVertexCounts = new Int32Array(simplified.faceCount).fill(3);
+      meshData.vertexCount = simplified.vertexCount;
+      meshData.faceCount = simplified.faceCount;
+      meshData.bounds = computeBounds(meshData.positions);
 
       logger.info('Mesh decimation complete', {
         stage: 'decimation',
-        outputVertices: decimated.vertexCount,
-        outputFaces: decimated.faceCount,
-        vertexReduction: ((1 - decimated.vertexCount / beforeVerts) * 100).toFixed(1) + '%',
-        faceReduction: ((1 - decimated.faceCount / beforeFaces) * 100).toFixed(1) + '%',
+        outputVertices: simplified.vertexCount,
+        outputFaces: simplified.faceCount,
+        vertexReduction: ((1 - simplified.vertexCount / beforeVerts) * 100).toFixed(1) + '%',
+        faceReduction: ((1 - simplified.faceCount / beforeFaces) * 100).toFixed(1) + '%',
       });
     }
 
@@ -366,8 +548,14 @@ export async function convertPlyToUsdz(
       USD_PROPERTY_TYPES.REL
     );
 
+    const materialIndex = meshData.faceAttributes.find(attribute => attribute.name === MATERIAL_INDEX_PROPERTY);
+    if (!meshData.isPointCloud && materialIndex) {
+      addMaterialSubsets(geomNode, materialIndex.values, materialsNode, finalConfig.defaultColor, !!meshData.colors);
+    }
+
     rootNode.addChild(materialsNode);
 
+    progress.enterStage('usd_built');
     logger.info('USD scene built', {
       stage: 'usd_built',
       primType: meshData.isPointCloud ? 'Points' : 'Mesh',
@@ -384,10 +572,13 @@ export async function convertPlyToUsdz(
       textureFiles: new Map(),
     };
 
+    progress.enterStage('usdz_packaging');
     if (options?.outputPath) {
       const result = await createUsdzPackageToFile(packageContent, options.outputPath, {
         ...(options.layerFormat ? { layerFormat: options.layerFormat } : {}),
+        ...progress.packagingOptions(),
       });
+      progress.enterStage('conversion_complete');
       logger.info('USDZ conversion completed', {
         stage: 'conversion_complete',
         usdzSize: result.totalBytes,
@@ -397,10 +588,11 @@ export async function convertPlyToUsdz(
       return result;
     }
 
-    const usdzBlob = await createUsdzPackage(
-      packageContent,
-      options?.layerFormat ? { layerFormat: options.layerFormat } : undefined
-    );
+    const usdzBlob = await createUsdzPackage(packageContent, {
+      ...(options?.layerFormat ? { layerFormat: options.layerFormat } : {}),
+      ...(options?.signal ? { signal: options.signal } : {}),
+    });
+    progress.enterStage('conversion_complete');
 
     logger.info('USDZ conversion completed', {
       stage: 'conversion_complete',
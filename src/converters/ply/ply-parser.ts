@@ -1,5 +1,7 @@
 /** WebUsdFramework.Converters.Ply.PlyParser - Parses ASCII and Binary PLY files into geometry objects */
 
+import { runSteps, type ConversionSteps } from '../shared/conversion-progress';
+
 /**
  * Parsed PLY mesh data structure.
  * Uses TypedArrays for memory efficiency with large point clouds.
@@ -35,6 +37,15 @@ export interface PlyMeshData {
   /** Whether this is a point cloud (no face elements) */
   isPointCloud: boolean;
 
+  /** Vertex properties without a built-in role (intensity, classification, scalar_*, ...) */
+  vertexAttributes: PlyAttribute[];
+
+  /** Scalar face properties (material_index, ...), one value per triangle after triangulation */
+  faceAttributes: PlyAttribute[];
+
+  /** Gaussian splat attributes, when the vertex element carries a 3DGS layout */
+  splat: PlySplatData | undefined;
+
   /** Format detected */
   format: 'ascii' | 'binary_little_endian' | 'binary_big_endian';
 
@@ -45,6 +56,45 @@ export interface PlyMeshData {
   };
 }
 
+/**
+ * A PLY scalar property carried through as-is.
+ * Integer types are stored as Int32Array / Uint32Array, floats as Float32Array, doubles as Float64Array.
+ */
+export interface PlyAttribute {
+  /** Property name as declared in the header */
+  name: string;
+
+  /** PLY scalar type (uchar, int, float, double, ...) */
+  type: string;
+
+  /** One value per vertex, or per triangle for face properties */
+  values: Int32Array | Uint32Array | Float32Array | Float64Array;
+}
+
+/**
+ * Per-splat attributes of a 3D Gaussian Splatting PLY.
+ * Activations are already applied; the SH coefficients are kept as stored.
+ */
+export interface PlySplatData {
+  /** Unit quaternions, real part first [w,x,y,z, ...] */
+  orientations: Float32Array;
+
+  /** Ellipsoid scales after exp activation [sx,sy,sz, ...] */
+  scales: Float32Array;
+
+  /** Opacities after sigmoid activation (0-1) */
+  opacities: Float32Array;
+
+  /**
+   * Spherical-harmonic coefficients, splat-major then coefficient-major:
+   * [dc.r,dc.g,dc.b, c1.r,c1.g,c1.b, ...] with (shDegree+1)^2 RGB triples per splat
+   */
+  shCoefficients: Float32Array;
+
+  /** Spherical-harmonic degree (0-3) */
+  shDegree: number;
+}
+
 /**
  * PLY Parser Configuration
  */
@@ -52,6 +102,9 @@ export interface PlyParserConfig {
   debug?: boolean;
 }
 
+// Vertices or faces parsed between progress steps
+const PARSE_STEP = 65536;
+
 // PLY property type sizes in bytes
 const PROPERTY_SIZES: Record<string, number> = {
   char: 1, uchar: 1, int8: 1, uint8: 1,
@@ -209,10 +262,246 @@ function getPropertyRole(name: string): string {
   return 'unknown';
 }
 
+// Zeroth-order SH basis constant, used to turn DC coefficients into a base color
+const SH_C0 = 0.28209479177387814;
+
+type SplatChannel = 'dc' | 'rest' | 'opacity' | 'scale' | 'rot';
+
+/** Raw splat channels as stored in the file, before activation */
+interface SplatLayout {
+  /** Per-property (channel, component) target, or null for non-splat properties */
+  slots: ({ channel: SplatChannel; component: number } | null)[];
+  /** Number of f_rest_* properties used (3 * ((degree+1)^2 - 1)) */
+  restCount: number;
+  shDegree: number;
+  raw: Record<SplatChannel, Float32Array>;
+}
+
+const SPLAT_CHANNEL_WIDTHS: Record<Exclude<SplatChannel, 'rest'>, number> = {
+  dc: 3, opacity: 1, scale: 3, rot: 4,
+};
+
+/**
+ * Map a 3DGS property name (f_dc_N, f_rest_N, opacity, scale_N, rot_N) to its channel.
+ */
+function getSplatSlot(name: string): { channel: SplatChannel; component: number } | null {
+  const n = name.toLowerCase();
+  if (n === 'opacity') return { channel: 'opacity', component: 0 };
+  const match = /^(f_dc|f_rest|scale|rot)_(\d+)$/.exec(n);
+  if (!match) return null;
+  const channel: SplatChannel = match[1] === 'f_dc' ? 'dc' : match[1] === 'f_rest' ? 'rest' : match[1] as SplatChannel;
+  return { channel, component: parseInt(match[2], 10) };
+}
+
+/**
+ * Detect a Gaussian splat vertex layout. Requires f_dc_0-2, opacity, scale_0-2
+ * and rot_0-3; f_rest_* is optional and only used when it forms a complete
+ * SH band set (9, 24 or 45 properties).
+ */
+function detectSplatLayout(properties: PlyProperty[], vertexCount: number): SplatLayout | undefined {
+  const slots = properties.map(p => p.isList ? null : getSplatSlot(p.name));
+  const has = (channel: SplatChannel, component: number) =>
+    slots.some(s => s !== null && s.channel === channel && s.component === component);
+
+  for (const [channel, width] of Object.entries(SPLAT_CHANNEL_WIDTHS) as [SplatChannel, number][]) {
+    for (let c = 0; c < width; c++) {
+      if (!has(channel, c)) return undefined;
+    }
+  }
+
+  // Use the highest SH degree whose rest coefficients are all present
+  let shDegree = 0;
+  for (let degree = 3; degree > 0; degree--) {
+    const count = 3 * ((degree + 1) ** 2 - 1);
+    let complete = true;
+    for (let c = 0; c < count && complete; c++) complete = has('rest', c);
+    if (complete) {
+      shDegree = degree;
+      break;
+    }
+  }
+  const restCount = 3 * ((shDegree + 1) ** 2 - 1);
+
+  // Drop slots outside the channel widths so parsing never writes out of bounds
+  for (let p = 0; p < slots.length; p++) {
+    const slot = slots[p];
+    if (!slot) continue;
+    const width = slot.channel === 'rest' ? restCount : SPLAT_CHANNEL_WIDTHS[slot.channel];
+    if (slot.component >= width) slots[p] = null;
+  }
+
+  return {
+    slots,
+    restCount,
+    shDegree,
+    raw: {
+      dc: new Float32Array(vertexCount * 3),
+      rest: new Float32Array(vertexCount * restCount),
+      opacity: new Float32Array(vertexCount),
+      scale: new Float32Array(vertexCount * 3),
+      rot: new Float32Array(vertexCount * 4),
+    },
+  };
+}
+
+/**
+ * Store a raw splat property value for vertex v.
+ */
+function writeSplatValue(layout: SplatLayout, p: number, v: number, val: number): void {
+  const slot = layout.slots[p];
+  if (!slot) return;
+  const width = slot.channel === 'rest' ? layout.restCount : SPLAT_CHANNEL_WIDTHS[slot.channel];
+  layout.raw[slot.channel][v * width + slot.component] = val;
+}
+
+/**
+ * Apply the 3DGS activations and reorder SH coefficients.
+ * Returns the splat attributes plus DC-derived display colors.
+ */
+function finishSplat(layout: SplatLayout, vertexCount: number): { splat: PlySplatData; colors: Float32Array } {
+  const { dc, rest, opacity, scale, rot } = layout.raw;
+  const { restCount, shDegree } = layout;
+  const restPerChannel = restCount / 3;
+  const coefficientCount = restPerChannel + 1;
+
+  const orientations = new Float32Array(vertexCount * 4);
+  const scales = new Float32Array(vertexCount * 3);
+  const opacities = new Float32Array(vertexCount);
+  const shCoefficients = new Float32Array(vertexCount * coefficientCount * 3);
+  const colors = new Float32Array(vertexCount * 3);
+
+  for (let v = 0; v < vertexCount; v++) {
+    const q = v * 4;
+    const len = Math.hypot(rot[q], rot[q + 1], rot[q + 2], rot[q + 3]);
+    if (len > 0) {
+      for (let c = 0; c < 4; c++) orientations[q + c] = rot[q + c] / len;
+    } else {
+      orientations[q] = 1;
+    }
+
+    for (let c = 0; c < 3; c++) {
+      scales[v * 3 + c] = Math.exp(scale[v * 3 + c]);
+      colors[v * 3 + c] = Math.min(1, Math.max(0, 0.5 + SH_C0 * dc[v * 3 + c]));
+    }
+    opacities[v] = 1 / (1 + Math.exp(-opacity[v]));
+
+    // f_rest_* is channel-major (all R, then G, then B); regroup as RGB triples
+    const base = v * coefficientCount * 3;
+    shCoefficients[base] = dc[v * 3];
+    shCoefficients[base + 1] = dc[v * 3 + 1];
+    shCoefficients[base + 2] = dc[v * 3 + 2];
+    for (let k = 0; k < restPerChannel; k++) {
+      for (let c = 0; c < 3; c++) {
+        shCoefficients[base + (k + 1) * 3 + c] = rest[v * restCount + c * restPerChannel + k];
+      }
+    }
+  }
+
+  return { splat: { orientations, scales, opacities, shCoefficients, shDegree }, colors };
+}
+
+/**
+ * Allocate attribute storage for a PLY scalar type.
+ */
+function createAttributeValues(type: string, count: number): PlyAttribute['values'] {
+  switch (type) {
+    case 'char': case 'int8': case 'short': case 'int16': case 'int': case 'int32':
+      return new Int32Array(count);
+    case 'uchar': case 'uint8': case 'ushort': case 'uint16': case 'uint': case 'uint32':
+      return new Uint32Array(count);
+    case 'double': case 'float64':
+      return new Float64Array(count);
+    default:
+      return new Float32Array(count);
+  }
+}
+
+/**
+ * Attribute slot per vertex property: scalar properties that are neither a
+ * built-in role nor part of a splat layout, otherwise null.
+ */
+function createVertexAttributes(
+  properties: PlyProperty[],
+  propRoles: string[],
+  splatLayout: SplatLayout | undefined,
+  vertexCount: number
+): (PlyAttribute | null)[] {
+  return properties.map((prop, p) =>
+    !prop.isList && propRoles[p] === 'unknown' && !splatLayout?.slots[p]
+      ? { name: prop.name, type: prop.type, values: createAttributeValues(prop.type, vertexCount) }
+      : null
+  );
+}
+
+/**
+ * Polygons of a face element before triangulation.
+ */
+interface PlyPolygons {
+  /** Vertex count per polygon */
+  sizes: Int32Array;
+  /** Flat vertex indices of every polygon */
+  indices: ArrayLike<number>;
+  /** Scalar face properties, one value per polygon */
+  scalars: { prop: PlyProperty; values: Float64Array }[];
+}
+
+/**
+ * The vertex index list of a face element: vertex_indices / vertex_index, else the first list.
+ */
+function findIndexListProperty(faceElement: PlyElement): PlyProperty {
+  const listProp = faceElement.properties.find(p => p.isList && (p.name === 'vertex_indices' || p.name === 'vertex_index'))
+    ?? faceElement.properties.find(p => p.isList);
+  if (!listProp) {
+    throw new Error('PLY face element has no list property');
+  }
+  return listProp;
+}
+
+/**
+ * Fan-triangulate polygons, repeating each polygon's scalar properties on its triangles.
+ */
+function triangulatePolygons(polygons: PlyPolygons): {
+  faceIndices: Int32Array;
+  faceVertexCounts: Int32Array;
+  faceCount: number;
+  faceAttributes: PlyAttribute[];
+} {
+  const { sizes, indices, scalars } = polygons;
+  let totalTriangles = 0;
+  for (let f = 0; f < sizes.length; f++) totalTriangles += Math.max(0, sizes[f] - 2);
+
+  const faceIndices = new Int32Array(totalTriangles * 3);
+  const faceVertexCounts = new Int32Array(totalTriangles);
+  faceVertexCounts.fill(3);
+  const faceAttributes: PlyAttribute[] = scalars.map(({ prop }) => ({
+    name: prop.name,
+    type: prop.type,
+    values: createAttributeValues(prop.type, totalTriangles),
+  }));
+
+  let triIdx = 0;
+  let start = 0;
+  for (let f = 0; f < sizes.length; f++) {
+    const nVerts = sizes[f];
+    for (let t = 0; t < nVerts - 2; t++) {
+      faceIndices[triIdx * 3] = indices[start];
+      faceIndices[triIdx * 3 + 1] = indices[start + t + 1];
+      faceIndices[triIdx * 3 + 2] = indices[start + t + 2];
+      for (let a = 0; a < scalars.length; a++) {
+        faceAttributes[a].values[triIdx] = scalars[a].values[f];
+      }
+      triIdx++;
+    }
+    start += nVerts;
+  }
+
+  return { faceIndices, faceVertexCounts, faceCount: totalTriangles, faceAttributes };
+}
+
 /**
  * Parse ASCII PLY data section.
  */
-function parseAsciiData(text: string, header: PlyHeader): PlyMeshData {
+function* parseAsciiData(text: string, header: PlyHeader): ConversionSteps<PlyMeshData> {
   const vertexElement = header.elements.find(e => e.name === 'vertex');
   const faceElement = header.elements.find(e => e.name === 'face');
 
@@ -222,6 +511,7 @@ function parseAsciiData(text: string, header: PlyHeader): PlyMeshData {
 
   const vertexCount = vertexElement.count;
   const faceCountRaw = faceElement?.count ?? 0;
+  const stepTotal = vertexCount + faceCountRaw;
 
   // Map property indices to roles
   const propRoles = vertexElement.properties.map(p => getPropertyRole(p.name));
@@ -236,6 +526,8 @@ function parseAsciiData(text: string, header: PlyHeader): PlyMeshData {
   const colors = hasColors ? new Float32Array(vertexCount * 3) : undefined;
   const alpha = hasAlpha ? new Float32Array(vertexCount) : undefined;
   const texCoords = hasTexCoords ? new Float32Array(vertexCount * 2) : undefined;
+  const splatLayout = detectSplatLayout(vertexElement.properties, vertexCount);
+  const vertexAttributes = createVertexAttributes(vertexElement.properties, propRoles, splatLayout, vertexCount);
 
   // Bounds tracking
   let minX = Infinity, minY = Infinity, minZ = Infinity;
@@ -272,60 +564,68 @@ function parseAsciiData(text: string, header: PlyHeader): PlyMeshData {
         case 's': texCoords![v * 2] = val; break;
         case 't': texCoords![v * 2 + 1] = val; break;
       }
+      if (splatLayout) writeSplatValue(splatLayout, p, v, val);
+      const attribute = vertexAttributes[p];
+      if (attribute) attribute.values[v] = val;
     }
 
     const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
     if (x < minX) minX = x; if (x > maxX) maxX = x;
     if (y < minY) minY = y; if (y > maxY) maxY = y;
     if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+    if ((v + 1) % PARSE_STEP === 0) yield (v + 1) / stepTotal;
   }
 
   // Parse faces — triangulate quads/polygons
   let faceIndices: Int32Array | undefined;
   let faceVertexCounts: Int32Array | undefined;
   let faceCount = 0;
+  let faceAttributes: PlyAttribute[] = [];
 
   if (faceCountRaw > 0 && faceElement) {
-    // First pass: count total triangles for pre-allocation
-    const faceLines: string[] = [];
-    let totalTriangles = 0;
+    const listProp = findIndexListProperty(faceElement);
+    const sizes = new Int32Array(faceCountRaw);
+    const indices: number[] = [];
+    const scalars = faceElement.properties
+      .filter(p => !p.isList)
+      .map(prop => ({ prop, values: new Float64Array(faceCountRaw) }));
 
     for (let f = 0; f < faceCountRaw; f++) {
       while (lineIdx < lines.length && lines[lineIdx].trim() === '') lineIdx++;
       if (lineIdx >= lines.length) throw new Error(`PLY: premature end at face ${f}`);
-      const line = lines[lineIdx++].trim();
-      faceLines.push(line);
-      const nVerts = parseInt(line.split(/\s+/)[0], 10);
-      totalTriangles += nVerts - 2; // fan triangulation
-    }
+      const parts = lines[lineIdx++].trim().split(/\s+/).map(Number);
 
-    faceCount = totalTriangles;
-    faceIndices = new Int32Array(totalTriangles * 3);
-    faceVertexCounts = new Int32Array(totalTriangles);
-    faceVertexCounts.fill(3);
-
-    let triIdx = 0;
-    for (let f = 0; f < faceCountRaw; f++) {
-      const parts = faceLines[f].split(/\s+/).map(Number);
-      const nVerts = parts[0];
-      const verts = parts.slice(1, 1 + nVerts);
-
-      // Fan triangulation
-      for (let t = 0; t < nVerts - 2; t++) {
-        faceIndices[triIdx * 3] = verts[0];
-        faceIndices[triIdx * 3 + 1] = verts[t + 1];
-        faceIndices[triIdx * 3 + 2] = verts[t + 2];
-        triIdx++;
+      // Walk the properties in declaration order; lists are prefixed by their length
+      let i = 0;
+      let scalarIdx = 0;
+      for (const prop of faceElement.properties) {
+        if (prop.isList) {
+          const n = parts[i++];
+          if (prop === listProp) {
+            sizes[f] = n;
+            for (let k = 0; k < n; k++) indices.push(parts[i + k]);
+          }
+          i += n;
+        } else {
+          scalars[scalarIdx++].values[f] = parts[i++];
+        }
       }
+      if ((f + 1) % PARSE_STEP === 0) yield (vertexCount + f + 1) / stepTotal;
     }
+
+    ({ faceIndices, faceVertexCounts, faceCount, faceAttributes } = triangulatePolygons({ sizes, indices, scalars }));
   }
 
   const isPointCloud = faceCount === 0;
+  // Splat trainers write all-zero nx/ny/nz placeholders; those are dropped below
+  const splatResult = splatLayout ? finishSplat(splatLayout, vertexCount) : undefined;
 
   return {
-    positions, normals, colors, alpha, texCoords,
+    positions, normals: splatResult && normals?.every(n => n === 0) ? undefined : normals,
+    colors: splatResult?.colors ?? colors, alpha, texCoords,
     vertexCount, faceIndices, faceVertexCounts, faceCount,
-    isPointCloud, format: 'ascii',
+    vertexAttributes: vertexAttributes.filter((a): a is PlyAttribute => a !== null), faceAttributes,
+    isPointCloud, splat: splatResult?.splat, format: 'ascii',
     bounds: { min: { x: minX, y: minY, z: minZ }, max: { x: maxX, y: maxY, z: maxZ } },
   };
 }
@@ -334,7 +634,7 @@ function parseAsciiData(text: string, header: PlyHeader): PlyMeshData {
  * Parse binary PLY data section (little-endian or big-endian).
  * Single-pass, zero intermediate string allocation.
  */
-function parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): PlyMeshData {
+function* parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): ConversionSteps<PlyMeshData> {
   const littleEndian = header.format === 'binary_little_endian';
   const view = new DataView(buffer);
   let offset = header.headerByteLength;
@@ -348,6 +648,8 @@ function parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): PlyMeshData {
 
   const vertexCount = vertexElement.count;
   const faceCountRaw = faceElement?.count ?? 0;
+  // Faces are read in two passes
+  const stepTotal = vertexCount + 2 * faceCountRaw;
 
   // Map property indices to roles
   const propRoles = vertexElement.properties.map(p => getPropertyRole(p.name));
@@ -362,6 +664,8 @@ function parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): PlyMeshData {
   const colors = hasColors ? new Float32Array(vertexCount * 3) : undefined;
   const alpha = hasAlpha ? new Float32Array(vertexCount) : undefined;
   const texCoords = hasTexCoords ? new Float32Array(vertexCount * 2) : undefined;
+  const splatLayout = detectSplatLayout(vertexElement.properties, vertexCount);
+  const vertexAttributes = createVertexAttributes(vertexElement.properties, propRoles, splatLayout, vertexCount);
 
   let minX = Infinity, minY = Infinity, minZ = Infinity;
   let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
@@ -403,12 +707,16 @@ function parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): PlyMeshData {
             case 's': texCoords![v * 2] = val; break;
             case 't': texCoords![v * 2 + 1] = val; break;
           }
+          if (splatLayout) writeSplatValue(splatLayout, p, v, val);
+          const attribute = vertexAttributes[p];
+          if (attribute) attribute.values[v] = val;
         }
 
         const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
         if (x < minX) minX = x; if (x > maxX) maxX = x;
         if (y < minY) minY = y; if (y > maxY) maxY = y;
         if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+        if ((v + 1) % PARSE_STEP === 0) yield (v + 1) / stepTotal;
       }
     } else if (element.name === 'face') {
       // We'll handle face parsing below after reading all elements in order
@@ -437,80 +745,65 @@ function parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): PlyMeshData {
   let faceIndices: Int32Array | undefined;
   let faceVertexCounts: Int32Array | undefined;
   let faceCount = 0;
+  let faceAttributes: PlyAttribute[] = [];
 
   if (faceCountRaw > 0 && faceElement) {
-    const listProp = faceElement.properties.find(p => p.isList);
-    if (!listProp) {
-      throw new Error('PLY face element has no list property');
-    }
-
-    // Two-pass for binary faces: first count triangles, then parse
-    // Save offset for second pass
-    const faceStartOffset = offset;
+    const listProp = findIndexListProperty(faceElement);
+    const indexSize = PROPERTY_SIZES[listProp.valueType!] || 4;
+    const sizes = new Int32Array(faceCountRaw);
+    const scalars = faceElement.properties
+      .filter(p => !p.isList)
+      .map(prop => ({ prop, values: new Float64Array(faceCountRaw) }));
 
-    // First pass: count total triangles
-    let totalTriangles = 0;
-    let tempOffset = faceStartOffset;
+    // First pass: polygon sizes, scalar properties and where each index list starts
+    const listOffsets = new Float64Array(faceCountRaw);
+    let totalIndices = 0;
 
     for (let f = 0; f < faceCountRaw; f++) {
-      const countResult = readValue(view, tempOffset, listProp.countType!, littleEndian);
-      tempOffset += countResult.bytesRead;
-      const nVerts = countResult.value;
-      totalTriangles += nVerts - 2;
-      tempOffset += nVerts * (PROPERTY_SIZES[listProp.valueType!] || 4);
-
-      // Skip any non-list properties on the face element
+      let scalarIdx = 0;
       for (const prop of faceElement.properties) {
-        if (!prop.isList) {
-          tempOffset += PROPERTY_SIZES[prop.type] || 4;
+        if (prop.isList) {
+          const countResult = readValue(view, offset, prop.countType!, littleEndian);
+          offset += countResult.bytesRead;
+          const nVerts = countResult.value;
+          if (prop === listProp) {
+            sizes[f] = nVerts;
+            listOffsets[f] = offset;
+            totalIndices += nVerts;
+          }
+          offset += nVerts * (PROPERTY_SIZES[prop.valueType!] || 4);
+        } else {
+          const result = readValue(view, offset, prop.type, littleEndian);
+          offset += result.bytesRead;
+          scalars[scalarIdx++].values[f] = result.value;
         }
       }
+      if ((f + 1) % PARSE_STEP === 0) yield (vertexCount + f + 1) / stepTotal;
     }
 
-    faceCount = totalTriangles;
-    faceIndices = new Int32Array(totalTriangles * 3);
-    faceVertexCounts = new Int32Array(totalTriangles);
-    faceVertexCounts.fill(3);
-
     // Second pass: read indices
-    offset = faceStartOffset;
-    let triIdx = 0;
-
+    const indices = new Int32Array(totalIndices);
+    let idx = 0;
     for (let f = 0; f < faceCountRaw; f++) {
-      const countResult = readValue(view, offset, listProp.countType!, littleEndian);
-      offset += countResult.bytesRead;
-      const nVerts = countResult.value;
-
-      const verts: number[] = [];
-      for (let vi = 0; vi < nVerts; vi++) {
-        const idxResult = readValue(view, offset, listProp.valueType!, littleEndian);
-        offset += idxResult.bytesRead;
-        verts.push(idxResult.value);
-      }
-
-      // Skip non-list properties
-      for (const prop of faceElement.properties) {
-        if (!prop.isList) {
-          offset += PROPERTY_SIZES[prop.type] || 4;
-        }
-      }
-
-      // Fan triangulation
-      for (let t = 0; t < nVerts - 2; t++) {
-        faceIndices[triIdx * 3] = verts[0];
-        faceIndices[triIdx * 3 + 1] = verts[t + 1];
-        faceIndices[triIdx * 3 + 2] = verts[t + 2];
-        triIdx++;
+      for (let vi = 0; vi < sizes[f]; vi++) {
+        indices[idx++] = readValue(view, listOffsets[f] + vi * indexSize, listProp.valueType!, littleEndian).value;
       }
+      if ((f + 1) % PARSE_STEP === 0) yield (vertexCount + faceCountRaw + f + 1) / stepTotal;
     }
+
+    ({ faceIndices, faceVertexCounts, faceCount, faceAttributes } = triangulatePolygons({ sizes, indices, scalars }));
   }
 
   const isPointCloud = faceCount === 0;
+  // Splat trainers write all-zero nx/ny/nz placeholders; those are dropped below
+  const splatResult = splatLayout ? finishSplat(splatLayout, vertexCount) : undefined;
 
   return {
-    positions, normals, colors, alpha, texCoords,
+    positions, normals: splatResult && normals?.every(n => n === 0) ? undefined : normals,
+    colors: splatResult?.colors ?? colors, alpha, texCoords,
     vertexCount, faceIndices, faceVertexCounts, faceCount,
-    isPointCloud, format: header.format,
+    vertexAttributes: vertexAttributes.filter((a): a is PlyAttribute => a !== null), faceAttributes,
+    isPointCloud, splat: splatResult?.splat, format: header.format,
     bounds: { min: { x: minX, y: minY, z: minZ }, max: { x: maxX, y: maxY, z: maxZ } },
   };
 }
@@ -519,6 +812,14 @@ function parseBinaryData(buffer: ArrayBuffer, header: PlyHeader): PlyMeshData {
  * Parse a PLY file from an ArrayBuffer.
  */
 export function parsePly(buffer: ArrayBuffer, _config?: PlyParserConfig): PlyMeshData {
+  return runSteps(parsePlySteps(buffer, _config));
+}
+
+/**
+ * Parse a PLY file from an ArrayBuffer, yielding the share of vertices and
+ * faces read every `PARSE_STEP` elements.
+ */
+export function parsePlySteps(buffer: ArrayBuffer, _config?: PlyParserConfig): ConversionSteps<PlyMeshData> {
   const header = parseHeader(buffer);
 
   if (header.format === 'ascii') {
@@ -533,11 +834,17 @@ export function parsePly(buffer: ArrayBuffer, _config?: PlyParserConfig): PlyMes
  * Parse a PLY file from a file path (Node.js only).
  */
 export async function parsePlyFile(filePath: string, _config?: PlyParserConfig): Promise<PlyMeshData> {
+  return parsePly(await readPlyFile(filePath), _config);
+}
+
+/**
+ * Read a PLY file into an ArrayBuffer (Node.js only).
+ */
+export async function readPlyFile(filePath: string): Promise<ArrayBuffer> {
   const fs = await import('fs');
   const fileBuffer = fs.readFileSync(filePath);
-  const arrayBuffer = fileBuffer.buffer.slice(
+  return fileBuffer.buffer.slice(
     fileBuffer.byteOffset,
     fileBuffer.byteOffset + fileBuffer.byteLength
   );
-  return parsePly(arrayBuffer, _config);
 }
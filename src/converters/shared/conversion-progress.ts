@@ -0,0 +1,156 @@
+/** WebUsdFramework.Converters.Shared.ConversionProgress - Progress events and AbortSignal cancellation for a running conversion */
+
+/**
+ * One progress event of a conversion
+ */
+export interface ConversionProgress {
+  /** Stage the converter entered, e.g. `glb_parsing` or `usdz_packaging` */
+  stage: string;
+  /** Estimated share of the conversion done, from 0 to 1 */
+  fraction: number;
+  /** Archive bytes streamed to `outputPath` so far; 0 for Blob output */
+  bytesWritten: number;
+}
+
+export type ProgressCallback = (progress: ConversionProgress) => void;
+
+/**
+ * Progress and cancellation options shared by every converter
+ */
+export interface ConversionControl {
+  /**
+   * Stops the conversion when aborted. The converter rejects with the
+   * signal's `reason` and removes the partially written `outputPath`.
+   *
+   * The signal is checked at stage boundaries, between chunks of the
+   * per-element loops (PLY vertices and faces, glTF meshes and top-level
+   * nodes) and between archive writes. Mesh decimation and serializing the
+   * USD layer run without a check, so an abort during them takes effect
+   * once they finish.
+   */
+  signal?: AbortSignal;
+  /** Called whenever the conversion enters a stage or writes archive bytes */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Work split into steps: yields the share done so far (0 to 1) between
+ * chunks and returns its result
+ */
+export type ConversionSteps<T> = Generator<number, T, void>;
+
+/**
+ * Run `steps` straight through, for callers without progress or a signal
+ */
+export function runSteps<T>(steps: ConversionSteps<T>): T {
+  for (;;) {
+    const result = steps.next();
+    if (result.done) return result.value;
+  }
+}
+
+/**
+ * Options the tracker hands to the streaming packager
+ */
+export interface PackagingProgressOptions {
+  signal?: AbortSignal;
+  onBytesWritten: (bytesWritten: number, expectedBytes: number) => void;
+}
+
+/**
+ * Tracks a converter through its ordered stages.
+ *
+ * Each stage's share of the fraction is even. Entering a stage other than
+ * the last checks the signal first, so an aborted conversion stops at the
+ * next stage boundary; `advance` and `runSteps` also check it within a
+ * stage, and the packager between archive writes. Stages missing from the
+ * list (or entered again) are reported without moving the fraction.
+ */
+export class ConversionProgressTracker {
+  private stageIndex = -1;
+  private stage = '';
+  private fraction = 0;
+  private bytesWritten = 0;
+
+  constructor(
+    private readonly stages: readonly string[],
+    private readonly control: ConversionControl = {}
+  ) { }
+
+  /**
+   * Throw the signal's reason if the conversion was aborted
+   */
+  throwIfAborted(): void {
+    this.control.signal?.throwIfAborted();
+  }
+
+  /**
+   * Report entering `stage`
+   */
+  enterStage(stage: string): void {
+    // The output is complete by the last stage; keep it
+    if (stage !== this.stages[this.stages.length - 1]) this.throwIfAborted();
+    const index = this.stages.indexOf(stage);
+    if (index > this.stageIndex) {
+      this.stageIndex = index;
+      this.fraction = this.stageFraction(index);
+    }
+    this.stage = stage;
+    this.emit();
+  }
+
+  /**
+   * Report `share` (0 to 1) of the current stage done. Gives the event loop
+   * a turn first, so an abort issued meanwhile stops the conversion here.
+   */
+  async advance(share: number): Promise<void> {
+    await new Promise<void>(resolve => setImmediate(resolve));
+    this.throwIfAborted();
+    const start = this.stageFraction(this.stageIndex);
+    const end = this.stageFraction(this.stageIndex + 1);
+    this.fraction = Math.max(this.fraction, start + (end - start) * Math.min(1, Math.max(0, share)));
+    this.emit();
+  }
+
+  /**
+   * Run `steps` within the current stage, advancing at each step
+   */
+  async runSteps<T>(steps: ConversionSteps<T>): Promise<T> {
+    for (;;) {
+      const result = steps.next();
+      if (result.done) return result.value;
+      await this.advance(result.value);
+    }
+  }
+
+  /**
+   * Options for `createUsdzPackageToFile`, reporting archive bytes as a
+   * share of the current stage
+   */
+  packagingOptions(): PackagingProgressOptions {
+    const start = this.fraction;
+    const end = this.stageFraction(this.stageIndex + 1);
+    return {
+      ...(this.control.signal ? { signal: this.control.signal } : {}),
+      onBytesWritten: (bytesWritten, expectedBytes) => {
+        this.bytesWritten = bytesWritten;
+        const share = expectedBytes > 0 ? Math.min(1, bytesWritten / expectedBytes) : 1;
+        this.fraction = Math.max(this.fraction, start + (end - start) * share);
+        this.emit();
+      }
+    };
+  }
+
+  private stageFraction(index: number): number {
+    const last = this.stages.length - 1;
+    return last > 0 ? Math.min(1, Math.max(0, index) / last) : 1;
+  }
+
+  private emit(): void {
+    this.control.onProgress?.({
+      stage: this.stage,
+      fraction: this.fraction,
+      bytesWritten: this.bytesWritten
+    });
+  }
+}
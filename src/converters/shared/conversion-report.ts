@@ -0,0 +1,197 @@
+/** WebUsdFramework.Converters.Shared.ConversionReport - Collects warnings, counts, stage timings and output sizes of a conversion */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { UsdNode } from '../../core/usd-node';
+import { DIRECTORY_NAMES } from '../../constants/config';
+import { LogEntry, LogLevel, runWithLogObserver } from '../../utils/logger';
+import type { StreamingUsdzFile } from './usdz-stream-writer';
+
+/**
+ * Prims and files written by a conversion
+ */
+export interface ConversionCounts {
+  /** Every prim in the layer, including prims inside variants */
+  prims: number;
+  meshes: number;
+  points: number;
+  curves: number;
+  materials: number;
+  skeletons: number;
+  animations: number;
+  lights: number;
+  cameras: number;
+  instancers: number;
+  /** Texture files in the archive */
+  textures: number;
+  /** Files in the archive, root layer included */
+  files: number;
+}
+
+/**
+ * Size of one file inside the USDZ archive
+ */
+export interface ConversionOutputFile {
+  name: string;
+  bytes: number;
+}
+
+/**
+ * Structured summary of one conversion
+ */
+export interface ConversionReport {
+  /** Warnings and errors logged while converting, e.g. skipped scenes or unsupported extensions */
+  warnings: LogEntry[];
+  counts: ConversionCounts;
+  /** Milliseconds spent in each logged conversion stage, in the order the stages ran */
+  timings: Record<string, number>;
+  /** Milliseconds for the whole conversion */
+  durationMs: number;
+  output: {
+    /** Archive size in bytes */
+    totalBytes: number;
+    files: ConversionOutputFile[];
+  };
+}
+
+/**
+ * Converter output together with its report
+ */
+export interface ConversionResult<T> {
+  output: T;
+  report: ConversionReport;
+}
+
+/**
+ * Collector for the conversion running in the current async call chain
+ */
+class ConversionReportCollector {
+  private readonly startTime = Date.now();
+  private readonly report: ConversionReport = {
+    warnings: [],
+    counts: {
+      prims: 0,
+      meshes: 0,
+      points: 0,
+      curves: 0,
+      materials: 0,
+      skeletons: 0,
+      animations: 0,
+      lights: 0,
+      cameras: 0,
+      instancers: 0,
+      textures: 0,
+      files: 0
+    },
+    timings: {},
+    durationMs: 0,
+    output: { totalBytes: 0, files: [] }
+  };
+  private currentStage: string | undefined;
+  private stageStart = this.startTime;
+
+  /**
+   * Keep warnings and time the stage named by the entry's `stage` context
+   */
+  record(entry: LogEntry): void {
+    if (entry.level === LogLevel.WARN || entry.level === LogLevel.ERROR) {
+      this.report.warnings.push(entry);
+    }
+
+    const stage = entry.context?.stage;
+    if (typeof stage === 'string' && stage !== this.currentStage) {
+      this.closeStage(entry.time);
+      this.currentStage = stage;
+      this.stageStart = entry.time;
+    }
+  }
+
+  /**
+   * Count the packaged prims and files. A conversion that packages more
+   * than once (e.g. one archive per input file) adds up.
+   */
+  recordPackage(roots: UsdNode[], files: StreamingUsdzFile[], totalBytes: number): void {
+    const counts = this.report.counts;
+    for (const root of roots) {
+      countPrims(root, counts);
+    }
+    for (const file of files) {
+      const bytes = Array.isArray(file.data)
+        ? file.data.reduce((size, chunk) => size + chunk.byteLength, 0)
+        : file.data.byteLength;
+      this.report.output.files.push({ name: file.name, bytes });
+      if (file.name.startsWith(`${DIRECTORY_NAMES.TEXTURES}/`)) counts.textures++;
+    }
+    counts.files += files.length;
+    this.report.output.totalBytes += totalBytes;
+  }
+
+  finish(): ConversionReport {
+    const now = Date.now();
+    this.closeStage(now);
+    this.report.durationMs = now - this.startTime;
+    return this.report;
+  }
+
+  private closeStage(time: number): void {
+    if (this.currentStage === undefined) return;
+    this.report.timings[this.currentStage] = (this.report.timings[this.currentStage] ?? 0) + (time - this.stageStart);
+  }
+}
+
+const activeReport = new AsyncLocalStorage<ConversionReportCollector>();
+
+/**
+ * Add a prim subtree, variants included, to the counts
+ */
+function countPrims(node: UsdNode, counts: ConversionCounts): void {
+  const typeName = node.getTypeName();
+  if (typeName) {
+    counts.prims++;
+    if (typeName === 'Mesh') counts.meshes++;
+    else if (typeName === 'Points') counts.points++;
+    else if (typeName === 'BasisCurves') counts.curves++;
+    else if (typeName === 'Material') counts.materials++;
+    else if (typeName === 'Skeleton') counts.skeletons++;
+    else if (typeName === 'SkelAnimation') counts.animations++;
+    else if (typeName === 'Camera') counts.cameras++;
+    else if (typeName === 'PointInstancer') counts.instancers++;
+    else if (typeName.endsWith('Light')) counts.lights++;
+  }
+
+  for (const child of node.getChildren()) {
+    countPrims(child, counts);
+  }
+  for (const { variants } of node.getVariantSets()) {
+    for (const variant of variants.values()) {
+      for (const child of variant.getChildren()) {
+        countPrims(child, counts);
+      }
+    }
+  }
+}
+
+/**
+ * Run a conversion and build its report from what it logs and packages
+ */
+export async function collectConversionReport<T>(convert: () => Promise<T>): Promise<ConversionResult<T>> {
+  const collector = new ConversionReportCollector();
+  const output = await activeReport.run(collector, () =>
+    runWithLogObserver((entry) => collector.record(entry), convert)
+  );
+  return { output, report: collector.finish() };
+}
+
+/**
+ * Report a packaged archive to the conversion being collected, if any
+ */
+export function recordPackagedOutput(
+  roots: Array<UsdNode | undefined>,
+  files: StreamingUsdzFile[],
+  totalBytes: number
+): void {
+  activeReport.getStore()?.recordPackage(
+    roots.filter((root): root is UsdNode => !!root),
+    files,
+    totalBytes
+  );
+}
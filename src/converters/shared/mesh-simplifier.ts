@@ -0,0 +1,928 @@
+/** WebUsdFramework.Converters.Shared.MeshSimplifier - Quadric error metric edge-collapse decimation */
+
+/**
+ * Per-vertex attribute seen by the simplifier.
+ *
+ * Vertices that share a position but differ in an attribute form a seam
+ * (UV island edges, hard normals, color borders); seams keep their shape.
+ * `weight` scales how much attribute differences add to a collapse's cost;
+ * 0 only preserves the seams.
+ */
+export interface SimplifyAttribute {
+  values: ArrayLike<number>;
+  /** Components per vertex */
+  size: number;
+  /** @default 1 */
+  weight?: number;
+}
+
+export interface SimplifyMeshOptions {
+  /** Stop once the mesh has this many triangles or fewer */
+  targetFaceCount: number;
+  attributes?: SimplifyAttribute[];
+  /**
+   * Group id per triangle (facet color, material index, ...). Edges between
+   * groups are seams, so every group keeps its outline.
+   */
+  faceGroups?: ArrayLike<number>;
+}
+
+/**
+ * Simplified triangle list. Surviving vertices and triangles keep their
+ * input data — compact per-vertex arrays with `remapVertexAttribute`.
+ */
+export interface SimplifiedMesh {
+  /** Triangle indices into the output vertices */
+  indices: Uint32Array;
+  /** Output vertex -> input vertex */
+  vertexRemap: Uint32Array;
+  /** Output triangle -> input triangle, in input order */
+  faceRemap: Uint32Array;
+  vertexCount: number;
+  faceCount: number;
+}
+
+/**
+ * Decimation settings shared by every converter config
+ */
+export interface DecimationSettings {
+  /** Target triangle count for the whole model (0 = off) */
+  decimateTarget?: number | undefined;
+  /** Fraction of triangles to keep, (0, 1] (1 = off) */
+  decimateRatio?: number | undefined;
+}
+
+type NumericArray =
+  | Float32Array | Float64Array
+  | Int8Array | Uint8Array | Int16Array | Uint16Array | Int32Array | Uint32Array;
+
+// Vertex kinds. Seam and border vertices only slide along their seam / border.
+const MANIFOLD = 0;
+const BORDER = 1;
+const SEAM = 2;
+const LOCKED = 3;
+
+// Open-edge flags per wedge
+const SEAM_EDGE = 1;
+const BORDER_EDGE = 2;
+
+/** Border edges resist being pulled inwards this much more than surfaces */
+const BORDER_WEIGHT = 10;
+
+/** Reject collapses that turn a triangle by more than ~75 degrees */
+const MIN_NORMAL_DOT = 0.25;
+
+/**
+ * Triangle budget for a model with `faceCount` triangles, or 0 when the
+ * settings ask for no reduction. When both are set the smaller budget wins.
+ */
+export function resolveDecimationTarget(faceCount: number, settings: DecimationSettings): number {
+  let target = faceCount;
+  if (settings.decimateTarget && settings.decimateTarget > 0) {
+    target = Math.min(target, Math.floor(settings.decimateTarget));
+  }
+  if (settings.decimateRatio !== undefined && settings.decimateRatio < 1) {
+    target = Math.min(target, Math.floor(faceCount * settings.decimateRatio));
+  }
+  return target < faceCount ? Math.max(1, target) : 0;
+}
+
+/**
+ * Axis-aligned bounds of a mesh
+ */
+export interface MeshBounds {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+/**
+ * Bounds of a flat [x,y,z, ...] position array, e.g. to refresh a mesh's
+ * extent after decimation.
+ */
+export function computeBounds(positions: ArrayLike<number>): MeshBounds {
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+    if (x < minX) minX = x; if (x > maxX) maxX = x;
+    if (y < minY) minY = y; if (y > maxY) maxY = y;
+    if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+  }
+  return { min: { x: minX, y: minY, z: minZ }, max: { x: maxX, y: maxY, z: maxZ } };
+}
+
+/**
+ * Copy the per-vertex values of the surviving vertices into a new array of
+ * the same type.
+ */
+export function remapVertexAttribute<T extends NumericArray>(
+  values: T,
+  size: number,
+  vertexRemap: ArrayLike<number>
+): T {
+  const out = new (values.constructor as new (length: number) => T)(vertexRemap.length * size);
+  for (let i = 0; i < vertexRemap.length; i++) {
+    const src = vertexRemap[i] * size;
+    for (let c = 0; c < size; c++) {
+      out[i * size + c] = values[src + c];
+    }
+  }
+  return out;
+}
+
+/**
+ * Quadric error metric mesh simplification (Garland & Heckbert).
+ *
+ * Collapses the cheapest edge first, moving one vertex onto its neighbour
+ * (half-edge collapse), so every surviving vertex keeps its exact position,
+ * normal, UV and color. The cost of a collapse is the squared distance to
+ * the planes of the original surface around the removed vertex, plus the
+ * weighted attribute difference it introduces.
+ *
+ * - Borders are held by perpendicular edge planes and only collapse along themselves
+ * - Attribute seams only collapse along the seam, on both sides at once
+ * - Non-manifold and seam-junction vertices never move
+ * - Face group borders (`faceGroups`) are seams too
+ * - Collapses that flip a triangle or pinch the surface are rejected
+ *
+ * Stops at `targetFaceCount` or when no valid collapse is left.
+ *
+ * @param positions Flat [x,y,z, ...] vertex positions
+ * @param indices   Flat triangle vertex indices
+ */
+export function simplifyMesh(
+  positions: ArrayLike<number>,
+  indices: ArrayLike<number>,
+  options: SimplifyMeshOptions
+): SimplifiedMesh {
+  const vertexCount = Math.floor(positions.length / 3);
+  const faceCount = Math.floor(indices.length / 3);
+  const attributes = options.attributes ?? [];
+  const target = Math.max(0, Math.floor(options.targetFaceCount));
+
+  if (faceCount <= target) {
+    return identityResult(vertexCount, indices, faceCount);
+  }
+  if (options.faceGroups) {
+    return simplifyFaceGroups(positions, indices, { targetFaceCount: target, attributes }, options.faceGroups);
+  }
+
+  // Vertices equal in position and every attribute are the same wedge;
+  // wedges that only share a position belong to the same position vertex
+  const positionStream = { values: positions, size: 3 };
+  const wedgeOf = weldVertices(vertexCount, [positionStream, ...attributes]);
+  const positionRep = weldVertices(vertexCount, [positionStream]);
+
+  const posOf = new Int32Array(vertexCount).fill(-1);
+  let positionCount = 0;
+  for (let v = 0; v < vertexCount; v++) {
+    const rep = positionRep[v];
+    posOf[v] = rep === v ? positionCount++ : posOf[rep];
+  }
+
+  // Triangles over wedges; triangles collapsed to a point or line are dropped up front
+  const tri = new Int32Array(faceCount * 3);
+  const triDead = new Uint8Array(faceCount);
+  let liveFaces = 0;
+  for (let t = 0; t < faceCount; t++) {
+    const a = wedgeOf[indices[t * 3]];
+    const b = wedgeOf[indices[t * 3 + 1]];
+    const c = wedgeOf[indices[t * 3 + 2]];
+    tri[t * 3] = a;
+    tri[t * 3 + 1] = b;
+    tri[t * 3 + 2] = c;
+    if (posOf[a] === posOf[b] || posOf[b] === posOf[c] || posOf[a] === posOf[c]) {
+      triDead[t] = 1;
+    } else {
+      liveFaces++;
+    }
+  }
+
+  // Position -> triangles. Lists live in one pool; a collapse appends the merged list.
+  const adjStart = new Int32Array(positionCount);
+  const adjCount = new Int32Array(positionCount);
+  for (let t = 0; t < faceCount; t++) {
+    if (triDead[t]) continue;
+    for (let k = 0; k < 3; k++) adjCount[posOf[tri[t * 3 + k]]]++;
+  }
+  let poolEnd = 0;
+  for (let p = 0; p < positionCount; p++) {
+    adjStart[p] = poolEnd;
+    poolEnd += adjCount[p];
+    adjCount[p] = 0;
+  }
+  let pool = new Int32Array(Math.max(16, poolEnd * 2));
+  for (let t = 0; t < faceCount; t++) {
+    if (triDead[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const p = posOf[tri[t * 3 + k]];
+      pool[adjStart[p] + adjCount[p]++] = t;
+    }
+  }
+
+  // Wedges in use per position
+  const wedgeHead = new Int32Array(positionCount).fill(-1);
+  const wedgeNext = new Int32Array(vertexCount).fill(-1);
+  const wedgeCount = new Int32Array(positionCount);
+  const wedgeListed = new Uint8Array(vertexCount);
+  for (let t = 0; t < faceCount; t++) {
+    if (triDead[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const w = tri[t * 3 + k];
+      if (wedgeListed[w]) continue;
+      wedgeListed[w] = 1;
+      const p = posOf[w];
+      wedgeNext[w] = wedgeHead[p];
+      wedgeHead[p] = w;
+      wedgeCount[p]++;
+    }
+  }
+
+  // Normalize to the unit box so costs are comparable across models
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let v = 0; v < vertexCount; v++) {
+    if (!wedgeListed[v]) continue;
+    const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
+    if (x < minX) minX = x; if (x > maxX) maxX = x;
+    if (y < minY) minY = y; if (y > maxY) maxY = y;
+    if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+  }
+  const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ);
+  const scale = extent > 0 ? 1 / extent : 1;
+  const pos = new Float64Array(positionCount * 3);
+  for (let v = 0; v < vertexCount; v++) {
+    if (positionRep[v] !== v) continue;
+    const p = posOf[v];
+    pos[p * 3] = (positions[v * 3] - minX) * scale;
+    pos[p * 3 + 1] = (positions[v * 3 + 1] - minY) * scale;
+    pos[p * 3 + 2] = (positions[v * 3 + 2] - minZ) * scale;
+  }
+
+  // Open edges per wedge, non-manifold edges, face and border quadrics
+  const openOut = new Int32Array(vertexCount).fill(-1);
+  const openIn = new Int32Array(vertexCount).fill(-1);
+  const edgeFlags = new Uint8Array(vertexCount);
+  const locked = new Uint8Array(positionCount);
+  const quadrics = new Float64Array(positionCount * 10);
+  const quadricArea = new Float64Array(positionCount);
+
+  for (let t = 0; t < faceCount; t++) {
+    if (triDead[t]) continue;
+    const { x: faceX, y: faceY, z: faceZ, length: faceLength } =
+      triangleNormal(pos, posOf[tri[t * 3]], posOf[tri[t * 3 + 1]], posOf[tri[t * 3 + 2]]);
+    const area = faceLength / 2;
+    if (faceLength > 0) {
+      const nx = faceX / faceLength, ny = faceY / faceLength, nz = faceZ / faceLength;
+      const p0 = posOf[tri[t * 3]];
+      const d = -(nx * pos[p0 * 3] + ny * pos[p0 * 3 + 1] + nz * pos[p0 * 3 + 2]);
+      for (let k = 0; k < 3; k++) {
+        const p = posOf[tri[t * 3 + k]];
+        addPlane(quadrics, p, nx, ny, nz, d, area);
+        quadricArea[p] += area;
+      }
+    }
+
+    for (let k = 0; k < 3; k++) {
+      const a = tri[t * 3 + k];
+      const b = tri[t * 3 + (k + 1) % 3];
+      const pa = posOf[a], pb = posOf[b];
+
+      let wedgePaired = false;
+      let reversed = 0;
+      for (let i = adjStart[pb], e = i + adjCount[pb]; i < e; i++) {
+        const s = pool[i];
+        if (triDead[s]) continue;
+        for (let j = 0; j < 3; j++) {
+          const from = tri[s * 3 + j], to = tri[s * 3 + (j + 1) % 3];
+          if (posOf[from] === pb && posOf[to] === pa) {
+            reversed++;
+            if (from === b && to === a) wedgePaired = true;
+          }
+        }
+      }
+      let forward = 0;
+      for (let i = adjStart[pa], e = i + adjCount[pa]; i < e; i++) {
+        const s = pool[i];
+        if (triDead[s]) continue;
+        for (let j = 0; j < 3; j++) {
+          if (posOf[tri[s * 3 + j]] === pa && posOf[tri[s * 3 + (j + 1) % 3]] === pb) forward++;
+        }
+      }
+      if (forward > 1 || reversed > 1) {
+        locked[pa] = 1;
+        locked[pb] = 1;
+      }
+
+      if (!wedgePaired) {
+        openOut[a] = openOut[a] === -1 ? b : -2;
+        openIn[b] = openIn[b] === -1 ? a : -2;
+        const flag = reversed > 0 ? SEAM_EDGE : BORDER_EDGE;
+        edgeFlags[a] |= flag;
+        edgeFlags[b] |= flag;
+      }
+
+      if (reversed === 0 && faceLength > 0) {
+        // Plane through the border edge, perpendicular to the face
+        const ex = pos[pb * 3] - pos[pa * 3];
+        const ey = pos[pb * 3 + 1] - pos[pa * 3 + 1];
+        const ez = pos[pb * 3 + 2] - pos[pa * 3 + 2];
+        const px = ey * faceZ - ez * faceY;
+        const py = ez * faceX - ex * faceZ;
+        const pz = ex * faceY - ey * faceX;
+        const len = Math.sqrt(px * px + py * py + pz * pz);
+        if (len > 0) {
+          const nx = px / len, ny = py / len, nz = pz / len;
+          const d = -(nx * pos[pa * 3] + ny * pos[pa * 3 + 1] + nz * pos[pa * 3 + 2]);
+          const weight = (ex * ex + ey * ey + ez * ez) * BORDER_WEIGHT;
+          addPlane(quadrics, pa, nx, ny, nz, d, weight);
+          addPlane(quadrics, pb, nx, ny, nz, d, weight);
+        }
+      }
+    }
+  }
+
+  const kind = new Uint8Array(positionCount);
+  for (let p = 0; p < positionCount; p++) {
+    const w0 = wedgeHead[p];
+    if (locked[p] || w0 < 0) {
+      kind[p] = LOCKED;
+    } else if (wedgeCount[p] === 1) {
+      if (openOut[w0] === -1 && openIn[w0] === -1) {
+        kind[p] = MANIFOLD;
+      } else {
+        kind[p] = openOut[w0] >= 0 && openIn[w0] >= 0 && edgeFlags[w0] === BORDER_EDGE ? BORDER : LOCKED;
+      }
+    } else if (wedgeCount[p] === 2) {
+      const w1 = wedgeNext[w0];
+      const chained = openOut[w0] >= 0 && openIn[w0] >= 0 && openOut[w1] >= 0 && openIn[w1] >= 0 &&
+        edgeFlags[w0] === SEAM_EDGE && edgeFlags[w1] === SEAM_EDGE &&
+        posOf[openOut[w0]] === posOf[openIn[w1]] && posOf[openIn[w0]] === posOf[openOut[w1]];
+      kind[p] = chained ? SEAM : LOCKED;
+    } else {
+      kind[p] = LOCKED;
+    }
+  }
+
+  // Attribute penalty of replacing wedge `from` with wedge `to`
+  const attributeError = (from: number, to: number): number => {
+    let error = 0;
+    for (const attribute of attributes) {
+      const weight = attribute.weight ?? 1;
+      if (weight === 0) continue;
+      const { values, size } = attribute;
+      for (let c = 0; c < size; c++) {
+        const diff = values[from * size + c] - values[to * size + c];
+        error += weight * diff * diff;
+      }
+    }
+    return error;
+  };
+
+  const version = new Int32Array(positionCount);
+  const collapseTarget = new Int32Array(positionCount).fill(-1);
+  const positionDead = new Uint8Array(positionCount);
+  const heap = new CollapseHeap(positionCount);
+
+  // Scratch state for evaluate(); neighbours of the vertex being evaluated
+  // carry `neighborId` in neighborStamp and their slot in candidateSlot
+  const neighborStamp = new Int32Array(positionCount);
+  const candidateSlot = new Int32Array(positionCount);
+  const linkStamp = new Int32Array(positionCount);
+  let neighborId = 0;
+  let linkId = 0;
+  // Candidate collapses of the vertex being evaluated, struct-of-arrays
+  const candQ: number[] = [];
+  const candShared: number[] = [];
+  const candFrom0: number[] = [];
+  const candTo0: number[] = [];
+  const candFrom1: number[] = [];
+  const candTo1: number[] = [];
+  const candValid: boolean[] = [];
+  const candCost: number[] = [];
+  const order: number[] = [];
+
+  /**
+   * Link condition: p and q may only share the neighbours opposite edge pq,
+   * otherwise the collapse pinches the surface
+   */
+  const keepsManifold = (q: number, shared: number): boolean => {
+    linkId++;
+    let common = 0;
+    for (let i = adjStart[q], e = i + adjCount[q]; i < e; i++) {
+      const t = pool[i];
+      if (triDead[t]) continue;
+      for (let j = 0; j < 3; j++) {
+        const r = posOf[tri[t * 3 + j]];
+        if (r !== q && neighborStamp[r] === neighborId && linkStamp[r] !== linkId) {
+          linkStamp[r] = linkId;
+          common++;
+        }
+      }
+    }
+    return common === shared;
+  };
+
+  // No triangle of p may flip or degenerate when p moves onto q
+  const keepsOrientation = (p: number, q: number): boolean => {
+    for (let i = adjStart[p], e = i + adjCount[p]; i < e; i++) {
+      const t = pool[i];
+      const a = posOf[tri[t * 3]], b = posOf[tri[t * 3 + 1]], c = posOf[tri[t * 3 + 2]];
+      if (a === q || b === q || c === q) continue;
+      if (flipsWhenMoved(pos, a, b, c, p, q)) return false;
+    }
+    return true;
+  };
+
+  /**
+   * Find p's cheapest valid collapse and queue it. Candidates are ranked by
+   * cost first so the topology checks usually run once.
+   */
+  const evaluate = (p: number): void => {
+    collapseTarget[p] = -1;
+    if (kind[p] === LOCKED || positionDead[p]) return;
+
+    // Drop triangles that died around p since its list was built
+    let live = adjStart[p];
+    for (let i = adjStart[p], e = i + adjCount[p]; i < e; i++) {
+      if (!triDead[pool[i]]) pool[live++] = pool[i];
+    }
+    adjCount[p] = live - adjStart[p];
+
+    // One pass over p's fan: neighbours, triangles shared with each, and
+    // which wedge of the neighbour each wedge of p would land on
+    neighborId++;
+    let candidateCount = 0;
+    for (let i = adjStart[p], e = i + adjCount[p]; i < e; i++) {
+      const t = pool[i];
+      let wp = -1;
+      for (let j = 0; j < 3; j++) {
+        if (posOf[tri[t * 3 + j]] === p) wp = tri[t * 3 + j];
+      }
+      for (let j = 0; j < 3; j++) {
+        const wq = tri[t * 3 + j];
+        const q = posOf[wq];
+        if (q === p) continue;
+        if (neighborStamp[q] !== neighborId) {
+          neighborStamp[q] = neighborId;
+          const c = candidateCount++;
+          candidateSlot[q] = c;
+          candQ[c] = q;
+          candShared[c] = 0;
+          candFrom0[c] = -1;
+          candFrom1[c] = -1;
+          candValid[c] = true;
+        }
+        const c = candidateSlot[q];
+        candShared[c]++;
+        if (candFrom0[c] === -1 || candFrom0[c] === wp) {
+          if (candFrom0[c] !== -1 && candTo0[c] !== wq) candValid[c] = false;
+          candFrom0[c] = wp;
+          candTo0[c] = wq;
+        } else if (candFrom1[c] === -1 || candFrom1[c] === wp) {
+          if (candFrom1[c] !== -1 && candTo1[c] !== wq) candValid[c] = false;
+          candFrom1[c] = wp;
+          candTo1[c] = wq;
+        } else {
+          candValid[c] = false;
+        }
+      }
+    }
+
+    order.length = 0;
+    for (let c = 0; c < candidateCount; c++) {
+      const q = candQ[c];
+      const shared = candShared[c];
+      // Every wedge of p needs a wedge of q on the same side to land on
+      if (!candValid[c] || (candFrom1[c] === -1 ? 1 : 2) !== wedgeCount[p]) continue;
+      if (kind[p] === MANIFOLD && shared !== 2) continue;
+      if (kind[p] === BORDER && (shared !== 1 || (kind[q] !== BORDER && kind[q] !== LOCKED))) continue;
+      if (kind[p] === SEAM && (shared !== 2 || candTo0[c] === candTo1[c] || (kind[q] !== SEAM && kind[q] !== LOCKED))) continue;
+
+      let cost = quadricError(quadrics, p, pos[q * 3], pos[q * 3 + 1], pos[q * 3 + 2]);
+      if (attributes.length > 0) {
+        let penalty = attributeError(candFrom0[c], candTo0[c]);
+        if (candFrom1[c] !== -1) penalty += attributeError(candFrom1[c], candTo1[c]);
+        cost += penalty * quadricArea[p];
+      }
+      candCost[c] = cost;
+      // Insertion sort; fans are small
+      let k = order.length;
+      order.push(c);
+      while (k > 0 && candCost[order[k - 1]] > cost) {
+        order[k] = order[k - 1];
+        k--;
+      }
+      order[k] = c;
+    }
+
+    for (const c of order) {
+      const q = candQ[c];
+      if (keepsManifold(q, candShared[c]) && keepsOrientation(p, q)) {
+        collapseTarget[p] = q;
+        heap.push(candCost[c], p, version[p]);
+        return;
+      }
+    }
+  };
+
+  const ringStamp = new Int32Array(positionCount);
+  const ring: number[] = [];
+  let ringId = 0;
+
+  const collapse = (p: number, q: number): void => {
+    // Wedge of q each wedge of p lands on (a seam vertex has two)
+    let from0 = -1, to0 = -1, to1 = -1;
+    for (let i = adjStart[p], e = i + adjCount[p]; i < e; i++) {
+      const t = pool[i];
+      if (triDead[t]) continue;
+      let wp = -1, wq = -1;
+      for (let j = 0; j < 3; j++) {
+        const w = tri[t * 3 + j];
+        if (posOf[w] === p) wp = w;
+        else if (posOf[w] === q) wq = w;
+      }
+      if (wq < 0) continue;
+      if (from0 === -1 || from0 === wp) {
+        from0 = wp;
+        to0 = wq;
+      } else {
+        to1 = wq;
+      }
+    }
+
+    const needed = adjCount[p] + adjCount[q];
+    if (poolEnd + needed > pool.length) {
+      const grown = new Int32Array(Math.max(pool.length * 2, poolEnd + needed));
+      grown.set(pool.subarray(0, poolEnd));
+      pool = grown;
+    }
+
+    // Triangles on edge pq disappear, the rest of p's fan moves onto q
+    const start = poolEnd;
+    let count = 0;
+    for (let i = adjStart[q], e = i + adjCount[q]; i < e; i++) {
+      const t = pool[i];
+      if (triDead[t]) continue;
+      if (posOf[tri[t * 3]] === p || posOf[tri[t * 3 + 1]] === p || posOf[tri[t * 3 + 2]] === p) {
+        triDead[t] = 1;
+        liveFaces--;
+      } else {
+        pool[start + count++] = t;
+      }
+    }
+    for (let i = adjStart[p], e = i + adjCount[p]; i < e; i++) {
+      const t = pool[i];
+      if (triDead[t]) continue;
+      for (let j = 0; j < 3; j++) {
+        const w = tri[t * 3 + j];
+        if (posOf[w] === p) tri[t * 3 + j] = w === from0 ? to0 : to1;
+      }
+      pool[start + count++] = t;
+    }
+    adjStart[q] = start;
+    adjCount[q] = count;
+    poolEnd += count;
+    adjCount[p] = 0;
+    positionDead[p] = 1;
+
+    for (let k = 0; k < 10; k++) quadrics[q * 10 + k] += quadrics[p * 10 + k];
+    quadricArea[q] += quadricArea[p];
+
+    // Costs around q are stale now
+    ringId++;
+    ring.length = 0;
+    for (let i = adjStart[q], e = i + adjCount[q]; i < e; i++) {
+      const t = pool[i];
+      for (let j = 0; j < 3; j++) {
+        const r = posOf[tri[t * 3 + j]];
+        if (ringStamp[r] === ringId) continue;
+        ringStamp[r] = ringId;
+        ring.push(r);
+      }
+    }
+    for (const r of ring) {
+      version[r]++;
+      evaluate(r);
+    }
+  };
+
+  for (let p = 0; p < positionCount; p++) evaluate(p);
+
+  while (liveFaces > target && heap.size > 0) {
+    const p = heap.popVertex();
+    if (positionDead[p] || heap.poppedVersion !== version[p]) continue;
+    const q = collapseTarget[p];
+    if (q < 0) continue;
+    if (positionDead[q]) {
+      evaluate(p);
+      continue;
+    }
+    collapse(p, q);
+  }
+
+  // Surviving triangles in input order; vertices in first-use order
+  const vertexIndex = new Int32Array(vertexCount).fill(-1);
+  const outIndices = new Uint32Array(liveFaces * 3);
+  const faceRemap = new Uint32Array(liveFaces);
+  const vertexRemap: number[] = [];
+  let outFace = 0;
+  for (let t = 0; t < faceCount; t++) {
+    if (triDead[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const w = tri[t * 3 + k];
+      if (vertexIndex[w] < 0) {
+        vertexIndex[w] = vertexRemap.length;
+        vertexRemap.push(w);
+      }
+      outIndices[outFace * 3 + k] = vertexIndex[w];
+    }
+    faceRemap[outFace++] = t;
+  }
+
+  return {
+    indices: outIndices,
+    vertexRemap: Uint32Array.from(vertexRemap),
+    faceRemap,
+    vertexCount: vertexRemap.length,
+    faceCount: liveFaces,
+  };
+}
+
+/**
+ * Result for meshes already within budget
+ */
+/**
+ * Simplify with group borders as seams: a vertex used by several face
+ * groups is split into one copy per group, the copies differing only in a
+ * zero-weight group attribute, and merged back in the result.
+ */
+function simplifyFaceGroups(
+  positions: ArrayLike<number>,
+  indices: ArrayLike<number>,
+  options: SimplifyMeshOptions,
+  faceGroups: ArrayLike<number>
+): SimplifiedMesh {
+  const vertexCount = Math.floor(positions.length / 3);
+  const faceCount = Math.floor(indices.length / 3);
+
+  // Copy of each vertex for the first group using it; other groups are rare (borders only)
+  const firstGroup = new Float64Array(vertexCount).fill(NaN);
+  const firstCopy = new Int32Array(vertexCount);
+  const otherCopies = new Map<string, number>();
+  const origin: number[] = [];
+  const copyGroup: number[] = [];
+  const splitIndices = new Uint32Array(faceCount * 3);
+  for (let t = 0; t < faceCount; t++) {
+    const group = faceGroups[t];
+    for (let k = 0; k < 3; k++) {
+      const v = indices[t * 3 + k];
+      let copy: number;
+      if (Number.isNaN(firstGroup[v])) {
+        firstGroup[v] = group;
+        copy = firstCopy[v] = origin.length;
+        origin.push(v);
+        copyGroup.push(group);
+      } else if (firstGroup[v] === group) {
+        copy = firstCopy[v];
+      } else {
+        const key = `${v}:${group}`;
+        copy = otherCopies.get(key) ?? -1;
+        if (copy < 0) {
+          copy = origin.length;
+          otherCopies.set(key, copy);
+          origin.push(v);
+          copyGroup.push(group);
+        }
+      }
+      splitIndices[t * 3 + k] = copy;
+    }
+  }
+  if (otherCopies.size === 0) {
+    return simplifyMesh(positions, indices, options);
+  }
+
+  const gather = (values: ArrayLike<number>, size: number): Float64Array => {
+    const out = new Float64Array(origin.length * size);
+    for (let i = 0; i < origin.length; i++) {
+      for (let c = 0; c < size; c++) out[i * size + c] = values[origin[i] * size + c];
+    }
+    return out;
+  };
+  const simplified = simplifyMesh(gather(positions, 3), splitIndices, {
+    targetFaceCount: options.targetFaceCount,
+    attributes: [
+      ...(options.attributes ?? []).map(attribute => ({ ...attribute, values: gather(attribute.values, attribute.size) })),
+      { values: copyGroup, size: 1, weight: 0 }
+    ]
+  });
+
+  // Copies of one input vertex carry the same data; merge them into one output vertex
+  const outputOf = new Int32Array(vertexCount).fill(-1);
+  const copyOutput = new Uint32Array(simplified.vertexCount);
+  const vertexRemap: number[] = [];
+  for (let i = 0; i < simplified.vertexCount; i++) {
+    const v = origin[simplified.vertexRemap[i]];
+    if (outputOf[v] < 0) {
+      outputOf[v] = vertexRemap.length;
+      vertexRemap.push(v);
+    }
+    copyOutput[i] = outputOf[v];
+  }
+  return {
+    indices: simplified.indices.map(i => copyOutput[i]),
+    vertexRemap: Uint32Array.from(vertexRemap),
+    faceRemap: simplified.faceRemap,
+    vertexCount: vertexRemap.length,
+    faceCount: simplified.faceCount,
+  };
+}
+
+function identityResult(vertexCount: number, indices: ArrayLike<number>, faceCount: number): SimplifiedMesh {
+  const vertexRemap = new Uint32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) vertexRemap[v] = v;
+  const faceRemap = new Uint32Array(faceCount);
+  for (let t = 0; t < faceCount; t++) faceRemap[t] = t;
+  return {
+    indices: Uint32Array.from({ length: faceCount * 3 }, (_, i) => indices[i]),
+    vertexRemap,
+    faceRemap,
+    vertexCount,
+    faceCount,
+  };
+}
+
+const hashFloat = new Float32Array(1);
+const hashBits = new Uint32Array(hashFloat.buffer);
+
+/**
+ * Map every vertex to the first vertex with identical values in all streams.
+ * Open-addressing hash table keyed on the float32 bits of the values.
+ */
+function weldVertices(vertexCount: number, streams: { values: ArrayLike<number>; size: number }[]): Int32Array {
+  const canonical = new Int32Array(vertexCount);
+  let tableSize = 16;
+  while (tableSize < vertexCount * 2) tableSize *= 2;
+  const table = new Int32Array(tableSize).fill(-1);
+  const mask = tableSize - 1;
+
+  const equal = (a: number, b: number): boolean => {
+    for (const { values, size } of streams) {
+      for (let c = 0; c < size; c++) {
+        if (values[a * size + c] !== values[b * size + c]) return false;
+      }
+    }
+    return true;
+  };
+
+  for (let v = 0; v < vertexCount; v++) {
+    let hash = 0x811c9dc5;
+    for (const { values, size } of streams) {
+      for (let c = 0; c < size; c++) {
+        const value = values[v * size + c];
+        hashFloat[0] = value === 0 ? 0 : value;
+        hash = Math.imul(hash ^ hashBits[0], 0x01000193);
+        hash ^= hash >>> 15;
+      }
+    }
+
+    let slot = hash & mask;
+    for (;;) {
+      const existing = table[slot];
+      if (existing === -1) {
+        table[slot] = v;
+        canonical[v] = v;
+        break;
+      }
+      if (equal(existing, v)) {
+        canonical[v] = existing;
+        break;
+      }
+      slot = (slot + 1) & mask;
+    }
+  }
+  return canonical;
+}
+
+const normalScratch = { x: 0, y: 0, z: 0, length: 0 };
+
+/**
+ * Unnormalized triangle normal (length = twice the area). Returns a shared
+ * scratch object; copy the fields before the next call.
+ */
+function triangleNormal(pos: Float64Array, a: number, b: number, c: number): typeof normalScratch {
+  const e1x = pos[b * 3] - pos[a * 3], e1y = pos[b * 3 + 1] - pos[a * 3 + 1], e1z = pos[b * 3 + 2] - pos[a * 3 + 2];
+  const e2x = pos[c * 3] - pos[a * 3], e2y = pos[c * 3 + 1] - pos[a * 3 + 1], e2z = pos[c * 3 + 2] - pos[a * 3 + 2];
+  const x = e1y * e2z - e1z * e2y;
+  const y = e1z * e2x - e1x * e2z;
+  const z = e1x * e2y - e1y * e2x;
+  normalScratch.x = x;
+  normalScratch.y = y;
+  normalScratch.z = z;
+  normalScratch.length = Math.sqrt(x * x + y * y + z * z);
+  return normalScratch;
+}
+
+/**
+ * Whether moving corner `from` of triangle abc onto `to` flips the triangle
+ * or turns it by more than the allowed angle. Degenerate triangles may move.
+ */
+function flipsWhenMoved(pos: Float64Array, a: number, b: number, c: number, from: number, to: number): boolean {
+  const before = triangleNormal(pos, a, b, c);
+  if (before.length === 0) return false;
+  const bx = before.x, by = before.y, bz = before.z, blen = before.length;
+  const after = triangleNormal(pos, a === from ? to : a, b === from ? to : b, c === from ? to : c);
+  const dot = bx * after.x + by * after.y + bz * after.z;
+  return dot <= MIN_NORMAL_DOT * blen * after.length;
+}
+
+/**
+ * Add weight * (plane · [x y z 1])² to a symmetric 4x4 quadric stored as 10 values
+ */
+function addPlane(quadrics: Float64Array, p: number, a: number, b: number, c: number, d: number, weight: number): void {
+  const o = p * 10;
+  quadrics[o] += weight * a * a;
+  quadrics[o + 1] += weight * a * b;
+  quadrics[o + 2] += weight * a * c;
+  quadrics[o + 3] += weight * a * d;
+  quadrics[o + 4] += weight * b * b;
+  quadrics[o + 5] += weight * b * c;
+  quadrics[o + 6] += weight * b * d;
+  quadrics[o + 7] += weight * c * c;
+  quadrics[o + 8] += weight * c * d;
+  quadrics[o + 9] += weight * d * d;
+}
+
+function quadricError(quadrics: Float64Array, p: number, x: number, y: number, z: number): number {
+  const o = p * 10;
+  const error =
+    quadrics[o] * x * x + 2 * quadrics[o + 1] * x * y + 2 * quadrics[o + 2] * x * z + 2 * quadrics[o + 3] * x +
+    quadrics[o + 4] * y * y + 2 * quadrics[o + 5] * y * z + 2 * quadrics[o + 6] * y +
+    quadrics[o + 7] * z * z + 2 * quadrics[o + 8] * z +
+    quadrics[o + 9];
+  return error > 0 ? error : 0;
+}
+
+/**
+ * Binary min-heap of candidate collapses. Entries go stale when their
+ * vertex's version moves on and are skipped when popped.
+ */
+class CollapseHeap {
+  private costs: Float64Array;
+  private vertices: Int32Array;
+  private versions: Int32Array;
+  size = 0;
+  /** Version stored with the last popped entry */
+  poppedVersion = 0;
+
+  constructor(capacity: number) {
+    this.costs = new Float64Array(Math.max(16, capacity));
+    this.vertices = new Int32Array(this.costs.length);
+    this.versions = new Int32Array(this.costs.length);
+  }
+
+  push(cost: number, vertex: number, version: number): void {
+    if (this.size === this.costs.length) {
+      const capacity = this.size * 2;
+      const costs = new Float64Array(capacity); costs.set(this.costs); this.costs = costs;
+      const vertices = new Int32Array(capacity); vertices.set(this.vertices); this.vertices = vertices;
+      const versions = new Int32Array(capacity); versions.set(this.versions); this.versions = versions;
+    }
+    let i = this.size++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.costs[parent] <= cost) break;
+      this.move(parent, i);
+      i = parent;
+    }
+    this.costs[i] = cost;
+    this.vertices[i] = vertex;
+    this.versions[i] = version;
+  }
+
+  popVertex(): number {
+    const vertex = this.vertices[0];
+    this.poppedVersion = this.versions[0];
+    const last = --this.size;
+    const cost = this.costs[last], lastVertex = this.vertices[last], lastVersion = this.versions[last];
+    let i = 0;
+    for (;;) {
+      let child = i * 2 + 1;
+      if (child >= last) break;
+      if (child + 1 < last && this.costs[child + 1] < this.costs[child]) child++;
+      if (this.costs[child] >= cost) break;
+      this.move(child, i);
+      i = child;
+    }
+    this.costs[i] = cost;
+    this.vertices[i] = lastVertex;
+    this.versions[i] = lastVersion;
+    return vertex;
+  }
+
+  private move(from: number, to: number): void {
+    this.costs[to] = this.costs[from];
+    this.vertices[to] = this.vertices[from];
+    this.versions[to] = this.versions[from];
+  }
+}
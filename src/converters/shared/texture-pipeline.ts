@@ -0,0 +1,260 @@
+/** WebUsdFramework.Converters.Shared.TexturePipeline - Transcodes and resizes textures into ARKit-compliant PNG/JPEG */
+
+import { UsdNode } from '../../core/usd-node';
+import { DIRECTORY_NAMES } from '../../constants/config';
+import { USD_DEFAULT_NAMES } from '../../constants/usd';
+import { TextureOptions } from '../../schemas';
+import { Logger, LoggerFactory } from '../../utils';
+import { UsdErrorFactory } from '../../errors';
+import { getTextureFileBasename } from '../gltf/extensions/processors/texture-utils';
+import { getTextureExtensionFromData } from './usd-packaging';
+
+/**
+ * Image formats QuickLook reads inside a USDZ
+ */
+const ARKIT_TEXTURE_EXTENSIONS = new Set(['png', 'jpg']);
+
+/**
+ * PreviewSurface inputs that take color (sRGB) data
+ */
+const COLOR_INPUTS = new Set(['inputs:diffuseColor', 'inputs:emissiveColor']);
+
+const DEFAULT_JPEG_QUALITY = 90;
+
+/**
+ * Texture Pipeline Report
+ */
+export interface TexturePipelineReport {
+  /** Archive basenames re-encoded to a different format. */
+  transcoded: string[];
+  /** Archive basenames whose pixel dimensions changed. */
+  resized: string[];
+  /** Archive basenames that could not be decoded and were packed as-is; each is also logged as a `texture_undecodable` warning. */
+  failed: string[];
+}
+
+/**
+ * How the stage tree uses one texture file
+ */
+interface TextureUsage {
+  /** Every shader reading the file feeds only color inputs. */
+  colorOnly: boolean;
+  assetNodes: UsdNode[];
+}
+
+/**
+ * Run every texture through the ARKit texture stage.
+ *
+ * - Images that are not PNG or JPEG (WebP, AVIF, ...) are transcoded.
+ * - `maxSize` caps the longest edge, keeping the aspect ratio.
+ * - `powerOfTwo` resizes each edge to the nearest power of two (within `maxSize`).
+ * - `jpegForOpaqueColor` writes opaque images that only feed color inputs as JPEG.
+ *
+ * `textureFiles` is updated in place. When a file changes format, every
+ * `asset inputs:file` pointing at it under `roots` is rewritten to the new
+ * extension so the stage keeps resolving. PNG and JPEG files are left
+ * untouched unless a resize or JPEG option applies to them.
+ *
+ * Uses `sharp`. KTX2 (Basis Universal) textures cannot be decoded by it and
+ * fail the conversion, since QuickLook cannot read them either. Other images
+ * sharp rejects are packed as-is, listed in `failed` and logged as warnings
+ * so they reach the ConversionReport.
+ */
+export async function processTextures(
+  textureFiles: Map<string, ArrayBuffer>,
+  roots: UsdNode[],
+  options: TextureOptions = {},
+  logger: Logger = LoggerFactory.forConversion()
+): Promise<TexturePipelineReport> {
+  const report: TexturePipelineReport = { transcoded: [], resized: [], failed: [] };
+  if (textureFiles.size === 0) {
+    return report;
+  }
+
+  const usage = collectTextureUsage(roots);
+  const idsByBasename = new Map<string, string[]>();
+  for (const textureId of textureFiles.keys()) {
+    const basename = getTextureFileBasename(textureId);
+    const ids = idsByBasename.get(basename) ?? [];
+    ids.push(textureId);
+    idsByBasename.set(basename, ids);
+  }
+
+  for (const [basename, ids] of idsByBasename) {
+    const data = textureFiles.get(ids[0])!;
+    const extension = getTextureExtensionFromData(data);
+    if (extension === 'ktx2') {
+      throw UsdErrorFactory.conversionError(
+        `Texture ${basename}.ktx2 is KTX2 (Basis Universal), which cannot be transcoded to PNG or JPEG`,
+        'texture_processing',
+        { texture: `${basename}.ktx2` }
+      );
+    }
+    const textureUsage = usage.get(basename);
+    const wantsJpeg = !!options.jpegForOpaqueColor && !!textureUsage?.colorOnly;
+    const needsWork = !ARKIT_TEXTURE_EXTENSIONS.has(extension) ||
+      options.maxSize !== undefined ||
+      !!options.powerOfTwo ||
+      (wantsJpeg && extension !== 'jpg');
+    if (!needsWork) {
+      continue;
+    }
+
+    let result: { data: ArrayBuffer; extension: string; resized: boolean } | null;
+    try {
+      result = await encodeTexture(data, extension, wantsJpeg, options);
+    } catch (error) {
+      logger.warn(`Texture ${basename}.${extension} could not be decoded and is packed as-is`, {
+        stage: 'texture_processing',
+        code: 'texture_undecodable',
+        texture: `${basename}.${extension}`,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      report.failed.push(basename);
+      continue;
+    }
+    if (!result) {
+      continue;
+    }
+
+    for (const textureId of ids) {
+      textureFiles.set(textureId, result.data);
+    }
+    if (result.resized) {
+      report.resized.push(basename);
+    }
+    if (result.extension !== extension) {
+      report.transcoded.push(basename);
+      const assetPath = `@${DIRECTORY_NAMES.TEXTURES}/${USD_DEFAULT_NAMES.TEXTURE_PREFIX}${basename}.${result.extension}@`;
+      for (const node of textureUsage?.assetNodes ?? []) {
+        node.setProperty('asset inputs:file', assetPath, 'asset');
+      }
+    }
+  }
+
+  if (report.transcoded.length > 0 || report.resized.length > 0) {
+    logger.info('Processed textures for ARKit', {
+      stage: 'texture_processing',
+      transcoded: report.transcoded.length,
+      resized: report.resized.length
+    });
+  }
+  return report;
+}
+
+/**
+ * Decode, resize and re-encode one image. Returns null when nothing changed.
+ */
+async function encodeTexture(
+  data: ArrayBuffer,
+  extension: string,
+  wantsJpeg: boolean,
+  options: TextureOptions
+): Promise<{ data: ArrayBuffer; extension: string; resized: boolean } | null> {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const sharpModule = require('sharp');
+  const sharp = sharpModule.default || sharpModule;
+
+  const image = sharp(Buffer.from(data));
+  const metadata = await image.metadata();
+  const width: number = metadata.width;
+  const height: number = metadata.height;
+  const [targetWidth, targetHeight] = targetDimensions(width, height, options);
+  const resized = targetWidth !== width || targetHeight !== height;
+
+  const opaque = wantsJpeg && (!metadata.hasAlpha || (await sharp(Buffer.from(data)).stats()).isOpaque);
+  const outputExtension = opaque || (extension === 'jpg' && !wantsJpeg) ? 'jpg' : 'png';
+  if (!resized && outputExtension === extension) {
+    return null;
+  }
+
+  let pipeline = resized ? image.resize(targetWidth, targetHeight, { fit: 'fill' }) : image;
+  pipeline = outputExtension === 'jpg'
+    ? pipeline.flatten().jpeg({ quality: options.jpegQuality ?? DEFAULT_JPEG_QUALITY })
+    : pipeline.png();
+  const buffer: Buffer = await pipeline.toBuffer();
+
+  return {
+    data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
+    extension: outputExtension,
+    resized
+  };
+}
+
+/**
+ * Output size after the `maxSize` cap and power-of-two rounding
+ */
+function targetDimensions(width: number, height: number, options: TextureOptions): [number, number] {
+  let targetWidth = width;
+  let targetHeight = height;
+
+  if (options.maxSize !== undefined && Math.max(width, height) > options.maxSize) {
+    const scale = options.maxSize / Math.max(width, height);
+    targetWidth = Math.max(1, Math.round(width * scale));
+    targetHeight = Math.max(1, Math.round(height * scale));
+  }
+
+  if (options.powerOfTwo) {
+    targetWidth = nearestPowerOfTwo(targetWidth, options.maxSize);
+    targetHeight = nearestPowerOfTwo(targetHeight, options.maxSize);
+  }
+
+  return [targetWidth, targetHeight];
+}
+
+function nearestPowerOfTwo(value: number, max?: number): number {
+  let power = 2 ** Math.round(Math.log2(value));
+  if (max !== undefined) {
+    while (power > max && power > 1) {
+      power /= 2;
+    }
+  }
+  return power;
+}
+
+/**
+ * Map archive basenames to the UsdUVTexture shaders that read them and
+ * whether those shaders only feed color inputs.
+ */
+function collectTextureUsage(roots: UsdNode[]): Map<string, TextureUsage> {
+  const assetPattern = new RegExp(`^@${DIRECTORY_NAMES.TEXTURES}/${USD_DEFAULT_NAMES.TEXTURE_PREFIX}(.+)\\.\\w+@$`);
+  const textureShaders: UsdNode[] = [];
+  const fedInputs = new Map<string, Set<string>>();
+
+  const visit = (node: UsdNode): void => {
+    for (const { key, value } of node.getProperties()) {
+      if (key === 'asset inputs:file') {
+        textureShaders.push(node);
+      } else if (key.endsWith('.connect') && typeof value === 'string') {
+        const source = /^<(.+)\.outputs:\w+>$/.exec(value);
+        if (source) {
+          const inputName = key.slice(key.lastIndexOf(' ') + 1, -'.connect'.length);
+          const inputs = fedInputs.get(source[1]) ?? new Set<string>();
+          inputs.add(inputName);
+          fedInputs.set(source[1], inputs);
+        }
+      }
+    }
+    for (const child of node.getChildren()) {
+      visit(child);
+    }
+  };
+  roots.forEach(visit);
+
+  const usage = new Map<string, TextureUsage>();
+  for (const shader of textureShaders) {
+    const match = assetPattern.exec(String(shader.getProperty('asset inputs:file')));
+    if (!match) continue;
+
+    const inputs = fedInputs.get(shader.getPath()) ?? new Set<string>();
+    const colorOnly = shader.getProperty('token inputs:sourceColorSpace') !== 'raw' &&
+      inputs.size > 0 &&
+      [...inputs].every(input => COLOR_INPUTS.has(input));
+
+    const entry = usage.get(match[1]) ?? { colorOnly: true, assetNodes: [] };
+    entry.colorOnly = entry.colorOnly && colorOnly;
+    entry.assetNodes.push(shader);
+    usage.set(match[1], entry);
+  }
+  return usage;
+}
@@ -2,6 +2,7 @@
 
 import { Mesh, Primitive } from '@gltf-transform/core';
 import { formatUsdTuple3, formatUsdTuple2 } from '../../utils/usd-formatter';
+import { logger } from '../../utils/logger';
 
 /**
  * Geometry build result
@@ -71,7 +72,7 @@ export function extractRawGeometryData(primitive: Primitive): RawGeometryData {
       // Validate that geometry is fully triangulated (indexArray.length must be divisible by 3).
       // gltf-transform's triangulate() transform should guarantee this; warn if it didn't.
       if (indexArray.length % 3 !== 0) {
-        console.warn(
+        logger.warn(
           `[extractPrimitiveData] Index count (${indexArray.length}) is not divisible by 3. ` +
           `Geometry may not be fully triangulated. Face topology will be incorrect.`
         );
@@ -83,7 +84,7 @@ export function extractRawGeometryData(primitive: Primitive): RawGeometryData {
       // Fallback
       const vertexCount = positionArray.length / 3;
       if (vertexCount % 3 !== 0) {
-        console.warn(
+        logger.warn(
           `[extractPrimitiveData] Vertex count (${vertexCount}) is not divisible by 3. ` +
           `Non-indexed geometry may not be fully triangulated.`
         );
@@ -96,7 +97,7 @@ export function extractRawGeometryData(primitive: Primitive): RawGeometryData {
     // Non-indexed geometry
     const vertexCount = positionArray.length / 3;
     if (vertexCount % 3 !== 0) {
-      console.warn(
+      logger.warn(
         `[extractPrimitiveData] Vertex count (${vertexCount}) is not divisible by 3. ` +
         `Non-indexed geometry may not be fully triangulated.`
       );
@@ -138,7 +139,7 @@ export function extractRawGeometryData(primitive: Primitive): RawGeometryData {
         normalTuples.push(formatUsdTuple3(nx, ny, nz));
       }
       if (nonUnitCount > 0) {
-        console.warn(`[extractPrimitiveData] Normalized ${nonUnitCount} non-unit normal vector(s) in mesh`);
+        logger.warn(`[extractPrimitiveData] Normalized ${nonUnitCount} non-unit normal vector(s) in mesh`);
       }
       result.normals = `[${normalTuples.join(', ')}]`;
     }
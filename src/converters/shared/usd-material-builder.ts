@@ -23,6 +23,7 @@ import {
   getCleanTextureImage,
   getTextureExtension
 } from '../gltf/extensions/processors/texture-utils';
+import { logger } from '../../utils/logger';
 
 /**
  * Texture type definitions based on GLTF standard and extensions
@@ -170,7 +171,7 @@ export async function buildUsdMaterial(
   surfaceShader.setProperty('int inputs:useSpecularWorkflow', hasPBRSpecGloss ? '1' : '0', 'int');
 
   if (hasPBRSpecGloss) {
-    console.log(`[buildUsdMaterial] Material uses PBRSpecularGlossiness - specular workflow enabled: ${materialName}`);
+    logger.info(`[buildUsdMaterial] Material uses PBRSpecularGlossiness - specular workflow enabled: ${materialName}`);
   }
 
   // Process base color with optimized mapping
@@ -189,7 +190,7 @@ export async function buildUsdMaterial(
   const alphaCutoff = material.getAlphaCutoff();
 
   // Log texture availability for debugging
-  console.log(`[buildUsdMaterial] Material: ${materialName}`, {
+  logger.info(`[buildUsdMaterial] Material: ${materialName}`, {
     hasBaseColorTexture: !!baseColorTexture,
     hasNormalTexture: !!normalTexture,
     hasMetallicRoughnessTexture: !!material.getMetallicRoughnessTexture(),
@@ -218,9 +219,9 @@ export async function buildUsdMaterial(
         textureId: bakeResult.textureId,
         textureData: bakeResult.textureData
       };
-      console.log(`[buildUsdMaterial] Baked vertex colors to texture: ${bakeResult.textureId}`);
+      logger.info(`[buildUsdMaterial] Baked vertex colors to texture: ${bakeResult.textureId}`);
     } catch (error) {
-      console.warn(`[buildUsdMaterial] Failed to bake vertex colors: ${error instanceof Error ? error.message : String(error)}`);
+      logger.warn(`[buildUsdMaterial] Failed to bake vertex colors: ${error instanceof Error ? error.message : String(error)}`);
       // Fall back to PrimvarReader if baking fails
     }
   }
@@ -271,7 +272,7 @@ export async function buildUsdMaterial(
       : undefined;
 
     // Log baseColorFactor application for debugging (always log to verify it's being applied)
-    console.log(`[buildUsdMaterial] Processing baseColorTexture for material: ${materialName}`, {
+    logger.info(`[buildUsdMaterial] Processing baseColorTexture for material: ${materialName}`, {
       hasBaseColorFactor: !!baseColorFactor,
       baseColorFactor: baseColorFactor || 'not set',
       scaleFactor: scaleFactor || 'not set',
@@ -318,7 +319,7 @@ export async function buildUsdMaterial(
       if (alphaMode === Material.AlphaMode.MASK) {
         surfaceShader.setProperty('float inputs:opacityThreshold', alphaCutoff.toString(), 'float');
       }
-      console.log(`[buildUsdMaterial] Connected texture alpha channel to opacity for material: ${materialName}`, {
+      logger.info(`[buildUsdMaterial] Connected texture alpha channel to opacity for material: ${materialName}`, {
         alphaMode: Material.AlphaMode[alphaMode],
         alphaCutoff
       });
@@ -531,7 +532,7 @@ export async function buildUsdMaterial(
       'connection'
     );
 
-    console.log(`[buildUsdMaterial] Connected emissive texture to material: ${materialName}`, {
+    logger.info(`[buildUsdMaterial] Connected emissive texture to material: ${materialName}`, {
       textureId,
       textureNodeName
     });
@@ -543,7 +544,7 @@ export async function buildUsdMaterial(
         'color3f inputs:emissiveColor',
         `(${emissiveFactor[0]}, ${emissiveFactor[1]}, ${emissiveFactor[2]})`
       );
-      console.log(`[buildUsdMaterial] Applied emissive factor to material: ${materialName}`, {
+      logger.info(`[buildUsdMaterial] Applied emissive factor to material: ${materialName}`, {
         emissiveFactor: [emissiveFactor[0], emissiveFactor[1], emissiveFactor[2]]
       });
     }
@@ -649,7 +650,7 @@ export async function buildUsdMaterial(
     // These values are ignored when useSpecularWorkflow=1, but setting them prevents issues
     surfaceShader.setProperty('float inputs:metallic', '0.0', 'float');
     surfaceShader.setProperty('float inputs:roughness', '0.5', 'float');
-    console.log(`[buildUsdMaterial] Using specular workflow - metallic/roughness set to defaults (ignored when useSpecularWorkflow=1)`);
+    logger.info(`[buildUsdMaterial] Using specular workflow - metallic/roughness set to defaults (ignored when useSpecularWorkflow=1)`);
   }
 
   // Process opacity from baseColorFactor/diffuseFactor alpha and alphaMode
@@ -692,7 +693,7 @@ export async function buildUsdMaterial(
 
   // Log opacity processing for debugging
   if (alphaMode !== Material.AlphaMode.OPAQUE || opacity !== 1.0) {
-    console.log(`[buildUsdMaterial] Processed opacity for material: ${materialName}`, {
+    logger.info(`[buildUsdMaterial] Processed opacity for material: ${materialName}`, {
       alphaMode: Material.AlphaMode[alphaMode],
       alphaCutoff,
       baseColorFactorAlpha: baseColorFactorForOpacity && baseColorFactorForOpacity.length >= 4 ? baseColorFactorForOpacity[3] : undefined,
@@ -723,7 +724,7 @@ export async function buildUsdMaterial(
           // This matches AR Quick Look's extended UsdPreviewSurface implementation
           surfaceShader.setProperty('float inputs:glossiness', glossinessFactor.toString(), 'float');
         }
-        console.log(`[buildUsdMaterial] Set PBRSpecularGlossiness factors (no texture): specularFactor=${specularFactor}, glossinessFactor=${glossinessFactor}`);
+        logger.info(`[buildUsdMaterial] Set PBRSpecularGlossiness factors (no texture): specularFactor=${specularFactor}, glossinessFactor=${glossinessFactor}`);
       }
     }
   }
@@ -756,7 +757,7 @@ export async function buildUsdMaterial(
         Object.assign(allProperties, result.properties);
       }
     } else if (result.error) {
-      console.warn(`[buildUsdMaterial] Extension processing error: ${result.error}`);
+      logger.warn(`[buildUsdMaterial] Extension processing error: ${result.error}`);
     }
   }
 
@@ -798,7 +799,7 @@ export async function buildUsdMaterial(
               `<${materialPath}/${textureNodeName}.outputs:rgb>`,
               'connection'
             );
-            console.log(`[buildUsdMaterial] Connected extension diffuse texture to diffuseColor: ${texRef.id}`);
+            logger.info(`[buildUsdMaterial] Connected extension diffuse texture to diffuseColor: ${texRef.id}`);
           }
           break;
         case 'specular':
@@ -816,7 +817,7 @@ export async function buildUsdMaterial(
             `<${materialPath}/${textureNodeName}.outputs:a>`,
             'connection'
           );
-          console.log(`[buildUsdMaterial] Connected PBRSpecularGlossiness texture: RGB→specularColor, A→glossiness: ${texRef.id}`);
+          logger.info(`[buildUsdMaterial] Connected PBRSpecularGlossiness texture: RGB→specularColor, A→glossiness: ${texRef.id}`);
           break;
         case 'specularColor':
           // KHR_materials_specular specularColorTexture - only RGB
@@ -825,7 +826,7 @@ export async function buildUsdMaterial(
             `<${materialPath}/${textureNodeName}.outputs:rgb>`,
             'connection'
           );
-          console.log(`[buildUsdMaterial] Connected extension specularColor texture to specularColor: ${texRef.id}`);
+          logger.info(`[buildUsdMaterial] Connected extension specularColor texture to specularColor: ${texRef.id}`);
           break;
         case 'clearcoat':
           surfaceShader.setProperty(
@@ -877,10 +878,10 @@ export async function buildUsdMaterial(
           );
           break;
         default:
-          console.warn(`[buildUsdMaterial] Unhandled extension texture type: ${texRef.type}`);
+          logger.warn(`[buildUsdMaterial] Unhandled extension texture type: ${texRef.type}`);
       }
     } catch (error) {
-      console.warn(`[buildUsdMaterial] Failed to create shader for extension texture ${texRef.id}: ${error instanceof Error ? error.message : String(error)}`);
+      logger.warn(`[buildUsdMaterial] Failed to create shader for extension texture ${texRef.id}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -964,7 +965,7 @@ export async function buildUsdMaterial(
     }
     surfaceShader.setProperty('float inputs:roughness', '1.0', 'float');
     surfaceShader.setProperty('float inputs:metallic', '0.0', 'float');
-    console.log(`[buildUsdMaterial] Material marked as unlit (using emissive channel): ${materialName}`);
+    logger.info(`[buildUsdMaterial] Material marked as unlit (using emissive channel): ${materialName}`);
   }
 
   // Add shared UV reader and Transform2d nodes to material
@@ -1070,7 +1071,7 @@ function getTextureWrapModes(textureInfo: TextureInfo | null): { wrapS: 'repeat'
 
   if (!textureInfo) {
     // textureInfo is null — no sampler data available; falling back to GLTF defaults (repeat/repeat)
-    console.warn('[getTextureWrapModes] TextureInfo is null; defaulting to wrapS=repeat, wrapT=repeat');
+    logger.warn('[getTextureWrapModes] TextureInfo is null; defaulting to wrapS=repeat, wrapT=repeat');
     return { wrapS, wrapT };
   }
 
@@ -1323,7 +1324,7 @@ function createOptimizedTextureShader(
       // Log scale application for debugging
       const isNotDefault = scaleFactor[0] !== 1 || scaleFactor[1] !== 1 || scaleFactor[2] !== 1 || scaleFactor[3] !== 1;
       if (isNotDefault) {
-        console.log(`[createOptimizedTextureShader] Applied non-default scale to texture: ${textureNodeName}`, {
+        logger.info(`[createOptimizedTextureShader] Applied non-default scale to texture: ${textureNodeName}`, {
           scale: scaleFactor,
           textureId
         });
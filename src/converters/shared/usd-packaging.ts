@@ -12,9 +12,12 @@ import {
   writeUsdzToFile,
   writeUsdzToStream,
   type StreamingUsdzFile,
+  type StreamingUsdzOptions,
 } from './usdz-stream-writer';
 import { getTextureFileBasename } from '../gltf/extensions/processors/texture-utils';
 import { encodeUsdNodeTreeToUsdc } from './usdc/usd-node-adapter';
+import { recordPackagedOutput } from './conversion-report';
+import type { ConversionControl } from './conversion-progress';
 
 /**
  * Selects the on-disk format for the per-layer files inside the USDZ
@@ -24,13 +27,12 @@ import { encodeUsdNodeTreeToUsdc } from './usdc/usd-node-adapter';
  *               This is the historical and current default — output is
  *               byte-stable and validated end-to-end against Apple's
  *               QuickLook / `usdview` / `usdcat`.
- *   - `'usdc'`: Pixar Crate binary layers. Smaller on-disk size, especially
- *               for geometry-heavy point clouds. **Experimental** — the
- *               encoder primitives (#122) are structurally complete and
- *               tested in isolation, but the full UsdNode→USDC adapter and
- *               byte-for-byte validation against `usdcat` fixtures has not
- *               yet landed. Until that work ships, this option falls back
- *               to `'usda'`.
+ *   - `'usdc'`: Pixar Crate binary root layer (`model.usdc`). Smaller on
+ *               disk, especially for geometry-heavy meshes and point clouds.
+ *               The UsdNode→USDC adapter encodes everything the converters
+ *               emit (connections, time samples, variants, layer metadata,
+ *               ...); a tree it cannot encode faithfully falls back to
+ *               `'usda'`.
  */
 export type LayerFormat = 'usda' | 'usdc';
 
@@ -45,6 +47,8 @@ export interface PackageConfig {
    * {@link LayerFormat} for the trade-offs.
    */
   layerFormat?: LayerFormat;
+  /** Stop before the archive is generated when aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -62,24 +66,28 @@ export interface PackageContent {
    * `usdContent` string as `model.usda`.
    */
   usdContentNode?: import('../../core/usd-node').UsdNode;
+  /**
+   * Further root prims of the layer, written after `usdContentNode` (e.g. a
+   * top-level `Materials` scope). Only read for `layerFormat: 'usdc'`.
+   */
+  usdContentSiblingNodes?: import('../../core/usd-node').UsdNode[];
 }
 
 /**
- * Try to build a binary USDC root layer from `content.usdContentNode`.
+ * Try to build a binary USDC root layer from `content.usdContentNode` (and
+ * `content.usdContentSiblingNodes`).
  *
  * Returns the encoded bytes when the adapter handled every property in the
  * tree, or `null` when:
  *   - `usdContentNode` was not supplied (caller didn't opt in), or
- *   - the adapter encountered a property it doesn't yet support (in which
- *     case the bytes would silently differ from the USDA source).
+ *   - the adapter encountered a property it cannot encode (in which case
+ *     the bytes would silently differ from the USDA source).
  *
- * In either case the packager falls back to writing USDA text. The fallback
- * is intentional and safe — it's how `layerFormat: 'usdc'` ships before the
- * adapter learns every USDA shape.
+ * In either case the packager falls back to writing USDA text.
  */
 function tryBuildUsdcRootLayer(content: PackageContent): Uint8Array | null {
   if (!content.usdContentNode) return null;
-  const result = encodeUsdNodeTreeToUsdc(content.usdContentNode);
+  const result = encodeUsdNodeTreeToUsdc(content.usdContentNode, content.usdContentSiblingNodes);
   if (result.report.skipped > 0) return null;
   return result.bytes;
 }
@@ -179,6 +187,7 @@ export async function createUsdzPackage(
   config?: PackageConfig
 ): Promise<Blob> {
   const files = buildPackageFiles(content, config);
+  config?.signal?.throwIfAborted();
 
   // Create ZIP writer with proper alignment for optimal performance
   const zipWriter = new UsdzZipWriter({
@@ -192,6 +201,7 @@ export async function createUsdzPackage(
 
   // Generate the USDZ package
   const usdzBuffer = zipWriter.generate();
+  recordPackagedOutput(packagedRoots(content), files, usdzBuffer.byteLength);
 
   // Create and return USDZ blob
   return createUsdzBlob(usdzBuffer, config?.mimeType);
@@ -218,14 +228,26 @@ export interface UsdzStreamOptions {
    * `PackageConfig.layerFormat` — defaults to `'usda'`.
    */
   layerFormat?: LayerFormat;
+  /**
+   * Stop writing when aborted. `createUsdzPackageToFile` removes the
+   * partial file.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called as the archive is written, with the bytes written so far and
+   * the summed size of the files going into it (the archive adds headers
+   * and padding on top).
+   */
+  onBytesWritten?: (bytesWritten: number, expectedBytes: number) => void;
 }
 
 /**
  * Options for opting a per-format converter (`convertGlbToUsdz`,
  * `convertPlyToUsdz`, `convertObjToUsdz`, `convertStlToUsdz`) and
- * `WebUsdFramework.convert` into the streaming output path.
+ * `WebUsdFramework.convert` into the streaming output path, and for
+ * following or cancelling the conversion (`onProgress`, `signal`).
  */
-export interface ConvertOptions {
+export interface ConvertOptions extends ConversionControl {
   /**
    * When set, stream the USDZ archive directly to this file path via
    * `createUsdzPackageToFile`. The converter returns `UsdzStreamResult`
@@ -271,9 +293,12 @@ export async function createUsdzPackageToStream(
     content,
     options.layerFormat ? { layerFormat: options.layerFormat } : undefined
   );
-  return writeUsdzToStream(files, output, {
+  const result = await writeUsdzToStream(files, output, {
     alignTo64Bytes: options.alignTo64Bytes ?? true,
+    ...streamProgressOptions(files, options),
   });
+  recordPackagedOutput(packagedRoots(content), files, result.totalBytes);
+  return result;
 }
 
 /**
@@ -282,7 +307,8 @@ export async function createUsdzPackageToStream(
  * Convenience wrapper around `createUsdzPackageToStream` that opens an
  * `fs.createWriteStream`, pipes the archive into it, and closes the stream
  * cleanly on success. On error the stream is destroyed and the partial file
- * is left for the caller to inspect or remove.
+ * is left for the caller to inspect or remove; when `options.signal` aborted
+ * the write, the partial file is removed.
  */
 export async function createUsdzPackageToFile(
   content: PackageContent,
@@ -293,9 +319,39 @@ export async function createUsdzPackageToFile(
     content,
     options.layerFormat ? { layerFormat: options.layerFormat } : undefined
   );
-  return writeUsdzToFile(files, filePath, {
+  const result = await writeUsdzToFile(files, filePath, {
     alignTo64Bytes: options.alignTo64Bytes ?? true,
+    ...streamProgressOptions(files, options),
   });
+  recordPackagedOutput(packagedRoots(content), files, result.totalBytes);
+  return result;
+}
+
+/**
+ * Writer options forwarding `signal` and `onBytesWritten`
+ */
+function streamProgressOptions(
+  files: StreamingUsdzFile[],
+  options: UsdzStreamOptions
+): Pick<StreamingUsdzOptions, 'signal' | 'onBytesWritten'> {
+  const { signal, onBytesWritten } = options;
+  const expectedBytes = files.reduce(
+    (size, file) => size + (Array.isArray(file.data)
+      ? file.data.reduce((total, chunk) => total + chunk.byteLength, 0)
+      : file.data.byteLength),
+    0
+  );
+  return {
+    ...(signal ? { signal } : {}),
+    ...(onBytesWritten ? { onBytesWritten: (bytesWritten: number) => onBytesWritten(bytesWritten, expectedBytes) } : {}),
+  };
+}
+
+/**
+ * Root prims of the packaged layer, for the conversion report
+ */
+function packagedRoots(content: PackageContent): Array<import('../../core/usd-node').UsdNode | undefined> {
+  return [content.usdContentNode, ...(content.usdContentSiblingNodes ?? [])];
 }
 
 /**
@@ -328,6 +384,21 @@ export function getTextureExtensionFromData(textureData: ArrayBuffer): string {
     return 'webp';
   }
 
+  // Check for AVIF header: ....ftypavif / ....ftypavis
+  if (uint8Array.length >= 12 &&
+    uint8Array[4] === 0x66 && uint8Array[5] === 0x74 && uint8Array[6] === 0x79 && uint8Array[7] === 0x70 && // ftyp
+    uint8Array[8] === 0x61 && uint8Array[9] === 0x76 && uint8Array[10] === 0x69 && // avi
+    (uint8Array[11] === 0x66 || uint8Array[11] === 0x73)) { // f / s
+    return 'avif';
+  }
+
+  // Check for KTX2 identifier: «KTX 20»
+  if (uint8Array.length >= 8 &&
+    uint8Array[0] === 0xAB && uint8Array[1] === 0x4B && uint8Array[2] === 0x54 && uint8Array[3] === 0x58 &&
+    uint8Array[4] === 0x20 && uint8Array[5] === 0x32 && uint8Array[6] === 0x30 && uint8Array[7] === 0xBB) {
+    return 'ktx2';
+  }
+
   // Default to PNG if format cannot be determined
   return 'png';
 }
@@ -68,13 +68,19 @@ function createScenesNode(rootNode: UsdNode): UsdNode {
 }
 
 /**
- * Creates the scene Xform node
+ * Creates a scene Xform node under the scenes scope.
+ * Names that collide with an existing scene get a numeric suffix.
  */
-function createSceneNode(
+export function createSceneNode(
   scenesNode: UsdNode,
   sceneName?: string
 ): UsdNode {
-  const name = sanitizeName(sceneName || USD_DEFAULT_NAMES.SCENE);
+  const baseName = sanitizeName(sceneName || USD_DEFAULT_NAMES.SCENE);
+  const siblingNames = new Set(Array.from(scenesNode.getChildren()).map(c => c.getName()));
+  let name = baseName;
+  for (let suffix = 1; siblingNames.has(name); suffix++) {
+    name = `${baseName}_${suffix}`;
+  }
   const sceneNode = new UsdNode(
     `${USD_ROOT_PATHS.SCENES}/${name}`,
     USD_NODE_TYPES.XFORM
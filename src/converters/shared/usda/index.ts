@@ -0,0 +1,36 @@
+/** WebUsdFramework.Converters.Shared.Usda — public re-exports for the
+ *  USDA text layer parser.
+ *
+ * `tokenizeUsda` → `parseUsda` → `readUsdaLayer` is the text-format
+ * counterpart of `readUsdcLayer`: it turns hand-authored or converter-written
+ * `.usda` files into `UsdNode` trees keyed the way the converters key them,
+ * so templates can be loaded, edited, merged into converted assets and
+ * written back with `serializeToUsda()`.
+ */
+
+export {
+  tokenizeUsda,
+  UsdaSyntaxError,
+  type UsdaToken,
+  type UsdaTokenKind,
+} from './tokenizer';
+
+export {
+  parseUsda,
+  type UsdaLayerSpec,
+  type UsdaPrimSpec,
+  type UsdaPrimBody,
+  type UsdaPropertySpec,
+  type UsdaAttributeSpec,
+  type UsdaRelationshipSpec,
+  type UsdaVariantSetSpec,
+  type UsdaVariantSpec,
+  type UsdaMetadataEntry,
+  type UsdaDictionaryEntry,
+  type UsdaTimeSample,
+  type UsdaValue,
+  type UsdaListOp,
+  type UsdaSpecifier,
+} from './parser';
+
+export { readUsdaLayer, type UsdaLayer } from './layer-reader';
@@ -0,0 +1,339 @@
+/** WebUsdFramework.Converters.Shared.Usda.LayerReader — maps a parsed USDA
+ *  layer onto a `UsdNode` tree.
+ *
+ * The text-format counterpart of `readUsdcLayer()`. Every statement is keyed
+ * the way the converters key it, so `serializeToUsda()` on the result
+ * reproduces converter output line for line:
+ *
+ *   - Scalar attributes keep their USDA literal with the type name as the
+ *     property type (`'float inputs:roughness'` → `'0.4'`, `'float'`);
+ *     tokens and strings are stored unquoted, assets as `@path@`.
+ *   - Array attributes keep their literal text with type `raw` (`texcoord`
+ *     for `texCoord2f[] primvars:*`), like the glTF converter stores them.
+ *     `xformOpOrder` is the exception and becomes a `string[]`.
+ *   - `.connect` / `.timeSamples` statements, `interpolation` /
+ *     `elementSize` metadata, relationships, `apiSchemas`, references and
+ *     `customData` use the shapes listed on `UsdNode`.
+ *   - `variantSet` blocks and the `variants` selection become `UsdNode`
+ *     variant sets.
+ *
+ * Statements with no `UsdNode` representation (`reorder`, attribute metadata
+ * other than interpolation / elementSize, non-scalar dictionary entries) are
+ * recorded in `report.skipped`, as `readUsdcLayer()` does.
+ */
+
+import { UsdNode } from '../../../core/usd-node';
+import { UsdPathSchema } from '../../../schemas';
+import {
+  BARE_KEY_ATTRIBUTES,
+  HEADER_METADATA_KEYS,
+  type LayerReadReport,
+} from '../usdc/layer-reader';
+import {
+  parseUsda,
+  type UsdaAttributeSpec,
+  type UsdaDictionaryEntry,
+  type UsdaMetadataEntry,
+  type UsdaPrimBody,
+  type UsdaPrimSpec,
+  type UsdaRelationshipSpec,
+  type UsdaValue,
+} from './parser';
+
+/** Result of `readUsdaLayer`. */
+export interface UsdaLayer {
+  /** The layer's default prim, or its first root prim when none is declared. */
+  root: UsdNode;
+  /** Every root prim, in file order. `root` is one of these. */
+  prims: UsdNode[];
+  /** Layer header (`defaultPrim`, `upAxis`, `metersPerUnit`, `customLayerData`, ...). */
+  layerMetadata: Record<string, unknown>;
+  /** Version from the `#usda` header. */
+  version: string;
+  report: LayerReadReport;
+}
+
+/** Prim metadata stored as list-edited / composition arcs (`prepend references = @a.usda@`). */
+const COMPOSITION_FIELDS = new Set(['references', 'payload', 'inherits', 'specializes']);
+
+/** Prim metadata holding dictionaries — stored as object properties. */
+const DICTIONARY_PRIM_FIELDS = new Set(['customData', 'assetInfo']);
+
+/** Dictionary value types that map onto JS numbers. */
+const NUMERIC_SCALAR_TYPES = new Set(['int', 'uint', 'int64', 'uint64', 'uchar', 'half', 'float', 'double', 'timecode']);
+
+/**
+ * Parse USDA text into a `UsdNode` tree.
+ *
+ * @throws UsdaSyntaxError if the text is not valid USDA.
+ * @throws RangeError if the layer declares no prims.
+ *
+ * @example
+ * ```typescript
+ * const { root } = readUsdaLayer(fs.readFileSync('template.usda', 'utf8'));
+ * root.addChild(convertedMesh);
+ * fs.writeFileSync('merged.usda', root.serializeToUsda());
+ * ```
+ */
+export function readUsdaLayer(text: string): UsdaLayer {
+  const layer = parseUsda(text);
+  const builder = new TreeBuilder();
+
+  const layerMetadata: Record<string, unknown> = {};
+  for (const entry of layer.metadata) {
+    layerMetadata[entry.name] = builder.toPlainValue('/', entry.name, entry.value);
+  }
+
+  const prims: UsdNode[] = [];
+  for (const spec of layer.prims) {
+    const node = builder.buildPrim(spec, '');
+    if (node) prims.push(node);
+  }
+  if (prims.length === 0) {
+    throw new RangeError('readUsdaLayer: layer has no root prims');
+  }
+
+  const root = prims.find((p) => p.getName() === layerMetadata.defaultPrim) ?? prims[0];
+  for (const key of HEADER_METADATA_KEYS) {
+    const value = layerMetadata[key];
+    if (typeof value === 'string' || typeof value === 'number') root.setMetadata(key, value);
+  }
+  const customLayerData = layerMetadata.customLayerData as Record<string, unknown> | undefined;
+  if (customLayerData && typeof customLayerData.xmp === 'object' && customLayerData.xmp !== null) {
+    root.setMetadata('xmpMetadata', { xmp: customLayerData.xmp });
+  }
+
+  return { root, prims, layerMetadata, version: layer.version, report: builder.report };
+}
+
+/** Walks the syntax tree, building nodes and collecting the read report. */
+class TreeBuilder {
+  readonly report: LayerReadReport = { primCount: 0, propertyCount: 0, skipped: [] };
+
+  buildPrim(spec: UsdaPrimSpec, parentPath: string): UsdNode | null {
+    const path = `${parentPath}/${spec.name}`;
+    if (!UsdPathSchema.safeParse(path).success) {
+      this.skip(path, '', 'prim path is not representable as a UsdNode path');
+      return null;
+    }
+    const typeName =
+      spec.specifier === 'def' ? spec.typeName : spec.typeName ? `${spec.specifier} ${spec.typeName}` : spec.specifier;
+    const node = new UsdNode(path, typeName);
+    this.report.primCount++;
+    this.applyPrimMetadata(node, path, spec.metadata);
+    this.applyBody(node, path, spec);
+    return node;
+  }
+
+  /** Properties, children and variant sets of a prim or variant. */
+  private applyBody(node: UsdNode, path: string, body: UsdaPrimBody): void {
+    for (const property of body.properties) {
+      if (property.kind === 'relationship') this.applyRelationship(node, path, property);
+      else this.applyAttribute(node, path, property);
+    }
+    for (const reorder of body.reorders) {
+      this.skip(path, `reorder ${reorder.field}`, 'reorder statements have no UsdNode representation');
+    }
+    for (const childSpec of body.children) {
+      const child = this.buildPrim(childSpec, path);
+      if (child) node.addChild(child);
+    }
+    for (const variantSet of body.variantSets) {
+      node.addVariantSet(variantSet.name);
+      for (const variant of variantSet.variants) {
+        const variantNode = node.addVariant(variantSet.name, variant.name);
+        this.applyPrimMetadata(variantNode, path, variant.metadata);
+        this.applyBody(variantNode, path, variant.body);
+      }
+    }
+  }
+
+  private applyPrimMetadata(node: UsdNode, path: string, entries: UsdaMetadataEntry[]): void {
+    for (const { listOp, name, value } of entries) {
+      const key = listOp ? `${listOp} ${name}` : name;
+
+      if (name === 'apiSchemas') {
+        node.setProperty(key, listItems(value).map(stringValue), 'string[]');
+      } else if (COMPOSITION_FIELDS.has(name)) {
+        // `addReference()` stores the prepended form untyped; keep that shape.
+        if (key === 'prepend references') node.setProperty(key, value.text);
+        else node.setProperty(key, value.text, 'raw');
+      } else if (DICTIONARY_PRIM_FIELDS.has(name) && value.kind === 'dictionary') {
+        node.setProperty(name, this.toDictionary(path, name, value.entries));
+      } else if (name === 'variants' && value.kind === 'dictionary') {
+        for (const entry of value.entries) node.setVariantSelection(entry.name, stringValue(entry.value));
+        continue;
+      } else if (name === 'variantSets') {
+        for (const item of listItems(value)) node.addVariantSet(stringValue(item));
+        continue;
+      } else if (!listOp && isScalar(value)) {
+        node.setMetadata(name, scalarValue(value));
+        continue;
+      } else {
+        node.setProperty(key, value.text, 'raw');
+      }
+      this.report.propertyCount++;
+    }
+  }
+
+  private applyAttribute(node: UsdNode, path: string, spec: UsdaAttributeSpec): void {
+    const { name, typeName } = spec;
+    const propertyPath = `${path}.${name}`;
+    const isArray = typeName.endsWith('[]');
+    const stem = isArray ? typeName.slice(0, -2) : typeName;
+    const isBare = BARE_KEY_ATTRIBUTES.has(name);
+    const qualifiers = `${spec.custom ? 'custom ' : ''}${spec.variability ? `${spec.variability} ` : ''}`;
+    const key = `${qualifiers}${typeName} ${name}`;
+
+    if (spec.listOp) {
+      this.skip(propertyPath, spec.listOp, 'list-edited attribute statements are not supported');
+      return;
+    }
+    this.report.propertyCount++;
+
+    if (spec.field === 'connect') {
+      const target = spec.value?.kind === 'path' ? `<${spec.value.value}>` : (spec.value?.text ?? '');
+      node.setProperty(`${typeName} ${name}.connect`, target, 'connection');
+    } else if (spec.field === 'timeSamples') {
+      const samples = new Map<number, string>();
+      for (const sample of spec.timeSamples ?? []) samples.set(sample.time, sample.value.text);
+      const sampleKey = isBare || name.startsWith('xformOp:') ? name : `${typeName} ${name}`;
+      node.setTimeSampledProperty(sampleKey, samples, typeName);
+    } else if (!spec.value) {
+      // Declared without a value (e.g. `token outputs:surface`).
+      node.setProperty(isBare ? name : key, '');
+    } else if (isBare) {
+      if (name === 'xformOpOrder') node.setProperty(name, listItems(spec.value).map(stringValue), 'token[]');
+      else node.setProperty(name, spec.value.text, typeName);
+    } else if (name.endsWith(':interpolation') && stem === 'token') {
+      node.setProperty(`uniform token ${name}`, stringValue(spec.value), 'interpolation');
+    } else if (name.endsWith(':elementSize') && stem === 'int' && spec.value.kind === 'number') {
+      node.setProperty(`int ${name}`, spec.value.value, 'elementSize');
+    } else if (isArray || spec.value.kind === 'identifier') {
+      // Arrays and `None` keep their literal text.
+      const type = stem === 'texCoord2f' && name.startsWith('primvars:') ? 'texcoord' : 'raw';
+      node.setProperty(key, spec.value.text, isArray ? type : 'raw');
+    } else if (stem === 'token' || stem === 'string') {
+      node.setProperty(key, stringValue(spec.value), stem);
+    } else {
+      node.setProperty(key, spec.value.text, stem);
+    }
+
+    for (const entry of spec.metadata) {
+      if (entry.name === 'interpolation') {
+        node.setProperty(`uniform token ${name}:interpolation`, stringValue(entry.value), 'interpolation');
+      } else if (entry.name === 'elementSize' && entry.value.kind === 'number') {
+        node.setProperty(`int ${name}:elementSize`, entry.value.value, 'elementSize');
+      } else {
+        this.skip(propertyPath, entry.name, 'attribute metadata other than interpolation / elementSize is not stored');
+      }
+    }
+  }
+
+  private applyRelationship(node: UsdNode, path: string, spec: UsdaRelationshipSpec): void {
+    const { name, value } = spec;
+    const isBinding = name === 'material:binding' || name.startsWith('material:binding:');
+    const key =
+      isBinding && !spec.custom && !spec.listOp
+        ? name
+        : `${spec.listOp ? `${spec.listOp} ` : ''}${spec.custom ? 'custom ' : ''}rel ${name}`;
+
+    if (value?.kind === 'list') {
+      node.setProperty(key, value.items.map((item) => (item.kind === 'path' ? `<${item.value}>` : item.text)), 'rel[]');
+    } else if (value?.kind === 'path') {
+      node.setProperty(key, `<${value.value}>`, 'rel');
+    } else {
+      // `rel name` declarations and `= None`.
+      node.setProperty(key, value ? value.text : '', 'rel');
+    }
+    this.report.propertyCount++;
+
+    for (const entry of spec.metadata) {
+      this.skip(`${path}.${name}`, entry.name, 'relationship metadata is not stored');
+    }
+  }
+
+  /** A USDA value as plain JS data, for layer metadata. */
+  toPlainValue(path: string, field: string, value: UsdaValue): unknown {
+    switch (value.kind) {
+      case 'number':
+      case 'string':
+      case 'asset':
+      case 'path':
+        return value.value;
+      case 'identifier':
+        return scalarValue(value);
+      case 'reference':
+        return value.text;
+      case 'tuple':
+      case 'list':
+        return value.items.map((item) => this.toPlainValue(path, field, item));
+      case 'dictionary':
+        return this.toDictionary(path, field, value.entries);
+    }
+  }
+
+  /** Dictionary entries as a plain object. Entries the serializer cannot type are reported and dropped. */
+  private toDictionary(path: string, field: string, entries: UsdaDictionaryEntry[]): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const { typeName, name, value } of entries) {
+      if (typeName === 'dictionary' && value.kind === 'dictionary') {
+        out[name] = this.toDictionary(path, `${field}:${name}`, value.entries);
+      } else if ((typeName === 'string' || typeName === 'token' || typeName === 'asset') && isScalar(value)) {
+        out[name] = stringValue(value);
+      } else if (NUMERIC_SCALAR_TYPES.has(typeName) && value.kind === 'number') {
+        out[name] = value.value;
+      } else if (typeName === 'bool' && isScalar(value)) {
+        out[name] = scalarValue(value) === true || scalarValue(value) === 1;
+      } else {
+        this.skip(path, `${field}:${name}`, `dictionary entries of type ${typeName} are not stored`);
+      }
+    }
+    return out;
+  }
+
+  private skip(path: string, field: string, reason: string): void {
+    this.report.skipped.push({ path, field, reason });
+  }
+}
+
+function isScalar(value: UsdaValue): boolean {
+  return (
+    value.kind === 'number' ||
+    value.kind === 'string' ||
+    value.kind === 'identifier' ||
+    value.kind === 'asset' ||
+    value.kind === 'path'
+  );
+}
+
+/** A scalar metadata value: numbers stay numbers, `true` / `false` become booleans. */
+function scalarValue(value: UsdaValue): string | number | boolean {
+  if (value.kind === 'number') return value.value;
+  if (value.kind === 'identifier') {
+    if (value.value === 'true') return true;
+    if (value.value === 'false') return false;
+  }
+  return stringValue(value);
+}
+
+function stringValue(value: UsdaValue): string {
+  switch (value.kind) {
+    case 'string':
+    case 'identifier':
+    case 'asset':
+    case 'path':
+      return value.value;
+    case 'number':
+      return String(value.value);
+    default:
+      return value.text;
+  }
+}
+
+/** Items of a list value; a single value is a one-item list (`prepend variantSets = "shading"`). */
+function listItems(value: UsdaValue): UsdaValue[] {
+  if (value.kind === 'list') return value.items;
+  if (value.kind === 'identifier' && value.value === 'None') return [];
+  return [value];
+}
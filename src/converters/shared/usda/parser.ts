@@ -0,0 +1,448 @@
+/** WebUsdFramework.Converters.Shared.Usda.Parser — parses USDA text into a
+ *  syntax tree of layer / prim / property specs.
+ *
+ * The tree mirrors the text one statement at a time; it makes no attempt to
+ * compose anything. `readUsdaLayer()` (`layer-reader.ts`) maps it onto the
+ * `UsdNode` key conventions.
+ *
+ * Grammar covered (the subset of `pxr/usd/sdf/textFileFormat.yy` that
+ * layers in the wild use):
+ *
+ *   layer      := '#usda 1.0' [ '(' metadata* ')' ] prim*
+ *   prim       := ('def' | 'over' | 'class') [typeName] "name" [ '(' metadata* ')' ]
+ *                 '{' (prim | property | variantSet | reorder)* '}'
+ *   property   := [listOp] ['custom'] ['uniform' | 'varying' | 'config'] type ['[]']
+ *                 name ['.connect' | '.timeSamples'] ['=' value] [ '(' metadata* ')' ]
+ *               | [listOp] ['custom'] ['varying'] 'rel' name ['=' value] [ '(' metadata* ')' ]
+ *   variantSet := 'variantSet' "name" '=' '{' ("variant" [ '(' metadata* ')' ] '{' body '}')* '}'
+ *   metadata   := "doc string" | [listOp] name '=' value
+ *   value      := number | string | identifier | asset [path] [layerOffset] | path
+ *               | '(' value,* ')' | '[' value,* ']' | '{' (type name '=' value)* '}'
+ *
+ * Every value keeps the exact source text it was parsed from (`text`).
+ */
+
+import { tokenizeUsda, UsdaSyntaxError, type UsdaToken } from './tokenizer';
+
+/** Prefix of a list-edited field (`prepend apiSchemas = [...]`). */
+export type UsdaListOp = 'prepend' | 'append' | 'add' | 'delete' | 'reorder';
+
+export type UsdaSpecifier = 'def' | 'over' | 'class';
+
+/** A parsed value plus the source text it came from. */
+export type UsdaValue = { text: string } & (
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  /** `true`, `false`, `None`, `inf`, `nan`, or a bare token. */
+  | { kind: 'identifier'; value: string }
+  | { kind: 'asset'; value: string }
+  | { kind: 'path'; value: string }
+  /** `@asset@</Prim>` — an external (or, with `asset` empty, internal) reference / payload. */
+  | { kind: 'reference'; asset: string; primPath: string }
+  | { kind: 'tuple'; items: UsdaValue[] }
+  | { kind: 'list'; items: UsdaValue[] }
+  | { kind: 'dictionary'; entries: UsdaDictionaryEntry[] }
+);
+
+export interface UsdaDictionaryEntry {
+  /** Declared value type (`string`, `double3`, `dictionary`, ...). */
+  typeName: string;
+  name: string;
+  value: UsdaValue;
+}
+
+export interface UsdaMetadataEntry {
+  listOp?: UsdaListOp;
+  /** `doc` for a bare leading string. */
+  name: string;
+  value: UsdaValue;
+}
+
+export interface UsdaTimeSample {
+  time: number;
+  value: UsdaValue;
+}
+
+/** One attribute statement. Default value, connection and time samples are separate statements in USDA. */
+export interface UsdaAttributeSpec {
+  kind: 'attribute';
+  name: string;
+  /** `float`, `point3f[]`, ... */
+  typeName: string;
+  custom: boolean;
+  variability?: 'uniform' | 'varying' | 'config';
+  listOp?: UsdaListOp;
+  /** `default` for `name = value` (or a bare declaration), else the `.connect` / `.timeSamples` suffix. */
+  field: 'default' | 'connect' | 'timeSamples';
+  /** Absent for declarations without a value (`float outputs:r`). */
+  value?: UsdaValue;
+  timeSamples?: UsdaTimeSample[];
+  metadata: UsdaMetadataEntry[];
+  line: number;
+}
+
+export interface UsdaRelationshipSpec {
+  kind: 'relationship';
+  name: string;
+  custom: boolean;
+  listOp?: UsdaListOp;
+  /** Target path, list of target paths, or `None`. Absent for bare declarations. */
+  value?: UsdaValue;
+  metadata: UsdaMetadataEntry[];
+  line: number;
+}
+
+export type UsdaPropertySpec = UsdaAttributeSpec | UsdaRelationshipSpec;
+
+export interface UsdaVariantSpec {
+  name: string;
+  metadata: UsdaMetadataEntry[];
+  body: UsdaPrimBody;
+}
+
+export interface UsdaVariantSetSpec {
+  name: string;
+  variants: UsdaVariantSpec[];
+}
+
+/** Everything between a prim's (or variant's) braces. */
+export interface UsdaPrimBody {
+  properties: UsdaPropertySpec[];
+  children: UsdaPrimSpec[];
+  variantSets: UsdaVariantSetSpec[];
+  /** `reorder nameChildren` / `reorder properties` statements. */
+  reorders: Array<{ field: string; value: UsdaValue }>;
+}
+
+export interface UsdaPrimSpec extends UsdaPrimBody {
+  specifier: UsdaSpecifier;
+  /** Empty for typeless prims. */
+  typeName: string;
+  name: string;
+  metadata: UsdaMetadataEntry[];
+  line: number;
+}
+
+export interface UsdaLayerSpec {
+  /** The version from the `#usda` header, e.g. `1.0`. */
+  version: string;
+  metadata: UsdaMetadataEntry[];
+  prims: UsdaPrimSpec[];
+}
+
+const LIST_OPS = new Set<string>(['prepend', 'append', 'add', 'delete', 'reorder']);
+const SPECIFIERS = new Set<string>(['def', 'over', 'class']);
+const VARIABILITY = new Set<string>(['uniform', 'varying', 'config']);
+
+const HEADER_PATTERN = /^#usda\s+(\d+\.\d+)/;
+
+/**
+ * Parse a complete USDA layer.
+ *
+ * @throws UsdaSyntaxError with the line and column of the first problem.
+ */
+export function parseUsda(text: string): UsdaLayerSpec {
+  const header = HEADER_PATTERN.exec(text.replace(/^﻿/, ''));
+  if (!header) throw new UsdaSyntaxError('Missing "#usda 1.0" header', 1, 1);
+  return new UsdaParser(text, tokenizeUsda(text)).parseLayer(header[1]);
+}
+
+/** Recursive-descent parser over the token stream. */
+class UsdaParser {
+  private pos = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: UsdaToken[]
+  ) {}
+
+  parseLayer(version: string): UsdaLayerSpec {
+    const metadata = this.isPunct('(') ? this.parseMetadataBlock() : [];
+    const prims: UsdaPrimSpec[] = [];
+    while (this.peek().kind !== 'eof') {
+      if (this.acceptPunct(';')) continue;
+      prims.push(this.parsePrim());
+    }
+    return { version, metadata, prims };
+  }
+
+  private parsePrim(): UsdaPrimSpec {
+    const head = this.expectIdentifier();
+    if (!SPECIFIERS.has(head.text)) this.fail(`Expected def, over or class, found ${describe(head)}`, head);
+    const specifier = head.text as UsdaSpecifier;
+    let typeName = '';
+    if (this.peek().kind === 'identifier') typeName = this.next().text;
+    const name = this.expect('string', 'prim name').text;
+    const metadata = this.isPunct('(') ? this.parseMetadataBlock() : [];
+    const body = this.parseBody();
+    return { specifier, typeName, name, metadata, ...body, line: head.line };
+  }
+
+  /** `{ ... }` of a prim or variant. */
+  private parseBody(): UsdaPrimBody {
+    this.expectPunct('{');
+    const body: UsdaPrimBody = { properties: [], children: [], variantSets: [], reorders: [] };
+    while (!this.acceptPunct('}')) {
+      if (this.acceptPunct(';')) continue;
+      const token = this.peek();
+      if (token.kind !== 'identifier') this.fail(`Unexpected ${describe(token)} in prim body`, token);
+      if (SPECIFIERS.has(token.text) && this.peek(1).kind !== 'punct') {
+        body.children.push(this.parsePrim());
+      } else if (token.text === 'variantSet' && this.peek(1).kind === 'string') {
+        body.variantSets.push(this.parseVariantSet());
+      } else if (
+        token.text === 'reorder' &&
+        (this.peek(1).text === 'nameChildren' || this.peek(1).text === 'properties') &&
+        this.peek(2).text === '='
+      ) {
+        this.next();
+        const field = this.next().text;
+        this.expectPunct('=');
+        body.reorders.push({ field, value: this.parseValue() });
+      } else {
+        body.properties.push(this.parseProperty());
+      }
+    }
+    return body;
+  }
+
+  private parseVariantSet(): UsdaVariantSetSpec {
+    this.next(); // variantSet
+    const name = this.expect('string', 'variant set name').text;
+    this.expectPunct('=');
+    this.expectPunct('{');
+    const variants: UsdaVariantSpec[] = [];
+    while (!this.acceptPunct('}')) {
+      const variantName = this.expect('string', 'variant name').text;
+      const metadata = this.isPunct('(') ? this.parseMetadataBlock() : [];
+      variants.push({ name: variantName, metadata, body: this.parseBody() });
+    }
+    return { name, variants };
+  }
+
+  private parseProperty(): UsdaPropertySpec {
+    const first = this.peek();
+    let listOp: UsdaListOp | undefined;
+    if (LIST_OPS.has(first.text) && this.peek(1).kind === 'identifier') {
+      listOp = this.next().text as UsdaListOp;
+    }
+    let custom = false;
+    if (this.peek().text === 'custom' && this.peek(1).kind === 'identifier') {
+      this.next();
+      custom = true;
+    }
+    let variability: UsdaAttributeSpec['variability'];
+    if (VARIABILITY.has(this.peek().text) && this.peek(1).kind === 'identifier') {
+      variability = this.next().text as UsdaAttributeSpec['variability'];
+    }
+
+    const typeToken = this.expectIdentifier();
+    if (typeToken.text === 'rel') {
+      const name = this.expectIdentifier().text;
+      const value = this.acceptPunct('=') ? this.parseValue() : undefined;
+      const metadata = this.isPunct('(') ? this.parseMetadataBlock() : [];
+      return {
+        kind: 'relationship',
+        name,
+        custom,
+        ...(listOp ? { listOp } : {}),
+        ...(value ? { value } : {}),
+        metadata,
+        line: first.line,
+      };
+    }
+
+    let typeName = typeToken.text;
+    if (this.isPunct('[') && this.peek(1).text === ']') {
+      this.next();
+      this.next();
+      typeName += '[]';
+    }
+    const name = this.expectIdentifier().text;
+    let field: UsdaAttributeSpec['field'] = 'default';
+    if (this.acceptPunct('.')) {
+      const suffix = this.expectIdentifier();
+      if (suffix.text !== 'connect' && suffix.text !== 'timeSamples') {
+        this.fail(`Unknown property suffix .${suffix.text}`, suffix);
+      }
+      field = suffix.text as 'connect' | 'timeSamples';
+    }
+
+    const spec: UsdaAttributeSpec = {
+      kind: 'attribute',
+      name,
+      typeName,
+      custom,
+      ...(variability ? { variability } : {}),
+      ...(listOp ? { listOp } : {}),
+      field,
+      metadata: [],
+      line: first.line,
+    };
+    if (this.acceptPunct('=')) {
+      if (field === 'timeSamples') spec.timeSamples = this.parseTimeSamples();
+      else spec.value = this.parseValue();
+    }
+    if (this.isPunct('(')) spec.metadata = this.parseMetadataBlock();
+    return spec;
+  }
+
+  /** `{ time: value, ... }` */
+  private parseTimeSamples(): UsdaTimeSample[] {
+    this.expectPunct('{');
+    const samples: UsdaTimeSample[] = [];
+    while (!this.acceptPunct('}')) {
+      if (this.acceptPunct(',')) continue;
+      const timeToken = this.expect('number', 'time code');
+      this.expectPunct(':');
+      samples.push({ time: Number(timeToken.text), value: this.parseValue() });
+    }
+    return samples;
+  }
+
+  /** `( ... )` after a layer header, prim, variant or property. */
+  private parseMetadataBlock(): UsdaMetadataEntry[] {
+    this.expectPunct('(');
+    const entries: UsdaMetadataEntry[] = [];
+    while (!this.acceptPunct(')')) {
+      if (this.acceptPunct(';')) continue;
+      const token = this.peek();
+      if (token.kind === 'string') {
+        entries.push({ name: 'doc', value: this.parseValue() });
+        continue;
+      }
+      let listOp: UsdaListOp | undefined;
+      if (LIST_OPS.has(token.text) && this.peek(1).kind === 'identifier' && this.peek(2).text === '=') {
+        listOp = this.next().text as UsdaListOp;
+      }
+      const name = this.expectIdentifier().text;
+      this.expectPunct('=');
+      entries.push({ ...(listOp ? { listOp } : {}), name, value: this.parseValue() });
+    }
+    return entries;
+  }
+
+  private parseValue(): UsdaValue {
+    const token = this.peek();
+    const start = token.start;
+    switch (token.kind) {
+      case 'number':
+        this.next();
+        return { kind: 'number', value: Number(token.text), text: token.text };
+      case 'string':
+        this.next();
+        return { kind: 'string', value: token.text, text: this.textFrom(start) };
+      case 'identifier':
+        this.next();
+        return { kind: 'identifier', value: token.text, text: token.text };
+      case 'path':
+        this.next();
+        return { kind: 'path', value: token.text, text: this.textFrom(start) };
+      case 'asset': {
+        this.next();
+        if (this.peek().kind !== 'path') {
+          this.skipLayerOffset();
+          return { kind: 'asset', value: token.text, text: this.textFrom(start) };
+        }
+        const primPath = this.next().text;
+        this.skipLayerOffset();
+        return { kind: 'reference', asset: token.text, primPath, text: this.textFrom(start) };
+      }
+      case 'punct':
+        if (token.text === '(' || token.text === '[') {
+          const close = token.text === '(' ? ')' : ']';
+          this.next();
+          const items: UsdaValue[] = [];
+          while (!this.acceptPunct(close)) {
+            items.push(this.parseValue());
+            if (!this.isPunct(close)) this.expectPunct(',');
+          }
+          return { kind: token.text === '(' ? 'tuple' : 'list', items, text: this.textFrom(start) };
+        }
+        if (token.text === '{') return this.parseDictionary();
+        break;
+      default:
+        break;
+    }
+    return this.fail(`Expected a value, found ${describe(token)}`, token);
+  }
+
+  /** `{ type name = value ... }` — `dictionary name = { ... }` nests. */
+  private parseDictionary(): UsdaValue {
+    const start = this.expectPunct('{').start;
+    const entries: UsdaDictionaryEntry[] = [];
+    while (!this.acceptPunct('}')) {
+      if (this.acceptPunct(';') || this.acceptPunct(',')) continue;
+      let typeName = this.expectIdentifier().text;
+      if (this.isPunct('[') && this.peek(1).text === ']') {
+        this.next();
+        this.next();
+        typeName += '[]';
+      }
+      const keyToken = this.next();
+      if (keyToken.kind !== 'identifier' && keyToken.kind !== 'string') {
+        this.fail(`Expected a dictionary key, found ${describe(keyToken)}`, keyToken);
+      }
+      this.expectPunct('=');
+      entries.push({ typeName, name: keyToken.text, value: this.parseValue() });
+    }
+    return { kind: 'dictionary', entries, text: this.textFrom(start) };
+  }
+
+  /** Layer offsets after a reference: `(offset = 10; scale = 2)`. Kept only in the source text. */
+  private skipLayerOffset(): void {
+    if (!this.isPunct('(') || this.peek(1).kind !== 'identifier' || this.peek(2).text !== '=') return;
+    this.parseMetadataBlock();
+  }
+
+  private textFrom(start: number): string {
+    return this.source.slice(start, this.tokens[this.pos - 1].end);
+  }
+
+  private peek(offset = 0): UsdaToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): UsdaToken {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isPunct(text: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.text === text;
+  }
+
+  private acceptPunct(text: string): boolean {
+    if (!this.isPunct(text)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectPunct(text: string): UsdaToken {
+    const token = this.peek();
+    if (token.kind !== 'punct' || token.text !== text) this.fail(`Expected "${text}", found ${describe(token)}`, token);
+    return this.next();
+  }
+
+  private expectIdentifier(): UsdaToken {
+    return this.expect('identifier', 'an identifier');
+  }
+
+  private expect(kind: UsdaToken['kind'], what: string): UsdaToken {
+    const token = this.peek();
+    if (token.kind !== kind) this.fail(`Expected ${what}, found ${describe(token)}`, token);
+    return this.next();
+  }
+
+  private fail(message: string, token: UsdaToken): never {
+    throw new UsdaSyntaxError(message, token.line, token.column);
+  }
+}
+
+function describe(token: UsdaToken): string {
+  if (token.kind === 'eof') return 'end of file';
+  if (token.kind === 'string') return `string ${JSON.stringify(token.text)}`;
+  return `"${token.text}"`;
+}
@@ -0,0 +1,241 @@
+/** WebUsdFramework.Converters.Shared.Usda.Tokenizer — splits USDA text into
+ *  the lexical tokens the layer parser consumes.
+ *
+ * USDA is whitespace-insensitive apart from string contents, so newlines are
+ * not tokens. Recognised tokens:
+ *
+ *   identifier   `def`, `point3f`, `inputs:diffuseColor`, `true`, `inf`
+ *                (namespaced with `:`; property suffixes such as `.connect`
+ *                arrive as a separate `.` punct + identifier)
+ *   number       `1`, `-0.5`, `1e-05`, `.25`
+ *   string       `"..."`, `'...'`, `"""..."""`, `'''...'''` (escapes decoded)
+ *   asset        `@textures/a.png@`, `@@@path with @ in it@@@`
+ *   path         `</Root/Mesh.points>`
+ *   punct        `( ) [ ] { } = , : ; .`
+ *
+ * `#` starts a comment that runs to the end of the line; the `#usda 1.0`
+ * header is checked by the parser before tokenizing and then skipped as a
+ * comment like any other.
+ *
+ * Every token carries its source offsets so the parser can hand back the
+ * exact literal text of a value (converters store tuple and time-sample
+ * values as USDA literal strings).
+ */
+
+/** Error raised for malformed USDA text, positioned at the offending token. */
+export class UsdaSyntaxError extends SyntaxError {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'UsdaSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export type UsdaTokenKind = 'identifier' | 'number' | 'string' | 'asset' | 'path' | 'punct' | 'eof';
+
+export interface UsdaToken {
+  kind: UsdaTokenKind;
+  /** Decoded text: string contents without quotes, asset / path without delimiters. */
+  text: string;
+  /** Offset of the first source character. */
+  start: number;
+  /** Offset one past the last source character. */
+  end: number;
+  line: number;
+  column: number;
+}
+
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', '=', ',', ':', ';', '.']);
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '0': '\0',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+};
+
+function isIdentifierStart(c: string): boolean {
+  return (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z') || c === '_';
+}
+
+function isIdentifierPart(c: string): boolean {
+  return isIdentifierStart(c) || (c >= '0' && c <= '9');
+}
+
+function isDigit(c: string | undefined): boolean {
+  return c !== undefined && c >= '0' && c <= '9';
+}
+
+/**
+ * Tokenize a complete USDA document.
+ *
+ * @throws UsdaSyntaxError on unterminated strings, assets or paths and on
+ *   characters that cannot start a token.
+ */
+export function tokenizeUsda(text: string): UsdaToken[] {
+  const tokens: UsdaToken[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const fail = (message: string, at: number): never => {
+    // Recompute the line for `at` (it may precede the cursor).
+    let l = 1;
+    let ls = 0;
+    for (let i = 0; i < at; i++) {
+      if (text.charCodeAt(i) === 10) {
+        l++;
+        ls = i + 1;
+      }
+    }
+    throw new UsdaSyntaxError(message, l, at - ls + 1);
+  };
+
+  const push = (kind: UsdaTokenKind, value: string, start: number, startLine: number, startCol: number): void => {
+    tokens.push({ kind, text: value, start, end: pos, line: startLine, column: startCol });
+  };
+
+  /** Advance over `[from, to)`, keeping the line counter in sync. */
+  const advanceTo = (to: number): void => {
+    for (let i = pos; i < to; i++) {
+      if (text.charCodeAt(i) === 10) {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    pos = to;
+  };
+
+  while (pos < text.length) {
+    const c = text[pos];
+
+    if (c === '\n') {
+      pos++;
+      line++;
+      lineStart = pos;
+      continue;
+    }
+    if (c === ' ' || c === '\t' || c === '\r') {
+      pos++;
+      continue;
+    }
+    if (c === '#') {
+      const eol = text.indexOf('\n', pos);
+      pos = eol === -1 ? text.length : eol;
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const startCol = pos - lineStart + 1;
+
+    if (c === '"' || c === "'") {
+      const triple = text.startsWith(c.repeat(3), pos);
+      const quote = triple ? c.repeat(3) : c;
+      let i = pos + quote.length;
+      let value = '';
+      for (;;) {
+        if (i >= text.length) fail('Unterminated string literal', start);
+        if (text.startsWith(quote, i)) break;
+        const ch = text[i];
+        if (ch === '\n' && !triple) fail('Newline in string literal', start);
+        if (ch === '\\') {
+          const next = text[i + 1];
+          if (next === undefined) fail('Unterminated string literal', start);
+          value += STRING_ESCAPES[next as string] ?? next;
+          i += 2;
+          continue;
+        }
+        value += ch;
+        i++;
+      }
+      advanceTo(i + quote.length);
+      push('string', value, start, startLine, startCol);
+      continue;
+    }
+
+    if (c === '@') {
+      if (text.startsWith('@@@', pos)) {
+        let i = pos + 3;
+        let value = '';
+        for (;;) {
+          if (i >= text.length) fail('Unterminated asset path', start);
+          if (text.startsWith('\\@@@', i)) {
+            value += '@@@';
+            i += 4;
+            continue;
+          }
+          if (text.startsWith('@@@', i)) break;
+          value += text[i];
+          i++;
+        }
+        advanceTo(i + 3);
+        push('asset', value, start, startLine, startCol);
+        continue;
+      }
+      const close = text.indexOf('@', pos + 1);
+      const eol = text.indexOf('\n', pos + 1);
+      if (close === -1 || (eol !== -1 && eol < close)) fail('Unterminated asset path', start);
+      advanceTo(close + 1);
+      push('asset', text.slice(start + 1, close), start, startLine, startCol);
+      continue;
+    }
+
+    if (c === '<') {
+      const close = text.indexOf('>', pos + 1);
+      const eol = text.indexOf('\n', pos + 1);
+      if (close === -1 || (eol !== -1 && eol < close)) fail('Unterminated path', start);
+      advanceTo(close + 1);
+      push('path', text.slice(start + 1, close), start, startLine, startCol);
+      continue;
+    }
+
+    const next = text[pos + 1];
+    if (isDigit(c) || ((c === '-' || c === '+') && (isDigit(next) || next === '.')) || (c === '.' && isDigit(next))) {
+      const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(text.slice(pos, pos + 64));
+      if (!match) fail('Malformed number', start);
+      pos += (match as RegExpExecArray)[0].length;
+      push('number', (match as RegExpExecArray)[0], start, startLine, startCol);
+      continue;
+    }
+    if (c === '-' && text.startsWith('inf', pos + 1) && !isIdentifierPart(text[pos + 4] ?? '')) {
+      pos += 4;
+      push('identifier', '-inf', start, startLine, startCol);
+      continue;
+    }
+
+    if (isIdentifierStart(c)) {
+      let i = pos + 1;
+      for (;;) {
+        while (i < text.length && isIdentifierPart(text[i])) i++;
+        // Namespaced identifiers: `inputs:diffuseColor`, `primvars:skel:jointIndices`.
+        if (text[i] === ':' && isIdentifierStart(text[i + 1] ?? '')) {
+          i++;
+          continue;
+        }
+        break;
+      }
+      pos = i;
+      push('identifier', text.slice(start, i), start, startLine, startCol);
+      continue;
+    }
+
+    if (PUNCTUATION.has(c)) {
+      pos++;
+      push('punct', c, start, startLine, startCol);
+      continue;
+    }
+
+    fail(`Unexpected character ${JSON.stringify(c)}`, start);
+  }
+
+  tokens.push({ kind: 'eof', text: '', start: pos, end: pos, line, column: pos - lineStart + 1 });
+  return tokens;
+}
@@ -7,6 +7,9 @@
  * intentionally NOT included — they will land in subsequent PRs that build on
  * this foundation.
  *
+ * `readBootstrap` / `readTOC` are the decoding twins used by the layer
+ * reader (`usdc/layer-reader.ts`).
+ *
  * The functions in this module are pure: no I/O, no allocation beyond the
  * caller-provided DataView. The module is currently exported but NOT wired
  * into the converter pipeline.
@@ -215,3 +218,81 @@ export function writeTOC(
 
   return cursor;
 }
+
+/**
+ * Decoded bootstrap header — the inverse of `writeBootstrap`.
+ */
+export interface UsdcBootstrap {
+  version: UsdcVersion;
+  /** Absolute byte offset of the table of contents. */
+  tocOffset: number;
+}
+
+/**
+ * Read the 88-byte bootstrap header starting at `offset` in `view`.
+ *
+ * @throws RangeError if the header falls outside `view`, the magic does not
+ *   match `PXR-USDC`, or the TOC offset points outside the buffer.
+ */
+export function readBootstrap(view: DataView, offset: number = 0): UsdcBootstrap {
+  if (offset < 0 || offset + USDC_BOOTSTRAP_SIZE > view.byteLength) {
+    throw new RangeError(
+      `readBootstrap: out of bounds (need ${USDC_BOOTSTRAP_SIZE} bytes at offset ${offset}, have ${view.byteLength - offset})`
+    );
+  }
+  for (let i = 0; i < USDC_MAGIC.length; i++) {
+    if (view.getUint8(offset + i) !== USDC_MAGIC[i]) {
+      throw new RangeError('readBootstrap: missing PXR-USDC magic');
+    }
+  }
+  const version: UsdcVersion = {
+    major: view.getUint8(offset + 8),
+    minor: view.getUint8(offset + 9),
+    patch: view.getUint8(offset + 10),
+  };
+  const tocOffset = Number(view.getBigInt64(offset + 16, true));
+  if (tocOffset < USDC_BOOTSTRAP_SIZE || tocOffset + 8 > view.byteLength) {
+    throw new RangeError(`readBootstrap: tocOffset ${tocOffset} is outside the file`);
+  }
+  return { version, tocOffset };
+}
+
+/**
+ * Read the table-of-contents starting at `offset` in `view` — the inverse of
+ * `writeTOC`.
+ *
+ * @throws RangeError if the TOC or any section it describes falls outside
+ *   `view`.
+ */
+export function readTOC(view: DataView, offset: number): UsdcSection[] {
+  if (offset < 0 || offset + 8 > view.byteLength) {
+    throw new RangeError(`readTOC: out of bounds (offset ${offset}, have ${view.byteLength})`);
+  }
+  const count = Number(view.getBigUint64(offset, true));
+  if (offset + tocByteLength(count) > view.byteLength) {
+    throw new RangeError(`readTOC: ${count} sections do not fit in the file`);
+  }
+
+  const sections: UsdcSection[] = new Array(count);
+  let cursor = offset + 8;
+  for (let s = 0; s < count; s++) {
+    let name = '';
+    for (let i = 0; i < USDC_SECTION_NAME_SIZE; i++) {
+      const ch = view.getUint8(cursor + i);
+      if (ch === 0) break;
+      name += String.fromCharCode(ch);
+    }
+    cursor += USDC_SECTION_NAME_SIZE;
+    const start = Number(view.getBigInt64(cursor, true));
+    cursor += 8;
+    const size = Number(view.getBigInt64(cursor, true));
+    cursor += 8;
+    if (start < 0 || size < 0 || start + size > view.byteLength) {
+      throw new RangeError(
+        `readTOC: section "${name}" [${start}, ${start + size}) is outside the file`
+      );
+    }
+    sections[s] = { name, start, size };
+  }
+  return sections;
+}
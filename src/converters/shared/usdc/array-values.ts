@@ -53,6 +53,12 @@ export interface EncodedArrayValue {
    * externally with `isArray: false` (a single `Vec3f`, `Vec4f`, or matrix).
    */
   isArray: boolean;
+  /**
+   * Byte positions (within `bytes`) of nested ValueReps whose offsets are
+   * relative to the start of `bytes`. Set by the dictionary / time-sample
+   * encoders; the builder adds the payload's file offset when it places it.
+   */
+  relocations?: ReadonlyArray<number>;
 }
 
 /**
@@ -114,6 +120,146 @@ function packArray(
   return { bytes: out, isCompressed: true };
 }
 
+/** Scalar storage of one numeric component on disk. */
+export type ScalarKind = 'bool' | 'u8' | 'i32' | 'u32' | 'i64' | 'u64' | 'f16' | 'f32' | 'f64';
+
+/** Element layout of a numeric CrateDataType. */
+export interface NumericLayout {
+  kind: ScalarKind;
+  /** Number of scalar components per element (3 for Vec3f, 16 for Matrix4d, ...). */
+  components: number;
+}
+
+export const SCALAR_BYTES: Record<ScalarKind, number> = {
+  bool: 1,
+  u8: 1,
+  i32: 4,
+  u32: 4,
+  i64: 8,
+  u64: 8,
+  f16: 2,
+  f32: 4,
+  f64: 8,
+};
+
+/** Every plain-old-data CrateDataType, keyed by wire type. */
+export const NUMERIC_LAYOUTS: Partial<Record<CrateDataType, NumericLayout>> = {
+  [CrateDataType.Bool]: { kind: 'bool', components: 1 },
+  [CrateDataType.UChar]: { kind: 'u8', components: 1 },
+  [CrateDataType.Int]: { kind: 'i32', components: 1 },
+  [CrateDataType.UInt]: { kind: 'u32', components: 1 },
+  [CrateDataType.Int64]: { kind: 'i64', components: 1 },
+  [CrateDataType.UInt64]: { kind: 'u64', components: 1 },
+  [CrateDataType.Half]: { kind: 'f16', components: 1 },
+  [CrateDataType.Float]: { kind: 'f32', components: 1 },
+  [CrateDataType.Double]: { kind: 'f64', components: 1 },
+  [CrateDataType.TimeCode]: { kind: 'f64', components: 1 },
+  [CrateDataType.Matrix2d]: { kind: 'f64', components: 4 },
+  [CrateDataType.Matrix3d]: { kind: 'f64', components: 9 },
+  [CrateDataType.Matrix4d]: { kind: 'f64', components: 16 },
+  [CrateDataType.Quatd]: { kind: 'f64', components: 4 },
+  [CrateDataType.Quatf]: { kind: 'f32', components: 4 },
+  [CrateDataType.Quath]: { kind: 'f16', components: 4 },
+  [CrateDataType.Vec2d]: { kind: 'f64', components: 2 },
+  [CrateDataType.Vec2f]: { kind: 'f32', components: 2 },
+  [CrateDataType.Vec2h]: { kind: 'f16', components: 2 },
+  [CrateDataType.Vec2i]: { kind: 'i32', components: 2 },
+  [CrateDataType.Vec3d]: { kind: 'f64', components: 3 },
+  [CrateDataType.Vec3f]: { kind: 'f32', components: 3 },
+  [CrateDataType.Vec3h]: { kind: 'f16', components: 3 },
+  [CrateDataType.Vec3i]: { kind: 'i32', components: 3 },
+  [CrateDataType.Vec4d]: { kind: 'f64', components: 4 },
+  [CrateDataType.Vec4f]: { kind: 'f32', components: 4 },
+  [CrateDataType.Vec4h]: { kind: 'f16', components: 4 },
+  [CrateDataType.Vec4i]: { kind: 'i32', components: 4 },
+};
+
+function numericLayout(label: string, type: CrateDataType): NumericLayout {
+  const layout = NUMERIC_LAYOUTS[type];
+  if (!layout) throw new RangeError(`${label}: CrateDataType ${type} is not numeric`);
+  return layout;
+}
+
+/** Write `flat` as little-endian elements of the given scalar kind. */
+function writeScalars(kind: ScalarKind, flat: ArrayLike<number>): Uint8Array {
+  const size = SCALAR_BYTES[kind];
+  const out = new Uint8Array(flat.length * size);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < flat.length; i++) {
+    const v = flat[i];
+    const at = i * size;
+    switch (kind) {
+      case 'bool':
+        out[at] = v ? 1 : 0;
+        break;
+      case 'u8':
+        out[at] = v & 0xff;
+        break;
+      case 'i32':
+        view.setInt32(at, v | 0, true);
+        break;
+      case 'u32':
+        view.setUint32(at, v >>> 0, true);
+        break;
+      case 'i64':
+        view.setBigInt64(at, BigInt(Math.trunc(v)), true);
+        break;
+      case 'u64':
+        view.setBigUint64(at, BigInt(Math.trunc(v)), true);
+        break;
+      case 'f16':
+        view.setUint16(at, floatToHalf(v), true);
+        break;
+      case 'f32':
+        view.setFloat32(at, v, true);
+        break;
+      case 'f64':
+        view.setFloat64(at, v, true);
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Encode an array of any numeric CrateDataType (`half[]`, `quatf[]`,
+ * `matrix4d[]`, `texCoord2f[]`, ...). `flat` holds `components × count`
+ * values in wire order — quaternions are `[i, j, k, real]`.
+ */
+export function encodeNumericArray(
+  type: CrateDataType,
+  flat: ArrayLike<number>,
+  opts?: { compress?: boolean }
+): EncodedArrayValue {
+  const layout = numericLayout('encodeNumericArray', type);
+  if (flat.length % layout.components !== 0) {
+    throw new RangeError(
+      `encodeNumericArray: input length ${flat.length} is not a multiple of ${layout.components}`
+    );
+  }
+  const count = flat.length / layout.components;
+  const { bytes, isCompressed } = packArray(count, writeScalars(layout.kind, flat), opts?.compress);
+  return { bytes, type, isCompressed, count, isArray: true };
+}
+
+/**
+ * Encode a single numeric value too large to inline (a `double`, `matrix4d`,
+ * `float2`, ...). Uses the same count-prefixed layout as `encodeVec3fScalar`.
+ */
+export function encodeNumericScalar(type: CrateDataType, components: ArrayLike<number>): EncodedArrayValue {
+  const layout = numericLayout('encodeNumericScalar', type);
+  if (components.length !== layout.components) {
+    throw new RangeError(
+      `encodeNumericScalar: expected ${layout.components} components, got ${components.length}`
+    );
+  }
+  const elementBytes = writeScalars(layout.kind, components);
+  const out = new Uint8Array(8 + elementBytes.length);
+  new DataView(out.buffer).setBigUint64(0, 1n, true);
+  out.set(elementBytes, 8);
+  return { bytes: out, type, isCompressed: false, count: 1, isArray: false };
+}
+
 /** Encode a Float[] (one float per element). */
 export function encodeFloatArray(
   values: Float32Array | ReadonlyArray<number>,
@@ -190,24 +336,36 @@ export function encodeInt32Array(
 }
 
 /**
- * Encode a Token[] (each element is a uint32 TokenIndex into the TOKENS table).
+ * Encode an array of uint32 table indices: `Token[]` and `AssetPath[]`
+ * (TokenIndex values) or `String[]` (StringIndex values).
  */
-export function encodeTokenArray(
-  tokenIndexes: ReadonlyArray<number>,
+export function encodeIndexArray(
+  type: CrateDataType,
+  indexes: ReadonlyArray<number>,
   opts?: { compress?: boolean }
 ): EncodedArrayValue {
-  const count = tokenIndexes.length;
+  const count = indexes.length;
   const elementBytes = new Uint8Array(count * 4);
   const view = new DataView(elementBytes.buffer);
   for (let i = 0; i < count; i++) {
-    const v = tokenIndexes[i];
+    const v = indexes[i];
     if (!Number.isInteger(v) || v < 0 || v > 0xffffffff) {
-      throw new RangeError(`encodeTokenArray: index ${i} = ${v} out of uint32 range`);
+      throw new RangeError(`encodeIndexArray: index ${i} = ${v} out of uint32 range`);
     }
     view.setUint32(i * 4, v, true);
   }
   const { bytes, isCompressed } = packArray(count, elementBytes, opts?.compress);
-  return { bytes, type: CrateDataType.Token, isCompressed, count, isArray: true };
+  return { bytes, type, isCompressed, count, isArray: true };
+}
+
+/**
+ * Encode a Token[] (each element is a uint32 TokenIndex into the TOKENS table).
+ */
+export function encodeTokenArray(
+  tokenIndexes: ReadonlyArray<number>,
+  opts?: { compress?: boolean }
+): EncodedArrayValue {
+  return encodeIndexArray(CrateDataType.Token, tokenIndexes, opts);
 }
 
 /**
@@ -233,3 +391,33 @@ export function decodeArrayHeader(
   const elementBytes = lz4Decompress(payload, uncompressedSize);
   return { count, elementBytes, nextOffset: offset + 24 + compressedSize };
 }
+
+/** number → IEEE-754 binary16 bits (round to nearest even). */
+export function floatToHalf(value: number): number {
+  const f32 = new Float32Array(1);
+  const u32 = new Uint32Array(f32.buffer);
+  f32[0] = value;
+  const x = u32[0];
+  const sign = (x >>> 16) & 0x8000;
+  const exponent = (x >>> 23) & 0xff;
+  const mantissa = x & 0x7fffff;
+
+  if (exponent === 0xff) return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+  const e = exponent - 127 + 15;
+  if (e >= 0x1f) return sign | 0x7c00;
+  if (e <= 0) {
+    if (e < -10) return sign;
+    // Subnormal half: shift the implicit leading 1 into the mantissa.
+    const m = mantissa | 0x800000;
+    const shift = 14 - e;
+    let half = m >> shift;
+    const rest = m & ((1 << shift) - 1);
+    const halfway = 1 << (shift - 1);
+    if (rest > halfway || (rest === halfway && (half & 1))) half++;
+    return sign | half;
+  }
+  let half = (e << 10) | (mantissa >> 13);
+  const rest = mantissa & 0x1fff;
+  if (rest > 0x1000 || (rest === 0x1000 && (half & 1))) half++;
+  return sign | half;
+}
@@ -0,0 +1,185 @@
+/** WebUsdFramework.Converters.Shared.Usdc.CompositeValues — encoders for
+ *  the external values that contain other values or table indices:
+ *  dictionaries, time-sample tables, `std::vector` values and variant
+ *  selection maps.
+ *
+ * Dictionaries and time samples nest ValueReps. Following OpenUSD, every
+ * nested ValueRep is reached through an int64 jump relative to the jump's
+ * own position, and nested values that are not inlined are written after
+ * the table inside the same payload:
+ *
+ *   Dictionary
+ *     uint64                        numEntries
+ *     per entry:
+ *       uint32                      StringIndex key
+ *       int64                       jump (= 8) to the ValueRep below
+ *       ValueRep                    value
+ *     nested external payloads
+ *
+ *   TimeSamples
+ *     int64                         jump (= 8) to the times ValueRep
+ *     ValueRep                      times (DoubleVector, nested)
+ *     int64                         jump (= 8) to the values table
+ *     uint64                        numSamples
+ *     ValueRep[numSamples]          one value per sample
+ *     nested external payloads
+ *
+ * Nested ValueReps that point at nested payloads are listed in
+ * `EncodedArrayValue.relocations`; their offsets are relative to the start
+ * of the payload until the builder places it.
+ *
+ * Reference: `pxr/usd/usd/crateFile.cpp` — `_WriteDictionary`,
+ * `_WriteTimeSamples`.
+ */
+
+import { arrayValueRep, type EncodedArrayValue } from './array-values';
+import { CrateDataType } from './value-rep';
+
+/**
+ * A field value ready for the FIELDS section: either an inlined ValueRep or
+ * an external payload whose ValueRep is built once its offset is known.
+ */
+export type CrateFieldValue =
+  | { kind: 'inline'; rep: bigint }
+  | { kind: 'external'; value: EncodedArrayValue };
+
+/** Entry of a dictionary value, keyed by StringIndex. */
+export interface DictionaryEntryInput {
+  keyStringIndex: number;
+  value: CrateFieldValue;
+}
+
+/** Accumulates a payload made of a fixed table plus nested external values. */
+class NestedPayload {
+  private readonly nested: Array<{ at: number; value: EncodedArrayValue }> = [];
+  private size: number;
+  private readonly relocations: number[] = [];
+  readonly table: Uint8Array;
+  readonly view: DataView;
+
+  constructor(tableSize: number) {
+    this.table = new Uint8Array(tableSize);
+    this.view = new DataView(this.table.buffer);
+    this.size = tableSize;
+  }
+
+  /** Write `value`'s ValueRep at `at`, appending its payload if it is external. */
+  writeRep(at: number, value: CrateFieldValue): void {
+    if (value.kind === 'inline') {
+      this.view.setBigUint64(at, value.rep, true);
+      return;
+    }
+    const offset = this.size;
+    this.nested.push({ at: offset, value: value.value });
+    this.size += value.value.bytes.length;
+    this.view.setBigUint64(at, arrayValueRep(value.value, offset), true);
+    this.relocations.push(at);
+  }
+
+  finish(type: CrateDataType, count: number): EncodedArrayValue {
+    const bytes = new Uint8Array(this.size);
+    const view = new DataView(bytes.buffer);
+    bytes.set(this.table, 0);
+    for (const { at, value } of this.nested) {
+      bytes.set(value.bytes, at);
+      // The nested payload's own relocations become relative to this one.
+      for (const r of value.relocations ?? []) {
+        view.setBigUint64(at + r, view.getBigUint64(at + r, true) + BigInt(at), true);
+        this.relocations.push(at + r);
+      }
+    }
+    return {
+      bytes,
+      type,
+      isCompressed: false,
+      count,
+      isArray: false,
+      relocations: this.relocations,
+    };
+  }
+}
+
+/** Encode a `VtDictionary`. Keys are StringIndex values. */
+export function encodeDictionary(entries: ReadonlyArray<DictionaryEntryInput>): EncodedArrayValue {
+  const payload = new NestedPayload(8 + entries.length * 20);
+  payload.view.setBigUint64(0, BigInt(entries.length), true);
+  entries.forEach((entry, i) => {
+    const at = 8 + i * 20;
+    payload.view.setUint32(at, entry.keyStringIndex, true);
+    payload.view.setBigInt64(at + 4, 8n, true);
+    payload.writeRep(at + 12, entry.value);
+  });
+  return payload.finish(CrateDataType.Dictionary, entries.length);
+}
+
+/** Encode an `SdfTimeSampleMap`. `values[i]` is the value at `times[i]`. */
+export function encodeTimeSamples(
+  times: ReadonlyArray<number>,
+  values: ReadonlyArray<CrateFieldValue>
+): EncodedArrayValue {
+  if (times.length !== values.length) {
+    throw new RangeError(
+      `encodeTimeSamples: ${times.length} times but ${values.length} values`
+    );
+  }
+  const payload = new NestedPayload(32 + values.length * 8);
+  payload.view.setBigInt64(0, 8n, true);
+  payload.writeRep(8, { kind: 'external', value: encodeDoubleVector(times) });
+  payload.view.setBigInt64(16, 8n, true);
+  payload.view.setBigUint64(24, BigInt(values.length), true);
+  values.forEach((value, i) => payload.writeRep(32 + i * 8, value));
+  return payload.finish(CrateDataType.TimeSamples, values.length);
+}
+
+/** Encode a `std::vector<double>` (uint64 count + float64 values). */
+export function encodeDoubleVector(values: ReadonlyArray<number>): EncodedArrayValue {
+  const bytes = new Uint8Array(8 + values.length * 8);
+  const view = new DataView(bytes.buffer);
+  view.setBigUint64(0, BigInt(values.length), true);
+  values.forEach((v, i) => view.setFloat64(8 + i * 8, v, true));
+  return { bytes, type: CrateDataType.DoubleVector, isCompressed: false, count: values.length, isArray: false };
+}
+
+/**
+ * Encode a `std::vector` of table indices (uint64 count + uint32 indices):
+ * `TokenVector` (`primChildren`, `properties`, `variantChildren`, ...),
+ * `StringVector` or `PathVector`.
+ */
+export function encodeIndexVector(
+  type: typeof CrateDataType.TokenVector | typeof CrateDataType.StringVector | typeof CrateDataType.PathVector,
+  indexes: ReadonlyArray<number>
+): EncodedArrayValue {
+  const bytes = new Uint8Array(8 + indexes.length * 4);
+  const view = new DataView(bytes.buffer);
+  view.setBigUint64(0, BigInt(indexes.length), true);
+  indexes.forEach((v, i) => {
+    if (!Number.isInteger(v) || v < 0 || v > 0xffffffff) {
+      throw new RangeError(`encodeIndexVector: index ${i} = ${v} out of uint32 range`);
+    }
+    view.setUint32(8 + i * 4, v, true);
+  });
+  return { bytes, type, isCompressed: false, count: indexes.length, isArray: false };
+}
+
+/**
+ * Encode a `SdfVariantSelectionMap` (uint64 count + StringIndex pairs of
+ * variant set name and selected variant).
+ */
+export function encodeVariantSelectionMap(
+  selections: ReadonlyArray<readonly [setStringIndex: number, variantStringIndex: number]>
+): EncodedArrayValue {
+  const bytes = new Uint8Array(8 + selections.length * 8);
+  const view = new DataView(bytes.buffer);
+  view.setBigUint64(0, BigInt(selections.length), true);
+  selections.forEach(([set, variant], i) => {
+    view.setUint32(8 + i * 8, set, true);
+    view.setUint32(12 + i * 8, variant, true);
+  });
+  return {
+    bytes,
+    type: CrateDataType.VariantSelectionMap,
+    isCompressed: false,
+    count: selections.length,
+    isArray: false,
+  };
+}
@@ -1,11 +1,14 @@
 /** WebUsdFramework.Converters.Shared.Usdc — public re-exports for the
- *  USDC (Pixar Crate) binary layer encoder.
+ *  USDC (Pixar Crate) binary layer encoder and reader.
  *
  * The USDC encoder is structurally complete: tokens, strings, fields,
  * field-sets, paths, specs, array values, and a layer-builder orchestrator
  * are all in place and round-trip through their respective decoders.
+ * `encodeTypedValue` covers every USD value type the converters author
+ * (matrices, quaternions, half, dictionaries, time samples, ...), and
+ * `readUsdcLayer` stitches the decoders back into a `UsdNode` tree.
  *
- * Pipeline integration is gated behind `PackageConfig.layerFormat` (default
+ * Pipeline integration is opt-in via `PackageConfig.layerFormat` (default
  * `'usda'`). Flipping the default to `'usdc'` is part of issue #122 and
  * happens only after each output is validated against `usdcat`-produced
  * fixtures and loads cleanly in macOS QuickLook / `usdview` / `usdcat`.
@@ -60,11 +63,25 @@ export {
   encodeVec3fArray,
   encodeInt32Array,
   encodeTokenArray,
+  encodeNumericArray,
+  encodeNumericScalar,
   arrayValueRep,
   decodeArrayHeader,
   COMPRESSION_THRESHOLD_BYTES,
 } from './array-values';
 
+export {
+  type CrateFieldValue,
+  encodeDictionary,
+  encodeTimeSamples,
+} from './composite-values';
+
+export {
+  type ValueInterner,
+  encodeTypedValue,
+  encodeDictionaryValue,
+} from './typed-values';
+
 export {
   CrateDataType,
   SdfSpecifier,
@@ -89,9 +106,30 @@ export {
 export {
   UsdcLayerBuilder,
   type PrimHandle,
+  type UsdcAttributeSpec,
+  type UsdcReference,
   buildSimpleUsdcLayer,
 } from './layer-builder';
 
+// Layer decoding.
+export {
+  readUsdcLayer,
+  dialectDeclaration,
+  type UsdcLayer,
+  type LayerReadReport,
+  type SkippedField,
+} from './layer-reader';
+
+export {
+  CrateValueReader,
+  type CrateValue,
+  type CrateListOp,
+  type CrateDictionary,
+  type CrateTimeSamples,
+  type CrateValueTables,
+  type DecodedCrateValue,
+} from './value-reader';
+
 // Low-level utilities (mostly for tests / advanced callers).
 export {
   compress as lz4Compress,
@@ -12,6 +12,13 @@
  *   b.addFloatArrayAttribute(root, 'points', [0, 0, 0, 1, 0, 0, ...]);
  *   const bytes = b.serialize();
  *
+ * Values the convenience methods do not cover are pre-encoded (see
+ * `encodeTypedValue`) and passed to the general entry points: `addField`
+ * for prim fields and metadata, `addAttributeSpec` for attributes with
+ * their own spec (connections, time samples, `custom`), `setLayerMetadata`
+ * for the pseudo-root, plus `addReferences`, `declareVariant` /
+ * `setVariantSelection` and `declareChildPrim`.
+ *
  * `serialize()` writes:
  *   1. The 88-byte bootstrap (placeholder TOC offset, patched at the end).
  *   2. Each section in dependency order — TOKENS, STRINGS, FIELDS, FIELDSETS,
@@ -55,14 +62,24 @@ import {
 } from './array-values';
 import {
   encodePathListOp,
+  encodeReferenceListOp,
+  encodeStringListOp,
   encodeTokenListOp,
+  type ReferenceInput,
   type TokenListOpInput,
 } from './listop-values';
+import {
+  type CrateFieldValue,
+  encodeIndexVector,
+  encodeTimeSamples,
+  encodeVariantSelectionMap,
+} from './composite-values';
 import {
   CrateDataType,
   SdfSpecType,
   SdfSpecifier,
   SdfVariability,
+  inlineBool,
   inlineFloat,
   inlineInt,
   inlineToken,
@@ -78,6 +95,35 @@ export interface PrimHandle {
   node: PathNode;
 }
 
+/**
+ * An attribute declared as its own spec (OpenUSD's layout), for values the
+ * prim-field shorthand cannot carry: connections, time samples, declared
+ * type names, `custom` / `uniform` qualifiers.
+ */
+export interface UsdcAttributeSpec {
+  /** USD type name (`color3f`, `texCoord2f[]`, `matrix4d`, ...). */
+  typeName: string;
+  default?: CrateFieldValue;
+  /** `[time, value]` pairs; written as an `SdfTimeSampleMap`. */
+  timeSamples?: ReadonlyArray<readonly [number, CrateFieldValue]>;
+  /** Absolute attribute paths (`/Root/Mat/Shader.outputs:rgb`). */
+  connectionPaths?: ReadonlyArray<string>;
+  isUniform?: boolean;
+  isCustom?: boolean;
+  /** Primvar `interpolation` metadata (`vertex`, `faceVarying`, ...). */
+  interpolation?: string;
+  /** Primvar `elementSize` metadata. */
+  elementSize?: number;
+}
+
+/** One `SdfReference` of a `references` list-op. */
+export interface UsdcReference {
+  /** Referenced layer; empty for an internal reference. */
+  assetPath: string;
+  /** Referenced prim; omitted for the layer's default prim. */
+  primPath?: string;
+}
+
 interface PendingField {
   /** TokenIndex of the field name. */
   tokenIndex: number;
@@ -97,16 +143,21 @@ interface SpecBuilder {
   pathIndex: number;
   specType: SdfSpecType;
   fields: PendingField[];
+  /** Variant set name → variant names, for prim and variant specs. */
+  variantSets?: Map<string, Map<string, PrimHandle>>;
+  /** `[set, variant]` selections, for prim and variant specs. */
+  variantSelections?: Map<string, string>;
 }
 
 /**
- * Pending relationship — full resolution happens at `serialize()` time
- * because target paths often reference prims that haven't been declared
- * yet when `addRelationship` is called.
+ * Path-valued field awaiting resolution at `serialize()` time, because
+ * target paths often reference prims that haven't been declared yet when
+ * the relationship or connection is added.
  */
-interface PendingRelationship {
-  /** Index into `specBuilders` of this relationship's spec. */
-  specBuilderIndex: number;
+interface PendingTargets {
+  spec: SpecBuilder;
+  /** TokenIndex of the field (`targetPaths` / `connectionPaths`). */
+  fieldToken: number;
   /** Stringly-typed target paths to resolve at serialize time. */
   targetPaths: string[];
 }
@@ -117,12 +168,17 @@ export class UsdcLayerBuilder {
   private readonly fieldSets = new FieldSetTable();
   /** All pending array payloads, in declaration order. */
   private readonly pendingArrays: PendingArray[] = [];
-  /** Built-up prim/attribute spec list. Pseudo-root is index 0. */
+  /** Built-up spec list, in declaration order. Pseudo-root is index 0. */
   private readonly specBuilders: SpecBuilder[] = [];
-  /** Relationships awaiting target-path resolution at serialize time. */
-  private readonly pendingRelationships: PendingRelationship[] = [];
+  /** Spec per PathIndex. Paths that only serve as targets have none. */
+  private readonly specByPath = new Map<number, SpecBuilder>();
+  /** Relationship / connection targets awaiting resolution at serialize time. */
+  private readonly pendingTargets: PendingTargets[] = [];
   /** Maps a USD path string ("/Root/Materials/Foo") to its PathIndex. */
   private readonly pathStringToIndex = new Map<string, number>();
+  /** Path string and node per PathIndex. */
+  private readonly pathStrings: string[] = [];
+  private readonly pathNodes: PathNode[] = [];
   /** PATHS root, with children attached as prims/attributes are declared. */
   private readonly pseudoRoot: PathNode;
 
@@ -147,12 +203,10 @@ export class UsdcLayerBuilder {
       isProperty: false,
       children: [],
     };
-    this.specBuilders.push({
-      pathIndex: 0,
-      specType: SdfSpecType.PseudoRoot,
-      fields: [],
-    });
+    this.pathNodes.push(this.pseudoRoot);
+    this.pathStrings.push('/');
     this.pathStringToIndex.set('/', 0);
+    this.addSpec(0, SdfSpecType.PseudoRoot, []);
   }
 
   /**
@@ -160,9 +214,11 @@ export class UsdcLayerBuilder {
    * component must match an already-declared parent, except for the root
    * which is anchored under the pseudo-root.
    *
+   * @param specifier - `def` unless given; `over` / `class` prims may have
+   *   an empty `typeName`
    * @returns A handle the caller threads back to `add*Attribute`.
    */
-  declarePrim(path: string, typeName: string): PrimHandle {
+  declarePrim(path: string, typeName: string, specifier: SdfSpecifier = SdfSpecifier.Def): PrimHandle {
     if (!path.startsWith('/')) {
       throw new RangeError(`declarePrim: path "${path}" must start with /`);
     }
@@ -171,62 +227,217 @@ export class UsdcLayerBuilder {
       throw new RangeError('declarePrim: cannot declare the pseudo-root');
     }
 
-    // Walk down from the pseudo-root, attaching children as needed.
+    // Walk down from the pseudo-root through already-declared prims.
     let parent: PathNode = this.pseudoRoot;
-    let parentSpec = this.specBuilders[0];
     for (let i = 0; i < components.length - 1; i++) {
-      const name = components[i];
-      const tokenIdx = this.tokens.intern(name);
+      const tokenIdx = this.tokens.intern(components[i]);
       const existing = parent.children.find(
         (c) => c.elementTokenIndex === tokenIdx && !c.isProperty
       );
-      if (!existing) {
+      if (!existing || !this.specByPath.has(existing.pathIndex)) {
         throw new RangeError(
           `declarePrim: parent path /${components.slice(0, i + 1).join('/')} has not been declared`
         );
       }
       parent = existing;
-      parentSpec = this.specBuilders[existing.pathIndex];
     }
+    return this.declarePrimNode(parent, components[components.length - 1], typeName, specifier);
+  }
 
-    const leafName = components[components.length - 1];
-    const elementTokenIndex = this.tokens.intern(leafName);
-    const typeNameTokenIndex = this.tokens.intern(typeName);
+  /**
+   * Declare a prim named `name` under `parent` — a prim or a variant
+   * returned by `declareVariant`.
+   */
+  declareChildPrim(
+    parent: PrimHandle,
+    name: string,
+    typeName: string,
+    specifier: SdfSpecifier = SdfSpecifier.Def
+  ): PrimHandle {
+    return this.declarePrimNode(parent.node, name, typeName, specifier);
+  }
 
-    const newPathIndex = this.specBuilders.length;
-    const node: PathNode = {
-      pathIndex: newPathIndex,
-      elementTokenIndex,
-      isProperty: false,
-      children: [],
-    };
-    parent.children.push(node);
-    this.pathStringToIndex.set(path, newPathIndex);
-    void parentSpec; // The builder doesn't need to update parent's fields here.
+  private declarePrimNode(parent: PathNode, name: string, typeName: string, specifier: SdfSpecifier): PrimHandle {
+    const node = this.childNode(parent, name, false);
+    if (this.specByPath.has(node.pathIndex)) {
+      throw new RangeError(`declarePrim: ${this.pathStrings[node.pathIndex]} is already declared`);
+    }
 
     const fields: PendingField[] = [
       {
         tokenIndex: this.tok_specifier,
-        rep: { kind: 'inline', value: inlineSpecifier(SdfSpecifier.Def) },
-      },
-      {
-        tokenIndex: this.tok_typeName,
-        rep: { kind: 'inline', value: inlineToken(typeNameTokenIndex) },
+        rep: { kind: 'inline', value: inlineSpecifier(specifier) },
       },
     ];
-    this.specBuilders.push({
-      pathIndex: newPathIndex,
-      specType: SdfSpecType.Prim,
-      fields,
+    if (typeName !== '' || specifier === SdfSpecifier.Def) {
+      fields.push({
+        tokenIndex: this.tok_typeName,
+        rep: { kind: 'inline', value: inlineToken(this.tokens.intern(typeName)) },
+      });
+    }
+    this.addSpec(node.pathIndex, SdfSpecType.Prim, fields);
+    return { pathIndex: node.pathIndex, node };
+  }
+
+  /**
+   * Get or create variant `variantName` of variant set `setName` on `prim`
+   * (`/Root{setName=variantName}`). Prims and properties declared on the
+   * returned handle are the variant's opinions.
+   *
+   * The owning prim's `variantSetNames` / `variantSetChildren` and the set's
+   * `variantChildren` are written at `serialize()` time.
+   */
+  declareVariant(prim: PrimHandle, setName: string, variantName: string): PrimHandle {
+    const owner = this.primSpec('declareVariant', prim);
+    owner.variantSets ??= new Map();
+    let variants = owner.variantSets.get(setName);
+    if (!variants) {
+      variants = new Map();
+      owner.variantSets.set(setName, variants);
+      const setNode = this.childNode(prim.node, `{${setName}=}`, false);
+      this.addSpec(setNode.pathIndex, SdfSpecType.VariantSet, []);
+    }
+    let variant = variants.get(variantName);
+    if (!variant) {
+      const node = this.childNode(prim.node, `{${setName}=${variantName}}`, false);
+      this.addSpec(node.pathIndex, SdfSpecType.Variant, [
+        {
+          tokenIndex: this.tok_specifier,
+          rep: { kind: 'inline', value: inlineSpecifier(SdfSpecifier.Over) },
+        },
+      ]);
+      variant = { pathIndex: node.pathIndex, node };
+      variants.set(variantName, variant);
+    }
+    return variant;
+  }
+
+  /** Select `variantName` for variant set `setName` on `prim` (`variants = { ... }`). */
+  setVariantSelection(prim: PrimHandle, setName: string, variantName: string): void {
+    const spec = this.primSpec('setVariantSelection', prim);
+    spec.variantSelections ??= new Map();
+    spec.variantSelections.set(setName, variantName);
+  }
+
+  /**
+   * Set a layer metadata field on the pseudo-root (`defaultPrim`, `upAxis`,
+   * `customLayerData`, ...). Setting a field twice replaces it.
+   */
+  setLayerMetadata(name: string, value: CrateFieldValue): void {
+    this.setField(this.specBuilders[0], name, value);
+  }
+
+  /**
+   * Add a field with a pre-encoded value to a prim or variant spec — prim
+   * metadata (`kind`, `customData`, ...) or an attribute in the prim-field
+   * shorthand the other `add*Attribute` methods use.
+   */
+  addField(prim: PrimHandle, name: string, value: CrateFieldValue): void {
+    this.pushField(this.primSpec('addField', prim), this.tokens.intern(name), value);
+  }
+
+  /**
+   * Declare an attribute as its own spec under `prim`. Declaring the same
+   * attribute again merges into the existing spec, so a default value, its
+   * connection and its time samples may be added separately.
+   */
+  addAttributeSpec(prim: PrimHandle, name: string, attribute: UsdcAttributeSpec): void {
+    const node = this.childNode(prim.node, name, true);
+    let spec = this.specByPath.get(node.pathIndex);
+    if (!spec) {
+      spec = this.addSpec(node.pathIndex, SdfSpecType.Attribute, []);
+    } else if (spec.specType !== SdfSpecType.Attribute) {
+      throw new RangeError(`addAttributeSpec: ${this.pathStrings[node.pathIndex]} is not an attribute`);
+    }
+
+    this.setField(spec, 'typeName', { kind: 'inline', rep: inlineToken(this.tokens.intern(attribute.typeName)) });
+    if (attribute.isCustom) this.setField(spec, 'custom', { kind: 'inline', rep: inlineBool(true) });
+    if (attribute.isUniform) {
+      this.setField(spec, 'variability', { kind: 'inline', rep: inlineVariability(SdfVariability.Uniform) });
+    }
+    if (attribute.interpolation !== undefined) {
+      this.setField(spec, 'interpolation', { kind: 'inline', rep: inlineToken(this.tokens.intern(attribute.interpolation)) });
+    }
+    if (attribute.elementSize !== undefined) {
+      this.setField(spec, 'elementSize', { kind: 'inline', rep: inlineInt(attribute.elementSize) });
+    }
+    if (attribute.default) this.setField(spec, 'default', attribute.default);
+    if (attribute.timeSamples) {
+      const samples = [...attribute.timeSamples].sort((a, b) => a[0] - b[0]);
+      const encoded = encodeTimeSamples(samples.map(([t]) => t), samples.map(([, v]) => v));
+      this.setField(spec, 'timeSamples', { kind: 'external', value: encoded });
+    }
+    if (attribute.connectionPaths && attribute.connectionPaths.length > 0) {
+      this.pendingTargets.push({
+        spec,
+        fieldToken: this.tokens.intern('connectionPaths'),
+        targetPaths: [...attribute.connectionPaths],
+      });
+    }
+  }
+
+  /**
+   * Add a `references` list-op to a prim or variant. Referenced prim paths
+   * join the path table (they name prims of other layers).
+   */
+  addReferences(
+    prim: PrimHandle,
+    op: {
+      explicit?: ReadonlyArray<UsdcReference>;
+      prepended?: ReadonlyArray<UsdcReference>;
+      appended?: ReadonlyArray<UsdcReference>;
+      deleted?: ReadonlyArray<UsdcReference>;
+    }
+  ): void {
+    const resolve = (refs: ReadonlyArray<UsdcReference> | undefined): ReferenceInput[] | undefined =>
+      refs?.map((ref) => ({
+        assetPathStringIndex: this.internString(ref.assetPath),
+        primPathIndex: ref.primPath ? this.internPath(ref.primPath) : 0,
+      }));
+    const encoded = encodeReferenceListOp({
+      ...(op.explicit ? { isExplicit: true, explicit: resolve(op.explicit)! } : {}),
+      ...(op.prepended ? { prepended: resolve(op.prepended)! } : {}),
+      ...(op.appended ? { appended: resolve(op.appended)! } : {}),
+      ...(op.deleted ? { deleted: resolve(op.deleted)! } : {}),
     });
+    this.addField(prim, 'references', { kind: 'external', value: encoded });
+  }
 
-    return { pathIndex: newPathIndex, node };
+  /** Intern `value` in the TOKENS table; returns its TokenIndex. */
+  internToken(value: string): number {
+    return this.tokens.intern(value);
+  }
+
+  /** Intern `value` in the STRINGS table; returns its StringIndex. */
+  internString(value: string): number {
+    return this.strings.intern(this.tokens.intern(value));
+  }
+
+  /**
+   * PathIndex of an absolute prim or property path, adding spec-less path
+   * entries for any part of it that has not been declared.
+   */
+  internPath(path: string): number {
+    const existing = this.pathStringToIndex.get(path);
+    if (existing !== undefined) return existing;
+    if (!path.startsWith('/')) {
+      throw new RangeError(`internPath: path "${path}" must start with /`);
+    }
+    const lastSlash = path.lastIndexOf('/');
+    const dot = path.indexOf('.', lastSlash);
+    const primPart = dot < 0 ? path : path.slice(0, dot);
+    let node = this.pseudoRoot;
+    for (const name of primPart.slice(1).split('/').filter((c) => c.length > 0)) {
+      node = this.childNode(node, name, false);
+    }
+    if (dot >= 0) node = this.childNode(node, path.slice(dot + 1), true);
+    return node.pathIndex;
   }
 
   /** Add an inlined float scalar attribute. */
   addFloatAttribute(prim: PrimHandle, name: string, value: number): void {
     const tokenIdx = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: tokenIdx,
       rep: { kind: 'inline', value: inlineFloat(value) },
     });
@@ -235,7 +446,7 @@ export class UsdcLayerBuilder {
   /** Add an inlined int32 scalar attribute. */
   addIntAttribute(prim: PrimHandle, name: string, value: number): void {
     const tokenIdx = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: tokenIdx,
       rep: { kind: 'inline', value: inlineInt(value) },
     });
@@ -245,7 +456,7 @@ export class UsdcLayerBuilder {
   addTokenAttribute(prim: PrimHandle, name: string, tokenValue: string): void {
     const fieldTok = this.tokens.intern(name);
     const valueTok = this.tokens.intern(tokenValue);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'inline', value: inlineToken(valueTok) },
     });
@@ -260,7 +471,7 @@ export class UsdcLayerBuilder {
     const arrayId = this.pendingArrays.length;
     this.pendingArrays.push({ encoded: enc });
     const fieldTok = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'array', arrayId },
     });
@@ -276,7 +487,7 @@ export class UsdcLayerBuilder {
     const arrayId = this.pendingArrays.length;
     this.pendingArrays.push({ encoded: enc });
     const fieldTok = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'array', arrayId },
     });
@@ -297,7 +508,7 @@ export class UsdcLayerBuilder {
     const arrayId = this.pendingArrays.length;
     this.pendingArrays.push({ encoded: enc });
     const fieldTok = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'array', arrayId },
     });
@@ -313,7 +524,7 @@ export class UsdcLayerBuilder {
     const arrayId = this.pendingArrays.length;
     this.pendingArrays.push({ encoded: enc });
     const fieldTok = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'array', arrayId },
     });
@@ -326,7 +537,7 @@ export class UsdcLayerBuilder {
     const arrayId = this.pendingArrays.length;
     this.pendingArrays.push({ encoded: enc });
     const fieldTok = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'array', arrayId },
     });
@@ -370,7 +581,7 @@ export class UsdcLayerBuilder {
     const arrayId = this.pendingArrays.length;
     this.pendingArrays.push({ encoded: enc });
     const fieldTok = this.tokens.intern(name);
-    this.specBuilders[prim.pathIndex].fields.push({
+    this.primSpec('addAttribute', prim).fields.push({
       tokenIndex: fieldTok,
       rep: { kind: 'array', arrayId },
     });
@@ -399,34 +610,144 @@ export class UsdcLayerBuilder {
     if (targetPaths.length === 0) {
       throw new RangeError('addRelationship: targetPaths is empty');
     }
-    const elementToken = this.tokens.intern(name);
-    const newPathIndex = this.specBuilders.length;
+    const node = this.childNode(prim.node, name, true);
+    if (this.specByPath.has(node.pathIndex)) {
+      throw new RangeError(`addRelationship: ${this.pathStrings[node.pathIndex]} is already declared`);
+    }
+    // The targetPaths field is filled in at serialize time once every
+    // referenced prim has had a chance to be declared. variability is
+    // uniform per the USD spec for relationships.
+    const spec = this.addSpec(node.pathIndex, SdfSpecType.Relationship, [
+      {
+        tokenIndex: this.tok_variability,
+        rep: { kind: 'inline', value: inlineVariability(SdfVariability.Uniform) },
+      },
+    ]);
+    this.pendingTargets.push({
+      spec,
+      fieldToken: this.tok_targetPaths,
+      targetPaths: [...targetPaths],
+    });
+  }
+
+  private addSpec(pathIndex: number, specType: SdfSpecType, fields: PendingField[]): SpecBuilder {
+    const spec: SpecBuilder = { pathIndex, specType, fields };
+    this.specBuilders.push(spec);
+    this.specByPath.set(pathIndex, spec);
+    return spec;
+  }
+
+  /** The prim or variant spec behind `prim`. */
+  private primSpec(label: string, prim: PrimHandle): SpecBuilder {
+    const spec = this.specByPath.get(prim.pathIndex);
+    if (!spec || (spec.specType !== SdfSpecType.Prim && spec.specType !== SdfSpecType.Variant)) {
+      throw new RangeError(`${label}: ${this.pathStrings[prim.pathIndex] ?? prim.pathIndex} is not a declared prim`);
+    }
+    return spec;
+  }
+
+  /**
+   * Get or create the path entry `element` under `parent`. Variant
+   * selections (`{set=variant}`) and their children are appended without a
+   * separator, as in `/Root{set=variant}Child`.
+   */
+  private childNode(parent: PathNode, element: string, isProperty: boolean): PathNode {
+    const elementTokenIndex = this.tokens.intern(element);
+    const existing = parent.children.find(
+      (c) => c.elementTokenIndex === elementTokenIndex && c.isProperty === isProperty
+    );
+    if (existing) return existing;
+
+    const parentPath = this.pathStrings[parent.pathIndex];
+    let path: string;
+    if (isProperty) path = `${parentPath}.${element}`;
+    else if (parentPath === '/') path = `/${element}`;
+    else if (element.startsWith('{') || parentPath.endsWith('}')) path = `${parentPath}${element}`;
+    else path = `${parentPath}/${element}`;
+
     const node: PathNode = {
-      pathIndex: newPathIndex,
-      elementTokenIndex: elementToken,
-      isProperty: true,
+      pathIndex: this.pathNodes.length,
+      elementTokenIndex,
+      isProperty,
       children: [],
     };
-    prim.node.children.push(node);
-
-    this.specBuilders.push({
-      pathIndex: newPathIndex,
-      specType: SdfSpecType.Relationship,
-      // The targetPaths field is filled in at serialize time once every
-      // referenced prim has had a chance to be declared. variability is
-      // uniform per the USD spec for relationships.
-      fields: [
-        {
-          tokenIndex: this.tok_variability,
-          rep: { kind: 'inline', value: inlineVariability(SdfVariability.Uniform) },
-        },
-      ],
-    });
+    parent.children.push(node);
+    this.pathNodes.push(node);
+    this.pathStrings.push(path);
+    this.pathStringToIndex.set(path, node.pathIndex);
+    return node;
+  }
 
-    this.pendingRelationships.push({
-      specBuilderIndex: newPathIndex,
-      targetPaths: [...targetPaths],
-    });
+  private pushField(spec: SpecBuilder, tokenIndex: number, value: CrateFieldValue): void {
+    if (value.kind === 'inline') {
+      spec.fields.push({ tokenIndex, rep: { kind: 'inline', value: value.rep } });
+      return;
+    }
+    const arrayId = this.pendingArrays.length;
+    this.pendingArrays.push({ encoded: value.value });
+    spec.fields.push({ tokenIndex, rep: { kind: 'array', arrayId } });
+  }
+
+  /** Like `pushField`, replacing any existing field of the same name. */
+  private setField(spec: SpecBuilder, name: string, value: CrateFieldValue): void {
+    const tokenIndex = this.tokens.intern(name);
+    const existing = spec.fields.findIndex((f) => f.tokenIndex === tokenIndex);
+    if (existing >= 0) spec.fields.splice(existing, 1);
+    this.pushField(spec, tokenIndex, value);
+  }
+
+  private tokenVector(names: ReadonlyArray<string>): CrateFieldValue {
+    const indexes = names.map((n) => this.tokens.intern(n));
+    return { kind: 'external', value: encodeIndexVector(CrateDataType.TokenVector, indexes) };
+  }
+
+  /**
+   * Add the fields that describe namespace structure: `primChildren` and
+   * `properties` on the pseudo-root, prims and variants, plus the variant
+   * set bookkeeping fields.
+   */
+  private addStructuralFields(): void {
+    const nameOf = (node: PathNode) => this.tokens.get(node.elementTokenIndex)!;
+    for (const spec of [...this.specBuilders]) {
+      if (
+        spec.specType !== SdfSpecType.PseudoRoot &&
+        spec.specType !== SdfSpecType.Prim &&
+        spec.specType !== SdfSpecType.Variant
+      ) {
+        continue;
+      }
+      const node = this.pathNodes[spec.pathIndex];
+      const primChildren: string[] = [];
+      const properties: string[] = [];
+      for (const child of node.children) {
+        const childSpec = this.specByPath.get(child.pathIndex);
+        if (!childSpec) continue;
+        if (childSpec.specType === SdfSpecType.Prim) primChildren.push(nameOf(child));
+        else if (child.isProperty) properties.push(nameOf(child));
+      }
+      if (primChildren.length > 0) this.setField(spec, 'primChildren', this.tokenVector(primChildren));
+      if (properties.length > 0) this.setField(spec, 'properties', this.tokenVector(properties));
+
+      if (spec.variantSets && spec.variantSets.size > 0) {
+        const setNames = [...spec.variantSets.keys()];
+        this.setField(spec, 'variantSetChildren', this.tokenVector(setNames));
+        this.setField(spec, 'variantSetNames', {
+          kind: 'external',
+          value: encodeStringListOp({ prepended: setNames.map((n) => this.internString(n)) }),
+        });
+        const ownerPath = this.pathStrings[spec.pathIndex];
+        for (const [setName, variants] of spec.variantSets) {
+          const setSpec = this.specByPath.get(this.pathStringToIndex.get(`${ownerPath}{${setName}=}`)!)!;
+          this.setField(setSpec, 'variantChildren', this.tokenVector([...variants.keys()]));
+        }
+      }
+      if (spec.variantSelections && spec.variantSelections.size > 0) {
+        const pairs = [...spec.variantSelections].map(
+          ([set, variant]) => [this.internString(set), this.internString(variant)] as const
+        );
+        this.setField(spec, 'variantSelection', { kind: 'external', value: encodeVariantSelectionMap(pairs) });
+      }
+    }
   }
 
   /**
@@ -443,31 +764,23 @@ export class UsdcLayerBuilder {
     // Strategy: lay sections out in the order the file will contain them and
     // resolve offsets as we go.
 
-    // Resolve every pending relationship's target paths to PathIndex values
-    // and emit the corresponding `targetPaths` field. This must happen
-    // BEFORE TOKENS is closed (resolution doesn't intern any tokens, but
-    // the encoded PathListOp does sit in pendingArrays which is consumed
-    // below).
-    for (const rel of this.pendingRelationships) {
-      const indices: number[] = new Array(rel.targetPaths.length);
-      for (let i = 0; i < rel.targetPaths.length; i++) {
-        const tp = rel.targetPaths[i];
-        const idx = this.pathStringToIndex.get(tp);
-        if (idx === undefined) {
-          throw new RangeError(
-            `serialize: relationship target path "${tp}" was never declared`
-          );
-        }
-        indices[i] = idx;
-      }
+    // Resolve every pending relationship / connection target to a PathIndex
+    // and emit the corresponding path list-op field. Targets that were
+    // never declared (e.g. attributes kept as prim fields) get spec-less
+    // path entries. This must happen BEFORE TOKENS is closed, as must the
+    // structural fields.
+    for (const pending of this.pendingTargets) {
+      const indices = pending.targetPaths.map((tp) => this.internPath(tp));
       const enc = encodePathListOp({ explicit: indices });
       const arrayId = this.pendingArrays.length;
       this.pendingArrays.push({ encoded: enc });
-      this.specBuilders[rel.specBuilderIndex].fields.push({
-        tokenIndex: this.tok_targetPaths,
+      pending.spec.fields.push({
+        tokenIndex: pending.fieldToken,
         rep: { kind: 'array', arrayId },
       });
     }
+    this.pendingTargets.length = 0;
+    this.addStructuralFields();
 
     // Encode TOKENS first so the byte size is known. (TokenTable closed.)
     const tokensBytes = this.tokens.encode();
@@ -579,6 +892,10 @@ export class UsdcLayerBuilder {
     let arrCursor = stringsSection.start + stringsSection.size;
     for (const a of this.pendingArrays) {
       out.set(a.encoded.bytes, arrCursor);
+      // Nested ValueReps inside dictionaries / time samples become absolute.
+      for (const r of a.encoded.relocations ?? []) {
+        view.setBigUint64(arrCursor + r, view.getBigUint64(arrCursor + r, true) + BigInt(arrCursor), true);
+      }
       arrCursor += a.encoded.bytes.length;
     }
     if (arrCursor !== arrayPayloadEnd) {
@@ -609,7 +926,3 @@ export function buildSimpleUsdcLayer(
   return b.serialize();
 }
 
-// Mark CrateDataType as used so the import is not dropped — the builder
-// references it transitively through helpers, but TypeScript's import-elision
-// can be aggressive with const-value re-exports.
-void CrateDataType;
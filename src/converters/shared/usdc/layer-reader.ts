@@ -0,0 +1,767 @@
+/** WebUsdFramework.Converters.Shared.Usdc.LayerReader — decodes a complete
+ *  USDC layer file back into a `UsdNode` tree.
+ *
+ * This is the inverse of `UsdcLayerBuilder.serialize()` +
+ * `adaptUsdNodeTree()`:
+ *
+ *   1. Read the bootstrap and walk the TOC to the six required sections.
+ *   2. Decode TOKENS, STRINGS, FIELDS, FIELDSETS, PATHS and SPECS with their
+ *      section decoders, and rebuild the full path string for every
+ *      PathIndex.
+ *   3. Walk the path tree depth-first. Prim specs become `UsdNode`s;
+ *      attribute / relationship specs and the prim's own attribute-valued
+ *      fields become properties keyed the way the converters key them
+ *      (`"point3f[] points"`, `"uniform token info:id"`, `material:binding`,
+ *      `prepend apiSchemas`, ...).
+ *   4. Pseudo-root fields become layer metadata; the time-code entries and
+ *      `defaultPrim` are mirrored onto the default prim so
+ *      `serializeToUsda()` reproduces the layer header.
+ *
+ * Two property encodings are understood:
+ *
+ *   - OpenUSD's: one Attribute / Relationship spec per property, carrying
+ *     `typeName`, `default`, `timeSamples`, `variability`, `connectionPaths`,
+ *     `targetPaths` and `interpolation` / `elementSize` metadata.
+ *   - `UsdcLayerBuilder`'s: attributes stored as fields directly on the prim
+ *     spec. The USD type name is not recorded there, so it is inferred from
+ *     the CrateDataType plus the attribute name (`points` → `point3f[]`,
+ *     `*Color` → `color3f`, ...).
+ *
+ * Variant set and variant specs (`/Root{set=}`, `/Root{set=variant}`)
+ * become `UsdNode.addVariant()` nodes. Paths that only serve as
+ * relationship / connection targets carry no spec and are not visited.
+ *
+ * Anything the reader cannot map (unknown value types, unknown spec types,
+ * ...) is recorded in `report.skipped` instead of aborting the whole read,
+ * mirroring `AdaptationReport` on the write side.
+ */
+
+import { UsdNode } from '../../../core/usd-node';
+import { UsdPathSchema } from '../../../schemas';
+import { readBootstrap, readTOC, type UsdcSection, type UsdcVersion } from '../usdc-writer';
+import { decodeTokensSection } from './tokens-section';
+import { decodeStringsSection } from './strings-section';
+import { decodeFieldsSection, type UsdcField } from './fields-section';
+import { decodeFieldSetsSection, FIELD_SET_SENTINEL } from './fieldsets-section';
+import { decodePathsSection, rebuildPathTree, type PathNode } from './paths-section';
+import { decodeSpecsSection, type UsdcSpec } from './specs-section';
+import {
+  CrateValueReader,
+  describeCrateType,
+  type CrateDictionary,
+  type CrateListOp,
+  type CrateValue,
+  type DecodedCrateValue,
+  shortestFloat32,
+} from './value-reader';
+import { CrateDataType, SdfSpecType, SdfSpecifier, SdfVariability } from './value-rep';
+
+/** One field the reader could not translate. */
+export interface SkippedField {
+  /** Path of the spec that owns the field (`/Root/Mesh`, `/Root/Mesh.points`). */
+  path: string;
+  field: string;
+  reason: string;
+}
+
+/** Summary of a layer read. */
+export interface LayerReadReport {
+  primCount: number;
+  propertyCount: number;
+  skipped: SkippedField[];
+}
+
+/** Result of `readUsdcLayer`. */
+export interface UsdcLayer {
+  /** The layer's default prim, or its first root prim when none is declared. */
+  root: UsdNode;
+  /** Every root prim, in namespace order. `root` is one of these. */
+  prims: UsdNode[];
+  /** Pseudo-root fields (`defaultPrim`, `upAxis`, `metersPerUnit`, `customLayerData`, ...). */
+  layerMetadata: Record<string, unknown>;
+  version: UsdcVersion;
+  report: LayerReadReport;
+}
+
+const REQUIRED_SECTIONS = ['TOKENS', 'STRINGS', 'FIELDS', 'FIELDSETS', 'PATHS', 'SPECS'] as const;
+
+/** Layer-header keys that `UsdNode.serializeToUsda()` reads from the root node's metadata. */
+export const HEADER_METADATA_KEYS = [
+  'defaultPrim',
+  'upAxis',
+  'metersPerUnit',
+  'timeCodesPerSecond',
+  'framesPerSecond',
+  'startTimeCode',
+  'endTimeCode',
+] as const;
+
+/** Prim fields that describe structure rather than content. */
+const STRUCTURAL_PRIM_FIELDS = new Set([
+  'specifier',
+  'typeName',
+  'primChildren',
+  'properties',
+  'variantSetChildren',
+  'variantChildren',
+]);
+
+/** Prim metadata with scalar values — stored via `UsdNode.setMetadata`. */
+const SCALAR_PRIM_METADATA = new Set(['kind', 'active', 'hidden', 'instanceable', 'documentation', 'comment']);
+
+/** Builder-dialect field names whose attributes are `uniform` in the USD schemas. */
+const UNIFORM_ATTRIBUTE_NAMES = new Set([
+  'info:id',
+  'subdivisionScheme',
+  'orientation',
+  'doubleSided',
+  'familyName',
+  'elementType',
+  'purpose',
+  'joints',
+]);
+
+/** Prim fields the reader always maps to metadata, never to builder-dialect attributes. */
+const PRIM_METADATA_FIELDS = new Set([
+  ...STRUCTURAL_PRIM_FIELDS,
+  ...SCALAR_PRIM_METADATA,
+  'customData',
+  'assetInfo',
+  'references',
+  'apiSchemas',
+  'variantSetNames',
+  'variantSelection',
+]);
+
+/** Attributes the converters key without a type prefix (the serializer adds it). */
+export const BARE_KEY_ATTRIBUTES = new Set(['xformOp:transform', 'skel:geomBindTransform', 'xformOpOrder']);
+
+/** USD type name per CrateDataType, used when a field carries no `typeName`. */
+const USD_TYPE_NAMES: Partial<Record<CrateDataType, string>> = {
+  [CrateDataType.Bool]: 'bool',
+  [CrateDataType.UChar]: 'uchar',
+  [CrateDataType.Int]: 'int',
+  [CrateDataType.UInt]: 'uint',
+  [CrateDataType.Int64]: 'int64',
+  [CrateDataType.UInt64]: 'uint64',
+  [CrateDataType.Half]: 'half',
+  [CrateDataType.Float]: 'float',
+  [CrateDataType.Double]: 'double',
+  [CrateDataType.TimeCode]: 'timecode',
+  [CrateDataType.String]: 'string',
+  [CrateDataType.Token]: 'token',
+  [CrateDataType.AssetPath]: 'asset',
+  [CrateDataType.Matrix2d]: 'matrix2d',
+  [CrateDataType.Matrix3d]: 'matrix3d',
+  [CrateDataType.Matrix4d]: 'matrix4d',
+  [CrateDataType.Quatd]: 'quatd',
+  [CrateDataType.Quatf]: 'quatf',
+  [CrateDataType.Quath]: 'quath',
+  [CrateDataType.Vec2d]: 'double2',
+  [CrateDataType.Vec2f]: 'float2',
+  [CrateDataType.Vec2h]: 'half2',
+  [CrateDataType.Vec2i]: 'int2',
+  [CrateDataType.Vec3d]: 'double3',
+  [CrateDataType.Vec3f]: 'float3',
+  [CrateDataType.Vec3h]: 'half3',
+  [CrateDataType.Vec3i]: 'int3',
+  [CrateDataType.Vec4d]: 'double4',
+  [CrateDataType.Vec4f]: 'float4',
+  [CrateDataType.Vec4h]: 'half4',
+  [CrateDataType.Vec4i]: 'int4',
+};
+
+const LIST_OP_KEY_PREFIXES: ReadonlyArray<[keyof Omit<CrateListOp, 'isExplicit'>, string]> = [
+  ['prepended', 'prepend'],
+  ['appended', 'append'],
+  ['added', 'add'],
+  ['deleted', 'delete'],
+  ['ordered', 'reorder'],
+];
+
+interface DecodedField {
+  name: string;
+  valueRep: bigint;
+}
+
+interface LayerTables {
+  tokens: string[];
+  fields: UsdcField[];
+  fieldSets: number[];
+  specsByPath: Map<number, UsdcSpec>;
+  paths: string[];
+  pathTree: PathNode;
+}
+
+/**
+ * Decode a complete USDC layer.
+ *
+ * @throws RangeError if the container (bootstrap, TOC, or one of the six
+ *   required sections) is malformed. Field-level problems are reported in
+ *   `report.skipped` instead.
+ */
+export function readUsdcLayer(bytes: Uint8Array): UsdcLayer {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { version, tocOffset } = readBootstrap(view, 0);
+  const toc = readTOC(view, tocOffset);
+
+  const tables = decodeTables(bytes, toc);
+  const strings = decodeStringsSection(sectionBytes(bytes, toc, 'STRINGS')).map((i) => {
+    const t = tables.tokens[i];
+    if (t === undefined) throw new RangeError(`readUsdcLayer: STRINGS entry references TokenIndex ${i}`);
+    return t;
+  });
+  const values = new CrateValueReader(bytes, {
+    tokens: tables.tokens,
+    strings,
+    paths: tables.paths,
+  });
+
+  const reader = new LayerWalker(tables, values);
+  return { ...reader.walk(), version };
+}
+
+function sectionBytes(bytes: Uint8Array, toc: ReadonlyArray<UsdcSection>, name: string): Uint8Array {
+  const section = toc.find((s) => s.name === name);
+  if (!section) throw new RangeError(`readUsdcLayer: missing ${name} section`);
+  return bytes.subarray(section.start, section.start + section.size);
+}
+
+function decodeTables(bytes: Uint8Array, toc: ReadonlyArray<UsdcSection>): LayerTables {
+  for (const name of REQUIRED_SECTIONS) sectionBytes(bytes, toc, name);
+
+  const tokens = decodeTokensSection(sectionBytes(bytes, toc, 'TOKENS'));
+  const fields = decodeFieldsSection(sectionBytes(bytes, toc, 'FIELDS'));
+  const fieldSets = decodeFieldSetsSection(sectionBytes(bytes, toc, 'FIELDSETS'));
+  const { pathIndexes, elementTokenIndexes, jumps } = decodePathsSection(sectionBytes(bytes, toc, 'PATHS'));
+  const pathTree = rebuildPathTree(pathIndexes, elementTokenIndexes, jumps);
+  const specs = decodeSpecsSection(sectionBytes(bytes, toc, 'SPECS'));
+
+  const paths: string[] = [];
+  const assign = (node: PathNode, parentPath: string | null): void => {
+    let path: string;
+    if (parentPath === null) {
+      path = '/';
+    } else {
+      const name = tokens[node.elementTokenIndex];
+      if (name === undefined) {
+        throw new RangeError(`readUsdcLayer: path element references TokenIndex ${node.elementTokenIndex}`);
+      }
+      if (node.isProperty) path = `${parentPath}.${name}`;
+      // Variant selections and prims inside them join without a separator: `/Root{set=a}Child`.
+      else if (name.startsWith('{') || parentPath.endsWith('}')) path = `${parentPath}${name}`;
+      else path = parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+    }
+    paths[node.pathIndex] = path;
+    for (const child of node.children) assign(child, path);
+  };
+  assign(pathTree, null);
+
+  const specsByPath = new Map<number, UsdcSpec>();
+  for (const spec of specs) specsByPath.set(spec.pathIndex, spec);
+
+  return { tokens, fields, fieldSets, specsByPath, paths, pathTree };
+}
+
+/** Stateful depth-first walk over the decoded tables. */
+class LayerWalker {
+  private readonly report: LayerReadReport = { primCount: 0, propertyCount: 0, skipped: [] };
+
+  constructor(
+    private readonly tables: LayerTables,
+    private readonly values: CrateValueReader
+  ) {}
+
+  walk(): Omit<UsdcLayer, 'version'> {
+    const { pathTree } = this.tables;
+    const layerMetadata: Record<string, unknown> = {};
+    for (const field of this.fieldsOf(pathTree.pathIndex)) {
+      if (field.name === 'primChildren') continue;
+      const decoded = this.decode('/', field);
+      if (decoded) layerMetadata[field.name] = toPlainValue(decoded.value);
+    }
+
+    const prims: UsdNode[] = [];
+    for (const child of pathTree.children) {
+      const node = this.visitPrim(child, '/');
+      if (node) prims.push(node);
+    }
+    if (prims.length === 0) {
+      throw new RangeError('readUsdcLayer: layer has no root prims');
+    }
+
+    const defaultPrimName = layerMetadata.defaultPrim;
+    const root = prims.find((p) => p.getName() === defaultPrimName) ?? prims[0];
+    for (const key of HEADER_METADATA_KEYS) {
+      const value = layerMetadata[key];
+      if (typeof value === 'string' || typeof value === 'number') root.setMetadata(key, value);
+    }
+    const customLayerData = layerMetadata.customLayerData as Record<string, unknown> | undefined;
+    if (customLayerData && typeof customLayerData.xmp === 'object' && customLayerData.xmp !== null) {
+      root.setMetadata('xmpMetadata', { xmp: customLayerData.xmp });
+    }
+
+    return { root, prims, layerMetadata, report: this.report };
+  }
+
+  /**
+   * @param parentPath - Namespace path of the parent `UsdNode`; differs
+   *   from the spec path's prefix inside variants (`/Root{set=a}Child`)
+   */
+  private visitPrim(pathNode: PathNode, parentPath: string): UsdNode | null {
+    const specPath = this.tables.paths[pathNode.pathIndex];
+    const spec = this.tables.specsByPath.get(pathNode.pathIndex);
+    // Target-only paths (relationship / connection targets) carry no spec.
+    if (!spec) return null;
+    if (spec.specType !== SdfSpecType.Prim) {
+      this.skip(specPath, '', `spec type ${spec.specType} is not a prim`);
+      return null;
+    }
+    const name = this.tables.tokens[pathNode.elementTokenIndex];
+    const path = parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+    if (!UsdPathSchema.safeParse(path).success) {
+      this.skip(specPath, '', 'prim path is not representable as a UsdNode path');
+      return null;
+    }
+
+    const fields = this.fieldsOf(pathNode.pathIndex);
+    let typeName = '';
+    let specifier: number = SdfSpecifier.Def;
+    for (const field of fields) {
+      if (field.name === 'typeName' || field.name === 'specifier') {
+        const decoded = this.decode(path, field);
+        if (field.name === 'typeName' && typeof decoded?.value === 'string') typeName = decoded.value;
+        if (field.name === 'specifier' && typeof decoded?.value === 'number') specifier = decoded.value;
+      }
+    }
+    // `over` / `class` prims are marked through the type name, as the serializer expects.
+    const node = new UsdNode(path, specifierTypeName(specifier, typeName));
+    this.report.primCount++;
+    this.populate(node, pathNode, specPath, fields);
+    return node;
+  }
+
+  /** Apply a prim or variant spec's fields, properties, child prims and variants to `node`. */
+  private populate(node: UsdNode, pathNode: PathNode, specPath: string, fields: DecodedField[]): void {
+    for (const field of fields) {
+      if (STRUCTURAL_PRIM_FIELDS.has(field.name)) continue;
+      const decoded = this.decode(specPath, field);
+      if (decoded) this.applyPrimField(node, specPath, field.name, decoded);
+    }
+
+    for (const child of pathNode.children) {
+      if (child.isProperty) {
+        this.visitProperty(node, child);
+        continue;
+      }
+      const spec = this.tables.specsByPath.get(child.pathIndex);
+      if (spec?.specType === SdfSpecType.Variant) {
+        this.visitVariant(node, child);
+      } else if (spec?.specType !== SdfSpecType.VariantSet) {
+        const childNode = this.visitPrim(child, node.getPath());
+        if (childNode) node.addChild(childNode);
+      }
+    }
+  }
+
+  /** A `{set=variant}` spec: its opinions go on `owner.addVariant(set, variant)`. */
+  private visitVariant(owner: UsdNode, pathNode: PathNode): void {
+    const specPath = this.tables.paths[pathNode.pathIndex];
+    const selection = /^\{([^=]*)=(.*)\}$/.exec(this.tables.tokens[pathNode.elementTokenIndex] ?? '');
+    if (!selection || selection[2] === '') {
+      this.skip(specPath, '', 'variant path element is not {set=variant}');
+      return;
+    }
+    const variant = owner.addVariant(selection[1], selection[2]);
+    this.populate(variant, pathNode, specPath, this.fieldsOf(pathNode.pathIndex));
+  }
+
+  /** A field stored directly on a prim spec: metadata, or a builder-dialect attribute. */
+  private applyPrimField(node: UsdNode, path: string, name: string, decoded: DecodedCrateValue): void {
+    const { value } = decoded;
+    if (SCALAR_PRIM_METADATA.has(name)) {
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        node.setMetadata(name, value);
+      } else {
+        this.skip(path, name, 'expected a scalar metadata value');
+      }
+      return;
+    }
+    if ((name === 'customData' || name === 'assetInfo') && decoded.type === CrateDataType.Dictionary) {
+      node.setProperty(name, toPlainValue(value) as Record<string, unknown>);
+      return;
+    }
+    if (name === 'variantSetNames' && decoded.type === CrateDataType.StringListOp) {
+      const op = value as CrateListOp;
+      for (const set of [...(op.explicit ?? []), ...(op.prepended ?? []), ...(op.appended ?? [])]) {
+        node.addVariantSet(String(set));
+      }
+      return;
+    }
+    if (name === 'variantSelection' && decoded.type === CrateDataType.VariantSelectionMap) {
+      for (const [set, variant] of Object.entries(value as CrateDictionary)) node.setVariantSelection(set, String(variant));
+      return;
+    }
+    if (name === 'references' && decoded.type === CrateDataType.ReferenceListOp) {
+      this.applyReferences(node, path, value as CrateListOp<string>);
+      return;
+    }
+    if (isListOp(decoded)) {
+      this.applyListOp(node, path, name, value as CrateListOp);
+      return;
+    }
+
+    const declaration = dialectDeclaration(name, decoded.type, decoded.isArray);
+    if (!declaration) {
+      this.skip(path, name, `no attribute mapping for ${describeCrateType(decoded.type)}`);
+      return;
+    }
+    this.setAttribute(node, name, declaration.typeName, declaration.isUniform, false, value);
+  }
+
+  /** References are stored the way `UsdNode.addReference()` stores them: one untyped literal per list. */
+  private applyReferences(node: UsdNode, path: string, op: CrateListOp<string>): void {
+    const lists: Array<[string, string[] | undefined]> = [
+      ['references', op.explicit],
+      ...LIST_OP_KEY_PREFIXES.map(([list, prefix]): [string, string[] | undefined] => [`${prefix} references`, op[list]]),
+    ];
+    let count = 0;
+    for (const [key, items] of lists) {
+      if (!items || items.length === 0) continue;
+      node.setProperty(key, items.length === 1 ? items[0] : `[${items.join(', ')}]`);
+      this.report.propertyCount++;
+      count++;
+    }
+    if (count === 0) this.skip(path, 'references', 'empty list-op');
+  }
+
+  private applyListOp(node: UsdNode, path: string, name: string, op: CrateListOp): void {
+    if (op.explicit) {
+      node.setProperty(name, op.explicit.map(String), 'string[]');
+      this.report.propertyCount++;
+    }
+    for (const [list, prefix] of LIST_OP_KEY_PREFIXES) {
+      const items = op[list];
+      if (!items || items.length === 0) continue;
+      node.setProperty(`${prefix} ${name}`, items.map(String), 'string[]');
+      this.report.propertyCount++;
+    }
+    if (!op.explicit && LIST_OP_KEY_PREFIXES.every(([list]) => !op[list])) {
+      this.skip(path, name, 'empty list-op');
+    }
+  }
+
+  private visitProperty(node: UsdNode, pathNode: PathNode): void {
+    const path = this.tables.paths[pathNode.pathIndex];
+    const name = path.slice(path.lastIndexOf('.') + 1);
+    const spec = this.tables.specsByPath.get(pathNode.pathIndex);
+    // Target-only paths (relationship / connection targets) carry no spec.
+    if (!spec) return;
+    const fields = new Map<string, DecodedCrateValue>();
+    for (const field of this.fieldsOf(pathNode.pathIndex)) {
+      const decoded = this.decode(path, field);
+      if (decoded) fields.set(field.name, decoded);
+    }
+
+    if (spec.specType === SdfSpecType.Relationship) {
+      this.applyRelationship(node, path, name, fields);
+    } else if (spec.specType === SdfSpecType.Attribute) {
+      this.applyAttributeSpec(node, path, name, fields);
+    } else {
+      this.skip(path, '', `spec type ${spec.specType} is not a property`);
+    }
+  }
+
+  private applyRelationship(
+    node: UsdNode,
+    path: string,
+    name: string,
+    fields: Map<string, DecodedCrateValue>
+  ): void {
+    const targets = fields.get('targetPaths')?.value as CrateListOp | undefined;
+    const paths = targets ? [...(targets.explicit ?? []), ...(targets.prepended ?? []), ...(targets.appended ?? [])] : [];
+    if (paths.length === 0) {
+      this.skip(path, 'targetPaths', 'relationship has no targets');
+      return;
+    }
+    const key = name === 'material:binding' || name.startsWith('material:binding:') ? name : `rel ${name}`;
+    if (paths.length === 1) {
+      node.setProperty(key, `<${paths[0]}>`, 'rel');
+    } else {
+      node.setProperty(key, paths.map((p) => `<${p}>`), 'rel[]');
+    }
+    this.report.propertyCount++;
+  }
+
+  private applyAttributeSpec(
+    node: UsdNode,
+    path: string,
+    name: string,
+    fields: Map<string, DecodedCrateValue>
+  ): void {
+    const defaultValue = fields.get('default');
+    const declared = fields.get('typeName')?.value;
+    const typeName = typeof declared === 'string'
+      ? declared
+      : defaultValue ? inferTypeName(name, defaultValue.type, defaultValue.isArray) : null;
+    if (!typeName) {
+      this.skip(path, 'typeName', 'attribute has no type');
+      return;
+    }
+    const isUniform = fields.get('variability')?.value === SdfVariability.Uniform;
+    const isCustom = fields.get('custom')?.value === true;
+
+    const connections = fields.get('connectionPaths')?.value as CrateListOp | undefined;
+    const targets = connections ? [...(connections.explicit ?? []), ...(connections.prepended ?? [])] : [];
+    if (targets.length > 0) {
+      const value = targets.length === 1 ? `<${targets[0]}>` : `[${targets.map((t) => `<${t}>`).join(', ')}]`;
+      node.setProperty(`${typeName} ${name}.connect`, value, 'connection');
+      this.report.propertyCount++;
+    }
+
+    const samples = fields.get('timeSamples');
+    if (samples && samples.value instanceof Map) {
+      const literals = new Map<number, string>();
+      for (const [time, sample] of samples.value) literals.set(time, formatUsdaValue(sample, typeName));
+      const key = BARE_KEY_ATTRIBUTES.has(name) || name.startsWith('xformOp:') ? name : `${typeName} ${name}`;
+      node.setTimeSampledProperty(key, literals, typeName);
+      this.report.propertyCount++;
+    }
+
+    if (defaultValue) {
+      this.setAttribute(node, name, typeName, isUniform, isCustom, defaultValue.value);
+    } else if (targets.length === 0 && !samples) {
+      // Declared without a value (e.g. `token outputs:surface`).
+      node.setProperty(`${qualifiers(isUniform, isCustom)}${typeName} ${name}`, '');
+      this.report.propertyCount++;
+    }
+
+    const interpolation = fields.get('interpolation')?.value;
+    if (typeof interpolation === 'string') {
+      node.setProperty(`uniform token ${name}:interpolation`, interpolation, 'interpolation');
+    }
+    const elementSize = fields.get('elementSize')?.value;
+    if (typeof elementSize === 'number') {
+      node.setProperty(`int ${name}:elementSize`, elementSize, 'elementSize');
+    }
+  }
+
+  /** Store a typed attribute value under the key shape the converters use. */
+  private setAttribute(
+    node: UsdNode,
+    name: string,
+    typeName: string,
+    isUniform: boolean,
+    isCustom: boolean,
+    value: CrateValue
+  ): void {
+    const isArray = typeName.endsWith('[]');
+    this.report.propertyCount++;
+
+    if (name.endsWith(':interpolation') && typeof value === 'string') {
+      node.setProperty(`uniform token ${name}`, value, 'interpolation');
+      return;
+    }
+    if (BARE_KEY_ATTRIBUTES.has(name)) {
+      if (isArray && Array.isArray(value)) node.setProperty(name, value as string[], typeName);
+      else node.setProperty(name, formatUsdaValue(value, typeName), typeName);
+      return;
+    }
+
+    const key = `${qualifiers(isUniform, isCustom)}${typeName} ${name}`;
+    if (isArray) {
+      if (ArrayBuffer.isView(value) && !isSerializableArray(typeName, value)) {
+        // The serializer only writes flat and 3-tuple typed arrays; others go as literals.
+        const type = typeName === 'texCoord2f[]' ? 'texcoord' : 'raw';
+        node.setProperty(key, formatUsdaValue(value, typeName), type);
+      } else {
+        node.setProperty(key, toPropertyValue(value));
+      }
+      return;
+    }
+    const stem = typeName;
+    if (stem === 'token') {
+      node.setProperty(key, String(value));
+    } else if (stem === 'string') {
+      node.setProperty(key, String(value), 'string');
+    } else if (stem === 'asset') {
+      node.setProperty(key, `@${value}@`, 'asset');
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      node.setProperty(key, value, stem);
+    } else {
+      node.setProperty(key, formatUsdaValue(value, stem), stem);
+    }
+  }
+
+  private fieldsOf(pathIndex: number): DecodedField[] {
+    const spec = this.tables.specsByPath.get(pathIndex);
+    if (!spec) return [];
+    const { fieldSets, fields, tokens } = this.tables;
+    const out: DecodedField[] = [];
+    for (let i = spec.fieldSetIndex; i < fieldSets.length && fieldSets[i] !== FIELD_SET_SENTINEL; i++) {
+      const field = fields[fieldSets[i]];
+      if (!field) throw new RangeError(`readUsdcLayer: FIELDSETS references FieldIndex ${fieldSets[i]}`);
+      const name = tokens[field.tokenIndex];
+      if (name === undefined) throw new RangeError(`readUsdcLayer: field name references TokenIndex ${field.tokenIndex}`);
+      out.push({ name, valueRep: field.valueRep });
+    }
+    return out;
+  }
+
+  private decode(path: string, field: DecodedField): DecodedCrateValue | null {
+    try {
+      return this.values.read(field.valueRep);
+    } catch (error) {
+      if (!(error instanceof RangeError)) throw error;
+      this.skip(path, field.name, error.message);
+      return null;
+    }
+  }
+
+  private skip(path: string, field: string, reason: string): void {
+    this.report.skipped.push({ path, field, reason });
+  }
+}
+
+function specifierTypeName(specifier: number, typeName: string): string {
+  const word = specifier === SdfSpecifier.Over ? 'over' : specifier === SdfSpecifier.Class ? 'class' : '';
+  if (!word) return typeName;
+  return typeName ? `${word} ${typeName}` : word;
+}
+
+function qualifiers(isUniform: boolean, isCustom: boolean): string {
+  return `${isCustom ? 'custom ' : ''}${isUniform ? 'uniform ' : ''}`;
+}
+
+function isListOp(decoded: DecodedCrateValue): boolean {
+  return (
+    decoded.type === CrateDataType.ReferenceListOp ||
+    decoded.type === CrateDataType.TokenListOp ||
+    decoded.type === CrateDataType.StringListOp ||
+    decoded.type === CrateDataType.PathListOp ||
+    decoded.type === CrateDataType.IntListOp ||
+    decoded.type === CrateDataType.UIntListOp
+  );
+}
+
+/**
+ * The declaration an attribute stored as a prim field (the builder dialect)
+ * reads back with, or `null` when such a field would read back as metadata
+ * or not at all. The adapter only uses the dialect when this matches the
+ * attribute's own declaration.
+ */
+export function dialectDeclaration(
+  name: string,
+  type: CrateDataType,
+  isArray: boolean
+): { typeName: string; isUniform: boolean } | null {
+  if (PRIM_METADATA_FIELDS.has(name)) return null;
+  const typeName = inferTypeName(name, type, isArray);
+  if (!typeName) return null;
+  return { typeName, isUniform: UNIFORM_ATTRIBUTE_NAMES.has(name) || name.endsWith(':interpolation') };
+}
+
+/**
+ * USD type name for a field that carries no `typeName`. Vec3f values are
+ * refined by attribute name the same way the converters declare them.
+ */
+function inferTypeName(name: string, type: CrateDataType, isArray: boolean): string | null {
+  if (type === CrateDataType.TokenVector) return 'token[]';
+  if (type === CrateDataType.StringVector) return 'string[]';
+  let stem = USD_TYPE_NAMES[type];
+  if (!stem) return null;
+  if (type === CrateDataType.Vec3f) {
+    const leaf = name.slice(name.lastIndexOf(':') + 1);
+    if (name === 'points') stem = 'point3f';
+    else if (name === 'normals' || name === 'primvars:normals') stem = 'normal3f';
+    else if (name === 'velocities') stem = 'vector3f';
+    else if (/color$/i.test(leaf)) stem = 'color3f';
+  } else if (type === CrateDataType.Vec2f && isArray && name.startsWith('primvars:')) {
+    stem = 'texCoord2f';
+  }
+  return isArray ? `${stem}[]` : stem;
+}
+
+/** Whether `UsdNode`'s serializer writes a typed array of `typeName` correctly. */
+function isSerializableArray(typeName: string, value: ArrayBufferView): boolean {
+  const stem = typeName.slice(0, -2);
+  const width = tupleWidth(stem);
+  if (width === 1) return !stem.startsWith('quat') && !stem.startsWith('matrix');
+  return width === 3 && (value instanceof Float32Array || value instanceof Float64Array);
+}
+
+/** Convert a decoded array into the value shape `UsdNode.setProperty` accepts. */
+function toPropertyValue(value: CrateValue): string | number | boolean | string[] | number[] | boolean[] | object {
+  if (value === null) return '';
+  if (value instanceof Map) return toPlainValue(value) as object;
+  return value;
+}
+
+/** Recursively turn Maps / list-ops into JSON-friendly objects. */
+function toPlainValue(value: CrateValue): unknown {
+  if (value instanceof Map) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of value) out[String(k)] = toPlainValue(v);
+    return out;
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && !ArrayBuffer.isView(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value as CrateDictionary)) out[k] = toPlainValue(v);
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Format a decoded value as a USDA literal (the representation time samples
+ * and tuple-valued attributes are stored in on `UsdNode`).
+ */
+function formatUsdaValue(value: CrateValue, typeName: string): string {
+  const isArray = typeName.endsWith('[]');
+  const stem = isArray ? typeName.slice(0, -2) : typeName;
+  if (value === null) return 'None';
+  if (typeof value === 'boolean' || typeof value === 'number') return String(value);
+  if (typeof value === 'string') {
+    if (stem === 'asset') return `@${value}@`;
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+    const quote = stem === 'asset' ? (s: string) => `@${s}@` : (s: string) => JSON.stringify(s);
+    return `[${(value as string[]).map(quote).join(', ')}]`;
+  }
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    const single = value instanceof Float32Array;
+    const nums = Array.from(value as ArrayLike<number>, (n) => (single ? shortestFloat32(Number(n)) : Number(n)));
+    const width = tupleWidth(stem);
+    if (!isArray) return formatTuple(nums, stem, width);
+    if (width === 1) return `[${nums.join(', ')}]`;
+    const tuples: string[] = [];
+    for (let i = 0; i < nums.length; i += width) tuples.push(formatTuple(nums.slice(i, i + width), stem, width));
+    return `[${tuples.join(', ')}]`;
+  }
+  return JSON.stringify(toPlainValue(value));
+}
+
+function tupleWidth(stem: string): number {
+  const matrix = /^matrix(\d)d$/.exec(stem);
+  if (matrix) return Number(matrix[1]) ** 2;
+  if (stem.startsWith('quat')) return 4;
+  const vec = /^[a-zA-Z]+(\d)[fdhi]?$/.exec(stem);
+  return vec ? Number(vec[1]) : 1;
+}
+
+function formatTuple(nums: number[], stem: string, width: number): string {
+  if (width === 1) return String(nums[0]);
+  const matrix = /^matrix(\d)d$/.exec(stem);
+  if (matrix) {
+    const dim = Number(matrix[1]);
+    const rows: string[] = [];
+    for (let r = 0; r < dim; r++) rows.push(`(${nums.slice(r * dim, r * dim + dim).join(', ')})`);
+    return `( ${rows.join(', ')} )`;
+  }
+  if (stem.startsWith('quat')) {
+    // Stored imaginary-first; USDA writes the real part first.
+    return `(${nums[3]}, ${nums[0]}, ${nums[1]}, ${nums[2]})`;
+  }
+  return `(${nums.join(', ')})`;
+}
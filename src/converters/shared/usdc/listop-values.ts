@@ -66,6 +66,27 @@ export interface IndexListOpInput {
 /** Backwards-compatible alias kept so existing TokenListOp callers don't break. */
 export type TokenListOpInput = IndexListOpInput;
 
+/** A list-op before serialization, generic over its item type. */
+interface ListOpInput<T> {
+  isExplicit?: boolean;
+  explicit?: ReadonlyArray<T>;
+  added?: ReadonlyArray<T>;
+  deleted?: ReadonlyArray<T>;
+  ordered?: ReadonlyArray<T>;
+  prepended?: ReadonlyArray<T>;
+  appended?: ReadonlyArray<T>;
+}
+
+/** Sub-list fields in wire order, with their opcode. */
+const SUB_LISTS: ReadonlyArray<[Exclude<keyof ListOpInput<unknown>, 'isExplicit'>, SdfListOpSubListType]> = [
+  ['explicit', SdfListOpSubListType.Explicit],
+  ['added', SdfListOpSubListType.Added],
+  ['deleted', SdfListOpSubListType.Deleted],
+  ['ordered', SdfListOpSubListType.Ordered],
+  ['prepended', SdfListOpSubListType.Prepended],
+  ['appended', SdfListOpSubListType.Appended],
+];
+
 function validateTokenIndices(label: string, items: ReadonlyArray<number>): void {
   for (let i = 0; i < items.length; i++) {
     const v = items[i];
@@ -78,44 +99,26 @@ function validateTokenIndices(label: string, items: ReadonlyArray<number>): void
 }
 
 /**
- * Shared low-level encoder for any index-based ListOp. The caller supplies
- * the `CrateDataType` tag that should appear on the resulting ValueRep
- * (`TokenListOp` for tokens, `PathListOp` for paths, ...).
+ * Shared low-level encoder for every ListOp. `writeItem` stores one item of
+ * `itemSize` bytes at `at`; the caller supplies the `CrateDataType` tag that
+ * should appear on the resulting ValueRep.
  */
-function encodeIndexListOp(
-  input: IndexListOpInput,
-  type: CrateDataType
+function encodeListOp<T>(
+  input: ListOpInput<T>,
+  type: CrateDataType,
+  itemSize: number,
+  writeItem: (view: DataView, at: number, item: T) => void
 ): EncodedArrayValue {
-  const sublists: { type: SdfListOpSubListType; items: ReadonlyArray<number> }[] = [];
-  if (input.explicit && input.explicit.length > 0) {
-    validateTokenIndices('explicit', input.explicit);
-    sublists.push({ type: SdfListOpSubListType.Explicit, items: input.explicit });
-  }
-  if (input.added && input.added.length > 0) {
-    validateTokenIndices('added', input.added);
-    sublists.push({ type: SdfListOpSubListType.Added, items: input.added });
-  }
-  if (input.deleted && input.deleted.length > 0) {
-    validateTokenIndices('deleted', input.deleted);
-    sublists.push({ type: SdfListOpSubListType.Deleted, items: input.deleted });
-  }
-  if (input.ordered && input.ordered.length > 0) {
-    validateTokenIndices('ordered', input.ordered);
-    sublists.push({ type: SdfListOpSubListType.Ordered, items: input.ordered });
-  }
-  if (input.prepended && input.prepended.length > 0) {
-    validateTokenIndices('prepended', input.prepended);
-    sublists.push({ type: SdfListOpSubListType.Prepended, items: input.prepended });
-  }
-  if (input.appended && input.appended.length > 0) {
-    validateTokenIndices('appended', input.appended);
-    sublists.push({ type: SdfListOpSubListType.Appended, items: input.appended });
+  const sublists: { type: SdfListOpSubListType; items: ReadonlyArray<T> }[] = [];
+  for (const [name, listType] of SUB_LISTS) {
+    const items = input[name];
+    if (items && items.length > 0) sublists.push({ type: listType, items });
   }
 
   // Compute total size: 1 (isExplicit) + 1 (numActiveLists) +
-  //   per-list: 1 (type) + 8 (numItems) + 4 × items.length
+  //   per-list: 1 (type) + 8 (numItems) + itemSize × items.length
   let total = 2;
-  for (const s of sublists) total += 1 + 8 + 4 * s.items.length;
+  for (const s of sublists) total += 1 + 8 + itemSize * s.items.length;
 
   const bytes = new Uint8Array(total);
   const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
@@ -129,8 +132,8 @@ function encodeIndexListOp(
     view.setBigUint64(dp, BigInt(s.items.length), /* littleEndian */ true);
     dp += 8;
     for (let i = 0; i < s.items.length; i++) {
-      view.setUint32(dp, s.items[i], true);
-      dp += 4;
+      writeItem(view, dp, s.items[i]);
+      dp += itemSize;
     }
   }
 
@@ -143,6 +146,22 @@ function encodeIndexListOp(
   };
 }
 
+/**
+ * Shared low-level encoder for any index-based ListOp. The caller supplies
+ * the `CrateDataType` tag that should appear on the resulting ValueRep
+ * (`TokenListOp` for tokens, `PathListOp` for paths, ...).
+ */
+function encodeIndexListOp(
+  input: IndexListOpInput,
+  type: CrateDataType
+): EncodedArrayValue {
+  for (const [name] of SUB_LISTS) {
+    const items = input[name];
+    if (items) validateTokenIndices(name, items);
+  }
+  return encodeListOp(input, type, 4, (view, at, item) => view.setUint32(at, item, true));
+}
+
 /**
  * Encode a TokenListOp. Items are TokenIndex values into the TOKENS table.
  * The resulting ValueRep has `type: TokenListOp`, `isArray: false`,
@@ -161,52 +180,101 @@ export function encodePathListOp(input: IndexListOpInput): EncodedArrayValue {
   return encodeIndexListOp(input, CrateDataType.PathListOp);
 }
 
+/**
+ * Encode a StringListOp (`variantSetNames`). Items are StringIndex values
+ * into the STRINGS table.
+ */
+export function encodeStringListOp(input: IndexListOpInput): EncodedArrayValue {
+  return encodeIndexListOp(input, CrateDataType.StringListOp);
+}
+
+/** One `SdfReference` item of a ReferenceListOp. */
+export interface ReferenceInput {
+  /** StringIndex of the referenced layer (`''` for an internal reference). */
+  assetPathStringIndex: number;
+  /** PathIndex of the referenced prim; the pseudo-root (0) means the default prim. */
+  primPathIndex: number;
+  layerOffset?: { offset: number; scale: number };
+}
+
+export type ReferenceListOpInput = ListOpInput<ReferenceInput>;
+
+/**
+ * Bytes per reference item: uint32 asset StringIndex, uint32 prim PathIndex,
+ * float64 offset, float64 scale, then the item's `customData` dictionary
+ * (always empty here — a uint64 count of 0).
+ */
+const REFERENCE_ITEM_SIZE = 32;
+
+/**
+ * Encode a ReferenceListOp (`prepend references = @a.usd@</Prim>`).
+ */
+export function encodeReferenceListOp(input: ReferenceListOpInput): EncodedArrayValue {
+  return encodeListOp(input, CrateDataType.ReferenceListOp, REFERENCE_ITEM_SIZE, (view, at, ref) => {
+    view.setUint32(at, ref.assetPathStringIndex, true);
+    view.setUint32(at + 4, ref.primPathIndex, true);
+    view.setFloat64(at + 8, ref.layerOffset?.offset ?? 0, true);
+    view.setFloat64(at + 16, ref.layerOffset?.scale ?? 1, true);
+    view.setBigUint64(at + 24, 0n, true);
+  });
+}
+
+/**
+ * Decode a ReferenceListOp value from raw bytes.
+ *
+ * @throws RangeError if an item carries non-empty `customData`.
+ */
+export function decodeReferenceListOp(src: Uint8Array): ReferenceListOpInput {
+  return decodeListOp(src, 'decodeReferenceListOp', REFERENCE_ITEM_SIZE, (view, at) => {
+    if (view.getBigUint64(at + 24, true) !== 0n) {
+      throw new RangeError('decodeReferenceListOp: reference customData is not supported');
+    }
+    const offset = view.getFloat64(at + 8, true);
+    const scale = view.getFloat64(at + 16, true);
+    return {
+      assetPathStringIndex: view.getUint32(at, true),
+      primPathIndex: view.getUint32(at + 4, true),
+      ...(offset !== 0 || scale !== 1 ? { layerOffset: { offset, scale } } : {}),
+    };
+  });
+}
+
 /**
  * Decode a TokenListOp value from raw bytes. Used by tests; not on the
  * runtime encoding path.
  */
 export function decodeTokenListOp(src: Uint8Array): TokenListOpInput {
-  if (src.length < 2) throw new RangeError('decodeTokenListOp: header truncated');
+  return decodeListOp(src, 'decodeTokenListOp', 4, (view, at) => view.getUint32(at, true));
+}
+
+function decodeListOp<T>(
+  src: Uint8Array,
+  label: string,
+  itemSize: number,
+  readItem: (view: DataView, at: number) => T
+): ListOpInput<T> {
+  if (src.length < 2) throw new RangeError(`${label}: header truncated`);
   const view = new DataView(src.buffer, src.byteOffset, src.byteLength);
   let sp = 0;
   const isExplicit = src[sp++] === 1;
   const numLists = src[sp++];
-  const out: TokenListOpInput = { isExplicit };
+  const out: { -readonly [K in keyof ListOpInput<T>]: ListOpInput<T>[K] } = { isExplicit };
   for (let l = 0; l < numLists; l++) {
-    if (sp + 9 > src.length) throw new RangeError('decodeTokenListOp: sub-list header truncated');
+    if (sp + 9 > src.length) throw new RangeError(`${label}: sub-list header truncated`);
     const listType = src[sp++] as SdfListOpSubListType;
     const numItems = Number(view.getBigUint64(sp, true));
     sp += 8;
-    if (sp + 4 * numItems > src.length) {
-      throw new RangeError('decodeTokenListOp: item payload truncated');
+    if (sp + itemSize * numItems > src.length) {
+      throw new RangeError(`${label}: item payload truncated`);
     }
-    const items: number[] = new Array(numItems);
+    const items: T[] = new Array(numItems);
     for (let i = 0; i < numItems; i++) {
-      items[i] = view.getUint32(sp, true);
-      sp += 4;
-    }
-    switch (listType) {
-      case SdfListOpSubListType.Explicit:
-        out.explicit = items;
-        break;
-      case SdfListOpSubListType.Added:
-        out.added = items;
-        break;
-      case SdfListOpSubListType.Deleted:
-        out.deleted = items;
-        break;
-      case SdfListOpSubListType.Ordered:
-        out.ordered = items;
-        break;
-      case SdfListOpSubListType.Prepended:
-        out.prepended = items;
-        break;
-      case SdfListOpSubListType.Appended:
-        out.appended = items;
-        break;
-      default:
-        throw new RangeError(`decodeTokenListOp: unknown sublist type ${listType}`);
+      items[i] = readItem(view, sp);
+      sp += itemSize;
     }
+    const entry = SUB_LISTS.find(([, t]) => t === listType);
+    if (!entry) throw new RangeError(`${label}: unknown sublist type ${listType}`);
+    out[entry[0]] = items;
   }
   return out;
 }
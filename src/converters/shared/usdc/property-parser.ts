@@ -17,10 +17,9 @@
  *   "prepend apiSchemas"                            → metadata, name=apiSchemas
  *
  * Some keys aren't typed attributes — `prepend references`,
- * `material:binding`, `token outputs:surface.connect` describe relationships,
- * connections, or list-ops. Those are returned with `kind: 'unsupported'`
- * so the caller can fall back to the USDA path until the encoder learns the
- * extra cases.
+ * `material:binding`, `token outputs:surface.connect` describe list-ops,
+ * relationships and connections, and get their own `kind`. Keys that do
+ * not parse are returned with `kind: 'unsupported'`.
  */
 
 import { CrateDataType } from './value-rep';
@@ -33,9 +32,21 @@ export type ParsedProperty =
   | {
     kind: 'attribute';
     name: string;
+    /** Declared USD type name, e.g. `point3f[]`. */
+    typeName: string;
     type: CrateDataType;
     isArray: boolean;
     isUniform: boolean;
+    isCustom: boolean;
+  }
+  | {
+    /** A `<type> <name>.connect` key. The value is the source attribute
+     * path (or array of paths); `typeName` defaults to `token`. */
+    kind: 'connection';
+    name: string;
+    typeName: string;
+    type: CrateDataType;
+    isArray: boolean;
   }
   | {
     /** A `prepend|append|...` list-op metadata key. The element type is
@@ -83,23 +94,56 @@ const TYPE_MAP: Record<string, { type: CrateDataType; isArray: boolean }> = {
   token: { type: CrateDataType.Token, isArray: false },
   asset: { type: CrateDataType.AssetPath, isArray: false },
 
+  timecode: { type: CrateDataType.TimeCode, isArray: false },
+  dictionary: { type: CrateDataType.Dictionary, isArray: false },
+
   // Vec3f-family — color3f and normal3f and point3f all serialize as Vec3f.
   vector3f: { type: CrateDataType.Vec3f, isArray: false },
   point3f: { type: CrateDataType.Vec3f, isArray: false },
   normal3f: { type: CrateDataType.Vec3f, isArray: false },
   color3f: { type: CrateDataType.Vec3f, isArray: false },
+  texCoord3f: { type: CrateDataType.Vec3f, isArray: false },
   float3: { type: CrateDataType.Vec3f, isArray: false },
+  vector3d: { type: CrateDataType.Vec3d, isArray: false },
+  point3d: { type: CrateDataType.Vec3d, isArray: false },
+  normal3d: { type: CrateDataType.Vec3d, isArray: false },
+  color3d: { type: CrateDataType.Vec3d, isArray: false },
+  texCoord3d: { type: CrateDataType.Vec3d, isArray: false },
+  double3: { type: CrateDataType.Vec3d, isArray: false },
+  vector3h: { type: CrateDataType.Vec3h, isArray: false },
+  point3h: { type: CrateDataType.Vec3h, isArray: false },
+  normal3h: { type: CrateDataType.Vec3h, isArray: false },
+  color3h: { type: CrateDataType.Vec3h, isArray: false },
+  texCoord3h: { type: CrateDataType.Vec3h, isArray: false },
+  half3: { type: CrateDataType.Vec3h, isArray: false },
+  int3: { type: CrateDataType.Vec3i, isArray: false },
 
-  // Vec2f
+  // Vec2
   texCoord2f: { type: CrateDataType.Vec2f, isArray: false },
   float2: { type: CrateDataType.Vec2f, isArray: false },
+  texCoord2d: { type: CrateDataType.Vec2d, isArray: false },
+  double2: { type: CrateDataType.Vec2d, isArray: false },
+  texCoord2h: { type: CrateDataType.Vec2h, isArray: false },
+  half2: { type: CrateDataType.Vec2h, isArray: false },
+  int2: { type: CrateDataType.Vec2i, isArray: false },
 
-  // Vec4f
+  // Vec4
   color4f: { type: CrateDataType.Vec4f, isArray: false },
   float4: { type: CrateDataType.Vec4f, isArray: false },
+  color4d: { type: CrateDataType.Vec4d, isArray: false },
+  double4: { type: CrateDataType.Vec4d, isArray: false },
+  color4h: { type: CrateDataType.Vec4h, isArray: false },
+  half4: { type: CrateDataType.Vec4h, isArray: false },
+  int4: { type: CrateDataType.Vec4i, isArray: false },
 
-  // Quatf
+  // Quaternions and matrices
   quatf: { type: CrateDataType.Quatf, isArray: false },
+  quatd: { type: CrateDataType.Quatd, isArray: false },
+  quath: { type: CrateDataType.Quath, isArray: false },
+  matrix2d: { type: CrateDataType.Matrix2d, isArray: false },
+  matrix3d: { type: CrateDataType.Matrix3d, isArray: false },
+  matrix4d: { type: CrateDataType.Matrix4d, isArray: false },
+  frame4d: { type: CrateDataType.Matrix4d, isArray: false },
 };
 
 /** Tokens that are qualifiers, not type names. Order in the key doesn't matter. */
@@ -133,15 +177,16 @@ export function parsePropertyKey(rawKey: string): ParsedProperty {
     }
   }
   if (key.endsWith('.connect')) {
-    return { kind: 'unsupported', raw: rawKey, reason: 'attribute connection' };
+    return parseConnectionKey(rawKey, key.slice(0, -'.connect'.length));
   }
   // Built-in relationship name (USD's material-binding API).
   if (key === 'material:binding' || key.startsWith('material:binding:')) {
     return { kind: 'relationship', name: key };
   }
-  // Explicit `rel <name>` form.
-  if (key.startsWith('rel ')) {
-    const name = key.slice(4).trim();
+  // Explicit `rel <name>` / `custom rel <name>` form.
+  const rel = /^(?:custom )?rel /.exec(key);
+  if (rel) {
+    const name = key.slice(rel[0].length).trim();
     if (name.length === 0) {
       return { kind: 'unsupported', raw: rawKey, reason: 'rel key missing name' };
     }
@@ -151,9 +196,11 @@ export function parsePropertyKey(rawKey: string): ParsedProperty {
   // Tokenize on whitespace and pull qualifiers from the front.
   const tokens = key.split(/\s+/);
   let isUniform = false;
+  let isCustom = false;
   let cursor = 0;
   while (cursor < tokens.length && QUALIFIER_TOKENS.has(tokens[cursor])) {
     if (tokens[cursor] === 'uniform') isUniform = true;
+    if (tokens[cursor] === 'custom') isCustom = true;
     cursor++;
   }
 
@@ -188,8 +235,29 @@ export function parsePropertyKey(rawKey: string): ParsedProperty {
   return {
     kind: 'attribute',
     name,
+    typeName: typeToken,
     type: mapped.type,
     isArray,
     isUniform,
+    isCustom,
   };
 }
+
+/** `[qualifiers] [type] name.connect`; the type defaults to `token`. */
+function parseConnectionKey(rawKey: string, head: string): ParsedProperty {
+  const parsed = parsePropertyKey(/\s/.test(head.trim()) ? head : `token ${head}`);
+  if (parsed.kind !== 'attribute') {
+    return { kind: 'unsupported', raw: rawKey, reason: `attribute connection: ${parsed.kind === 'unsupported' ? parsed.reason : 'not an attribute'}` };
+  }
+  return { kind: 'connection', name: parsed.name, typeName: parsed.typeName, type: parsed.type, isArray: parsed.isArray };
+}
+
+/**
+ * Parse a bare USD type name (`float3`, `matrix4d[]`) into its
+ * CrateDataType, or `null` for names the encoder does not know.
+ */
+export function parseTypeName(typeName: string): { type: CrateDataType; isArray: boolean } | null {
+  const isArray = typeName.endsWith('[]');
+  const mapped = TYPE_MAP[isArray ? typeName.slice(0, -2) : typeName];
+  return mapped ? { type: mapped.type, isArray } : null;
+}
@@ -0,0 +1,218 @@
+/** WebUsdFramework.Converters.Shared.Usdc.TypedValues — encode the values
+ *  `UsdNode` properties carry into crate field values, given the declared
+ *  USD type.
+ *
+ * Converters store attribute values in whichever shape was convenient for
+ * the USDA serializer, so one `float3[]` may arrive as a `Float32Array`, a
+ * `number[]` or the literal `"[(0, 0, 0), (1, 1, 1)]"`. Every shape is
+ * accepted here:
+ *
+ *   - numeric types    typed arrays, `number[]` (nested or flat), numbers,
+ *                      booleans, or USDA literals (`"(1, 0, 0, 0)"`, `"inf"`)
+ *   - token / string   `string` (optionally `"quoted"`), `string[]`, or a
+ *     / asset          USDA list literal (`'["a", "b"]'`, `"[@a.png@]"`)
+ *   - dictionaries     plain objects (`customData`, `customLayerData`)
+ *   - `null` / `None`  a ValueBlock
+ *
+ * Quaternion literals are written real-first (`(w, x, y, z)`) and stored
+ * imaginary-first. Scalars that fit in the 48-bit ValueRep payload are
+ * inlined the way OpenUSD inlines them (`double` only when it survives a
+ * float round-trip); larger ones are written as external values.
+ *
+ * Shapes that do not fit the declared type return `null` so the adapter can
+ * report them instead of throwing.
+ */
+
+import { NUMERIC_LAYOUTS, encodeIndexArray, encodeNumericArray, encodeNumericScalar, floatToHalf } from './array-values';
+import { type CrateFieldValue, type DictionaryEntryInput, encodeDictionary } from './composite-values';
+import { parseUsdaNumbers, parseUsdaStringList, unquoteUsdaString } from './usda-value-parser';
+import { CrateDataType, encodeValueRep, inlineBool, inlineFloat, inlineInt, inlineToken } from './value-rep';
+
+/** Table interning the typed-value encoders need; `UsdcLayerBuilder` provides both. */
+export interface ValueInterner {
+  internToken(value: string): number;
+  internString(value: string): number;
+}
+
+/** Integer range per integral CrateDataType. */
+const INTEGER_RANGES: Partial<Record<CrateDataType, readonly [number, number]>> = {
+  [CrateDataType.UChar]: [0, 0xff],
+  [CrateDataType.Int]: [-0x80000000, 0x7fffffff],
+  [CrateDataType.UInt]: [0, 0xffffffff],
+  [CrateDataType.Int64]: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  [CrateDataType.UInt64]: [0, Number.MAX_SAFE_INTEGER],
+  [CrateDataType.Vec2i]: [-0x80000000, 0x7fffffff],
+  [CrateDataType.Vec3i]: [-0x80000000, 0x7fffffff],
+  [CrateDataType.Vec4i]: [-0x80000000, 0x7fffffff],
+};
+
+const QUATERNION_TYPES = new Set<CrateDataType>([CrateDataType.Quatd, CrateDataType.Quatf, CrateDataType.Quath]);
+
+/**
+ * Encode `value` as a `type` (or `type[]` when `isArray`) crate value.
+ *
+ * @returns the field value, or `null` when `value` has the wrong shape for
+ *   the type (wrong arity, non-numeric text, out-of-range integer, ...)
+ */
+export function encodeTypedValue(
+  type: CrateDataType,
+  isArray: boolean,
+  value: unknown,
+  interner: ValueInterner
+): CrateFieldValue | null {
+  if (value === null || value === 'None') {
+    return inline(CrateDataType.ValueBlock, 0n);
+  }
+  if (type === CrateDataType.Token || type === CrateDataType.String || type === CrateDataType.AssetPath) {
+    return isArray ? encodeNameArray(type, value, interner) : encodeName(type, value, interner);
+  }
+  if (type === CrateDataType.Dictionary) {
+    return isPlainObject(value) ? encodeDictionaryValue(value, interner) : null;
+  }
+
+  const layout = NUMERIC_LAYOUTS[type];
+  if (!layout) return null;
+  let numbers = coerceNumbers(value);
+  if (!numbers || !fitsIntegerRange(type, numbers)) return null;
+  if (isArray ? numbers.length % layout.components !== 0 : numbers.length !== layout.components) return null;
+  if (QUATERNION_TYPES.has(type)) numbers = realLastQuaternions(numbers);
+
+  if (isArray) return { kind: 'external', value: encodeNumericArray(type, numbers) };
+  return layout.components === 1
+    ? encodeNumber(type, numbers[0])
+    : { kind: 'external', value: encodeNumericScalar(type, numbers) };
+}
+
+/**
+ * Encode a plain object as a `VtDictionary`, typing entries from their JS
+ * values the way the USDA serializer does: strings → `string`, integers →
+ * `int`, other numbers → `double`, booleans → `bool`, objects → nested
+ * dictionaries, arrays → `string[]` / `double[]` / `bool[]`.
+ */
+export function encodeDictionaryValue(dict: Record<string, unknown>, interner: ValueInterner): CrateFieldValue | null {
+  const entries: DictionaryEntryInput[] = [];
+  for (const [key, entry] of Object.entries(dict)) {
+    const value = encodeDictionaryEntry(entry, interner);
+    if (!value) return null;
+    entries.push({ keyStringIndex: interner.internString(key), value });
+  }
+  return { kind: 'external', value: encodeDictionary(entries) };
+}
+
+function encodeDictionaryEntry(entry: unknown, interner: ValueInterner): CrateFieldValue | null {
+  if (typeof entry === 'string') return encodeName(CrateDataType.String, entry, interner);
+  if (typeof entry === 'boolean') return { kind: 'inline', rep: inlineBool(entry) };
+  if (typeof entry === 'number') {
+    return Number.isInteger(entry) && entry >= -0x80000000 && entry <= 0x7fffffff
+      ? { kind: 'inline', rep: inlineInt(entry) }
+      : encodeNumber(CrateDataType.Double, entry);
+  }
+  if (isPlainObject(entry)) return encodeDictionaryValue(entry, interner);
+  if (Array.isArray(entry)) {
+    if (entry.every((e) => typeof e === 'string')) return encodeNameArray(CrateDataType.String, entry, interner);
+    if (entry.every((e) => typeof e === 'boolean')) return encodeTypedValue(CrateDataType.Bool, true, entry, interner);
+    if (entry.every((e) => typeof e === 'number')) return encodeTypedValue(CrateDataType.Double, true, entry, interner);
+  }
+  return null;
+}
+
+function encodeName(type: CrateDataType, value: unknown, interner: ValueInterner): CrateFieldValue | null {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return null;
+  const text = unquoteUsdaString(String(value).trim());
+  if (type === CrateDataType.String) return inline(CrateDataType.String, BigInt(interner.internString(text)));
+  if (type === CrateDataType.AssetPath) return inline(CrateDataType.AssetPath, BigInt(interner.internToken(text)));
+  return { kind: 'inline', rep: inlineToken(interner.internToken(text)) };
+}
+
+function encodeNameArray(type: CrateDataType, value: unknown, interner: ValueInterner): CrateFieldValue | null {
+  let items: string[] | null = null;
+  if (typeof value === 'string') items = parseUsdaStringList(value);
+  else if (Array.isArray(value) && value.every((v) => typeof v === 'string')) items = value.map(unquoteUsdaString);
+  if (!items) return null;
+  const intern = type === CrateDataType.String
+    ? (s: string) => interner.internString(s)
+    : (s: string) => interner.internToken(s);
+  return { kind: 'external', value: encodeIndexArray(type, items.map(intern)) };
+}
+
+/** One-component numeric scalar: inlined unless it needs more than 32 bits. */
+function encodeNumber(type: CrateDataType, n: number): CrateFieldValue {
+  switch (type) {
+    case CrateDataType.Bool:
+      return { kind: 'inline', rep: inlineBool(n !== 0) };
+    case CrateDataType.UChar:
+    case CrateDataType.UInt:
+      return inline(type, BigInt(n >>> 0));
+    case CrateDataType.Int:
+      return { kind: 'inline', rep: inlineInt(n) };
+    case CrateDataType.Half:
+      return inline(type, BigInt(floatToHalf(n)));
+    case CrateDataType.Float:
+      return { kind: 'inline', rep: inlineFloat(n) };
+    case CrateDataType.Double:
+    case CrateDataType.TimeCode:
+      if (Number.isNaN(n) || Math.fround(n) === n) return inline(type, floatBits(n));
+      break;
+    default:
+      break;
+  }
+  return { kind: 'external', value: encodeNumericScalar(type, [n]) };
+}
+
+function inline(type: CrateDataType, payload: bigint): CrateFieldValue {
+  return { kind: 'inline', rep: encodeValueRep({ type, isArray: false, isInlined: true, isCompressed: false, payload }) };
+}
+
+function floatBits(n: number): bigint {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, n, true);
+  return BigInt(view.getUint32(0, true));
+}
+
+/**
+ * Flatten any supported numeric shape; `null` when an element is not
+ * numeric. Typed arrays are returned as-is.
+ */
+function coerceNumbers(value: unknown): ArrayLike<number> | null {
+  if (typeof value === 'number') return [value];
+  if (typeof value === 'boolean') return [value ? 1 : 0];
+  if (typeof value === 'string') return parseUsdaNumbers(value);
+  if (value instanceof BigInt64Array || value instanceof BigUint64Array) return Array.from(value, Number);
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) return value as unknown as ArrayLike<number>;
+  if (Array.isArray(value)) {
+    const out: number[] = [];
+    for (const item of value) {
+      const nested = coerceNumbers(item);
+      if (!nested) return null;
+      for (let i = 0; i < nested.length; i++) out.push(nested[i]);
+    }
+    return out;
+  }
+  return null;
+}
+
+function fitsIntegerRange(type: CrateDataType, numbers: ArrayLike<number>): boolean {
+  const range = INTEGER_RANGES[type];
+  if (!range) return true;
+  for (let i = 0; i < numbers.length; i++) {
+    const n = numbers[i];
+    if (!Number.isInteger(n) || n < range[0] || n > range[1]) return false;
+  }
+  return true;
+}
+
+/** `(w, x, y, z)` → `(x, y, z, w)` for every quaternion. */
+function realLastQuaternions(numbers: ArrayLike<number>): number[] {
+  const out = new Array<number>(numbers.length);
+  for (let i = 0; i < numbers.length; i += 4) {
+    out[i] = numbers[i + 1];
+    out[i + 1] = numbers[i + 2];
+    out[i + 2] = numbers[i + 3];
+    out[i + 3] = numbers[i];
+  }
+  return out;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+}
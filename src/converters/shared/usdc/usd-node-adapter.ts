@@ -5,24 +5,39 @@
  *
  * The converters today build USDA-shaped `UsdNode` trees and call
  * `serializeToUsda()` to produce text. With this adapter, the same tree can
- * be fed into `UsdcLayerBuilder` to produce equivalent binary bytes.
+ * be fed into `UsdcLayerBuilder` to produce equivalent binary bytes. It
+ * mirrors what the serializer writes:
  *
- * The adapter handles the property shapes the live converters actually emit
- * (point3f[] arrays, float scalars, token attributes, …). Anything outside
- * that subset (relationships, list-ops, connections, scalar Vec3f literals
- * stored as USDA strings) is marked `unsupported` so the caller can decide
- * whether to skip it or fall back to USDA output for the whole layer.
+ *   - the layer header (`customLayerData` with creator and XMP, `defaultPrim`,
+ *     `metersPerUnit`, `upAxis`, time codes) from the root's metadata
+ *   - prim specifiers (`over` / `class` type names), scalar prim metadata
+ *     (`kind`, `active`, ...), `customData` / `assetInfo` dictionaries
+ *   - typed attributes of every USD value type, including the bare keys the
+ *     serializer types itself (`xformOp:transform` → `matrix4d`), values
+ *     given as typed arrays or USDA literals, and time samples
+ *   - relationships, attribute connections, `apiSchemas` and `references`
+ *     list-ops, primvar `interpolation` / `elementSize`
+ *   - variant sets, variants (recursively) and variant selections
+ *
+ * Attributes whose declaration the reader recovers from the value alone
+ * (see `dialectDeclaration`) are stored as prim fields, the builder's
+ * compact form; everything else — connections, time samples, `custom`
+ * attributes, declarations without a value, type names the value does not
+ * imply — gets its own attribute spec.
+ *
+ * Anything that still cannot be encoded (e.g. inline `_usdContent` text or
+ * values of the wrong shape) is marked `emitted: false` so the caller can
+ * decide whether to skip it or fall back to USDA output for the whole layer.
  */
 
 import { UsdNode } from '../../../core/usd-node';
-import { UsdcLayerBuilder, type PrimHandle } from './layer-builder';
-import {
-  parsePropertyKey,
-  type ParsedProperty,
-  type ListOpOpcode,
-} from './property-parser';
-import { CrateDataType } from './value-rep';
-import { parseVec3fScalar, parseVec3fArray } from './usda-value-parser';
+import { UsdcLayerBuilder, type PrimHandle, type UsdcReference } from './layer-builder';
+import { dialectDeclaration } from './layer-reader';
+import { parsePropertyKey, parseTypeName, type ParsedProperty, type ListOpOpcode } from './property-parser';
+import { type CrateFieldValue } from './composite-values';
+import { encodeDictionaryValue, encodeTypedValue } from './typed-values';
+import { unquoteUsdaString } from './usda-value-parser';
+import { CrateDataType, SdfSpecifier, inlineBool, inlineInt, inlineToken } from './value-rep';
 
 /** What happened to one property as the adapter walked it. */
 export interface AdaptedProperty {
@@ -37,42 +52,102 @@ export interface AdaptedProperty {
 export interface AdaptationReport {
   /** Number of prims declared. */
   primCount: number;
-  /** Per-property outcomes (every property that was visited). */
+  /**
+   * Per-property outcomes (every property, time-sampled property and prim
+   * metadata entry that was visited).
+   */
   properties: AdaptedProperty[];
   /** Number of properties skipped (`reason` set). Convenience aggregate. */
   skipped: number;
 }
 
+type AttributeProperty = Extract<ParsedProperty, { kind: 'attribute' }>;
+
+/** Attributes the converters key without a type prefix, with the type the serializer writes. */
+const BARE_KEY_TYPES: Record<string, string> = {
+  'xformOp:transform': 'matrix4d',
+  'skel:geomBindTransform': 'matrix4d',
+  xformOpOrder: 'uniform token[]',
+};
+
+/** Layer-header metadata keys; on the root they are not prim metadata. */
+const HEADER_ONLY_METADATA = new Set([
+  'defaultPrim',
+  'upAxis',
+  'metersPerUnit',
+  'xmpMetadata',
+  'timeCodesPerSecond',
+  'framesPerSecond',
+  'startTimeCode',
+  'endTimeCode',
+]);
+
+/** Prim metadata the crate layer stores as fields, with their value types. */
+const PRIM_METADATA_TYPES: Record<string, CrateDataType> = {
+  kind: CrateDataType.Token,
+  active: CrateDataType.Bool,
+  hidden: CrateDataType.Bool,
+  instanceable: CrateDataType.Bool,
+  documentation: CrateDataType.String,
+  comment: CrateDataType.String,
+};
+
 /**
  * Encode `root` and every descendant into `builder`. The root must be an
  * `Xform`-typed prim (or compatible); the adapter declares it under the
- * pseudo-root and walks its children depth-first.
+ * pseudo-root and walks its children depth-first. The layer header comes
+ * from the root's metadata.
  *
- * Returns a report listing every property the walker saw and whether the
- * builder accepted it. Callers that need byte-for-byte parity with USDA
- * should treat any `report.skipped > 0` as a signal to fall back.
+ * @param siblings - Further root prims written after `root` (e.g. a
+ *   top-level `Materials` scope)
+ * @returns A report listing every property the walker saw and whether the
+ *   builder accepted it. Callers that need byte-for-byte parity with USDA
+ *   should treat any `report.skipped > 0` as a signal to fall back.
  */
-export function adaptUsdNodeTree(root: UsdNode, builder: UsdcLayerBuilder): AdaptationReport {
+export function adaptUsdNodeTree(
+  root: UsdNode,
+  builder: UsdcLayerBuilder,
+  siblings: ReadonlyArray<UsdNode> = []
+): AdaptationReport {
   const report: AdaptationReport = {
     primCount: 0,
     properties: [],
     skipped: 0,
   };
+  const record = (result: AdaptedProperty): void => {
+    if (!result.emitted) report.skipped++;
+    report.properties.push(result);
+  };
 
-  function visit(node: UsdNode): void {
-    const handle = builder.declarePrim(node.getPath(), node.getTypeName());
-    report.primCount++;
+  function visit(node: UsdNode, handle: PrimHandle, isVariant: boolean): void {
+    if (!isVariant) report.primCount++;
 
-    for (const prop of node.getProperties()) {
-      const result = applyProperty(builder, handle, prop.key, prop.value);
-      if (!result.emitted) report.skipped++;
-      report.properties.push(result);
+    for (const [key, value] of node.getMetadataEntries()) {
+      if (node === root && HEADER_ONLY_METADATA.has(key)) continue;
+      record(applyPrimMetadata(builder, handle, key, value));
     }
+    adaptProperties(builder, handle, node, record);
 
-    for (const child of node.getChildren()) visit(child);
+    for (const { name, variants } of node.getVariantSets()) {
+      for (const [variantName, variant] of variants) {
+        visit(variant, builder.declareVariant(handle, name, variantName), true);
+      }
+    }
+    for (const [setName, variantName] of node.getVariantSelections()) {
+      builder.setVariantSelection(handle, setName, variantName);
+    }
+
+    for (const child of node.getChildren()) {
+      const [typeName, specifier] = primDeclaration(child.getTypeName());
+      visit(child, builder.declareChildPrim(handle, child.getName(), typeName, specifier), false);
+    }
   }
 
-  visit(root);
+  applyLayerMetadata(builder, root);
+  for (const prim of [root, ...siblings]) {
+    const [typeName, specifier] = primDeclaration(prim.getTypeName());
+    visit(prim, builder.declarePrim(prim.getPath(), typeName, specifier), false);
+  }
   return report;
 }
 
@@ -80,183 +155,319 @@ export function adaptUsdNodeTree(root: UsdNode, builder: UsdcLayerBuilder): Adap
  * Apply a single property to the builder. Pure function — no I/O, no
  * exceptions on unsupported inputs (the unsupported case returns a
  * descriptive AdaptedProperty instead).
+ *
+ * @param type - The property's `UsdNode` type tag; types bare keys such as
+ *   `xformOp:translate` the way the serializer does
  */
 export function applyProperty(
   builder: UsdcLayerBuilder,
   prim: PrimHandle,
   key: string,
-  value: unknown
+  value: unknown,
+  type?: string
 ): AdaptedProperty {
-  const parsed = parsePropertyKey(key);
-  if (parsed.kind === 'unsupported') {
-    return { rawKey: key, emitted: false, reason: parsed.reason };
+  return applyPropertyTracked(builder, prim, key, value, type, new Map());
+}
+
+/**
+ * `applyProperty`, recording the type name of every attribute that became
+ * its own spec so primvar metadata can be attached to it afterwards.
+ */
+function applyPropertyTracked(
+  builder: UsdcLayerBuilder,
+  prim: PrimHandle,
+  key: string,
+  value: unknown,
+  type: string | undefined,
+  attributeSpecs: Map<string, string>
+): AdaptedProperty {
+  if (key === '_usdContent') {
+    return skipped(key, 'inline USDA content cannot be encoded');
   }
-  if (parsed.kind === 'list-op') {
-    return applyListOp(builder, prim, parsed.name, parsed.opcode, value, key);
+  if (key === 'customData' || key === 'assetInfo') {
+    const encoded = isPlainObject(value) ? encodeDictionaryValue(value, builder) : null;
+    if (!encoded) return skipped(key, `${key}: expected a dictionary of strings, numbers, booleans and arrays`);
+    builder.addField(prim, key, encoded);
+    return { rawKey: key, emitted: true };
   }
-  if (parsed.kind === 'relationship') {
-    return applyRelationship(builder, prim, parsed.name, value, key);
+
+  const parsed = parseDeclaredKey(key, type);
+  switch (parsed.kind) {
+    case 'unsupported':
+      return { rawKey: key, emitted: false, reason: parsed.reason };
+    case 'list-op':
+      return applyListOp(builder, prim, parsed.name, parsed.opcode, value, key);
+    case 'relationship':
+      return applyRelationship(builder, prim, parsed.name, value, key);
+    case 'connection':
+      return applyConnection(builder, prim, parsed, value, key, attributeSpecs);
+    default:
+      return applyAttribute(builder, prim, parsed, value, key, attributeSpecs);
+  }
+}
+
+/**
+ * Parse a property key, typing bare keys (`xformOp:transform`,
+ * `primvars:st:interpolation`, `inputs:file`, ...) from the key itself or
+ * the property's type tag.
+ */
+function parseDeclaredKey(key: string, type: string | undefined): ParsedProperty {
+  const parsed = parsePropertyKey(key);
+  if (parsed.kind !== 'unsupported' || /\s/.test(key.trim())) {
+    // The serializer writes `token inputs:varname` as a string attribute.
+    if (parsed.kind === 'attribute' && parsed.name === 'inputs:varname' && parsed.typeName === 'token') {
+      return { ...parsed, typeName: 'string', type: CrateDataType.String };
+    }
+    return parsed;
   }
-  return applyTypedAttribute(builder, prim, parsed, value, key);
+
+  let declared: string | undefined = BARE_KEY_TYPES[key];
+  if (!declared && (type === 'rel' || type === 'rel[]')) declared = 'rel';
+  else if (!declared && type === 'interpolation') declared = 'uniform token';
+  else if (!declared && type === 'elementSize') declared = 'int';
+  else if (!declared && type !== undefined && parseTypeName(type)) declared = type;
+  else if (!declared && key.includes('inputs:file')) declared = 'asset';
+  return declared ? parsePropertyKey(`${declared} ${key}`) : parsed;
 }
 
-function applyTypedAttribute(
+function applyAttribute(
   builder: UsdcLayerBuilder,
   prim: PrimHandle,
-  parsed: Extract<ParsedProperty, { kind: 'attribute' }>,
+  parsed: AttributeProperty,
   value: unknown,
-  rawKey: string
+  rawKey: string,
+  attributeSpecs: Map<string, string>
 ): AdaptedProperty {
-  const { name, type, isArray } = parsed;
-  if (isArray) {
-    return applyArrayAttribute(builder, prim, name, type, value, rawKey);
+  const { name, typeName, type, isArray, isUniform, isCustom } = parsed;
+  const qualifiers = { ...(isUniform ? { isUniform } : {}), ...(isCustom ? { isCustom } : {}) };
+
+  if (value === '' || value === undefined) {
+    // A declaration without a value (`token outputs:surface`), as the serializer writes it.
+    builder.addAttributeSpec(prim, name, { typeName, ...qualifiers });
+    attributeSpecs.set(name, typeName);
+    return { rawKey, emitted: true };
   }
-  return applyScalarAttribute(builder, prim, name, type, value, rawKey);
+
+  const encoded = encodeTypedValue(type, isArray, value, builder);
+  if (!encoded) return skipped(rawKey, `value does not match ${typeName}`);
+
+  const dialect = dialectDeclaration(name, type, isArray);
+  if (!isCustom && dialect && dialect.typeName === typeName && dialect.isUniform === isUniform) {
+    builder.addField(prim, name, encoded);
+  } else {
+    builder.addAttributeSpec(prim, name, { typeName, default: encoded, ...qualifiers });
+    attributeSpecs.set(name, typeName);
+  }
+  return { rawKey, emitted: true };
 }
 
-function applyScalarAttribute(
+/** `<type> <name>.connect = </Path.attr>` — an attribute spec with `connectionPaths`. */
+function applyConnection(
   builder: UsdcLayerBuilder,
   prim: PrimHandle,
-  name: string,
-  type: CrateDataType,
+  parsed: Extract<ParsedProperty, { kind: 'connection' }>,
   value: unknown,
-  rawKey: string
+  rawKey: string,
+  attributeSpecs: Map<string, string>
 ): AdaptedProperty {
-  switch (type) {
-    case CrateDataType.Float: {
-      const n = coerceFiniteNumber(value);
-      if (n === null) return skipped(rawKey, `non-numeric value for float scalar`);
-      builder.addFloatAttribute(prim, name, n);
-      return { rawKey, emitted: true };
-    }
-    case CrateDataType.Int: {
-      const n = coerceInteger(value);
-      if (n === null) return skipped(rawKey, `non-integer value for int scalar`);
-      builder.addIntAttribute(prim, name, n);
-      return { rawKey, emitted: true };
-    }
-    case CrateDataType.Token: {
-      // Token values are always interned as strings; an empty string is
-      // valid (e.g. `token outputs:surface`).
-      const s = typeof value === 'string' ? value : value == null ? '' : String(value);
-      builder.addTokenAttribute(prim, name, s);
-      return { rawKey, emitted: true };
+  const targets = coerceTargetPaths(value);
+  if (!targets || targets.length === 0) {
+    return skipped(rawKey, `connection "${parsed.name}": expected one or more source paths`);
+  }
+  for (const t of targets) {
+    if (!t.startsWith('/')) {
+      return skipped(rawKey, `connection "${parsed.name}" source "${t}" is not absolute`);
     }
-    case CrateDataType.Vec3f: {
-      // Two input shapes:
-      //   - USDA-formatted string `"(x, y, z)"` (color3f inputs:diffuseColor)
-      //   - typed Float32Array of length 3 (rare but cheap to support)
-      let triple: Float32Array | null = null;
-      if (typeof value === 'string') {
-        triple = parseVec3fScalar(value);
-      } else if (value instanceof Float32Array && value.length === 3) {
-        triple = value;
-      } else if (Array.isArray(value) && value.length === 3) {
-        triple = coerceFloat32Array(value);
-      }
-      if (!triple) return skipped(rawKey, 'Vec3f scalar expected (x,y,z) tuple');
-      builder.addVec3fAttribute(prim, name, triple[0], triple[1], triple[2]);
-      return { rawKey, emitted: true };
+  }
+  builder.addAttributeSpec(prim, parsed.name, { typeName: parsed.typeName, connectionPaths: targets });
+  attributeSpecs.set(parsed.name, parsed.typeName);
+  return { rawKey, emitted: true };
+}
+
+/**
+ * Properties, time samples and primvar metadata of one prim or variant.
+ * `interpolation` / `elementSize` are applied last so they can be attached
+ * to their attribute's spec when it has one.
+ */
+function adaptProperties(
+  builder: UsdcLayerBuilder,
+  prim: PrimHandle,
+  node: UsdNode,
+  record: (result: AdaptedProperty) => void
+): void {
+  const attributeSpecs = new Map<string, string>();
+  const primvarMetadata: Array<{ key: string; value: unknown; type: string | undefined }> = [];
+
+  for (const { key, value, type } of node.getProperties()) {
+    const name = key.trim().split(/\s+/).pop() ?? '';
+    if (type === 'interpolation' || type === 'elementSize' || name.endsWith(':interpolation') || name.endsWith(':elementSize')) {
+      primvarMetadata.push({ key, value, type });
+      continue;
     }
-    default:
-      return skipped(rawKey, `scalar type ${describeType(type)} not yet supported`);
+    record(applyPropertyTracked(builder, prim, key, value, type, attributeSpecs));
+  }
+
+  for (const { key, timeSamples, type } of node.getTimeSampledProperties()) {
+    record(applyTimeSamples(builder, prim, key, timeSamples, type, attributeSpecs));
+  }
+
+  for (const { key, value, type } of primvarMetadata) {
+    record(applyPrimvarMetadata(builder, prim, key, value, type, attributeSpecs));
   }
 }
 
-function applyArrayAttribute(
+/** `<attr>:interpolation` / `<attr>:elementSize`: spec metadata, or a prim field the reader maps back. */
+function applyPrimvarMetadata(
   builder: UsdcLayerBuilder,
   prim: PrimHandle,
-  name: string,
-  type: CrateDataType,
+  key: string,
   value: unknown,
-  rawKey: string
+  type: string | undefined,
+  attributeSpecs: Map<string, string>
 ): AdaptedProperty {
-  switch (type) {
-    case CrateDataType.Float: {
-      const arr = coerceFloat32Array(value);
-      if (!arr) return skipped(rawKey, 'float[] expected Float32Array or numeric array');
-      builder.addFloatArrayAttribute(prim, name, arr);
-      return { rawKey, emitted: true };
-    }
-    case CrateDataType.Vec3f: {
-      // Three input shapes for Vec3f[]:
-      //   - typed Float32Array (point3f[] points, color3f[] primvars:displayColor)
-      //   - plain number[] (typed-array refusing callers)
-      //   - USDA-formatted string `"[(...), (...)]"` (float3[] extent)
-      let arr: Float32Array | null = null;
-      if (typeof value === 'string') {
-        arr = parseVec3fArray(value);
-      } else {
-        arr = coerceFloat32Array(value);
-      }
-      if (!arr) return skipped(rawKey, 'Vec3f[] expected Float32Array, numeric array, or USDA literal');
-      if (arr.length % 3 !== 0) {
-        return skipped(rawKey, `Vec3f[] length ${arr.length} not a multiple of 3`);
-      }
-      builder.addVec3fArrayAttribute(prim, name, arr);
-      return { rawKey, emitted: true };
-    }
-    case CrateDataType.Int: {
-      const arr = coerceInt32Array(value);
-      if (!arr) return skipped(rawKey, 'int[] expected Int32Array or integer array');
-      builder.addIntArrayAttribute(prim, name, arr);
-      return { rawKey, emitted: true };
-    }
-    case CrateDataType.Token: {
-      const arr = coerceStringArray(value);
-      if (!arr) return skipped(rawKey, 'token[] expected string array');
-      builder.addTokenArrayAttribute(prim, name, arr);
-      return { rawKey, emitted: true };
-    }
-    default:
-      return skipped(rawKey, `array type ${describeType(type)} not yet supported`);
+  const name = key.trim().split(/\s+/).pop() ?? '';
+  const isInterpolation = name.endsWith(':interpolation') || (type === 'interpolation' && !name.endsWith(':elementSize'));
+  const suffix = isInterpolation ? ':interpolation' : ':elementSize';
+  if (!name.endsWith(suffix)) {
+    return applyProperty(builder, prim, key, value, type);
+  }
+  const attribute = name.slice(0, -suffix.length);
+  const typeName = attributeSpecs.get(attribute);
+
+  if (isInterpolation) {
+    if (typeof value !== 'string' || value.length === 0) return skipped(key, 'interpolation: expected a token');
+    const interpolation = unquoteUsdaString(value);
+    if (typeName) builder.addAttributeSpec(prim, attribute, { typeName, interpolation });
+    else builder.addField(prim, name, { kind: 'inline', rep: inlineToken(builder.internToken(interpolation)) });
+    return { rawKey: key, emitted: true };
+  }
+
+  const elementSize = typeof value === 'string' ? Number(value) : value;
+  if (typeof elementSize !== 'number' || !Number.isInteger(elementSize) || elementSize < 1 || elementSize > 0x7fffffff) {
+    return skipped(key, 'elementSize: expected a positive integer');
   }
+  if (typeName) builder.addAttributeSpec(prim, attribute, { typeName, elementSize });
+  else builder.addField(prim, name, { kind: 'inline', rep: inlineInt(elementSize) });
+  return { rawKey: key, emitted: true };
 }
 
-function coerceFiniteNumber(value: unknown): number | null {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  if (typeof value === 'string') {
-    const n = Number(value);
-    if (Number.isFinite(n)) return n;
+/**
+ * A time-sampled property. The key is completed with its type the way the
+ * serializer does; a single sample is written as the default value.
+ */
+function applyTimeSamples(
+  builder: UsdcLayerBuilder,
+  prim: PrimHandle,
+  key: string,
+  timeSamples: ReadonlyMap<number, string>,
+  type: string,
+  attributeSpecs: Map<string, string>
+): AdaptedProperty {
+  const rawKey = `${key}.timeSamples`;
+  const declaredKey = key.startsWith(type + ' ') || key === type ? key : `${type} ${key}`;
+  const parsed = parsePropertyKey(declaredKey);
+  if (parsed.kind !== 'attribute') {
+    return skipped(rawKey, parsed.kind === 'unsupported' ? parsed.reason : `time samples on a ${parsed.kind}`);
   }
-  return null;
+  if (timeSamples.size === 0) return { rawKey, emitted: true };
+  if (timeSamples.size === 1) {
+    const [value] = timeSamples.values();
+    const result = applyAttribute(builder, prim, parsed, value, rawKey, attributeSpecs);
+    return result;
+  }
+
+  const samples: Array<readonly [number, CrateFieldValue]> = [];
+  for (const [time, literal] of timeSamples) {
+    const encoded = encodeTypedValue(parsed.type, parsed.isArray, literal, builder);
+    if (!encoded) return skipped(rawKey, `sample at ${time} does not match ${parsed.typeName}`);
+    samples.push([time, encoded]);
+  }
+  builder.addAttributeSpec(prim, parsed.name, {
+    typeName: parsed.typeName,
+    timeSamples: samples,
+    ...(parsed.isUniform ? { isUniform: true } : {}),
+    ...(parsed.isCustom ? { isCustom: true } : {}),
+  });
+  attributeSpecs.set(parsed.name, parsed.typeName);
+  return { rawKey, emitted: true };
 }
 
-function coerceInteger(value: unknown): number | null {
-  const n = coerceFiniteNumber(value);
-  if (n === null) return null;
-  if (!Number.isInteger(n)) return null;
-  return n;
+/** A `UsdNode.setMetadata` entry on a prim or variant. */
+function applyPrimMetadata(builder: UsdcLayerBuilder, prim: PrimHandle, key: string, value: unknown): AdaptedProperty {
+  const type = PRIM_METADATA_TYPES[key];
+  if (type === undefined) return skipped(key, `prim metadata "${key}" has no crate field`);
+  const encoded = encodeTypedValue(type, false, value, builder);
+  if (!encoded) return skipped(key, `prim metadata "${key}": unexpected value`);
+  builder.addField(prim, key, encoded);
+  return { rawKey: key, emitted: true };
 }
 
-function coerceFloat32Array(value: unknown): Float32Array | null {
-  if (value instanceof Float32Array) return value;
-  if (Array.isArray(value)) {
-    // Reject if any element isn't a finite number.
-    const out = new Float32Array(value.length);
-    for (let i = 0; i < value.length; i++) {
-      const v = value[i];
-      if (typeof v !== 'number' || !Number.isFinite(v)) return null;
-      out[i] = v;
-    }
-    return out;
+/**
+ * The layer header `serializeToUsda()` writes, from the root's metadata:
+ * `customLayerData` (creator, XMP), `defaultPrim`, `metersPerUnit`,
+ * `upAxis`, and the time codes with `autoPlay` / `playbackMode` when all
+ * four are set.
+ */
+function applyLayerMetadata(builder: UsdcLayerBuilder, root: UsdNode): void {
+  const metadata = new Map(root.getMetadataEntries());
+  const token = (value: unknown): CrateFieldValue => ({ kind: 'inline', rep: inlineToken(builder.internToken(String(value))) });
+  const double = (value: unknown): CrateFieldValue | null => encodeTypedValue(CrateDataType.Double, false, value, builder);
+
+  const customLayerData: Record<string, unknown> = { creator: 'WebUSD Framework' };
+  const xmp = (metadata.get('xmpMetadata') as { xmp?: { context?: Record<string, unknown>; properties?: Record<string, unknown> } } | undefined)?.xmp;
+  if (xmp) customLayerData.xmp = xmpDictionary(xmp);
+  const layerData = encodeDictionaryValue(customLayerData, builder);
+  if (layerData) builder.setLayerMetadata('customLayerData', layerData);
+
+  builder.setLayerMetadata('defaultPrim', token(metadata.get('defaultPrim') || 'Root'));
+  const metersPerUnit = double(metadata.get('metersPerUnit') ?? 1);
+  if (metersPerUnit) builder.setLayerMetadata('metersPerUnit', metersPerUnit);
+  builder.setLayerMetadata('upAxis', token(metadata.get('upAxis') ?? 'Y'));
+
+  const timeCodeKeys = ['timeCodesPerSecond', 'framesPerSecond', 'startTimeCode', 'endTimeCode'];
+  if (timeCodeKeys.every((key) => metadata.get(key) !== undefined)) {
+    builder.setLayerMetadata('autoPlay', { kind: 'inline', rep: inlineBool(true) });
+    builder.setLayerMetadata('playbackMode', token('loop'));
+  }
+  for (const key of timeCodeKeys) {
+    const value = metadata.get(key);
+    const encoded = value === undefined ? null : double(value);
+    if (encoded) builder.setLayerMetadata(key, encoded);
   }
-  return null;
 }
 
-function coerceInt32Array(value: unknown): Int32Array | null {
-  if (value instanceof Int32Array) return value;
-  if (value instanceof Uint32Array) return new Int32Array(value);
-  if (Array.isArray(value)) {
-    const out = new Int32Array(value.length);
-    for (let i = 0; i < value.length; i++) {
-      const v = value[i];
-      if (typeof v !== 'number' || !Number.isInteger(v)) return null;
-      out[i] = v | 0;
-    }
-    return out;
+/** The `customLayerData.xmp` dictionary, typed as the serializer writes it. */
+function xmpDictionary(xmp: { context?: Record<string, unknown>; properties?: Record<string, unknown> }): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  if (xmp.context && Object.keys(xmp.context).length > 0) {
+    out.context = Object.fromEntries(
+      Object.entries(xmp.context).map(([term, definition]) => [term, typeof definition === 'string' ? definition : JSON.stringify(definition)])
+    );
   }
-  return null;
+  if (xmp.properties && Object.keys(xmp.properties).length > 0) {
+    out.properties = Object.fromEntries(
+      Object.entries(xmp.properties).map(([name, value]) => [
+        name,
+        typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : JSON.stringify(value),
+      ])
+    );
+  }
+  return out;
+}
+
+/** Type name and specifier of a `UsdNode` type name (`Mesh`, `over`, `class Xform`). */
+function primDeclaration(typeName: string): [string, SdfSpecifier] {
+  const match = /^(over|class)(?: (.+))?$/.exec(typeName);
+  if (!match) return [typeName, SdfSpecifier.Def];
+  return [match[2] ?? '', match[1] === 'over' ? SdfSpecifier.Over : SdfSpecifier.Class];
+}
+
+function skipped(rawKey: string, reason: string): AdaptedProperty {
+  return { rawKey, emitted: false, reason };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
 }
 
 function coerceStringArray(value: unknown): string[] | null {
@@ -267,29 +478,6 @@ function coerceStringArray(value: unknown): string[] | null {
   return null;
 }
 
-function skipped(rawKey: string, reason: string): AdaptedProperty {
-  return { rawKey, emitted: false, reason };
-}
-
-/**
- * The set of list-op field names whose elements are tokens (TokenListOp).
- * Other element types (PathListOp for `references`, ReferenceListOp, etc.)
- * are not yet wired up — those are routed to `unsupported` until their
- * value encoders land.
- */
-const TOKEN_LIST_OP_NAMES = new Set([
-  'apiSchemas',
-]);
-
-/**
- * Dispatch a list-op key (`prepend apiSchemas`, `append xxx`, ...) to the
- * appropriate layer-builder method.
- *
- * The element type is inferred from the field name. We currently only emit
- * TokenListOp values (the only list-op shape our converters produce). Other
- * shapes (PathListOp / ReferenceListOp / etc.) fall into the unsupported
- * bucket so the packager can fall back to USDA cleanly.
- */
 /**
  * Dispatch a relationship key (`material:binding`, `rel xxx`, ...) to the
  * layer-builder's `addRelationship`.
@@ -327,7 +515,13 @@ function applyRelationship(
 
 function coerceTargetPaths(value: unknown): string[] | null {
   if (typeof value === 'string') {
-    const stripped = stripPathLiteral(value);
+    const trimmed = value.trim();
+    // `[</A>, </B>]` list literal
+    if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+      const inner = trimmed.slice(1, -1).trim();
+      return inner.length === 0 ? [] : coerceTargetPaths(inner.split(','));
+    }
+    const stripped = stripPathLiteral(trimmed);
     return stripped.length > 0 ? [stripped] : null;
   }
   if (Array.isArray(value)) {
@@ -343,13 +537,19 @@ function coerceTargetPaths(value: unknown): string[] | null {
   return null;
 }
 
-/** Strip optional `<...>` USDA brackets from a path literal. */
+/** Strip optional `<...>` USDA brackets (and serializer quotes) from a path literal. */
 function stripPathLiteral(s: string): string {
-  const t = s.trim();
+  const t = unquoteUsdaString(s.trim());
   if (t.startsWith('<') && t.endsWith('>')) return t.slice(1, -1).trim();
   return t;
 }
 
+/**
+ * Dispatch a list-op key (`prepend apiSchemas`, `prepend references`, ...)
+ * to the appropriate layer-builder method. The element type is inferred
+ * from the field name: `apiSchemas` is a TokenListOp, `references` a
+ * ReferenceListOp. Other list-op fields are reported as unsupported.
+ */
 function applyListOp(
   builder: UsdcLayerBuilder,
   prim: PrimHandle,
@@ -358,8 +558,11 @@ function applyListOp(
   value: unknown,
   rawKey: string
 ): AdaptedProperty {
-  if (!TOKEN_LIST_OP_NAMES.has(name)) {
-    return skipped(rawKey, `list-op for "${name}" is not yet a TokenListOp shape`);
+  if (name === 'references') {
+    return applyReferences(builder, prim, opcode, value, rawKey);
+  }
+  if (name !== 'apiSchemas') {
+    return skipped(rawKey, `list-op for "${name}" is not supported`);
   }
   const tokens = coerceStringArray(value);
   if (!tokens) {
@@ -369,12 +572,38 @@ function applyListOp(
   return { rawKey, emitted: true };
 }
 
-/** Find the CrateDataType name corresponding to a numeric value, for error messages. */
-function describeType(type: CrateDataType): string {
-  for (const [name, v] of Object.entries(CrateDataType)) {
-    if (v === type) return name;
+const REFERENCE_LITERAL = /(@[^@]*@)?\s*(<[^>]*>)?/g;
+
+/**
+ * `prepend references = @asset.usd@</Prim>` — the value is one reference
+ * literal, a `[...]` list of them, or an array of literals.
+ */
+function applyReferences(
+  builder: UsdcLayerBuilder,
+  prim: PrimHandle,
+  opcode: ListOpOpcode,
+  value: unknown,
+  rawKey: string
+): AdaptedProperty {
+  if (opcode === 'added' || opcode === 'ordered') {
+    return skipped(rawKey, `${opcode} references are not supported`);
+  }
+  const literals = typeof value === 'string' ? [value] : coerceStringArray(value);
+  if (!literals) return skipped(rawKey, 'references: expected reference literals');
+
+  const references: UsdcReference[] = [];
+  for (const literal of literals) {
+    for (const match of literal.matchAll(REFERENCE_LITERAL)) {
+      if (!match[1] && !match[2]) continue;
+      references.push({
+        assetPath: match[1] ? match[1].slice(1, -1) : '',
+        ...(match[2] ? { primPath: match[2].slice(1, -1) } : {}),
+      });
+    }
   }
-  return String(type);
+  if (references.length === 0) return skipped(rawKey, 'references: no reference literal found');
+  builder.addReferences(prim, { [opcode]: references });
+  return { rawKey, emitted: true };
 }
 
 /**
@@ -384,11 +613,11 @@ function describeType(type: CrateDataType): string {
  * `report.skipped` to decide whether the resulting bytes are a faithful
  * representation of the source tree.
  */
-export function encodeUsdNodeTreeToUsdc(root: UsdNode): {
+export function encodeUsdNodeTreeToUsdc(root: UsdNode, siblings: ReadonlyArray<UsdNode> = []): {
   bytes: Uint8Array;
   report: AdaptationReport;
 } {
   const builder = new UsdcLayerBuilder();
-  const report = adaptUsdNodeTree(root, builder);
+  const report = adaptUsdNodeTree(root, builder, siblings);
   return { bytes: builder.serialize(), report };
 }
@@ -100,3 +100,78 @@ export function parseVec3fArray(input: string): Float32Array | null {
   }
   return Float32Array.from(flat);
 }
+
+const NUMBER_LITERAL = /[-+]?(?:inf|nan|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)|true|false/y;
+
+/**
+ * Flatten every number in a USDA scalar, tuple or array literal, whatever
+ * its nesting: `"[( (1, 0), (0, 1) )]"` → `[1, 0, 0, 1]`. `inf` / `nan`
+ * and `true` / `false` (as 1 / 0) are accepted.
+ *
+ * Returns `null` on anything that is not a number, bracket or separator.
+ */
+export function parseUsdaNumbers(input: string): number[] | null {
+  const out: number[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === ' ' || ch === ',' || ch === '(' || ch === ')' || ch === '[' || ch === ']' || ch === '\n' || ch === '\t' || ch === '\r') {
+      i++;
+      continue;
+    }
+    NUMBER_LITERAL.lastIndex = i;
+    const match = NUMBER_LITERAL.exec(input);
+    if (!match) return null;
+    const text = match[0];
+    if (text === 'true' || text === 'false') out.push(text === 'true' ? 1 : 0);
+    else if (text.endsWith('inf')) out.push(text.startsWith('-') ? -Infinity : Infinity);
+    else if (text.endsWith('nan')) out.push(NaN);
+    else out.push(Number(text));
+    i = NUMBER_LITERAL.lastIndex;
+  }
+  return out;
+}
+
+const LIST_ITEM = /"(?:[^"\\]|\\.)*"|'[^']*'|@[^@]*@|[^\s,[\]"'@]+/y;
+
+/**
+ * Parse a USDA token / string / asset array literal, e.g.
+ * `'["a", "b"]'` or `'[@tex.png@]'`, into its unquoted items.
+ */
+export function parseUsdaStringList(input: string): string[] | null {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) return null;
+  const inner = trimmed.slice(1, -1);
+  const out: string[] = [];
+  let i = 0;
+  while (i < inner.length) {
+    const ch = inner[i];
+    if (ch === ' ' || ch === ',' || ch === '\n' || ch === '\t' || ch === '\r') {
+      i++;
+      continue;
+    }
+    LIST_ITEM.lastIndex = i;
+    const match = LIST_ITEM.exec(inner);
+    if (!match) return null;
+    out.push(unquoteUsdaString(match[0]));
+    i = LIST_ITEM.lastIndex;
+  }
+  return out;
+}
+
+/** Strip one level of `"..."`, `'...'` or `@...@` quoting from a USDA literal. */
+export function unquoteUsdaString(text: string): string {
+  if (text.length >= 2) {
+    const first = text[0];
+    const last = text[text.length - 1];
+    if (first === '"' && last === '"') {
+      try {
+        return JSON.parse(text) as string;
+      } catch {
+        return text.slice(1, -1);
+      }
+    }
+    if ((first === "'" && last === "'") || (first === '@' && last === '@')) return text.slice(1, -1);
+  }
+  return text;
+}
@@ -0,0 +1,533 @@
+/** WebUsdFramework.Converters.Shared.Usdc.ValueReader — resolves the
+ *  ValueReps referenced by the FIELDS section back into JavaScript values.
+ *
+ * The reader is the decoding counterpart of `value-rep.ts`,
+ * `array-values.ts` and `listop-values.ts`. It needs the fully-decoded
+ * TOKENS / STRINGS / PATHS tables (indices inside values point into them)
+ * plus the raw file bytes (external values live at absolute offsets).
+ *
+ * Decoded shapes:
+ *
+ *   - Bool / numeric scalars          → `boolean` / `number`
+ *   - Vec / Quat / Matrix scalars     → `number[]` in wire order
+ *                                        (quaternions are `[i, j, k, real]`)
+ *   - float / half / Vec*f / Vec*h[]  → flat `Float32Array`
+ *   - double / Vec*d / Matrix*d[]     → flat `Float64Array`
+ *   - int / Vec*i[]                   → flat `Int32Array`
+ *   - Token / String / AssetPath      → `string` (or `string[]` for arrays)
+ *   - *Vector (Token, String, Path)   → `string[]`
+ *   - *ListOp                         → `CrateListOp`
+ *   - ReferenceListOp                 → `CrateListOp` of USDA reference
+ *                                        literals (`@a.usd@</Prim>`)
+ *   - Dictionary                      → `CrateDictionary` (recursive)
+ *   - TimeSamples                     → `CrateTimeSamples` (time → value)
+ *   - ValueBlock                      → `null`
+ *
+ * Array payloads follow the layout written by `array-values.ts` (count +
+ * optional LZ4 envelope). Uncompressed arrays written by OpenUSD share that
+ * layout; OpenUSD's integer/float-specific array compression is not
+ * recognised and surfaces as a RangeError.
+ *
+ * Recursive values (dictionary entries, time-sample tables) use OpenUSD's
+ * layout: an int64 jump, relative to the jump's own position, to the
+ * ValueRep that describes the nested value.
+ *
+ * Reference: `pxr/usd/usd/crateFile.cpp` — `_UnpackValue` / `_ReadValue`.
+ */
+
+import { NUMERIC_LAYOUTS, SCALAR_BYTES, decodeArrayHeader, type NumericLayout } from './array-values';
+import { decodeReferenceListOp, decodeTokenListOp } from './listop-values';
+import { CrateDataType, decodeValueRep, type ValueRepFields } from './value-rep';
+
+/** A decoded SdfListOp whose items have been resolved to their element values. */
+export interface CrateListOp<T = string | number> {
+  isExplicit: boolean;
+  explicit?: T[];
+  added?: T[];
+  deleted?: T[];
+  ordered?: T[];
+  prepended?: T[];
+  appended?: T[];
+}
+
+/** A decoded VtDictionary. */
+export interface CrateDictionary {
+  [key: string]: CrateValue;
+}
+
+/** A decoded time-sample table: time code → value at that time. */
+export type CrateTimeSamples = Map<number, CrateValue>;
+
+/** Any value the reader can produce. */
+export type CrateValue =
+  | null
+  | boolean
+  | number
+  | string
+  | number[]
+  | boolean[]
+  | string[]
+  | Float32Array
+  | Float64Array
+  | Int32Array
+  | Uint32Array
+  | Uint8Array
+  | CrateListOp
+  | CrateDictionary
+  | CrateTimeSamples;
+
+/** Result of resolving one ValueRep. */
+export interface DecodedCrateValue {
+  type: CrateDataType;
+  isArray: boolean;
+  value: CrateValue;
+}
+
+/** Tables a ValueRep's indices resolve against. */
+export interface CrateValueTables {
+  tokens: ReadonlyArray<string>;
+  /** STRINGS table already resolved through TOKENS. */
+  strings: ReadonlyArray<string>;
+  /** Full path string per PathIndex (e.g. `/Root/Mesh.points`). */
+  paths: ReadonlyArray<string>;
+}
+
+const MATRIX_DIMENSIONS: Partial<Record<CrateDataType, number>> = {
+  [CrateDataType.Matrix2d]: 2,
+  [CrateDataType.Matrix3d]: 3,
+  [CrateDataType.Matrix4d]: 4,
+};
+
+/** Nesting guard for dictionaries / time samples pointing at each other. */
+const MAX_RECURSION_DEPTH = 64;
+
+/**
+ * Resolves ValueReps against one layer's bytes and tables. Construct once
+ * per layer; `read` is safe to call any number of times.
+ */
+export class CrateValueReader {
+  private readonly view: DataView;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    private readonly tables: CrateValueTables
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Decode a single ValueRep.
+   *
+   * @throws RangeError if the value is malformed, references an index
+   *   outside its table, or uses a type the reader does not understand.
+   */
+  read(valueRep: bigint): DecodedCrateValue {
+    return this.readAt(valueRep, 0);
+  }
+
+  private readAt(valueRep: bigint, depth: number): DecodedCrateValue {
+    if (depth > MAX_RECURSION_DEPTH) {
+      throw new RangeError('CrateValueReader: value nesting too deep');
+    }
+    const rep = decodeValueRep(valueRep);
+    const value = rep.isInlined ? this.readInlined(rep) : this.readExternal(rep, depth);
+    return { type: rep.type, isArray: rep.isArray, value };
+  }
+
+  private readInlined(rep: ValueRepFields): CrateValue {
+    const payload = rep.payload;
+    const low32 = Number(payload & 0xffffffffn);
+    switch (rep.type) {
+      case CrateDataType.Bool:
+        return payload !== 0n;
+      case CrateDataType.UChar:
+        return low32 & 0xff;
+      case CrateDataType.Int:
+        return low32 | 0;
+      case CrateDataType.UInt:
+      case CrateDataType.Specifier:
+      case CrateDataType.Permission:
+      case CrateDataType.Variability:
+        return low32;
+      case CrateDataType.Int64:
+      case CrateDataType.UInt64:
+        return Number(payload);
+      case CrateDataType.Half:
+        return halfToFloat(low32 & 0xffff);
+      case CrateDataType.Float:
+      case CrateDataType.Double:
+      case CrateDataType.TimeCode:
+        // Doubles are only inlined when they survive a float round-trip.
+        return bitsToFloat(low32);
+      case CrateDataType.Token:
+      case CrateDataType.AssetPath:
+        return this.token(low32);
+      case CrateDataType.String:
+        return this.string(low32);
+      case CrateDataType.Dictionary:
+        return {};
+      case CrateDataType.ValueBlock:
+        return null;
+      default:
+        break;
+    }
+
+    // Small Vec / Matrix values are inlined as one int8 per component
+    // (matrices: diagonal only, off-diagonal entries are zero).
+    const layout = NUMERIC_LAYOUTS[rep.type];
+    if (layout) {
+      const dim = MATRIX_DIMENSIONS[rep.type];
+      const count = dim ?? layout.components;
+      const ints: number[] = new Array(count);
+      for (let i = 0; i < count; i++) {
+        ints[i] = ((low32 >>> (i * 8)) << 24) >> 24;
+      }
+      if (dim === undefined) return ints;
+      const matrix = new Array<number>(dim * dim).fill(0);
+      for (let i = 0; i < dim; i++) matrix[i * dim + i] = ints[i];
+      return matrix;
+    }
+    throw new RangeError(`CrateValueReader: cannot decode inlined ${describeCrateType(rep.type)}`);
+  }
+
+  private readExternal(rep: ValueRepFields, depth: number): CrateValue {
+    const offset = Number(rep.payload);
+    if (offset < 0 || offset >= this.bytes.length) {
+      throw new RangeError(`CrateValueReader: value offset ${offset} is outside the file`);
+    }
+
+    switch (rep.type) {
+      case CrateDataType.Token:
+      case CrateDataType.AssetPath:
+        if (rep.isArray) {
+          return Array.from(this.readIndexArray(offset, rep.isCompressed), (i) => this.token(i));
+        }
+        return this.token(this.view.getUint32(offset, true));
+      case CrateDataType.String:
+        if (rep.isArray) {
+          return Array.from(this.readIndexArray(offset, rep.isCompressed), (i) => this.string(i));
+        }
+        return this.string(this.view.getUint32(offset, true));
+      case CrateDataType.TokenVector:
+        return this.readVector(offset, (i) => this.token(i));
+      case CrateDataType.StringVector:
+        return this.readVector(offset, (i) => this.string(i));
+      case CrateDataType.PathVector:
+        return this.readVector(offset, (i) => this.path(i));
+      case CrateDataType.DoubleVector: {
+        const count = this.u64(offset);
+        this.assertRange(offset + 8, count * 8);
+        const out = new Float64Array(count);
+        for (let i = 0; i < count; i++) out[i] = this.view.getFloat64(offset + 8 + i * 8, true);
+        return out;
+      }
+      case CrateDataType.TokenListOp:
+        return this.readIndexListOp(offset, (i) => this.token(i));
+      case CrateDataType.StringListOp:
+        return this.readIndexListOp(offset, (i) => this.string(i));
+      case CrateDataType.PathListOp:
+        return this.readIndexListOp(offset, (i) => this.path(i));
+      case CrateDataType.IntListOp:
+        return this.readIndexListOp(offset, (i) => i | 0);
+      case CrateDataType.UIntListOp:
+        return this.readIndexListOp(offset, (i) => i);
+      case CrateDataType.ReferenceListOp:
+        return this.readReferenceListOp(offset);
+      case CrateDataType.Dictionary:
+        return this.readDictionary(offset, depth);
+      case CrateDataType.VariantSelectionMap:
+        return this.readVariantSelectionMap(offset);
+      case CrateDataType.TimeSamples:
+        return this.readTimeSamples(offset, depth);
+      case CrateDataType.ValueBlock:
+        return null;
+      default:
+        break;
+    }
+
+    const layout = NUMERIC_LAYOUTS[rep.type];
+    if (!layout) {
+      throw new RangeError(`CrateValueReader: cannot decode external ${describeCrateType(rep.type)}`);
+    }
+    const elementSize = SCALAR_BYTES[layout.kind] * layout.components;
+
+    if (rep.isArray) {
+      const { count, elementBytes } = decodeArrayHeader(this.bytes, offset, rep.isCompressed);
+      if (elementBytes.length < count * elementSize) {
+        throw new RangeError(
+          `CrateValueReader: ${describeCrateType(rep.type)}[] payload truncated (${count} elements)`
+        );
+      }
+      return decodeNumericElements(elementBytes, layout, count, true);
+    }
+
+    // External scalars written by `array-values.ts` carry a count prefix of
+    // 1; OpenUSD writes the raw element. A leading uint64 of exactly 1 is
+    // only ever a denormal float pattern in the latter case.
+    let start = offset;
+    if (offset + 8 + elementSize <= this.bytes.length && this.view.getBigUint64(offset, true) === 1n) {
+      start = offset + 8;
+    }
+    this.assertRange(start, elementSize);
+    return decodeNumericElements(this.bytes.subarray(start, start + elementSize), layout, 1, false);
+  }
+
+  /** uint32 index array (Token[] / String[] / AssetPath[]), optionally LZ4-compressed. */
+  private readIndexArray(offset: number, isCompressed: boolean): Uint32Array {
+    const { count, elementBytes } = decodeArrayHeader(this.bytes, offset, isCompressed);
+    if (elementBytes.length < count * 4) {
+      throw new RangeError(`CrateValueReader: index array truncated (${count} elements)`);
+    }
+    const view = new DataView(elementBytes.buffer, elementBytes.byteOffset, count * 4);
+    const out = new Uint32Array(count);
+    for (let i = 0; i < count; i++) out[i] = view.getUint32(i * 4, true);
+    return out;
+  }
+
+  /** `std::vector<Index>` — uint64 count followed by uint32 indices. */
+  private readVector(offset: number, resolve: (index: number) => string): string[] {
+    const count = this.u64(offset);
+    this.assertRange(offset + 8, count * 4);
+    const out: string[] = new Array(count);
+    for (let i = 0; i < count; i++) out[i] = resolve(this.view.getUint32(offset + 8 + i * 4, true));
+    return out;
+  }
+
+  private readIndexListOp<T extends string | number>(
+    offset: number,
+    resolve: (index: number) => T
+  ): CrateListOp<T> {
+    const raw = decodeTokenListOp(this.bytes.subarray(offset));
+    const out: CrateListOp<T> = { isExplicit: raw.isExplicit === true };
+    if (raw.explicit) out.explicit = raw.explicit.map(resolve);
+    if (raw.added) out.added = raw.added.map(resolve);
+    if (raw.deleted) out.deleted = raw.deleted.map(resolve);
+    if (raw.ordered) out.ordered = raw.ordered.map(resolve);
+    if (raw.prepended) out.prepended = raw.prepended.map(resolve);
+    if (raw.appended) out.appended = raw.appended.map(resolve);
+    return out;
+  }
+
+  /** Items become USDA literals; the pseudo-root prim path means "default prim". */
+  private readReferenceListOp(offset: number): CrateListOp<string> {
+    const raw = decodeReferenceListOp(this.bytes.subarray(offset));
+    const format = (ref: { assetPathStringIndex: number; primPathIndex: number }): string => {
+      const asset = this.string(ref.assetPathStringIndex);
+      const primPath = this.path(ref.primPathIndex);
+      const target = primPath === '/' ? '' : `<${primPath}>`;
+      return asset ? `@${asset}@${target}` : target;
+    };
+    const out: CrateListOp<string> = { isExplicit: raw.isExplicit === true };
+    if (raw.explicit) out.explicit = raw.explicit.map(format);
+    if (raw.added) out.added = raw.added.map(format);
+    if (raw.deleted) out.deleted = raw.deleted.map(format);
+    if (raw.ordered) out.ordered = raw.ordered.map(format);
+    if (raw.prepended) out.prepended = raw.prepended.map(format);
+    if (raw.appended) out.appended = raw.appended.map(format);
+    return out;
+  }
+
+  /** uint64 count, then per entry: uint32 StringIndex key + recursive value. */
+  private readDictionary(offset: number, depth: number): CrateDictionary {
+    const count = this.u64(offset);
+    const out: CrateDictionary = {};
+    let cursor = offset + 8;
+    for (let i = 0; i < count; i++) {
+      this.assertRange(cursor, 4);
+      const key = this.string(this.view.getUint32(cursor, true));
+      const repAt = this.followJump(cursor + 4);
+      out[key] = this.readAt(this.view.getBigUint64(repAt, true), depth + 1).value;
+      cursor = repAt + 8;
+    }
+    return out;
+  }
+
+  /** uint64 count, then per entry: uint32 StringIndex variant set + uint32 StringIndex selection. */
+  private readVariantSelectionMap(offset: number): CrateDictionary {
+    const count = this.u64(offset);
+    this.assertRange(offset + 8, count * 8);
+    const out: CrateDictionary = {};
+    for (let i = 0; i < count; i++) {
+      const at = offset + 8 + i * 8;
+      out[this.string(this.view.getUint32(at, true))] = this.string(this.view.getUint32(at + 4, true));
+    }
+    return out;
+  }
+
+  /**
+   * A jump to the times (a DoubleVector ValueRep), followed by a second jump
+   * to `uint64 numValues` + one ValueRep per sample.
+   */
+  private readTimeSamples(offset: number, depth: number): CrateTimeSamples {
+    const timesAt = this.followJump(offset);
+    const times = this.readAt(this.view.getBigUint64(timesAt, true), depth + 1).value;
+    if (!(times instanceof Float64Array)) {
+      throw new RangeError('CrateValueReader: time-sample times are not a DoubleVector');
+    }
+    const valuesAt = this.followJump(timesAt + 8);
+    const count = this.u64(valuesAt);
+    if (count !== times.length) {
+      throw new RangeError(
+        `CrateValueReader: ${times.length} sample times but ${count} sample values`
+      );
+    }
+    this.assertRange(valuesAt + 8, count * 8);
+    const out: CrateTimeSamples = new Map();
+    for (let i = 0; i < count; i++) {
+      const rep = this.view.getBigUint64(valuesAt + 8 + i * 8, true);
+      out.set(times[i], this.readAt(rep, depth + 1).value);
+    }
+    return out;
+  }
+
+  /**
+   * Follow an int64 jump stored at `offset` (relative to the jump's own
+   * position) and return the absolute position it lands on. The target
+   * always holds at least one uint64.
+   */
+  private followJump(offset: number): number {
+    this.assertRange(offset, 8);
+    const target = offset + Number(this.view.getBigInt64(offset, true));
+    this.assertRange(target, 8);
+    return target;
+  }
+
+  private u64(offset: number): number {
+    this.assertRange(offset, 8);
+    return Number(this.view.getBigUint64(offset, true));
+  }
+
+  private assertRange(offset: number, length: number): void {
+    if (offset < 0 || length < 0 || offset + length > this.bytes.length) {
+      throw new RangeError(
+        `CrateValueReader: read of ${length} bytes at ${offset} is outside the file`
+      );
+    }
+  }
+
+  private token(index: number): string {
+    const t = this.tables.tokens[index];
+    if (t === undefined) throw new RangeError(`CrateValueReader: TokenIndex ${index} out of range`);
+    return t;
+  }
+
+  private string(index: number): string {
+    const s = this.tables.strings[index];
+    if (s === undefined) throw new RangeError(`CrateValueReader: StringIndex ${index} out of range`);
+    return s;
+  }
+
+  private path(index: number): string {
+    const p = this.tables.paths[index];
+    if (p === undefined) throw new RangeError(`CrateValueReader: PathIndex ${index} out of range`);
+    return p;
+  }
+}
+
+function decodeNumericElements(
+  src: Uint8Array,
+  layout: NumericLayout,
+  count: number,
+  asArray: boolean
+): CrateValue {
+  const n = count * layout.components;
+  const view = new DataView(src.buffer, src.byteOffset, src.byteLength);
+  const size = SCALAR_BYTES[layout.kind];
+
+  let out: Float32Array | Float64Array | Int32Array | Uint32Array | number[];
+  switch (layout.kind) {
+    case 'f32': {
+      const a = new Float32Array(n);
+      for (let i = 0; i < n; i++) a[i] = view.getFloat32(i * size, true);
+      out = a;
+      break;
+    }
+    case 'f16': {
+      const a = new Float32Array(n);
+      for (let i = 0; i < n; i++) a[i] = halfToFloat(view.getUint16(i * size, true));
+      out = a;
+      break;
+    }
+    case 'f64': {
+      const a = new Float64Array(n);
+      for (let i = 0; i < n; i++) a[i] = view.getFloat64(i * size, true);
+      out = a;
+      break;
+    }
+    case 'i32': {
+      const a = new Int32Array(n);
+      for (let i = 0; i < n; i++) a[i] = view.getInt32(i * size, true);
+      out = a;
+      break;
+    }
+    case 'u32': {
+      const a = new Uint32Array(n);
+      for (let i = 0; i < n; i++) a[i] = view.getUint32(i * size, true);
+      out = a;
+      break;
+    }
+    case 'i64':
+    case 'u64': {
+      const a: number[] = new Array(n);
+      for (let i = 0; i < n; i++) {
+        a[i] = Number(layout.kind === 'i64' ? view.getBigInt64(i * size, true) : view.getBigUint64(i * size, true));
+      }
+      out = a;
+      break;
+    }
+    case 'bool': {
+      const a: boolean[] = new Array(n);
+      for (let i = 0; i < n; i++) a[i] = src[i] !== 0;
+      return asArray ? a : a[0];
+    }
+    case 'u8': {
+      const a = src.slice(0, n);
+      return asArray ? a : a[0];
+    }
+  }
+
+  if (asArray) return out;
+  const scalars = Array.from(out);
+  if (layout.kind === 'f32' || layout.kind === 'f16') {
+    for (let i = 0; i < scalars.length; i++) scalars[i] = shortestFloat32(scalars[i]);
+  }
+  return layout.components === 1 ? scalars[0] : scalars;
+}
+
+function bitsToFloat(bits: number): number {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint32(0, bits, true);
+  return shortestFloat32(view.getFloat32(0, true));
+}
+
+/**
+ * The shortest decimal that rounds to the same float32 as `x` — so a stored
+ * `0.6f` reads back as `0.6` rather than `0.6000000238418579`.
+ */
+export function shortestFloat32(x: number): number {
+  if (!Number.isFinite(x) || Number.isInteger(x)) return x;
+  const target = Math.fround(x);
+  for (let precision = 1; precision < 9; precision++) {
+    const candidate = Number(x.toPrecision(precision));
+    if (Math.fround(candidate) === target) return candidate;
+  }
+  return x;
+}
+
+/** IEEE-754 binary16 → number. */
+function halfToFloat(h: number): number {
+  const sign = h & 0x8000 ? -1 : 1;
+  const exponent = (h >> 10) & 0x1f;
+  const fraction = h & 0x3ff;
+  if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+/** Find the CrateDataType name corresponding to a numeric value, for error messages. */
+export function describeCrateType(type: CrateDataType): string {
+  for (const [name, v] of Object.entries(CrateDataType)) {
+    if (v === type) return name;
+  }
+  return String(type);
+}
@@ -26,9 +26,9 @@
  */
 
 /**
- * Subset of the CrateDataType enum from OpenUSD that our converters
- * actually emit. The numeric values are stable wire-format identifiers and
- * MUST match Apple's reader.
+ * Subset of the CrateDataType enum from OpenUSD that our converters emit
+ * or the layer reader decodes. The numeric values are stable wire-format
+ * identifiers and MUST match Apple's reader.
  */
 export const CrateDataType = {
   Invalid: 0,
@@ -44,6 +44,9 @@ export const CrateDataType = {
   String: 10,
   Token: 11,
   AssetPath: 12,
+  Matrix2d: 13,
+  Matrix3d: 14,
+  Matrix4d: 15,
   Quatd: 16,
   Quatf: 17,
   Quath: 18,
@@ -51,6 +51,13 @@ export interface StreamingUsdzOptions {
    * Defaults to `true`.
    */
   alignTo64Bytes?: boolean;
+  /**
+   * Stop writing when aborted. The write rejects with the signal's
+   * `reason`; `writeUsdzToFile` also removes the partial file.
+   */
+  signal?: AbortSignal;
+  /** Called with the running byte count after each file and at the end. */
+  onBytesWritten?: (bytesWritten: number) => void;
 }
 
 export interface StreamingUsdzResult {
@@ -247,6 +254,7 @@ export async function writeUsdzToStream(
   let totalBytes = 0;
 
   for (let i = 0; i < files.length; i++) {
+    options.signal?.throwIfAborted();
     const file = files[i];
     const validatedName = FileNameSchema.parse(file.name);
     const nameBytes = TEXT_ENCODER.encode(validatedName);
@@ -276,9 +284,11 @@ export async function writeUsdzToStream(
     totalBytes += header.length;
 
     for (const chunk of chunks) {
+      options.signal?.throwIfAborted();
       await writeChunk(output, chunk);
       totalBytes += chunk.length;
     }
+    options.onBytesWritten?.(totalBytes);
 
     cdEntries.push({
       name: validatedName,
@@ -292,6 +302,8 @@ export async function writeUsdzToStream(
     });
   }
 
+  options.signal?.throwIfAborted();
+
   // Padding before central directory.
   if (alignTo64Bytes) {
     const aligned =
@@ -328,6 +340,7 @@ export async function writeUsdzToStream(
   );
   await writeChunk(output, eocd);
   totalBytes += eocd.length;
+  options.onBytesWritten?.(totalBytes);
 
   return { totalBytes, fileCount: cdEntries.length };
 }
@@ -338,7 +351,8 @@ export async function writeUsdzToStream(
  *
  * On success returns the total bytes written and file count.
  * On failure the partial output file is left for the caller to inspect or
- * delete; the underlying stream is destroyed.
+ * delete; the underlying stream is destroyed. An aborted write removes the
+ * partial file.
  */
 export async function writeUsdzToFile(
   files: ReadonlyArray<StreamingUsdzFile>,
@@ -354,6 +368,12 @@ export async function writeUsdzToFile(
     return result;
   } catch (err) {
     stream.destroy();
+    if (options?.signal?.aborted) {
+      if (!stream.closed) {
+        await new Promise<void>(resolve => stream.once('close', () => resolve()));
+      }
+      await fs.promises.rm(filePath, { force: true });
+    }
     throw err;
   }
 }
@@ -0,0 +1,145 @@
+/** WebUsdFramework.Converters.Shared.UsdzZipReader - Central-directory reader for USDZ (and plain zip) archives */
+
+import { inflateRawSync } from 'node:zlib';
+import { ZIP_CONSTANTS } from '../../constants';
+import { UsdErrorFactory } from '../../errors';
+
+/** Zip compression method for DEFLATE (not allowed in USDZ, but accepted on read). */
+const COMPRESSION_DEFLATE = 8;
+
+/**
+ * One file inside the archive, as described by its central-directory record.
+ */
+export interface UsdzZipEntry {
+  /** Path inside the archive, e.g. `model.usdc` or `textures/Texture_0.png`. */
+  name: string;
+  compressionMethod: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** Offset of the entry's local file header. */
+  localHeaderOffset: number;
+  /** Offset of the entry's first data byte (after the local header and extra field). */
+  dataOffset: number;
+}
+
+/**
+ * Reads an in-memory zip archive through its central directory.
+ * Stored entries are returned as zero-copy views; DEFLATE entries are inflated.
+ */
+export class UsdzZipReader {
+  readonly entries: ReadonlyArray<UsdzZipEntry>;
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder();
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.entries = this.readCentralDirectory();
+  }
+
+  /**
+   * Find an entry by its archive path
+   */
+  getEntry(name: string): UsdzZipEntry | undefined {
+    return this.entries.find(e => e.name === name);
+  }
+
+  /**
+   * Read an entry's uncompressed contents
+   */
+  readFile(entry: UsdzZipEntry | string): Uint8Array {
+    const resolved = typeof entry === 'string' ? this.getEntry(entry) : entry;
+    if (!resolved) {
+      throw UsdErrorFactory.conversionError(`Archive entry not found: ${String(entry)}`, 'usdz_read');
+    }
+
+    const data = this.bytes.subarray(resolved.dataOffset, resolved.dataOffset + resolved.compressedSize);
+    if (resolved.compressionMethod === ZIP_CONSTANTS.COMPRESSION_STORE) {
+      return data;
+    }
+    if (resolved.compressionMethod === COMPRESSION_DEFLATE) {
+      return new Uint8Array(inflateRawSync(data));
+    }
+    throw UsdErrorFactory.conversionError(
+      `Unsupported zip compression method ${resolved.compressionMethod} for ${resolved.name}`,
+      'usdz_read',
+      { entry: resolved.name, compressionMethod: resolved.compressionMethod }
+    );
+  }
+
+  private readCentralDirectory(): UsdzZipEntry[] {
+    const eocdOffset = this.findEndOfCentralDirectory();
+    const entryCount = this.view.getUint16(eocdOffset + 10, true);
+    let cursor = this.view.getUint32(eocdOffset + 16, true);
+
+    const entries: UsdzZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+      this.ensureAvailable(cursor, ZIP_CONSTANTS.CENTRAL_DIRECTORY_HEADER_SIZE);
+      if (this.view.getUint32(cursor, true) !== ZIP_CONSTANTS.CENTRAL_DIRECTORY_SIGNATURE) {
+        throw UsdErrorFactory.conversionError(`Corrupt zip central directory at offset ${cursor}`, 'usdz_read');
+      }
+
+      const compressionMethod = this.view.getUint16(cursor + 10, true);
+      const crc32 = this.view.getUint32(cursor + 16, true);
+      const compressedSize = this.view.getUint32(cursor + 20, true);
+      const uncompressedSize = this.view.getUint32(cursor + 24, true);
+      const nameLength = this.view.getUint16(cursor + 28, true);
+      const extraLength = this.view.getUint16(cursor + 30, true);
+      const commentLength = this.view.getUint16(cursor + 32, true);
+      const localHeaderOffset = this.view.getUint32(cursor + 42, true);
+
+      const nameStart = cursor + ZIP_CONSTANTS.CENTRAL_DIRECTORY_HEADER_SIZE;
+      this.ensureAvailable(nameStart, nameLength);
+      const name = this.decoder.decode(this.bytes.subarray(nameStart, nameStart + nameLength));
+
+      // The local header's name/extra lengths may differ from the central
+      // record's (USDZ writers pad the local extra field for alignment).
+      this.ensureAvailable(localHeaderOffset, ZIP_CONSTANTS.LOCAL_FILE_HEADER_SIZE);
+      if (this.view.getUint32(localHeaderOffset, true) !== ZIP_CONSTANTS.LOCAL_FILE_HEADER_SIGNATURE) {
+        throw UsdErrorFactory.conversionError(`Corrupt zip local header for ${name}`, 'usdz_read');
+      }
+      const localNameLength = this.view.getUint16(localHeaderOffset + 26, true);
+      const localExtraLength = this.view.getUint16(localHeaderOffset + 28, true);
+      const dataOffset = localHeaderOffset + ZIP_CONSTANTS.LOCAL_FILE_HEADER_SIZE + localNameLength + localExtraLength;
+      this.ensureAvailable(dataOffset, compressedSize);
+
+      entries.push({
+        name,
+        compressionMethod,
+        crc32,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        dataOffset,
+      });
+
+      cursor = nameStart + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+
+  /**
+   * Scan backwards for the end-of-central-directory record (it may be
+   * followed by an archive comment of up to 64 KiB).
+   */
+  private findEndOfCentralDirectory(): number {
+    const minOffset = Math.max(0, this.bytes.length - ZIP_CONSTANTS.END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+    for (let offset = this.bytes.length - ZIP_CONSTANTS.END_OF_CENTRAL_DIRECTORY_SIZE; offset >= minOffset; offset--) {
+      if (this.view.getUint32(offset, true) === ZIP_CONSTANTS.END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        return offset;
+      }
+    }
+    throw UsdErrorFactory.conversionError('Not a zip archive: end of central directory not found', 'usdz_read');
+  }
+
+  private ensureAvailable(offset: number, length: number): void {
+    if (offset < 0 || offset + length > this.bytes.length) {
+      throw UsdErrorFactory.conversionError(
+        `Truncated zip archive (need ${length} bytes at offset ${offset}, have ${this.bytes.length})`,
+        'usdz_read'
+      );
+    }
+  }
+}
@@ -10,6 +10,7 @@ import {
   type ZipFileInfo
 } from '../../schemas/zip-writer';
 import { ZIP_CONSTANTS } from '../../constants';
+import { logger } from '../../utils/logger';
 
 /**
  * ZIP writer that creates archives with 64-byte aligned file data.
@@ -32,7 +33,7 @@ export class UsdzZipWriter {
 
     // Enforce no compression for optimal performance
     if (this.compressionLevel !== ZIP_CONSTANTS.COMPRESSION_STORE) {
-      console.warn('[UsdzZipWriter] Compression is not supported for optimal performance; ignoring compressionLevel');
+      logger.warn('[UsdzZipWriter] Compression is not supported for optimal performance; ignoring compressionLevel');
       this.compressionLevel = ZIP_CONSTANTS.COMPRESSION_STORE;
     }
 
@@ -1,8 +1,8 @@
 /** WebUsdFramework.Converters.Stl.StlConverter - Main orchestration class for ASCII/Binary STL to USDZ */
 
 import { StlConverterConfig } from '../../schemas';
-import { LoggerFactory } from '../../utils';
-import { parseStl, parseStlFile, StlMeshData } from './stl-parser';
+import { LoggerFactory, sanitizeName } from '../../utils';
+import { parseStl, parseStlFile, StlMeshData, StlSolid } from './stl-parser';
 import { createRootStructure } from '../shared/usd-root-builder';
 import {
   createUsdzPackage,
@@ -11,15 +11,20 @@ import {
   ConvertOptions,
   UsdzStreamResult
 } from '../shared/usd-packaging';
+import { ConversionProgressTracker } from '../shared/conversion-progress';
 import {
   writeDebugOutput,
   DebugOutputContent
 } from '../shared/debug-writer';
 import { UsdNode } from '../../core/usd-node';
+import { simplifyMesh, remapVertexAttribute, resolveDecimationTarget, computeBounds, type SimplifyAttribute } from '../shared/mesh-simplifier';
 import { USD_PROPERTIES, USD_PROPERTY_TYPES } from '../../constants/usd';
 import { isDirectory, findStlFiles, getBasenameWithoutExt } from '../../utils/file-utils';
 import * as fs from 'fs';
 
+/** Stages in the order a conversion runs them, for progress events */
+const PROGRESS_STAGES = ['conversion_start', 'stl_parsing', 'geometry_building', 'material_binding', 'usdz_packaging', 'conversion_complete'];
+
 // Default configuration
 const DEFAULT_CONFIG: Required<StlConverterConfig> = {
   debug: false,
@@ -28,22 +33,25 @@ const DEFAULT_CONFIG: Required<StlConverterConfig> = {
   metersPerUnit: 1,
   optimizeMesh: false,
   defaultColor: [0.7, 0.7, 0.7], // Light gray
-  autoComputeNormals: true
+  autoComputeNormals: true,
+  maxColorMaterials: 16,
+  decimateTarget: 0,
+  decimateRatio: 1
 };
 
 /**
  * Merge duplicate vertices in STL mesh data
  * STL files often have duplicate vertices - each triangle stores 3 verts independently
  * This function deduplicates them to massively reduce file size
+ * Facet colors stay per face, so they are not merged here
  */
 function mergeStlVertices(meshData: StlMeshData): {
   points: Float32Array;
   faceVertexIndices: Int32Array;
   normals: Float32Array;
-  colors?: Float32Array | undefined;
   uniqueVertexCount: number;
 } {
-  const { vertices, normals, colors, triangleCount } = meshData;
+  const { vertices, normals, triangleCount } = meshData;
 
   // Map to track unique vertices: "x,y,z" -> index
   const vertexMap = new Map<string, number>();
@@ -52,14 +60,12 @@ function mergeStlVertices(meshData: StlMeshData): {
 
   // Per-vertex normals (will average normals for shared vertices)
   const vertexNormals = new Map<number, number[]>();
-  const vertexColors = colors ? new Map<number, number[]>() : undefined;
 
   let uniqueIndex = 0;
 
   // Process each triangle
   for (let t = 0; t < triangleCount; t++) {
     const faceNormalIdx = t * 3;
-    const faceColorIdx = t * 3;
 
     // Process each vertex of the triangle
     for (let v = 0; v < 3; v++) {
@@ -85,15 +91,6 @@ function mergeStlVertices(meshData: StlMeshData): {
           normals[faceNormalIdx + 1],
           normals[faceNormalIdx + 2]
         ]);
-
-        // Initialize color if available
-        if (colors && vertexColors) {
-          vertexColors.set(index, [
-            colors[faceColorIdx],
-            colors[faceColorIdx + 1],
-            colors[faceColorIdx + 2]
-          ]);
-        }
       } else {
         // Vertex already exists - accumulate normal for averaging
         const existingNormal = vertexNormals.get(index)!;
@@ -118,37 +115,56 @@ function mergeStlVertices(meshData: StlMeshData): {
     finalNormals[i * 3 + 2] = normal[2] * scale;
   }
 
-  // Build final color array if needed
-  let finalColors: Float32Array | undefined;
-  if (vertexColors) {
-    finalColors = new Float32Array(uniqueIndex * 3);
-    for (let i = 0; i < uniqueIndex; i++) {
-      const color = vertexColors.get(i)!;
-      finalColors[i * 3] = color[0];
-      finalColors[i * 3 + 1] = color[1];
-      finalColors[i * 3 + 2] = color[2];
-    }
-  }
-
   return {
     points: new Float32Array(uniquePoints),
     faceVertexIndices: new Int32Array(faceIndices),
     normals: finalNormals,
-    colors: finalColors,
     uniqueVertexCount: uniqueIndex
   };
 }
 
+/**
+ * Decimation face group per triangle: one group per distinct facet color
+ */
+function facetColorGroups(faceColors: Float32Array): Float64Array {
+  const groups = new Float64Array(faceColors.length / 3);
+  const channel = (value: number) => Math.round(value * 0xffff);
+  for (let t = 0; t < groups.length; t++) {
+    groups[t] = channel(faceColors[t * 3]) * 2 ** 32 + channel(faceColors[t * 3 + 1]) * 2 ** 16 + channel(faceColors[t * 3 + 2]);
+  }
+  return groups;
+}
+
+/**
+ * Triangles `[offset, offset + count)` of a mesh as mesh data of their own
+ */
+function sliceStlMesh(meshData: StlMeshData, solid: StlSolid): StlMeshData {
+  const start = solid.triangleOffset;
+  const end = start + solid.triangleCount;
+  const vertices = meshData.vertices.slice(start * 9, end * 9);
+  return {
+    vertices,
+    normals: meshData.normals.slice(start * 3, end * 3),
+    colors: meshData.colors?.slice(start * 3, end * 3),
+    triangleCount: solid.triangleCount,
+    solids: [{ ...solid, triangleOffset: 0 }],
+    format: meshData.format,
+    bounds: computeBounds(vertices)
+  };
+}
+
 /**
  * Convert STL mesh data to USD geometry (optimized for large meshes)
  * Stores TypedArrays directly to avoid memory overhead
+ * Returns the facet colors of the written triangles, if any
  */
 function convertStlMeshToUsdGeometry(
   meshData: StlMeshData,
   meshNode: UsdNode,
-  logger: any
-): void {
-  const { triangleCount } = meshData;
+  logger: any,
+  decimateTarget: number
+): Float32Array | undefined {
+  let { triangleCount } = meshData;
   const originalVertexCount = meshData.vertices.length / 3;
 
   // CRITICAL FIX: Deduplicate vertices to reduce file size
@@ -157,7 +173,7 @@ function convertStlMeshToUsdGeometry(
     triangleCount
   });
 
-  const merged = mergeStlVertices(meshData);
+  let merged = mergeStlVertices(meshData);
   const reductionPercent = ((1 - merged.uniqueVertexCount / originalVertexCount) * 100).toFixed(1);
 
   logger.info('Vertex deduplication complete', {
@@ -167,6 +183,41 @@ function convertStlMeshToUsdGeometry(
     reductionPercent: `${reductionPercent}%`
   });
 
+  let bounds = meshData.bounds;
+  let faceColors = meshData.colors ? new Float32Array(meshData.colors) : undefined;
+  if (decimateTarget > 0) {
+    logger.info('Starting mesh decimation', {
+      stage: 'decimation',
+      targetFaces: decimateTarget,
+      inputVertices: merged.uniqueVertexCount,
+      inputFaces: triangleCount
+    });
+
+    const attributes: SimplifyAttribute[] = [{ values: merged.normals, size: 3, weight: 0.5 }];
+    // Facet colors are per triangle; keep the borders between colors
+    const simplified = simplifyMesh(merged.points, merged.faceVertexIndices, {
+      targetFaceCount: decimateTarget,
+      attributes,
+      ...(faceColors ? { faceGroups: facetColorGroups(faceColors) } : {})
+    });
+    const remap = simplified.vertexRemap;
+    merged = {
+      points: remapVertexAttribute(merged.points, 3, remap),
+      faceVertexIndices: new Int32Array(simplified.indices),
+      normals: remapVertexAttribute(merged.normals, 3, remap),
+      uniqueVertexCount: simplified.vertexCount
+    };
+    if (faceColors) faceColors = remapVertexAttribute(faceColors, 3, simplified.faceRemap);
+    triangleCount = simplified.faceCount;
+    bounds = computeBounds(merged.points);
+
+    logger.info('Mesh decimation complete', {
+      stage: 'decimation',
+      outputVertices: simplified.vertexCount,
+      outputFaces: simplified.faceCount
+    });
+  }
+
   // Store deduplicated geometry
   meshNode.setProperty('point3f[] points', merged.points);
   meshNode.setProperty('int[] faceVertexIndices', merged.faceVertexIndices);
@@ -180,17 +231,13 @@ function convertStlMeshToUsdGeometry(
   meshNode.setProperty('normal3f[] normals', merged.normals);
   meshNode.setProperty('uniform token primvars:normals:interpolation', 'vertex', 'raw');
 
-  // Vertex colors if available
-  if (merged.colors) {
-    meshNode.setProperty('color3f[] primvars:displayColor', merged.colors);
-    meshNode.setProperty('uniform token primvars:displayColor:interpolation', 'vertex', 'raw');
-  }
-
   // Extent (bounding box)
-  const { min, max } = meshData.bounds;
+  const { min, max } = bounds;
   const formatFloat = (n: number): string => n.toFixed(6);
   const extentStr = `[(${formatFloat(min.x)}, ${formatFloat(min.y)}, ${formatFloat(min.z)}), (${formatFloat(max.x)}, ${formatFloat(max.y)}, ${formatFloat(max.z)})]`;
   meshNode.setProperty('float3[] extent', extentStr, 'raw');
+
+  return faceColors;
 }
 
 /**
@@ -231,29 +278,109 @@ function createBasicMaterial(
   return materialNode;
 }
 
+/**
+ * Bind a material to a mesh prim or GeomSubset
+ */
+function bindMaterial(node: UsdNode, materialPath: string): void {
+  node.setProperty(
+    USD_PROPERTIES.PREPEND_API_SCHEMAS,
+    [USD_PROPERTIES.MATERIAL_BINDING_API],
+    USD_PROPERTY_TYPES.STRING_ARRAY
+  );
+  node.setProperty(
+    USD_PROPERTIES.MATERIAL_BINDING,
+    `<${materialPath}>`,
+    USD_PROPERTY_TYPES.REL
+  );
+}
+
+/**
+ * Bind facet colors to a mesh. Up to `maxColorMaterials` distinct colors each
+ * get a `StlColor_RRGGBB` material on a `materialBind` GeomSubset (one color
+ * binds the mesh directly). With more colors, the colors are written as
+ * uniform `displayColor` and false is returned, leaving the binding to the
+ * caller. Color materials are created once in `materialsNode` and reused
+ * across meshes.
+ */
+function bindFacetColors(
+  meshNode: UsdNode,
+  faceColors: Float32Array,
+  materialsNode: UsdNode,
+  maxColorMaterials: number
+): boolean {
+  const faceGroups = new Map<string, { color: [number, number, number]; faces: number[] }>();
+  for (let face = 0; face < faceColors.length / 3; face++) {
+    const color = [0, 1, 2].map(c => Math.round(faceColors[face * 3 + c] * 1e6) / 1e6) as [number, number, number];
+    const key = color.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+    let group = faceGroups.get(key);
+    if (!group) {
+      group = { color, faces: [] };
+      faceGroups.set(key, group);
+    }
+    group.faces.push(face);
+  }
+
+  if (faceGroups.size > maxColorMaterials) {
+    meshNode.setProperty('color3f[] primvars:displayColor', faceColors);
+    meshNode.setProperty('uniform token primvars:displayColor:interpolation', 'uniform', 'raw');
+    return false;
+  }
+
+  const existing = new Set([...materialsNode.getChildren()].map(child => child.getName()));
+  for (const [key, { color, faces }] of faceGroups) {
+    const materialName = `StlColor_${key}`;
+    const materialPath = `${materialsNode.getPath()}/${materialName}`;
+    if (!existing.has(materialName)) {
+      materialsNode.addChild(createBasicMaterial(materialPath, color, false));
+      existing.add(materialName);
+    }
+
+    if (faceGroups.size === 1) {
+      bindMaterial(meshNode, materialPath);
+      return true;
+    }
+
+    const subset = new UsdNode(`${meshNode.getPath()}/${materialName}`, 'GeomSubset');
+    subset.setProperty('uniform token familyName', 'materialBind');
+    subset.setProperty('uniform token elementType', 'face');
+    subset.setProperty('int[] indices', Int32Array.from(faces));
+    bindMaterial(subset, materialPath);
+    meshNode.addChild(subset);
+  }
+  return true;
+}
+
 /**
  * Main STL to USDZ conversion function
  */
 export function convertStlToUsdz(
   input: ArrayBuffer | string,
-  config?: Partial<StlConverterConfig>
+  config?: Partial<StlConverterConfig>,
+  options?: ConvertOptions & { outputPath?: undefined }
 ): Promise<Blob>;
 export function convertStlToUsdz(
   input: ArrayBuffer | string,
   config: Partial<StlConverterConfig> | undefined,
   options: ConvertOptions & { outputPath: string }
 ): Promise<UsdzStreamResult>;
+export function convertStlToUsdz(
+  input: ArrayBuffer | string,
+  config?: Partial<StlConverterConfig>,
+  options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult>;
 export async function convertStlToUsdz(
   input: ArrayBuffer | string,
   config?: Partial<StlConverterConfig>,
   options?: ConvertOptions
 ): Promise<Blob | UsdzStreamResult> {
   const logger = LoggerFactory.forConversion();
+  const progress = new ConversionProgressTracker(PROGRESS_STAGES, options);
 
   try {
     // Merge config with defaults
     const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
+    progress.enterStage('conversion_start');
     logger.info('Starting STL to USDZ conversion', {
       stage: 'conversion_start',
       inputType: typeof input === 'string' ? 'stl_file' : 'stl_buffer',
@@ -291,6 +418,7 @@ export async function convertStlToUsdz(
 
       // Process each STL file as a separate conversion
       for (const stlPath of stlFiles) {
+        progress.throwIfAborted();
         const baseName = getBasenameWithoutExt(stlPath);
 
         logger.info(`Converting ${baseName}.stl`, {
@@ -302,7 +430,7 @@ export async function convertStlToUsdz(
         const usdzBlob = await convertStlToUsdz(stlPath, {
           ...config,
           debug: false // Disable debug for individual files to reduce output
-        });
+        }, options?.signal ? { signal: options.signal } : undefined);
 
         // Save to output directory with original filename
         const outputPath = `${outputDir}/${baseName}.usdz`;
@@ -336,6 +464,7 @@ export async function convertStlToUsdz(
     }
 
     // Parse all STL files
+    progress.enterStage('stl_parsing');
     logger.info('Parsing STL files', {
       stage: 'stl_parsing',
       count: stlFilesToProcess.length
@@ -350,13 +479,15 @@ export async function convertStlToUsdz(
         meshData = await parseStlFile(stlFile.path, {
           debug: finalConfig.debug,
           validateNormals: true,
-          autoComputeNormals: finalConfig.autoComputeNormals
+          autoComputeNormals: finalConfig.autoComputeNormals,
+          defaultColor: finalConfig.defaultColor
         });
       } else if (stlFile.buffer) {
         meshData = parseStl(stlFile.buffer, {
           debug: finalConfig.debug,
           validateNormals: true,
-          autoComputeNormals: finalConfig.autoComputeNormals
+          autoComputeNormals: finalConfig.autoComputeNormals,
+          defaultColor: finalConfig.defaultColor
         });
       } else {
         continue;
@@ -499,6 +630,7 @@ export async function convertStlToUsdz(
         normals: mergedNormals,
         colors: mergedColors,
         triangleCount: totalTriangles,
+        solids: [{ name: '', triangleOffset: 0, triangleCount: totalTriangles }],
         format: 'binary',
         bounds: meshDataArray[0].data.bounds // Use first part's bounds (will be recomputed later if needed)
       };
@@ -550,6 +682,7 @@ export async function convertStlToUsdz(
         normals: mergedNormals,
         colors: mergedColors,
         triangleCount: totalTriangles,
+        solids: [{ name: '', triangleOffset: 0, triangleCount: totalTriangles }],
         format: 'binary',
         bounds: {
           min: { x: minX - centerX, y: minY - centerY, z: minZ - centerZ },
@@ -562,73 +695,85 @@ export async function convertStlToUsdz(
     }
 
     // Convert mesh data to USD geometry
+    progress.enterStage('geometry_building');
     logger.info('Building USD geometry', {
       stage: 'geometry_building',
       triangleCount: finalMeshData.triangleCount
     });
 
-    // Create single mesh node
-    const meshPath = `${sceneNode.getPath()}/StlMesh`;
-    const meshNode = new UsdNode(meshPath, 'Mesh');
-
-    // Write geometry properties
-    convertStlMeshToUsdGeometry(finalMeshData, meshNode, logger);
+    // One mesh per solid; a single solid keeps the StlMesh name
+    const solids = finalMeshData.solids.length > 1
+      ? finalMeshData.solids
+      : [{ name: 'StlMesh', triangleOffset: 0, triangleCount: finalMeshData.triangleCount }];
+    const decimateTarget = resolveDecimationTarget(finalMeshData.triangleCount, finalConfig);
+    const usedNames = new Set<string>();
+
+    const sharedMaterialPath = `${materialsNode.getPath()}/StlMaterial`;
+    let sharedMaterialCreated = false;
+    const bindSharedMaterial = (meshNode: UsdNode) => {
+      if (!sharedMaterialCreated) {
+        materialsNode.addChild(createBasicMaterial(sharedMaterialPath, finalConfig.defaultColor, !!finalMeshData.colors));
+        sharedMaterialCreated = true;
+      }
+      bindMaterial(meshNode, sharedMaterialPath);
+    };
 
-    // Set subdivision scheme
-    meshNode.setProperty('uniform token subdivisionScheme', 'none', 'raw');
+    solids.forEach((solid, index) => {
+      const baseName = sanitizeName(solid.name || `Solid_${index}`);
+      let meshName = baseName;
+      for (let i = 1; usedNames.has(meshName); i++) meshName = `${baseName}_${i}`;
+      usedNames.add(meshName);
 
-    // Add mesh to scene
-    sceneNode.addChild(meshNode);
+      const meshNode = new UsdNode(`${sceneNode.getPath()}/${meshName}`, 'Mesh');
+      const meshData = solids.length > 1 ? sliceStlMesh(finalMeshData, solid) : finalMeshData;
+      const meshTarget = decimateTarget > 0
+        ? Math.max(1, Math.round((solid.triangleCount * decimateTarget) / finalMeshData.triangleCount))
+        : 0;
 
-    // Create shared material
-    logger.info('Creating material', {
-      stage: 'material_creation',
-      hasVertexColors: !!finalMeshData.colors
-    });
+      // Write geometry properties
+      const faceColors = convertStlMeshToUsdGeometry(meshData, meshNode, logger, meshTarget);
 
-    const materialName = 'StlMaterial';
-    const materialPath = `${materialsNode.getPath()}/${materialName}`;
-    const materialNode = createBasicMaterial(
-      materialPath,
-      finalConfig.defaultColor,
-      !!finalMeshData.colors
-    );
+      // Set subdivision scheme
+      meshNode.setProperty('uniform token subdivisionScheme', 'none', 'raw');
 
-    materialsNode.addChild(materialNode);
+      // Bind facet color materials, or the shared material
+      if (!faceColors || !bindFacetColors(meshNode, faceColors, materialsNode, finalConfig.maxColorMaterials)) {
+        bindSharedMaterial(meshNode);
+      }
 
-    // Bind material to mesh
-    meshNode.setProperty(
-      USD_PROPERTIES.PREPEND_API_SCHEMAS,
-      [USD_PROPERTIES.MATERIAL_BINDING_API],
-      USD_PROPERTY_TYPES.STRING_ARRAY
-    );
-    meshNode.setProperty(
-      USD_PROPERTIES.MATERIAL_BINDING,
-      `<${materialPath}>`,
-      USD_PROPERTY_TYPES.REL
-    );
+      sceneNode.addChild(meshNode);
+    });
 
     // Add materials to root
     rootNode.addChild(materialsNode);
 
-    logger.info('Material bound', {
+    progress.enterStage('material_binding');
+    logger.info('Materials bound', {
       stage: 'material_binding',
-      materialPath
+      meshCount: solids.length,
+      materialCount: [...materialsNode.getChildren()].length
     });
 
     // Create USDZ package
+    progress.enterStage('usdz_packaging');
     logger.info('Generating USDZ package', {
       stage: 'usdz_packaging'
     });
 
     const packageContent: PackageContent = {
       usdContent: rootNode.serializeToUsda(),
+      usdContentNode: rootNode,
       geometryFiles: new Map(), // Embedded geometry
       textureFiles: new Map() // No textures for STL
     };
+    const packageConfig = options?.layerFormat ? { layerFormat: options.layerFormat } : undefined;
 
     if (options?.outputPath) {
-      const result = await createUsdzPackageToFile(packageContent, options.outputPath);
+      const result = await createUsdzPackageToFile(packageContent, options.outputPath, {
+        ...packageConfig,
+        ...progress.packagingOptions()
+      });
+      progress.enterStage('conversion_complete');
       logger.info('USDZ conversion completed', {
         stage: 'conversion_complete',
         usdzSize: result.totalBytes,
@@ -638,7 +783,11 @@ export async function convertStlToUsdz(
       return result;
     }
 
-    const usdzBlob = await createUsdzPackage(packageContent);
+    const usdzBlob = await createUsdzPackage(packageContent, {
+      ...packageConfig,
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+    progress.enterStage('conversion_complete');
 
     logger.info('USDZ conversion completed', {
       stage: 'conversion_complete',
@@ -12,12 +12,19 @@ export interface StlMeshData {
   /** Face normals as flat array [nx,ny,nz, nx,ny,nz, ...] (one per triangle) */
   normals: number[];
 
-  /** Optional face colors in linear RGB [r,g,b, r,g,b, ...] (0-1 range) */
+  /**
+   * Optional face colors in linear RGB [r,g,b, r,g,b, ...] (0-1 range), one per
+   * triangle; present when any facet carries a color, with uncolored facets
+   * set to the object color or the configured default
+   */
   colors: number[] | undefined;
 
   /** Number of triangles in the mesh */
   triangleCount: number;
 
+  /** Consecutive triangle ranges of each `solid ... endsolid` block (one for binary files) */
+  solids: StlSolid[];
+
   /** Format detected: 'binary' or 'ascii' */
   format: 'binary' | 'ascii';
 
@@ -28,6 +35,19 @@ export interface StlMeshData {
   };
 }
 
+/**
+ * One named solid of an STL file
+ */
+export interface StlSolid {
+  /** Name after the `solid` keyword (empty when absent or for binary files) */
+  name: string;
+
+  /** Index of the solid's first triangle */
+  triangleOffset: number;
+
+  triangleCount: number;
+}
+
 /**
  * STL Parser Configuration
  */
@@ -40,14 +60,36 @@ export interface StlParserConfig {
 
   /** Automatically compute normals if validation fails or they're zero */
   autoComputeNormals?: boolean;
+
+  /** Color of uncolored facets in files where other facets carry a color (linear RGB 0-1) */
+  defaultColor?: [number, number, number];
 }
 
 const DEFAULT_CONFIG: Required<StlParserConfig> = {
   debug: false,
   validateNormals: false,
   autoComputeNormals: true,
+  defaultColor: [0.7, 0.7, 0.7],
 };
 
+/**
+ * Object color from a Materialise Magics header: `COLOR=` followed by RGBA
+ * bytes, or the diffuse color of `MATERIAL=` (diffuse, specular, ambient)
+ */
+function readMaterialiseHeader(view: DataView): { objectColor: number[] | undefined } | undefined {
+  const header = String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset, 80));
+  const readColor = (offset: number) => offset + 3 <= 80
+    ? [view.getUint8(offset) / 255, view.getUint8(offset + 1) / 255, view.getUint8(offset + 2) / 255]
+    : undefined;
+
+  const color = header.indexOf('COLOR=');
+  const material = header.indexOf('MATERIAL=');
+  if (color < 0 && material < 0) return undefined;
+  return {
+    objectColor: (color >= 0 ? readColor(color + 6) : undefined) ?? (material >= 0 ? readColor(material + 9) : undefined)
+  };
+}
+
 /**
  * Detect STL file format (binary vs ASCII)
  */
@@ -89,6 +131,11 @@ function detectFormat(buffer: ArrayBuffer): 'binary' | 'ascii' {
  *   - Vertex 2: 3x float32 (12 bytes)
  *   - Vertex 3: 3x float32 (12 bytes)
  *   - Attribute byte count: uint16 (2 bytes, often used for color)
+ *
+ * Facet colors follow one of two 15-bit conventions in the attribute bytes:
+ * - VisCAM/SolidView: bits 0-4 blue, 5-9 green, 10-14 red; bit 15 set when the color is valid
+ * - Materialise Magics (header contains `COLOR=` or `MATERIAL=`): bits 0-4 red,
+ *   5-9 green, 10-14 blue; bit 15 set when the facet uses the object color
  */
 function parseBinaryStl(buffer: ArrayBuffer, config: Required<StlParserConfig>, logger: Logger): StlMeshData {
   const view = new DataView(buffer);
@@ -103,6 +150,9 @@ function parseBinaryStl(buffer: ArrayBuffer, config: Required<StlParserConfig>,
   const vertices: number[] = [];
   const normals: number[] = [];
   const colors: number[] = [];
+  const materialise = readMaterialiseHeader(view);
+  const uncolored = materialise?.objectColor ?? config.defaultColor;
+  let hasColors = false;
 
   let minX = Infinity, minY = Infinity, minZ = Infinity;
   let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
@@ -144,21 +194,31 @@ function parseBinaryStl(buffer: ArrayBuffer, config: Required<StlParserConfig>,
     const attribute = view.getUint16(offset, true);
     offset += 2;
 
-    // Check if attribute contains color (VisCAM/SolidView color format)
-    // Bit 15: 0, Bits 10-14: Blue, Bits 5-9: Green, Bits 0-4: Red
-    if (attribute !== 0 && !(attribute & 0x8000)) {
-      const r = ((attribute >> 0) & 0x1F) / 31.0;
-      const g = ((attribute >> 5) & 0x1F) / 31.0;
-      const b = ((attribute >> 10) & 0x1F) / 31.0;
-      colors.push(r, g, b);
+    const low = (attribute & 0x1F) / 31.0;
+    const mid = ((attribute >> 5) & 0x1F) / 31.0;
+    const high = ((attribute >> 10) & 0x1F) / 31.0;
+    if (materialise) {
+      if (!(attribute & 0x8000)) {
+        colors.push(low, mid, high);
+        hasColors = true;
+      } else {
+        colors.push(...uncolored);
+        hasColors ||= materialise.objectColor !== undefined;
+      }
+    } else if (attribute & 0x8000) {
+      colors.push(high, mid, low);
+      hasColors = true;
+    } else {
+      colors.push(...uncolored);
     }
   }
 
   return {
     vertices,
     normals,
-    colors: colors.length > 0 ? colors : undefined,
+    colors: hasColors ? colors : undefined,
     triangleCount,
+    solids: [{ name: '', triangleOffset: 0, triangleCount }],
     format: 'binary',
     bounds: {
       min: { x: minX, y: minY, z: minZ },
@@ -169,7 +229,10 @@ function parseBinaryStl(buffer: ArrayBuffer, config: Required<StlParserConfig>,
 
 /**
  * Parse ASCII STL format
- * 
+ *
+ * Several `solid ... endsolid` blocks may follow each other; each becomes
+ * one entry of `solids`.
+ *
  * Format:
  * solid [name]
  *   facet normal nx ny nz
@@ -189,6 +252,7 @@ function parseAsciiStl(buffer: ArrayBuffer, config: Required<StlParserConfig>, l
 
   const vertices: number[] = [];
   const normals: number[] = [];
+  const solids: StlSolid[] = [];
   let triangleCount = 0;
 
   let minX = Infinity, minY = Infinity, minZ = Infinity;
@@ -200,7 +264,9 @@ function parseAsciiStl(buffer: ArrayBuffer, config: Required<StlParserConfig>, l
     const parts = line.split(/\s+/);
     const keyword = parts[0].toLowerCase();
 
-    if (keyword === 'facet' && parts[1] === 'normal') {
+    if (keyword === 'solid') {
+      solids.push({ name: line.slice(5).trim(), triangleOffset: triangleCount, triangleCount: 0 });
+    } else if (keyword === 'facet' && parts[1] === 'normal') {
       // Read normal
       const nx = parseFloat(parts[2]);
       const ny = parseFloat(parts[3]);
@@ -230,6 +296,10 @@ function parseAsciiStl(buffer: ArrayBuffer, config: Required<StlParserConfig>, l
       }
       triangleCount++;
       currentNormal = null;
+      if (solids.length === 0) {
+        solids.push({ name: '', triangleOffset: 0, triangleCount: 0 });
+      }
+      solids[solids.length - 1].triangleCount++;
     }
   }
 
@@ -242,6 +312,7 @@ function parseAsciiStl(buffer: ArrayBuffer, config: Required<StlParserConfig>, l
     normals,
     colors: undefined,
     triangleCount,
+    solids: solids.filter(solid => solid.triangleCount > 0),
     format: 'ascii',
     bounds: {
       min: { x: minX, y: minY, z: minZ },
@@ -0,0 +1,7 @@
+/**
+ * 3MF to USDZ Converter
+ *
+ * Main entry point for 3MF (3D Manufacturing Format) conversion.
+ */
+
+export { convertThreeMfToUsdz } from './threemf-converter';
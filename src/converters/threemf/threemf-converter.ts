@@ -0,0 +1,496 @@
+/** WebUsdFramework.Converters.ThreeMf.ThreeMfConverter - Main 3MF to USDZ converter */
+
+import { ThreeMfConverterConfig } from '../../schemas';
+import { Logger, LoggerFactory, sanitizeName, setTransformMatrixString, formatMatrixFromComponents } from '../../utils';
+import {
+  parseThreeMf,
+  parseThreeMfFile,
+  forEachMeshInstance,
+  transformPoint,
+  ThreeMfComponent,
+  ThreeMfMaterial,
+  ThreeMfMesh,
+  ThreeMfModel,
+  ThreeMfTileStyle
+} from './threemf-parser';
+import { simplifyMesh, remapVertexAttribute, resolveDecimationTarget, type SimplifyAttribute } from '../shared/mesh-simplifier';
+import { createRootStructure } from '../shared/usd-root-builder';
+import {
+  createUsdzPackage,
+  createUsdzPackageToFile,
+  getTextureExtensionFromData,
+  PackageContent,
+  ConvertOptions,
+  UsdzStreamResult
+} from '../shared/usd-packaging';
+import { ConversionProgressTracker } from '../shared/conversion-progress';
+import {
+  writeDebugOutput,
+  DebugOutputContent
+} from '../shared/debug-writer';
+import { processTextures } from '../shared/texture-pipeline';
+import { UsdNode } from '../../core/usd-node';
+import { USD_PROPERTIES, USD_PROPERTY_TYPES } from '../../constants/usd';
+
+/** Stages in the order a conversion runs them, for progress events */
+const PROGRESS_STAGES = ['conversion_start', '3mf_parsed', 'usd_built', 'usdz_packaging', 'conversion_complete'];
+
+const DEFAULT_CONFIG: ThreeMfConverterConfig = {
+  debug: false,
+  debugOutputDir: './debug-output',
+  upAxis: 'Y',
+  metersPerUnit: 1,
+  defaultColor: [0.7, 0.7, 0.7],
+  decimateTarget: 0,
+  decimateRatio: 1,
+};
+
+/** 3MF tile styles → UsdUVTexture wrap modes */
+const WRAP_MODES: Record<ThreeMfTileStyle, string> = {
+  wrap: 'repeat',
+  mirror: 'mirror',
+  clamp: 'clamp',
+  none: 'black',
+};
+
+type Bounds = { min: [number, number, number]; max: [number, number, number] };
+
+/**
+ * Format a float for USDA output.
+ */
+function fmtFloat(n: number): string {
+  return n.toFixed(6);
+}
+
+/**
+ * Bounds of a flat [x,y,z, ...] position array, optionally transformed
+ * into build space and merged into `into`.
+ */
+function accumulateBounds(positions: Float32Array, transform: number[] | undefined, into: Bounds): Bounds {
+  for (let i = 0; i < positions.length; i += 3) {
+    const [x, y, z] = transformPoint(transform, positions[i], positions[i + 1], positions[i + 2]);
+    into.min = [Math.min(into.min[0], x), Math.min(into.min[1], y), Math.min(into.min[2], z)];
+    into.max = [Math.max(into.max[0], x), Math.max(into.max[1], y), Math.max(into.max[2], z)];
+  }
+  return into;
+}
+
+function emptyBounds(): Bounds {
+  return { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+}
+
+/**
+ * Meshes placed by the build, each once, with how often the build places them
+ */
+function collectMeshes(model: ThreeMfModel): Map<ThreeMfMesh, number> {
+  const meshes = new Map<ThreeMfMesh, number>();
+  forEachMeshInstance(model, (mesh) => meshes.set(mesh, (meshes.get(mesh) ?? 0) + 1));
+  return meshes;
+}
+
+/**
+ * Decimate object meshes in place to the configured triangle budget, shared
+ * by the triangles each mesh adds to the build. Triangles keep their material.
+ */
+function decimateThreeMfMeshes(model: ThreeMfModel, config: ThreeMfConverterConfig, logger: Logger): void {
+  const meshes = [...collectMeshes(model)];
+  const triangleCounts = meshes.map(([mesh, uses]) => (mesh.indices.length / 3) * uses);
+  const totalTriangles = triangleCounts.reduce((sum, count) => sum + count, 0);
+  const target = resolveDecimationTarget(totalTriangles, config);
+  if (target === 0) return;
+
+  logger.info('Starting mesh decimation', {
+    stage: 'decimation',
+    targetFaces: target,
+    inputFaces: totalTriangles
+  });
+
+  let outputTriangles = 0;
+  meshes.forEach(([mesh, uses], index) => {
+    const attributes: SimplifyAttribute[] = [];
+    if (mesh.colors) attributes.push({ values: mesh.colors, size: 4 });
+    if (mesh.uvs) attributes.push({ values: mesh.uvs, size: 2 });
+
+    const simplified = simplifyMesh(mesh.positions, mesh.indices, {
+      targetFaceCount: Math.max(1, Math.round((triangleCounts[index] * target) / totalTriangles / uses)),
+      attributes
+    });
+    const remap = simplified.vertexRemap;
+
+    mesh.positions = remapVertexAttribute(mesh.positions, 3, remap);
+    mesh.indices = simplified.indices;
+    mesh.triangleMaterials = remapVertexAttribute(mesh.triangleMaterials, 1, simplified.faceRemap);
+    if (mesh.colors) mesh.colors = remapVertexAttribute(mesh.colors, 4, remap);
+    if (mesh.uvs) mesh.uvs = remapVertexAttribute(mesh.uvs, 2, remap);
+    outputTriangles += simplified.faceCount * uses;
+  });
+
+  logger.info('Mesh decimation complete', {
+    stage: 'decimation',
+    outputFaces: outputTriangles
+  });
+}
+
+/**
+ * Child name under `parent` that no other child uses yet
+ */
+function uniqueChildName(parent: UsdNode, name: string): string {
+  const taken = new Set([...parent.getChildren()].map(child => child.getName()));
+  let candidate = sanitizeName(name);
+  for (let i = 1; taken.has(candidate); i++) {
+    candidate = `${sanitizeName(name)}_${i}`;
+  }
+  return candidate;
+}
+
+/**
+ * Build a UsdGeomMesh node from a 3MF object mesh, bound to its materials
+ * (one GeomSubset per material when triangles use several).
+ */
+function buildMeshNode(mesh: ThreeMfMesh, meshPath: string, materialPaths: string[]): UsdNode {
+  const meshNode = new UsdNode(meshPath, 'Mesh');
+  const triangleCount = mesh.indices.length / 3;
+  const vertexCount = mesh.positions.length / 3;
+
+  meshNode.setProperty('point3f[] points', mesh.positions);
+  meshNode.setProperty('int[] faceVertexIndices', Int32Array.from(mesh.indices));
+  meshNode.setProperty('int[] faceVertexCounts', new Int32Array(triangleCount).fill(3));
+
+  if (mesh.colors) {
+    const rgb = new Float32Array(vertexCount * 3);
+    const alpha = new Float32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) {
+      rgb.set(mesh.colors.subarray(i * 4, i * 4 + 3), i * 3);
+      alpha[i] = mesh.colors[i * 4 + 3];
+    }
+    meshNode.setProperty('color3f[] primvars:displayColor', rgb);
+    meshNode.setProperty('uniform token primvars:displayColor:interpolation', 'vertex', 'interpolation');
+    if (alpha.some(a => a < 1)) {
+      meshNode.setProperty('float[] primvars:displayOpacity', alpha);
+      meshNode.setProperty('uniform token primvars:displayOpacity:interpolation', 'vertex', 'interpolation');
+    }
+  }
+
+  if (mesh.uvs) {
+    const uvs: string[] = new Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) {
+      uvs[i] = `(${mesh.uvs[i * 2]}, ${mesh.uvs[i * 2 + 1]})`;
+    }
+    meshNode.setProperty('texCoord2f[] primvars:st', `[${uvs.join(', ')}]`, 'texcoord');
+    meshNode.setProperty('primvars:st:interpolation', 'vertex', 'interpolation');
+  }
+
+  const { min, max } = accumulateBounds(mesh.positions, undefined, emptyBounds());
+  if (vertexCount > 0) {
+    meshNode.setProperty(
+      'float3[] extent',
+      `[(${fmtFloat(min[0])}, ${fmtFloat(min[1])}, ${fmtFloat(min[2])}), (${fmtFloat(max[0])}, ${fmtFloat(max[1])}, ${fmtFloat(max[2])})]`,
+      'raw'
+    );
+  }
+  meshNode.setProperty('uniform token subdivisionScheme', 'none', 'raw');
+
+  const facesByMaterial = new Map<number, number[]>();
+  mesh.triangleMaterials.forEach((material, face) => {
+    const faces = facesByMaterial.get(material);
+    if (faces) faces.push(face);
+    else facesByMaterial.set(material, [face]);
+  });
+
+  const bind = (node: UsdNode, materialPath: string) => {
+    node.setProperty(
+      USD_PROPERTIES.PREPEND_API_SCHEMAS,
+      [USD_PROPERTIES.MATERIAL_BINDING_API],
+      USD_PROPERTY_TYPES.STRING_ARRAY
+    );
+    node.setProperty(USD_PROPERTIES.MATERIAL_BINDING, `<${materialPath}>`, USD_PROPERTY_TYPES.REL);
+  };
+
+  if (facesByMaterial.size === 1) {
+    bind(meshNode, materialPaths[mesh.triangleMaterials[0]]);
+  } else {
+    for (const [material, faces] of facesByMaterial) {
+      const materialPath = materialPaths[material];
+      const subset = new UsdNode(`${meshPath}/${uniqueChildName(meshNode, materialPath.split('/').pop()!)}`, 'GeomSubset');
+      subset.setProperty('uniform token familyName', 'materialBind');
+      subset.setProperty('uniform token elementType', 'face');
+      subset.setProperty('int[] indices', Int32Array.from(faces));
+      bind(subset, materialPath);
+      meshNode.addChild(subset);
+    }
+  }
+
+  return meshNode;
+}
+
+/**
+ * Create the UsdPreviewSurface material for a 3MF appearance: a base
+ * material's display color, the mesh's displayColor primvar for color
+ * groups, or a UV-mapped texture for texture groups.
+ */
+function createThreeMfMaterial(
+  materialPath: string,
+  material: ThreeMfMaterial,
+  defaultColor: [number, number, number],
+  textureAsset: string | undefined
+): UsdNode {
+  const materialNode = new UsdNode(materialPath, 'Material');
+  const surfaceShader = new UsdNode(`${materialPath}/PreviewSurface`, 'Shader');
+
+  surfaceShader.setProperty('uniform token info:id', 'UsdPreviewSurface');
+  surfaceShader.setProperty('float inputs:roughness', '0.6', 'float');
+  surfaceShader.setProperty('float inputs:metallic', '0.0', 'float');
+
+  if (material.kind === 'color') {
+    const colorReader = new UsdNode(`${materialPath}/PrimvarReader_displayColor`, 'Shader');
+    colorReader.setProperty('uniform token info:id', 'UsdPrimvarReader_float3');
+    colorReader.setProperty('float3 inputs:fallback', `(${defaultColor.join(', ')})`, 'float3');
+    colorReader.setProperty('string inputs:varname', 'displayColor', 'string');
+    colorReader.setProperty('float3 outputs:result', '');
+    materialNode.addChild(colorReader);
+    surfaceShader.setProperty(
+      'color3f inputs:diffuseColor.connect',
+      `<${materialPath}/PrimvarReader_displayColor.outputs:result>`,
+      'connection'
+    );
+
+    const opacityReader = new UsdNode(`${materialPath}/PrimvarReader_displayOpacity`, 'Shader');
+    opacityReader.setProperty('uniform token info:id', 'UsdPrimvarReader_float');
+    opacityReader.setProperty('float inputs:fallback', '1', 'float');
+    opacityReader.setProperty('string inputs:varname', 'displayOpacity', 'string');
+    opacityReader.setProperty('float outputs:result', '');
+    materialNode.addChild(opacityReader);
+    surfaceShader.setProperty(
+      'float inputs:opacity.connect',
+      `<${materialPath}/PrimvarReader_displayOpacity.outputs:result>`,
+      'connection'
+    );
+  } else if (material.kind === 'texture' && material.texture && textureAsset) {
+    const stReader = new UsdNode(`${materialPath}/Primvar_st`, 'Shader');
+    stReader.setProperty('uniform token info:id', 'UsdPrimvarReader_float2');
+    stReader.setProperty('string inputs:varname', 'st');
+    stReader.setProperty('float2 outputs:result', '');
+    materialNode.addChild(stReader);
+
+    const uvTexture = new UsdNode(`${materialPath}/UVTexture`, 'Shader');
+    uvTexture.setProperty('uniform token info:id', 'UsdUVTexture');
+    uvTexture.setProperty('asset inputs:file', `@${textureAsset}@`);
+    uvTexture.setProperty('token inputs:sourceColorSpace', 'sRGB', 'token');
+    uvTexture.setProperty('token inputs:wrapS', WRAP_MODES[material.texture.tileStyleU], 'token');
+    uvTexture.setProperty('token inputs:wrapT', WRAP_MODES[material.texture.tileStyleV], 'token');
+    uvTexture.setProperty('float2 inputs:st.connect', `<${materialPath}/Primvar_st.outputs:result>`, 'connection');
+    uvTexture.setProperty('float3 outputs:rgb', '');
+    materialNode.addChild(uvTexture);
+    surfaceShader.setProperty('color3f inputs:diffuseColor.connect', `<${materialPath}/UVTexture.outputs:rgb>`, 'connection');
+  } else {
+    const color = material.color ?? defaultColor;
+    surfaceShader.setProperty('color3f inputs:diffuseColor', `(${color[0]}, ${color[1]}, ${color[2]})`, 'color3f');
+  }
+
+  if (material.kind !== 'color') {
+    surfaceShader.setProperty('float inputs:opacity', (material.opacity ?? 1).toString(), 'float');
+  }
+  surfaceShader.setProperty('token outputs:surface', '');
+
+  materialNode.addChild(surfaceShader);
+  materialNode.setProperty(
+    'token outputs:surface.connect',
+    `<${materialPath}/PreviewSurface.outputs:surface>`,
+    'connection'
+  );
+
+  return materialNode;
+}
+
+/**
+ * Build an Xform for a placed object: its transform, its mesh and its
+ * components, recursively.
+ */
+function buildComponentNode(component: ThreeMfComponent, parent: UsdNode, materialPaths: string[]): UsdNode {
+  const { object, transform } = component;
+  const xformNode = new UsdNode(`${parent.getPath()}/${uniqueChildName(parent, object.name)}`, 'Xform');
+
+  if (transform) {
+    const m = transform;
+    setTransformMatrixString(xformNode, formatMatrixFromComponents(
+      m[0], m[1], m[2], 0,
+      m[3], m[4], m[5], 0,
+      m[6], m[7], m[8], 0,
+      m[9], m[10], m[11], 1
+    ));
+  }
+
+  if (object.mesh) {
+    xformNode.addChild(buildMeshNode(object.mesh, `${xformNode.getPath()}/Mesh`, materialPaths));
+  }
+  for (const child of object.components) {
+    buildComponentNode(child, xformNode, materialPaths);
+  }
+
+  parent.addChild(xformNode);
+  return xformNode;
+}
+
+/**
+ * Main 3MF to USDZ conversion function.
+ */
+export function convertThreeMfToUsdz(
+  input: ArrayBuffer | string,
+  config?: Partial<ThreeMfConverterConfig>,
+  options?: ConvertOptions & { outputPath?: undefined }
+): Promise<Blob>;
+export function convertThreeMfToUsdz(
+  input: ArrayBuffer | string,
+  config: Partial<ThreeMfConverterConfig> | undefined,
+  options: ConvertOptions & { outputPath: string }
+): Promise<UsdzStreamResult>;
+export function convertThreeMfToUsdz(
+  input: ArrayBuffer | string,
+  config?: Partial<ThreeMfConverterConfig>,
+  options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult>;
+export async function convertThreeMfToUsdz(
+  input: ArrayBuffer | string,
+  config?: Partial<ThreeMfConverterConfig>,
+  options?: ConvertOptions
+): Promise<Blob | UsdzStreamResult> {
+  const logger = LoggerFactory.forConversion();
+  const progress = new ConversionProgressTracker(PROGRESS_STAGES, options);
+
+  try {
+    const finalConfig = { ...DEFAULT_CONFIG, ...config };
+
+    progress.enterStage('conversion_start');
+    logger.info('Starting 3MF to USDZ conversion', {
+      stage: 'conversion_start',
+      inputType: typeof input === 'string' ? '3mf_file' : '3mf_buffer',
+    });
+
+    const model = typeof input === 'string'
+      ? await parseThreeMfFile(input, { debug: finalConfig.debug })
+      : parseThreeMf(input, { debug: finalConfig.debug });
+
+    const meshes = collectMeshes(model);
+    progress.enterStage('3mf_parsed');
+    logger.info('3MF parsed', {
+      stage: '3mf_parsed',
+      unit: model.unit,
+      buildItems: model.items.length,
+      meshCount: meshes.size,
+      materialCount: model.materials.length,
+      textureCount: model.textures.length,
+    });
+    for (const warning of model.warnings) {
+      logger.warn(`3MF: ${warning}`, { stage: '3mf_parsed' });
+    }
+
+    decimateThreeMfMeshes(model, finalConfig, logger);
+
+    // Build USD scene
+    const rootStructure = createRootStructure('threemf_scene');
+    const { rootNode, sceneNode, materialsNode } = rootStructure;
+    rootNode.setMetadata('metersPerUnit', model.metersPerUnit);
+
+    // 3MF is Z-up with the build plate at z = 0: center the build and
+    // rotate it into the Y-up USD world, as for STL
+    const bounds = emptyBounds();
+    forEachMeshInstance(model, (mesh, transform) => accumulateBounds(mesh.positions, transform, bounds));
+    const center = bounds.min[0] <= bounds.max[0]
+      ? bounds.min.map((min, axis) => (min + bounds.max[axis]) / 2)
+      : [0, 0, 0];
+    sceneNode.setProperty('double xformOp:rotateX', -90, 'double');
+    sceneNode.setProperty('double3 xformOp:translate', `(${-center[0]}, ${-center[1]}, ${-center[2]})`, 'raw');
+    sceneNode.setProperty('xformOpOrder', ['xformOp:rotateX', 'xformOp:translate'], 'token[]');
+
+    // Materials and their textures
+    const textureFiles = new Map<string, ArrayBuffer>();
+    const textureAssets = new Map<ThreeMfMaterial['texture'], string>();
+    model.textures.forEach((texture, index) => {
+      const data = texture.data.buffer.slice(texture.data.byteOffset, texture.data.byteOffset + texture.data.byteLength) as ArrayBuffer;
+      const textureId = `threemf${index}`;
+      textureFiles.set(textureId, data);
+      textureAssets.set(texture, `textures/Texture_${textureId}.${getTextureExtensionFromData(data)}`);
+    });
+
+    const materialPaths = model.materials.map((material) => {
+      const materialPath = `${materialsNode.getPath()}/${uniqueChildName(materialsNode, material.name)}`;
+      materialsNode.addChild(createThreeMfMaterial(
+        materialPath,
+        material,
+        finalConfig.defaultColor,
+        textureAssets.get(material.texture)
+      ));
+      return materialPath;
+    });
+
+    for (const item of model.items) {
+      buildComponentNode(item, sceneNode, materialPaths);
+    }
+
+    rootNode.addChild(materialsNode);
+
+    // Bring textures into an ARKit-readable format before asset paths are serialized
+    await processTextures(textureFiles, [rootNode], finalConfig.textures, logger);
+
+    progress.enterStage('usd_built');
+    logger.info('USD scene built', {
+      stage: 'usd_built',
+      materialCount: materialPaths.length,
+      textureCount: textureFiles.size,
+    });
+
+    progress.enterStage('usdz_packaging');
+    const packageContent: PackageContent = {
+      usdContent: rootNode.serializeToUsda(),
+      usdContentNode: rootNode,
+      geometryFiles: new Map(),
+      textureFiles,
+    };
+    const packageConfig = options?.layerFormat ? { layerFormat: options.layerFormat } : undefined;
+
+    if (options?.outputPath) {
+      const result = await createUsdzPackageToFile(packageContent, options.outputPath, {
+        ...packageConfig,
+        ...progress.packagingOptions(),
+      });
+      progress.enterStage('conversion_complete');
+      logger.info('USDZ conversion completed', {
+        stage: 'conversion_complete',
+        usdzSize: result.totalBytes,
+        mode: 'streaming',
+        outputPath: options.outputPath,
+      });
+      return result;
+    }
+
+    const usdzBlob = await createUsdzPackage(packageContent, {
+      ...packageConfig,
+      ...(options?.signal ? { signal: options.signal } : {}),
+    });
+    progress.enterStage('conversion_complete');
+
+    logger.info('USDZ conversion completed', {
+      stage: 'conversion_complete',
+      usdzSize: usdzBlob.size,
+    });
+
+    if (finalConfig.debug) {
+      const debugContent: DebugOutputContent = {
+        usdContent: rootNode.serializeToUsda(),
+        geometryFiles: new Map(),
+        textureFiles,
+        usdzBlob,
+      };
+      await writeDebugOutput(finalConfig.debugOutputDir, debugContent);
+    }
+
+    return usdzBlob;
+
+  } catch (error) {
+    logger.error('3MF to USDZ conversion failed', {
+      stage: 'conversion_error',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,599 @@
+/** WebUsdFramework.Converters.ThreeMf.ThreeMfParser - Reads 3MF packages into objects, components, build items and materials */
+
+import { UsdzZipReader } from '../shared/usdz-zip-reader';
+import { Logger, LogLevel } from '../../utils';
+
+/**
+ * 3MF affine transform in file order: `m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32`.
+ * Points are row vectors (p' = p · M), the translation is the last row.
+ */
+export type ThreeMfTransform = number[];
+
+/**
+ * A `texture2d` resource with its image bytes
+ */
+export interface ThreeMfTexture {
+  /** Part path inside the package, e.g. `/3D/Textures/wood.png` */
+  path: string;
+  data: Uint8Array;
+  contentType: string;
+  tileStyleU: ThreeMfTileStyle;
+  tileStyleV: ThreeMfTileStyle;
+}
+
+export type ThreeMfTileStyle = 'wrap' | 'mirror' | 'clamp' | 'none';
+
+/**
+ * One surface appearance used by triangles: a base material, the vertex
+ * colors of color groups, a texture group, or the default for triangles
+ * without properties
+ */
+export interface ThreeMfMaterial {
+  name: string;
+  kind: 'base' | 'color' | 'texture' | 'default';
+  /** Linear RGB (base materials) */
+  color?: [number, number, number];
+  /** Base material alpha */
+  opacity?: number;
+  texture?: ThreeMfTexture | undefined;
+}
+
+/**
+ * Mesh of one object. Vertices are split where triangles meeting at a
+ * position use different colors or texture coordinates, so colors and UVs
+ * are per vertex.
+ */
+export interface ThreeMfMesh {
+  positions: Float32Array;
+  indices: Uint32Array;
+  /** Index into `ThreeMfModel.materials` per triangle */
+  triangleMaterials: Int32Array;
+  /** Linear RGBA per vertex, when any triangle uses a color group */
+  colors?: Float32Array | undefined;
+  /** UV per vertex, when any triangle uses a texture group */
+  uvs?: Float32Array | undefined;
+}
+
+export interface ThreeMfObject {
+  name: string;
+  /** `model`, `support`, `solidsupport`, `surface` or `other` */
+  type: string;
+  mesh?: ThreeMfMesh;
+  components: ThreeMfComponent[];
+}
+
+/**
+ * A placed object: a component of another object, or a build item
+ */
+export interface ThreeMfComponent {
+  object: ThreeMfObject;
+  transform?: ThreeMfTransform | undefined;
+}
+
+/**
+ * Parsed 3MF package
+ */
+export interface ThreeMfModel {
+  /** `unit` of the root model part */
+  unit: string;
+  /** Meters per model unit */
+  metersPerUnit: number;
+  /** Build items of the root model part */
+  items: ThreeMfComponent[];
+  materials: ThreeMfMaterial[];
+  textures: ThreeMfTexture[];
+  /** Package features that were skipped (composite materials, multiproperties, ...) */
+  warnings: string[];
+}
+
+/**
+ * 3MF Parser Configuration
+ */
+export interface ThreeMfParserConfig {
+  debug?: boolean;
+}
+
+/** Meters per 3MF model unit */
+const UNIT_SCALES: Record<string, number> = {
+  micron: 1e-6,
+  millimeter: 0.001,
+  centimeter: 0.01,
+  inch: 0.0254,
+  foot: 0.3048,
+  meter: 1
+};
+
+/** Relationship type of the package's root model part */
+const MODEL_RELATIONSHIP_TYPE = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+
+/** Resources whose properties are not mapped, reported once each */
+const UNSUPPORTED_RESOURCES = new Set(['compositematerials', 'multiproperties', 'pbspeculardisplayproperties', 'pbmetallicdisplayproperties', 'translucentdisplayproperties']);
+
+type XmlAttributes = Record<string, string>;
+
+/** Property resources of one model part, keyed by id */
+type PropertyResource =
+  | { kind: 'base'; materials: number[] }
+  | { kind: 'color'; colors: number[][] }
+  | { kind: 'texture'; material: number; uvs: number[][] };
+
+/**
+ * Mesh as read from the XML, before triangle properties are resolved
+ */
+interface RawMesh {
+  positions: number[];
+  /** v1 v2 v3 per triangle */
+  triangles: number[];
+  /** pid p1 p2 p3 per triangle; pid -1 = object default, p2/p3 -1 = p1 */
+  properties: number[];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlText(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity] ?? match;
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon < 0 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Walk the elements of an XML document in order, without building a tree.
+ * Element and attribute names lose their namespace prefix (`m:colorgroup`
+ * → `colorgroup`, `p:path` → `path`); comments, processing instructions and
+ * text are skipped.
+ */
+function scanXml(
+  xml: string,
+  onOpen: (name: string, attributes: XmlAttributes) => void,
+  onClose: (name: string) => void
+): void {
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<(\/?)([A-Za-z_][\w.:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+  const attributePattern = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const [, closing, rawName, rawAttributes, selfClosing] = match;
+    if (!rawName) continue;
+    const name = localName(rawName);
+    if (closing) {
+      onClose(name);
+      continue;
+    }
+    const attributes: XmlAttributes = {};
+    let attribute: RegExpExecArray | null;
+    attributePattern.lastIndex = 0;
+    while ((attribute = attributePattern.exec(rawAttributes)) !== null) {
+      if (attribute[1].startsWith('xmlns')) continue;
+      attributes[localName(attribute[1])] = decodeXmlText(attribute[2] ?? attribute[3]);
+    }
+    onOpen(name, attributes);
+    if (selfClosing) onClose(name);
+  }
+}
+
+function parseTransform(value: string | undefined): ThreeMfTransform | undefined {
+  if (!value) return undefined;
+  const numbers = value.trim().split(/\s+/).map(Number);
+  if (numbers.length !== 12 || numbers.some(n => !Number.isFinite(n))) {
+    throw new Error(`Invalid 3MF transform: "${value}"`);
+  }
+  return numbers;
+}
+
+/**
+ * `a` then `b`: the transform of a point placed by `a` inside an object
+ * that `b` places
+ */
+export function multiplyTransforms(a: ThreeMfTransform, b: ThreeMfTransform): ThreeMfTransform {
+  const out = new Array<number>(12);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 3; col++) {
+      out[row * 3 + col] =
+        a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col] + (row === 3 ? b[9 + col] : 0);
+    }
+  }
+  return out;
+}
+
+/**
+ * Map a point through a transform; no transform leaves it unchanged
+ */
+export function transformPoint(transform: ThreeMfTransform | undefined, x: number, y: number, z: number): [number, number, number] {
+  if (!transform) return [x, y, z];
+  const m = transform;
+  return [
+    x * m[0] + y * m[3] + z * m[6] + m[9],
+    x * m[1] + y * m[4] + z * m[7] + m[10],
+    x * m[2] + y * m[5] + z * m[8] + m[11],
+  ];
+}
+
+/**
+ * Visit every mesh in the build with its transform into build space
+ */
+export function forEachMeshInstance(
+  model: ThreeMfModel,
+  visit: (mesh: ThreeMfMesh, transform: ThreeMfTransform | undefined, object: ThreeMfObject) => void
+): void {
+  const walk = (component: ThreeMfComponent, parent: ThreeMfTransform | undefined) => {
+    const transform = component.transform && parent
+      ? multiplyTransforms(component.transform, parent)
+      : component.transform ?? parent;
+    if (component.object.mesh) visit(component.object.mesh, transform, component.object);
+    for (const child of component.object.components) walk(child, transform);
+  };
+  for (const item of model.items) walk(item, undefined);
+}
+
+/**
+ * `#RRGGBB` / `#RRGGBBAA` sRGB color → linear RGBA
+ */
+function parseColor(value: string | undefined): number[] {
+  const hex = (value ?? '').replace(/^#/, '');
+  if (!/^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(hex)) return [1, 1, 1, 1];
+  const channel = (i: number) => parseInt(hex.slice(i * 2, i * 2 + 2), 16) / 255;
+  const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+  return [toLinear(channel(0)), toLinear(channel(1)), toLinear(channel(2)), hex.length === 8 ? channel(3) : 1];
+}
+
+function parseTileStyle(value: string | undefined): ThreeMfTileStyle {
+  return value === 'mirror' || value === 'clamp' || value === 'none' ? value : 'wrap';
+}
+
+function optionalIndex(value: string | undefined): number {
+  return value === undefined || value === '' ? -1 : parseInt(value, 10);
+}
+
+/**
+ * Reads the parts of one 3MF package
+ */
+class ThreeMfPackageReader {
+  readonly materials: ThreeMfMaterial[] = [];
+  readonly textures: ThreeMfTexture[] = [];
+  readonly warnings: string[] = [];
+
+  private readonly zip: UsdzZipReader;
+  private readonly decoder = new TextDecoder();
+  /** Objects by `${partPath}#${id}` */
+  private readonly objects = new Map<string, ThreeMfObject>();
+  private readonly parsedParts = new Map<string, { unit: string; items: ThreeMfComponent[] }>();
+  private readonly texturesByPath = new Map<string, ThreeMfTexture>();
+  /** Texture part paths by `${partPath}#${id}` */
+  private readonly textureIds = new Map<string, string>();
+  private readonly materialsByKey = new Map<string, number>();
+  private readonly reported = new Set<string>();
+
+  constructor(bytes: Uint8Array, private readonly logger: Logger) {
+    this.zip = new UsdzZipReader(bytes);
+  }
+
+  /**
+   * Path of the root model part, from the package relationships
+   */
+  findRootModelPath(): string {
+    const rels = this.findEntry('/_rels/.rels');
+    if (rels) {
+      let target: string | undefined;
+      scanXml(this.decoder.decode(this.zip.readFile(rels)), (name, attributes) => {
+        if (name === 'Relationship' && attributes.Type === MODEL_RELATIONSHIP_TYPE && !target) target = attributes.Target;
+      }, () => undefined);
+      if (target) return target.startsWith('/') ? target : `/${target}`;
+    }
+    const fallback = this.zip.entries.find(entry => entry.name.toLowerCase().endsWith('.model'));
+    if (!fallback) throw new Error('Not a 3MF package: no 3D model part found');
+    return `/${fallback.name}`;
+  }
+
+  /**
+   * Parse a model part (once) and return its unit and build items
+   */
+  readPart(partPath: string): { unit: string; items: ThreeMfComponent[] } {
+    const parsed = this.parsedParts.get(partPath);
+    if (parsed) return parsed;
+
+    const entry = this.findEntry(partPath);
+    if (!entry) throw new Error(`3MF model part not found: ${partPath}`);
+    const result = { unit: 'millimeter', items: [] as ThreeMfComponent[] };
+    this.parsedParts.set(partPath, result);
+
+    const properties = new Map<string, PropertyResource>();
+    // Components may point at objects defined later in the file, so they are linked afterwards
+    const pendingComponents: Array<{ owner: ThreeMfObject; objectId: string; path?: string | undefined; transform?: ThreeMfTransform | undefined }> = [];
+    const pendingItems: Array<{ objectId: string; path?: string | undefined; transform?: ThreeMfTransform | undefined }> = [];
+    const rawMeshes = new Map<ThreeMfObject, { mesh: RawMesh; pid: number; pindex: number }>();
+
+    let object: ThreeMfObject | undefined;
+    let objectDefaults = { pid: -1, pindex: -1 };
+    let mesh: RawMesh | undefined;
+    let baseGroup: { id: string; materials: number[] } | undefined;
+    let colorGroup: number[][] | undefined;
+    let textureGroup: { uvs: number[][] } | undefined;
+
+    scanXml(this.decoder.decode(this.zip.readFile(entry)), (name, attributes) => {
+      switch (name) {
+        case 'model':
+          result.unit = attributes.unit ?? 'millimeter';
+          break;
+        case 'basematerials':
+          baseGroup = { id: attributes.id, materials: [] };
+          properties.set(attributes.id, { kind: 'base', materials: baseGroup.materials });
+          break;
+        case 'base': {
+          if (!baseGroup) break;
+          const [r, g, b, a] = parseColor(attributes.displaycolor);
+          const index = baseGroup.materials.length;
+          baseGroup.materials.push(this.addMaterial(`base:${partPath}#${baseGroup.id}:${index}`, {
+            name: attributes.name || `Material_${baseGroup.id}_${index}`, kind: 'base', color: [r, g, b], opacity: a
+          }));
+          break;
+        }
+        case 'colorgroup':
+          colorGroup = [];
+          properties.set(attributes.id, { kind: 'color', colors: colorGroup });
+          break;
+        case 'color':
+          colorGroup?.push(parseColor(attributes.color));
+          break;
+        case 'texture2d':
+          this.readTexture(attributes);
+          this.textureIds.set(`${partPath}#${attributes.id}`, attributes.path);
+          break;
+        case 'texture2dgroup': {
+          const texturePath = this.textureIds.get(`${partPath}#${attributes.texid}`);
+          const texture = texturePath ? this.texturesByPath.get(texturePath) : undefined;
+          if (!texture) this.warn(`texture2dgroup ${attributes.id} references missing texture ${attributes.texid}`);
+          textureGroup = { uvs: [] };
+          const material = this.addMaterial(`texture:${partPath}#${attributes.id}`, {
+            name: `Texture_${attributes.id}`, kind: 'texture', texture
+          });
+          properties.set(attributes.id, { kind: 'texture', material, uvs: textureGroup.uvs });
+          break;
+        }
+        case 'tex2coord':
+          textureGroup?.uvs.push([Number(attributes.u) || 0, Number(attributes.v) || 0]);
+          break;
+        case 'object':
+          object = { name: attributes.name || `Object_${attributes.id}`, type: attributes.type ?? 'model', components: [] };
+          objectDefaults = { pid: optionalIndex(attributes.pid), pindex: optionalIndex(attributes.pindex) };
+          this.objects.set(`${partPath}#${attributes.id}`, object);
+          break;
+        case 'mesh':
+          if (object) mesh = { positions: [], triangles: [], properties: [] };
+          break;
+        case 'vertex':
+          mesh?.positions.push(Number(attributes.x), Number(attributes.y), Number(attributes.z));
+          break;
+        case 'triangle':
+          if (!mesh) break;
+          mesh.triangles.push(parseInt(attributes.v1, 10), parseInt(attributes.v2, 10), parseInt(attributes.v3, 10));
+          mesh.properties.push(
+            optionalIndex(attributes.pid),
+            optionalIndex(attributes.p1),
+            optionalIndex(attributes.p2),
+            optionalIndex(attributes.p3)
+          );
+          break;
+        case 'component':
+          if (object) {
+            pendingComponents.push({ owner: object, objectId: attributes.objectid, path: attributes.path, transform: parseTransform(attributes.transform) });
+          }
+          break;
+        case 'item':
+          pendingItems.push({ objectId: attributes.objectid, path: attributes.path, transform: parseTransform(attributes.transform) });
+          break;
+        default:
+          if (UNSUPPORTED_RESOURCES.has(name)) this.warn(`${name} resources are not supported; their triangles use the object's default appearance`);
+          else if (name === 'beamlattice' || name === 'slicestack') this.warn(`${name} geometry is not supported`);
+      }
+    }, (name) => {
+      switch (name) {
+        case 'basematerials': baseGroup = undefined; break;
+        case 'colorgroup': colorGroup = undefined; break;
+        case 'texture2dgroup': textureGroup = undefined; break;
+        case 'mesh':
+          if (object && mesh) rawMeshes.set(object, { mesh, ...objectDefaults });
+          mesh = undefined;
+          break;
+        case 'object': object = undefined; break;
+      }
+    });
+
+    for (const [owner, { mesh: raw, pid, pindex }] of rawMeshes) {
+      owner.mesh = this.resolveMesh(raw, properties, pid, pindex);
+    }
+    for (const { owner, objectId, path, transform } of pendingComponents) {
+      owner.components.push({ object: this.resolveObject(path ?? partPath, objectId), transform });
+    }
+    for (const { objectId, path, transform } of pendingItems) {
+      result.items.push({ object: this.resolveObject(path ?? partPath, objectId), transform });
+    }
+
+    this.logger.debug(`3MF part ${partPath}: ${rawMeshes.size} meshes, ${pendingComponents.length} components, ${pendingItems.length} build items`);
+    return result;
+  }
+
+  private resolveObject(partPath: string, objectId: string): ThreeMfObject {
+    if (!this.parsedParts.has(partPath)) this.readPart(partPath);
+    const object = this.objects.get(`${partPath}#${objectId}`);
+    if (!object) throw new Error(`3MF object ${objectId} not found in ${partPath}`);
+    return object;
+  }
+
+  private readTexture(attributes: XmlAttributes): void {
+    const texturePath = attributes.path;
+    if (!texturePath || this.texturesByPath.has(texturePath)) return;
+    const entry = this.findEntry(texturePath);
+    if (!entry) {
+      this.warn(`texture ${texturePath} is missing from the package`);
+      return;
+    }
+    const texture: ThreeMfTexture = {
+      path: texturePath,
+      data: this.zip.readFile(entry),
+      contentType: attributes.contenttype ?? '',
+      tileStyleU: parseTileStyle(attributes.tilestyleu),
+      tileStyleV: parseTileStyle(attributes.tilestylev)
+    };
+    this.texturesByPath.set(texturePath, texture);
+    this.textures.push(texture);
+  }
+
+  /**
+   * Resolve triangle properties into per-triangle materials and per-vertex
+   * colors / UVs, splitting vertices whose corners disagree
+   */
+  private resolveMesh(raw: RawMesh, properties: Map<string, PropertyResource>, objectPid: number, objectPindex: number): ThreeMfMesh {
+    const triangleCount = raw.triangles.length / 3;
+    const vertexCount = raw.positions.length / 3;
+    const triangleMaterials = new Int32Array(triangleCount);
+    const resources = new Array<PropertyResource | undefined>(triangleCount);
+    const cornerIndices = new Int32Array(triangleCount * 3);
+    let hasColors = false;
+    let hasUvs = false;
+
+    for (let t = 0; t < triangleCount; t++) {
+      for (let c = 0; c < 3; c++) {
+        if (raw.triangles[t * 3 + c] < 0 || raw.triangles[t * 3 + c] >= vertexCount || Number.isNaN(raw.triangles[t * 3 + c])) {
+          throw new Error(`3MF triangle ${t} references missing vertex ${raw.triangles[t * 3 + c]}`);
+        }
+      }
+      const pid = raw.properties[t * 4] >= 0 ? raw.properties[t * 4] : objectPid;
+      const p1 = raw.properties[t * 4 + 1] >= 0 ? raw.properties[t * 4 + 1] : objectPindex;
+      const resource = pid >= 0 ? properties.get(String(pid)) : undefined;
+      resources[t] = resource;
+      for (let c = 0; c < 3; c++) {
+        const p = c > 0 && raw.properties[t * 4 + 1 + c] >= 0 ? raw.properties[t * 4 + 1 + c] : p1;
+        cornerIndices[t * 3 + c] = Math.max(p, 0);
+      }
+
+      if (!resource) {
+        if (pid >= 0) this.warn(`property group ${pid} is not supported or missing`);
+        triangleMaterials[t] = this.defaultMaterial();
+      } else if (resource.kind === 'base') {
+        triangleMaterials[t] = resource.materials[cornerIndices[t * 3]] ?? this.defaultMaterial();
+      } else if (resource.kind === 'color') {
+        triangleMaterials[t] = this.addMaterial('color', { name: 'VertexColor', kind: 'color' });
+        hasColors = true;
+      } else {
+        triangleMaterials[t] = resource.material;
+        hasUvs = true;
+      }
+    }
+
+    if (!hasColors && !hasUvs) {
+      return {
+        positions: Float32Array.from(raw.positions),
+        indices: Uint32Array.from(raw.triangles),
+        triangleMaterials
+      };
+    }
+
+    // One vertex per (position, color / UV reference)
+    const vertexKeys = new Map<string, number>();
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const uvs: number[] = [];
+    const indices = new Uint32Array(triangleCount * 3);
+    for (let t = 0; t < triangleCount; t++) {
+      const resource = resources[t];
+      const varying = resource && resource.kind !== 'base';
+      for (let c = 0; c < 3; c++) {
+        const position = raw.triangles[t * 3 + c];
+        const p = cornerIndices[t * 3 + c];
+        const key = varying ? `${position}:${raw.properties[t * 4] >= 0 ? raw.properties[t * 4] : objectPid}:${p}` : String(position);
+        let index = vertexKeys.get(key);
+        if (index === undefined) {
+          index = positions.length / 3;
+          vertexKeys.set(key, index);
+          positions.push(raw.positions[position * 3], raw.positions[position * 3 + 1], raw.positions[position * 3 + 2]);
+          const material = this.materials[triangleMaterials[t]];
+          const color = resource?.kind === 'color'
+            ? resource.colors[p] ?? [1, 1, 1, 1]
+            : [...(material.color ?? [1, 1, 1]), material.opacity ?? 1];
+          colors.push(color[0], color[1], color[2], color[3]);
+          const uv = resource?.kind === 'texture' ? resource.uvs[p] ?? [0, 0] : [0, 0];
+          uvs.push(uv[0], uv[1]);
+        }
+        indices[t * 3 + c] = index;
+      }
+    }
+
+    return {
+      positions: Float32Array.from(positions),
+      indices,
+      triangleMaterials,
+      colors: hasColors ? Float32Array.from(colors) : undefined,
+      uvs: hasUvs ? Float32Array.from(uvs) : undefined
+    };
+  }
+
+  private addMaterial(key: string, material: ThreeMfMaterial): number {
+    let index = this.materialsByKey.get(key);
+    if (index === undefined) {
+      index = this.materials.push(material) - 1;
+      this.materialsByKey.set(key, index);
+    }
+    return index;
+  }
+
+  private defaultMaterial(): number {
+    return this.addMaterial('default', { name: 'ThreeMfMaterial', kind: 'default' });
+  }
+
+  private findEntry(partPath: string) {
+    const name = partPath.replace(/^\//, '');
+    return this.zip.getEntry(name) ?? this.zip.entries.find(entry => entry.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private warn(message: string): void {
+    if (this.reported.has(message)) return;
+    this.reported.add(message);
+    this.warnings.push(message);
+  }
+}
+
+/**
+ * Parse a 3MF package from an ArrayBuffer
+ */
+export function parseThreeMf(buffer: ArrayBuffer, config: ThreeMfParserConfig = {}): ThreeMfModel {
+  const logger = new Logger({ level: config.debug ? LogLevel.DEBUG : LogLevel.ERROR });
+  if (buffer.byteLength === 0) {
+    throw new Error('3MF file is empty');
+  }
+
+  const reader = new ThreeMfPackageReader(new Uint8Array(buffer), logger);
+  const rootPath = reader.findRootModelPath();
+  const { unit, items } = reader.readPart(rootPath);
+  const metersPerUnit = UNIT_SCALES[unit];
+  if (metersPerUnit === undefined) {
+    throw new Error(`Unsupported 3MF unit: ${unit}`);
+  }
+
+  return {
+    unit,
+    metersPerUnit,
+    items,
+    materials: reader.materials,
+    textures: reader.textures,
+    warnings: reader.warnings
+  };
+}
+
+/**
+ * Parse a 3MF file from a file path (Node.js only)
+ */
+export async function parseThreeMfFile(filePath: string, config: ThreeMfParserConfig = {}): Promise<ThreeMfModel> {
+  const fs = await import('fs');
+  const fileBuffer = fs.readFileSync(filePath);
+  const arrayBuffer = fileBuffer.buffer.slice(
+    fileBuffer.byteOffset,
+    fileBuffer.byteOffset + fileBuffer.byteLength
+  );
+  return parseThreeMf(arrayBuffer, config);
+}
@@ -0,0 +1,86 @@
+/** WebUsdFramework.Converters.Usdz.Helpers.UsdAnimation - Collects USD time samples into one glTF animation */
+
+import { Accessor, Animation, Buffer, Document, GLTF, Node } from '@gltf-transform/core';
+
+/** Values closer than this are treated as unchanged when dropping static channels */
+const EPSILON = 1e-6;
+
+/**
+ * A USD stage has a single timeline, so every sampled attribute becomes a
+ * channel of one glTF animation. Time codes are converted to seconds with
+ * the layer's `timeCodesPerSecond`; channels sharing time codes share an
+ * input accessor.
+ */
+export class UsdAnimationWriter {
+  private animation: Animation | undefined;
+  private readonly inputs = new Map<string, Accessor>();
+
+  constructor(
+    private readonly document: Document,
+    private readonly buffer: Buffer,
+    private readonly name: string,
+    private readonly timeCodesPerSecond: number,
+    /** First time code of the stage, played at 0 s */
+    private readonly startTimeCode: number
+  ) {}
+
+  get channelCount(): number {
+    return this.animation?.listChannels().length ?? 0;
+  }
+
+  /**
+   * Add a channel; `values` holds one element per time code
+   * (`weights` channels hold one weight per morph target per time code)
+   */
+  addChannel(
+    node: Node,
+    targetPath: GLTF.AnimationChannelTargetPath,
+    timeCodes: readonly number[],
+    values: Float32Array,
+    interpolation: GLTF.AnimationSamplerInterpolation = 'LINEAR'
+  ): void {
+    if (timeCodes.length === 0) return;
+    const elementSize = values.length / timeCodes.length;
+    const type = targetPath === 'weights' ? 'SCALAR' : elementSize === 4 ? 'VEC4' : 'VEC3';
+
+    this.animation ??= this.document.createAnimation(this.name);
+    const key = timeCodes.join(',');
+    let input = this.inputs.get(key);
+    if (!input) {
+      const times = Float32Array.from(timeCodes, (code) => Math.max(0, (code - this.startTimeCode) / this.timeCodesPerSecond));
+      input = this.document.createAccessor().setType('SCALAR').setArray(times).setBuffer(this.buffer);
+      this.inputs.set(key, input);
+    }
+    const output = this.document.createAccessor().setType(type).setArray(values).setBuffer(this.buffer);
+    const sampler = this.document.createAnimationSampler()
+      .setInput(input)
+      .setOutput(output)
+      .setInterpolation(interpolation);
+    const channel = this.document.createAnimationChannel()
+      .setTargetNode(node)
+      .setTargetPath(targetPath)
+      .setSampler(sampler);
+    this.animation.addSampler(sampler).addChannel(channel);
+  }
+}
+
+/**
+ * Whether every `size`-wide element of a sampled track equals the first
+ */
+export function isConstantTrack(values: ArrayLike<number>, size: number): boolean {
+  for (let i = size; i < values.length; i++) {
+    if (Math.abs(values[i] - values[i % size]) > EPSILON) return false;
+  }
+  return true;
+}
+
+/**
+ * Keep consecutive quaternions in one hemisphere so slerp takes the short way
+ */
+export function alignQuaternions(rotations: Float32Array): void {
+  for (let i = 4; i < rotations.length; i += 4) {
+    const dot = rotations[i] * rotations[i - 4] + rotations[i + 1] * rotations[i - 3]
+      + rotations[i + 2] * rotations[i - 2] + rotations[i + 3] * rotations[i - 1];
+    if (dot < 0) for (let c = 0; c < 4; c++) rotations[i + c] = -rotations[i + c];
+  }
+}
@@ -0,0 +1,339 @@
+/** WebUsdFramework.Converters.Usdz.Helpers.UsdGeometry - Triangulates UsdGeomMesh prims into glTF-ready vertex streams */
+
+import { UsdNode } from '../../../core/usd-node';
+import { Mat4, invert, transformNormal, transformPoint } from '../../fbx/fbx-transform';
+import {
+  attributeName,
+  attributeTypeName,
+  findAttribute,
+  readMatrices,
+  readNumber,
+  readNumbers,
+  readTargets,
+  readToken,
+} from './usd-values';
+
+/** glTF allows four influences per JOINTS_n / WEIGHTS_n set; only the first set is written */
+const MAX_INFLUENCES = 4;
+
+/** Primvar types read as texture coordinates */
+const TEXCOORD_TYPES = new Set(['texCoord2f[]', 'texCoord2d[]', 'texCoord2h[]', 'float2[]', 'double2[]']);
+
+type Interpolation = 'constant' | 'uniform' | 'vertex' | 'varying' | 'faceVarying';
+
+/**
+ * Flat primvar values with how they map onto the mesh
+ */
+interface Primvar {
+  values: number[];
+  size: number;
+  interpolation: Interpolation;
+  /** Indexed primvars: element index per interpolation slot */
+  indices: number[] | undefined;
+}
+
+/**
+ * Triangles of one mesh that share a material, with unwelded attributes
+ */
+export interface UsdTriangleGroup {
+  /** Bound material path (GeomSubset binding, else the mesh binding) */
+  materialPath: string | undefined;
+  positions: Float32Array;
+  normals: Float32Array | undefined;
+  /** `TEXCOORD_n` arrays, `st` first and `st<n>` at index n, V flipped to glTF's top-left origin */
+  uvs: Float32Array[];
+  /** RGBA from `displayColor` / `displayOpacity` */
+  colors: Float32Array | undefined;
+  joints: Uint16Array | undefined;
+  weights: Float32Array | undefined;
+  /** Source point of each vertex, for blend shape offsets */
+  pointIndices: Uint32Array;
+  indices: Uint32Array;
+}
+
+export interface UsdMeshGeometry {
+  groups: UsdTriangleGroup[];
+  /** Constant `displayColor`, the USD stand-in for a material */
+  displayColor: [number, number, number] | undefined;
+}
+
+export interface UsdSkinnedMeshOptions {
+  /** `skel:geomBindTransform`, baked into points and normals */
+  geomBindTransform: Mat4 | undefined;
+  /** Mesh joint index (`skel:joints` order) → skin joint index */
+  jointMap: number[] | undefined;
+}
+
+/**
+ * Fan-triangulate a `Mesh` prim and split it by GeomSubset material
+ * bindings. Vertices are welded wherever every primvar resolves to the
+ * same element, so vertex-interpolated meshes keep their point sharing.
+ */
+export function buildMeshGeometry(mesh: UsdNode, skin?: UsdSkinnedMeshOptions): UsdMeshGeometry {
+  const points = readNumbers(findAttribute(mesh, 'points')) ?? [];
+  const counts = readNumbers(findAttribute(mesh, 'faceVertexCounts')) ?? [];
+  const faceIndices = readNumbers(findAttribute(mesh, 'faceVertexIndices')) ?? [];
+  const pointCount = Math.floor(points.length / 3);
+  const faceCount = counts.length;
+  const cornerCount = faceIndices.length;
+
+  const primvar = (name: string, size: number, fallback?: Interpolation) =>
+    readPrimvar(mesh, name, size, { pointCount, faceCount, cornerCount }, fallback);
+
+  const normals = primvar('primvars:normals', 3) ?? primvar('normals', 3, 'vertex');
+  const uvSets = texCoordPrimvarNames(mesh)
+    .map(({ name, slot }) => ({ slot, primvar: primvar(name, 2) }))
+    .filter((set): set is { slot: number; primvar: Primvar } => set.primvar !== undefined);
+  const displayColor = primvar('primvars:displayColor', 3);
+  const displayOpacity = primvar('primvars:displayOpacity', 1);
+  const vertexColors = displayColor && displayColor.interpolation !== 'constant' ? displayColor : undefined;
+  const vertexOpacity = displayOpacity && displayOpacity.interpolation !== 'constant' ? displayOpacity : undefined;
+  const constantOpacity = displayOpacity?.interpolation === 'constant' ? displayOpacity.values[0] : 1;
+  const influences = readInfluences(mesh, pointCount, skin?.jointMap);
+
+  // Faces claimed by material-bound subsets
+  const faceGroups = new Int32Array(faceCount).fill(-1);
+  const groupMaterials: (string | undefined)[] = [readTargets(mesh, 'material:binding')[0]];
+  for (const subset of mesh.getChildren()) {
+    if (subset.getTypeName() !== 'GeomSubset') continue;
+    if ((readToken(subset, 'elementType') ?? 'face') !== 'face') continue;
+    const material = readTargets(subset, 'material:binding')[0];
+    if (!material) continue;
+    const group = groupMaterials.push(material) - 1;
+    for (const face of readNumbers(findAttribute(subset, 'indices')) ?? []) {
+      if (face >= 0 && face < faceCount) faceGroups[face] = group;
+    }
+  }
+
+  const holes = new Set(readNumbers(findAttribute(mesh, 'holeIndices')) ?? []);
+  const leftHanded = readToken(mesh, 'orientation') === 'leftHanded';
+  const bindTransform = skin?.geomBindTransform;
+  const normalTransform = bindTransform ? invert(bindTransform) : undefined;
+  const used = [normals, ...uvSets.map((set) => set.primvar), vertexColors, vertexOpacity];
+
+  const groups: UsdTriangleGroup[] = [];
+  for (let group = 0; group < groupMaterials.length; group++) {
+    const builder = new GroupBuilder();
+    let corner = 0;
+    for (let face = 0; face < faceCount; face++) {
+      const count = counts[face];
+      const inGroup = (faceGroups[face] === -1 ? 0 : faceGroups[face]) === group;
+      if (inGroup && count >= 3 && !holes.has(face) && corner + count <= cornerCount) {
+        const vertexOf = (offset: number) => builder.vertex(
+          faceIndices[corner + offset],
+          used.map((p) => (p ? elementIndex(p, face, faceIndices[corner + offset], corner + offset) : -1))
+        );
+        const first = vertexOf(0);
+        for (let i = 1; i < count - 1; i++) {
+          const b = vertexOf(i);
+          const c = vertexOf(i + 1);
+          if (leftHanded) builder.triangles.push(first, c, b);
+          else builder.triangles.push(first, b, c);
+        }
+      }
+      corner += count;
+    }
+    if (builder.triangles.length === 0) continue;
+
+    const vertexCount = builder.points.length;
+    const positions = new Float32Array(vertexCount * 3);
+    builder.points.forEach((point, v) => {
+      const [x, y, z] = [points[point * 3] ?? 0, points[point * 3 + 1] ?? 0, points[point * 3 + 2] ?? 0];
+      positions.set(bindTransform ? transformPoint(bindTransform, x, y, z) : [x, y, z], v * 3);
+    });
+
+    const gather = (slot: number, p: Primvar) => {
+      const out = new Float32Array(vertexCount * p.size);
+      builder.elements.forEach((elements, v) => {
+        const element = elements[slot];
+        for (let c = 0; c < p.size; c++) out[v * p.size + c] = p.values[element * p.size + c] ?? 0;
+      });
+      return out;
+    };
+
+    let normalData = normals ? gather(0, normals) : undefined;
+    if (normalData && normalTransform) {
+      for (let v = 0; v < vertexCount; v++) {
+        const n = transformNormal(normalTransform, normalData[v * 3], normalData[v * 3 + 1], normalData[v * 3 + 2]);
+        const length = Math.hypot(n[0], n[1], n[2]) || 1;
+        normalData.set([n[0] / length, n[1] / length, n[2] / length], v * 3);
+      }
+    }
+    if (normalData && normalData.every((value) => value === 0)) normalData = undefined;
+
+    const uvs: Float32Array[] = [];
+    uvSets.forEach((set, i) => {
+      const uv = gather(1 + i, set.primvar);
+      for (let v = 1; v < uv.length; v += 2) uv[v] = 1 - uv[v];
+      uvs[set.slot] = uv;
+    });
+
+    let colors: Float32Array | undefined;
+    if (vertexColors || vertexOpacity) {
+      const rgb = vertexColors ? gather(1 + uvSets.length, vertexColors) : undefined;
+      const alpha = vertexOpacity ? gather(2 + uvSets.length, vertexOpacity) : undefined;
+      const constant = displayColor?.values ?? [1, 1, 1];
+      colors = new Float32Array(vertexCount * 4);
+      for (let v = 0; v < vertexCount; v++) {
+        for (let c = 0; c < 3; c++) colors[v * 4 + c] = rgb ? rgb[v * 3 + c] : constant[c] ?? 1;
+        colors[v * 4 + 3] = alpha ? alpha[v] : constantOpacity;
+      }
+    }
+
+    let joints: Uint16Array | undefined;
+    let weights: Float32Array | undefined;
+    if (influences) {
+      joints = new Uint16Array(vertexCount * MAX_INFLUENCES);
+      weights = new Float32Array(vertexCount * MAX_INFLUENCES);
+      builder.points.forEach((point, v) => {
+        const source = influences.rigid ? 0 : point;
+        joints!.set(influences.joints.subarray(source * MAX_INFLUENCES, (source + 1) * MAX_INFLUENCES), v * MAX_INFLUENCES);
+        weights!.set(influences.weights.subarray(source * MAX_INFLUENCES, (source + 1) * MAX_INFLUENCES), v * MAX_INFLUENCES);
+      });
+    }
+
+    groups.push({
+      materialPath: groupMaterials[group],
+      positions,
+      normals: normalData,
+      // Fill gaps left by sparse `st<n>` names so TEXCOORD_n stay contiguous
+      uvs: Array.from(uvs, (uv) => uv ?? new Float32Array(vertexCount * 2)),
+      colors,
+      joints,
+      weights,
+      pointIndices: Uint32Array.from(builder.points),
+      indices: Uint32Array.from(builder.triangles),
+    });
+  }
+
+  const constantColor = displayColor?.interpolation === 'constant' ? displayColor.values : undefined;
+  return {
+    groups,
+    displayColor: constantColor && constantColor.length >= 3 ? [constantColor[0], constantColor[1], constantColor[2]] : undefined,
+  };
+}
+
+/**
+ * Collects welded vertices: one per distinct (point, primvar elements) key
+ */
+class GroupBuilder {
+  readonly points: number[] = [];
+  readonly elements: number[][] = [];
+  readonly triangles: number[] = [];
+  private readonly lookup = new Map<string, number>();
+
+  vertex(point: number, elements: number[]): number {
+    const key = `${point}:${elements.join(',')}`;
+    let index = this.lookup.get(key);
+    if (index === undefined) {
+      index = this.points.push(point) - 1;
+      this.elements.push(elements);
+      this.lookup.set(key, index);
+    }
+    return index;
+  }
+}
+
+/**
+ * Texture coordinate primvars and their `TEXCOORD_n` slot: `st` is 0 and
+ * `st<n>` is n (the names the converters write), others fill the next slots
+ */
+function texCoordPrimvarNames(mesh: UsdNode): { name: string; slot: number }[] {
+  const named: { name: string; slot: number }[] = [];
+  const others: string[] = [];
+  for (const property of mesh.getProperties()) {
+    const name = attributeName(property.key);
+    const type = attributeTypeName(property.key);
+    if (!name.startsWith('primvars:') || name.split(':').length !== 2) continue;
+    if (!type || (!TEXCOORD_TYPES.has(type) && property.type !== 'texcoord')) continue;
+    const slot = uvSlot(name.slice('primvars:'.length));
+    if (slot !== undefined) named.push({ name, slot });
+    else others.push(name);
+  }
+  let next = named.reduce((max, set) => Math.max(max, set.slot + 1), 0);
+  return [...named, ...others.map((name) => ({ name, slot: next++ }))];
+}
+
+/**
+ * `TEXCOORD_n` index the converters use for a primvar name
+ */
+export function uvSlot(varname: string): number | undefined {
+  const match = /^st(\d*)$/.exec(varname);
+  return match ? Number(match[1] || 0) : undefined;
+}
+
+function readPrimvar(
+  mesh: UsdNode,
+  name: string,
+  size: number,
+  counts: { pointCount: number; faceCount: number; cornerCount: number },
+  fallback?: Interpolation
+): Primvar | undefined {
+  const values = readNumbers(findAttribute(mesh, name));
+  if (!values || values.length < size) return undefined;
+  const indices = readNumbers(findAttribute(mesh, `${name}:indices`));
+  const authored = readToken(mesh, `${name}:interpolation`) as Interpolation | undefined;
+  const elementCount = indices?.length ?? values.length / size;
+  const interpolation = authored
+    ?? (elementCount === counts.cornerCount ? 'faceVarying'
+      : elementCount === counts.pointCount ? 'vertex'
+        : elementCount === counts.faceCount ? 'uniform'
+          : fallback ?? 'constant');
+  return { values, size, interpolation, indices: indices && indices.length > 0 ? indices : undefined };
+}
+
+function elementIndex(primvar: Primvar, face: number, point: number, corner: number): number {
+  let slot: number;
+  switch (primvar.interpolation) {
+    case 'constant': slot = 0; break;
+    case 'uniform': slot = face; break;
+    case 'faceVarying': slot = corner; break;
+    default: slot = point;
+  }
+  return primvar.indices ? primvar.indices[slot] ?? 0 : slot;
+}
+
+/**
+ * Strongest four joint influences per point, renormalized. Constant
+ * interpolation binds every point rigidly to the same joints.
+ */
+function readInfluences(
+  mesh: UsdNode,
+  pointCount: number,
+  jointMap: number[] | undefined
+): { joints: Uint16Array; weights: Float32Array; rigid: boolean } | undefined {
+  const jointIndices = readNumbers(findAttribute(mesh, 'primvars:skel:jointIndices'));
+  const jointWeights = readNumbers(findAttribute(mesh, 'primvars:skel:jointWeights'));
+  if (!jointIndices || !jointWeights || jointIndices.length === 0) return undefined;
+
+  const rigid = readToken(mesh, 'primvars:skel:jointIndices:interpolation') === 'constant';
+  const elementSize = readNumber(mesh, 'primvars:skel:jointIndices:elementSize')
+    ?? Math.max(1, Math.round(jointIndices.length / (rigid ? 1 : Math.max(1, pointCount))));
+  const sources = rigid ? 1 : pointCount;
+
+  const joints = new Uint16Array(sources * MAX_INFLUENCES);
+  const weights = new Float32Array(sources * MAX_INFLUENCES);
+  for (let p = 0; p < sources; p++) {
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < elementSize; i++) {
+      const weight = jointWeights[p * elementSize + i] ?? 0;
+      if (weight > 0) pairs.push([jointIndices[p * elementSize + i] ?? 0, weight]);
+    }
+    pairs.sort((a, b) => b[1] - a[1]);
+    const kept = pairs.slice(0, MAX_INFLUENCES);
+    const total = kept.reduce((sum, [, weight]) => sum + weight, 0) || 1;
+    kept.forEach(([joint, weight], i) => {
+      joints[p * MAX_INFLUENCES + i] = jointMap ? jointMap[joint] ?? 0 : joint;
+      weights[p * MAX_INFLUENCES + i] = weight / total;
+    });
+    if (kept.length === 0) weights[p * MAX_INFLUENCES] = 1;
+  }
+  return { joints, weights, rigid };
+}
+
+/**
+ * `skel:geomBindTransform` of a skinned mesh
+ */
+export function readGeomBindTransform(mesh: UsdNode): Mat4 | undefined {
+  return readMatrices(findAttribute(mesh, 'skel:geomBindTransform'))[0];
+}
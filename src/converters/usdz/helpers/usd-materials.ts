@@ -0,0 +1,291 @@
+/** WebUsdFramework.Converters.Usdz.Helpers.UsdMaterials - Maps UsdPreviewSurface networks and UsdUVTexture shaders to glTF PBR materials */
+
+import * as path from 'path';
+import { Document, GLTF, Material, Texture, TextureInfo } from '@gltf-transform/core';
+import { KHRTextureTransform } from '@gltf-transform/extensions';
+import { UsdNode } from '../../../core/usd-node';
+import { Logger } from '../../../utils';
+import { detectImageMimeType } from '../../fbx/helpers/fbx-materials';
+import { uvSlot } from './usd-geometry';
+import { findAttribute, readNumber, readNumbers, readTargets, readToken, splitConnection } from './usd-values';
+
+/** Connections followed through NodeGraph / Material interface inputs before giving up */
+const MAX_CONNECTION_DEPTH = 8;
+
+const WRAP_MODES: Record<string, GLTF.TextureWrapMode> = {
+  repeat: TextureInfo.WrapMode.REPEAT,
+  mirror: TextureInfo.WrapMode.MIRRORED_REPEAT,
+  clamp: TextureInfo.WrapMode.CLAMP_TO_EDGE,
+  black: TextureInfo.WrapMode.CLAMP_TO_EDGE,
+};
+
+/**
+ * A shader input: its constant value, or the UsdUVTexture output feeding it
+ */
+interface ResolvedInput {
+  value: number[] | undefined;
+  texture: { shader: UsdNode; output: string } | undefined;
+}
+
+/**
+ * Creates glTF materials for USD `Material` prims, sharing one glTF
+ * texture per archive image
+ */
+export class UsdMaterialBuilder {
+  private readonly materials = new Map<string, Material>();
+  private readonly textures = new Map<string, Texture | null>();
+  private textureTransform: KHRTextureTransform | undefined;
+
+  constructor(
+    private readonly document: Document,
+    /** Every prim of the stage by path, for resolving connections */
+    private readonly prims: Map<string, UsdNode>,
+    /** Archive files by path, for texture assets */
+    private readonly files: Map<string, Uint8Array>,
+    /** Archive directory of the root layer, asset paths are relative to it */
+    private readonly layerDirectory: string,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * glTF material for a bound `Material` prim. USD keeps `doubleSided` on
+   * the mesh, so double-sided uses get their own copy.
+   */
+  getMaterial(materialPath: string, doubleSided: boolean): Material | undefined {
+    const key = `${materialPath}|${doubleSided}`;
+    let material = this.materials.get(key);
+    if (!material) {
+      const prim = this.prims.get(materialPath);
+      if (!prim) {
+        this.logger.warn(`USD material binding target not found: ${materialPath}`);
+        return undefined;
+      }
+      material = this.createMaterial(prim).setDoubleSided(doubleSided);
+      this.materials.set(key, material);
+    }
+    return material;
+  }
+
+  /** Grey material for meshes without one, tinted by a constant `displayColor` */
+  getDefaultMaterial(displayColor: [number, number, number] | undefined, doubleSided: boolean): Material {
+    const color = displayColor ?? [0.8, 0.8, 0.8];
+    const key = `|${color.join(',')}|${doubleSided}`;
+    let material = this.materials.get(key);
+    if (!material) {
+      material = this.document.createMaterial('DefaultMaterial')
+        .setBaseColorFactor([color[0], color[1], color[2], 1])
+        .setMetallicFactor(0)
+        .setRoughnessFactor(1)
+        .setDoubleSided(doubleSided);
+      this.materials.set(key, material);
+    }
+    return material;
+  }
+
+  private createMaterial(prim: UsdNode): Material {
+    const material = this.document.createMaterial(prim.getName());
+    const surface = this.findSurfaceShader(prim);
+    if (!surface) {
+      this.logger.warn(`USD material "${prim.getPath()}" has no UsdPreviewSurface, using defaults`);
+      return material.setBaseColorFactor([0.8, 0.8, 0.8, 1]).setMetallicFactor(0).setRoughnessFactor(1);
+    }
+
+    const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+    // Base color and opacity
+    const diffuse = this.resolveInput(surface, 'diffuseColor');
+    const opacity = this.resolveInput(surface, 'opacity');
+    let baseColor = diffuse.value ?? [0.18, 0.18, 0.18];
+    let alpha = opacity.value?.[0] ?? 1;
+    if (diffuse.texture) {
+      baseColor = this.textureScale(diffuse.texture.shader).slice(0, 3);
+      this.applyTexture(material, 'baseColor', diffuse.texture.shader);
+    }
+    const alphaFromTexture = opacity.texture !== undefined
+      && diffuse.texture !== undefined
+      && opacity.texture.output === 'a'
+      && this.assetPath(opacity.texture.shader) === this.assetPath(diffuse.texture.shader);
+    if (alphaFromTexture) {
+      alpha = this.textureScale(opacity.texture!.shader)[3];
+    } else if (opacity.texture) {
+      this.logger.warn(`USD material "${prim.getPath()}": opacity map other than the base color alpha is not supported`);
+    }
+    material.setBaseColorFactor([clamp01(baseColor[0]), clamp01(baseColor[1]), clamp01(baseColor[2]), clamp01(alpha)]);
+
+    const threshold = readNumber(surface, 'inputs:opacityThreshold') ?? 0;
+    if (threshold > 0 && (alphaFromTexture || alpha < 1)) {
+      material.setAlphaMode('MASK').setAlphaCutoff(threshold);
+    } else if (alphaFromTexture || alpha < 1) {
+      material.setAlphaMode('BLEND');
+    }
+
+    // Emission
+    const emissive = this.resolveInput(surface, 'emissiveColor');
+    let emissiveColor = emissive.value ?? [0, 0, 0];
+    if (emissive.texture) {
+      emissiveColor = this.textureScale(emissive.texture.shader).slice(0, 3);
+      this.applyTexture(material, 'emissive', emissive.texture.shader);
+    }
+    material.setEmissiveFactor([clamp01(emissiveColor[0]), clamp01(emissiveColor[1]), clamp01(emissiveColor[2])]);
+
+    // glTF packs roughness (G) and metalness (B) in one texture
+    const metallic = this.resolveInput(surface, 'metallic');
+    const roughness = this.resolveInput(surface, 'roughness');
+    let metallicFactor = metallic.value?.[0] ?? 0;
+    let roughnessFactor = roughness.value?.[0] ?? 0.5;
+    const packed = roughness.texture?.output === 'g'
+      && (metallic.texture
+        ? metallic.texture.output === 'b' && this.assetPath(metallic.texture.shader) === this.assetPath(roughness.texture.shader)
+        : metallicFactor === 0);
+    if (packed) {
+      const scale = this.textureScale(roughness.texture!.shader);
+      roughnessFactor = scale[1];
+      metallicFactor = metallic.texture ? scale[2] : 0;
+      this.applyTexture(material, 'metallicRoughness', roughness.texture!.shader);
+    } else if (metallic.texture || roughness.texture) {
+      this.logger.warn(`USD material "${prim.getPath()}": metallic / roughness maps outside glTF's G/B packing are not supported, using the values`);
+    }
+    material.setMetallicFactor(clamp01(metallicFactor)).setRoughnessFactor(clamp01(roughnessFactor));
+
+    // Normal and occlusion maps
+    const normal = this.resolveInput(surface, 'normal');
+    if (normal.texture) {
+      // 8-bit normal maps are authored with scale 2 / bias -1; anything else is a strength change
+      const scale = this.textureScale(normal.texture.shader)[0];
+      this.applyTexture(material, 'normal', normal.texture.shader);
+      if (scale !== 2) material.setNormalScale(scale / 2);
+    }
+    const occlusion = this.resolveInput(surface, 'occlusion');
+    if (occlusion.texture) {
+      this.applyTexture(material, 'occlusion', occlusion.texture.shader);
+    }
+
+    return material;
+  }
+
+  private findSurfaceShader(prim: UsdNode): UsdNode | undefined {
+    const target = readTargets(prim, 'outputs:surface.connect')[0];
+    const connected = target ? this.prims.get(splitConnection(target)[0]) : undefined;
+    if (connected && readToken(connected, 'info:id') === 'UsdPreviewSurface') return connected;
+    return [...prim.getChildren()].find((child) => readToken(child, 'info:id') === 'UsdPreviewSurface');
+  }
+
+  /**
+   * Follow `inputs:<name>.connect` through interface inputs to a texture
+   * output, or read the authored value
+   */
+  private resolveInput(shader: UsdNode, name: string, depth = 0): ResolvedInput {
+    const target = readTargets(shader, `inputs:${name}.connect`)[0];
+    if (target && depth < MAX_CONNECTION_DEPTH) {
+      const [primPath, output] = splitConnection(target);
+      const source = this.prims.get(primPath);
+      if (source && readToken(source, 'info:id') === 'UsdUVTexture') {
+        return { value: undefined, texture: { shader: source, output } };
+      }
+      if (source && output.startsWith('inputs:')) {
+        return this.resolveInput(source, output.slice('inputs:'.length), depth + 1);
+      }
+    }
+    return { value: readNumbers(findAttribute(shader, `inputs:${name}`)), texture: undefined };
+  }
+
+  /** `inputs:scale` of a UsdUVTexture, the converters' home for glTF factors */
+  private textureScale(shader: UsdNode): number[] {
+    const scale = readNumbers(findAttribute(shader, 'inputs:scale'));
+    return scale && scale.length >= 4 ? scale : [1, 1, 1, 1];
+  }
+
+  private assetPath(shader: UsdNode): string | undefined {
+    const file = readToken(shader, 'inputs:file');
+    return file ? path.posix.normalize(path.posix.join(this.layerDirectory, file.replace(/\\/g, '/'))) : undefined;
+  }
+
+  private applyTexture(
+    material: Material,
+    slot: 'baseColor' | 'emissive' | 'metallicRoughness' | 'normal' | 'occlusion',
+    shader: UsdNode
+  ): void {
+    const texture = this.getTexture(shader);
+    if (!texture) return;
+
+    let info: TextureInfo | null;
+    switch (slot) {
+      case 'baseColor': info = material.setBaseColorTexture(texture).getBaseColorTextureInfo(); break;
+      case 'emissive': info = material.setEmissiveTexture(texture).getEmissiveTextureInfo(); break;
+      case 'metallicRoughness': info = material.setMetallicRoughnessTexture(texture).getMetallicRoughnessTextureInfo(); break;
+      case 'normal': info = material.setNormalTexture(texture).getNormalTextureInfo(); break;
+      case 'occlusion': info = material.setOcclusionTexture(texture).getOcclusionTextureInfo(); break;
+    }
+    if (!info) return;
+
+    const wrapS = WRAP_MODES[readToken(shader, 'inputs:wrapS') ?? 'repeat'];
+    const wrapT = WRAP_MODES[readToken(shader, 'inputs:wrapT') ?? 'repeat'];
+    if (wrapS !== undefined) info.setWrapS(wrapS);
+    if (wrapT !== undefined) info.setWrapT(wrapT);
+
+    // st <- [UsdTransform2d <-] UsdPrimvarReader_float2
+    let reader = this.connectedShader(shader, 'st');
+    if (reader && readToken(reader, 'info:id') === 'UsdTransform2d') {
+      this.applyTransform2d(info, reader);
+      reader = this.connectedShader(reader, 'in');
+    }
+    const varname = reader ? this.readVarname(reader) : undefined;
+    info.setTexCoord(varname ? uvSlot(varname) ?? 0 : 0);
+  }
+
+  private connectedShader(shader: UsdNode, input: string): UsdNode | undefined {
+    const target = readTargets(shader, `inputs:${input}.connect`)[0];
+    return target ? this.prims.get(splitConnection(target)[0]) : undefined;
+  }
+
+  /** `inputs:varname`, possibly connected to a Material interface input */
+  private readVarname(reader: UsdNode): string | undefined {
+    const target = readTargets(reader, 'inputs:varname.connect')[0];
+    if (target) {
+      const [primPath, input] = splitConnection(target);
+      const source = this.prims.get(primPath);
+      if (source) return readToken(source, input);
+    }
+    return readToken(reader, 'inputs:varname');
+  }
+
+  /**
+   * UsdTransform2d maps to KHR_texture_transform the way the GLB converter
+   * writes it: rotation in degrees, translation as the offset
+   */
+  private applyTransform2d(info: TextureInfo, transform2d: UsdNode): void {
+    const rotation = readNumber(transform2d, 'inputs:rotation') ?? 0;
+    const scale = readNumbers(findAttribute(transform2d, 'inputs:scale')) ?? [1, 1];
+    const translation = readNumbers(findAttribute(transform2d, 'inputs:translation')) ?? [0, 0];
+    if (rotation === 0 && scale[0] === 1 && scale[1] === 1 && translation[0] === 0 && translation[1] === 0) return;
+
+    this.textureTransform ??= this.document.createExtension(KHRTextureTransform);
+    const transform = this.textureTransform.createTransform()
+      .setRotation((rotation * Math.PI) / 180)
+      .setScale([scale[0], scale[1]])
+      .setOffset([translation[0], translation[1]]);
+    info.setExtension('KHR_texture_transform', transform);
+  }
+
+  private getTexture(shader: UsdNode): Texture | undefined {
+    const assetPath = this.assetPath(shader);
+    if (!assetPath) return undefined;
+
+    const cached = this.textures.get(assetPath);
+    if (cached !== undefined) return cached ?? undefined;
+
+    const image = this.files.get(assetPath) ?? this.files.get(assetPath.replace(/^\.\//, ''));
+    if (!image) {
+      this.logger.warn(`USD texture not found in archive: ${assetPath}`);
+      this.textures.set(assetPath, null);
+      return undefined;
+    }
+
+    const texture = this.document.createTexture(path.posix.basename(assetPath, path.posix.extname(assetPath)))
+      .setImage(image)
+      .setMimeType(detectImageMimeType(image, assetPath))
+      .setURI(path.posix.basename(assetPath));
+    this.textures.set(assetPath, texture);
+    return texture;
+  }
+}
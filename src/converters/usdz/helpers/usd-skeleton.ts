@@ -0,0 +1,148 @@
+/** WebUsdFramework.Converters.Usdz.Helpers.UsdSkeleton - Rebuilds UsdSkel skeletons as glTF joint hierarchies, skins and joint animation */
+
+import { Buffer, Document, MathUtils, Node, Skin, mat4, vec3, vec4 } from '@gltf-transform/core';
+import { UsdNode } from '../../../core/usd-node';
+import { Mat4, invert, multiply } from '../../fbx/fbx-transform';
+import { UsdAnimationWriter, alignQuaternions, isConstantTrack } from './usd-animation';
+import { parseSamples } from './usd-transform';
+import { findAttribute, findTimeSamples, readMatrices, readNumbers, readTokens, toGltfQuaternion } from './usd-values';
+
+/**
+ * Joint nodes and skin of one `Skeleton` prim, in its `joints` order
+ */
+export interface UsdSkeletonBinding {
+  skin: Skin;
+  jointNames: string[];
+  jointNodes: Node[];
+}
+
+/**
+ * SkelAnimation attributes and the node property they drive
+ */
+const JOINT_TRACKS = [
+  { attribute: 'translations', path: 'translation', size: 3 },
+  { attribute: 'rotations', path: 'rotation', size: 4 },
+  { attribute: 'scales', path: 'scale', size: 3 },
+] as const;
+
+/**
+ * Create a node per joint under `parent` (the Skeleton prim's node), posed
+ * at `restTransforms` (or the bind pose when those are missing), and a skin
+ * whose inverse bind matrices invert `bindTransforms`.
+ *
+ * Joint paths (`Hips/Spine`) give the hierarchy; joints whose parent path
+ * is not a joint hang off the skeleton node.
+ */
+export function buildSkeleton(document: Document, buffer: Buffer, skeleton: UsdNode, parent: Node): UsdSkeletonBinding {
+  const jointNames = readTokens(findAttribute(skeleton, 'joints')) ?? [];
+  const bindTransforms = readMatrices(findAttribute(skeleton, 'bindTransforms'));
+  const restTransforms = readMatrices(findAttribute(skeleton, 'restTransforms'));
+  const indexByName = new Map(jointNames.map((name, i) => [name, i]));
+  const parentIndex = jointNames.map((name) => {
+    const slash = name.lastIndexOf('/');
+    return slash < 0 ? -1 : indexByName.get(name.slice(0, slash)) ?? -1;
+  });
+
+  const jointNodes = jointNames.map((name, i) => {
+    const node = document.createNode(name.slice(name.lastIndexOf('/') + 1));
+    let local = restTransforms[i];
+    if (!local && bindTransforms[i]) {
+      const parentBind = parentIndex[i] >= 0 ? bindTransforms[parentIndex[i]] : undefined;
+      local = parentBind ? multiply(invert(parentBind), bindTransforms[i]) : bindTransforms[i];
+    }
+    if (local) setNodeMatrix(node, local);
+    return node;
+  });
+  jointNodes.forEach((node, i) => (parentIndex[i] >= 0 ? jointNodes[parentIndex[i]] : parent).addChild(node));
+
+  // Bind transforms default to the rest pose in skeleton space
+  const worldRest: Mat4[] = [];
+  const restWorld = (i: number): Mat4 => {
+    if (!worldRest[i]) {
+      const local = restTransforms[i] ?? Float64Array.from(jointNodes[i].getMatrix());
+      worldRest[i] = parentIndex[i] >= 0 ? multiply(restWorld(parentIndex[i]), local) : local;
+    }
+    return worldRest[i];
+  };
+
+  const skin = document.createSkin(skeleton.getName());
+  const inverseBindMatrices = new Float32Array(jointNames.length * 16);
+  jointNodes.forEach((node, i) => {
+    skin.addJoint(node);
+    inverseBindMatrices.set(invert(bindTransforms[i] ?? restWorld(i)), i * 16);
+  });
+  if (jointNodes.length > 0) {
+    skin.setSkeleton(parent).setInverseBindMatrices(
+      document.createAccessor().setType('MAT4').setArray(inverseBindMatrices).setBuffer(buffer)
+    );
+  }
+  return { skin, jointNames, jointNodes };
+}
+
+/**
+ * Mesh joint index → skin joint index, for meshes that bind a subset of
+ * the skeleton with `skel:joints`
+ */
+export function readJointMap(mesh: UsdNode, binding: UsdSkeletonBinding): number[] | undefined {
+  const meshJoints = readTokens(findAttribute(mesh, 'skel:joints'));
+  if (!meshJoints) return undefined;
+  const indexByName = new Map(binding.jointNames.map((name, i) => [name, i]));
+  return meshJoints.map((name) => indexByName.get(name) ?? 0);
+}
+
+/**
+ * Pose joints from a `SkelAnimation`: time-sampled tracks become channels
+ * (joints that never move are posed instead), static values replace the rest pose
+ */
+export function applySkelAnimation(animation: UsdNode, binding: UsdSkeletonBinding, writer: UsdAnimationWriter): void {
+  const indexByName = new Map(binding.jointNames.map((name, i) => [name, i]));
+  const targets = (readTokens(findAttribute(animation, 'joints')) ?? []).map((name) => {
+    const index = indexByName.get(name);
+    return index === undefined ? undefined : binding.jointNodes[index];
+  });
+
+  for (const { attribute, path, size } of JOINT_TRACKS) {
+    const pose = (node: Node, value: number[]) => {
+      if (path === 'translation') node.setTranslation(value as vec3);
+      else if (path === 'scale') node.setScale(value as vec3);
+      else node.setRotation(value as vec4);
+    };
+    const element = (values: number[], j: number): number[] | undefined => {
+      const raw = values.slice(j * size, (j + 1) * size);
+      if (raw.length < size) return undefined;
+      return path === 'rotation' ? toGltfQuaternion(raw) : raw;
+    };
+
+    const samples = findTimeSamples(animation, attribute);
+    if (!samples) {
+      const values = readNumbers(findAttribute(animation, attribute));
+      if (!values) continue;
+      targets.forEach((node, j) => {
+        const value = element(values, j);
+        if (node && value) pose(node, value);
+      });
+      continue;
+    }
+
+    const parsed = parseSamples(samples);
+    const timeCodes = [...parsed.keys()];
+    targets.forEach((node, j) => {
+      if (!node) return;
+      const track = new Float32Array(timeCodes.length * size);
+      for (let f = 0; f < timeCodes.length; f++) {
+        track.set(element(parsed.get(timeCodes[f])!, j) ?? track.subarray((f - 1) * size, f * size), f * size);
+      }
+      if (path === 'rotation') alignQuaternions(track);
+      if (isConstantTrack(track, size)) pose(node, Array.from(track.subarray(0, size)));
+      else writer.addChannel(node, path, timeCodes, track);
+    });
+  }
+}
+
+export function setNodeMatrix(node: Node, matrix: Mat4): void {
+  const t: vec3 = [0, 0, 0];
+  const r: vec4 = [0, 0, 0, 1];
+  const s: vec3 = [1, 1, 1];
+  MathUtils.decompose(Array.from(matrix) as mat4, t, r, s);
+  node.setTranslation(t).setRotation(r).setScale(s);
+}
@@ -0,0 +1,124 @@
+/** WebUsdFramework.Converters.Usdz.Helpers.UsdTransform - Evaluates UsdGeomXformable op stacks into local matrices */
+
+import { MathUtils, mat4 } from '@gltf-transform/core';
+import { UsdNode } from '../../../core/usd-node';
+import { Mat4, eulerRotation, identity, invert, multiply, scaling, translation } from '../../fbx/fbx-transform';
+import { findAttribute, findTimeSamples, readNumbers, readTokens, toGltfQuaternion } from './usd-values';
+
+/** Euler op suffixes in `eulerRotation` order index */
+const ROTATION_ORDERS = ['XYZ', 'XZY', 'YZX', 'YXZ', 'ZXY', 'ZYX'];
+
+/**
+ * One entry of `xformOpOrder`, with its static value and time samples
+ */
+interface XformOp {
+  /** `translate`, `orient`, `rotateXYZ`, `transform`, ... */
+  kind: string;
+  inverse: boolean;
+  value: number[] | undefined;
+  samples: Map<number, number[]> | undefined;
+}
+
+/**
+ * The op stack of an Xformable prim, evaluated at any time code
+ */
+export class UsdXformStack {
+  private readonly ops: XformOp[];
+
+  constructor(prim: UsdNode) {
+    this.ops = [];
+    for (const entry of readTokens(findAttribute(prim, 'xformOpOrder')) ?? []) {
+      // `!resetXformStack!` only matters for inherited transforms, which glTF always applies
+      if (entry === '!resetXformStack!') continue;
+      const inverse = entry.startsWith('!invert!');
+      const name = inverse ? entry.slice('!invert!'.length) : entry;
+      const samples = findTimeSamples(prim, name);
+      this.ops.push({
+        kind: name.split(':')[1] ?? '',
+        inverse,
+        value: readNumbers(findAttribute(prim, name)),
+        samples: samples ? parseSamples(samples) : undefined,
+      });
+    }
+  }
+
+  /** Sorted time codes at which any op is sampled */
+  get timeCodes(): number[] {
+    const codes = new Set<number>();
+    for (const op of this.ops) for (const code of op.samples?.keys() ?? []) codes.add(code);
+    return [...codes].sort((a, b) => a - b);
+  }
+
+  get isEmpty(): boolean {
+    return this.ops.length === 0;
+  }
+
+  /**
+   * Local matrix at a time code (or the static values); ops multiply in
+   * `xformOpOrder`, so the last op applies to points first
+   */
+  evaluate(timeCode?: number): Mat4 {
+    let local = identity();
+    for (const op of this.ops) {
+      const value = op.samples && timeCode !== undefined ? interpolate(op.samples, timeCode) : op.value ?? firstSample(op.samples);
+      if (!value) continue;
+      const matrix = opMatrix(op.kind, value);
+      if (matrix) local = multiply(local, op.inverse ? invert(matrix) : matrix);
+    }
+    return local;
+  }
+}
+
+function opMatrix(kind: string, value: number[]): Mat4 | undefined {
+  switch (kind) {
+    case 'translate': return translation(value);
+    case 'scale': return scaling(value);
+    case 'transform': return value.length >= 16 ? Float64Array.from(value.slice(0, 16)) : undefined;
+    case 'orient': {
+      const out = new Array(16).fill(0) as mat4;
+      return Float64Array.from(MathUtils.compose([0, 0, 0], toGltfQuaternion(value), [1, 1, 1], out));
+    }
+    case 'rotateX': return eulerRotation([value[0], 0, 0]);
+    case 'rotateY': return eulerRotation([0, value[0], 0]);
+    case 'rotateZ': return eulerRotation([0, 0, value[0]]);
+    default: {
+      const order = ROTATION_ORDERS.indexOf(kind.replace(/^rotate/, ''));
+      return order >= 0 ? eulerRotation(value, order) : undefined;
+    }
+  }
+}
+
+/**
+ * Parse time-sampled USDA literals into number lists keyed by time code
+ */
+export function parseSamples(samples: ReadonlyMap<number, string>): Map<number, number[]> {
+  const out = new Map<number, number[]>();
+  for (const timeCode of [...samples.keys()].sort((a, b) => a - b)) {
+    const values = readNumbers(samples.get(timeCode));
+    if (values) out.set(timeCode, values);
+  }
+  return out;
+}
+
+function firstSample(samples: Map<number, number[]> | undefined): number[] | undefined {
+  return samples?.values().next().value;
+}
+
+/**
+ * Linear interpolation between the bracketing samples, held past either end
+ * (USD's default for time samples). Quaternions are renormalized later.
+ */
+export function interpolate(samples: Map<number, number[]>, timeCode: number): number[] | undefined {
+  const exact = samples.get(timeCode);
+  if (exact) return exact;
+  let before: [number, number[]] | undefined;
+  let after: [number, number[]] | undefined;
+  for (const entry of samples) {
+    if (entry[0] <= timeCode) before = entry;
+    else if (!after) after = entry;
+  }
+  if (!before) return after?.[1];
+  if (!after) return before[1];
+  const t = (timeCode - before[0]) / (after[0] - before[0]);
+  return before[1].map((v, i) => v + ((after![1][i] ?? v) - v) * t);
+}
@@ -0,0 +1,160 @@
+/** WebUsdFramework.Converters.Usdz.Helpers.UsdValues - Typed attribute lookups on UsdNode trees read back from USDA or USDC */
+
+import { UsdNode } from '../../../core/usd-node';
+import type { Mat4 } from '../../fbx/fbx-transform';
+import { parseUsdaNumbers, parseUsdaStringList, unquoteUsdaString } from '../../shared/usdc/usda-value-parser';
+
+export type UsdValue = NonNullable<ReturnType<UsdNode['getProperty']>>;
+
+/**
+ * Attribute name of a property key: `uniform token[] joints` → `joints`,
+ * `rel skel:skeleton` → `skel:skeleton`
+ */
+export function attributeName(key: string): string {
+  return key.slice(key.lastIndexOf(' ') + 1);
+}
+
+/**
+ * Declared type of a property key (`point3f[] points` → `point3f[]`), or
+ * undefined for untyped keys
+ */
+export function attributeTypeName(key: string): string | undefined {
+  const words = key.split(' ');
+  return words.length >= 2 ? words[words.length - 2] : undefined;
+}
+
+/**
+ * Authored value of an attribute, whatever qualifiers its key carries.
+ * Declarations without a value (`token outputs:surface`) are skipped.
+ */
+export function findAttribute(node: UsdNode, name: string): UsdValue | undefined {
+  for (const property of node.getProperties()) {
+    if (attributeName(property.key) !== name) continue;
+    if (property.value === '' && property.type === undefined) continue;
+    return property.value as UsdValue;
+  }
+  return undefined;
+}
+
+/**
+ * Full key of an attribute (`texCoord2f[] primvars:st`), for type checks
+ */
+export function findAttributeKey(node: UsdNode, name: string): string | undefined {
+  for (const property of node.getProperties()) {
+    if (attributeName(property.key) === name) return property.key;
+  }
+  return undefined;
+}
+
+/**
+ * Time samples of an attribute as USDA literals keyed by time code
+ */
+export function findTimeSamples(node: UsdNode, name: string): ReadonlyMap<number, string> | undefined {
+  for (const property of node.getTimeSampledProperties()) {
+    if (attributeName(property.key) === name && property.timeSamples.size > 0) return property.timeSamples;
+  }
+  return undefined;
+}
+
+/**
+ * Every number in a value: typed arrays and number arrays from USDC
+ * layers, USDA literals (`"[(0, 1), (1, 1)]"`) from text layers
+ */
+export function readNumbers(value: UsdValue | undefined): number[] | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') return [value];
+  if (typeof value === 'boolean') return [value ? 1 : 0];
+  if (typeof value === 'string') return parseUsdaNumbers(value) ?? undefined;
+  if (ArrayBuffer.isView(value)) return Array.from(value as unknown as ArrayLike<number>);
+  if (Array.isArray(value)) {
+    const out: number[] = [];
+    for (const item of value) {
+      if (typeof item === 'number') out.push(item);
+      else if (typeof item === 'boolean') out.push(item ? 1 : 0);
+      else if (typeof item === 'string') {
+        const parsed = parseUsdaNumbers(item);
+        if (!parsed) return undefined;
+        out.push(...parsed);
+      } else return undefined;
+    }
+    return out;
+  }
+  return undefined;
+}
+
+export function readNumber(node: UsdNode, name: string): number | undefined {
+  return readNumbers(findAttribute(node, name))?.[0];
+}
+
+export function readBool(node: UsdNode, name: string): boolean | undefined {
+  const value = findAttribute(node, name);
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return value.trim() === 'true' || value.trim() === '1';
+  return Boolean(readNumbers(value)?.[0]);
+}
+
+/**
+ * Token, string or asset array: `string[]` from USDC, `'["a", "b"]'` from USDA
+ */
+export function readTokens(value: UsdValue | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) return value.map((item) => unquoteUsdaString(String(item)));
+  if (typeof value === 'string') return parseUsdaStringList(value) ?? [unquoteUsdaString(value.trim())];
+  return undefined;
+}
+
+export function readToken(node: UsdNode, name: string): string | undefined {
+  const value = findAttribute(node, name);
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? unquoteUsdaString(value.trim()) : readTokens(value)?.[0];
+}
+
+/**
+ * Target paths of a relationship or connection: `</A>`, `[</A>, </B>]`
+ */
+export function readTargets(node: UsdNode, name: string): string[] {
+  const value = findAttribute(node, name);
+  const text = Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : '';
+  return [...text.matchAll(/<([^>]*)>/g)].map((match) => match[1]);
+}
+
+/**
+ * Split a connection target into its prim path and output name:
+ * `/Mat/Tex.outputs:rgb` → `['/Mat/Tex', 'rgb']`
+ */
+export function splitConnection(target: string): [string, string] {
+  const dot = target.lastIndexOf('.');
+  if (dot < 0) return [target, ''];
+  return [target.slice(0, dot), target.slice(dot + 1).replace(/^outputs:/, '')];
+}
+
+/**
+ * Group a flat number list into `size`-wide tuples
+ */
+export function chunk(values: readonly number[], size: number): number[][] {
+  const out: number[][] = [];
+  for (let i = 0; i + size <= values.length; i += size) out.push(values.slice(i, i + size));
+  return out;
+}
+
+/**
+ * USD matrices are row-major with row vectors, which lays them out in
+ * memory exactly like glTF's column-major, column-vector matrices.
+ */
+export function readMatrices(value: UsdValue | undefined): Mat4[] {
+  return chunk(readNumbers(value) ?? [], 16).map((m) => Float64Array.from(m));
+}
+
+/** USD quaternions are real-first: `(w, x, y, z)` → glTF `[x, y, z, w]` */
+export function toGltfQuaternion(wxyz: readonly number[]): [number, number, number, number] {
+  const [w, x, y, z] = wxyz;
+  const length = Math.hypot(w, x, y, z) || 1;
+  return [x / length, y / length, z / length, w / length];
+}
+
+/**
+ * Time codes of sampled values, in ascending order
+ */
+export function sortedTimeCodes(samples: ReadonlyMap<number, string>): number[] {
+  return [...samples.keys()].sort((a, b) => a - b);
+}
@@ -0,0 +1,17 @@
+/**
+ * USDZ Reader
+ *
+ * Entry point for decoding USDZ archives and loose USDC / USDA layers back into UsdNode trees
+ * or glTF documents, and for validating archives against the USDZ / ARKit rules.
+ */
+
+export { readUsdz, type UsdzReadResult } from './usdz-reader';
+export { readUsdzDocument, convertUsdzToGlb } from './usdz-to-gltf';
+export {
+  validateUsdz,
+  USDZ_VALIDATION_RULES,
+  type UsdzValidationReport,
+  type UsdzValidationIssue,
+  type UsdzValidationRule,
+  type UsdzValidationSeverity
+} from './usdz-validator';
@@ -0,0 +1,167 @@
+/** WebUsdFramework.Converters.Usdz.UsdzReader - Opens USDZ archives / loose USD layers and rebuilds the UsdNode tree */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsdNode } from '../../core/usd-node';
+import { UsdErrorFactory } from '../../errors';
+import { UsdzZipReader } from '../shared/usdz-zip-reader';
+import { USDC_MAGIC } from '../shared/usdc-writer';
+import { readUsdcLayer, type LayerReadReport } from '../shared/usdc/layer-reader';
+import { readUsdaLayer, UsdaSyntaxError } from '../shared/usda';
+import type { LayerFormat } from '../shared/usd-packaging';
+
+/** USD layer extensions a USDZ root layer may use. */
+const USD_LAYER_EXTENSIONS = ['.usdc', '.usda', '.usd'];
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]; // 'PK\3\4'
+const USDA_MAGIC = [0x23, 0x75, 0x73, 0x64, 0x61]; // '#usda'
+
+/**
+ * Result of reading a USDZ archive or a loose USD layer
+ */
+export interface UsdzReadResult {
+  /** Default prim of the root layer (falls back to its first root prim) */
+  root: UsdNode;
+  /** Every root prim of the root layer, in namespace order */
+  prims: UsdNode[];
+  layerFormat: LayerFormat;
+  /** Archive path of the root layer (`model.usdc`), or the file name for loose layers */
+  rootLayerName: string;
+  /** Layer header: `defaultPrim`, `upAxis`, `metersPerUnit`, `customLayerData`, ... */
+  layerMetadata: Record<string, unknown>;
+  /** Fields the reader could not map onto the UsdNode tree */
+  report: LayerReadReport;
+  /** Every other file in the archive (textures, geometry layers), keyed by archive path */
+  files: Map<string, Uint8Array>;
+}
+
+/**
+ * Read a `.usdz` archive or a loose `.usdc` / `.usda` layer back into a
+ * `UsdNode` tree.
+ *
+ * The root layer is the first USD layer in the archive, as the USDZ spec
+ * requires; binary and text root layers are told apart by their magic bytes
+ * (`.usd` may be either). Its properties, metadata and time samples are keyed the same way
+ * the converters key them, so the result can be edited and re-packaged with
+ * `createUsdzPackage` or serialized with `serializeToUsda()`.
+ *
+ * @param input - File path, or the archive / layer bytes
+ *
+ * @example
+ * ```typescript
+ * const { root, files } = await readUsdz('./model.usdz');
+ * for (const child of root.getChildren()) console.log(child.getPath());
+ * ```
+ */
+export async function readUsdz(input: string | ArrayBuffer | Uint8Array): Promise<UsdzReadResult> {
+  let bytes: Uint8Array;
+  let sourceName: string | undefined;
+  if (typeof input === 'string') {
+    const filePath = path.resolve(input);
+    if (!fs.existsSync(filePath)) {
+      throw UsdErrorFactory.fileSystemError(`File not found: ${filePath}`, filePath, 'read');
+    }
+    const buffer = await fs.promises.readFile(filePath);
+    bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    sourceName = path.basename(filePath);
+  } else {
+    bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  }
+
+  if (startsWith(bytes, USDC_MAGIC)) {
+    return decodeRootLayer(sourceName ?? 'layer.usdc', bytes, new Map());
+  }
+  if (startsWith(bytes, USDA_MAGIC)) {
+    return decodeRootLayer(sourceName ?? 'layer.usda', bytes, new Map());
+  }
+  if (!startsWith(bytes, ZIP_MAGIC)) {
+    throw UsdErrorFactory.conversionError(
+      'Input is neither a USDZ archive nor a USD layer',
+      'usdz_read',
+      { source: sourceName ?? 'buffer' }
+    );
+  }
+
+  const archive = new UsdzZipReader(bytes);
+  const rootEntry = archive.entries.find(e =>
+    USD_LAYER_EXTENSIONS.includes(path.extname(e.name).toLowerCase())
+  );
+  if (!rootEntry) {
+    throw UsdErrorFactory.conversionError('USDZ archive contains no USD layer', 'usdz_read', {
+      entries: archive.entries.map(e => e.name),
+    });
+  }
+
+  const files = new Map<string, Uint8Array>();
+  for (const entry of archive.entries) {
+    if (entry !== rootEntry) files.set(entry.name, archive.readFile(entry));
+  }
+  return decodeRootLayer(rootEntry.name, archive.readFile(rootEntry), files);
+}
+
+function decodeRootLayer(name: string, bytes: Uint8Array, files: Map<string, Uint8Array>): UsdzReadResult {
+  if (!startsWith(bytes, USDC_MAGIC)) {
+    return decodeTextLayer(name, bytes, files);
+  }
+
+  try {
+    const layer = readUsdcLayer(bytes);
+    return {
+      root: layer.root,
+      prims: layer.prims,
+      layerFormat: 'usdc',
+      rootLayerName: name,
+      layerMetadata: layer.layerMetadata,
+      report: layer.report,
+      files,
+    };
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw UsdErrorFactory.conversionError(
+        `Failed to decode USDC layer ${name}: ${error.message}`,
+        'usdc_decode',
+        { layer: name }
+      );
+    }
+    throw error;
+  }
+}
+
+function decodeTextLayer(name: string, bytes: Uint8Array, files: Map<string, Uint8Array>): UsdzReadResult {
+  try {
+    const layer = readUsdaLayer(new TextDecoder('utf-8').decode(bytes));
+    return {
+      root: layer.root,
+      prims: layer.prims,
+      layerFormat: 'usda',
+      rootLayerName: name,
+      layerMetadata: layer.layerMetadata,
+      report: layer.report,
+      files,
+    };
+  } catch (error) {
+    if (error instanceof UsdaSyntaxError) {
+      throw UsdErrorFactory.conversionError(
+        `Failed to parse USDA layer ${name}: ${error.message}`,
+        'usda_parse',
+        { layer: name, line: error.line, column: error.column }
+      );
+    }
+    if (error instanceof RangeError) {
+      throw UsdErrorFactory.conversionError(
+        `Failed to read USDA layer ${name}: ${error.message}`,
+        'usda_parse',
+        { layer: name }
+      );
+    }
+    throw error;
+  }
+}
+
+function startsWith(bytes: Uint8Array, magic: ReadonlyArray<number>): boolean {
+  if (bytes.length < magic.length) return false;
+  for (let i = 0; i < magic.length; i++) {
+    if (bytes[i] !== magic[i]) return false;
+  }
+  return true;
+}
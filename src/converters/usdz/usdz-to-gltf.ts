@@ -0,0 +1,412 @@
+/** WebUsdFramework.Converters.Usdz.UsdzToGltf - Rebuilds glTF-Transform documents from USDZ archives and USD layers */
+
+import * as path from 'path';
+import { Buffer as GltfBuffer, Document, Mesh, Node, NodeIO, MathUtils, mat4, vec3, vec4 } from '@gltf-transform/core';
+import { KHRTextureTransform } from '@gltf-transform/extensions';
+import { UsdNode } from '../../core/usd-node';
+import { Logger, LoggerFactory } from '../../utils';
+import { Mat4, eulerRotation, multiply, scaling } from '../fbx/fbx-transform';
+import { readUsdz, type UsdzReadResult } from './usdz-reader';
+import { UsdAnimationWriter, alignQuaternions, isConstantTrack } from './helpers/usd-animation';
+import { UsdTriangleGroup, buildMeshGeometry, readGeomBindTransform } from './helpers/usd-geometry';
+import { UsdMaterialBuilder } from './helpers/usd-materials';
+import { UsdSkeletonBinding, applySkelAnimation, buildSkeleton, readJointMap, setNodeMatrix } from './helpers/usd-skeleton';
+import { UsdXformStack, interpolate, parseSamples } from './helpers/usd-transform';
+import { findAttribute, findTimeSamples, readBool, readNumbers, readTargets, readTokens } from './helpers/usd-values';
+
+/** USD's default when a layer does not author `timeCodesPerSecond` */
+const DEFAULT_TIME_CODES_PER_SECOND = 24;
+
+/** Prim types that describe shading, skeleton data or geometry parts rather than scene nodes */
+const NON_NODE_TYPES = new Set(['Material', 'Shader', 'NodeGraph', 'GeomSubset', 'BlendShape', 'SkelAnimation']);
+
+/**
+ * State shared while converting one stage
+ */
+interface StageContext {
+  document: Document;
+  buffer: GltfBuffer;
+  logger: Logger;
+  /** Every prim by path, variant contents included */
+  prims: Map<string, UsdNode>;
+  nodes: Map<string, Node>;
+  meshes: UsdNode[];
+  skeletons: UsdNode[];
+  animation: UsdAnimationWriter;
+}
+
+/**
+ * Read a `.usdz` archive or a loose `.usdc` / `.usda` layer into a
+ * glTF-Transform document.
+ *
+ * - `Xform` / `Scope` / `SkelRoot` prims become nodes; `xformOpOrder` is
+ *   evaluated into TRS, and time-sampled ops into node animation
+ * - `Mesh` prims are fan-triangulated and split by GeomSubset material
+ *   bindings, with normals, `st` / `st<n>` texture coordinates (V flipped
+ *   back), `displayColor`, joint influences and `BlendShape` morph targets
+ * - `Material` prims with a `UsdPreviewSurface` become PBR materials; their
+ *   `UsdUVTexture` inputs are read from the archive, with factors taken
+ *   from `inputs:scale` and `UsdTransform2d` as KHR_texture_transform
+ * - `Skeleton` prims become joint hierarchies and skins; `SkelAnimation`
+ *   tracks and blend shape weights join the node animation in one glTF
+ *   animation, timed by the layer's `timeCodesPerSecond`
+ *
+ * Z-up stages and `metersPerUnit` other than 1 are converted to glTF's
+ * Y-up meters through a `RootNode`. Selected variants are followed;
+ * references and payloads are not.
+ */
+export async function readUsdzDocument(input: string | ArrayBuffer | Uint8Array): Promise<Document> {
+  const logger = LoggerFactory.forConversion();
+  const stage = await readUsdz(input);
+  logger.info('USD stage read', {
+    stage: 'usdz_reading',
+    layerFormat: stage.layerFormat,
+    rootLayer: stage.rootLayerName,
+    primCount: stage.prims.length,
+    fileCount: stage.files.size
+  });
+  return buildDocument(stage, logger);
+}
+
+/**
+ * Convert a USDZ archive (or a loose USD layer) to a GLB buffer
+ */
+export async function convertUsdzToGlb(input: string | ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+  const document = await readUsdzDocument(input);
+  const glb = await new NodeIO().registerExtensions([KHRTextureTransform]).writeBinary(document);
+  return glb.buffer.slice(glb.byteOffset, glb.byteOffset + glb.byteLength) as ArrayBuffer;
+}
+
+function buildDocument(stage: UsdzReadResult, logger: Logger): Document {
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const gltfScene = document.createScene(String(stage.layerMetadata.defaultPrim ?? 'Scene'));
+  document.getRoot().setDefaultScene(gltfScene);
+
+  const metadata = stage.layerMetadata;
+  const timeCodesPerSecond = Number(metadata.timeCodesPerSecond ?? metadata.framesPerSecond ?? DEFAULT_TIME_CODES_PER_SECOND);
+  const context: StageContext = {
+    document,
+    buffer,
+    logger,
+    prims: new Map(),
+    nodes: new Map(),
+    meshes: [],
+    skeletons: [],
+    animation: new UsdAnimationWriter(
+      document,
+      buffer,
+      'Animation',
+      timeCodesPerSecond > 0 ? timeCodesPerSecond : DEFAULT_TIME_CODES_PER_SECOND,
+      Number(metadata.startTimeCode ?? 0)
+    ),
+  };
+  for (const prim of stage.prims) registerPrims(prim, context.prims);
+
+  const roots = stage.prims
+    .map((prim) => convertPrim(prim, context))
+    .filter((node): node is Node => node !== undefined);
+
+  const conversion = stageConversionMatrix(metadata);
+  if (conversion) {
+    const wrapper = document.createNode('RootNode');
+    setNodeMatrix(wrapper, conversion);
+    for (const root of roots) wrapper.addChild(root);
+    gltfScene.addChild(wrapper);
+  } else {
+    for (const root of roots) gltfScene.addChild(root);
+  }
+
+  // Skins before meshes, so skinned meshes can bind to them
+  const skeletons = new Map<string, UsdSkeletonBinding>();
+  for (const skeleton of context.skeletons) {
+    const binding = buildSkeleton(document, buffer, skeleton, context.nodes.get(skeleton.getPath())!);
+    skeletons.set(skeleton.getPath(), binding);
+    const source = animationSource(skeleton, context.prims);
+    if (source) applySkelAnimation(source, binding, context.animation);
+  }
+
+  const materials = new UsdMaterialBuilder(
+    document,
+    context.prims,
+    stage.files,
+    path.posix.dirname(stage.rootLayerName),
+    logger
+  );
+  for (const meshPrim of context.meshes) {
+    const skeletonPath = inheritedTarget(meshPrim, 'skel:skeleton', context.prims);
+    const binding = skeletonPath ? skeletons.get(skeletonPath) : undefined;
+    const node = context.nodes.get(meshPrim.getPath())!;
+    const mesh = buildMesh(meshPrim, binding, materials, context);
+    if (!mesh) continue;
+    node.setMesh(mesh);
+    if (binding && mesh.listPrimitives().some((primitive) => primitive.getAttribute('JOINTS_0'))) {
+      node.setSkin(binding.skin);
+    }
+    if (mesh.getWeights().length > 0) applyBlendShapeWeights(meshPrim, node, mesh, context);
+  }
+
+  const root = document.getRoot();
+  logger.info('USD stage converted', {
+    stage: 'usdz_reading',
+    nodeCount: root.listNodes().length,
+    meshCount: root.listMeshes().length,
+    materialCount: root.listMaterials().length,
+    textureCount: root.listTextures().length,
+    skinCount: root.listSkins().length,
+    animationChannelCount: context.animation.channelCount
+  });
+  return document;
+}
+
+/**
+ * Children of a prim, followed by the children of its selected variants
+ */
+function composedChildren(prim: UsdNode): UsdNode[] {
+  const children = [...prim.getChildren()];
+  for (const { name, variants } of prim.getVariantSets()) {
+    const selected = variants.get(prim.getVariantSelection(name) ?? '') ?? variants.values().next().value;
+    if (selected) children.push(...selected.getChildren());
+  }
+  return children;
+}
+
+function registerPrims(prim: UsdNode, prims: Map<string, UsdNode>): void {
+  prims.set(prim.getPath(), prim);
+  for (const child of composedChildren(prim)) registerPrims(child, prims);
+}
+
+/**
+ * Create the node for a prim and its subtree. Meshes and skeletons are
+ * only collected here; they are built once every node exists.
+ */
+function convertPrim(prim: UsdNode, context: StageContext): Node | undefined {
+  const type = prim.getTypeName();
+  if (NON_NODE_TYPES.has(type) || prim.getMetadata('active') === false) return undefined;
+
+  const node = context.document.createNode(prim.getName());
+  context.nodes.set(prim.getPath(), node);
+  if (type !== 'Scope') applyXform(prim, node, context);
+  if (type === 'Mesh') context.meshes.push(prim);
+  if (type === 'Skeleton') context.skeletons.push(prim);
+
+  for (const child of composedChildren(prim)) {
+    const childNode = convertPrim(child, context);
+    if (childNode) node.addChild(childNode);
+  }
+
+  // Scopes that only held materials leave nothing to show
+  if (type === 'Scope' && node.listChildren().length === 0) {
+    context.nodes.delete(prim.getPath());
+    node.dispose();
+    return undefined;
+  }
+  return node;
+}
+
+/**
+ * Pose a node from its xform ops; time-sampled ops are evaluated at every
+ * sampled time code and written as TRS channels
+ */
+function applyXform(prim: UsdNode, node: Node, context: StageContext): void {
+  const stack = new UsdXformStack(prim);
+  if (stack.isEmpty) return;
+  setNodeMatrix(node, stack.evaluate());
+
+  const timeCodes = stack.timeCodes;
+  if (timeCodes.length === 0) return;
+  const translations = new Float32Array(timeCodes.length * 3);
+  const rotations = new Float32Array(timeCodes.length * 4);
+  const scales = new Float32Array(timeCodes.length * 3);
+  const t: vec3 = [0, 0, 0];
+  const r: vec4 = [0, 0, 0, 1];
+  const s: vec3 = [1, 1, 1];
+  timeCodes.forEach((timeCode, f) => {
+    MathUtils.decompose(Array.from(stack.evaluate(timeCode)) as mat4, t, r, s);
+    translations.set(t, f * 3);
+    rotations.set(r, f * 4);
+    scales.set(s, f * 3);
+  });
+  alignQuaternions(rotations);
+
+  // The node keeps the first sample for channels that never change
+  node.setTranslation([translations[0], translations[1], translations[2]])
+    .setRotation([rotations[0], rotations[1], rotations[2], rotations[3]])
+    .setScale([scales[0], scales[1], scales[2]]);
+  if (!isConstantTrack(translations, 3)) context.animation.addChannel(node, 'translation', timeCodes, translations);
+  if (!isConstantTrack(rotations, 4)) context.animation.addChannel(node, 'rotation', timeCodes, rotations);
+  if (!isConstantTrack(scales, 3)) context.animation.addChannel(node, 'scale', timeCodes, scales);
+}
+
+function buildMesh(
+  meshPrim: UsdNode,
+  binding: UsdSkeletonBinding | undefined,
+  materials: UsdMaterialBuilder,
+  context: StageContext
+): Mesh | undefined {
+  const { document, buffer } = context;
+  const geomBindTransform = binding ? readGeomBindTransform(meshPrim) : undefined;
+  const { groups, displayColor } = buildMeshGeometry(
+    meshPrim,
+    binding ? { geomBindTransform, jointMap: readJointMap(meshPrim, binding) } : undefined
+  );
+  if (groups.length === 0) return undefined;
+
+  const accessor = (type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4', array: Float32Array | Uint16Array | Uint32Array) =>
+    document.createAccessor().setType(type).setArray(array).setBuffer(buffer);
+  const doubleSided = readBool(meshPrim, 'doubleSided') ?? false;
+  const shapes = blendShapes(meshPrim, context.prims);
+  const mesh = document.createMesh(meshPrim.getName());
+
+  for (const group of groups) {
+    const vertexCount = group.positions.length / 3;
+    const primitive = document.createPrimitive()
+      .setAttribute('POSITION', accessor('VEC3', group.positions))
+      .setIndices(accessor('SCALAR', vertexCount <= 0xffff ? Uint16Array.from(group.indices) : group.indices));
+    if (group.normals) primitive.setAttribute('NORMAL', accessor('VEC3', group.normals));
+    group.uvs.forEach((uv, set) => primitive.setAttribute(`TEXCOORD_${set}`, accessor('VEC2', uv)));
+    if (group.colors) primitive.setAttribute('COLOR_0', accessor('VEC4', group.colors));
+    if (binding && group.joints && group.weights) {
+      primitive
+        .setAttribute('JOINTS_0', accessor('VEC4', group.joints))
+        .setAttribute('WEIGHTS_0', accessor('VEC4', group.weights));
+    }
+
+    for (const shape of shapes) {
+      const target = document.createPrimitiveTarget(shape.getName());
+      target.setAttribute('POSITION', accessor('VEC3', blendShapeDeltas(shape, 'offsets', group, geomBindTransform)));
+      if (group.normals && findAttribute(shape, 'normalOffsets') !== undefined) {
+        target.setAttribute('NORMAL', accessor('VEC3', blendShapeDeltas(shape, 'normalOffsets', group, geomBindTransform)));
+      }
+      primitive.addTarget(target);
+    }
+
+    const material = group.materialPath ? materials.getMaterial(group.materialPath, doubleSided) : undefined;
+    primitive.setMaterial(material ?? materials.getDefaultMaterial(displayColor, doubleSided));
+    mesh.addPrimitive(primitive);
+  }
+  if (shapes.length > 0) mesh.setWeights(new Array(shapes.length).fill(0));
+  return mesh;
+}
+
+/**
+ * BlendShape prims of a mesh in `skel:blendShapeTargets` order (the GLB
+ * converter writes the targets to `skel:blendShapes`), else its BlendShape children
+ */
+function blendShapes(meshPrim: UsdNode, prims: Map<string, UsdNode>): UsdNode[] {
+  const targets = readTargets(meshPrim, 'skel:blendShapeTargets');
+  const paths = targets.length > 0 ? targets : readTargets(meshPrim, 'skel:blendShapes');
+  if (paths.length > 0) {
+    return paths.map((target) => prims.get(target)).filter((shape): shape is UsdNode => shape?.getTypeName() === 'BlendShape');
+  }
+  return [...meshPrim.getChildren()].filter((child) => child.getTypeName() === 'BlendShape');
+}
+
+/**
+ * Per-vertex morph deltas from a BlendShape's per-point (or sparse,
+ * `pointIndices`) offsets
+ */
+function blendShapeDeltas(shape: UsdNode, attribute: string, group: UsdTriangleGroup, bindTransform: Mat4 | undefined): Float32Array {
+  const offsets = readNumbers(findAttribute(shape, attribute)) ?? [];
+  const sparse = readNumbers(findAttribute(shape, 'pointIndices'));
+  const slotOfPoint = new Map<number, number>();
+  sparse?.forEach((point, slot) => slotOfPoint.set(point, slot));
+
+  const deltas = new Float32Array(group.pointIndices.length * 3);
+  group.pointIndices.forEach((point, v) => {
+    const slot = sparse ? slotOfPoint.get(point) : point;
+    if (slot === undefined) return;
+    let [x, y, z] = [offsets[slot * 3] ?? 0, offsets[slot * 3 + 1] ?? 0, offsets[slot * 3 + 2] ?? 0];
+    if (bindTransform) {
+      const m = bindTransform;
+      [x, y, z] = [m[0] * x + m[4] * y + m[8] * z, m[1] * x + m[5] * y + m[9] * z, m[2] * x + m[6] * y + m[10] * z];
+    }
+    deltas.set([x, y, z], v * 3);
+  });
+  return deltas;
+}
+
+/**
+ * Morph weights come from the bound SkelAnimation's `blendShapeWeights`
+ * (matched by `skel:blendShapes` name), or from `primvars:blendShapeWeights`
+ * on the mesh or an ancestor, in target order, as the GLB converter writes them
+ */
+function applyBlendShapeWeights(meshPrim: UsdNode, node: Node, mesh: Mesh, context: StageContext): void {
+  const targetCount = mesh.getWeights().length;
+  let order: number[] = Array.from({ length: targetCount }, (_, i) => i);
+  let owner: UsdNode | undefined;
+  let attribute = 'primvars:blendShapeWeights';
+
+  const skeletonPath = inheritedTarget(meshPrim, 'skel:skeleton', context.prims);
+  const skeleton = skeletonPath ? context.prims.get(skeletonPath) : undefined;
+  const source = skeleton ? animationSource(skeleton, context.prims) : undefined;
+  const shapeNames = readTokens(findAttribute(meshPrim, 'skel:blendShapes'));
+  const animationShapes = source ? readTokens(findAttribute(source, 'blendShapes')) : undefined;
+  if (source && animationShapes && shapeNames && !shapeNames.some((name) => name.startsWith('<'))) {
+    owner = source;
+    attribute = 'blendShapeWeights';
+    order = shapeNames.map((name) => animationShapes.indexOf(name));
+  } else {
+    for (let prim: UsdNode | undefined = meshPrim; prim && !owner; prim = parentPrim(prim, context.prims)) {
+      if (findTimeSamples(prim, attribute) || findAttribute(prim, attribute) !== undefined) owner = prim;
+    }
+  }
+  if (!owner) return;
+
+  const pick = (values: number[]) => order.map((index) => (index >= 0 ? values[index] ?? 0 : 0));
+  const samples = findTimeSamples(owner, attribute);
+  if (!samples) {
+    const values = readNumbers(findAttribute(owner, attribute));
+    if (values) mesh.setWeights(pick(values));
+    return;
+  }
+
+  const parsed = parseSamples(samples);
+  const timeCodes = [...parsed.keys()];
+  const weights = new Float32Array(timeCodes.length * targetCount);
+  timeCodes.forEach((timeCode, f) => weights.set(pick(interpolate(parsed, timeCode) ?? []), f * targetCount));
+  mesh.setWeights(Array.from(weights.subarray(0, targetCount)));
+  if (!isConstantTrack(weights, targetCount)) context.animation.addChannel(node, 'weights', timeCodes, weights);
+}
+
+function parentPrim(prim: UsdNode, prims: Map<string, UsdNode>): UsdNode | undefined {
+  const primPath = prim.getPath();
+  const slash = primPath.lastIndexOf('/');
+  return slash > 0 ? prims.get(primPath.slice(0, slash)) : undefined;
+}
+
+/**
+ * First target of a relationship authored on the prim or its nearest
+ * ancestor (UsdSkel bindings are inherited)
+ */
+function inheritedTarget(prim: UsdNode, name: string, prims: Map<string, UsdNode>): string | undefined {
+  for (let current: UsdNode | undefined = prim; current; current = parentPrim(current, prims)) {
+    const target = readTargets(current, name)[0];
+    if (target) return target;
+  }
+  return undefined;
+}
+
+/**
+ * SkelAnimation driving a skeleton: its own `skel:animationSource`, an
+ * inherited one, or a SkelAnimation child
+ */
+function animationSource(skeleton: UsdNode, prims: Map<string, UsdNode>): UsdNode | undefined {
+  const target = inheritedTarget(skeleton, 'skel:animationSource', prims);
+  const source = target ? prims.get(target) : undefined;
+  if (source?.getTypeName() === 'SkelAnimation') return source;
+  return [...skeleton.getChildren()].find((child) => child.getTypeName() === 'SkelAnimation');
+}
+
+/**
+ * Z-up to Y-up rotation and unit scale to meters, or undefined when the
+ * stage already matches glTF
+ */
+function stageConversionMatrix(metadata: Record<string, unknown>): Mat4 | undefined {
+  const zUp = metadata.upAxis === 'Z';
+  const metersPerUnit = Number(metadata.metersPerUnit ?? 1);
+  const unitScale = Number.isFinite(metersPerUnit) && metersPerUnit > 0 ? metersPerUnit : 1;
+  if (!zUp && unitScale === 1) return undefined;
+  const rotation = zUp ? eulerRotation([-90, 0, 0]) : scaling([1, 1, 1]);
+  return multiply(scaling([unitScale, unitScale, unitScale]), rotation);
+}
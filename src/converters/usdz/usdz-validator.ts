@@ -0,0 +1,423 @@
+/** WebUsdFramework.Converters.Usdz.UsdzValidator - Checks USDZ archives against the USDZ spec and ARKit/QuickLook rules */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsdNode } from '../../core/usd-node';
+import { ZIP_CONSTANTS } from '../../constants';
+import { UsdErrorFactory } from '../../errors';
+import { UsdzZipReader } from '../shared/usdz-zip-reader';
+import { getTextureExtensionFromData } from '../shared/usd-packaging';
+import { readUsdz, type UsdzReadResult } from './usdz-reader';
+
+/**
+ * Rules checked by `validateUsdz`
+ */
+export const USDZ_VALIDATION_RULES = {
+  'zip.archive': 'Input is a readable zip archive',
+  'zip.alignment': 'Every file\'s data starts on a 64-byte boundary',
+  'zip.compression': 'Every file is stored uncompressed',
+  'zip.fileType': 'Every file is a USD layer, PNG/JPEG image or M4A/MP3/WAV audio',
+  'zip.firstLayer': 'The first file in the archive is a USD layer',
+  'stage.readable': 'The root layer decodes',
+  'stage.defaultPrim': '`defaultPrim` is set and names a root prim',
+  'stage.metersPerUnit': '`metersPerUnit` is set to a positive number',
+  'stage.upAxis': '`upAxis` is set to Y or Z',
+  'material.binding': 'Every material binding targets a Material prim',
+  'texture.missing': 'Every texture asset path resolves to a file in the archive',
+  'texture.format': 'Every texture is a PNG or JPEG whose bytes match its extension',
+  'skel.binding': 'Every skel:skeleton targets a Skeleton prim',
+  'skel.animationSource': 'Every skel:animationSource targets a SkelAnimation prim',
+  'skel.root': 'Every skinned prim is under a SkelRoot',
+  'geom.extent': 'Every Mesh / Points prim authors an extent that bounds its points'
+} as const;
+
+export type UsdzValidationRule = keyof typeof USDZ_VALIDATION_RULES;
+
+export type UsdzValidationSeverity = 'error' | 'warning';
+
+/**
+ * One rule violation
+ */
+export interface UsdzValidationIssue {
+  ruleId: UsdzValidationRule;
+  severity: UsdzValidationSeverity;
+  message: string;
+  /** Archive path or prim path the issue points at */
+  path?: string;
+}
+
+/**
+ * Result of validating a USDZ archive
+ */
+export interface UsdzValidationReport {
+  /** No issue has `error` severity */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: UsdzValidationIssue[];
+}
+
+/** Extensions the USDZ spec allows inside a package. */
+const USD_LAYER_EXTENSIONS = new Set(['usda', 'usdc', 'usd']);
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg']);
+const AUDIO_EXTENSIONS = new Set(['m4a', 'mp3', 'wav']);
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]; // 'PK\3\4'
+
+/** Relative slack when checking points against an authored extent. */
+const EXTENT_TOLERANCE = 1e-4;
+
+/**
+ * Validate a `.usdz` archive without the USD toolkit.
+ *
+ * Checks the package layout (64-byte data alignment, stored entries,
+ * allowed file types, a USD layer first), the root layer's stage metadata,
+ * and the prims QuickLook is strict about: material and skeleton
+ * relationships must resolve, textures must be PNG/JPEG files present in
+ * the archive, and geometry should author a valid `extent`.
+ *
+ * Problems with the archive are reported as issues rather than thrown; only
+ * a missing input file throws.
+ *
+ * @param input - File path, or the archive bytes
+ *
+ * @example
+ * ```typescript
+ * const report = await validateUsdz('./model.usdz');
+ * if (!report.valid) {
+ *   for (const issue of report.issues) console.error(`${issue.ruleId}: ${issue.message}`);
+ * }
+ * ```
+ */
+export async function validateUsdz(input: string | ArrayBuffer | Uint8Array): Promise<UsdzValidationReport> {
+  let bytes: Uint8Array;
+  if (typeof input === 'string') {
+    const filePath = path.resolve(input);
+    if (!fs.existsSync(filePath)) {
+      throw UsdErrorFactory.fileSystemError(`File not found: ${filePath}`, filePath, 'read');
+    }
+    const buffer = await fs.promises.readFile(filePath);
+    bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  } else {
+    bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  }
+
+  const issues: UsdzValidationIssue[] = [];
+  const archive = checkArchive(bytes, issues);
+  if (archive) {
+    const stage = await readStage(bytes, issues);
+    if (stage) {
+      checkStageMetadata(stage, issues);
+      checkPrims(stage, archive, issues);
+    }
+  }
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues
+  };
+}
+
+/**
+ * Check the zip layout; returns the reader, or null when the archive cannot be read
+ */
+function checkArchive(bytes: Uint8Array, issues: UsdzValidationIssue[]): UsdzZipReader | null {
+  if (!ZIP_MAGIC.every((byte, i) => bytes[i] === byte)) {
+    issues.push({ ruleId: 'zip.archive', severity: 'error', message: 'Input is not a zip archive' });
+    return null;
+  }
+
+  let archive: UsdzZipReader;
+  try {
+    archive = new UsdzZipReader(bytes);
+  } catch (error) {
+    issues.push({ ruleId: 'zip.archive', severity: 'error', message: `Archive cannot be read: ${errorMessage(error)}` });
+    return null;
+  }
+
+  const first = archive.entries[0];
+  if (!first || !USD_LAYER_EXTENSIONS.has(extensionOf(first.name))) {
+    issues.push({
+      ruleId: 'zip.firstLayer',
+      severity: 'error',
+      message: first ? `First file ${first.name} is not a USD layer` : 'Archive is empty',
+      ...(first ? { path: first.name } : {})
+    });
+  }
+
+  for (const entry of archive.entries) {
+    if (entry.dataOffset % ZIP_CONSTANTS.ALIGNMENT_BYTES !== 0) {
+      issues.push({
+        ruleId: 'zip.alignment',
+        severity: 'error',
+        message: `Data of ${entry.name} starts at offset ${entry.dataOffset}, not a multiple of ${ZIP_CONSTANTS.ALIGNMENT_BYTES}`,
+        path: entry.name
+      });
+    }
+    if (entry.compressionMethod !== ZIP_CONSTANTS.COMPRESSION_STORE) {
+      issues.push({
+        ruleId: 'zip.compression',
+        severity: 'error',
+        message: `${entry.name} is compressed (method ${entry.compressionMethod}); USDZ files must be stored`,
+        path: entry.name
+      });
+    }
+    const extension = extensionOf(entry.name);
+    if (!USD_LAYER_EXTENSIONS.has(extension) && !IMAGE_EXTENSIONS.has(extension) && !AUDIO_EXTENSIONS.has(extension)) {
+      issues.push({
+        ruleId: 'zip.fileType',
+        severity: 'error',
+        message: `${entry.name} has a file type USDZ does not allow`,
+        path: entry.name
+      });
+    }
+  }
+
+  return archive;
+}
+
+async function readStage(bytes: Uint8Array, issues: UsdzValidationIssue[]): Promise<UsdzReadResult | null> {
+  try {
+    return await readUsdz(bytes);
+  } catch (error) {
+    issues.push({ ruleId: 'stage.readable', severity: 'error', message: errorMessage(error) });
+    return null;
+  }
+}
+
+function checkStageMetadata(stage: UsdzReadResult, issues: UsdzValidationIssue[]): void {
+  const { defaultPrim, metersPerUnit, upAxis } = stage.layerMetadata;
+  const layer = stage.rootLayerName;
+
+  if (typeof defaultPrim !== 'string' || defaultPrim === '') {
+    issues.push({ ruleId: 'stage.defaultPrim', severity: 'error', message: 'Root layer has no defaultPrim', path: layer });
+  } else if (!stage.prims.some(prim => prim.getName() === defaultPrim)) {
+    issues.push({
+      ruleId: 'stage.defaultPrim',
+      severity: 'error',
+      message: `defaultPrim "${defaultPrim}" is not a root prim of the layer`,
+      path: layer
+    });
+  }
+
+  if (metersPerUnit === undefined) {
+    issues.push({ ruleId: 'stage.metersPerUnit', severity: 'error', message: 'Root layer has no metersPerUnit', path: layer });
+  } else if (typeof metersPerUnit !== 'number' || !(metersPerUnit > 0)) {
+    issues.push({
+      ruleId: 'stage.metersPerUnit',
+      severity: 'error',
+      message: `metersPerUnit must be a positive number, got ${String(metersPerUnit)}`,
+      path: layer
+    });
+  }
+
+  if (upAxis === undefined) {
+    issues.push({ ruleId: 'stage.upAxis', severity: 'error', message: 'Root layer has no upAxis', path: layer });
+  } else if (upAxis !== 'Y' && upAxis !== 'Z') {
+    issues.push({ ruleId: 'stage.upAxis', severity: 'error', message: `upAxis must be Y or Z, got ${String(upAxis)}`, path: layer });
+  }
+}
+
+/**
+ * Check relationships, textures and extents on every prim of the root layer
+ */
+function checkPrims(stage: UsdzReadResult, archive: UsdzZipReader, issues: UsdzValidationIssue[]): void {
+  // Variant children share their owner's namespace, so they are indexed with the rest
+  const primsByPath = new Map<string, UsdNode>();
+  const parents = new Map<UsdNode, UsdNode>();
+  const index = (node: UsdNode, parent?: UsdNode): void => {
+    const existing = primsByPath.get(node.getPath());
+    if (!existing || existing.getTypeName() === '' || existing.getTypeName() === 'over') {
+      primsByPath.set(node.getPath(), node);
+    }
+    if (parent) parents.set(node, parent);
+    for (const child of node.getChildren()) index(child, node);
+    for (const { variants } of node.getVariantSets()) {
+      for (const variant of variants.values()) {
+        for (const child of variant.getChildren()) index(child, node);
+      }
+    }
+  };
+  stage.prims.forEach(prim => index(prim));
+
+  const archiveFiles = new Set(archive.entries.map(entry => entry.name));
+  const checkedTextures = new Set<string>();
+
+  for (const node of parents.keys()) {
+    checkPrim(node);
+  }
+  for (const prim of stage.prims) {
+    checkPrim(prim);
+  }
+
+  function checkPrim(node: UsdNode): void {
+    const primPath = node.getPath();
+    for (const { key, value } of node.getProperties()) {
+      const name = key.slice(key.lastIndexOf(' ') + 1);
+
+      if (name === 'material:binding' || name.startsWith('material:binding:')) {
+        for (const target of relationshipTargets(value)) {
+          if (primsByPath.get(target)?.getTypeName() !== 'Material') {
+            issues.push({
+              ruleId: 'material.binding',
+              severity: 'error',
+              message: `${name} targets ${target}, which is not a Material prim`,
+              path: primPath
+            });
+          }
+        }
+      } else if (name === 'skel:skeleton') {
+        for (const target of relationshipTargets(value)) {
+          if (primsByPath.get(target)?.getTypeName() !== 'Skeleton') {
+            issues.push({
+              ruleId: 'skel.binding',
+              severity: 'error',
+              message: `skel:skeleton targets ${target}, which is not a Skeleton prim`,
+              path: primPath
+            });
+          }
+        }
+        if (!hasSkelRootAncestor(node)) {
+          issues.push({
+            ruleId: 'skel.root',
+            severity: 'error',
+            message: 'Skinned prim is not under a SkelRoot',
+            path: primPath
+          });
+        }
+      } else if (name === 'skel:animationSource') {
+        for (const target of relationshipTargets(value)) {
+          if (primsByPath.get(target)?.getTypeName() !== 'SkelAnimation') {
+            issues.push({
+              ruleId: 'skel.animationSource',
+              severity: 'error',
+              message: `skel:animationSource targets ${target}, which is not a SkelAnimation prim`,
+              path: primPath
+            });
+          }
+        }
+      } else if (key === 'asset inputs:file' && typeof value === 'string') {
+        checkTexture(value.replace(/^@|@$/g, ''), primPath);
+      }
+    }
+
+    const typeName = node.getTypeName();
+    if (typeName === 'Mesh' || typeName === 'Points') {
+      checkExtent(node);
+    }
+  }
+
+  function hasSkelRootAncestor(node: UsdNode): boolean {
+    for (let current = parents.get(node); current; current = parents.get(current)) {
+      if (current.getTypeName() === 'SkelRoot') return true;
+    }
+    return false;
+  }
+
+  function checkTexture(assetPath: string, primPath: string): void {
+    const extension = extensionOf(assetPath);
+    if (!IMAGE_EXTENSIONS.has(extension)) {
+      issues.push({
+        ruleId: 'texture.format',
+        severity: 'error',
+        message: `Texture ${assetPath} is not a PNG or JPEG`,
+        path: primPath
+      });
+      return;
+    }
+    if (!archiveFiles.has(assetPath)) {
+      issues.push({
+        ruleId: 'texture.missing',
+        severity: 'error',
+        message: `Texture ${assetPath} is not in the archive`,
+        path: primPath
+      });
+      return;
+    }
+    if (checkedTextures.has(assetPath)) return;
+    checkedTextures.add(assetPath);
+
+    const header = archive.readFile(assetPath).slice(0, 16);
+    const detected = getTextureExtensionFromData(header.buffer);
+    if (detected !== (extension === 'jpeg' ? 'jpg' : extension)) {
+      issues.push({
+        ruleId: 'texture.format',
+        severity: 'error',
+        message: `Texture ${assetPath} holds ${detected.toUpperCase()} data`,
+        path: assetPath
+      });
+    }
+  }
+
+  function checkExtent(node: UsdNode): void {
+    const extentKey = [...node.getProperties()].find(({ key }) => key.endsWith(' extent'));
+    if (!extentKey) {
+      issues.push({
+        ruleId: 'geom.extent',
+        severity: 'warning',
+        message: `${node.getTypeName()} has no extent`,
+        path: node.getPath()
+      });
+      return;
+    }
+
+    const extent = numbers(extentKey.value);
+    const pointsKey = [...node.getProperties()].find(({ key }) => key.endsWith(' points'));
+    const points = pointsKey ? numbers(pointsKey.value) : [];
+    if (extent.length !== 6 || extent.slice(0, 3).some((min, axis) => min > extent[axis + 3])) {
+      issues.push({
+        ruleId: 'geom.extent',
+        severity: 'warning',
+        message: `extent ${String(extentKey.value)} is not a valid [min, max] box`,
+        path: node.getPath()
+      });
+      return;
+    }
+
+    const size = Math.max(extent[3] - extent[0], extent[4] - extent[1], extent[5] - extent[2], 1);
+    const slack = size * EXTENT_TOLERANCE;
+    for (let i = 0; i + 2 < points.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        const value = points[i + axis];
+        if (value < extent[axis] - slack || value > extent[axis + 3] + slack) {
+          issues.push({
+            ruleId: 'geom.extent',
+            severity: 'warning',
+            message: `Point ${i / 3} lies outside the authored extent`,
+            path: node.getPath()
+          });
+          return;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Prim paths of a relationship value (`</A>`, `[</A>, </B>]` or an array of either)
+ */
+function relationshipTargets(value: unknown): string[] {
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return [...text.matchAll(/<([^>]*)>/g)].map(match => match[1]);
+}
+
+/**
+ * Every number in a USDA-style value string or array, in order
+ */
+function numbers(value: unknown): number[] {
+  if (Array.isArray(value)) {
+    return value.flat(2).map(Number);
+  }
+  return (String(value).match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+}
+
+function extensionOf(name: string): string {
+  return path.extname(name).slice(1).toLowerCase();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
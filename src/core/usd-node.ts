@@ -6,6 +6,7 @@ import {
 } from '../types';
 import { UsdSchemaError } from '../errors';
 import { UsdPathSchema } from '../validation';
+import { logger } from '../utils/logger';
 
 /**
  * USD Property Interface
@@ -29,6 +30,32 @@ interface TimeSampleData {
   type: string;
 }
 
+/**
+ * `[custom] [uniform] type name` — the key shape of a typed attribute
+ */
+const ATTRIBUTE_DECLARATION = /^(?:custom )?(?:(?:uniform|varying|config) )?([A-Za-z]\w*(?:\[\])?) (\S+)$/;
+
+/**
+ * Leading words of two-word keys that are not attributes (`rel skel:skeleton`, `prepend references`)
+ */
+const NON_ATTRIBUTE_KEY_WORDS = new Set(['rel', 'prepend', 'append', 'add', 'delete', 'reorder']);
+
+/**
+ * Split an attribute key into its declared type and name (null for metadata-style keys)
+ */
+function parseAttributeDeclaration(key: string): { typeName: string; name: string } | null {
+  const match = ATTRIBUTE_DECLARATION.exec(key);
+  if (!match || NON_ATTRIBUTE_KEY_WORDS.has(match[1])) return null;
+  return { typeName: match[1], name: match[2] };
+}
+
+/**
+ * apiSchemas with or without a list-op prefix (`prepend apiSchemas`, `apiSchemas`)
+ */
+function isApiSchemasKey(key: string): boolean {
+  return /^(?:(?:prepend|append|add|delete|reorder) )?apiSchemas$/.test(key);
+}
+
 export class UsdNode {
   private _path: UsdPath;
   private _typeName: string;
@@ -36,6 +63,9 @@ export class UsdNode {
   private _children: Map<string, UsdNode>;
   private _properties: USDProperty[] = [];
   private _timeSamples: Map<string, TimeSampleData> = new Map();
+  private _variantSets: Map<string, Map<string, UsdNode>> = new Map();
+  private _variantSelections: Map<string, string> = new Map();
+  private _variantName: string | undefined;
   private _currentPropKey: string = '';
 
   constructor(
@@ -180,6 +210,23 @@ export class UsdNode {
     }
   }
 
+  /**
+   * Iterate every metadata entry on this node, in insertion order.
+   */
+  *getMetadataEntries(): IterableIterator<[string, UsdAttributeValue]> {
+    yield* this._metadata.entries();
+  }
+
+  /**
+   * Iterate every time-sampled property as `{ key, timeSamples, type }`.
+   * The sample maps are the node's own — treat them as read-only.
+   */
+  *getTimeSampledProperties(): IterableIterator<Readonly<{ key: string; timeSamples: ReadonlyMap<number, string>; type: string }>> {
+    for (const [key, data] of this._timeSamples) {
+      yield { key, timeSamples: data.timeSamples, type: data.type };
+    }
+  }
+
   /**
    * Set a time-sampled property for animation
    */
@@ -188,6 +235,66 @@ export class UsdNode {
     return this;
   }
 
+  /**
+   * Declare a variant set on this node (no-op if it already exists)
+   */
+  addVariantSet(setName: string): this {
+    if (!this._variantSets.has(setName)) {
+      this._variantSets.set(setName, new Map());
+    }
+    return this;
+  }
+
+  /**
+   * Get or create a variant of a variant set.
+   *
+   * The returned node holds the variant's opinions: its properties, metadata
+   * and children are written inside `variantSet "set" = { "variant" { ... } }`.
+   * It shares this node's path, so children added to it live under this prim.
+   */
+  addVariant(setName: string, variantName: string): UsdNode {
+    this.addVariantSet(setName);
+    const variants = this._variantSets.get(setName)!;
+    let variant = variants.get(variantName);
+    if (!variant) {
+      variant = new UsdNode(this._path, '');
+      variant._variantName = variantName;
+      variants.set(variantName, variant);
+    }
+    return variant;
+  }
+
+  /**
+   * Select the variant a variant set resolves to (written to `variants = { ... }`)
+   */
+  setVariantSelection(setName: string, variantName: string): this {
+    this._variantSelections.set(setName, variantName);
+    return this;
+  }
+
+  /**
+   * Get the selected variant of a variant set
+   */
+  getVariantSelection(setName: string): string | undefined {
+    return this._variantSelections.get(setName);
+  }
+
+  /**
+   * Iterate every variant set as `{ name, variants }`, in declaration order.
+   */
+  *getVariantSets(): IterableIterator<Readonly<{ name: string; variants: ReadonlyMap<string, UsdNode> }>> {
+    for (const [name, variants] of this._variantSets) {
+      yield { name, variants };
+    }
+  }
+
+  /**
+   * Iterate every variant selection as `[setName, variantName]`.
+   */
+  *getVariantSelections(): IterableIterator<[string, string]> {
+    yield* this._variantSelections.entries();
+  }
+
   /**
    * Serialize this node to USDA format
    */
@@ -264,8 +371,10 @@ export class UsdNode {
         yield "    defaultPrim = \"Root\"\n";
       }
 
-      yield "    metersPerUnit = 1\n";
-      yield "    upAxis = \"Y\"\n";
+      const metersPerUnit = this._metadata.get('metersPerUnit') ?? 1;
+      const upAxis = this._metadata.get('upAxis') ?? 'Y';
+      yield `    metersPerUnit = ${metersPerUnit}\n`;
+      yield `    upAxis = "${upAxis}"\n`;
 
       // Add time code metadata if present (header only)
       const timeCodesPerSecond = this._metadata.get('timeCodesPerSecond');
@@ -301,17 +410,24 @@ export class UsdNode {
     }
 
     const nodeName = this.getName() || "Unnamed";
-    // Use "over" if the typeName starts with "over", otherwise use "def"
-    const defOrOver = this._typeName.startsWith('over') ? 'over' : `def ${this._typeName}`;
+    // "over" / "class" prims carry their specifier in the typeName ("over", "over Xform")
+    const specifierMatch = /^(over|class)(?: (.+))?$/.exec(this._typeName);
+    const defOrOver = specifierMatch
+      ? specifierMatch[0]
+      : this._typeName ? `def ${this._typeName}` : 'def';
+    // Variant bodies are written as `"variantName" { ... }` inside their variantSet block
+    const header = this._variantName !== undefined
+      ? `${space}"${this._variantName}"`
+      : `${space}${defOrOver} "${nodeName}"`;
 
     // Add metadata (exclude header-only keys)
     const timeCodeKeys = ['startTimeCode', 'endTimeCode', 'timeCodesPerSecond', 'framesPerSecond'];
-    const headerOnlyKeys = ['defaultPrim', ...timeCodeKeys];
+    const headerOnlyKeys = ['defaultPrim', 'upAxis', 'metersPerUnit', 'xmpMetadata', ...timeCodeKeys];
 
     // Buffer for properties and metadata to determine if we need parentheses
     // Note: For large arrays, we don't want to buffer everything.
     // But metadata is usually small.
-    let hasMetadata = false;
+    let hasMetadata = this._variantSelections.size > 0 || this._variantSets.size > 0;
     for (const [key] of this._metadata) {
       if (!headerOnlyKeys.includes(key)) {
         hasMetadata = true;
@@ -323,7 +439,7 @@ export class UsdNode {
     const usdContentProp = this._properties.find(p => p.key === "_usdContent");
     if (usdContentProp) {
       // Add node definition without parentheses
-      yield `${space}${defOrOver} "${nodeName}"\n`;
+      yield `${header}\n`;
       yield `${space}{\n`;
       const contentLines = (usdContentProp.value as string).split('\n');
       for (const line of contentLines) {
@@ -341,6 +457,7 @@ export class UsdNode {
     // Filter properties
     const tokenAttributes = this._properties.filter(p =>
       p.type === "token" &&
+      !parseAttributeDeclaration(p.key) &&
       !p.key.startsWith("inputs:") &&
       !p.key.startsWith("outputs:") &&
       !p.key.includes(":") &&
@@ -362,7 +479,7 @@ export class UsdNode {
       !p.key.startsWith("rel ") &&
       p.key !== "xformOpOrder" &&
       !p.key.includes(".connect") &&
-      p.key !== "prepend apiSchemas" &&
+      !isApiSchemasKey(p.key) &&
       p.key !== "prepend references" &&
       !p.key.startsWith("xformOp:") && // Exclude xformOp arrays (they go in body but handled separately)
       !p.key.startsWith("uniform token[]") // Exclude uniform token arrays (handled separately)
@@ -400,14 +517,31 @@ export class UsdNode {
       if (!(p.key.includes('xformOp:translate') ||
         p.key.includes('xformOp:orient') ||
         p.key.includes('xformOp:scale') ||
-        (p.key.includes('xformOp:rotate') && !p.key.includes('xformOp:rotateXYZ')))) {
+        p.key.includes('xformOp:rotate'))) {
         return false;
       }
       return !this._timeSamples.has(p.key);
     });
 
     // Input properties that go in node body (for Lights, etc.)
-    const inputProperties = isShaderNode ? [] : this._properties.filter(p => p.key.includes("inputs:"));
+    const inputProperties = isShaderNode ? [] : this._properties.filter(p => p.key.includes("inputs:") && !p.key.includes(".connect"));
+
+    // Typed attributes no other group claims (e.g. `uniform token familyName`, `double radius`)
+    const builtInKeys = new Set([
+      'uniform token subdivisionScheme', 'token subdivisionScheme',
+      'uniform bool doubleSided', 'bool doubleSided',
+      'uniform token orientation', 'token orientation',
+    ]);
+    const claimedKeys = new Set([
+      ...tokenAttributes, ...tokenConnections, ...relProperties, ...interpolationProperties,
+      ...elementSizeProperties, ...arrayProperties, ...tokenArrayProperties, ...transformProperties,
+      ...simpleTokenProperties, ...xformOpProperties, ...inputProperties,
+    ].map(p => p.key));
+    const attributeProperties = isShaderNode ? [] : this._properties.filter(p =>
+      !claimedKeys.has(p.key) &&
+      !builtInKeys.has(p.key) &&
+      parseAttributeDeclaration(p.key) !== null
+    );
 
     const otherProperties = isShaderNode ? [] : this._properties.filter(p =>
       !p.key.includes("inputs:") && // Exclude inputs - they go in node body
@@ -447,7 +581,8 @@ export class UsdNode {
       !arrayProperties.some(ap => ap.key === p.key) && // Exclude array properties from otherProperties
       !simpleTokenProperties.some(stp => stp.key === p.key) && // Exclude simple token properties from otherProperties
       !tokenArrayProperties.some(tap => tap.key === p.key) && // Exclude token array properties from otherProperties
-      !transformProperties.some(tp => tp.key === p.key) // Exclude transform properties from otherProperties
+      !transformProperties.some(tp => tp.key === p.key) && // Exclude transform properties from otherProperties
+      !attributeProperties.some(ap => ap.key === p.key) // Exclude typed attributes - they go in node body
     );
     const shaderProperties = isShaderNode ? this._properties : [];
 
@@ -455,7 +590,7 @@ export class UsdNode {
     const hasParentheses = hasMetadata || hasProperties;
 
     if (hasParentheses) {
-      yield `${space}${defOrOver} "${nodeName}" (\n`;
+      yield `${header} (\n`;
 
       // Yield metadata
       for (const [key, value] of this._metadata) {
@@ -465,6 +600,19 @@ export class UsdNode {
         yield `${space}    ${key} = ${JSON.stringify(value, null, 4)}\n`;
       }
 
+      // Yield variant selections and variant set names
+      if (this._variantSelections.size > 0) {
+        yield `${space}    variants = {\n`;
+        for (const [setName, variantName] of this._variantSelections) {
+          yield `${space}        string ${setName} = ${JSON.stringify(variantName)}\n`;
+        }
+        yield `${space}    }\n`;
+      }
+      if (this._variantSets.size > 0) {
+        const setNames = Array.from(this._variantSets.keys()).map(name => JSON.stringify(name));
+        yield `${space}    prepend variantSets = [${setNames.join(', ')}]\n`;
+      }
+
       // Yield properties (excluding token attributes)
       for (const prop of otherProperties) {
         // Handle xformOp properties
@@ -492,38 +640,20 @@ export class UsdNode {
 
         if (prop.key === "prepend references") {
           yield `${space}    prepend references = ${prop.value}\n`;
-        } else if (prop.key === "prepend apiSchemas") {
+        } else if (isApiSchemasKey(prop.key)) {
           if (Array.isArray(prop.value)) {
             const quotedArray = prop.value.map(item => `"${item}"`).join(", ");
-            yield `${space}    prepend apiSchemas = [${quotedArray}]\n`;
+            yield `${space}    ${prop.key} = [${quotedArray}]\n`;
           } else {
-            yield `${space}    prepend apiSchemas = ${value}\n`;
+            yield `${space}    ${prop.key} = ${value}\n`;
           }
         } else if (prop.key === "xformOp:transform") {
           yield `${space}    matrix4d ${prop.key} = ${prop.value}\n`;
         } else if (prop.key === "xformOpOrder") {
           yield `${space}    uniform token[] ${prop.key} = ${value}\n`;
-        } else if (prop.key === "customData") {
-          yield `${space}    customData = {\n`;
-          for (const [key, val] of Object.entries(prop.value)) {
-            if (typeof val === 'object' && val !== null && !Array.isArray(val)) {
-              yield `${space}        dictionary ${key} = {\n`;
-              for (const [nestedKey, nestedVal] of Object.entries(val)) {
-                let typeDecl = '';
-                if (typeof nestedVal === 'string') typeDecl = 'string ';
-                else if (typeof nestedVal === 'number') typeDecl = Number.isInteger(nestedVal) ? 'int ' : 'float ';
-                else if (typeof nestedVal === 'boolean') typeDecl = 'bool ';
-                yield `${space}            ${typeDecl}${nestedKey} = ${JSON.stringify(nestedVal)}\n`;
-              }
-              yield `${space}        }\n`;
-            } else {
-              let typeDecl = '';
-              if (typeof val === 'string') typeDecl = 'string ';
-              else if (typeof val === 'number') typeDecl = Number.isInteger(val) ? 'int ' : 'float ';
-              else if (typeof val === 'boolean') typeDecl = 'bool ';
-              yield `${space}        ${typeDecl}${key} = ${JSON.stringify(val)}\n`;
-            }
-          }
+        } else if (prop.key === "customData" || prop.key === "assetInfo") {
+          yield `${space}    ${prop.key} = {\n`;
+          yield* this.yieldDictionary(prop.value as Record<string, unknown>, `${space}        `);
           yield `${space}    }\n`;
         } else if (prop.key.includes("inputs:file")) {
           yield `${space}    asset ${prop.key} = ${prop.value}\n`;
@@ -540,270 +670,366 @@ export class UsdNode {
 
       yield `${space})\n`;
     } else {
-      yield `${space}${defOrOver} "${nodeName}"\n`;
+      yield `${header}\n`;
     }
 
-    // Determine if we need braces for the node body
-    const needsBraces = this._typeName === 'Scope' || this._typeName === 'Xform' || this._typeName === 'Material' || this._children.size > 0 || tokenAttributes.length > 0 || tokenConnections.length > 0 || transformProperties.length > 0 || relProperties.length > 0 || shaderProperties.length > 0 || inputProperties.length > 0 || arrayProperties.length > 0 || simpleTokenProperties.length > 0 || tokenArrayProperties.length > 0 || xformOpProperties.length > 0 || this._timeSamples.size > 0;
+    // Every prim spec has a body in USDA, even an empty one
+    yield `${space}{\n`;
 
-    if (needsBraces) {
-      yield `${space}{\n`;
+    // Add built-in Mesh properties (must be in body)
+    const subdivisionScheme = this.getProperty('uniform token subdivisionScheme') ?? this.getProperty('token subdivisionScheme');
+    if (subdivisionScheme !== undefined) {
+      const val = typeof subdivisionScheme === 'string' && subdivisionScheme.startsWith('"') ? subdivisionScheme : `"${subdivisionScheme}"`;
+      yield `${space}    uniform token subdivisionScheme = ${val}\n`;
+    }
 
-      // Add built-in Mesh properties (must be in body)
-      const subdivisionScheme = this.getProperty('uniform token subdivisionScheme') ?? this.getProperty('token subdivisionScheme');
-      if (subdivisionScheme !== undefined) {
-        const val = typeof subdivisionScheme === 'string' && subdivisionScheme.startsWith('"') ? subdivisionScheme : `"${subdivisionScheme}"`;
-        yield `${space}    uniform token subdivisionScheme = ${val}\n`;
-      }
-
-      const doubleSided = this.getProperty('uniform bool doubleSided') ?? this.getProperty('bool doubleSided');
-      if (doubleSided !== undefined) {
-        yield `${space}    uniform bool doubleSided = ${doubleSided}\n`;
-      }
-
-      const orientation = this.getProperty('uniform token orientation') ?? this.getProperty('token orientation');
-      if (orientation !== undefined) {
-        const val = typeof orientation === 'string' && orientation.startsWith('"') ? orientation : `"${orientation}"`;
-        yield `${space}    uniform token orientation = ${val}\n`;
-      }
-
-      // Add array properties first (in node body)
-      for (const prop of arrayProperties) {
-        const typeDeclaration = prop.key.split(' ')[0];
-        const propertyName = prop.key.split(' ').slice(1).join(' ');
-
-        if (this._timeSamples.has(prop.key)) continue;
-
-        if (typeDeclaration) {
-          // Handle interpolation metadata
-          let interpolationProp;
-          if (prop.type === 'texcoord') {
-            interpolationProp = interpolationProperties.find(ip => {
-              const ipKeyParts = ip.key.split(' ');
-              const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
-              return ipPropertyName.startsWith(propertyName + ':') || ipPropertyName === propertyName + ':interpolation';
-            });
-          } else if (prop.key === 'float3[] normals' || prop.key === 'normal3f[] normals') {
-            interpolationProp = interpolationProperties.find(ip => {
-              const ipKeyParts = ip.key.split(' ');
-              const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
-              return ipPropertyName === 'normals:interpolation' ||
-                ipPropertyName.startsWith('normals:') ||
-                ipPropertyName === 'primvars:normals:interpolation';
-            });
-          } else if (prop.key === 'color3f[] primvars:displayColor') {
-            interpolationProp = interpolationProperties.find(ip => {
-              const ipKeyParts = ip.key.split(' ');
-              const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
-              return ipPropertyName === propertyName + ':interpolation' ||
-                ip.key === 'uniform token primvars:displayColor:interpolation' ||
-                ip.key === 'primvars:displayColor:interpolation';
-            });
-          } else if (prop.key === 'int[] primvars:skel:jointIndices' || prop.key === 'float[] primvars:skel:jointWeights') {
-            interpolationProp = interpolationProperties.find(ip => {
-              const ipKeyParts = ip.key.split(' ');
-              const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
-              return ipPropertyName === propertyName + ':interpolation';
-            });
-          }
+    const doubleSided = this.getProperty('uniform bool doubleSided') ?? this.getProperty('bool doubleSided');
+    if (doubleSided !== undefined) {
+      yield `${space}    uniform bool doubleSided = ${doubleSided}\n`;
+    }
 
-          const elementSizeProp = (prop.key === 'int[] primvars:skel:jointIndices' || prop.key === 'float[] primvars:skel:jointWeights') ?
-            elementSizeProperties.find(ep => {
-              const epKeyParts = ep.key.split(' ');
-              const epPropertyName = epKeyParts.length > 1 ? epKeyParts[epKeyParts.length - 1] : ep.key;
-              return epPropertyName === propertyName + ':elementSize';
-            }) : undefined;
-
-          if (interpolationProp || elementSizeProp) {
-            yield `${space}    ${typeDeclaration} ${propertyName} = `;
-            this._currentPropKey = typeDeclaration;
-            yield* this.yieldArrayValue(prop.value);
-            yield ` (\n`;
-            if (interpolationProp) {
-              yield `${space}        interpolation = "${interpolationProp.value}"\n`;
-              if (prop.type === 'texcoord') {
-                yield `${space}        interpolation = "${interpolationProp.value}"\n`; // Duplicate for texcoord as per original code
-              }
-            }
-            if (elementSizeProp) {
-              yield `${space}        elementSize = ${elementSizeProp.value}\n`;
+    const orientation = this.getProperty('uniform token orientation') ?? this.getProperty('token orientation');
+    if (orientation !== undefined) {
+      const val = typeof orientation === 'string' && orientation.startsWith('"') ? orientation : `"${orientation}"`;
+      yield `${space}    uniform token orientation = ${val}\n`;
+    }
+
+    // Add typed attributes
+    for (const prop of attributeProperties) {
+      const declaration = parseAttributeDeclaration(prop.key)!;
+      if (prop.value === '') {
+        yield `${space}    ${prop.key}\n`;
+        continue;
+      }
+      const value = this.formatDeclaredValue(prop.value, declaration.typeName);
+      const interpolationProp = this.findByPropertyName(interpolationProperties, `${declaration.name}:interpolation`);
+      const elementSizeProp = this.findByPropertyName(elementSizeProperties, `${declaration.name}:elementSize`);
+      if (interpolationProp || elementSizeProp) {
+        yield `${space}    ${prop.key} = ${value} (\n`;
+        if (interpolationProp) yield `${space}        interpolation = "${interpolationProp.value}"\n`;
+        if (elementSizeProp) yield `${space}        elementSize = ${elementSizeProp.value}\n`;
+        yield `${space}    )\n`;
+      } else {
+        yield `${space}    ${prop.key} = ${value}\n`;
+      }
+    }
+
+    // Add array properties first (in node body)
+    for (const prop of arrayProperties) {
+      const typeDeclaration = prop.key.split(' ')[0];
+      const propertyName = prop.key.split(' ').slice(1).join(' ');
+
+      if (this._timeSamples.has(prop.key)) continue;
+
+      if (prop.value === '') {
+        yield `${space}    ${prop.key}\n`;
+        continue;
+      }
+
+      if (typeDeclaration) {
+        // Handle interpolation metadata
+        let interpolationProp;
+        if (prop.type === 'texcoord') {
+          interpolationProp = interpolationProperties.find(ip => {
+            const ipKeyParts = ip.key.split(' ');
+            const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
+            return ipPropertyName.startsWith(propertyName + ':') || ipPropertyName === propertyName + ':interpolation';
+          });
+        } else if (prop.key === 'float3[] normals' || prop.key === 'normal3f[] normals') {
+          interpolationProp = interpolationProperties.find(ip => {
+            const ipKeyParts = ip.key.split(' ');
+            const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
+            return ipPropertyName === 'normals:interpolation' ||
+              ipPropertyName.startsWith('normals:') ||
+              ipPropertyName === 'primvars:normals:interpolation';
+          });
+        } else if (prop.key === 'color3f[] primvars:displayColor') {
+          interpolationProp = interpolationProperties.find(ip => {
+            const ipKeyParts = ip.key.split(' ');
+            const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
+            return ipPropertyName === propertyName + ':interpolation' ||
+              ip.key === 'uniform token primvars:displayColor:interpolation' ||
+              ip.key === 'primvars:displayColor:interpolation';
+          });
+        } else if (prop.key === 'int[] primvars:skel:jointIndices' || prop.key === 'float[] primvars:skel:jointWeights') {
+          interpolationProp = interpolationProperties.find(ip => {
+            const ipKeyParts = ip.key.split(' ');
+            const ipPropertyName = ipKeyParts.length > 1 ? ipKeyParts[ipKeyParts.length - 1] : ip.key;
+            return ipPropertyName === propertyName + ':interpolation';
+          });
+        }
+
+        const elementSizeProp = (prop.key === 'int[] primvars:skel:jointIndices' || prop.key === 'float[] primvars:skel:jointWeights') ?
+          elementSizeProperties.find(ep => {
+            const epKeyParts = ep.key.split(' ');
+            const epPropertyName = epKeyParts.length > 1 ? epKeyParts[epKeyParts.length - 1] : ep.key;
+            return epPropertyName === propertyName + ':elementSize';
+          }) : this.findByPropertyName(elementSizeProperties, `${prop.key.split(' ').pop()}:elementSize`);
+
+        // Any other primvar: match its interpolation by attribute name
+        interpolationProp ??= this.findByPropertyName(interpolationProperties, `${prop.key.split(' ').pop()}:interpolation`);
+
+        if (interpolationProp || elementSizeProp) {
+          yield `${space}    ${typeDeclaration} ${propertyName} = `;
+          this._currentPropKey = typeDeclaration;
+          yield* this.yieldArrayValue(prop.value);
+          yield ` (\n`;
+          if (interpolationProp) {
+            yield `${space}        interpolation = "${interpolationProp.value}"\n`;
+            if (prop.type === 'texcoord') {
+              yield `${space}        interpolation = "${interpolationProp.value}"\n`; // Duplicate for texcoord as per original code
             }
-            yield `${space}    )\n`;
-          } else {
-            yield `${space}    ${typeDeclaration} ${propertyName} = `;
-            this._currentPropKey = typeDeclaration;
-            yield* this.yieldArrayValue(prop.value);
-            yield `\n`;
           }
+          if (elementSizeProp) {
+            yield `${space}        elementSize = ${elementSizeProp.value}\n`;
+          }
+          yield `${space}    )\n`;
         } else {
-          yield `${space}    ${propertyName} = `;
-          this._currentPropKey = prop.key;
+          yield `${space}    ${typeDeclaration} ${propertyName} = `;
+          this._currentPropKey = typeDeclaration;
           yield* this.yieldArrayValue(prop.value);
           yield `\n`;
         }
+      } else {
+        yield `${space}    ${propertyName} = `;
+        this._currentPropKey = prop.key;
+        yield* this.yieldArrayValue(prop.value);
+        yield `\n`;
       }
+    }
 
-      // Add token array properties
-      for (const prop of tokenArrayProperties) {
-        const parts = prop.key.split(' ');
-        const typeDeclaration = parts.slice(0, -1).join(' ');
-        const propertyName = parts[parts.length - 1];
+    // Add token array properties
+    for (const prop of tokenArrayProperties) {
+      const parts = prop.key.split(' ');
+      const typeDeclaration = parts.slice(0, -1).join(' ');
+      const propertyName = parts[parts.length - 1];
 
-        yield `${space}    ${typeDeclaration} ${propertyName} = `;
-        if (prop.type === 'raw') {
-          yield `${prop.value}\n`;
-        } else {
-          yield `${JSON.stringify(prop.value)}\n`;
-        }
+      yield `${space}    ${typeDeclaration} ${propertyName} = `;
+      if (prop.type === 'raw') {
+        yield `${prop.value}\n`;
+      } else {
+        yield `${JSON.stringify(prop.value)}\n`;
       }
+    }
+
+    // Add simple token properties
+    for (const prop of simpleTokenProperties) {
+      const parts = prop.key.split(' ');
+      const typeDeclaration = parts[0];
+      const propertyName = parts.slice(1).join(' ');
+      const value = typeof prop.value === 'string' && prop.value.startsWith('"') ? prop.value : JSON.stringify(prop.value);
+      yield `${space}    ${typeDeclaration} ${propertyName} = ${value}\n`;
+    }
 
-      // Add simple token properties
-      for (const prop of simpleTokenProperties) {
-        const parts = prop.key.split(' ');
-        const typeDeclaration = parts[0];
-        const propertyName = parts.slice(1).join(' ');
-        const value = typeof prop.value === 'string' && prop.value.startsWith('"') ? prop.value : JSON.stringify(prop.value);
-        yield `${space}    ${typeDeclaration} ${propertyName} = ${value}\n`;
+    // Add input properties
+    for (const prop of inputProperties) {
+      const declaration = parseAttributeDeclaration(prop.key);
+      if (prop.value === '') {
+        yield `${space}    ${prop.key}\n`;
+        continue;
+      }
+      let value;
+      if (declaration) {
+        value = this.formatDeclaredValue(prop.value, declaration.typeName);
+      } else if (prop.key.includes("inputs:color") || prop.type === 'color3f' || prop.type === 'float3' || prop.type === 'float' || prop.type === 'int' || typeof prop.value === 'number') {
+        value = prop.value;
+      } else {
+        value = JSON.stringify(prop.value);
       }
 
-      // Add input properties
-      for (const prop of inputProperties) {
+      if (prop.key.startsWith('color3f ') || prop.key.startsWith('float3 ')) {
+        yield `${space}    ${prop.key} = ${value}\n`;
+      } else {
+        yield `${space}    ${prop.key} = ${value}\n`;
+      }
+    }
+
+    // Add shader properties
+    for (const prop of shaderProperties) {
+      if (prop.value === undefined || prop.value === "") {
+        yield `${space}    ${prop.key}\n`;
+      } else if (prop.key.includes(".connect")) {
+        const value = prop.value.toString().replace(/^"(.*)"$/, '$1');
+        yield `${space}    ${prop.key} = ${value}\n`;
+      } else {
         let value;
-        if (prop.key.includes("inputs:color") || prop.type === 'color3f' || prop.type === 'float3' || prop.type === 'float' || prop.type === 'int' || typeof prop.value === 'number') {
+        if (prop.type === 'raw') {
+          yield `${space}    ${prop.key} = ${prop.value}\n`;
+          continue;
+        } else if (Array.isArray(prop.value)) {
+          value = `[${prop.value.join(", ")}]`;
+        } else if (prop.type === 'asset' || prop.key.includes("inputs:file")) {
+          yield `${space}    asset ${prop.key.replace('asset ', '')} = ${prop.value}\n`;
+          continue;
+        } else if ((prop.key.includes("inputs:wrapS") || prop.key.includes("inputs:wrapT") || prop.key.includes("inputs:sourceColorSpace"))) {
+          value = JSON.stringify(prop.value);
+        } else if (prop.key.includes("inputs:") && (prop.key.includes("diffuseColor") || prop.key.includes("emissiveColor") || prop.key.includes("specularColor") || prop.key.includes("inputs:color"))) {
+          value = prop.value;
+        } else if (prop.type === 'float4' || prop.type === 'float3' || prop.type === 'float2' || prop.type === 'float' || prop.type === 'color3f' || prop.type === 'int' || prop.type === 'double' || prop.type === 'double3') {
           value = prop.value;
+        } else if (typeof prop.value === 'string' && prop.type !== undefined && prop.type !== 'string' && prop.type !== 'token') {
+          // Other typed literals (`half3`, `normal3f`, `bool`, ...) are already USDA text
+          value = prop.value;
+        } else if (prop.type === 'string' || prop.type === 'token') {
+          const valueStr = prop.value as string;
+          value = valueStr.startsWith('"') ? valueStr : JSON.stringify(valueStr);
+          if (prop.key.includes('inputs:varname')) {
+            const key = prop.key.replace(/^token\s+/, 'string ');
+            yield `${space}    ${key} = ${value}\n`;
+            continue;
+          }
         } else {
           value = JSON.stringify(prop.value);
         }
-
-        if (prop.key.startsWith('color3f ') || prop.key.startsWith('float3 ')) {
-          yield `${space}    ${prop.key} = ${value}\n`;
-        } else {
-          yield `${space}    ${prop.key} = ${value}\n`;
-        }
+        yield `${space}    ${prop.key} = ${value}\n`;
       }
+    }
 
-      // Add shader properties
-      for (const prop of shaderProperties) {
-        if (prop.value === undefined || prop.value === "") {
-          yield `${space}    ${prop.key}\n`;
-        } else if (prop.key.includes(".connect")) {
-          const value = prop.value.toString().replace(/^"(.*)"$/, '$1');
-          yield `${space}    ${prop.key} = ${value}\n`;
-        } else {
-          let value;
-          if (prop.type === 'raw') {
-            yield `${space}    ${prop.key} = ${prop.value}\n`;
-            continue;
-          } else if (Array.isArray(prop.value)) {
-            value = `[${prop.value.join(", ")}]`;
-          } else if (prop.type === 'asset' || prop.key.includes("inputs:file")) {
-            yield `${space}    asset ${prop.key.replace('asset ', '')} = ${prop.value}\n`;
-            continue;
-          } else if ((prop.key.includes("inputs:wrapS") || prop.key.includes("inputs:wrapT") || prop.key.includes("inputs:sourceColorSpace"))) {
-            value = JSON.stringify(prop.value);
-          } else if (prop.key.includes("inputs:") && (prop.key.includes("diffuseColor") || prop.key.includes("emissiveColor") || prop.key.includes("specularColor") || prop.key.includes("inputs:color"))) {
-            value = prop.value;
-          } else if (prop.type === 'float4' || prop.type === 'float3' || prop.type === 'float2' || prop.type === 'float' || prop.type === 'color3f' || prop.type === 'int' || prop.type === 'double' || prop.type === 'double3') {
-            value = prop.value;
-          } else if (prop.type === 'string' || prop.type === 'token') {
-            const valueStr = prop.value as string;
-            value = valueStr.startsWith('"') ? valueStr : JSON.stringify(valueStr);
-            if (prop.key.includes('inputs:varname')) {
-              const key = prop.key.replace(/^token\s+/, 'string ');
-              yield `${space}    ${key} = ${value}\n`;
-              continue;
-            }
-          } else {
-            value = JSON.stringify(prop.value);
-          }
-          yield `${space}    ${prop.key} = ${value}\n`;
-        }
+    // Add token attributes
+    for (const attr of tokenAttributes) {
+      let value;
+      if (Array.isArray(attr.value)) {
+        value = `[${attr.value.map(v => JSON.stringify(v)).join(", ")}]`;
+      } else if (attr.key.includes("sourceColorSpace") || attr.key.includes("wrapS") || attr.key.includes("wrapT")) {
+        value = JSON.stringify(attr.value);
+      } else {
+        value = JSON.stringify(attr.value);
       }
+      yield `${space}    token ${attr.key} = ${value}\n`;
+    }
 
-      // Add token attributes
-      for (const attr of tokenAttributes) {
-        let value;
-        if (Array.isArray(attr.value)) {
-          value = `[${attr.value.map(v => JSON.stringify(v)).join(", ")}]`;
-        } else if (attr.key.includes("sourceColorSpace") || attr.key.includes("wrapS") || attr.key.includes("wrapT")) {
-          value = JSON.stringify(attr.value);
-        } else {
-          value = JSON.stringify(attr.value);
-        }
-        yield `${space}    token ${attr.key} = ${value}\n`;
+    // Add token connections
+    for (const prop of tokenConnections) {
+      const valueStr = prop.value as string;
+      const value = valueStr.replace(/"([^"]+)"/g, '$1');
+      if (!prop.key.startsWith('token ') && parseAttributeDeclaration(prop.key)) {
+        yield `${space}    ${prop.key} = ${value}\n`;
+        continue;
       }
+      const key = prop.key.startsWith('token ') ? prop.key.substring(6) : prop.key;
+      yield `${space}    token ${key} = ${value}\n`;
+    }
 
-      // Add token connections
-      for (const prop of tokenConnections) {
+    // Add rel properties
+    for (const prop of relProperties) {
+      // Keys may carry their own `rel` (`rel skel:skeleton`, `custom rel proxy`)
+      const declaration = /(^| )rel /.test(prop.key) ? prop.key : `rel ${prop.key}`;
+      if (prop.value === '') {
+        yield `${space}    ${declaration}\n`;
+      } else if (Array.isArray(prop.value)) {
+        const values = (prop.value as string[]).map(v => {
+          const valueStr = v as string;
+          return valueStr.replace(/"([^"]+)"/g, '$1');
+        });
+        yield `${space}    ${declaration} = [${values.join(', ')}]\n`;
+      } else {
         const valueStr = prop.value as string;
         const value = valueStr.replace(/"([^"]+)"/g, '$1');
-        const key = prop.key.startsWith('token ') ? prop.key.substring(6) : prop.key;
-        yield `${space}    token ${key} = ${value}\n`;
-      }
-
-      // Add rel properties
-      for (const prop of relProperties) {
-        const key = prop.key.startsWith('rel ') ? prop.key.substring(4) : prop.key;
-        if (Array.isArray(prop.value)) {
-          const values = (prop.value as string[]).map(v => {
-            const valueStr = v as string;
-            return valueStr.replace(/"([^"]+)"/g, '$1');
-          });
-          yield `${space}    rel ${key} = [${values.join(', ')}]\n`;
-        } else {
-          const valueStr = prop.value as string;
-          const value = valueStr.replace(/"([^"]+)"/g, '$1');
-          yield `${space}    rel ${key} = ${value}\n`;
-        }
+        yield `${space}    ${declaration} = ${value}\n`;
       }
+    }
 
-      // Add xformOp properties
-      for (const prop of xformOpProperties) {
-        yield `${space}    ${prop.key} = ${prop.value}\n`;
-      }
+    // Add xformOp properties
+    for (const prop of xformOpProperties) {
+      yield `${space}    ${prop.key} = ${prop.value}\n`;
+    }
 
-      // Add transform properties
-      for (const prop of transformProperties) {
-        if (prop.key === "xformOp:transform" || prop.key === "skel:geomBindTransform") {
-          yield `${space}    matrix4d ${prop.key} = ${prop.value}\n`;
-        } else if (prop.key === "xformOpOrder") {
-          const value = Array.isArray(prop.value)
-            ? `[${prop.value.map(v => JSON.stringify(v)).join(", ")}]`
-            : JSON.stringify(prop.value);
-          yield `${space}    uniform token[] ${prop.key} = ${value}\n`;
-        }
+    // Add transform properties
+    for (const prop of transformProperties) {
+      if (prop.key === "xformOp:transform" || prop.key === "skel:geomBindTransform") {
+        yield `${space}    matrix4d ${prop.key} = ${prop.value}\n`;
+      } else if (prop.key === "xformOpOrder") {
+        const value = Array.isArray(prop.value)
+          ? `[${prop.value.map(v => JSON.stringify(v)).join(", ")}]`
+          : JSON.stringify(prop.value);
+        yield `${space}    uniform token[] ${prop.key} = ${value}\n`;
       }
+    }
 
-      // Add time-sampled properties
-      for (const [key, timeSampleData] of this._timeSamples) {
-        const { timeSamples, type } = timeSampleData;
-        const sortedTimes = Array.from(timeSamples.keys()).sort((a, b) => a - b);
+    // Add time-sampled properties
+    for (const [key, timeSampleData] of this._timeSamples) {
+      const { timeSamples, type } = timeSampleData;
+      const sortedTimes = Array.from(timeSamples.keys()).sort((a, b) => a - b);
 
-        if (sortedTimes.length === 0) continue;
+      if (sortedTimes.length === 0) continue;
 
-        const propertyKey = (key.startsWith(type + ' ') || key === type) ? key : `${type} ${key}`;
+      const propertyKey = (key.startsWith(type + ' ') || key === type) ? key : `${type} ${key}`;
 
-        if (sortedTimes.length === 1) {
-          yield `${space}    ${propertyKey} = ${timeSamples.get(sortedTimes[0])}\n`;
-        } else {
-          yield `${space}    ${propertyKey}.timeSamples = {\n`;
-          for (let i = 0; i < sortedTimes.length; i++) {
-            const time = sortedTimes[i];
-            const value = timeSamples.get(time);
-            if (value !== undefined) {
-              const comma = i < sortedTimes.length - 1 ? ',' : '';
-              yield `${space}        ${time}: ${value}${comma}\n`;
-            }
+      if (sortedTimes.length === 1) {
+        yield `${space}    ${propertyKey} = ${timeSamples.get(sortedTimes[0])}\n`;
+      } else {
+        yield `${space}    ${propertyKey}.timeSamples = {\n`;
+        for (let i = 0; i < sortedTimes.length; i++) {
+          const time = sortedTimes[i];
+          const value = timeSamples.get(time);
+          if (value !== undefined) {
+            const comma = i < sortedTimes.length - 1 ? ',' : '';
+            yield `${space}        ${time}: ${value}${comma}\n`;
           }
-          yield `${space}    }\n`;
         }
+        yield `${space}    }\n`;
       }
+    }
 
-      // Add children
-      for (const child of this._children.values()) {
-        yield* child.serializeToUsdaChunks(indent + 1);
+    // Add children
+    for (const child of this._children.values()) {
+      yield* child.serializeToUsdaChunks(indent + 1);
+    }
+
+    // Add variant sets
+    for (const [setName, variants] of this._variantSets) {
+      yield `${space}    variantSet "${setName}" = {\n`;
+      for (const variant of variants.values()) {
+        yield* variant.serializeToUsdaChunks(indent + 2);
+      }
+      yield `${space}    }\n`;
+    }
+    yield `${space}}\n`;
+  }
+
+  /**
+   * Format a typed attribute value as a USDA literal
+   */
+  private formatDeclaredValue(value: USDProperty['value'], typeName: string): string {
+    const isArray = typeName.endsWith('[]');
+    const stem = isArray ? typeName.slice(0, -2) : typeName;
+    const quoted = stem === 'token' || stem === 'string';
+    if (Array.isArray(value)) {
+      const items = (value as unknown[]).map(v => quoted ? JSON.stringify(v) : stem === 'asset' ? `@${v}@` : String(v));
+      return `[${items.join(', ')}]`;
+    }
+    if (typeof value === 'string') {
+      if (isArray) return value;
+      if (quoted) return value.startsWith('"') ? value : JSON.stringify(value);
+      if (stem === 'asset') return value.startsWith('@') ? value : `@${value}@`;
+      return value;
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Find the property whose attribute name (last key word) is `name`
+   */
+  private findByPropertyName(props: USDProperty[], name: string): USDProperty | undefined {
+    return props.find(p => p.key.split(' ').pop() === name);
+  }
+
+  /**
+   * Yield a dictionary (customData, assetInfo) body, typing entries from their JS values
+   */
+  private *yieldDictionary(dict: Record<string, unknown>, space: string): Generator<string> {
+    for (const [key, val] of Object.entries(dict)) {
+      if (typeof val === 'object' && val !== null && !Array.isArray(val)) {
+        yield `${space}dictionary ${key} = {\n`;
+        yield* this.yieldDictionary(val as Record<string, unknown>, `${space}    `);
+        yield `${space}}\n`;
+      } else {
+        let typeDecl = '';
+        if (typeof val === 'string') typeDecl = 'string ';
+        else if (typeof val === 'number') typeDecl = Number.isInteger(val) ? 'int ' : 'float ';
+        else if (typeof val === 'boolean') typeDecl = 'bool ';
+        yield `${space}${typeDecl}${key} = ${JSON.stringify(val)}\n`;
       }
-      yield `${space}}\n`;
     }
   }
 
@@ -816,7 +1042,7 @@ export class UsdNode {
   private formatCompactFloat(n: number, precision: number = 4): string {
     // Use scientific notation for very small/large numbers
     if (Math.abs(n) < 0.001 && n !== 0) {
-      return n.toExponential(0).replace(/\.?0*e/, 'e');
+      return n.toExponential(precision - 1).replace(/\.?0+e/, 'e');
     }
     if (Math.abs(n) > 10000) {
       return n.toExponential(precision).replace(/\.?0+e/, 'e');
@@ -827,6 +1053,20 @@ export class UsdNode {
     return str.replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '') || '0';
   }
 
+  /**
+   * Components per element of a typed array value. The declared type wins
+   * (`quatf[]` → 4, `texCoord2f[]` → 2, `point3f[]` → 3); otherwise float
+   * arrays divisible by three are taken as points, normals or colors, unless
+   * explicitly `float[]` (scalar arrays like widths).
+   */
+  private tupleWidth(propKey: string, typedArray: { length: number }): number {
+    if (/^quat[dfh]\[\]/.test(propKey)) return 4;
+    const declared = /^(?!matrix)[a-zA-Z]+?([234])[dfh]\[\]/.exec(propKey);
+    if (declared) return Number(declared[1]);
+    const isFloat = typedArray instanceof Float32Array || typedArray instanceof Float64Array;
+    return isFloat && typedArray.length % 3 === 0 && !/^float\[\]/.test(propKey) ? 3 : 1;
+  }
+
   private *yieldArrayValue(value: any): Generator<string> {
     if (Array.isArray(value)) {
       // Handle regular JavaScript arrays
@@ -850,24 +1090,14 @@ export class UsdNode {
 
       // Debug log for large arrays
       if (length > 10000) {
-        console.log(`[UsdNode] Streaming large TypedArray: length=${length}, type=${value.constructor.name}`);
-      }
-
-      // Determine if this is a 3-component array (points, normals, colors)
-      // These need to be formatted as tuples: (x, y, z)
-      // Use property key to determine - vec3 types have '3f' or '3d' in the type name
-      const propKey = this._currentPropKey || '';
-      const isVec3Type = /^(point|normal|double|color|float|int)3[fd]/.test(propKey);
-      const isVec3Array = isVec3Type || (
-        length % 3 === 0 && (
-          typedArray instanceof Float32Array ||
-          typedArray instanceof Float64Array
-        ) && !/^float\[\]/.test(propKey) // Skip if explicitly float[] (scalar array like widths)
-      );
-
-      if (isVec3Array) {
-        // Format as 3D tuples: (x, y, z)
-        const tupleCount = length / 3;
+        logger.info(`[UsdNode] Streaming large TypedArray: length=${length}, type=${value.constructor.name}`);
+      }
+
+      const width = this.tupleWidth(this._currentPropKey || '', typedArray);
+
+      if (width > 1) {
+        // Format as tuples: (x, y, z), (w, x, y, z), ...
+        const tupleCount = Math.floor(length / width);
         const CHUNK_SIZE = 1000; // Process 1000 tuples at a time
         const precision = 4; // Safe precision for both positions and normals
 
@@ -876,12 +1106,11 @@ export class UsdNode {
           const tuples: string[] = [];
 
           for (let j = i; j < endIdx; j++) {
-            const idx = j * 3;
-            // Standard compact formatting
-            const x = this.formatCompactFloat(typedArray[idx], precision);
-            const y = this.formatCompactFloat(typedArray[idx + 1], precision);
-            const z = this.formatCompactFloat(typedArray[idx + 2], precision);
-            tuples.push(`(${x},${y},${z})`);
+            const components: string[] = [];
+            for (let c = 0; c < width; c++) {
+              components.push(this.formatCompactFloat(typedArray[j * width + c], precision));
+            }
+            tuples.push(`(${components.join(',')})`);
           }
 
           yield tuples.join(", ");
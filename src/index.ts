@@ -2,27 +2,49 @@
 
 import { convertGlbToUsdz } from './converters/gltf';
 import { convertObjToUsdz } from './converters/obj';
-import { convertFbxToGltfViaTool } from './converters/fbx';
+import { convertFbxToGlb } from './converters/fbx';
 import { convertStlToUsdz } from './converters/stl';
 import { convertPlyToUsdz } from './converters/ply';
-import type { UsdzStreamResult } from './converters/shared/usd-packaging';
+import { convertThreeMfToUsdz } from './converters/threemf';
+import type { ConvertOptions, LayerFormat, UsdzStreamResult } from './converters/shared/usd-packaging';
+import { collectConversionReport, type ConversionResult } from './converters/shared/conversion-report';
+import type { ConversionControl } from './converters/shared/conversion-progress';
 import { UsdErrorFactory } from './errors';
 import { WebUsdConfigSchema, type WebUsdConfig } from './schemas';
+import { logger, createLogSink, runWithLogSink, type LogSink } from './utils/logger';
 import { ZodError } from 'zod';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { execSync } from 'child_process';
 
+/**
+ * Per-call options of `WebUsdFramework.convert`
+ */
+interface FrameworkConvertOptions extends ConversionControl {
+  mtlPath?: string;
+  mtlSearchPaths?: string[];
+  textureSearchPaths?: string[];
+  allowAutoTextureFallback?: boolean;
+  /** OBJ `l` polyline width, in scene units */
+  curveWidth?: number;
+  /** OBJ `p` point width, in scene units */
+  pointWidth?: number;
+  outputPath?: string;
+  layerFormat?: LayerFormat;
+}
+
 /**
  * Main framework class
  */
 export class WebUsdFramework {
   private config: WebUsdConfig;
+  private logSink: LogSink | undefined;
 
   constructor(config: Partial<WebUsdConfig> = {}) {
     try {
       this.config = WebUsdConfigSchema.parse(config);
+      this.logSink = createLogSink(this.config.logger, this.config.onDiagnostic);
     } catch (error) {
       if (error instanceof ZodError) {
         throw UsdErrorFactory.configError(
@@ -67,6 +89,12 @@ export class WebUsdFramework {
       mtlSearchPaths?: string[];
       textureSearchPaths?: string[];
       allowAutoTextureFallback?: boolean;
+      /** OBJ `l` polyline width, in scene units */
+      curveWidth?: number;
+      /** OBJ `p` point width, in scene units */
+      pointWidth?: number;
+      /** Root layer format inside the archive; see {@link LayerFormat}. */
+      layerFormat?: LayerFormat;
     }
   ): Promise<Blob>;
   async convert(
@@ -76,6 +104,10 @@ export class WebUsdFramework {
       mtlSearchPaths?: string[];
       textureSearchPaths?: string[];
       allowAutoTextureFallback?: boolean;
+      /** OBJ `l` polyline width, in scene units */
+      curveWidth?: number;
+      /** OBJ `p` point width, in scene units */
+      pointWidth?: number;
       /**
        * Stream the USDZ archive directly to this file path instead of
        * returning a Blob. Memory peak is bounded by the largest single
@@ -83,27 +115,67 @@ export class WebUsdFramework {
        * point-cloud and multi-mesh inputs.
        */
       outputPath: string;
+      layerFormat?: LayerFormat;
     }
   ): Promise<UsdzStreamResult>;
   async convert(
     input: string | ArrayBuffer,
-    options?: {
-      mtlPath?: string;
-      mtlSearchPaths?: string[];
-      textureSearchPaths?: string[];
-      allowAutoTextureFallback?: boolean;
-      outputPath?: string;
-    }
+    options?: FrameworkConvertOptions
+  ): Promise<Blob | UsdzStreamResult> {
+    return runWithLogSink(this.logSink, () => this.convertInput(input, options));
+  }
+
+  /**
+   * Convert a 3D model to USDZ and report on the conversion.
+   *
+   * Takes the same options as `convert` and resolves to its output together
+   * with a `ConversionReport`: the warnings logged (skipped scenes, cameras,
+   * unsupported extensions, ...), prim and file counts, milliseconds per
+   * conversion stage, and the archive and per-file sizes.
+   *
+   * @example
+   * ```typescript
+   * const { output, report } = await usd.convertWithReport('./model.glb');
+   * for (const warning of report.warnings) console.warn(warning.message);
+   * ```
+   */
+  convertWithReport(
+    input: string | ArrayBuffer,
+    options?: Omit<FrameworkConvertOptions, 'outputPath'>
+  ): Promise<ConversionResult<Blob>>;
+  convertWithReport(
+    input: string | ArrayBuffer,
+    options: FrameworkConvertOptions & { outputPath: string }
+  ): Promise<ConversionResult<UsdzStreamResult>>;
+  async convertWithReport(
+    input: string | ArrayBuffer,
+    options?: FrameworkConvertOptions
+  ): Promise<ConversionResult<Blob | UsdzStreamResult>> {
+    return runWithLogSink(this.logSink, () =>
+      collectConversionReport(() => this.convertInput(input, options))
+    );
+  }
+
+  private async convertInput(
+    input: string | ArrayBuffer,
+    options?: FrameworkConvertOptions
   ): Promise<Blob | UsdzStreamResult> {
-    // Resolve streaming options once so each per-format dispatch can forward
-    // them uniformly. Treated as `undefined` when no outputPath was given so
-    // existing buffered behaviour (returning a Blob) is preserved bit-for-bit.
-    const streamOpts: { outputPath: string } | undefined = options?.outputPath
-      ? { outputPath: options.outputPath }
-      : undefined;
+    // Resolve packaging options once so each per-format dispatch can forward
+    // them uniformly. Treated as `undefined` when none of outputPath,
+    // layerFormat, signal or onProgress was given so existing buffered
+    // behaviour (returning a Blob) is preserved bit-for-bit.
+    const streamOpts: ConvertOptions | undefined =
+      options?.outputPath || options?.layerFormat || options?.signal || options?.onProgress
+        ? {
+            ...(options.outputPath ? { outputPath: options.outputPath } : {}),
+            ...(options.layerFormat ? { layerFormat: options.layerFormat } : {}),
+            ...(options.signal ? { signal: options.signal } : {}),
+            ...(options.onProgress ? { onProgress: options.onProgress } : {}),
+          }
+        : undefined;
+    options?.signal?.throwIfAborted();
     if (this.config.debug) {
-      console.log('Debug mode enabled');
-      console.log(`Debug output: ${this.config.debugOutputDir}`);
+      logger.info('Debug mode enabled', { debugOutputDir: this.config.debugOutputDir });
     }
 
     if (typeof input === 'string') {
@@ -119,16 +191,23 @@ export class WebUsdFramework {
 
       const fileExtension = path.extname(filePath).toLowerCase();
 
-      // Handle ZIP files (extract and find FBX inside)
+      // Handle ZIP files (extract and find FBX inside). The extraction
+      // directory is removed once the conversion finishes, fails or aborts.
       if (fileExtension === '.zip') {
-        const extractedFbxPath = await this.extractAndFindFbx(filePath);
-        if (extractedFbxPath) {
-          return await this.convert(extractedFbxPath, options);
-        } else {
-          throw UsdErrorFactory.conversionError(
-            'No FBX file found in ZIP archive',
-            'fbx_not_found_in_zip'
-          );
+        const extraction = await this.extractAndFindFbx(filePath);
+        try {
+          if (extraction?.fbxPath) {
+            return await this.convertInput(extraction.fbxPath, options);
+          } else {
+            throw UsdErrorFactory.conversionError(
+              'No FBX file found in ZIP archive',
+              'fbx_not_found_in_zip'
+            );
+          }
+        } finally {
+          if (extraction) {
+            fs.rmSync(extraction.directory, { recursive: true, force: true });
+          }
         }
       }
 
@@ -151,7 +230,12 @@ export class WebUsdFramework {
           materialPerSmoothingGroup: true,
           useOAsMesh: true,
           useIndices: true,
-          disregardNormals: false
+          disregardNormals: false,
+          curveWidth: options?.curveWidth ?? 0.01,
+          pointWidth: options?.pointWidth ?? 0.02,
+          textures: this.config.textures,
+          decimateTarget: this.config.decimateTarget,
+          decimateRatio: this.config.decimateRatio
         };
         return streamOpts
           ? await convertObjToUsdz(filePath, objConfig, streamOpts)
@@ -167,11 +251,9 @@ export class WebUsdFramework {
           ? await convertGlbToUsdz(glbBuffer, this.config, streamOpts)
           : await convertGlbToUsdz(glbBuffer, this.config);
       } else if (fileExtension === '.fbx') {
-        // Use FBX2glTF tool to convert FBX to GLB first
-        const glbBuffer = await convertFbxToGltfViaTool(filePath, {
-          binary: true,
-          verbose: this.config.debug
-        });
+        // Read FBX natively into a GLB first
+        const glbBuffer = await convertFbxToGlb(filePath);
+        options?.signal?.throwIfAborted();
 
         // Then convert GLB to USDZ
         return streamOpts
@@ -186,7 +268,9 @@ export class WebUsdFramework {
           metersPerUnit: this.config.metersPerUnit,
           optimizeMesh: false,
           defaultColor: [0.7, 0.7, 0.7] as [number, number, number],
-          autoComputeNormals: true
+          autoComputeNormals: true,
+          decimateTarget: this.config.decimateTarget ?? 0,
+          decimateRatio: this.config.decimateRatio ?? 1
         };
         return streamOpts
           ? await convertStlToUsdz(filePath, stlConfig, streamOpts)
@@ -201,11 +285,27 @@ export class WebUsdFramework {
           defaultColor: [0.7, 0.7, 0.7] as [number, number, number],
           defaultPointWidth: 0.005,
           maxPoints: 0,
-          decimateTarget: 0,
+          decimateTarget: this.config.decimateTarget ?? 0,
+          decimateRatio: this.config.decimateRatio ?? 1,
         };
         return streamOpts
           ? await convertPlyToUsdz(filePath, plyConfig, streamOpts)
           : await convertPlyToUsdz(filePath, plyConfig);
+      } else if (fileExtension === '.3mf') {
+        // Convert 3MF to USDZ
+        const threeMfConfig = {
+          debug: this.config.debug,
+          debugOutputDir: this.config.debugOutputDir,
+          upAxis: this.config.upAxis,
+          metersPerUnit: this.config.metersPerUnit,
+          defaultColor: [0.7, 0.7, 0.7] as [number, number, number],
+          textures: this.config.textures,
+          decimateTarget: this.config.decimateTarget ?? 0,
+          decimateRatio: this.config.decimateRatio ?? 1
+        };
+        return streamOpts
+          ? await convertThreeMfToUsdz(filePath, threeMfConfig, streamOpts)
+          : await convertThreeMfToUsdz(filePath, threeMfConfig);
       } else {
         throw UsdErrorFactory.conversionError(
           `Unsupported file format: ${fileExtension}`,
@@ -220,8 +320,8 @@ export class WebUsdFramework {
       : await convertGlbToUsdz(input, this.config);
   }
 
-  // Extract ZIP file and find FBX inside
-  private async extractAndFindFbx(zipPath: string): Promise<string | null> {
+  // Extract ZIP file and find FBX inside; the caller removes `directory`
+  private async extractAndFindFbx(zipPath: string): Promise<{ directory: string; fbxPath: string | null } | null> {
     const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fbx-zip-'));
 
     try {
@@ -248,12 +348,12 @@ export class WebUsdFramework {
 
       const fbxPath = findFbx(tmpDir);
       if (this.config.debug && fbxPath) {
-        console.log(`Found FBX in ZIP: ${fbxPath}`);
+        logger.info(`Found FBX in ZIP: ${fbxPath}`);
       }
 
-      return fbxPath;
+      return { directory: tmpDir, fbxPath };
     } catch (error) {
-      console.error('Error extracting ZIP:', error);
+      logger.error('Error extracting ZIP', { error: error instanceof Error ? error.message : String(error) });
       // Clean up on error
       try {
         fs.rmSync(tmpDir, { recursive: true, force: true });
@@ -297,6 +397,18 @@ export function defineConfig(config: Partial<WebUsdConfig> = {}): WebUsdFramewor
  */
 export type { WebUsdConfig } from './schemas';
 
+/**
+ * Conversion diagnostics — route log output through a `logger`/`onDiagnostic`
+ * sink and read the structured report of `convertWithReport`.
+ */
+export { LogLevel, type LogEntry, type LogSink, type LogTarget } from './utils/logger';
+export type {
+  ConversionReport,
+  ConversionResult,
+  ConversionCounts,
+  ConversionOutputFile,
+} from './converters/shared/conversion-report';
+
 /**
  * Direct converter exports
  */
@@ -304,6 +416,40 @@ export { convertGlbToUsdz } from './converters/gltf';
 export { convertObjToUsdz } from './converters/obj';
 export { convertStlToUsdz } from './converters/stl';
 export { convertPlyToUsdz } from './converters/ply';
+export { convertThreeMfToUsdz } from './converters/threemf';
+export { readFbxDocument, convertFbxToGlb, type FbxReadOptions } from './converters/fbx';
+
+/**
+ * USDZ / USDC / USDA reading — decode archives and layers back into editable UsdNode trees,
+ * or into glTF documents and GLB.
+ */
+export { readUsdz, readUsdzDocument, convertUsdzToGlb, type UsdzReadResult } from './converters/usdz';
+
+/**
+ * Source model summaries — meshes, materials, textures, animations and bounds before conversion.
+ */
+export {
+  getModelInfo,
+  type ModelInfo,
+  type ModelMeshInfo,
+  type ModelTextureInfo,
+  type ModelAnimationInfo,
+  type ModelBounds,
+} from './converters/info';
+
+/**
+ * USDZ validation — check an archive against the USDZ spec and ARKit rules without the USD toolkit.
+ */
+export {
+  validateUsdz,
+  USDZ_VALIDATION_RULES,
+  type UsdzValidationReport,
+  type UsdzValidationIssue,
+  type UsdzValidationRule,
+  type UsdzValidationSeverity,
+} from './converters/usdz';
+export { readUsdaLayer, UsdaSyntaxError, type UsdaLayer } from './converters/shared/usda';
+export { UsdNode } from './core/usd-node';
 
 /**
  * Streaming USDZ packaging — for callers that already hold a `PackageContent`
@@ -322,13 +468,26 @@ export {
   type LayerFormat,
 } from './converters/shared/usd-packaging';
 
+/**
+ * Progress events and cancellation — the `onProgress` / `signal` options of
+ * `convert` and the `convert*ToUsdz` functions.
+ */
+export type {
+  ConversionControl,
+  ConversionProgress,
+  ProgressCallback,
+} from './converters/shared/conversion-progress';
+
 /**
  * USDC (Pixar Crate) binary layer encoder — re-export of the section
  * encoders, ValueRep helpers, and `UsdcLayerBuilder` orchestrator.
  *
- * Surface is currently advanced/experimental: pipeline integration through
- * `PackageConfig.layerFormat = 'usdc'` is staged behind a follow-up task
- * (see issue #122). Most consumers should not need these directly until
- * that integration ships.
+ * Advanced surface: the converters reach it through
+ * `layerFormat: 'usdc'`, so most consumers should not need these directly.
+ */
+export * as usdc from './converters/shared/usdc';
+
+/**
+ * USDA text layer parser — tokenizer, syntax tree, and `UsdNode` mapping.
  */
-export * as usdc from './converters/shared/usdc';
\ No newline at end of file
+export * as usda from './converters/shared/usda';
\ No newline at end of file
@@ -1,6 +1,7 @@
 /** WebUsdFramework.Schemas.BaseSchemas - Foundational USDA stage header and prim templates */
 
 import { z } from 'zod';
+import type { LogSink, LogTarget } from '../utils/logger';
 
 /**
  * Supported Up Axes Schema
@@ -11,3 +12,106 @@ export const UpAxisSchema = z.enum(['Y', 'Z']);
  * Supported Compression Types Schema
  */
 export const CompressionSchema = z.enum(['STORE', 'DEFLATE']);
+
+/**
+ * GLTF Scene Mode Schema
+ *
+ * - `first`: convert only the first scene (extra scenes are skipped)
+ * - `variants`: every scene becomes a variant of a `sceneVariant` variant set on the default prim
+ * - `siblings`: every scene becomes a sibling prim; only the active scene is left active
+ */
+export const SceneModeSchema = z.enum(['first', 'variants', 'siblings']);
+
+/**
+ * Texture Pipeline Options Schema
+ *
+ * Applied to every texture before packaging. Images QuickLook cannot read
+ * (WebP, AVIF, ...) are always transcoded to PNG or JPEG.
+ */
+export const TextureOptionsSchema = z.object({
+  maxSize: z.number().int().positive().optional(),
+  powerOfTwo: z.boolean().optional(),
+  jpegForOpaqueColor: z.boolean().optional(),
+  jpegQuality: z.number().int().min(1).max(100).optional(),
+});
+
+/**
+ * Animation Resampling Options Schema
+ *
+ * CUBICSPLINE curves are baked at `bakeRate` samples per second and STEP
+ * curves get held keys. Keys are then dropped while the curve stays within
+ * `tolerance` (scene units for translation/scale/weights, radians for
+ * rotation; 0 keeps every key).
+ */
+export const AnimationOptionsSchema = z.object({
+  bakeRate: z.number().positive().optional(),
+  tolerance: z.number().min(0).optional(),
+});
+
+/**
+ * Light Conversion Options Schema
+ *
+ * `units: 'photometric'` converts KHR_lights_punctual lux and candela into
+ * UsdLux intensities, `'raw'` copies the GLTF intensity unchanged. Point and
+ * spot lights become SphereLights of `radius` meters; `guidePurpose` keeps
+ * lights out of renders by authoring `purpose = "guide"`.
+ */
+export const LightOptionsSchema = z.object({
+  units: z.enum(['photometric', 'raw']).optional(),
+  radius: z.number().positive().optional(),
+  guidePurpose: z.boolean().optional(),
+});
+
+/**
+ * Skinning Options Schema
+ *
+ * `maxInfluences` keeps the strongest joint influences per vertex and
+ * renormalizes them. Joints no mesh is weighted to are dropped unless
+ * `stripUnusedJoints` is false. `jointBudget` checks skeletons against
+ * `maxJoints` (ARKit's 256 by default): `'warn'` (default) logs oversized
+ * ones and `'reduce'` folds the least-weighted leaf joints into their parents.
+ */
+export const SkinningOptionsSchema = z.object({
+  maxInfluences: z.number().int().positive().optional(),
+  stripUnusedJoints: z.boolean().optional(),
+  jointBudget: z.enum(['off', 'warn', 'reduce']).optional(),
+  maxJoints: z.number().int().positive().optional(),
+});
+
+/**
+ * Log Target Schema
+ *
+ * Console-like object (`console`, pino, winston, a no-op to silence output)
+ * that receives every conversion message instead of the console.
+ */
+export const LogTargetSchema = z.custom<LogTarget>(
+  (value) => typeof value === 'object' && value !== null &&
+    ['debug', 'info', 'warn', 'error'].every((method) => typeof (value as Record<string, unknown>)[method] === 'function'),
+  { message: 'logger must implement debug, info, warn and error' }
+);
+
+/**
+ * Diagnostic Handler Schema
+ *
+ * Callback receiving every conversion message as a structured `LogEntry`.
+ */
+export const DiagnosticHandlerSchema = z.custom<LogSink>(
+  (value) => typeof value === 'function',
+  { message: 'onDiagnostic must be a function' }
+);
+
+/**
+ * Decimation Target Schema
+ *
+ * Triangle budget for the whole model, shared between meshes in proportion
+ * to their triangle counts (0 = off).
+ */
+export const DecimateTargetSchema = z.number().int().min(0);
+
+/**
+ * Decimation Ratio Schema
+ *
+ * Fraction of triangles to keep (1 = off). With a target as well, the
+ * smaller budget wins.
+ */
+export const DecimateRatioSchema = z.number().gt(0).max(1);
@@ -2,7 +2,7 @@
 
 import { z } from 'zod';
 import { DEFAULT_CONFIG } from '../constants/config';
-import { UpAxisSchema, CompressionSchema } from './base-schemas';
+import { UpAxisSchema, CompressionSchema, SceneModeSchema, TextureOptionsSchema, DecimateTargetSchema, DecimateRatioSchema, AnimationOptionsSchema, LightOptionsSchema, SkinningOptionsSchema, LogTargetSchema, DiagnosticHandlerSchema } from './base-schemas';
 
 /**
  * GLTF Preprocessing Options Schema
@@ -32,6 +32,16 @@ export const WebUsdConfigSchema = z.object({
   upAxis: UpAxisSchema.optional().default('Y'),
   metersPerUnit: z.number().positive().optional().default(1),
   preprocess: GltfPreprocessOptionsSchema.optional(),
+  sceneMode: SceneModeSchema.optional(),
+  activeScene: z.number().int().nonnegative().optional(),
+  textures: TextureOptionsSchema.optional(),
+  decimateTarget: DecimateTargetSchema.optional(),
+  decimateRatio: DecimateRatioSchema.optional(),
+  animation: AnimationOptionsSchema.optional(),
+  lights: LightOptionsSchema.optional(),
+  skinning: SkinningOptionsSchema.optional(),
+  logger: LogTargetSchema.optional(),
+  onDiagnostic: DiagnosticHandlerSchema.optional(),
 });
 
 /**
@@ -43,6 +53,16 @@ export const GltfTransformConfigSchema = z.object({
   upAxis: UpAxisSchema.optional().default('Y'),
   metersPerUnit: z.number().positive().optional().default(1),
   preprocess: GltfPreprocessOptionsSchema.optional(),
+  sceneMode: SceneModeSchema.optional(),
+  activeScene: z.number().int().nonnegative().optional(),
+  textures: TextureOptionsSchema.optional(),
+  decimateTarget: DecimateTargetSchema.optional(),
+  decimateRatio: DecimateRatioSchema.optional(),
+  animation: AnimationOptionsSchema.optional(),
+  lights: LightOptionsSchema.optional(),
+  skinning: SkinningOptionsSchema.optional(),
+  logger: LogTargetSchema.optional(),
+  onDiagnostic: DiagnosticHandlerSchema.optional(),
 });
 
 /**
@@ -111,9 +131,14 @@ export type FilePath = z.infer<typeof FilePathSchema>;
 export type DirectoryPath = z.infer<typeof DirectoryPathSchema>;
 export type UsdPath = z.infer<typeof UsdPathSchema>;
 export type UsdAttributeValue = z.infer<typeof UsdAttributeValueSchema>;
+export type SceneMode = z.infer<typeof SceneModeSchema>;
+export type TextureOptions = z.infer<typeof TextureOptionsSchema>;
+export type AnimationOptions = z.infer<typeof AnimationOptionsSchema>;
+export type LightOptions = z.infer<typeof LightOptionsSchema>;
+export type SkinningOptions = z.infer<typeof SkinningOptionsSchema>;
 
 // Re-export base schemas
-export { UpAxisSchema, CompressionSchema } from './base-schemas';
+export { UpAxisSchema, CompressionSchema, SceneModeSchema, TextureOptionsSchema, AnimationOptionsSchema, LightOptionsSchema, SkinningOptionsSchema, LogTargetSchema, DiagnosticHandlerSchema } from './base-schemas';
 
 // Re-export OBJ schemas
 export { ObjConverterConfigSchema, type ObjConverterConfig } from './obj-schemas';
@@ -124,3 +149,5 @@ export { StlConverterConfigSchema, type StlConverterConfig } from './stl-schemas
 // Re-export PLY schemas
 export { PlyConverterConfigSchema, type PlyConverterConfig } from './ply-schemas';
 
+// Re-export 3MF schemas
+export { ThreeMfConverterConfigSchema, type ThreeMfConverterConfig } from './threemf-schemas';
@@ -1,7 +1,7 @@
 /** WebUsdFramework.Schemas.ObjSchemas - OBJ-specific USDA Mesh and material prim builders */
 
 import { z } from 'zod';
-import { UpAxisSchema } from './base-schemas';
+import { UpAxisSchema, TextureOptionsSchema, DecimateTargetSchema, DecimateRatioSchema } from './base-schemas';
 
 /**
  * OBJ Converter Configuration Schema
@@ -23,6 +23,12 @@ export const ObjConverterConfigSchema = z.object({
   useOAsMesh: z.boolean().optional().default(true),
   useIndices: z.boolean().optional().default(true),
   disregardNormals: z.boolean().optional().default(false),
+  // Widths of BasisCurves (`l` records) and Points (`p` records), in scene units after fit-to-view
+  curveWidth: z.number().positive().optional().default(0.01),
+  pointWidth: z.number().positive().optional().default(0.02),
+  textures: TextureOptionsSchema.optional(),
+  decimateTarget: DecimateTargetSchema.optional(),
+  decimateRatio: DecimateRatioSchema.optional(),
 });
 
 /**
@@ -1,7 +1,7 @@
 /** WebUsdFramework.Schemas.PlySchemas - PLY-specific converter configuration */
 
 import { z } from 'zod';
-import { UpAxisSchema } from './base-schemas';
+import { UpAxisSchema, DecimateTargetSchema, DecimateRatioSchema } from './base-schemas';
 
 /**
  * PLY Converter Configuration Schema
@@ -21,8 +21,9 @@ export const PlyConverterConfigSchema = z.object({
   defaultPointWidth: z.number().positive().optional().default(0.005),
   // Max points for point cloud downsampling (0 = no limit)
   maxPoints: z.number().int().min(0).optional().default(0),
-  // Target face count for mesh decimation via vertex clustering (0 = no decimation)
-  decimateTarget: z.number().int().min(0).optional().default(0),
+  // Quadric-error mesh decimation (0 / 1 = off)
+  decimateTarget: DecimateTargetSchema.optional().default(0),
+  decimateRatio: DecimateRatioSchema.optional().default(1),
 });
 
 export type PlyConverterConfig = z.infer<typeof PlyConverterConfigSchema>;
@@ -1,7 +1,7 @@
 /** WebUsdFramework.Schemas.StlSchemas - STL-specific USDA Mesh schema builders */
 
 import { z } from 'zod';
-import { UpAxisSchema } from './base-schemas';
+import { UpAxisSchema, DecimateTargetSchema, DecimateRatioSchema } from './base-schemas';
 
 /**
  * STL Converter Configuration Schema
@@ -21,6 +21,12 @@ export const StlConverterConfigSchema = z.object({
   ]).optional().default([0.7, 0.7, 0.7]),
   // Automatically compute normals if missing or  invalid
   autoComputeNormals: z.boolean().optional().default(true),
+  // Facet colors become one GeomSubset material per color up to this many
+  // distinct colors; beyond that they are written as uniform displayColor
+  maxColorMaterials: z.number().int().min(0).optional().default(16),
+  // Quadric-error mesh decimation (0 / 1 = off)
+  decimateTarget: DecimateTargetSchema.optional().default(0),
+  decimateRatio: DecimateRatioSchema.optional().default(1),
 });
 
 export type StlConverterConfig = z.infer<typeof StlConverterConfigSchema>;
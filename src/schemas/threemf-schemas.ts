@@ -0,0 +1,26 @@
+/** WebUsdFramework.Schemas.ThreeMfSchemas - 3MF-specific converter configuration */
+
+import { z } from 'zod';
+import { UpAxisSchema, TextureOptionsSchema, DecimateTargetSchema, DecimateRatioSchema } from './base-schemas';
+
+/**
+ * 3MF Converter Configuration Schema
+ */
+export const ThreeMfConverterConfigSchema = z.object({
+  debug: z.boolean().optional().default(false),
+  debugOutputDir: z.string().optional().default('./debug-output'),
+  upAxis: UpAxisSchema.optional().default('Y'),
+  metersPerUnit: z.number().positive().optional().default(1),
+  // Color of triangles without a material or color (linear RGB 0-1)
+  defaultColor: z.tuple([
+    z.number().min(0).max(1),
+    z.number().min(0).max(1),
+    z.number().min(0).max(1)
+  ]).optional().default([0.7, 0.7, 0.7]),
+  textures: TextureOptionsSchema.optional(),
+  // Quadric-error mesh decimation (0 / 1 = off)
+  decimateTarget: DecimateTargetSchema.optional().default(0),
+  decimateRatio: DecimateRatioSchema.optional().default(1),
+});
+
+export type ThreeMfConverterConfig = z.infer<typeof ThreeMfConverterConfigSchema>;
@@ -9,6 +9,7 @@ import { UsdNode } from '../core/usd-node';
 export const API_SCHEMAS = {
   SKEL_BINDING: 'SkelBindingAPI',
   MATERIAL_BINDING: 'MaterialBindingAPI',
+  SHAPING: 'ShapingAPI',
 } as const;
 
 /**
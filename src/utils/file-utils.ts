@@ -2,6 +2,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { logger } from './logger';
 
 /**
  * Check if a path is a directory
@@ -33,7 +34,9 @@ export function findStlFiles(dirPath: string): string[] {
 
     return stlFiles;
   } catch (error) {
-    console.error(`Error reading directory ${dirPath}:`, error);
+    logger.error(`Error reading directory ${dirPath}`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
     return [];
   }
 }
@@ -58,3 +61,123 @@ export function pathExists(filePath: string): boolean {
     return false;
   }
 }
+
+/**
+ * Find every file under a directory (recursive) whose extension is in `extensions`
+ * Returns absolute paths, sorted for consistent ordering
+ */
+export function findFilesByExtension(dirPath: string, extensions: ReadonlyArray<string>): string[] {
+  if (!isDirectory(dirPath)) {
+    return [];
+  }
+
+  const wanted = new Set(extensions.map(ext => ext.toLowerCase()));
+  const found: string[] = [];
+  const walk = (dir: string): void => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile() && wanted.has(path.extname(entry.name).toLowerCase())) {
+        found.push(path.resolve(fullPath));
+      }
+    }
+  };
+  walk(dirPath);
+  return found.sort();
+}
+
+/**
+ * Check if a path contains glob syntax (`*`, `?`, `[...]`, `{a,b}`)
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Check if a CLI input should be expanded as a glob
+ * An existing file or directory is always literal, even with glob syntax in its name
+ * Example: "chair [v2].glb" -> false when that file exists
+ */
+export function isGlobInput(input: string): boolean {
+  return !pathExists(input) && isGlobPattern(input);
+}
+
+/**
+ * Leading directory of a glob pattern, before its first wildcard segment
+ * Example: "assets/props/**\/*.glb" -> "assets/props"
+ */
+export function getGlobBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex(segment => isGlobPattern(segment));
+  const base = segments.slice(0, firstGlob === -1 ? segments.length - 1 : firstGlob).join('/');
+  return base || (pattern.startsWith('/') ? '/' : '.');
+}
+
+/**
+ * Expand a glob pattern against the filesystem
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`; returns absolute paths, sorted
+ */
+export function expandGlob(pattern: string): string[] {
+  const base = path.resolve(getGlobBase(pattern));
+  const matcher = globToRegExp(path.resolve(pattern).split(path.sep).join('/'));
+  if (!isDirectory(base)) {
+    return [];
+  }
+
+  const found: string[] = [];
+  const walk = (dir: string): void => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile() && matcher.test(fullPath.split(path.sep).join('/'))) {
+        found.push(fullPath);
+      }
+    }
+  };
+  walk(base);
+  return found.sort();
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
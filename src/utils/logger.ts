@@ -1,5 +1,7 @@
 /** WebUsdFramework.Utils.Logger - Hierarchical scoped logging facility */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+
 /**
  * Log Levels
  */
@@ -23,6 +25,8 @@ export interface LoggerOptions {
   predicate?: (getState: () => unknown, operation: unknown) => boolean;
   stateTransformer?: (state: unknown) => unknown;
   operationTransformer?: (operation: unknown) => unknown;
+  /** Receives every message instead of the console */
+  sink?: LogSink | undefined;
 }
 
 /**
@@ -37,6 +41,90 @@ export interface LoggerContext {
   [key: string]: unknown;
 }
 
+/**
+ * Log Entry Interface
+ * One message as handed to a log sink
+ */
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  /** Prefix of the logger that wrote the message, e.g. 'WebUSD-Conversion' */
+  source: string;
+  /** Milliseconds since the epoch */
+  time: number;
+  /** Machine-readable identifier, taken from `context.code` */
+  code?: string | undefined;
+  context?: LoggerContext | undefined;
+  data?: unknown;
+}
+
+/**
+ * Log Sink Type
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+/**
+ * Log Target Interface
+ * Any console-like logger (console, pino, winston, ...) messages can be routed to
+ */
+export interface LogTarget {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Log Scope Interface
+ * Sink and observers active for the current async call chain
+ */
+interface LogScope {
+  sink?: LogSink | undefined;
+  observers: LogSink[];
+}
+
+const logScope = new AsyncLocalStorage<LogScope>();
+
+/**
+ * Run `fn` with every logger writing to `sink` instead of the console,
+ * including loggers created inside it. Concurrent runs keep their own sinks.
+ */
+export function runWithLogSink<T>(sink: LogSink | undefined, fn: () => T): T {
+  if (!sink) return fn();
+  const scope = logScope.getStore();
+  return logScope.run({ sink, observers: scope?.observers ?? [] }, fn);
+}
+
+/**
+ * Run `fn` with `observer` seeing every message logged inside it, in
+ * addition to wherever the message is written
+ */
+export function runWithLogObserver<T>(observer: LogSink, fn: () => T): T {
+  const scope = logScope.getStore();
+  return logScope.run({ sink: scope?.sink, observers: [...(scope?.observers ?? []), observer] }, fn);
+}
+
+/**
+ * Create a sink that forwards messages to a console-like logger and/or a
+ * callback. Returns undefined when neither is given, so output stays on
+ * the console.
+ */
+export function createLogSink(target?: LogTarget, onEntry?: LogSink): LogSink | undefined {
+  if (!target && !onEntry) return undefined;
+  return (entry) => {
+    if (target) {
+      const details = entry.context ?? entry.data;
+      const message = `[${entry.source}] ${entry.message}`;
+      if (details !== undefined) {
+        target[entry.level](message, details);
+      } else {
+        target[entry.level](message);
+      }
+    }
+    onEntry?.(entry);
+  };
+}
+
 /**
  * Internal Logger Class
  */
@@ -54,7 +142,8 @@ export class Logger {
       prefix: options.prefix || 'WebUSD',
       predicate: options.predicate || (() => true),
       stateTransformer: options.stateTransformer || ((state) => state),
-      operationTransformer: options.operationTransformer || ((operation) => operation)
+      operationTransformer: options.operationTransformer || ((operation) => operation),
+      sink: options.sink
     };
   }
 
@@ -134,10 +223,33 @@ export class Logger {
 
   /**
    * Base log method
+   * Hands the entry to the scope's observers, then to the logger's own
+   * sink, the scope's sink or the console, in that order of preference
    */
   private log(level: LogLevel, message: string, context?: LoggerContext, data?: unknown): void {
     if (!this.shouldLog(level)) return;
 
+    const entry: LogEntry = {
+      level,
+      message,
+      source: this.options.prefix,
+      time: Date.now(),
+      code: typeof context?.['code'] === 'string' ? context['code'] : undefined,
+      context,
+      data
+    };
+
+    const scope = logScope.getStore();
+    for (const observer of scope?.observers ?? []) {
+      observer(entry);
+    }
+
+    const sink = this.options.sink ?? scope?.sink;
+    if (sink) {
+      sink(entry);
+      return;
+    }
+
     const timestamp = this.formatTimestamp();
     const levelPrefix = this.getLevelPrefix(level);
     const color = this.getColor(level);
@@ -156,6 +268,13 @@ export class Logger {
     }
   }
 
+  /**
+   * Whether structured output should go to a sink instead of the console
+   */
+  private hasSink(): boolean {
+    return !!(this.options.sink ?? logScope.getStore()?.sink);
+  }
+
   /**
    * Debug level logging
    */
@@ -274,6 +393,11 @@ export class Logger {
    * Log operation with state transitions
    */
   logOperation(operation: string, prevState?: unknown, nextState?: unknown, duration?: number): void {
+    if (this.hasSink()) {
+      this.info(`operation ${operation}`, { operation, prevState, nextState, duration });
+      return;
+    }
+
     const colors = this.getStructuredColors();
     const time = this.formatTimestamp();
     const timeStr = time ? ` @ ${time}` : '';
@@ -302,6 +426,11 @@ export class Logger {
    * Log state differences
    */
   logStateDiff(prevState: unknown, nextState: unknown, operation?: string): void {
+    if (this.hasSink()) {
+      this.info(`operation ${operation ?? 'state change'}`, { operation, prevState, nextState });
+      return;
+    }
+
     const colors = this.getStructuredColors();
 
     if (operation) {
@@ -325,6 +454,12 @@ export class Logger {
    * Log grouped operations
    */
   logGrouped(operation: string, content: () => void): void {
+    if (this.hasSink()) {
+      this.info(`operation ${operation}`, { operation });
+      content();
+      return;
+    }
+
     const colors = this.getStructuredColors();
     const time = this.formatTimestamp();
     const timeStr = time ? ` @ ${time}` : '';